@@ -6,6 +6,9 @@ import { WebsiteBuilder } from './components/WebsiteBuilder';
 import { Invoicing } from './components/Invoicing';
 import { VideoStudio } from './components/VideoStudio';
 import { MyCustomers } from './components/MyCustomers';
+import { PipelineBoard } from './components/PipelineBoard';
+import { NewLeadsInbox } from './components/NewLeadsInbox';
+import { TodayTasks } from './components/TodayTasks';
 import { ImageStudio } from './components/ImageStudio';
 import { CampaignHistory } from './components/CampaignHistory';
 import { Settings } from './components/Settings';
@@ -23,9 +26,12 @@ import { LandingPage } from './components/LandingPage';
 import { PrivacyPolicy } from './components/PrivacyPolicy';
 import { TermsOfService } from './components/TermsOfService';
 import { GuidedWalkthrough } from './components/GuidedWalkthrough';
+import { SyncConflictDialog } from './components/SyncConflictDialog';
 import { AuthProvider, useAuth } from './hooks/useAuth';
 import { useCredits } from './hooks/useCredits';
 import { useCustomers } from './hooks/useCustomers';
+import { useSavedSearches } from './hooks/useSavedSearches';
+import { countDueTasks } from './lib/leadTasks';
 import { AuthPage } from './components/AuthPage';
 import WizardLoaderPreview from './components/WizardLoaderPreview';
 import { FloatingContactButton } from './components/FloatingContactButton';
@@ -64,26 +70,61 @@ const ImageIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w
 const ArchiveIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" /></svg>;
 const RocketIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>;
 const EditIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg>;
+const TasksIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" /></svg>;
+const PipelineIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" /></svg>;
 const CatalogIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" /></svg>;
 const ChevronLeftIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M12.707 5.293a1 1 0 010 1.414L9.414 10l3.293 3.293a1 1 0 01-1.414 1.414l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 0z" clipRule="evenodd" /></svg>;
 const ChevronRightIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" /></svg>;
 
+// Views that show every customer's history or website files
+const DETAIL_VIEWS = [
+  AppView.CAMPAIGN_HISTORY,
+  AppView.SITES_MANAGER,
+  AppView.WEBSITE_EDITOR,
+  AppView.AI_WEBSITE_EDITOR,
+  AppView.MARKETING,
+  AppView.IMAGE_STUDIO,
+  AppView.VIDEO_STUDIO,
+];
+
 // Inner component that uses auth and credits hooks
 function AppContent() {
   const { user, loading: authLoading } = useAuth();
-  const { credits, refreshCredits } = useCredits();
+  const { credits, refreshCredits, hostingSlots, hostingSlotsUsed } = useCredits();
   const {
     customers: myCustomers,
     saveCustomer: saveCustomerToFirebase,
+    importCustomers,
     updateCustomer: updateCustomerInFirebase,
+    loadCustomerDetails,
     syncStatus,
+    pendingOperations,
+    conflicts,
+    resolveConflict,
     loading: customersLoading,
   } = useCustomers();
+  const {
+    searches: savedSearches,
+    newLeads,
+    saveSearch,
+    setSearchSchedule,
+    deleteSearch,
+    setDiscoveredStatus,
+  } = useSavedSearches();
+  const dueTaskCount = countDueTasks(myCustomers);
 
   const [currentView, setCurrentView] = useState<AppView>(AppView.LANDING);
   const [leads, setLeads] = useState<Lead[]>([]); // Search results
   const [selectedLead, setSelectedLead] = useState<Lead | null>(null);
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
+  // Conflicts the user chose to decide later; new ones open the dialog again
+  const [dismissedConflictIds, setDismissedConflictIds] = useState<string[]>([]);
+  const showConflicts = conflicts.some(c => !dismissedConflictIds.includes(c.id));
+
+  // The selected lead as currently synced, with its loaded history and files
+  const currentLead = selectedLead
+    ? myCustomers.find(c => c.id === selectedLead.id) || selectedLead
+    : null;
 
   // Walkthrough state - check localStorage for completion status
   const [showWalkthrough, setShowWalkthrough] = useState(false);
@@ -104,6 +145,15 @@ function AppContent() {
     }
   }, [user]);
 
+  // History and website files are loaded per customer when a view needs them
+  useEffect(() => {
+    if (DETAIL_VIEWS.includes(currentView)) {
+      loadCustomerDetails(myCustomers.map(c => c.id));
+    } else if (selectedLead) {
+      loadCustomerDetails([selectedLead.id]);
+    }
+  }, [currentView, selectedLead?.id, myCustomers.length, loadCustomerDetails]);
+
   // Trigger walkthrough when user enters the app from landing page for the first time
   useEffect(() => {
     if (currentView !== AppView.LANDING && !hasSeenWalkthrough && !showWalkthrough) {
@@ -151,14 +201,8 @@ function AppContent() {
       setCurrentView(AppView.MY_CUSTOMERS);
   };
 
-  // Credit operations - now using Firebase credits
-  // Note: Actual deduction happens on the backend when using Gemini
-  // This is for local UI feedback; real credits are managed by Cloud Functions
-  const deductCredit = (amount: number) => {
-    // Refresh credits from server after operations that use credits
-    refreshCredits();
-  };
-
+  // Credits are charged by the Cloud Functions that run AI features;
+  // useCredits follows the balance in real time
   const addCredits = (amount: number) => {
     // Credits are added via Stripe checkout on the backend
     // This is kept for legacy compatibility but refreshes from server
@@ -199,7 +243,7 @@ function AppContent() {
     return (
       <WebsiteEditor
         customers={myCustomers}
-        selectedCustomer={selectedLead}
+        selectedCustomer={currentLead}
         onUpdateCustomer={updateCustomer}
         onBack={() => setCurrentView(AppView.SITES_MANAGER)}
       />
@@ -212,10 +256,9 @@ function AppContent() {
     return (
       <AIWebsiteEditor
         customers={myCustomers}
-        selectedCustomer={selectedLead}
+        selectedCustomer={currentLead}
         onUpdateCustomer={updateCustomer}
         onBack={() => setCurrentView(AppView.SITES_MANAGER)}
-        onUseCredit={deductCredit}
       />
     );
   }
@@ -230,6 +273,14 @@ function AppContent() {
         />
       )}
 
+      {showConflicts && (
+        <SyncConflictDialog
+          conflicts={conflicts}
+          onResolve={resolveConflict}
+          onClose={() => setDismissedConflictIds(conflicts.map(c => c.id))}
+        />
+      )}
+
       {/* Sidebar */}
       <aside
         data-walkthrough="sidebar"
@@ -277,6 +328,20 @@ function AppContent() {
                 collapsed={isSidebarCollapsed}
               />
             </div>
+            <NavButton
+              active={currentView === AppView.PIPELINE}
+              onClick={() => setCurrentView(AppView.PIPELINE)}
+              icon={<PipelineIcon />}
+              label="Pipeline"
+              collapsed={isSidebarCollapsed}
+            />
+            <NavButton
+              active={currentView === AppView.TASKS}
+              onClick={() => setCurrentView(AppView.TASKS)}
+              icon={<TasksIcon />}
+              label={dueTaskCount > 0 ? `Today (${dueTaskCount})` : 'Today'}
+              collapsed={isSidebarCollapsed}
+            />
             <NavButton
               active={currentView === AppView.SERVICE_CATALOG}
               onClick={() => setCurrentView(AppView.SERVICE_CATALOG)}
@@ -380,7 +445,11 @@ function AppContent() {
                                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"/>
                                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"/>
                             </svg>
-                            <span>Syncing...</span>
+                            <span>
+                                {pendingOperations > 0
+                                    ? `Syncing ${pendingOperations} ${pendingOperations === 1 ? 'change' : 'changes'}...`
+                                    : 'Syncing...'}
+                            </span>
                         </>
                     )}
                     {syncStatus === 'offline' && (
@@ -388,7 +457,10 @@ function AppContent() {
                             <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 5.636a9 9 0 010 12.728m0 0l-2.829-2.829m2.829 2.829L21 21M15.536 8.464a5 5 0 010 7.072m0 0l-2.829-2.829m-4.243 2.829a4.978 4.978 0 01-1.414-2.83m-1.414 5.658a9 9 0 01-2.167-9.238m7.824 2.167a1 1 0 111.414 1.414m-1.414-1.414L3 3m8.293 8.293l1.414 1.414" />
                             </svg>
-                            <span>Offline mode</span>
+                            <span>
+                                Offline mode
+                                {pendingOperations > 0 && ` · ${pendingOperations} ${pendingOperations === 1 ? 'change' : 'changes'} pending`}
+                            </span>
                         </>
                     )}
                     {syncStatus === 'error' && (
@@ -401,6 +473,17 @@ function AppContent() {
                     )}
                 </div>
             )}
+            {!isSidebarCollapsed && conflicts.length > 0 && (
+                <button
+                    onClick={() => setDismissedConflictIds([])}
+                    className="w-full flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs mb-2 bg-amber-50 text-amber-700 hover:bg-amber-100 transition-colors"
+                >
+                    <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                    </svg>
+                    <span>{conflicts.length} sync {conflicts.length === 1 ? 'conflict' : 'conflicts'} to resolve</span>
+                </button>
+            )}
 
             <button
                 onClick={() => setIsSidebarCollapsed(!isSidebarCollapsed)}
@@ -416,33 +499,47 @@ function AppContent() {
       <div className="flex-1 flex flex-col h-screen overflow-hidden relative">
         
         {/* Top Header */}
-        <Header onNavigate={setCurrentView} onRestartTour={restartWalkthrough} />
+        <Header onNavigate={setCurrentView} onRestartTour={restartWalkthrough} newLeadsCount={newLeads.length} />
 
         {/* Scrollable Main Area */}
         <main className="flex-1 overflow-y-auto p-4 lg:p-10 scroll-smooth bg-[#F9F6F0]">
             <div className="max-w-7xl mx-auto">
             {currentView === AppView.WIZARD && (
                 <Wizard 
-                    onUseCredit={deductCredit} 
                     onSaveLead={saveCustomer}
                     onUpdateLead={updateCustomer}
-                    existingLead={selectedLead}
+                    existingLead={currentLead}
                 />
             )}
             {currentView === AppView.LEAD_FINDER && (
                 <LeadFinder 
                     onLeadsFound={(newLeads) => setLeads(newLeads)} 
-                    onUseCredit={() => deductCredit(5)}
                     onAnalyze={handleLeadAction}
                     savedLeads={myCustomers}
                     onSaveLead={saveCustomer}
+                    savedSearches={savedSearches}
+                    onSaveSearch={saveSearch}
+                    onSetSearchSchedule={setSearchSchedule}
+                    onDeleteSearch={deleteSearch}
+                />
+            )}
+            {currentView === AppView.NEW_LEADS && (
+                <NewLeadsInbox
+                    newLeads={newLeads}
+                    searches={savedSearches}
+                    savedLeads={myCustomers}
+                    onSaveLead={saveCustomer}
+                    onSetStatus={setDiscoveredStatus}
+                    onOpenScout={() => setCurrentView(AppView.LEAD_FINDER)}
                 />
             )}
             {currentView === AppView.MY_CUSTOMERS && (
                 <MyCustomers
                     customers={myCustomers}
                     onUpdateCustomer={updateCustomer}
-                    onUseCredit={deductCredit}
+                    onImportCustomers={importCustomers}
+                    initialCustomerId={selectedLead?.id}
+                    onLoadCustomerDetails={loadCustomerDetails}
                     onBuildWebsite={(lead) => {
                         setSelectedLead(lead);
                         setCurrentView(AppView.WEBSITE_BUILDER);
@@ -453,13 +550,28 @@ function AppContent() {
                     }}
                 />
             )}
+            {currentView === AppView.TASKS && (
+                <TodayTasks
+                    customers={myCustomers}
+                    onUpdateCustomer={updateCustomer}
+                    onOpenCustomer={(lead) => {
+                        setSelectedLead(lead);
+                        setCurrentView(AppView.MY_CUSTOMERS);
+                    }}
+                />
+            )}
+            {currentView === AppView.PIPELINE && (
+                <PipelineBoard
+                    customers={myCustomers}
+                    onUpdateCustomer={updateCustomer}
+                />
+            )}
             {currentView === AppView.SERVICE_CATALOG && (
               <ServiceCatalog />
             )}
             {currentView === AppView.MARKETING && (
                 <MarketingStudio
-                    selectedLead={selectedLead}
-                    onUseCredit={() => deductCredit(2)}
+                    selectedLead={currentLead}
                     leads={myCustomers}
                     onSelectLead={setSelectedLead}
                     onUpdateLead={updateCustomer}
@@ -470,8 +582,7 @@ function AppContent() {
             )}
             {currentView === AppView.IMAGE_STUDIO && (
                 <ImageStudio 
-                    selectedLead={selectedLead} 
-                    onUseCredit={() => deductCredit(5)}
+                    selectedLead={currentLead} 
                     leads={myCustomers}
                     onSelectLead={setSelectedLead}
                     onUpdateLead={updateCustomer}
@@ -479,15 +590,13 @@ function AppContent() {
             )}
             {currentView === AppView.WEBSITE_BUILDER && (
                 <WebsiteBuilder 
-                    onUseCredit={() => deductCredit(10)} 
-                    selectedLead={selectedLead}
+                    selectedLead={currentLead}
                     onUpdateLead={updateCustomer}
                 />
             )}
             {currentView === AppView.VIDEO_STUDIO && (
                 <VideoStudio 
-                    onUseCredit={() => deductCredit(20)} 
-                    selectedLead={selectedLead}
+                    selectedLead={currentLead}
                     leads={myCustomers}
                     onSelectLead={setSelectedLead}
                     onUpdateLead={updateCustomer}
@@ -523,6 +632,9 @@ function AppContent() {
                         setSelectedLead(customer);
                         setCurrentView(AppView.AI_WEBSITE_EDITOR);
                     }}
+                    onSitePublished={(customer, url) => updateCustomer({ ...customer, websiteUrl: url })}
+                    hostingSlots={hostingSlots}
+                    hostingSlotsUsed={hostingSlotsUsed}
                 />
             )}
 
@@ -575,6 +687,9 @@ function AppContent() {
       [AppView.DASHBOARD]: 'Dashboard',
       [AppView.LEAD_FINDER]: 'Scout Customers',
       [AppView.MY_CUSTOMERS]: 'My Customers',
+      [AppView.PIPELINE]: 'Pipeline',
+      [AppView.NEW_LEADS]: 'New Leads',
+      [AppView.TASKS]: 'Today',
       [AppView.MARKETING]: 'Marketing Studio',
       [AppView.CAMPAIGN_HISTORY]: 'Campaign History',
       [AppView.WEBSITE_BUILDER]: 'Website Builder',
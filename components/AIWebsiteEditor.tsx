@@ -1,7 +1,7 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Lead, ChatMessage, WebsiteVersion, SelectedElement } from '../types';
 import { editWebsiteWithAI, generateWebsiteFromPrompt, summarizeWebsiteChanges, addPageToWebsite } from '../services/geminiService';
-import { publishWebsite as publishToFirebase, isPublishingAvailable } from '../services/publishingService';
+import { publishWebsite as publishToFirebase, updateWebsite, isPublishingAvailable } from '../services/publishingService';
 import { CustomDomainSetup } from './CustomDomainSetup';
 
 // Page templates for multi-page support
@@ -28,7 +28,6 @@ interface AIWebsiteEditorProps {
   selectedCustomer?: Lead | null;
   onUpdateCustomer: (customer: Lead) => void;
   onBack: () => void;
-  onUseCredit: (amount: number) => void;
 }
 
 // Default starter template
@@ -159,8 +158,7 @@ export const AIWebsiteEditor: React.FC<AIWebsiteEditorProps> = ({
   customers,
   selectedCustomer,
   onUpdateCustomer,
-  onBack,
-  onUseCredit
+  onBack
 }) => {
   // State
   const [activeCustomer, setActiveCustomer] = useState<Lead | null>(selectedCustomer || null);
@@ -189,6 +187,8 @@ export const AIWebsiteEditor: React.FC<AIWebsiteEditorProps> = ({
   const [showPublishSuccess, setShowPublishSuccess] = useState(false);
   const [publishedUrl, setPublishedUrl] = useState<string | null>(null);
   const [publishedWebsiteId, setPublishedWebsiteId] = useState<string | null>(null);
+  // Summaries of the AI edits since the last publish, recorded with the next release
+  const [unpublishedChanges, setUnpublishedChanges] = useState<string[]>([]);
   const [publishError, setPublishError] = useState<string | null>(null);
   const [attachments, setAttachments] = useState<Array<{ id: string; name: string; type: string; url: string; size: number }>>([]);
   const [isDraggingFile, setIsDraggingFile] = useState(false);
@@ -396,13 +396,11 @@ export const AIWebsiteEditor: React.FC<AIWebsiteEditorProps> = ({
         selectedElement || undefined
       );
 
-      // Use credit
-      onUseCredit(5);
-
       // Get summary of changes
       const summary = await summarizeWebsiteChanges(htmlCode, newCode, inputValue.trim());
 
       setHtmlCode(newCode);
+      setUnpublishedChanges(prev => [...prev, summary]);
 
       const assistantMessage: ChatMessage = {
         id: `msg-${Date.now()}`,
@@ -450,8 +448,6 @@ export const AIWebsiteEditor: React.FC<AIWebsiteEditorProps> = ({
       const businessName = activeCustomer?.businessName || 'My Business';
       const newCode = await generateWebsiteFromPrompt(description, businessName);
 
-      onUseCredit(10);
-
       setHtmlCode(newCode);
       saveVersion('Initial generation', newCode);
 
@@ -602,16 +598,21 @@ export const AIWebsiteEditor: React.FC<AIWebsiteEditorProps> = ({
     try {
       // Check if Firebase publishing is available
       if (isPublishingAvailable()) {
-        // Use real Firebase Hosting
-        const result = await publishToFirebase(
-          htmlCode,
-          activeCustomer.businessName || 'my-website',
-          activeCustomer.id
-        );
+        // Use real Firebase Hosting; publishing again updates the same website
+        const changeSummary = unpublishedChanges.join(' ') || undefined;
+        const result = publishedWebsiteId
+          ? await updateWebsite(publishedWebsiteId, htmlCode, changeSummary)
+          : await publishToFirebase(
+              htmlCode,
+              activeCustomer.businessName || 'my-website',
+              activeCustomer.id,
+              changeSummary
+            );
 
         const deployedUrl = result.firebaseUrl;
         setPublishedUrl(deployedUrl);
         setPublishedWebsiteId(result.websiteId);
+        setUnpublishedChanges([]);
 
         // Update customer with the published URL
         onUpdateCustomer({
@@ -736,9 +737,6 @@ export const AIWebsiteEditor: React.FC<AIWebsiteEditorProps> = ({
         businessContext
       );
 
-      // Use credit
-      onUseCredit(8);
-
       setHtmlCode(newCode);
 
       // Add success message
@@ -828,6 +826,8 @@ export const AIWebsiteEditor: React.FC<AIWebsiteEditorProps> = ({
                     onClick={() => {
                       setActiveCustomer(customer);
                       setShowCustomerSelector(false);
+                      setPublishedWebsiteId(null);
+                      setUnpublishedChanges([]);
                       if (customer.websiteUrl) {
                         // Load existing website
                       }
@@ -0,0 +1,352 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { findLeadsWithMaps, findSubAreas } from '../services/geminiService';
+import { inspectWebsites } from '../services/leadService';
+import { Lead } from '../types';
+import { LeadMatch, findDuplicateLead } from '../lib/leadMatching';
+import { getScoreBadgeClass, withLeadScore } from '../lib/leadScoring';
+import {
+  BatchSearchTask,
+  MAX_BATCH_SEARCHES,
+  buildBatchTasks,
+  formatFoundLeads,
+  parseSearchList,
+  runBatchSearch,
+} from '../lib/leadSearch';
+
+interface Props {
+  onAnalyze: (lead: Lead) => void;
+  savedLeads: Lead[];
+  onSaveLead: (lead: Lead) => void;
+}
+
+type AreaMode = 'list' | 'radius';
+
+const PAGE_SIZE = 12;
+
+const TASK_STATUS_CLASS: Record<BatchSearchTask['status'], string> = {
+  queued: 'bg-gray-100 text-gray-500',
+  running: 'bg-purple-100 text-purple-700 animate-pulse',
+  done: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-600',
+  cancelled: 'bg-gray-100 text-gray-400 line-through',
+};
+
+export const BatchLeadSearch: React.FC<Props> = ({ onAnalyze, savedLeads, onSaveLead }) => {
+  const [categoriesText, setCategoriesText] = useState('');
+  const [areaMode, setAreaMode] = useState<AreaMode>('list');
+  const [locationsText, setLocationsText] = useState('');
+  const [center, setCenter] = useState('');
+  const [radiusMiles, setRadiusMiles] = useState(10);
+  const [subAreaCount, setSubAreaCount] = useState(5);
+  const [perSearch, setPerSearch] = useState(5);
+  const [tasks, setTasks] = useState<BatchSearchTask[]>([]);
+  const [running, setRunning] = useState(false);
+  const [preparing, setPreparing] = useState(false);
+  const [results, setResults] = useState<Lead[]>([]);
+  const [sortBy, setSortBy] = useState<'search' | 'score'>('search');
+  const [page, setPage] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const categories = parseSearchList(categoriesText);
+  const locations = parseSearchList(locationsText);
+  const plannedSearches = categories.length * (areaMode === 'list' ? locations.length : subAreaCount);
+  const canStart = categories.length > 0 &&
+    (areaMode === 'list' ? locations.length > 0 : center.trim() !== '') &&
+    plannedSearches <= MAX_BATCH_SEARCHES;
+
+  const finishedCount = tasks.filter(t => t.status !== 'queued' && t.status !== 'running').length;
+
+  const savedMatches = useMemo(() => {
+    const matches = new Map<string, LeadMatch>();
+    results.forEach(lead => {
+      const saved = savedLeads.find(s => s.id === lead.id);
+      const match = saved
+        ? { lead: saved, score: 1, reasons: ['Saved from this search'] }
+        : findDuplicateLead(lead, savedLeads);
+      if (match) matches.set(lead.id, match);
+    });
+    return matches;
+  }, [results, savedLeads]);
+
+  const sortedResults = useMemo(() => (
+    sortBy === 'score'
+      ? [...results].sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+      : results
+  ), [results, sortBy]);
+  const pageCount = Math.max(1, Math.ceil(sortedResults.length / PAGE_SIZE));
+  const pageResults = sortedResults.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  const checkWebsites = async (leads: Lead[]) => {
+    const toCheck = leads.filter(lead => lead.existingWebsiteUrl && !lead.websiteSignals);
+    if (toCheck.length === 0) return;
+
+    try {
+      const signals = await inspectWebsites(toCheck.map(lead => lead.existingWebsiteUrl!));
+      const signalsById = new Map(toCheck.map((lead, i) => [lead.id, signals[i]]));
+      setResults(prev => prev.map(lead => {
+        const websiteSignals = signalsById.get(lead.id);
+        return websiteSignals ? withLeadScore({ ...lead, websiteSignals }) : lead;
+      }));
+    } catch (error) {
+      console.error("Website check failed", error);
+    }
+  };
+
+  const handleStart = async () => {
+    if (!canStart) return;
+
+    let areas = locations;
+    if (areaMode === 'radius') {
+      setPreparing(true);
+      try {
+        areas = await findSubAreas(center.trim(), radiusMiles, subAreaCount);
+      } catch (error) {
+        console.error("Sub-area lookup failed", error);
+      } finally {
+        setPreparing(false);
+      }
+      if (areas.length === 0) {
+        alert("Couldn't split that territory into areas. Try a list of locations instead.");
+        return;
+      }
+    }
+
+    const queued = buildBatchTasks(categories, areas);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setTasks(queued);
+    setResults([]);
+    setPage(0);
+    setRunning(true);
+
+    const batchId = Date.now();
+    const found = await runBatchSearch(
+      queued,
+      async (task) => {
+        const response = await findLeadsWithMaps(task.query, task.location, perSearch);
+        return formatFoundLeads(response, `lead-${batchId}-${task.id}`);
+      },
+      {
+        onTaskUpdate: (task) => setTasks(prev => prev.map(t => (t.id === task.id ? task : t))),
+        onResults: setResults,
+        signal: controller.signal,
+      }
+    );
+
+    setRunning(false);
+    abortRef.current = null;
+    checkWebsites(found);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-pink-100 space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Business Types</label>
+          <textarea
+            rows={2}
+            placeholder="e.g. Bakeries, Yoga Studios, Florists"
+            className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-purple-200 focus:border-purple-400 outline-none"
+            value={categoriesText}
+            onChange={(e) => setCategoriesText(e.target.value)}
+          />
+        </div>
+
+        <div className="flex gap-2 text-sm">
+          <button
+            onClick={() => setAreaMode('list')}
+            className={`px-3 py-1.5 rounded-lg border ${areaMode === 'list' ? 'bg-purple-50 border-purple-300 text-purple-700' : 'border-gray-200 text-gray-500'}`}
+          >
+            List of locations
+          </button>
+          <button
+            onClick={() => setAreaMode('radius')}
+            className={`px-3 py-1.5 rounded-lg border ${areaMode === 'radius' ? 'bg-purple-50 border-purple-300 text-purple-700' : 'border-gray-200 text-gray-500'}`}
+          >
+            Territory (center + radius)
+          </button>
+        </div>
+
+        {areaMode === 'list' ? (
+          <textarea
+            rows={3}
+            placeholder={"One location per line, e.g.\nSeattle, WA\nTacoma, WA"}
+            className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-purple-200 focus:border-purple-400 outline-none"
+            value={locationsText}
+            onChange={(e) => setLocationsText(e.target.value)}
+          />
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input
+              type="text"
+              placeholder="Center, e.g. Portland, OR"
+              className="px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-purple-200 focus:border-purple-400 outline-none"
+              value={center}
+              onChange={(e) => setCenter(e.target.value)}
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              Radius
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={radiusMiles}
+                onChange={(e) => setRadiusMiles(Math.max(1, Math.min(100, Number(e.target.value) || 1)))}
+                className="w-20 px-3 py-2 rounded-lg border border-gray-200"
+              />
+              miles
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              Split into
+              <input
+                type="number"
+                min={2}
+                max={10}
+                value={subAreaCount}
+                onChange={(e) => setSubAreaCount(Math.max(2, Math.min(10, Number(e.target.value) || 2)))}
+                className="w-20 px-3 py-2 rounded-lg border border-gray-200"
+              />
+              areas
+            </label>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-4 justify-between">
+          <div className="flex items-center gap-3 text-sm text-gray-600">
+            <label className="flex items-center gap-2">
+              Businesses per search
+              <select value={perSearch} onChange={(e) => setPerSearch(Number(e.target.value))} className="px-2 py-1 border border-gray-200 rounded-lg">
+                <option value={5}>5</option>
+                <option value={10}>10</option>
+              </select>
+            </label>
+            <span className={plannedSearches > MAX_BATCH_SEARCHES ? 'text-red-500' : 'text-gray-400'}>
+              {plannedSearches} search{plannedSearches === 1 ? '' : 'es'}
+              {plannedSearches > MAX_BATCH_SEARCHES && ` (max ${MAX_BATCH_SEARCHES})`}
+            </span>
+          </div>
+          {running ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="px-6 py-3 border border-gray-200 text-gray-600 rounded-xl font-semibold hover:bg-gray-50"
+            >
+              Stop After Current Search
+            </button>
+          ) : (
+            <button
+              onClick={handleStart}
+              disabled={!canStart || preparing}
+              className="px-8 py-3 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-xl font-semibold shadow-lg hover:opacity-90 disabled:opacity-50"
+            >
+              {preparing ? 'Mapping Territory...' : 'Run Batch Search'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Progress */}
+      {tasks.length > 0 && (
+        <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium text-gray-700">
+              {running ? `Searching ${finishedCount + 1} of ${tasks.length}...` : `Finished ${finishedCount} of ${tasks.length} searches`}
+            </span>
+            <span className="text-gray-500">{results.length} unique businesses</span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div className="h-full bg-purple-500 transition-all" style={{ width: `${(finishedCount / tasks.length) * 100}%` }} />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {tasks.map(task => (
+              <span
+                key={task.id}
+                className={`text-xs px-2 py-1 rounded-full ${TASK_STATUS_CLASS[task.status]}`}
+                title={task.error || `${task.resultCount} found`}
+              >
+                {task.query} · {task.location}{task.status === 'done' && ` (${task.resultCount})`}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Results */}
+      {results.length > 0 && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-end">
+            <select
+              value={sortBy}
+              onChange={(e) => { setSortBy(e.target.value as 'search' | 'score'); setPage(0); }}
+              className="px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-600"
+            >
+              <option value="search">Sort: Search order</option>
+              <option value="score">Sort: Best opportunity</option>
+            </select>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {pageResults.map(lead => {
+              const savedMatch = savedMatches.get(lead.id);
+              return (
+                <div key={lead.id} className={`bg-white rounded-2xl p-6 shadow-sm border ${savedMatch ? 'border-purple-300 bg-purple-50' : 'border-gray-100'}`}>
+                  <h3 className="text-lg font-bold text-gray-800 mb-1 flex items-center gap-2 flex-wrap">
+                    {lead.businessName}
+                    {lead.hasWebsite ? (
+                      <span className="text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded-full">🌐 Has Website</span>
+                    ) : (
+                      <span className="text-xs bg-orange-100 text-orange-700 px-2 py-1 rounded-full">📝 No Website</span>
+                    )}
+                    {lead.score !== undefined && (
+                      <span
+                        className={`text-xs font-bold px-2 py-1 rounded-full cursor-help ${getScoreBadgeClass(lead.score)}`}
+                        title={(lead.scoreBreakdown || []).map(f => `${f.points > 0 ? '+' : ''}${f.points} ${f.label}`).join('\n')}
+                      >
+                        Score {lead.score}
+                      </span>
+                    )}
+                  </h3>
+                  <p className="text-sm text-gray-500 mb-3">{lead.location}</p>
+                  <p className="text-gray-600 text-sm mb-4 line-clamp-3">{lead.details}</p>
+                  {savedMatch ? (
+                    <button
+                      onClick={() => onAnalyze(savedMatch.lead)}
+                      className="w-full py-2 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700"
+                      title={`${savedMatch.lead.businessName}: ${savedMatch.reasons.join(', ')}`}
+                    >
+                      {savedMatch.score === 1 ? 'Manage Customer' : 'Possible Duplicate'}
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => onSaveLead(lead)}
+                      className="w-full py-2 border border-purple-200 text-purple-600 rounded-lg font-medium hover:bg-purple-50"
+                    >
+                      Save List
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          {pageCount > 1 && (
+            <div className="flex items-center justify-center gap-3 text-sm">
+              <button
+                onClick={() => setPage(p => Math.max(0, p - 1))}
+                disabled={page === 0}
+                className="px-4 py-2 bg-white border border-gray-200 rounded-full disabled:opacity-40"
+              >
+                ← Previous
+              </button>
+              <span className="text-gray-500">Page {page + 1} of {pageCount}</span>
+              <button
+                onClick={() => setPage(p => Math.min(pageCount - 1, p + 1))}
+                disabled={page >= pageCount - 1}
+                className="px-4 py-2 bg-white border border-gray-200 rounded-full disabled:opacity-40"
+              >
+                Next →
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -120,6 +120,7 @@ export const CampaignHistory: React.FC<Props> = ({ leads, onUpdateLead }) => {
                                         {item.type === 'WEBSITE_CONCEPT' && '🎨'}
                                         {item.type === 'WEBSITE_DEPLOY' && '🚀'}
                                         {item.type === 'WEBSITE_HTML' && '🌐'}
+                                        {item.type === 'SITE_AUDIT' && '🔍'}
                                     </div>
                                     
                                     {/* Card */}
@@ -171,6 +172,18 @@ export const CampaignHistory: React.FC<Props> = ({ leads, onUpdateLead }) => {
                                             </div>
                                         )}
 
+                                        {item.type === 'SITE_AUDIT' && (
+                                            <div className="text-sm bg-red-50 p-3 rounded-lg">
+                                                <p className="text-red-700 font-bold mb-1">{item.metadata?.description}</p>
+                                                <p className="text-xs text-gray-500 truncate mb-2">{item.content?.url}</p>
+                                                <ul className="text-xs text-gray-600 space-y-1">
+                                                    {(item.content?.issues || []).slice(0, 3).map((issue: { message: string }, i: number) => (
+                                                        <li key={i}>• {issue.message}</li>
+                                                    ))}
+                                                </ul>
+                                            </div>
+                                        )}
+
                                         {item.type === 'WEBSITE_HTML' && (
                                             <div className="text-sm bg-purple-50 p-3 rounded-lg">
                                                 <div className="flex items-center justify-between mb-2">
@@ -0,0 +1,240 @@
+import React, { useState, useMemo } from 'react';
+import { Lead } from '../types';
+import { parseCsv } from '../lib/csv';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportRecord,
+  guessColumnMapping,
+  parseVCards,
+  recordsFromCsv,
+  validateImportRecords,
+} from '../lib/customerImport';
+
+interface Props {
+  existingCustomers: Lead[];
+  onImport: (customers: Lead[]) => Promise<void>;
+  onClose: () => void;
+}
+
+type Step = 'upload' | 'mapping' | 'preview';
+
+// Keep the preview table responsive on large files
+const PREVIEW_ROW_LIMIT = 200;
+
+export const CustomerImportModal: React.FC<Props> = ({ existingCustomers, onImport, onClose }) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [vCardRecords, setVCardRecords] = useState<ImportRecord[] | null>(null);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const headers = csvRows[0] || [];
+
+  const rows = useMemo(() => {
+    if (step !== 'preview') return [];
+    const records = vCardRecords || recordsFromCsv(csvRows.slice(1), mapping);
+    return validateImportRecords(records, existingCustomers);
+  }, [step, vCardRecords, csvRows, mapping, existingCustomers]);
+
+  const isDuplicateRow = (row: typeof rows[number]) => !!row.duplicate || row.repeatsRow !== null;
+  const toImport = rows.filter(row => row.lead && !(skipDuplicates && isDuplicateRow(row)));
+  const invalidCount = rows.filter(row => !row.lead).length;
+  const duplicateCount = rows.filter(row => row.lead && isDuplicateRow(row)).length;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileError(null);
+    setFileName(file.name);
+    const text = await file.text();
+    // Allow picking the same file again after going back
+    e.target.value = '';
+
+    if (/\.(vcf|vcard)$/i.test(file.name) || /^\s*BEGIN:VCARD/i.test(text)) {
+      const records = parseVCards(text);
+      if (records.length === 0) {
+        setFileError('No contacts found in this vCard file.');
+        return;
+      }
+      setVCardRecords(records);
+      setStep('preview');
+      return;
+    }
+
+    const parsed = parseCsv(text);
+    if (parsed.length < 2) {
+      setFileError('This file needs a header row and at least one customer.');
+      return;
+    }
+    setVCardRecords(null);
+    setCsvRows(parsed);
+    setMapping(guessColumnMapping(parsed[0]));
+    setStep('mapping');
+  };
+
+  const updateMapping = (column: number, field: ImportField | null) => {
+    // A field can only come from one column, except the address which is joined
+    setMapping(prev => prev.map((current, i) => {
+      if (i === column) return field;
+      return field && field !== 'location' && current === field ? null : current;
+    }));
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setImportError(null);
+    try {
+      await onImport(toImport.map(row => row.lead!));
+      onClose();
+    } catch (err) {
+      setImportError((err as Error).message || 'Import failed. Please try again.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+        <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+            <div className="bg-gradient-to-r from-purple-600 to-pink-600 p-6">
+                <h3 className="text-xl font-bold text-white">Import Customers</h3>
+                <p className="text-purple-100 text-sm mt-1">
+                    {step === 'upload' && 'Upload a CSV export or a vCard (.vcf) file.'}
+                    {step === 'mapping' && `Match the columns in ${fileName} to customer fields.`}
+                    {step === 'preview' && `Review ${rows.length} record${rows.length === 1 ? '' : 's'} from ${fileName}.`}
+                </p>
+            </div>
+
+            <div className="p-6 overflow-y-auto flex-1">
+                {step === 'upload' && (
+                    <div className="space-y-3">
+                        <label className="block border-2 border-dashed border-gray-200 rounded-xl p-10 text-center cursor-pointer hover:border-purple-300 hover:bg-purple-50/40">
+                            <input type="file" accept=".csv,.vcf,.vcard,text/csv,text/vcard" onChange={handleFile} className="hidden" />
+                            <p className="font-medium text-gray-700">Choose a file</p>
+                            <p className="text-xs text-gray-400 mt-1">CSV from a spreadsheet or CRM, or contacts exported as vCard</p>
+                        </label>
+                        {fileError && <p className="text-sm text-red-500">{fileError}</p>}
+                    </div>
+                )}
+
+                {step === 'mapping' && (
+                    <div className="space-y-2">
+                        {headers.map((header, column) => (
+                            <div key={column} className="grid grid-cols-3 gap-3 items-center">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium text-gray-700 truncate">{header || `Column ${column + 1}`}</p>
+                                    <p className="text-xs text-gray-400 truncate">{csvRows[1]?.[column]}</p>
+                                </div>
+                                <span className="text-center text-gray-300">→</span>
+                                <select
+                                    value={mapping[column] || ''}
+                                    onChange={(e) => updateMapping(column, (e.target.value || null) as ImportField | null)}
+                                    className="p-2 bg-gray-50 border border-gray-200 rounded-lg text-sm"
+                                >
+                                    <option value="">Don't import</option>
+                                    {IMPORT_FIELDS.map(({ field, label }) => (
+                                        <option key={field} value={field}>{label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        ))}
+                        {!mapping.includes('businessName') && !mapping.includes('contactName') && (
+                            <p className="text-sm text-amber-600 pt-2">Map a column to Business Name or Contact Name to continue.</p>
+                        )}
+                    </div>
+                )}
+
+                {step === 'preview' && (
+                    <div className="space-y-4">
+                        <div className="flex flex-wrap gap-3 text-sm">
+                            <span className="px-3 py-1 rounded-full bg-green-100 text-green-700">{toImport.length} to import</span>
+                            {duplicateCount > 0 && <span className="px-3 py-1 rounded-full bg-amber-100 text-amber-700">{duplicateCount} possible duplicate{duplicateCount === 1 ? '' : 's'}</span>}
+                            {invalidCount > 0 && <span className="px-3 py-1 rounded-full bg-red-100 text-red-700">{invalidCount} with errors (skipped)</span>}
+                        </div>
+                        {duplicateCount > 0 && (
+                            <label className="flex items-center gap-2 text-sm text-gray-600">
+                                <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} />
+                                Skip possible duplicates
+                            </label>
+                        )}
+
+                        <div className="border border-gray-100 rounded-xl overflow-hidden">
+                            <table className="w-full text-sm">
+                                <thead className="bg-gray-50 text-xs text-gray-500 uppercase">
+                                    <tr>
+                                        <th className="p-2 text-left">#</th>
+                                        <th className="p-2 text-left">Business</th>
+                                        <th className="p-2 text-left">Contact</th>
+                                        <th className="p-2 text-left">Status</th>
+                                        <th className="p-2 text-left">Notes</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {rows.slice(0, PREVIEW_ROW_LIMIT).map(row => (
+                                        <tr key={row.rowNumber} className={`border-t border-gray-100 ${!row.lead ? 'bg-red-50' : isDuplicateRow(row) ? 'bg-amber-50' : ''}`}>
+                                            <td className="p-2 text-gray-400">{row.rowNumber}</td>
+                                            <td className="p-2">
+                                                <p className="font-medium text-gray-800">{row.lead?.businessName || row.record.businessName || '—'}</p>
+                                                <p className="text-xs text-gray-400">{row.record.location}</p>
+                                            </td>
+                                            <td className="p-2 text-xs text-gray-600">
+                                                {row.record.phone && <p>{row.record.phone}</p>}
+                                                {row.record.email && <p>{row.record.email}</p>}
+                                            </td>
+                                            <td className="p-2 text-xs text-gray-600 uppercase">{row.lead?.status}</td>
+                                            <td className="p-2 text-xs">
+                                                {row.errors.map(error => <p key={error} className="text-red-600">{error}</p>)}
+                                                {row.duplicate && <p className="text-amber-700">Matches {row.duplicate.lead.businessName} ({row.duplicate.reasons.join(', ').toLowerCase()})</p>}
+                                                {row.repeatsRow !== null && <p className="text-amber-700">Same business as row {row.repeatsRow}</p>}
+                                                {row.warnings.map(warning => <p key={warning} className="text-gray-500">{warning}</p>)}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        {rows.length > PREVIEW_ROW_LIMIT && (
+                            <p className="text-xs text-gray-400">Showing the first {PREVIEW_ROW_LIMIT} of {rows.length} records.</p>
+                        )}
+                        {importError && <p className="text-sm text-red-500">{importError}</p>}
+                    </div>
+                )}
+            </div>
+
+            <div className="p-6 border-t border-gray-100 flex gap-3">
+                <button
+                    onClick={step === 'upload' ? onClose : () => setStep(step === 'preview' && !vCardRecords ? 'mapping' : 'upload')}
+                    className="flex-1 py-3 border border-gray-200 text-gray-600 rounded-xl font-medium hover:bg-gray-50"
+                >
+                    {step === 'upload' ? 'Cancel' : 'Back'}
+                </button>
+                {step === 'mapping' && (
+                    <button
+                        onClick={() => setStep('preview')}
+                        disabled={!mapping.includes('businessName') && !mapping.includes('contactName')}
+                        className="flex-1 py-3 bg-purple-600 text-white rounded-xl font-bold hover:bg-purple-700 disabled:opacity-50"
+                    >
+                        Preview
+                    </button>
+                )}
+                {step === 'preview' && (
+                    <button
+                        onClick={handleImport}
+                        disabled={toImport.length === 0 || importing}
+                        className="flex-1 py-3 bg-purple-600 text-white rounded-xl font-bold hover:bg-purple-700 disabled:opacity-50"
+                    >
+                        {importing ? 'Importing...' : `Import ${toImport.length} Customer${toImport.length === 1 ? '' : 's'}`}
+                    </button>
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
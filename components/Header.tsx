@@ -9,6 +9,7 @@ interface Props {
     currentWebsiteId?: string;
     currentWebsiteName?: string;
     lastPublishError?: string;
+    newLeadsCount?: number; // Unreviewed businesses from scheduled saved searches
 }
 
 export const Header: React.FC<Props> = ({
@@ -17,7 +18,8 @@ export const Header: React.FC<Props> = ({
     currentView,
     currentWebsiteId,
     currentWebsiteName,
-    lastPublishError
+    lastPublishError,
+    newLeadsCount = 0
 }) => {
     const { user, signOut } = useAuth();
     const [isProfileOpen, setIsProfileOpen] = useState(false);
@@ -72,8 +74,16 @@ export const Header: React.FC<Props> = ({
             {/* Right Side */}
             <div className="flex items-center gap-2 md:gap-4">
                  {/* Notification Bell */}
-                 <button className="relative p-2 text-gray-400 hover:text-[#D4AF37] transition-colors rounded-full hover:bg-[#F9F6F0]">
-                    <span className="absolute top-2 right-2 h-2 w-2 bg-[#D4AF37] rounded-full border border-white"></span>
+                 <button
+                    onClick={() => onNavigate(AppView.NEW_LEADS)}
+                    className="relative p-2 text-gray-400 hover:text-[#D4AF37] transition-colors rounded-full hover:bg-[#F9F6F0]"
+                    title={newLeadsCount > 0 ? `${newLeadsCount} new lead${newLeadsCount === 1 ? '' : 's'} from saved searches` : 'New leads'}
+                 >
+                    {newLeadsCount > 0 && (
+                        <span className="absolute top-0.5 right-0.5 min-w-[18px] h-[18px] px-1 bg-[#D4AF37] text-white text-[10px] font-bold rounded-full border border-white flex items-center justify-center">
+                            {newLeadsCount > 99 ? '99+' : newLeadsCount}
+                        </span>
+                    )}
                     <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
                     </svg>
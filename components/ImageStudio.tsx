@@ -1,11 +1,9 @@
 import React, { useState } from 'react';
 import { Lead, SocialPreset, AspectRatio, HistoryItem } from '../types';
-import { generateSocialMediaImage, promptForKeySelection } from '../services/geminiService';
-import { ApiKeyModal } from './ApiKeyModal';
+import { generateSocialMediaImage } from '../services/geminiService';
 
 interface Props {
   leads: Lead[];
-  onUseCredit: () => void;
   selectedLead?: Lead | null;
   onSelectLead: (lead: Lead) => void;
   onUpdateLead: (lead: Lead) => void;
@@ -22,24 +20,21 @@ const SOCIAL_PRESETS: SocialPreset[] = [
     { id: 'twitter', name: 'X / Twitter Header', icon: '🐦', ratio: AspectRatio.WIDE, description: 'Wide Header' },
 ];
 
-export const ImageStudio: React.FC<Props> = ({ leads, onUseCredit, selectedLead, onSelectLead, onUpdateLead }) => {
+export const ImageStudio: React.FC<Props> = ({ leads, selectedLead, onSelectLead, onUpdateLead }) => {
   const [selectedPreset, setSelectedPreset] = useState<SocialPreset>(SOCIAL_PRESETS[0]);
   const [prompt, setPrompt] = useState('');
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
-  const [showKeyModal, setShowKeyModal] = useState(false);
 
-  const handleGenerate = async (skipKeyCheck = false) => {
+  const handleGenerate = async () => {
     if (!selectedLead || !prompt) return;
     
     setLoading(true);
     setGeneratedImage(null);
     try {
-        onUseCredit(); // Deduct 5 credits (handled in parent)
-        
         const fullPrompt = `${prompt}. Brand Colors: ${selectedLead.brandGuidelines?.colors?.join(', ') || 'Standard'}. Tone: ${selectedLead.brandGuidelines?.tone || 'Professional'}`;
         
-        const img = await generateSocialMediaImage(selectedLead.businessName, fullPrompt, selectedPreset.ratio, skipKeyCheck);
+        const img = await generateSocialMediaImage(selectedLead.businessName, fullPrompt, selectedPreset.ratio);
         setGeneratedImage(img);
 
         // Save to History
@@ -61,27 +56,15 @@ export const ImageStudio: React.FC<Props> = ({ leads, onUseCredit, selectedLead,
         });
 
     } catch (err: any) {
-        if (err.message.includes("API_KEY_REQUIRED")) {
-            setShowKeyModal(true);
-        } else {
-            console.error(err);
-            alert("Image generation failed. Please try again.");
-        }
+        console.error(err);
+        alert(err.message || "Image generation failed. Please try again.");
     } finally {
         setLoading(false);
     }
   };
 
-  const handleKeyConfirm = async () => {
-    setShowKeyModal(false);
-    await promptForKeySelection();
-    handleGenerate(true);
-  }
-
   return (
     <div className="space-y-6">
-       {showKeyModal && <ApiKeyModal onClose={() => setShowKeyModal(false)} onConfirm={handleKeyConfirm} />}
-
       <div className="text-center space-y-2 mb-8">
             <h1 className="text-3xl font-bold text-gray-800 font-serif">Social Image Studio</h1>
             <p className="text-gray-500">Create perfectly sized social media assets.</p>
@@ -158,7 +141,7 @@ export const ImageStudio: React.FC<Props> = ({ leads, onUseCredit, selectedLead,
                     ></textarea>
                     
                     <button 
-                        onClick={() => handleGenerate(false)}
+                        onClick={handleGenerate}
                         disabled={loading || !selectedLead || !prompt}
                         className="w-full mt-4 py-3 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-xl font-bold shadow-md hover:opacity-90 disabled:opacity-50 transition-all"
                     >
@@ -0,0 +1,260 @@
+import React, { useState, useEffect } from 'react';
+import { InvoicingSettings, TaxProfile, TaxLine } from '../types';
+import { SUPPORTED_CURRENCIES, calculateTaxLines } from '../lib/invoiceTotals';
+
+interface Props {
+  settings: InvoicingSettings;
+  onSave: (settings: InvoicingSettings) => Promise<void>;
+}
+
+const emptyTaxLine = (): TaxLine => ({ name: '', rate: 0 });
+
+// Effective rate of a profile on a 100-unit invoice, for the summary chip
+const getEffectiveRate = (profile: TaxProfile): number => {
+  const total = calculateTaxLines(100, profile.lines).reduce((sum, line) => sum + line.amount, 0);
+  return Math.round(total * 1000) / 1000;
+};
+
+export const InvoiceSettingsPanel: React.FC<Props> = ({ settings, onSave }) => {
+  const [draft, setDraft] = useState<InvoicingSettings>(settings);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [newRateCurrency, setNewRateCurrency] = useState('EUR');
+  const [newRate, setNewRate] = useState('');
+
+  // Pick up remote changes unless the user is mid-edit
+  useEffect(() => {
+    if (!dirty) setDraft(settings);
+  }, [settings, dirty]);
+
+  const update = (changes: Partial<InvoicingSettings>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      // Drop incomplete tax lines and empty profiles
+      const taxProfiles = draft.taxProfiles
+        .map(profile => ({ ...profile, name: profile.name.trim(), lines: profile.lines.filter(line => line.name.trim() && line.rate > 0) }))
+        .filter(profile => profile.name && profile.lines.length > 0);
+      await onSave({
+        ...draft,
+        taxProfiles,
+        defaultTaxProfileId: taxProfiles.some(p => p.id === draft.defaultTaxProfileId) ? draft.defaultTaxProfileId : undefined,
+      });
+      setDirty(false);
+    } catch {
+      // Error is surfaced by the settings hook
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddRate = () => {
+    const rate = parseFloat(newRate);
+    if (!rate || rate <= 0 || newRateCurrency === draft.reportingCurrency) return;
+    update({ exchangeRates: { ...draft.exchangeRates, [newRateCurrency]: rate } });
+    setNewRate('');
+  };
+
+  const handleRemoveRate = (currency: string) => {
+    const { [currency]: _removed, ...rest } = draft.exchangeRates;
+    update({ exchangeRates: rest });
+  };
+
+  const updateProfile = (profileId: string, changes: Partial<TaxProfile>) => {
+    update({ taxProfiles: draft.taxProfiles.map(p => p.id === profileId ? { ...p, ...changes } : p) });
+  };
+
+  const updateTaxLine = (profile: TaxProfile, index: number, changes: Partial<TaxLine>) => {
+    updateProfile(profile.id, { lines: profile.lines.map((line, i) => i === index ? { ...line, ...changes } : line) });
+  };
+
+  const handleAddProfile = () => {
+    update({ taxProfiles: [...draft.taxProfiles, { id: `tax-${Date.now()}`, name: '', lines: [emptyTaxLine()] }] });
+  };
+
+  const handleRemoveProfile = (profileId: string) => {
+    update({
+      taxProfiles: draft.taxProfiles.filter(p => p.id !== profileId),
+      defaultTaxProfileId: draft.defaultTaxProfileId === profileId ? undefined : draft.defaultTaxProfileId,
+    });
+  };
+
+  const rateCurrencies = Object.keys(draft.exchangeRates).filter(c => c !== draft.reportingCurrency).sort();
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 space-y-6">
+        <div className="flex items-start justify-between gap-4">
+            <div>
+                <h3 className="font-bold text-gray-700 mb-1">Currencies & Tax</h3>
+                <p className="text-xs text-gray-400">Totals on this page are converted into your reporting currency using the rates below.</p>
+            </div>
+            <button
+                onClick={handleSave}
+                disabled={!dirty || saving}
+                className="px-4 py-2 rounded-lg bg-purple-600 text-white text-sm font-medium hover:bg-purple-700 disabled:opacity-40"
+            >
+                {saving ? 'Saving...' : 'Save Changes'}
+            </button>
+        </div>
+
+        {/* Currencies */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Reporting Currency</label>
+                <select
+                    value={draft.reportingCurrency}
+                    onChange={(e) => update({ reportingCurrency: e.target.value })}
+                    className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm bg-gray-50"
+                >
+                    {SUPPORTED_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+                </select>
+            </div>
+            <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Default Invoice Currency</label>
+                <select
+                    value={draft.defaultCurrency}
+                    onChange={(e) => update({ defaultCurrency: e.target.value })}
+                    className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm bg-gray-50"
+                >
+                    {SUPPORTED_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+                </select>
+            </div>
+        </div>
+
+        {/* Exchange rates */}
+        <div>
+            <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Exchange Rates</label>
+            <div className="space-y-2">
+                {rateCurrencies.length > 0 ? rateCurrencies.map(code => (
+                    <div key={code} className="flex items-center gap-2 text-sm">
+                        <span className="w-16 text-gray-600">1 {code} =</span>
+                        <input
+                            type="number"
+                            min="0"
+                            step="0.0001"
+                            value={draft.exchangeRates[code]}
+                            onChange={(e) => update({ exchangeRates: { ...draft.exchangeRates, [code]: parseFloat(e.target.value) || 0 } })}
+                            className="w-32 border border-gray-200 rounded-lg px-3 py-1.5 text-sm"
+                        />
+                        <span className="text-gray-600">{draft.reportingCurrency}</span>
+                        <button onClick={() => handleRemoveRate(code)} className="text-gray-400 hover:text-red-600 ml-2" title="Remove rate">×</button>
+                    </div>
+                )) : (
+                    <p className="text-sm text-gray-400">No rates yet. Invoices in other currencies are left out of totals until a rate is added.</p>
+                )}
+            </div>
+            <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+                <span className="text-gray-600">1</span>
+                <select
+                    value={newRateCurrency}
+                    onChange={(e) => setNewRateCurrency(e.target.value)}
+                    className="border border-gray-200 rounded-lg px-2 py-1.5 text-sm bg-gray-50"
+                >
+                    {SUPPORTED_CURRENCIES.filter(code => code !== draft.reportingCurrency).map(code => (
+                        <option key={code} value={code}>{code}</option>
+                    ))}
+                </select>
+                <span className="text-gray-600">=</span>
+                <input
+                    type="number"
+                    min="0"
+                    step="0.0001"
+                    placeholder="Rate"
+                    value={newRate}
+                    onChange={(e) => setNewRate(e.target.value)}
+                    className="w-28 border border-gray-200 rounded-lg px-3 py-1.5 text-sm"
+                />
+                <span className="text-gray-600">{draft.reportingCurrency}</span>
+                <button onClick={handleAddRate} className="px-3 py-1.5 rounded-lg bg-gray-100 text-gray-700 font-medium hover:bg-gray-200">Add Rate</button>
+            </div>
+        </div>
+
+        {/* Tax profiles */}
+        <div>
+            <div className="flex justify-between items-center mb-2">
+                <label className="block text-xs font-bold text-gray-500 uppercase">Tax Profiles</label>
+                <button onClick={handleAddProfile} className="text-xs text-purple-600 font-bold hover:underline">+ Add Profile</button>
+            </div>
+            {draft.taxProfiles.length === 0 && (
+                <p className="text-sm text-gray-400">Create profiles like "VAT 20%" or "GST 5% + PST 7%" to apply on invoices.</p>
+            )}
+            <div className="space-y-3">
+                {draft.taxProfiles.map(profile => (
+                    <div key={profile.id} className="border border-gray-100 rounded-xl p-3 bg-gray-50">
+                        <div className="flex flex-wrap items-center gap-2 mb-2">
+                            <input
+                                type="text"
+                                placeholder="Profile name"
+                                value={profile.name}
+                                onChange={(e) => updateProfile(profile.id, { name: e.target.value })}
+                                className="flex-1 min-w-[160px] border border-gray-200 rounded-lg px-3 py-1.5 text-sm bg-white font-medium"
+                            />
+                            <span className="text-xs text-gray-500">Effective {getEffectiveRate(profile)}%</span>
+                            <label className="flex items-center gap-1 text-xs text-gray-600 cursor-pointer">
+                                <input
+                                    type="radio"
+                                    name="defaultTaxProfile"
+                                    checked={draft.defaultTaxProfileId === profile.id}
+                                    onChange={() => update({ defaultTaxProfileId: profile.id })}
+                                    className="accent-purple-600"
+                                />
+                                Default
+                            </label>
+                            <button onClick={() => handleRemoveProfile(profile.id)} className="text-xs text-red-600 font-bold hover:underline">Delete</button>
+                        </div>
+                        {profile.lines.map((line, index) => (
+                            <div key={index} className="flex flex-wrap items-center gap-2 mb-1 text-sm">
+                                <input
+                                    type="text"
+                                    placeholder="Tax name (e.g. GST)"
+                                    value={line.name}
+                                    onChange={(e) => updateTaxLine(profile, index, { name: e.target.value })}
+                                    className="flex-1 min-w-[120px] border border-gray-200 rounded-lg px-3 py-1.5 text-sm bg-white"
+                                />
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="0.001"
+                                    value={line.rate}
+                                    onChange={(e) => updateTaxLine(profile, index, { rate: parseFloat(e.target.value) || 0 })}
+                                    className="w-20 border border-gray-200 rounded-lg px-3 py-1.5 text-sm bg-white"
+                                />
+                                <span className="text-gray-500">%</span>
+                                <label className="flex items-center gap-1 text-xs text-gray-600 cursor-pointer" title="Charge this tax on the amount plus earlier taxes">
+                                    <input
+                                        type="checkbox"
+                                        checked={!!line.compound}
+                                        disabled={index === 0}
+                                        onChange={(e) => updateTaxLine(profile, index, { compound: e.target.checked })}
+                                        className="accent-purple-600"
+                                    />
+                                    Compound
+                                </label>
+                                {profile.lines.length > 1 && (
+                                    <button
+                                        onClick={() => updateProfile(profile.id, { lines: profile.lines.filter((_, i) => i !== index) })}
+                                        className="text-gray-400 hover:text-red-600"
+                                        title="Remove tax"
+                                    >
+                                        ×
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                        <button
+                            onClick={() => updateProfile(profile.id, { lines: [...profile.lines, emptyTaxLine()] })}
+                            className="text-xs text-purple-600 font-medium hover:underline mt-1"
+                        >
+                            + Add tax line
+                        </button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    </div>
+  );
+};
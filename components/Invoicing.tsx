@@ -1,71 +1,637 @@
-import React from 'react';
-import { Lead } from '../types';
+import React, { useState, useMemo } from 'react';
+import { Lead, Invoice, InvoiceReminderLog } from '../types';
+import { useInvoicingSettings } from '../hooks/useInvoicingSettings';
+import { connectStripeAccount, generateInvoicePdf } from '../services/invoiceService';
+import { convertToReportingCurrency, formatMoney, getInvoiceCurrency } from '../lib/invoiceTotals';
+import { InvoiceSettingsPanel } from './InvoiceSettingsPanel';
 
 interface Props {
   leads: Lead[];
 }
 
+type EffectiveStatus = Invoice['status'];
+type AgingBucket = 'current' | 'days30' | 'days60' | 'days90' | 'days90plus';
+type DatePreset = 'all' | 'month' | 'last30' | 'quarter' | 'year' | 'custom';
+
+interface InvoiceRow {
+  invoice: Invoice;
+  lead: Lead;
+  status: EffectiveStatus;
+  balance: number;
+  daysOverdue: number;
+  currency: string;
+  // Multiplier into the reporting currency; null when no exchange rate is set
+  rate: number | null;
+}
+
+interface ClientSummary {
+  lead: Lead;
+  count: number;
+  invoiced: number;
+  paid: number;
+  outstanding: number;
+  overdue: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STATUS_STYLES: Record<EffectiveStatus, { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'bg-gray-100 text-gray-600' },
+  sent: { label: 'Sent', className: 'bg-blue-100 text-blue-700' },
+  partial: { label: 'Partial', className: 'bg-orange-100 text-orange-700' },
+  paid: { label: 'Paid', className: 'bg-green-100 text-green-700' },
+  overdue: { label: 'Overdue', className: 'bg-red-100 text-red-700' },
+};
+
+const AGING_BUCKETS: { key: AgingBucket; label: string; color: string }[] = [
+  { key: 'current', label: 'Current', color: 'border-green-400' },
+  { key: 'days30', label: '1–30 days', color: 'border-yellow-400' },
+  { key: 'days60', label: '31–60 days', color: 'border-orange-400' },
+  { key: 'days90', label: '61–90 days', color: 'border-red-400' },
+  { key: 'days90plus', label: '90+ days', color: 'border-red-700' },
+];
+
+// Remaining balance on an invoice
+const getInvoiceBalance = (invoice: Invoice): number => {
+  return Math.max(0, (invoice.total || 0) - (invoice.paidAmount || 0));
+};
+
+// Whole days past the due date (0 when not yet due or no due date)
+const getDaysOverdue = (invoice: Invoice, now: number): number => {
+  if (!invoice.dueDate || invoice.dueDate >= now) return 0;
+  return Math.floor((now - invoice.dueDate) / DAY_MS);
+};
+
+// Status derived from payments and due date, so stale stored statuses don't skew totals
+const getEffectiveStatus = (invoice: Invoice, now: number): EffectiveStatus => {
+  const balance = getInvoiceBalance(invoice);
+  if ((invoice.total || 0) > 0 && balance === 0) return 'paid';
+  if (invoice.status === 'draft') return 'draft';
+  if (invoice.dueDate && invoice.dueDate < now) return 'overdue';
+  if ((invoice.paidAmount || 0) > 0) return 'partial';
+  return invoice.status === 'overdue' ? 'sent' : invoice.status;
+};
+
+const getAgingBucket = (daysOverdue: number): AgingBucket => {
+  if (daysOverdue <= 0) return 'current';
+  if (daysOverdue <= 30) return 'days30';
+  if (daysOverdue <= 60) return 'days60';
+  if (daysOverdue <= 90) return 'days90';
+  return 'days90plus';
+};
+
+// Resolve a preset into an inclusive [from, to] range of timestamps
+const getPresetRange = (preset: DatePreset, now: number): { from?: number; to?: number } => {
+  const today = new Date(now);
+  switch (preset) {
+    case 'month':
+      return { from: new Date(today.getFullYear(), today.getMonth(), 1).getTime() };
+    case 'last30':
+      return { from: now - 30 * DAY_MS };
+    case 'quarter':
+      return { from: new Date(today.getFullYear(), Math.floor(today.getMonth() / 3) * 3, 1).getTime() };
+    case 'year':
+      return { from: new Date(today.getFullYear(), 0, 1).getTime() };
+    default:
+      return {};
+  }
+};
+
+const formatCurrency = (amount: number, currency?: string) => formatMoney(amount, currency);
+
+const formatDate = (timestamp: number) => {
+  return new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+const formatReminderOffset = (offset: number): string => {
+  if (offset === 0) return 'On due date';
+  const days = Math.abs(offset);
+  return `${days} day${days === 1 ? '' : 's'} ${offset < 0 ? 'before' : 'after'}`;
+};
+
+// Reminders emailed to the client, and the ones that couldn't be sent
+const ReminderSummary: React.FC<{ reminders?: InvoiceReminderLog[] }> = ({ reminders = [] }) => {
+  const sent = reminders.filter(r => r.communicationId).length;
+  const failed = reminders.filter(r => r.error);
+  if (sent === 0 && failed.length === 0) return null;
+
+  return (
+    <p className="text-xs text-gray-400 mt-1">
+      {sent > 0 && `${sent} reminder${sent === 1 ? '' : 's'} sent`}
+      {sent > 0 && failed.length > 0 && ' · '}
+      {failed.length > 0 && (
+        <span className="text-red-500" title={failed[failed.length - 1].error}>
+          {failed.length} reminder{failed.length === 1 ? '' : 's'} not sent
+        </span>
+      )}
+    </p>
+  );
+};
+
 export const Invoicing: React.FC<Props> = ({ leads }) => {
-  const convertedLeads = leads.filter(l => l.status === 'converted');
-  
-  // Calculate fake totals based on converted leads
-  const totalEarned = convertedLeads.length * 1200; // Mock $1200 per client
-  const pending = 850; // Static mock for visual
+  const [datePreset, setDatePreset] = useState<DatePreset>('all');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [statusFilter, setStatusFilter] = useState<EffectiveStatus | 'all'>('all');
+  const [clientFilter, setClientFilter] = useState<string>('all');
+  const [newReminderDays, setNewReminderDays] = useState(3);
+  const [newReminderWhen, setNewReminderWhen] = useState<'before' | 'on' | 'after'>('after');
+  const { settings: invoicingSettings, error: settingsError, updateSettings } = useInvoicingSettings();
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const [connectingStripe, setConnectingStripe] = useState(false);
+  const [stripeStatus, setStripeStatus] = useState<{ message: string; isError: boolean } | null>(null);
+
+  // Re-evaluated whenever the customer data changes
+  const now = useMemo(() => Date.now(), [leads]);
+
+  const dateRange = useMemo(() => {
+    if (datePreset === 'custom') {
+      return {
+        from: customFrom ? new Date(customFrom).getTime() : undefined,
+        // Include the whole "to" day
+        to: customTo ? new Date(customTo).getTime() + DAY_MS - 1 : undefined,
+      };
+    }
+    return getPresetRange(datePreset, now);
+  }, [datePreset, customFrom, customTo, now]);
+
+  // Every invoice across all leads, filtered by date range and client
+  const rows: InvoiceRow[] = useMemo(() => {
+    const result: InvoiceRow[] = [];
+    leads.forEach(lead => {
+      if (clientFilter !== 'all' && lead.id !== clientFilter) return;
+      lead.invoices?.forEach(invoice => {
+        if (dateRange.from && invoice.createdAt < dateRange.from) return;
+        if (dateRange.to && invoice.createdAt > dateRange.to) return;
+        const currency = getInvoiceCurrency(invoice);
+        result.push({
+          invoice,
+          lead,
+          status: getEffectiveStatus(invoice, now),
+          balance: getInvoiceBalance(invoice),
+          daysOverdue: getDaysOverdue(invoice, now),
+          currency,
+          rate: convertToReportingCurrency(1, currency, invoicingSettings),
+        });
+      });
+    });
+    return result.sort((a, b) => b.invoice.createdAt - a.invoice.createdAt);
+  }, [leads, clientFilter, dateRange, now, invoicingSettings]);
+
+  // Aggregates are in the reporting currency and skip invoices without a rate
+  const reportingCurrency = invoicingSettings.reportingCurrency;
+  const convertibleRows = useMemo(() => rows.filter(row => row.rate !== null), [rows]);
+  const missingRateCurrencies = useMemo(() => {
+    return Array.from(new Set(rows.filter(row => row.rate === null).map(row => row.currency))).sort();
+  }, [rows]);
+
+  const visibleRows = useMemo(() => {
+    return statusFilter === 'all' ? rows : rows.filter(row => row.status === statusFilter);
+  }, [rows, statusFilter]);
+
+  // Totals grouped by effective status
+  const statusTotals = useMemo(() => {
+    const totals = {} as Record<EffectiveStatus, { count: number; amount: number }>;
+    (Object.keys(STATUS_STYLES) as EffectiveStatus[]).forEach(status => {
+      totals[status] = { count: 0, amount: 0 };
+    });
+    convertibleRows.forEach(row => {
+      totals[row.status].count += 1;
+      totals[row.status].amount += (row.invoice.total || 0) * row.rate!;
+    });
+    return totals;
+  }, [convertibleRows]);
+
+  const summary = useMemo(() => {
+    const billable = convertibleRows.filter(row => row.status !== 'draft');
+    return {
+      invoiced: billable.reduce((sum, row) => sum + (row.invoice.total || 0) * row.rate!, 0),
+      collected: billable.reduce((sum, row) => sum + (row.invoice.paidAmount || 0) * row.rate!, 0),
+      outstanding: billable.reduce((sum, row) => sum + row.balance * row.rate!, 0),
+      overdue: billable.filter(row => row.status === 'overdue').reduce((sum, row) => sum + row.balance * row.rate!, 0),
+    };
+  }, [convertibleRows]);
+
+  // Outstanding balances by how long they are past due
+  const aging = useMemo(() => {
+    const buckets = {} as Record<AgingBucket, { count: number; amount: number }>;
+    AGING_BUCKETS.forEach(bucket => {
+      buckets[bucket.key] = { count: 0, amount: 0 };
+    });
+    convertibleRows.forEach(row => {
+      if (row.status === 'draft' || row.balance <= 0) return;
+      const bucket = getAgingBucket(row.daysOverdue);
+      buckets[bucket].count += 1;
+      buckets[bucket].amount += row.balance * row.rate!;
+    });
+    return buckets;
+  }, [convertibleRows]);
+
+  const clientSummaries: ClientSummary[] = useMemo(() => {
+    const byLead = new Map<string, ClientSummary>();
+    convertibleRows.forEach(row => {
+      if (row.status === 'draft') return;
+      const entry = byLead.get(row.lead.id) || {
+        lead: row.lead,
+        count: 0,
+        invoiced: 0,
+        paid: 0,
+        outstanding: 0,
+        overdue: 0,
+      };
+      entry.count += 1;
+      entry.invoiced += (row.invoice.total || 0) * row.rate!;
+      entry.paid += (row.invoice.paidAmount || 0) * row.rate!;
+      entry.outstanding += row.balance * row.rate!;
+      if (row.status === 'overdue') entry.overdue += row.balance * row.rate!;
+      byLead.set(row.lead.id, entry);
+    });
+    return Array.from(byLead.values()).sort((a, b) => b.outstanding - a.outstanding || b.invoiced - a.invoiced);
+  }, [convertibleRows]);
+
+  const reminderSettings = invoicingSettings.reminders;
+
+  const handleToggleReminders = () => {
+    updateSettings({
+      ...invoicingSettings,
+      reminders: { ...reminderSettings, enabled: !reminderSettings.enabled },
+    }).catch(() => {});
+  };
+
+  const handleAddReminder = () => {
+    const days = Math.max(0, Math.min(90, Math.round(newReminderDays) || 0));
+    const offset = newReminderWhen === 'on' ? 0 : newReminderWhen === 'before' ? -days : days;
+    updateSettings({
+      ...invoicingSettings,
+      reminders: { ...reminderSettings, offsetsDays: [...reminderSettings.offsetsDays, offset] },
+    }).catch(() => {});
+  };
+
+  const handleRemoveReminder = (offset: number) => {
+    updateSettings({
+      ...invoicingSettings,
+      reminders: { ...reminderSettings, offsetsDays: reminderSettings.offsetsDays.filter(o => o !== offset) },
+    }).catch(() => {});
+  };
+
+  // Payment links charge through the user's own Stripe account
+  const handleConnectStripe = async () => {
+    setConnectingStripe(true);
+    setStripeStatus(null);
+    try {
+      const result = await connectStripeAccount();
+      if (result.onboardingUrl) {
+        window.location.href = result.onboardingUrl;
+        return;
+      }
+      setStripeStatus({ message: 'Your Stripe account is connected. Clients can pay invoices online.', isError: false });
+    } catch (error) {
+      setStripeStatus({ message: error instanceof Error ? error.message : 'Failed to set up online payments', isError: true });
+    } finally {
+      setConnectingStripe(false);
+    }
+  };
+
+  const handleDownloadInvoice = async (lead: Lead, invoice: Invoice) => {
+    setDownloadingId(invoice.id);
+    setDownloadError(null);
+    // Open the tab up front so the download isn't caught by popup blockers
+    const pdfWindow = window.open('', '_blank');
+    try {
+      const { url } = await generateInvoicePdf(lead.id, invoice.id);
+      if (pdfWindow) {
+        pdfWindow.location.href = url;
+      } else {
+        window.location.href = url;
+      }
+    } catch (error: any) {
+      pdfWindow?.close();
+      setDownloadError(error.message || 'Failed to generate invoice PDF');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const clientsWithInvoices = useMemo(() => leads.filter(lead => (lead.invoices?.length || 0) > 0), [leads]);
 
   return (
     <div className="space-y-6">
       <div className="text-center">
           <h1 className="text-3xl font-bold text-gray-800 font-serif">My Earnings</h1>
-          <p className="text-gray-500">Track your earnings from converted leads.</p>
+          <p className="text-gray-500">Reconcile what your clients have been invoiced, paid and still owe.</p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 flex flex-wrap items-end gap-4">
+          <div>
+              <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Period</label>
+              <select
+                  value={datePreset}
+                  onChange={(e) => setDatePreset(e.target.value as DatePreset)}
+                  className="border border-gray-200 rounded-lg px-3 py-2 text-sm bg-gray-50"
+              >
+                  <option value="all">All time</option>
+                  <option value="month">This month</option>
+                  <option value="last30">Last 30 days</option>
+                  <option value="quarter">This quarter</option>
+                  <option value="year">This year</option>
+                  <option value="custom">Custom range</option>
+              </select>
+          </div>
+          {datePreset === 'custom' && (
+              <>
+                  <div>
+                      <label className="block text-xs font-bold text-gray-500 uppercase mb-1">From</label>
+                      <input
+                          type="date"
+                          value={customFrom}
+                          onChange={(e) => setCustomFrom(e.target.value)}
+                          className="border border-gray-200 rounded-lg px-3 py-2 text-sm bg-gray-50"
+                      />
+                  </div>
+                  <div>
+                      <label className="block text-xs font-bold text-gray-500 uppercase mb-1">To</label>
+                      <input
+                          type="date"
+                          value={customTo}
+                          onChange={(e) => setCustomTo(e.target.value)}
+                          className="border border-gray-200 rounded-lg px-3 py-2 text-sm bg-gray-50"
+                      />
+                  </div>
+              </>
+          )}
+          <div>
+              <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Client</label>
+              <select
+                  value={clientFilter}
+                  onChange={(e) => setClientFilter(e.target.value)}
+                  className="border border-gray-200 rounded-lg px-3 py-2 text-sm bg-gray-50"
+              >
+                  <option value="all">All clients</option>
+                  {clientsWithInvoices.map(lead => (
+                      <option key={lead.id} value={lead.id}>{lead.businessName}</option>
+                  ))}
+              </select>
+          </div>
+          <div>
+              <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Status</label>
+              <select
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value as EffectiveStatus | 'all')}
+                  className="border border-gray-200 rounded-lg px-3 py-2 text-sm bg-gray-50"
+              >
+                  <option value="all">All statuses</option>
+                  {(Object.keys(STATUS_STYLES) as EffectiveStatus[]).map(status => (
+                      <option key={status} value={status}>{STATUS_STYLES[status].label}</option>
+                  ))}
+              </select>
+          </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      {missingRateCurrencies.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 text-amber-800 text-sm rounded-xl px-4 py-3">
+              Invoices in {missingRateCurrencies.join(', ')} are left out of the totals below. Add an exchange rate to {reportingCurrency} under Currencies & Tax.
+          </div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <div className="bg-white p-6 rounded-2xl shadow-sm border-b-4 border-purple-400">
+              <p className="text-gray-500 font-medium">Total Invoiced</p>
+              <h2 className="text-3xl font-bold text-gray-800 mt-2">{formatCurrency(summary.invoiced, reportingCurrency)}</h2>
+          </div>
           <div className="bg-white p-6 rounded-2xl shadow-sm border-b-4 border-green-400">
               <p className="text-gray-500 font-medium">Total Earned</p>
-              <h2 className="text-4xl font-bold text-gray-800 mt-2">${totalEarned.toLocaleString()}</h2>
+              <h2 className="text-3xl font-bold text-gray-800 mt-2">{formatCurrency(summary.collected, reportingCurrency)}</h2>
           </div>
           <div className="bg-white p-6 rounded-2xl shadow-sm border-b-4 border-blue-400">
-              <p className="text-gray-500 font-medium">Pending Invoices</p>
-              <h2 className="text-4xl font-bold text-gray-800 mt-2">${pending}</h2>
+              <p className="text-gray-500 font-medium">Outstanding</p>
+              <h2 className="text-3xl font-bold text-gray-800 mt-2">{formatCurrency(summary.outstanding, reportingCurrency)}</h2>
           </div>
-          <div className="bg-white p-6 rounded-2xl shadow-sm border-b-4 border-purple-400">
-              <p className="text-gray-500 font-medium">Active Clients</p>
-              <h2 className="text-4xl font-bold text-gray-800 mt-2">{convertedLeads.length}</h2>
+          <div className="bg-white p-6 rounded-2xl shadow-sm border-b-4 border-red-400">
+              <p className="text-gray-500 font-medium">Overdue</p>
+              <h2 className="text-3xl font-bold text-red-600 mt-2">{formatCurrency(summary.overdue, reportingCurrency)}</h2>
+          </div>
+      </div>
+
+      {/* Totals by status */}
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <h3 className="font-bold text-gray-700 mb-4">By Status</h3>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {(Object.keys(STATUS_STYLES) as EffectiveStatus[]).map(status => (
+                  <button
+                      key={status}
+                      onClick={() => setStatusFilter(statusFilter === status ? 'all' : status)}
+                      className={`text-left p-3 rounded-xl border transition-colors ${statusFilter === status ? 'border-purple-300 bg-purple-50' : 'border-gray-100 hover:bg-gray-50'}`}
+                  >
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${STATUS_STYLES[status].className}`}>
+                          {STATUS_STYLES[status].label}
+                      </span>
+                      <p className="text-lg font-bold text-gray-800 mt-2">{formatCurrency(statusTotals[status].amount, reportingCurrency)}</p>
+                      <p className="text-xs text-gray-500">{statusTotals[status].count} invoice{statusTotals[status].count === 1 ? '' : 's'}</p>
+                  </button>
+              ))}
+          </div>
+      </div>
+
+      {/* Aging */}
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <h3 className="font-bold text-gray-700 mb-1">Receivables Aging</h3>
+          <p className="text-xs text-gray-400 mb-4">Unpaid balances grouped by days past their due date.</p>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {AGING_BUCKETS.map(bucket => (
+                  <div key={bucket.key} className={`p-3 rounded-xl bg-gray-50 border-l-4 ${bucket.color}`}>
+                      <p className="text-xs font-bold text-gray-500 uppercase">{bucket.label}</p>
+                      <p className="text-lg font-bold text-gray-800 mt-1">{formatCurrency(aging[bucket.key].amount, reportingCurrency)}</p>
+                      <p className="text-xs text-gray-500">{aging[bucket.key].count} invoice{aging[bucket.key].count === 1 ? '' : 's'}</p>
+                  </div>
+              ))}
           </div>
       </div>
 
+      {/* Reminder schedule */}
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <div className="flex items-start justify-between gap-4 mb-4">
+              <div>
+                  <h3 className="font-bold text-gray-700 mb-1">Payment Reminders</h3>
+                  <p className="text-xs text-gray-400">
+                      Unpaid invoices are checked daily. Past-due invoices are marked overdue, and reminders are emailed to the client from your connected email account and logged in their communications.
+                  </p>
+              </div>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-600 cursor-pointer shrink-0">
+                  <input
+                      type="checkbox"
+                      checked={reminderSettings.enabled}
+                      onChange={handleToggleReminders}
+                      className="w-4 h-4 accent-purple-600"
+                  />
+                  Enabled
+              </label>
+          </div>
+          <div className={`flex flex-wrap items-center gap-2 ${reminderSettings.enabled ? '' : 'opacity-50'}`}>
+              {reminderSettings.offsetsDays.length > 0 ? reminderSettings.offsetsDays.map(offset => (
+                  <span key={offset} className="flex items-center gap-1 px-3 py-1 rounded-full bg-purple-50 text-purple-700 text-sm font-medium">
+                      {formatReminderOffset(offset)}
+                      <button
+                          onClick={() => handleRemoveReminder(offset)}
+                          className="text-purple-400 hover:text-purple-700 ml-1"
+                          title="Remove reminder"
+                      >
+                          ×
+                      </button>
+                  </span>
+              )) : (
+                  <span className="text-sm text-gray-400">No reminders scheduled.</span>
+              )}
+          </div>
+          <div className="flex flex-wrap items-end gap-2 mt-4">
+              {newReminderWhen !== 'on' && (
+                  <input
+                      type="number"
+                      min={1}
+                      max={90}
+                      value={newReminderDays}
+                      onChange={(e) => setNewReminderDays(parseInt(e.target.value) || 0)}
+                      className="w-20 border border-gray-200 rounded-lg px-3 py-2 text-sm bg-gray-50"
+                  />
+              )}
+              <select
+                  value={newReminderWhen}
+                  onChange={(e) => setNewReminderWhen(e.target.value as 'before' | 'on' | 'after')}
+                  className="border border-gray-200 rounded-lg px-3 py-2 text-sm bg-gray-50"
+              >
+                  <option value="before">days before due</option>
+                  <option value="on">on the due date</option>
+                  <option value="after">days after due</option>
+              </select>
+              <button
+                  onClick={handleAddReminder}
+                  className="px-4 py-2 rounded-lg bg-purple-600 text-white text-sm font-medium hover:bg-purple-700"
+              >
+                  Add Reminder
+              </button>
+          </div>
+          {settingsError && <p className="text-xs text-red-600 mt-2">{settingsError}</p>}
+      </div>
+
+      {/* Stripe account clients pay through payment links */}
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <div className="flex items-start justify-between gap-4">
+              <div>
+                  <h3 className="font-bold text-gray-700 mb-1">Online Payments</h3>
+                  <p className="text-xs text-gray-400">
+                      Clients who pay through a payment link pay into your own Stripe account. Connect one before creating payment links.
+                  </p>
+              </div>
+              <button
+                  onClick={handleConnectStripe}
+                  disabled={connectingStripe}
+                  className="px-4 py-2 rounded-lg bg-purple-600 text-white text-sm font-medium hover:bg-purple-700 disabled:opacity-40 shrink-0"
+              >
+                  {connectingStripe ? 'Checking...' : 'Set Up Stripe'}
+              </button>
+          </div>
+          {stripeStatus && (
+              <p className={`text-xs mt-2 ${stripeStatus.isError ? 'text-red-600' : 'text-green-600'}`}>{stripeStatus.message}</p>
+          )}
+      </div>
+
+      {/* Currencies, exchange rates and tax profiles */}
+      <InvoiceSettingsPanel settings={invoicingSettings} onSave={updateSettings} />
+
+      {/* Per-client breakdown */}
       <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="p-4 border-b border-gray-100">
+              <h3 className="font-bold text-gray-700">By Client</h3>
+          </div>
           <table className="w-full text-left">
               <thead className="bg-gray-50 border-b border-gray-200">
                   <tr>
                       <th className="p-4 font-semibold text-gray-600">Client</th>
-                      <th className="p-4 font-semibold text-gray-600">Service</th>
+                      <th className="p-4 font-semibold text-gray-600">Invoices</th>
+                      <th className="p-4 font-semibold text-gray-600">Invoiced</th>
+                      <th className="p-4 font-semibold text-gray-600">Paid</th>
+                      <th className="p-4 font-semibold text-gray-600">Outstanding</th>
+                      <th className="p-4 font-semibold text-gray-600">Overdue</th>
+                  </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                  {clientSummaries.length > 0 ? clientSummaries.map(client => (
+                      <tr key={client.lead.id} className="hover:bg-gray-50">
+                          <td className="p-4 font-medium text-gray-800">{client.lead.businessName}</td>
+                          <td className="p-4 text-gray-600">{client.count}</td>
+                          <td className="p-4 text-gray-800">{formatCurrency(client.invoiced, reportingCurrency)}</td>
+                          <td className="p-4 text-green-700">{formatCurrency(client.paid, reportingCurrency)}</td>
+                          <td className="p-4 font-bold text-gray-800">{formatCurrency(client.outstanding, reportingCurrency)}</td>
+                          <td className={`p-4 font-bold ${client.overdue > 0 ? 'text-red-600' : 'text-gray-400'}`}>{formatCurrency(client.overdue, reportingCurrency)}</td>
+                      </tr>
+                  )) : (
+                      <tr>
+                          <td colSpan={6} className="p-8 text-center text-gray-400 text-sm">No issued invoices in this period.</td>
+                      </tr>
+                  )}
+              </tbody>
+          </table>
+      </div>
+
+      {/* Invoice list */}
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+          {downloadError && (
+              <div className="p-3 bg-red-50 border-b border-red-100 text-sm text-red-600">{downloadError}</div>
+          )}
+          <table className="w-full text-left">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                      <th className="p-4 font-semibold text-gray-600">Invoice</th>
+                      <th className="p-4 font-semibold text-gray-600">Client</th>
                       <th className="p-4 font-semibold text-gray-600">Date</th>
+                      <th className="p-4 font-semibold text-gray-600">Due</th>
                       <th className="p-4 font-semibold text-gray-600">Amount</th>
+                      <th className="p-4 font-semibold text-gray-600">Balance</th>
                       <th className="p-4 font-semibold text-gray-600">Status</th>
                       <th className="p-4 font-semibold text-gray-600">Action</th>
                   </tr>
               </thead>
               <tbody className="divide-y divide-gray-100">
-                  {convertedLeads.length > 0 ? convertedLeads.map((lead) => (
-                      <tr key={lead.id} className="hover:bg-gray-50">
-                          <td className="p-4 font-medium text-gray-800">{lead.businessName}</td>
-                          <td className="p-4 text-gray-600">Website Redesign</td>
-                          <td className="p-4 text-gray-600">{new Date(lead.addedAt || Date.now()).toLocaleDateString()}</td>
-                          <td className="p-4 font-bold text-gray-800">$1,200.00</td>
+                  {visibleRows.length > 0 ? visibleRows.map(({ invoice, lead, status, balance, daysOverdue, currency }) => (
+                      <tr key={`${lead.id}-${invoice.id}`} className="hover:bg-gray-50">
+                          <td className="p-4">
+                              <p className="font-medium text-gray-800">{invoice.invoiceNumber}</p>
+                              <p className="text-xs text-gray-500 truncate max-w-[200px]">{invoice.description}</p>
+                          </td>
+                          <td className="p-4 text-gray-600">{lead.businessName}</td>
+                          <td className="p-4 text-gray-600">{formatDate(invoice.createdAt)}</td>
+                          <td className="p-4 text-gray-600">
+                              {invoice.dueDate ? formatDate(invoice.dueDate) : '—'}
+                              {status === 'overdue' && (
+                                  <p className="text-xs text-red-600">{daysOverdue} day{daysOverdue === 1 ? '' : 's'} late</p>
+                              )}
+                          </td>
+                          <td className="p-4 font-bold text-gray-800">{formatCurrency(invoice.total || 0, currency)}</td>
+                          <td className="p-4 text-gray-800">{formatCurrency(balance, currency)}</td>
                           <td className="p-4">
-                              <span className="bg-green-100 text-green-700 px-2 py-1 rounded-full text-xs font-bold">PAID</span>
+                              <span className={`px-2 py-1 rounded-full text-xs font-bold uppercase ${STATUS_STYLES[status].className}`}>
+                                  {STATUS_STYLES[status].label}
+                              </span>
+                              <ReminderSummary reminders={invoice.reminders} />
                           </td>
                           <td className="p-4">
-                              <button className="text-purple-600 hover:underline text-sm font-medium">Download Invoice</button>
+                              <button
+                                  onClick={() => handleDownloadInvoice(lead, invoice)}
+                                  disabled={downloadingId === invoice.id}
+                                  className="text-purple-600 hover:underline text-sm font-medium disabled:opacity-50"
+                              >
+                                  {downloadingId === invoice.id ? 'Rendering...' : 'Download Invoice'}
+                              </button>
                           </td>
                       </tr>
                   )) : (
                       <tr>
-                          <td colSpan={6} className="p-12 text-center text-gray-400">
+                          <td colSpan={8} className="p-12 text-center text-gray-400">
                               <span className="block text-2xl mb-2">💸</span>
-                              No converted customers yet. 
-                              <br/>Go to "My Customers" and mark a lead as <strong>"Won"</strong> to generate an invoice.
+                              No invoices match these filters.
+                              <br/>Go to "My Customers" and use <strong>"+ Invoice"</strong> to bill a client.
                           </td>
                       </tr>
                   )}
@@ -74,4 +640,4 @@ export const Invoicing: React.FC<Props> = ({ leads }) => {
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,56 +1,125 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { findLeadsWithMaps } from '../services/geminiService';
-import { Lead } from '../types';
+import { Lead, SavedSearch, SavedSearchSchedule } from '../types';
+import { LeadMatch, dedupeLeads, findDuplicateLead } from '../lib/leadMatching';
+import { getScoreBadgeClass, withLeadScore } from '../lib/leadScoring';
+import { formatFoundLeads } from '../lib/leadSearch';
+import { inspectWebsites } from '../services/leadService';
 import { PageTour, SCOUT_TOUR_STEPS, usePageTour } from './PageTour';
 import { HelpTooltip } from './HelpTooltip';
+import { BatchLeadSearch } from './BatchLeadSearch';
 
 interface Props {
   onLeadsFound: (leads: Lead[]) => void;
-  onUseCredit: () => void;
   onAnalyze: (lead: Lead) => void;
   savedLeads: Lead[];
   onSaveLead: (lead: Lead) => void;
+  savedSearches: SavedSearch[];
+  onSaveSearch: (query: string, location: string, schedule: SavedSearchSchedule) => Promise<void>;
+  onSetSearchSchedule: (searchId: string, schedule: SavedSearchSchedule) => Promise<void>;
+  onDeleteSearch: (searchId: string) => Promise<void>;
 }
 
-export const LeadFinder: React.FC<Props> = ({ onLeadsFound, onUseCredit, onAnalyze, savedLeads, onSaveLead }) => {
+const SCHEDULE_LABELS: Record<SavedSearchSchedule, string> = {
+  off: 'Not scheduled',
+  daily: 'Daily',
+  weekly: 'Weekly',
+};
+
+export const LeadFinder: React.FC<Props> = ({
+  onLeadsFound,
+  onAnalyze,
+  savedLeads,
+  onSaveLead,
+  savedSearches,
+  onSaveSearch,
+  onSetSearchSchedule,
+  onDeleteSearch,
+}) => {
   const [query, setQuery] = useState('');
   const [location, setLocation] = useState('');
   const [loading, setLoading] = useState(false);
   const [results, setResults] = useState<Lead[]>([]);
   const [groundingChunks, setGroundingChunks] = useState<any[]>([]);
+  const [sortBy, setSortBy] = useState<'search' | 'score'>('search');
+  const [checkingWebsites, setCheckingWebsites] = useState(false);
+  const [newSearchSchedule, setNewSearchSchedule] = useState<SavedSearchSchedule>('weekly');
+  const [mode, setMode] = useState<'single' | 'batch'>('single');
+
+  const currentSearchSaved = savedSearches.some(s =>
+    s.query.toLowerCase() === query.trim().toLowerCase() &&
+    s.location.toLowerCase() === location.trim().toLowerCase()
+  );
 
   // Page tour
   const { showTour, completeTour } = usePageTour('scout');
 
+  // Saved customer each result most likely is
+  const savedMatches = useMemo(() => {
+    const matches = new Map<string, LeadMatch>();
+    results.forEach(lead => {
+      const saved = savedLeads.find(s => s.id === lead.id);
+      const match = saved
+        ? { lead: saved, score: 1, reasons: ['Saved from this search'] }
+        : findDuplicateLead(lead, savedLeads);
+      if (match) matches.set(lead.id, match);
+    });
+    return matches;
+  }, [results, savedLeads]);
+
+  const sortedResults = useMemo(() => (
+    sortBy === 'score'
+      ? [...results].sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+      : results
+  ), [results, sortBy]);
+
+  // Check result websites in the background; scores update as signals arrive
+  const checkResultWebsites = async (leads: Lead[]) => {
+    const toCheck = leads.filter(lead => lead.existingWebsiteUrl && !lead.websiteSignals);
+    if (toCheck.length === 0) return;
+
+    setCheckingWebsites(true);
+    try {
+      const signals = await inspectWebsites(toCheck.map(lead => lead.existingWebsiteUrl!));
+      const signalsById = new Map(toCheck.map((lead, i) => [lead.id, signals[i]]));
+      setResults(prev => prev.map(lead => {
+        const websiteSignals = signalsById.get(lead.id);
+        return websiteSignals ? withLeadScore({ ...lead, websiteSignals }) : lead;
+      }));
+    } catch (error) {
+      console.error("Website check failed", error);
+    } finally {
+      setCheckingWebsites(false);
+    }
+  };
+
+  const runSearchAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch {
+      alert("Couldn't update your saved searches. Please try again.");
+    }
+  };
+
   const handleSearch = async (e?: React.FormEvent, isLoadMore: boolean = false) => {
     if (e) e.preventDefault();
     if (!query || !location) return;
 
     setLoading(true);
     try {
-      onUseCredit();
-      // If loading more, modify query slightly to get variety
-      const searchQuery = isLoadMore ? `${query} (different businesses)` : query;
+      // If loading more, ask for businesses other than the ones already shown
+      const shownNames = results.slice(-15).map(r => r.businessName).join(', ');
+      const searchQuery = isLoadMore ? `${query} (different businesses than: ${shownNames})` : query;
       const response = await findLeadsWithMaps(searchQuery, location);
       
-      const parsedLeads = response.leads; // Leads are now already parsed
-
-      const formattedLeads: Lead[] = parsedLeads.map((pl: any, idx: number) => ({
-        id: `lead-${Date.now()}-${idx}`,
-        businessName: pl.businessName,
-        location: pl.location,
-        details: pl.details,
-        phone: pl.phone,
-        email: pl.email,
-        status: 'new',
-        sourceUrl: response.grounding?.[idx]?.web?.uri || response.grounding?.[idx]?.maps?.uri
-      }));
+      const formattedLeads = formatFoundLeads(response);
 
-      // Combine if load more, replace if new search
-      const newResults = isLoadMore ? [...results, ...formattedLeads] : formattedLeads;
+      // Combine if load more, replace if new search; the same business often comes back twice
+      const newResults = dedupeLeads(isLoadMore ? [...results, ...formattedLeads] : formattedLeads);
       setResults(newResults);
       setGroundingChunks(response.grounding || []);
       onLeadsFound(newResults);
+      checkResultWebsites(formattedLeads);
     } catch (error) {
       console.error("Search failed", error);
       alert("Oops! Something went wrong finding customers. Please try again.");
@@ -71,139 +140,268 @@ export const LeadFinder: React.FC<Props> = ({ onLeadsFound, onUseCredit, onAnaly
         <p className="text-gray-500">Search for local businesses that need your help.</p>
       </div>
 
-      <div data-tour="scout-search" className="bg-white p-6 rounded-2xl shadow-sm border border-pink-100">
-        <form onSubmit={(e) => handleSearch(e, false)} className="flex flex-col md:flex-row gap-4">
-          <div className="flex-1">
-            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1">
-              Business Type
-              <HelpTooltip featureId="lead-finder-type" size="sm" />
-            </label>
-            <input
-              type="text"
-              placeholder="e.g. Bakeries, Yoga Studios"
-              className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-purple-200 focus:border-purple-400 outline-none transition-all"
-              value={query}
-              onChange={(e) => setQuery(e.target.value)}
-            />
-          </div>
-          <div className="flex-1">
-            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1">
-              Location
-              <HelpTooltip featureId="lead-finder-location" size="sm" />
-            </label>
-            <input
-              type="text"
-              placeholder="e.g. Seattle, WA"
-              className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-purple-200 focus:border-purple-400 outline-none transition-all"
-              value={location}
-              onChange={(e) => setLocation(e.target.value)}
-            />
-          </div>
-          <div className="flex items-end">
-            <button 
-              disabled={loading}
-              className="w-full md:w-auto px-8 py-3 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-xl font-semibold shadow-lg hover:shadow-xl hover:opacity-90 transition-all disabled:opacity-50"
-            >
-              {loading ? 'Searching...' : 'Find Customers'}
-            </button>
-          </div>
-        </form>
+      <div className="flex justify-center">
+        <div className="inline-flex bg-white border border-gray-200 rounded-xl p-1 text-sm">
+          <button
+            onClick={() => setMode('single')}
+            className={`px-4 py-1.5 rounded-lg font-medium ${mode === 'single' ? 'bg-purple-600 text-white' : 'text-gray-500 hover:text-gray-700'}`}
+          >
+            Single Search
+          </button>
+          <button
+            onClick={() => setMode('batch')}
+            className={`px-4 py-1.5 rounded-lg font-medium ${mode === 'batch' ? 'bg-purple-600 text-white' : 'text-gray-500 hover:text-gray-700'}`}
+          >
+            Batch Search
+          </button>
+        </div>
       </div>
 
-      {/* Results */}
-      {results.length > 0 && (
-          <div data-tour="scout-results" className="space-y-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {results.map((lead) => {
-                    const isSaved = savedLeads.some(s => s.businessName === lead.businessName); // Simple check by name
-                    const mapLink = groundingChunks.find(c => c.maps?.title === lead.businessName || c.web?.title.includes(lead.businessName))?.maps?.uri;
-
-                    return (
-                    <div key={lead.id} className={`bg-white rounded-2xl p-6 shadow-sm border transition-all group relative ${isSaved ? 'border-purple-300 bg-purple-50' : 'border-gray-100 hover:border-purple-200'}`}>
-                        {isSaved && (
-                            <div className="absolute top-4 right-4 bg-purple-200 text-purple-700 text-xs font-bold px-2 py-1 rounded-full">
-                                Already in List
-                            </div>
-                        )}
-                        <div className="flex justify-between items-start mb-4">
-                        <div className="bg-purple-100 text-purple-600 p-3 rounded-lg">
-                            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" /></svg>
-                        </div>
-                        {mapLink && (
-                            <a href={mapLink} target="_blank" rel="noreferrer" className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded-full hover:bg-green-200 mr-8">
-                                Maps 📍
-                            </a>
-                        )}
-                        </div>
-                        <h3 className="text-xl font-bold text-gray-800 mb-2 flex items-center gap-2 flex-wrap">
-                            {lead.businessName}
-                            {lead.hasWebsite && (
-                                <span className="inline-flex items-center gap-1 text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded-full">
-                                    🌐 Has Website
-                                </span>
-                            )}
-                            {!lead.hasWebsite && (
-                                <span className="inline-flex items-center gap-1 text-xs bg-orange-100 text-orange-700 px-2 py-1 rounded-full">
-                                    📝 No Website
-                                </span>
-                            )}
-                        </h3>
-                        {lead.existingWebsiteUrl && (
-                            <a
-                                href={lead.existingWebsiteUrl}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="text-xs bg-blue-50 text-blue-600 px-2 py-1 rounded-full hover:bg-blue-100 inline-block mb-2"
-                            >
-                                🔗 View Their Site
-                            </a>
-                        )}
-                        <p className="text-sm text-gray-500 mb-4">{lead.location}</p>
-                        <p className="text-gray-600 text-sm mb-6 line-clamp-3">{lead.details}</p>
-                        
-                        <div className="grid grid-cols-2 gap-3">
-                            {isSaved ? (
-                                <button 
-                                    onClick={() => onAnalyze(savedLeads.find(s => s.businessName === lead.businessName) || lead)}
-                                    className="col-span-2 w-full py-2 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700 transition-colors"
-                                >
-                                    Manage Customer
-                                </button>
-                            ) : (
-                                <>
-                                    <button 
-                                        onClick={() => onSaveLead(lead)}
-                                        className="py-2 border border-purple-200 text-purple-600 rounded-lg font-medium hover:bg-purple-50 transition-colors"
-                                    >
-                                        Save List
-                                    </button>
-                                    <button 
-                                        onClick={() => {
-                                            onSaveLead(lead);
-                                            onAnalyze(lead);
-                                        }}
-                                        className="py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg font-medium hover:opacity-90 transition-colors"
-                                    >
-                                        Start Work
-                                    </button>
-                                </>
-                            )}
-                        </div>
-                    </div>
-                    );
-                })}
+      {/* Kept mounted so a running batch survives switching tabs */}
+      <div className={mode === 'batch' ? '' : 'hidden'}>
+        <BatchLeadSearch
+          onAnalyze={onAnalyze}
+          savedLeads={savedLeads}
+          onSaveLead={onSaveLead}
+        />
+      </div>
+
+      {mode === 'single' && (
+        <>
+        <div data-tour="scout-search" className="bg-white p-6 rounded-2xl shadow-sm border border-pink-100">
+          <form onSubmit={(e) => handleSearch(e, false)} className="flex flex-col md:flex-row gap-4">
+            <div className="flex-1">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1">
+                Business Type
+                <HelpTooltip featureId="lead-finder-type" size="sm" />
+              </label>
+              <input
+                type="text"
+                placeholder="e.g. Bakeries, Yoga Studios"
+                className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-purple-200 focus:border-purple-400 outline-none transition-all"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+              />
             </div>
-            
-            <div className="flex justify-center">
-                <button 
-                    onClick={() => handleSearch(undefined, true)}
-                    disabled={loading}
-                    className="px-6 py-3 bg-white border border-gray-200 text-gray-600 rounded-full hover:bg-gray-50 font-medium shadow-sm transition-all"
-                >
-                    {loading ? 'Finding More...' : 'Search More Results ↻'}
-                </button>
+            <div className="flex-1">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1">
+                Location
+                <HelpTooltip featureId="lead-finder-location" size="sm" />
+              </label>
+              <input
+                type="text"
+                placeholder="e.g. Seattle, WA"
+                className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:ring-2 focus:ring-purple-200 focus:border-purple-400 outline-none transition-all"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+              />
             </div>
+            <div className="flex items-end">
+              <button 
+                disabled={loading}
+                className="w-full md:w-auto px-8 py-3 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-xl font-semibold shadow-lg hover:shadow-xl hover:opacity-90 transition-all disabled:opacity-50"
+              >
+                {loading ? 'Searching...' : 'Find Customers'}
+              </button>
+            </div>
+          </form>
+
+          {/* Saved Searches */}
+          <div className="mt-4 pt-4 border-t border-gray-100 space-y-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="font-medium text-gray-700">Saved searches</span>
+                  {query.trim() && location.trim() && !currentSearchSaved && (
+                      <>
+                          <select
+                              value={newSearchSchedule}
+                              onChange={(e) => setNewSearchSchedule(e.target.value as SavedSearchSchedule)}
+                              className="ml-auto px-2 py-1 border border-gray-200 rounded-lg text-xs text-gray-600"
+                          >
+                              {Object.entries(SCHEDULE_LABELS).map(([value, label]) => (
+                                  <option key={value} value={value}>{value === 'off' ? 'Run manually' : `Check ${label.toLowerCase()}`}</option>
+                              ))}
+                          </select>
+                          <button
+                              type="button"
+                              onClick={() => runSearchAction(() => onSaveSearch(query, location, newSearchSchedule))}
+                              className="px-3 py-1 text-xs bg-purple-50 text-purple-600 border border-purple-200 rounded-lg hover:bg-purple-100"
+                          >
+                              Save "{query.trim()}" in {location.trim()}
+                          </button>
+                      </>
+                  )}
+              </div>
+              {savedSearches.length === 0 ? (
+                  <p className="text-xs text-gray-400">Save a search to re-run it later, or schedule it to find new businesses automatically.</p>
+              ) : (
+                  <div className="flex flex-wrap gap-2">
+                      {savedSearches.map(search => (
+                          <div key={search.id} className="flex items-center gap-2 pl-3 pr-1 py-1 bg-gray-50 border border-gray-200 rounded-full text-xs">
+                              <button
+                                  type="button"
+                                  onClick={() => { setQuery(search.query); setLocation(search.location); }}
+                                  className="font-medium text-gray-700 hover:text-purple-600"
+                                  title={search.lastError || (search.lastRunAt ? `Last run ${new Date(search.lastRunAt).toLocaleString()}: ${search.lastNewCount ?? 0} new` : 'Use this search')}
+                              >
+                                  {search.query} · {search.location}
+                                  {search.lastError && <span className="ml-1 text-red-500">⚠</span>}
+                              </button>
+                              <select
+                                  value={search.schedule}
+                                  onChange={(e) => runSearchAction(() => onSetSearchSchedule(search.id, e.target.value as SavedSearchSchedule))}
+                                  className="bg-transparent text-gray-500"
+                              >
+                                  {Object.entries(SCHEDULE_LABELS).map(([value, label]) => (
+                                      <option key={value} value={value}>{label}</option>
+                                  ))}
+                              </select>
+                              <button
+                                  type="button"
+                                  onClick={() => runSearchAction(() => onDeleteSearch(search.id))}
+                                  className="w-5 h-5 rounded-full text-gray-400 hover:bg-gray-200 hover:text-gray-600"
+                                  title="Delete saved search"
+                              >
+                                  ×
+                              </button>
+                          </div>
+                      ))}
+                  </div>
+              )}
           </div>
+        </div>
+
+        {/* Results */}
+        {results.length > 0 && (
+            <div data-tour="scout-results" className="space-y-6">
+              <div className="flex items-center justify-between gap-4">
+                  <p className="text-sm text-gray-500">
+                      {results.length} business{results.length === 1 ? '' : 'es'}
+                      {checkingWebsites && ' · Checking websites...'}
+                  </p>
+                  <select
+                      value={sortBy}
+                      onChange={(e) => setSortBy(e.target.value as 'search' | 'score')}
+                      className="px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-600"
+                  >
+                      <option value="search">Sort: Search order</option>
+                      <option value="score">Sort: Best opportunity</option>
+                  </select>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {sortedResults.map((lead) => {
+                      const savedMatch = savedMatches.get(lead.id);
+                      const isSaved = !!savedMatch;
+                      const mapLink = groundingChunks.find(c => c.maps?.title === lead.businessName || c.web?.title.includes(lead.businessName))?.maps?.uri;
+
+                      return (
+                      <div key={lead.id} className={`bg-white rounded-2xl p-6 shadow-sm border transition-all group relative ${isSaved ? 'border-purple-300 bg-purple-50' : 'border-gray-100 hover:border-purple-200'}`}>
+                          {isSaved && (
+                              <div
+                                  className="absolute top-4 right-4 bg-purple-200 text-purple-700 text-xs font-bold px-2 py-1 rounded-full"
+                                  title={`${savedMatch.lead.businessName}: ${savedMatch.reasons.join(', ')}`}
+                              >
+                                  {savedMatch.score === 1 ? 'Already in List' : 'Possible Duplicate'}
+                              </div>
+                          )}
+                          <div className="flex justify-between items-start mb-4">
+                          <div className="bg-purple-100 text-purple-600 p-3 rounded-lg">
+                              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" /></svg>
+                          </div>
+                          {mapLink && (
+                              <a href={mapLink} target="_blank" rel="noreferrer" className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded-full hover:bg-green-200 mr-8">
+                                  Maps 📍
+                              </a>
+                          )}
+                          </div>
+                          <h3 className="text-xl font-bold text-gray-800 mb-2 flex items-center gap-2 flex-wrap">
+                              {lead.businessName}
+                              {lead.hasWebsite && (
+                                  <span className="inline-flex items-center gap-1 text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded-full">
+                                      🌐 Has Website
+                                  </span>
+                              )}
+                              {!lead.hasWebsite && (
+                                  <span className="inline-flex items-center gap-1 text-xs bg-orange-100 text-orange-700 px-2 py-1 rounded-full">
+                                      📝 No Website
+                                  </span>
+                              )}
+                              {lead.score !== undefined && (
+                                  <span
+                                      className={`text-xs font-bold px-2 py-1 rounded-full cursor-help ${getScoreBadgeClass(lead.score)}`}
+                                      title={(lead.scoreBreakdown || []).map(f => `${f.points > 0 ? '+' : ''}${f.points} ${f.label}`).join('\n')}
+                                  >
+                                      Score {lead.score}
+                                  </span>
+                              )}
+                          </h3>
+                          {lead.existingWebsiteUrl && (
+                              <a
+                                  href={lead.existingWebsiteUrl}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-xs bg-blue-50 text-blue-600 px-2 py-1 rounded-full hover:bg-blue-100 inline-block mb-2"
+                              >
+                                  🔗 View Their Site
+                              </a>
+                          )}
+                          <p className="text-sm text-gray-500 mb-4">{lead.location}</p>
+                          <p className="text-gray-600 text-sm mb-6 line-clamp-3">{lead.details}</p>
+                          
+                          <div className="grid grid-cols-2 gap-3">
+                              {savedMatch ? (
+                                  <>
+                                      <button 
+                                          onClick={() => onAnalyze(savedMatch.lead)}
+                                          className="col-span-2 w-full py-2 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700 transition-colors"
+                                      >
+                                          Manage Customer
+                                      </button>
+                                      {savedMatch.score < 1 && (
+                                          <button
+                                              onClick={() => onSaveLead(lead)}
+                                              className="col-span-2 text-xs text-purple-500 hover:text-purple-700"
+                                          >
+                                              Not the same business? Save as new
+                                          </button>
+                                      )}
+                                  </>
+                              ) : (
+                                  <>
+                                      <button 
+                                          onClick={() => onSaveLead(lead)}
+                                          className="py-2 border border-purple-200 text-purple-600 rounded-lg font-medium hover:bg-purple-50 transition-colors"
+                                      >
+                                          Save List
+                                      </button>
+                                      <button 
+                                          onClick={() => {
+                                              onSaveLead(lead);
+                                              onAnalyze(lead);
+                                          }}
+                                          className="py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg font-medium hover:opacity-90 transition-colors"
+                                      >
+                                          Start Work
+                                      </button>
+                                  </>
+                              )}
+                          </div>
+                      </div>
+                      );
+                  })}
+              </div>
+              
+              <div className="flex justify-center">
+                  <button 
+                      onClick={() => handleSearch(undefined, true)}
+                      disabled={loading}
+                      className="px-6 py-3 bg-white border border-gray-200 text-gray-600 rounded-full hover:bg-gray-50 font-medium shadow-sm transition-all"
+                  >
+                      {loading ? 'Finding More...' : 'Search More Results ↻'}
+                  </button>
+              </div>
+            </div>
+        )}
+        </>
       )}
     </div>
   );
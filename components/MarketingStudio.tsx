@@ -3,7 +3,6 @@ import { Lead } from '../types';
 
 interface Props {
   selectedLead: Lead | null;
-  onUseCredit: (amount: number) => void;
   leads: Lead[];
   onSelectLead: (lead: Lead) => void;
   onUpdateLead: (lead: Lead) => void;
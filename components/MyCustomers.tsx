@@ -1,7 +1,45 @@
-import React, { useState, useRef } from 'react';
-import { Lead, Invoice, InvoiceItem, Communication, PaymentRecord } from '../types';
-import { generateBrandAnalysis, generatePitchEmail, generateWebsiteConceptImage, promptForKeySelection } from '../services/geminiService';
-import { ApiKeyModal } from './ApiKeyModal';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { Lead, LeadTask, CustomFieldDefinition, Invoice, InvoiceItem, Communication, PaymentRecord, RecurringInvoiceTemplate, RecurringInterval, InvoiceSender, InvoicingSettings, TaxLine, Quote, QuoteStatus, FollowUpStep, FollowUpStopReason } from '../types';
+import { generateBrandAnalysis, generatePitchEmail, generateWebsiteConceptImage } from '../services/geminiService';
+import { CustomerImportModal } from './CustomerImportModal';
+import { allocateInvoiceNumber, createInvoicePaymentLink, generateInvoicePdf, shareQuote } from '../services/invoiceService';
+import { sendClientEmail } from '../services/emailService';
+import { auditWebsite, inspectWebsites, mergeLeads } from '../services/leadService';
+import { LeadMatch, findDuplicateCandidates, findDuplicateLead, matchLeads } from '../lib/leadMatching';
+import { buildCustomersCsv } from '../lib/customerExport';
+import { getScoreBadgeClass, scoreLead } from '../lib/leadScoring';
+import { createSiteAuditHistoryItem, getLatestSiteAudit } from '../lib/siteAudit';
+import { ACTIVITY_FILTERS, ActivityFilter, buildActivityTimeline } from '../lib/activityTimeline';
+import {
+    CUSTOM_FIELD_TYPES,
+    addTags,
+    collectTags,
+    describeLeadCustomData,
+    formatCustomFieldValue,
+    getCustomFieldValue,
+    hasTag,
+    matchesCustomFieldFilter,
+    matchesLeadSearch,
+    parseCustomFieldInput,
+    parseTags,
+    setCustomFieldValue
+} from '../lib/customFields';
+import { TaskBucket, formatDueDate, getTaskBucket, removeTask, setTaskCompleted, toDateKey, upsertTask } from '../lib/leadTasks';
+import { downloadTextFile } from '../lib/csv';
+import { isFirebaseConfigured } from '../lib/firebase';
+import { useInvoicingSettings } from '../hooks/useInvoicingSettings';
+import { useEmailAccount } from '../hooks/useEmailAccount';
+import { useCustomFieldSettings } from '../hooks/useCustomFieldSettings';
+import {
+    DEFAULT_CURRENCY,
+    SUPPORTED_CURRENCIES,
+    calculateInvoiceTotals,
+    convertToReportingCurrency,
+    formatMoney,
+    formatTaxLineLabel,
+    getInvoiceCurrency,
+    getInvoiceTaxLines
+} from '../lib/invoiceTotals';
 
 // Helper function to get invoice payment status
 const getInvoicePaymentStatus = (invoice: Invoice): { status: 'paid' | 'partial' | 'unpaid' | 'overdue'; color: string; bgColor: string; label: string } => {
@@ -20,6 +58,62 @@ const getInvoicePaymentStatus = (invoice: Invoice): { status: 'paid' | 'partial'
     }
 };
 
+const RECURRING_INTERVAL_LABELS: Record<RecurringInterval, string> = {
+    weekly: 'Weekly',
+    monthly: 'Monthly',
+    quarterly: 'Quarterly',
+    yearly: 'Yearly'
+};
+
+// Helper to describe when a recurring schedule stops
+const describeRecurringEnd = (template: RecurringInvoiceTemplate): string => {
+    const end = template.endCondition;
+    if (end.type === 'after_count') return `${template.generatedCount} of ${end.count} invoices`;
+    if (end.type === 'until_date') return `Until ${new Date(end.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+    return 'No end date';
+};
+
+// Helper to get the amount each recurring invoice will be issued for
+const getRecurringTemplateTotal = (template: RecurringInvoiceTemplate): number => {
+    return calculateInvoiceTotals({
+        items: template.items,
+        discount: template.discount,
+        discountType: template.discountType,
+        taxLines: template.taxLines || (template.taxRate > 0 ? [{ name: 'Tax', rate: template.taxRate }] : [])
+    }).total;
+};
+
+const DEFAULT_QUOTE_VALID_DAYS = 30;
+
+const QUOTE_STATUS_STYLES: Record<QuoteStatus | 'expired', { label: string; className: string }> = {
+    draft: { label: 'Draft', className: 'bg-gray-100 text-gray-600' },
+    sent: { label: 'Awaiting Reply', className: 'bg-blue-100 text-blue-700' },
+    accepted: { label: 'Accepted', className: 'bg-green-100 text-green-700' },
+    declined: { label: 'Declined', className: 'bg-red-100 text-red-700' },
+    expired: { label: 'Expired', className: 'bg-yellow-100 text-yellow-700' }
+};
+
+// Open quotes past their expiry date can no longer be accepted
+const getQuoteDisplayStatus = (quote: Quote): QuoteStatus | 'expired' => {
+    if ((quote.status === 'draft' || quote.status === 'sent') && quote.expiresAt < Date.now()) return 'expired';
+    return quote.status;
+};
+
+const DEFAULT_FOLLOW_UP_STEPS: FollowUpStep[] = [
+    { delayDays: 3, focus: 'Friendly check-in on the pitch' },
+    { delayDays: 5, focus: 'Share one concrete idea for their website' },
+    { delayDays: 7, focus: 'Politely close the loop' }
+];
+
+const FOLLOW_UP_STOP_LABELS: Record<FollowUpStopReason, string> = {
+    replied: 'Stopped: the client replied',
+    status_changed: 'Stopped: customer status changed',
+    manual: 'Stopped manually',
+    no_email_account: 'Stopped: no email account connected',
+    no_recipient: 'Stopped: customer has no email address',
+    failed: 'Stopped: sending failed'
+};
+
 // Helper to get remaining balance
 const getInvoiceBalance = (invoice: Invoice): number => {
     return Math.max(0, (invoice.total || 0) - (invoice.paidAmount || 0));
@@ -28,9 +122,11 @@ const getInvoiceBalance = (invoice: Invoice): number => {
 interface Props {
   customers: Lead[];
   onUpdateCustomer: (lead: Lead) => void;
-  onUseCredit: (amount: number) => void;
+  onImportCustomers: (leads: Lead[]) => Promise<void>;
   onBuildWebsite: (lead: Lead) => void;
   onEditWebsite?: (lead: Lead) => void;
+  initialCustomerId?: string; // Customer to open with, e.g. from the Today task list
+  onLoadCustomerDetails?: (customerIds: string[]) => void; // Loads history and website files
 }
 
 // Default invoice form state
@@ -48,27 +144,94 @@ const defaultInvoiceForm = {
   dueDate: '',
   billingPeriodStart: '',
   billingPeriodEnd: '',
-  taxRate: 0,
+  currency: DEFAULT_CURRENCY,
+  taxProfileId: '',
+  taxLines: [] as TaxLine[],
+  saveAsDefaultSender: false,
   discount: 0,
   discountType: 'percentage' as 'percentage' | 'fixed',
   notes: '',
-  terms: 'Payment is due within 30 days of invoice date. Late payments may incur additional charges.'
+  terms: 'Payment is due within 30 days of invoice date. Late payments may incur additional charges.',
+  // Recurring schedule
+  recurring: false,
+  recurringInterval: 'monthly' as RecurringInterval,
+  recurringStartDate: '',
+  recurringDueInDays: 14,
+  recurringEndType: 'never' as RecurringInvoiceTemplate['endCondition']['type'],
+  recurringEndCount: 12,
+  recurringEndDate: '',
+  recurringAutoSend: true,
+  // Quotes share this form; they skip billing period, recurrence and due date
+  documentType: 'invoice' as 'invoice' | 'quote',
+  quoteExpiryDate: ''
 };
 
-export const MyCustomers: React.FC<Props> = ({ customers, onUpdateCustomer, onUseCredit, onBuildWebsite, onEditWebsite }) => {
-  const [selectedId, setSelectedId] = useState<string | null>(customers.length > 0 ? customers[0].id : null);
+// Fresh invoice form prefilled with the user's saved sender, currency and tax profile
+const getInitialInvoiceForm = (settings: InvoicingSettings): typeof defaultInvoiceForm => {
+  const sender = settings.defaultSender || {};
+  const taxProfile = settings.taxProfiles.find(p => p.id === settings.defaultTaxProfileId);
+  return {
+    ...defaultInvoiceForm,
+    senderName: sender.name || '',
+    senderCompany: sender.company || '',
+    senderAddress: sender.address || '',
+    senderCity: sender.city || '',
+    senderPhone: sender.phone || '',
+    senderEmail: sender.email || '',
+    senderWebsite: sender.website || '',
+    items: [{ id: `item-${Date.now()}`, description: '', quantity: 1, unitPrice: 0 }],
+    currency: sender.defaultCurrency || settings.defaultCurrency,
+    taxProfileId: taxProfile?.id || '',
+    taxLines: taxProfile ? taxProfile.lines.map(line => ({ ...line })) : []
+  };
+};
+
+// Task form state; id is empty for a new task
+const defaultTaskForm = {
+  id: '',
+  title: '',
+  dueDate: '',
+  assignee: '',
+  reminder: '', // datetime-local value, empty for no reminder
+  notes: ''
+};
+
+const TASK_BUCKET_STYLES: Record<TaskBucket, string> = {
+  overdue: 'text-red-600 font-bold',
+  today: 'text-orange-600 font-bold',
+  upcoming: 'text-gray-600',
+  later: 'text-gray-400',
+  done: 'text-gray-400'
+};
+
+// Timestamp as a datetime-local input value in the user's time zone
+const toDateTimeInput = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${toDateKey(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const MyCustomers: React.FC<Props> = ({ customers, onUpdateCustomer, onImportCustomers, onBuildWebsite, onEditWebsite, initialCustomerId, onLoadCustomerDetails }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(
+      initialCustomerId && customers.some(c => c.id === initialCustomerId)
+          ? initialCustomerId
+          : customers.length > 0 ? customers[0].id : null
+  );
   const [loading, setLoading] = useState(false);
   const [pitchLoading, setPitchLoading] = useState(false);
   const [conceptLoading, setConceptLoading] = useState(false);
-  const [showKeyModal, setShowKeyModal] = useState(false);
-  const [pendingAction, setPendingAction] = useState<(() => void) | null>(null);
   const [showInvoiceModal, setShowInvoiceModal] = useState(false);
   const [showEmailModal, setShowEmailModal] = useState(false);
   const [emailLoading, setEmailLoading] = useState(false);
+  const [emailSending, setEmailSending] = useState(false);
+  const [issuingInvoiceNumber, setIssuingInvoiceNumber] = useState(false);
   const [viewingInvoice, setViewingInvoice] = useState<Invoice | null>(null);
   const invoicePreviewRef = useRef<HTMLDivElement>(null);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [paymentInvoice, setPaymentInvoice] = useState<Invoice | null>(null);
+  const [paymentLinkLoading, setPaymentLinkLoading] = useState(false);
+  const [invoiceActionError, setInvoiceActionError] = useState<string | null>(null);
+  const [pdfLoading, setPdfLoading] = useState(false);
   const [paymentForm, setPaymentForm] = useState({
       amount: 0,
       method: 'bank_transfer' as PaymentRecord['method'],
@@ -77,17 +240,81 @@ export const MyCustomers: React.FC<Props> = ({ customers, onUpdateCustomer, onUs
   });
 
   // Invoice form state
+  const { settings: invoicingSettings, updateSettings: updateInvoicingSettings } = useInvoicingSettings();
+  const { account: emailAccount } = useEmailAccount();
+  const { settings: customFieldSettings, updateSettings: updateCustomFieldSettings } = useCustomFieldSettings();
   const [invoiceForm, setInvoiceForm] = useState(defaultInvoiceForm);
+  const isQuoteForm = invoiceForm.documentType === 'quote';
+  const [quoteActionId, setQuoteActionId] = useState<string | null>(null);
+  const [quoteActionError, setQuoteActionError] = useState<string | null>(null);
+  const [followUpSteps, setFollowUpSteps] = useState<FollowUpStep[]>(DEFAULT_FOLLOW_UP_STEPS);
+  const [showMergeModal, setShowMergeModal] = useState(false);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [mergeKeepSelected, setMergeKeepSelected] = useState(true);
+  const [mergeLoading, setMergeLoading] = useState(false);
+  const [mergeError, setMergeError] = useState<string | null>(null);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [listSort, setListSort] = useState<'recent' | 'score' | 'name'>('recent');
+  const [websiteCheckLoading, setWebsiteCheckLoading] = useState(false);
+  const [auditLoading, setAuditLoading] = useState(false);
+  const [activityFilter, setActivityFilter] = useState<ActivityFilter>('all');
+  const [showTaskModal, setShowTaskModal] = useState(false);
+  const [taskForm, setTaskForm] = useState(defaultTaskForm);
+  const [showCompletedTasks, setShowCompletedTasks] = useState(false);
+  const [listSearch, setListSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [fieldFilterId, setFieldFilterId] = useState('');
+  const [fieldFilterValue, setFieldFilterValue] = useState('');
+  const [tagInput, setTagInput] = useState('');
+  // Field definitions being edited in the Manage Fields modal; null while it's closed
+  const [fieldDrafts, setFieldDrafts] = useState<(CustomFieldDefinition & { optionsText: string })[] | null>(null);
 
   const selectedCustomer = customers.find(c => c.id === selectedId);
 
+  useEffect(() => {
+      if (selectedId) onLoadCustomerDetails?.([selectedId]);
+  }, [selectedId, onLoadCustomerDetails]);
+  // Customers saved before scoring existed have no stored score yet
+  const selectedScore = selectedCustomer && (selectedCustomer.scoreBreakdown
+      ? { score: selectedCustomer.score ?? 0, breakdown: selectedCustomer.scoreBreakdown }
+      : scoreLead(selectedCustomer));
+
+  const customFields = customFieldSettings.fields;
+  const allTags = useMemo(() => collectTags(customers), [customers]);
+  const fieldFilter = customFields.find(f => f.id === fieldFilterId);
+
+  const sortedCustomers = useMemo(() => {
+      const filtered = customers.filter(lead =>
+          matchesLeadSearch(lead, listSearch, customFields) &&
+          (!tagFilter || hasTag(lead, tagFilter)) &&
+          (!fieldFilter || matchesCustomFieldFilter(lead, fieldFilter, fieldFilterValue))
+      );
+      if (listSort === 'score') {
+          const scoreOf = (lead: Lead) => lead.score ?? scoreLead(lead).score;
+          return filtered.sort((a, b) => scoreOf(b) - scoreOf(a));
+      }
+      if (listSort === 'name') {
+          return filtered.sort((a, b) => a.businessName.localeCompare(b.businessName));
+      }
+      return filtered;
+  }, [customers, listSort, listSearch, tagFilter, fieldFilter, fieldFilterValue, customFields]);
+
+  // Likely duplicate of each customer, flagged in the list
+  const duplicateMatches = useMemo(() => {
+      const matches = new Map<string, LeadMatch>();
+      customers.forEach(customer => {
+          const match = findDuplicateLead(customer, customers);
+          if (match) matches.set(customer.id, match);
+      });
+      return matches;
+  }, [customers]);
+
   // The Magic "One-Click" Setup
-  const handleAutoPitchKit = async (skipKeyCheck = false) => {
+  const handleAutoPitchKit = async () => {
       if (!selectedCustomer) return;
       setPitchLoading(true);
 
       try {
-          onUseCredit(10);
           const branding = await generateBrandAnalysis(selectedCustomer.businessName, selectedCustomer.details);
 
           let conceptImage = selectedCustomer.websiteConceptImage;
@@ -97,17 +324,10 @@ export const MyCustomers: React.FC<Props> = ({ customers, onUpdateCustomer, onUs
                 conceptImage = await generateWebsiteConceptImage(
                     `Homepage for ${selectedCustomer.businessName} (${selectedCustomer.details}). Colors: ${branding.colors?.join(', ')}`,
                     undefined,
-                    undefined,
-                    skipKeyCheck
+                    undefined
                 );
              }
           } catch (err: any) {
-              if (err.message.includes("API_KEY_REQUIRED")) {
-                  setPendingAction(() => () => handleAutoPitchKit(true));
-                  setShowKeyModal(true);
-                  setPitchLoading(false);
-                  return;
-              }
               console.warn("Image gen failed, proceeding with email only", err);
           }
 
@@ -115,7 +335,9 @@ export const MyCustomers: React.FC<Props> = ({ customers, onUpdateCustomer, onUs
               selectedCustomer.businessName,
               selectedCustomer.websiteUrl,
               branding.tone || 'Professional',
-              !!conceptImage
+              !!conceptImage,
+              getLatestSiteAudit(selectedCustomer),
+              describeLeadCustomData(selectedCustomer, customFieldSettings.fields)
           );
 
           // Add communication record
@@ -145,11 +367,10 @@ export const MyCustomers: React.FC<Props> = ({ customers, onUpdateCustomer, onUs
       }
   };
 
-  const handleRegenerateConcept = async (skipKeyCheck = false) => {
+  const handleRegenerateConcept = async () => {
       if (!selectedCustomer) return;
       setConceptLoading(true);
       try {
-          onUseCredit(5);
           const branding = selectedCustomer.brandGuidelines;
           const tone = branding?.tone || 'Professional';
           const colors = branding?.colors?.join(', ') || 'Standard';
@@ -157,8 +378,7 @@ export const MyCustomers: React.FC<Props> = ({ customers, onUpdateCustomer, onUs
           const newImage = await generateWebsiteConceptImage(
              `Modern homepage website design for ${selectedCustomer.businessName}. Style: ${tone}. Colors: ${colors}. High quality UI/UX mockup.`,
              undefined,
-             undefined,
-             skipKeyCheck
+             undefined
           );
 
           onUpdateCustomer({
@@ -166,27 +386,13 @@ export const MyCustomers: React.FC<Props> = ({ customers, onUpdateCustomer, onUs
               websiteConceptImage: newImage
           });
       } catch (err: any) {
-          if (err.message.includes("API_KEY_REQUIRED")) {
-              setPendingAction(() => () => handleRegenerateConcept(true));
-              setShowKeyModal(true);
-          } else {
-              console.error(err);
-              alert("Failed to regenerate image.");
-          }
+          console.error(err);
+          alert(err.message || "Failed to regenerate image.");
       } finally {
           setConceptLoading(false);
       }
   }
 
-  const handleKeyConfirm = async () => {
-      setShowKeyModal(false);
-      await promptForKeySelection();
-      if (pendingAction) {
-          pendingAction();
-          setPendingAction(null);
-      }
-  }
-
   const handleEmailEdit = (field: 'subject' | 'body', value: string) => {
       if (!selectedCustomer || !selectedCustomer.emailDraft) return;
       onUpdateCustomer({
@@ -206,16 +412,135 @@ export const MyCustomers: React.FC<Props> = ({ customers, onUpdateCustomer, onUs
       });
   }
 
+  const handleExportCustomers = () => {
+      // Exports what the list currently shows
+      const csv = buildCustomersCsv(sortedCustomers, invoicingSettings, customFields);
+      downloadTextFile(`customers-${new Date().toISOString().slice(0, 10)}.csv`, csv, 'text/csv;charset=utf-8');
+  };
+
+  const handleCheckWebsite = async () => {
+      if (!selectedCustomer?.existingWebsiteUrl) return;
+      setWebsiteCheckLoading(true);
+      try {
+          const [websiteSignals] = await inspectWebsites([selectedCustomer.existingWebsiteUrl]);
+          onUpdateCustomer({ ...selectedCustomer, websiteSignals });
+      } catch (e) {
+          console.error(e);
+          alert((e as Error).message || 'Could not check the website. Please try again.');
+      } finally {
+          setWebsiteCheckLoading(false);
+      }
+  };
+
+  const handleRunSiteAudit = async () => {
+      if (!selectedCustomer?.existingWebsiteUrl) return;
+      setAuditLoading(true);
+      try {
+          const report = await auditWebsite(selectedCustomer.existingWebsiteUrl);
+          onUpdateCustomer({
+              ...selectedCustomer,
+              websiteSignals: report.signals,
+              history: [...(selectedCustomer.history || []), createSiteAuditHistoryItem(report)],
+          });
+      } catch (e) {
+          console.error(e);
+          alert((e as Error).message || 'Could not audit the website. Please try again.');
+      } finally {
+          setAuditLoading(false);
+      }
+  };
+
+  const openMergeModal = () => {
+      if (!selectedCustomer) return;
+      setMergeTargetId(duplicateMatches.get(selectedCustomer.id)?.lead.id || '');
+      setMergeKeepSelected(true);
+      setMergeError(null);
+      setShowMergeModal(true);
+  };
+
+  const handleMergeCustomers = async () => {
+      const target = customers.find(c => c.id === mergeTargetId);
+      if (!selectedCustomer || !target) return;
+
+      const primary = mergeKeepSelected ? selectedCustomer : target;
+      const duplicate = mergeKeepSelected ? target : selectedCustomer;
+
+      setMergeLoading(true);
+      setMergeError(null);
+      try {
+          // The server writes the merge; the customer list picks it up from the listener
+          const merged = await mergeLeads(primary.id, duplicate.id);
+          setSelectedId(merged.id);
+          setShowMergeModal(false);
+      } catch (err) {
+          setMergeError((err as Error).message);
+      } finally {
+          setMergeLoading(false);
+      }
+  };
+
   // Calculate invoice totals
-  const calculateInvoiceTotals = () => {
-      const subtotal = invoiceForm.items.reduce((sum, item) => sum + (item.quantity * item.unitPrice), 0);
-      const discountAmount = invoiceForm.discountType === 'percentage'
-          ? subtotal * (invoiceForm.discount / 100)
-          : invoiceForm.discount;
-      const afterDiscount = subtotal - discountAmount;
-      const taxAmount = afterDiscount * (invoiceForm.taxRate / 100);
-      const total = afterDiscount + taxAmount;
-      return { subtotal, discountAmount, taxAmount, total };
+  const getInvoiceFormTotals = () => calculateInvoiceTotals({
+      items: invoiceForm.items,
+      discount: invoiceForm.discount,
+      discountType: invoiceForm.discountType,
+      taxLines: invoiceForm.taxLines.filter(line => line.rate > 0)
+  });
+
+  // Open the create invoice modal with saved defaults
+  const openInvoiceModal = () => {
+      setInvoiceForm(getInitialInvoiceForm(invoicingSettings));
+      setShowInvoiceModal(true);
+  };
+
+  // Open the same modal for a quote, valid for 30 days by default
+  const openQuoteModal = () => {
+      const expiry = new Date(Date.now() + DEFAULT_QUOTE_VALID_DAYS * 24 * 60 * 60 * 1000);
+      setInvoiceForm({
+          ...getInitialInvoiceForm(invoicingSettings),
+          documentType: 'quote',
+          quoteExpiryDate: expiry.toISOString().slice(0, 10)
+      });
+      setShowInvoiceModal(true);
+  };
+
+  // Sender details from the form, if any were entered
+  const getFormSender = (): InvoiceSender | undefined => {
+      if (!invoiceForm.senderName && !invoiceForm.senderCompany) return undefined;
+      return {
+          name: invoiceForm.senderName || undefined,
+          company: invoiceForm.senderCompany || undefined,
+          address: invoiceForm.senderAddress || undefined,
+          city: invoiceForm.senderCity || undefined,
+          phone: invoiceForm.senderPhone || undefined,
+          email: invoiceForm.senderEmail || undefined,
+          website: invoiceForm.senderWebsite || undefined
+      };
+  };
+
+  // Remember the sender (and their currency) for future invoices when requested
+  const saveDefaultSenderIfRequested = () => {
+      const sender = getFormSender();
+      if (!invoiceForm.saveAsDefaultSender || !sender) return;
+      updateInvoicingSettings({
+          ...invoicingSettings,
+          defaultSender: { ...sender, defaultCurrency: invoiceForm.currency }
+      }).catch(error => console.error('Failed to save default sender:', error));
+  };
+
+  // Apply a saved tax profile to the form (empty id = custom lines)
+  const handleSelectTaxProfile = (profileId: string) => {
+      const profile = invoicingSettings.taxProfiles.find(p => p.id === profileId);
+      setInvoiceForm({
+          ...invoiceForm,
+          taxProfileId: profile?.id || '',
+          taxLines: profile ? profile.lines.map(line => ({ ...line })) : invoiceForm.taxLines
+      });
+  };
+
+  // Edit tax lines; any manual change detaches the form from its profile
+  const updateTaxLines = (taxLines: TaxLine[]) => {
+      setInvoiceForm({ ...invoiceForm, taxProfileId: '', taxLines });
   };
 
   // Add line item
@@ -245,24 +570,209 @@ export const MyCustomers: React.FC<Props> = ({ customers, onUpdateCustomer, onUs
       });
   };
 
+  // Add Recurring Invoice Schedule (invoices are generated server-side on each period start)
+  const handleAddRecurringInvoice = () => {
+      if (!selectedCustomer || invoiceForm.items.every(item => !item.description)) return;
+
+      const startDate = invoiceForm.recurringStartDate
+          ? new Date(invoiceForm.recurringStartDate).getTime()
+          : Date.now();
+      const endCondition: RecurringInvoiceTemplate['endCondition'] =
+          invoiceForm.recurringEndType === 'after_count'
+              ? { type: 'after_count', count: Math.max(1, invoiceForm.recurringEndCount) }
+              : invoiceForm.recurringEndType === 'until_date' && invoiceForm.recurringEndDate
+                  ? { type: 'until_date', date: new Date(invoiceForm.recurringEndDate).getTime() }
+                  : { type: 'never' };
+
+      const template: RecurringInvoiceTemplate = {
+          id: `rec-${Date.now()}`,
+          interval: invoiceForm.recurringInterval,
+          startDate,
+          nextRunAt: startDate,
+          dueInDays: Math.max(0, invoiceForm.recurringDueInDays),
+          currency: invoiceForm.currency,
+          items: invoiceForm.items.filter(item => item.description),
+          taxRate: getInvoiceFormTotals().taxRate,
+          taxLines: invoiceForm.taxLines.filter(line => line.rate > 0),
+          taxProfileId: invoiceForm.taxProfileId || undefined,
+          discount: invoiceForm.discount,
+          discountType: invoiceForm.discountType,
+          notes: invoiceForm.notes || undefined,
+          terms: invoiceForm.terms || undefined,
+          sender: getFormSender(),
+          endCondition,
+          autoSend: invoiceForm.recurringAutoSend,
+          status: 'active',
+          generatedCount: 0,
+          invoiceIds: [],
+          createdAt: Date.now()
+      };
+
+      onUpdateCustomer({
+          ...selectedCustomer,
+          recurringInvoices: [...(selectedCustomer.recurringInvoices || []), template]
+      });
+
+      saveDefaultSenderIfRequested();
+      setShowInvoiceModal(false);
+  };
+
+  // Pause, resume or remove a recurring schedule
+  const handleUpdateRecurringInvoice = (templateId: string, status: RecurringInvoiceTemplate['status'] | 'deleted') => {
+      if (!selectedCustomer) return;
+      const templates = selectedCustomer.recurringInvoices || [];
+      onUpdateCustomer({
+          ...selectedCustomer,
+          recurringInvoices: status === 'deleted'
+              ? templates.filter(t => t.id !== templateId)
+              : templates.map(t => t.id === templateId ? { ...t, status } : t)
+      });
+  };
+
+  // Add Quote (the client accepts it from the shared quote page)
+  const handleAddQuote = () => {
+      if (!selectedCustomer || invoiceForm.items.every(item => !item.description)) return;
+
+      const { subtotal, discountAmount, taxLines, taxRate, taxAmount, total } = getInvoiceFormTotals();
+      // Valid through the end of the chosen day
+      const expiresAt = invoiceForm.quoteExpiryDate
+          ? new Date(invoiceForm.quoteExpiryDate).getTime() + 24 * 60 * 60 * 1000 - 1
+          : Date.now() + DEFAULT_QUOTE_VALID_DAYS * 24 * 60 * 60 * 1000;
+
+      const newQuote: Quote = {
+          id: `quote-${Date.now()}`,
+          quoteNumber: `QUO-${String(Date.now()).slice(-6)}`,
+          status: 'draft',
+          currency: invoiceForm.currency,
+          items: invoiceForm.items.filter(item => item.description),
+          subtotal,
+          taxRate,
+          taxAmount,
+          taxLines,
+          taxProfileId: invoiceForm.taxProfileId || undefined,
+          discount: invoiceForm.discountType === 'percentage' ? invoiceForm.discount : discountAmount,
+          discountType: invoiceForm.discountType,
+          total,
+          notes: invoiceForm.notes || undefined,
+          terms: invoiceForm.terms || undefined,
+          sender: getFormSender(),
+          createdAt: Date.now(),
+          expiresAt
+      };
+
+      onUpdateCustomer({
+          ...selectedCustomer,
+          quotes: [...(selectedCustomer.quotes || []), newQuote]
+      });
+
+      saveDefaultSenderIfRequested();
+      setShowInvoiceModal(false);
+  };
+
+  // Get the quote's public link, then email it or copy it to the clipboard
+  const handleShareQuote = async (quote: Quote, via: 'email' | 'copy') => {
+      if (!selectedCustomer) return;
+      setQuoteActionId(quote.id);
+      setQuoteActionError(null);
+      try {
+          const { url, quote: sharedQuote, leadStatus } = await shareQuote(selectedCustomer.id, quote.id);
+          const communications = [...(selectedCustomer.communications || [])];
+
+          if (via === 'email') {
+              const senderName = quote.sender?.company || quote.sender?.name || '';
+              const subject = `Quote ${quote.quoteNumber} for ${selectedCustomer.businessName}`;
+              const body = `Dear ${selectedCustomer.businessName},
+
+Thank you for the opportunity to work with you. Please review quote ${quote.quoteNumber} for ${formatCurrency(quote.total, quote.currency)}, valid until ${new Date(quote.expiresAt).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}:
+
+${url}
+
+You can accept or decline the quote online from that page. Once accepted, we'll send your invoice right away.
+
+Best regards,
+${senderName}`;
+              window.location.href = `mailto:${selectedCustomer.email || ''}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+              communications.push({
+                  id: `comm-${Date.now()}`,
+                  type: 'email',
+                  subject,
+                  content: `Quote ${quote.quoteNumber} sent via email`,
+                  timestamp: Date.now(),
+                  direction: 'outbound'
+              });
+          } else {
+              await navigator.clipboard.writeText(url);
+          }
+
+          onUpdateCustomer({
+              ...selectedCustomer,
+              status: leadStatus,
+              quotes: (selectedCustomer.quotes || []).map(q => q.id === quote.id ? sharedQuote : q),
+              communications
+          });
+      } catch (error: any) {
+          setQuoteActionError(error.message || 'Failed to share quote');
+      } finally {
+          setQuoteActionId(null);
+      }
+  };
+
+  const handleDeleteQuote = (quoteId: string) => {
+      if (!selectedCustomer) return;
+      onUpdateCustomer({
+          ...selectedCustomer,
+          quotes: (selectedCustomer.quotes || []).filter(q => q.id !== quoteId)
+      });
+  };
+
+  // Invoice numbers come from the server; without Firebase only this device numbers them
+  const getNewInvoiceNumber = async (): Promise<string | null> => {
+      if (!isFirebaseConfigured()) return `INV-${String(Date.now()).slice(-6)}`;
+
+      setIssuingInvoiceNumber(true);
+      try {
+          return await allocateInvoiceNumber();
+      } catch (error: any) {
+          alert(error.message || 'Failed to get an invoice number.');
+          return null;
+      } finally {
+          setIssuingInvoiceNumber(false);
+      }
+  };
+
   // Add Invoice
-  const handleAddInvoice = () => {
+  const handleAddInvoice = async () => {
       if (!selectedCustomer || invoiceForm.items.every(item => !item.description)) return;
+      if (isQuoteForm) {
+          handleAddQuote();
+          return;
+      }
+      if (invoiceForm.recurring) {
+          handleAddRecurringInvoice();
+          return;
+      }
+      if (issuingInvoiceNumber) return;
+
+      const invoiceNumber = await getNewInvoiceNumber();
+      if (!invoiceNumber) return;
 
-      const { subtotal, discountAmount, taxAmount, total } = calculateInvoiceTotals();
+      const { subtotal, discountAmount, taxLines, taxRate, taxAmount, total } = getInvoiceFormTotals();
 
       const newInvoice: Invoice = {
           id: `inv-${Date.now()}`,
-          invoiceNumber: `INV-${String(Date.now()).slice(-6)}`,
+          invoiceNumber,
           amount: total,
           description: invoiceForm.items.map(i => i.description).filter(Boolean).join(', '),
           status: 'draft',
           createdAt: Date.now(),
           dueDate: invoiceForm.dueDate ? new Date(invoiceForm.dueDate).getTime() : undefined,
           items: invoiceForm.items.filter(item => item.description),
+          currency: invoiceForm.currency,
           subtotal,
-          taxRate: invoiceForm.taxRate,
+          taxRate,
           taxAmount,
+          taxLines,
+          taxProfileId: invoiceForm.taxProfileId || undefined,
           discount: invoiceForm.discountType === 'percentage' ? invoiceForm.discount : discountAmount,
           discountType: invoiceForm.discountType,
           total,
@@ -272,15 +782,7 @@ export const MyCustomers: React.FC<Props> = ({ customers, onUpdateCustomer, onUs
               start: new Date(invoiceForm.billingPeriodStart).getTime(),
               end: new Date(invoiceForm.billingPeriodEnd).getTime()
           } : undefined,
-          sender: (invoiceForm.senderName || invoiceForm.senderCompany) ? {
-              name: invoiceForm.senderName || undefined,
-              company: invoiceForm.senderCompany || undefined,
-              address: invoiceForm.senderAddress || undefined,
-              city: invoiceForm.senderCity || undefined,
-              phone: invoiceForm.senderPhone || undefined,
-              email: invoiceForm.senderEmail || undefined,
-              website: invoiceForm.senderWebsite || undefined
-          } : undefined,
+          sender: getFormSender(),
           paidAmount: 0,
           payments: []
       };
@@ -290,10 +792,7 @@ export const MyCustomers: React.FC<Props> = ({ customers, onUpdateCustomer, onUs
           invoices: [...(selectedCustomer.invoices || []), newInvoice]
       });
 
-      setInvoiceForm({
-          ...defaultInvoiceForm,
-          items: [{ id: `item-${Date.now()}`, description: '', quantity: 1, unitPrice: 0 }]
-      });
+      saveDefaultSenderIfRequested();
       setShowInvoiceModal(false);
   };
 
@@ -324,7 +823,7 @@ export const MyCustomers: React.FC<Props> = ({ customers, onUpdateCustomer, onUs
   };
 
   // Generate Invoice Email
-  const generateInvoiceEmail = (invoice: Invoice, customer: Lead) => {
+  const generateInvoiceEmail = (invoice: Invoice, customer: Lead, pdfUrl?: string) => {
       // Format billing period
       const billingPeriod = invoice.billingPeriod
           ? `${new Date(invoice.billingPeriod.start).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - ${new Date(invoice.billingPeriod.end).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`
@@ -345,9 +844,16 @@ export const MyCustomers: React.FC<Props> = ({ customers, onUpdateCustomer, onUs
       const senderPhone = invoice.sender?.phone || '';
       const senderAddress = invoice.sender?.address ? `${invoice.sender.address}${invoice.sender.city ? ', ' + invoice.sender.city : ''}` : '';
 
+      // Amounts in the invoice's own currency
+      const currency = getInvoiceCurrency(invoice);
+      const money = (amount: number) => formatCurrency(amount, currency);
+      const taxSummary = getInvoiceTaxLines(invoice)
+          .map(line => `\n${formatTaxLineLabel(line)}: ${money(line.amount)}`)
+          .join('');
+
       // Items summary
       const itemsList = invoice.items?.map(item =>
-          `  • ${item.description}: ${item.quantity} x ${formatCurrency(item.unitPrice)} = ${formatCurrency(item.quantity * item.unitPrice)}`
+          `  • ${item.description}: ${item.quantity} x ${money(item.unitPrice)} = ${money(item.quantity * item.unitPrice)}`
       ).join('\n') || '';
 
       // Generate body
@@ -374,13 +880,13 @@ ${itemsList}
 PAYMENT SUMMARY
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-Subtotal: ${formatCurrency(invoice.subtotal)}${invoice.discount > 0 ? `\nDiscount${invoice.discountType === 'percentage' ? ` (${invoice.discount}%)` : ''}: -${formatCurrency(invoice.discountType === 'percentage' ? invoice.subtotal * (invoice.discount / 100) : invoice.discount)}` : ''}${invoice.taxRate > 0 ? `\nTax (${invoice.taxRate}%): ${formatCurrency(invoice.taxAmount)}` : ''}
+Subtotal: ${money(invoice.subtotal)}${invoice.discount > 0 ? `\nDiscount${invoice.discountType === 'percentage' ? ` (${invoice.discount}%)` : ''}: -${money(invoice.discountType === 'percentage' ? invoice.subtotal * (invoice.discount / 100) : invoice.discount)}` : ''}${taxSummary}
 
-TOTAL AMOUNT DUE: ${formatCurrency(invoice.total)}
+TOTAL AMOUNT DUE: ${money(invoice.total)} ${currency}${invoice.paymentLink && invoice.paymentLink.expiresAt > Date.now() ? `\n\nPay securely online: ${invoice.paymentLink.url}` : ''}
 
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-${invoice.notes ? `Note: ${invoice.notes}\n\n` : ''}Please review the attached invoice PDF for complete details. If you have any questions regarding this invoice, please don't hesitate to contact us.
+${invoice.notes ? `Note: ${invoice.notes}\n\n` : ''}${pdfUrl ? `Download your invoice PDF: ${pdfUrl}\n\n` : ''}Please review the invoice PDF for complete details. If you have any questions regarding this invoice, please don't hesitate to contact us.
 
 ${invoice.terms ? `Terms & Conditions:\n${invoice.terms}\n\n` : ''}We appreciate your prompt payment.
 
@@ -396,53 +902,91 @@ Please remember to save the invoice PDF before sending.`;
   };
 
   // Email Invoice
-  const handleEmailInvoice = (invoice: Invoice) => {
-      if (!selectedCustomer) return;
+  const handleEmailInvoice = async (invoice: Invoice) => {
+      if (!selectedCustomer || emailSending) return;
+      setEmailSending(true);
+
+      try {
+          // Render and store a PDF copy of saved invoices so the client gets a download link
+          const isSavedInvoice = !invoice.id.startsWith('temp-');
+          let pdfUrl: string | undefined;
+          if (isFirebaseConfigured() && isSavedInvoice) {
+              try {
+                  pdfUrl = (await generateInvoicePdf(selectedCustomer.id, invoice.id)).url;
+              } catch (error) {
+                  console.warn('Invoice PDF unavailable, sending email without it', error);
+              }
+          }
 
-      const { subject, body } = generateInvoiceEmail(invoice, selectedCustomer);
-      const customerEmail = selectedCustomer.email || '';
+          const { subject, body } = generateInvoiceEmail(invoice, selectedCustomer, pdfUrl);
+
+          // Send from the connected mail account with the PDF attached; the
+          // server records the communication on the lead
+          if (emailAccount) {
+              await sendClientEmail({
+                  leadId: selectedCustomer.id,
+                  subject,
+                  body,
+                  category: 'invoice',
+                  invoiceId: isSavedInvoice ? invoice.id : undefined
+              });
+              return;
+          }
 
-      // Create mailto link
-      const mailtoLink = `mailto:${customerEmail}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+          const customerEmail = selectedCustomer.email || '';
 
-      // Open default mail client
-      window.location.href = mailtoLink;
+          // Create mailto link
+          const mailtoLink = `mailto:${customerEmail}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
 
-      // Record communication
-      const newCommunication: Communication = {
-          id: `comm-${Date.now()}`,
-          type: 'email',
-          subject: subject,
-          content: `Invoice ${invoice.invoiceNumber} sent via email`,
-          timestamp: Date.now(),
-          direction: 'outbound'
-      };
+          // Open default mail client
+          window.location.href = mailtoLink;
 
-      onUpdateCustomer({
-          ...selectedCustomer,
-          communications: [...(selectedCustomer.communications || []), newCommunication]
-      });
+          // Record communication
+          const newCommunication: Communication = {
+              id: `comm-${Date.now()}`,
+              type: 'email',
+              subject: subject,
+              content: `Invoice ${invoice.invoiceNumber} sent via email`,
+              timestamp: Date.now(),
+              direction: 'outbound'
+          };
+
+          onUpdateCustomer({
+              ...selectedCustomer,
+              communications: [...(selectedCustomer.communications || []), newCommunication]
+          });
+      } catch (error: any) {
+          alert(error.message || 'Failed to send invoice email.');
+      } finally {
+          setEmailSending(false);
+      }
   };
 
   // Email Invoice from Create Form (preview)
-  const handleEmailInvoicePreview = () => {
-      if (!selectedCustomer) return;
+  const handleEmailInvoicePreview = async () => {
+      if (!selectedCustomer || issuingInvoiceNumber) return;
+
+      const invoiceNumber = await getNewInvoiceNumber();
+      if (!invoiceNumber) return;
 
-      const { subtotal, discountAmount, taxAmount, total } = calculateInvoiceTotals();
+      const { subtotal, discountAmount, taxLines, taxRate, taxAmount, total } = getInvoiceFormTotals();
 
       // Create a temporary invoice object for the email
       const tempInvoice: Invoice = {
           id: `temp-${Date.now()}`,
-          invoiceNumber: `INV-${String(Date.now()).slice(-6)}`,
+          invoiceNumber,
           amount: total,
           description: invoiceForm.items.map((i: { description: string }) => i.description).filter(Boolean).join(', '),
           status: 'draft',
           createdAt: Date.now(),
           dueDate: invoiceForm.dueDate ? new Date(invoiceForm.dueDate).getTime() : undefined,
           items: invoiceForm.items.filter((item: { description: string }) => item.description),
+          currency: invoiceForm.currency,
           subtotal,
-          taxRate: invoiceForm.taxRate,
+          taxRate,
           taxAmount,
+          taxLines,
+          taxProfileId: invoiceForm.taxProfileId || undefined,
           discount: invoiceForm.discountType === 'percentage' ? invoiceForm.discount : discountAmount,
           discountType: invoiceForm.discountType,
           total,
@@ -452,15 +996,7 @@ Please remember to save the invoice PDF before sending.`;
               start: new Date(invoiceForm.billingPeriodStart).getTime(),
               end: new Date(invoiceForm.billingPeriodEnd).getTime()
           } : undefined,
-          sender: (invoiceForm.senderName || invoiceForm.senderCompany) ? {
-              name: invoiceForm.senderName || undefined,
-              company: invoiceForm.senderCompany || undefined,
-              address: invoiceForm.senderAddress || undefined,
-              city: invoiceForm.senderCity || undefined,
-              phone: invoiceForm.senderPhone || undefined,
-              email: invoiceForm.senderEmail || undefined,
-              website: invoiceForm.senderWebsite || undefined
-          } : undefined,
+          sender: getFormSender(),
           paidAmount: 0,
           payments: []
       };
@@ -468,6 +1004,43 @@ Please remember to save the invoice PDF before sending.`;
       handleEmailInvoice(tempInvoice);
   };
 
+  // Download a server-rendered PDF of the invoice
+  const handleDownloadInvoicePdf = async (invoice: Invoice) => {
+      if (!selectedCustomer) return;
+      setPdfLoading(true);
+      setInvoiceActionError(null);
+      // Open the tab up front so the download isn't caught by popup blockers
+      const pdfWindow = window.open('', '_blank');
+      try {
+          const { url } = await generateInvoicePdf(selectedCustomer.id, invoice.id);
+          if (pdfWindow) {
+              pdfWindow.location.href = url;
+          } else {
+              window.location.href = url;
+          }
+      } catch (error: any) {
+          pdfWindow?.close();
+          setInvoiceActionError(error.message || 'Failed to generate invoice PDF');
+      } finally {
+          setPdfLoading(false);
+      }
+  };
+
+  // Create a Stripe payment link; card payments are recorded by the webhook
+  const handleCreatePaymentLink = async (invoice: Invoice) => {
+      if (!selectedCustomer) return;
+      setPaymentLinkLoading(true);
+      setInvoiceActionError(null);
+      try {
+          const paymentLink = await createInvoicePaymentLink(selectedCustomer.id, invoice.id);
+          setViewingInvoice({ ...invoice, paymentLink });
+      } catch (error: any) {
+          setInvoiceActionError(error.message || 'Failed to create payment link');
+      } finally {
+          setPaymentLinkLoading(false);
+      }
+  };
+
   // Update Invoice Status
   const handleUpdateInvoiceStatus = (invoiceId: string, status: Invoice['status']) => {
       if (!selectedCustomer) return;
@@ -547,17 +1120,84 @@ Please remember to save the invoice PDF before sending.`;
       setPaymentInvoice(null);
   };
 
+  // Send the pitch draft from the connected mail account
+  const handleSendPitch = async () => {
+      if (!selectedCustomer?.emailDraft || emailSending) return;
+      setEmailSending(true);
+      try {
+          const communication = await sendClientEmail({
+              leadId: selectedCustomer.id,
+              subject: selectedCustomer.emailDraft.subject,
+              body: selectedCustomer.emailDraft.body,
+              category: 'pitch'
+          });
+          onUpdateCustomer({
+              ...selectedCustomer,
+              status: selectedCustomer.status === 'new' || selectedCustomer.status === 'analyzing' ? 'contacted' : selectedCustomer.status,
+              communications: [...(selectedCustomer.communications || []), communication]
+          });
+      } catch (error: any) {
+          alert(error.message || 'Failed to send email.');
+      } finally {
+          setEmailSending(false);
+      }
+  };
+
+  // Enroll the lead in an automated follow-up sequence (sent by the server)
+  const handleStartFollowUps = () => {
+      if (!selectedCustomer) return;
+      const steps = followUpSteps
+          .filter(step => step.delayDays > 0)
+          .map(step => ({
+              delayDays: Math.round(step.delayDays),
+              ...(step.focus?.trim() ? { focus: step.focus.trim() } : {})
+          }));
+      if (steps.length === 0) return;
+
+      const now = Date.now();
+      onUpdateCustomer({
+          ...selectedCustomer,
+          followUpSequence: {
+              id: `seq-${now}`,
+              status: 'active',
+              steps,
+              currentStep: 0,
+              nextSendAt: now + steps[0].delayDays * 24 * 60 * 60 * 1000,
+              enrolledAt: now,
+              enrolledStatus: selectedCustomer.status
+          }
+      });
+  };
+
+  const handleStopFollowUps = () => {
+      if (!selectedCustomer?.followUpSequence) return;
+      onUpdateCustomer({
+          ...selectedCustomer,
+          followUpSequence: {
+              ...selectedCustomer.followUpSequence,
+              status: 'stopped',
+              stopReason: 'manual',
+              stoppedAt: Date.now()
+          }
+      });
+  };
+
+  const updateFollowUpStep = (index: number, changes: Partial<FollowUpStep>) => {
+      setFollowUpSteps(steps => steps.map((step, i) => i === index ? { ...step, ...changes } : step));
+  };
+
   // Quick Generate Email with Branding
   const handleQuickEmail = async () => {
       if (!selectedCustomer) return;
       setEmailLoading(true);
       try {
-          onUseCredit(2);
           const email = await generatePitchEmail(
               selectedCustomer.businessName,
               selectedCustomer.websiteUrl,
               selectedCustomer.brandGuidelines?.tone || 'Professional',
-              !!selectedCustomer.websiteConceptImage
+              !!selectedCustomer.websiteConceptImage,
+              getLatestSiteAudit(selectedCustomer),
+              describeLeadCustomData(selectedCustomer, customFieldSettings.fields)
           );
 
           const newCommunication: Communication = {
@@ -584,26 +1224,90 @@ Please remember to save the invoice PDF before sending.`;
   };
 
   // Get all activity items sorted by date
-  const getActivityItems = () => {
-      if (!selectedCustomer) return [];
-      const items: { type: string; date: number; data: any }[] = [];
+  const handleAddTags = (text: string) => {
+      if (!selectedCustomer) return;
+      const tags = addTags(selectedCustomer.tags || [], parseTags(text));
+      if (tags.length !== (selectedCustomer.tags || []).length) {
+          onUpdateCustomer({ ...selectedCustomer, tags });
+      }
+      setTagInput('');
+  };
 
-      // Add invoices
-      selectedCustomer.invoices?.forEach(inv => {
-          items.push({ type: 'invoice', date: inv.createdAt, data: inv });
-      });
+  const handleRemoveTag = (tag: string) => {
+      if (!selectedCustomer) return;
+      onUpdateCustomer({ ...selectedCustomer, tags: (selectedCustomer.tags || []).filter(t => t !== tag) });
+  };
 
-      // Add communications
-      selectedCustomer.communications?.forEach(comm => {
-          items.push({ type: 'communication', date: comm.timestamp, data: comm });
-      });
+  const handleCustomFieldChange = (field: CustomFieldDefinition, input: string) => {
+      if (!selectedCustomer) return;
+      const value = parseCustomFieldInput(field, input);
+      if (value === getCustomFieldValue(selectedCustomer, field)) return;
+      onUpdateCustomer(setCustomFieldValue(selectedCustomer, field.id, value));
+  };
 
-      // Add history items
-      selectedCustomer.history?.forEach(hist => {
-          items.push({ type: 'history', date: hist.timestamp, data: hist });
-      });
+  const openFieldsModal = () => {
+      setFieldDrafts(customFields.map(field => ({ ...field, optionsText: (field.options || []).join(', ') })));
+  };
+
+  const handleSaveFields = async () => {
+      if (!fieldDrafts) return;
+      try {
+          await updateCustomFieldSettings({
+              fields: fieldDrafts
+                  .filter(draft => draft.label.trim())
+                  .map(({ optionsText, ...field }) => ({ ...field, options: optionsText.split(',') }))
+          });
+          setFieldDrafts(null);
+      } catch (e) {
+          console.error(e);
+          alert('Could not save custom fields. Please try again.');
+      }
+  };
+
+  const openTaskModal = (task?: LeadTask) => {
+      setTaskForm(task ? {
+          id: task.id,
+          title: task.title,
+          dueDate: task.dueDate,
+          assignee: task.assignee || '',
+          reminder: task.reminderAt ? toDateTimeInput(task.reminderAt) : '',
+          notes: task.notes || ''
+      } : { ...defaultTaskForm, dueDate: toDateKey() });
+      setShowTaskModal(true);
+  };
+
+  const handleSaveTask = () => {
+      if (!selectedCustomer || !taskForm.title.trim() || !taskForm.dueDate) return;
+
+      const existing = selectedCustomer.tasks?.find(t => t.id === taskForm.id);
+      const reminderAt = taskForm.reminder ? new Date(taskForm.reminder).getTime() : 0;
+      const task: LeadTask = {
+          ...existing,
+          id: existing?.id || `task-${Date.now()}`,
+          title: taskForm.title.trim(),
+          dueDate: taskForm.dueDate,
+          createdAt: existing?.createdAt || Date.now(),
+          ...(taskForm.assignee.trim() ? { assignee: taskForm.assignee.trim() } : {}),
+          ...(taskForm.notes.trim() ? { notes: taskForm.notes.trim() } : {}),
+          ...(reminderAt ? { reminderAt } : {})
+      };
+      // Cleared fields are left out rather than kept from the old task
+      if (!taskForm.assignee.trim()) delete task.assignee;
+      if (!taskForm.notes.trim()) delete task.notes;
+      if (!reminderAt) delete task.reminderAt;
 
-      return items.sort((a, b) => b.date - a.date);
+      onUpdateCustomer(upsertTask(selectedCustomer, task));
+      setShowTaskModal(false);
+  };
+
+  const handleToggleTask = (task: LeadTask) => {
+      if (!selectedCustomer) return;
+      onUpdateCustomer(setTaskCompleted(selectedCustomer, task.id, !task.completedAt));
+  };
+
+  const handleDeleteTask = (task: LeadTask) => {
+      if (!selectedCustomer || !confirm(`Delete the task "${task.title}"?`)) return;
+      onUpdateCustomer(removeTask(selectedCustomer, task.id));
   };
 
   const formatDate = (timestamp: number) => {
@@ -616,9 +1320,7 @@ Please remember to save the invoice PDF before sending.`;
       });
   };
 
-  const formatCurrency = (amount: number) => {
-      return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
-  };
+  const formatCurrency = (amount: number, currency: string = DEFAULT_CURRENCY) => formatMoney(amount, currency);
 
   if (customers.length === 0) {
       return (
@@ -628,27 +1330,141 @@ Please remember to save the invoice PDF before sending.`;
               </div>
               <h2 className="text-2xl font-bold text-gray-800">No customers yet!</h2>
               <p className="text-gray-500 mt-2">Go to "Find Customers" to start building your list.</p>
+              <button
+                  onClick={() => setShowImportModal(true)}
+                  className="mt-6 px-5 py-2 rounded-xl border border-purple-200 text-purple-600 font-medium hover:bg-purple-50"
+              >
+                  Import from CSV or vCard
+              </button>
+              {showImportModal && (
+                  <CustomerImportModal
+                      existingCustomers={customers}
+                      onImport={onImportCustomers}
+                      onClose={() => setShowImportModal(false)}
+                  />
+              )}
           </div>
       );
   }
 
   return (
     <div className="h-[calc(100vh-100px)] flex gap-4">
-        {showKeyModal && <ApiKeyModal onClose={() => setShowKeyModal(false)} onConfirm={handleKeyConfirm} />}
+        {showImportModal && (
+            <CustomerImportModal
+                existingCustomers={customers}
+                onImport={onImportCustomers}
+                onClose={() => setShowImportModal(false)}
+            />
+        )}
 
         {/* Column 1: Customer List */}
         <div className="w-1/4 bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden flex flex-col">
-            <div className="p-4 border-b border-gray-100 bg-gray-50">
-                <h2 className="font-bold text-gray-700">My List ({customers.length})</h2>
+            <div className="p-4 border-b border-gray-100 bg-gray-50 flex items-center justify-between gap-2">
+                <h2 className="font-bold text-gray-700">
+                    My List ({sortedCustomers.length === customers.length ? customers.length : `${sortedCustomers.length}/${customers.length}`})
+                </h2>
+                <div className="flex gap-1">
+                    <select
+                        value={listSort}
+                        onChange={(e) => setListSort(e.target.value as 'recent' | 'score' | 'name')}
+                        className="text-xs px-1 py-1 rounded-lg border border-gray-200 bg-white text-gray-600"
+                        title="Sort customers"
+                    >
+                        <option value="recent">Recent</option>
+                        <option value="score">Score</option>
+                        <option value="name">Name</option>
+                    </select>
+                    <button
+                        onClick={() => setShowImportModal(true)}
+                        className="text-xs px-2 py-1 rounded-lg border border-gray-200 bg-white text-gray-600 hover:bg-gray-100"
+                        title="Import customers from CSV or vCard"
+                    >
+                        Import
+                    </button>
+                    <button
+                        onClick={handleExportCustomers}
+                        className="text-xs px-2 py-1 rounded-lg border border-gray-200 bg-white text-gray-600 hover:bg-gray-100"
+                        title="Download the listed customers as CSV"
+                    >
+                        Export
+                    </button>
+                </div>
+            </div>
+            <div className="p-2 border-b border-gray-100 space-y-2">
+                <input
+                    type="search"
+                    value={listSearch}
+                    onChange={(e) => setListSearch(e.target.value)}
+                    placeholder="Search names, notes, tags, fields..."
+                    className="w-full text-xs px-2 py-1.5 rounded-lg border border-gray-200"
+                />
+                {(allTags.length > 0 || customFields.length > 0) && (
+                    <div className="flex gap-1">
+                        {allTags.length > 0 && (
+                            <select
+                                value={tagFilter}
+                                onChange={(e) => setTagFilter(e.target.value)}
+                                className="flex-1 min-w-0 text-xs px-1 py-1 rounded-lg border border-gray-200 bg-white text-gray-600"
+                            >
+                                <option value="">All tags</option>
+                                {allTags.map(({ tag, count }) => (
+                                    <option key={tag} value={tag}>{tag} ({count})</option>
+                                ))}
+                            </select>
+                        )}
+                        {customFields.length > 0 && (
+                            <select
+                                value={fieldFilterId}
+                                onChange={(e) => { setFieldFilterId(e.target.value); setFieldFilterValue(''); }}
+                                className="flex-1 min-w-0 text-xs px-1 py-1 rounded-lg border border-gray-200 bg-white text-gray-600"
+                            >
+                                <option value="">Any field</option>
+                                {customFields.map(field => (
+                                    <option key={field.id} value={field.id}>{field.label}</option>
+                                ))}
+                            </select>
+                        )}
+                    </div>
+                )}
+                {fieldFilter && (fieldFilter.type === 'select' ? (
+                    <select
+                        value={fieldFilterValue}
+                        onChange={(e) => setFieldFilterValue(e.target.value)}
+                        className="w-full text-xs px-1 py-1 rounded-lg border border-gray-200 bg-white text-gray-600"
+                    >
+                        <option value="">Any value</option>
+                        {(fieldFilter.options || []).map(option => (
+                            <option key={option} value={option}>{option}</option>
+                        ))}
+                    </select>
+                ) : (
+                    <input
+                        type={fieldFilter.type === 'text' ? 'search' : fieldFilter.type}
+                        value={fieldFilterValue}
+                        onChange={(e) => setFieldFilterValue(e.target.value)}
+                        placeholder={`${fieldFilter.label} (blank for any value)`}
+                        className="w-full text-xs px-2 py-1.5 rounded-lg border border-gray-200"
+                    />
+                ))}
             </div>
             <div className="overflow-y-auto flex-1 p-2 space-y-2">
-                {customers.map(customer => (
+                {sortedCustomers.length === 0 && customers.length > 0 && (
+                    <p className="text-xs text-gray-400 text-center py-6">No customers match these filters</p>
+                )}
+                {sortedCustomers.map(customer => (
                     <div
                         key={customer.id}
                         onClick={() => setSelectedId(customer.id)}
                         className={`p-3 rounded-xl cursor-pointer transition-all ${selectedId === customer.id ? 'bg-purple-50 border-purple-200 border' : 'hover:bg-gray-50 border border-transparent'}`}
                     >
-                        <h3 className="font-bold text-gray-800 text-sm">{customer.businessName}</h3>
+                        <div className="flex justify-between items-start gap-2">
+                            <h3 className="font-bold text-gray-800 text-sm">{customer.businessName}</h3>
+                            {customer.score !== undefined && (
+                                <span className={`text-xs font-bold px-1.5 py-0.5 rounded-full ${getScoreBadgeClass(customer.score)}`} title="Opportunity score">
+                                    {customer.score}
+                                </span>
+                            )}
+                        </div>
                         <div className="flex justify-between items-center mt-1">
                             <div className="flex items-center gap-1">
                                 <span className="text-xs text-gray-500 truncate max-w-[100px]">{customer.location}</span>
@@ -664,7 +1480,26 @@ Please remember to save the invoice PDF before sending.`;
                                 )}
                             </div>
                             {customer.status === 'converted' && <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded-full">Won</span>}
+                            {customer.status === 'lost' && <span className="text-xs bg-red-50 text-red-500 px-2 py-0.5 rounded-full" title={customer.lostReason || undefined}>Lost</span>}
+                            {duplicateMatches.has(customer.id) && (
+                                <span
+                                    className="text-xs bg-amber-100 text-amber-700 px-2 py-0.5 rounded-full"
+                                    title={`Possible duplicate of ${duplicateMatches.get(customer.id)!.lead.businessName}`}
+                                >
+                                    Duplicate?
+                                </span>
+                            )}
                         </div>
+                        {(customer.tags?.length || 0) > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                                {customer.tags!.slice(0, 3).map(tag => (
+                                    <span key={tag} className="text-[10px] bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded">{tag}</span>
+                                ))}
+                                {customer.tags!.length > 3 && (
+                                    <span className="text-[10px] text-gray-400">+{customer.tags!.length - 3}</span>
+                                )}
+                            </div>
+                        )}
                     </div>
                 ))}
             </div>
@@ -703,10 +1538,137 @@ Please remember to save the invoice PDF before sending.`;
                             >
                                 {selectedCustomer.status === 'converted' ? 'Undo' : 'Won'}
                             </button>
+                            <button
+                                onClick={openMergeModal}
+                                disabled={customers.length < 2}
+                                className={`px-2 py-1 rounded-full text-xs font-bold border transition-colors disabled:opacity-40 ${duplicateMatches.has(selectedCustomer.id) ? 'border-amber-300 text-amber-700 bg-amber-50' : 'border-gray-200 text-gray-500'}`}
+                                title="Merge with another customer"
+                            >
+                                Merge
+                            </button>
                         </div>
                     </div>
                 </div>
 
+                {/* Tags & Custom Fields */}
+                <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100">
+                    <div className="flex items-center justify-between mb-3">
+                        <h3 className="font-bold text-gray-700 flex items-center text-sm">
+                            <span className="bg-gray-100 p-1 rounded mr-2">🏷️</span> Tags & Fields
+                        </h3>
+                        <button
+                            onClick={openFieldsModal}
+                            className="text-xs px-2 py-1 rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50"
+                        >
+                            Manage Fields
+                        </button>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-1 mb-3">
+                        {(selectedCustomer.tags || []).map(tag => (
+                            <span key={tag} className="text-xs bg-purple-50 text-purple-700 pl-2 pr-1 py-0.5 rounded-full flex items-center gap-1">
+                                {tag}
+                                <button onClick={() => handleRemoveTag(tag)} className="text-purple-400 hover:text-purple-700" title="Remove tag">×</button>
+                            </span>
+                        ))}
+                        <input
+                            type="text"
+                            list="customer-tag-suggestions"
+                            value={tagInput}
+                            onChange={(e) => setTagInput(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter' || e.key === ',') {
+                                    e.preventDefault();
+                                    handleAddTags(tagInput);
+                                }
+                            }}
+                            onBlur={() => tagInput.trim() && handleAddTags(tagInput)}
+                            placeholder="Add tag..."
+                            className="text-xs px-2 py-1 rounded-lg border border-dashed border-gray-300 w-24 focus:w-32 transition-all"
+                        />
+                        <datalist id="customer-tag-suggestions">
+                            {allTags.filter(({ tag }) => !hasTag(selectedCustomer, tag)).map(({ tag }) => (
+                                <option key={tag} value={tag} />
+                            ))}
+                        </datalist>
+                    </div>
+                    {customFields.length > 0 ? (
+                        <div className="grid grid-cols-2 gap-2">
+                            {customFields.map(field => {
+                                const value = getCustomFieldValue(selectedCustomer, field);
+                                const inputKey = `${selectedCustomer.id}-${field.id}-${value ?? ''}`;
+                                return (
+                                    <label key={field.id} className="block">
+                                        <span className="text-xs text-gray-500">{field.label}</span>
+                                        {field.type === 'select' ? (
+                                            <select
+                                                value={value === undefined ? '' : String(value)}
+                                                onChange={(e) => handleCustomFieldChange(field, e.target.value)}
+                                                className="w-full text-sm p-1.5 bg-gray-50 border border-gray-200 rounded-lg"
+                                            >
+                                                <option value="">—</option>
+                                                {(field.options || []).map(option => (
+                                                    <option key={option} value={option}>{option}</option>
+                                                ))}
+                                                {/* Keep a value whose choice was since removed */}
+                                                {value !== undefined && !(field.options || []).includes(String(value)) && (
+                                                    <option value={String(value)}>{String(value)}</option>
+                                                )}
+                                            </select>
+                                        ) : (
+                                            <input
+                                                key={inputKey}
+                                                type={field.type}
+                                                defaultValue={value === undefined ? '' : String(value)}
+                                                onBlur={(e) => handleCustomFieldChange(field, e.target.value)}
+                                                title={value === undefined ? undefined : formatCustomFieldValue(field, value)}
+                                                className="w-full text-sm p-1.5 bg-gray-50 border border-gray-200 rounded-lg"
+                                            />
+                                        )}
+                                    </label>
+                                );
+                            })}
+                        </div>
+                    ) : (
+                        <p className="text-xs text-gray-400">Add custom fields (e.g. budget or renewal date) to track details for every customer.</p>
+                    )}
+                </div>
+
+                {/* Opportunity Score */}
+                {selectedScore && (
+                    <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100">
+                        <div className="flex items-center justify-between mb-3">
+                            <h3 className="font-bold text-gray-700 flex items-center text-sm">
+                                <span className="bg-amber-100 p-1 rounded mr-2">🎯</span> Opportunity Score
+                            </h3>
+                            <div className="flex items-center gap-2">
+                                {selectedCustomer.existingWebsiteUrl && (
+                                    <button
+                                        onClick={handleCheckWebsite}
+                                        disabled={websiteCheckLoading}
+                                        className="text-xs px-2 py-1 rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+                                        title={selectedCustomer.websiteSignals ? `Last checked ${new Date(selectedCustomer.websiteSignals.checkedAt).toLocaleDateString()}` : undefined}
+                                    >
+                                        {websiteCheckLoading ? 'Checking...' : selectedCustomer.websiteSignals ? 'Re-check Website' : 'Check Website'}
+                                    </button>
+                                )}
+                                <span className={`px-2 py-1 rounded-full text-sm font-bold ${getScoreBadgeClass(selectedScore.score)}`}>
+                                    {selectedScore.score}/100
+                                </span>
+                            </div>
+                        </div>
+                        <ul className="space-y-1 text-xs">
+                            {selectedScore.breakdown.map(factor => (
+                                <li key={factor.signal} className="flex justify-between gap-3">
+                                    <span className="text-gray-600">{factor.label}</span>
+                                    <span className={`font-bold ${factor.points > 0 ? 'text-green-600' : 'text-gray-400'}`}>
+                                        {factor.points > 0 ? `+${factor.points}` : factor.points}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
                 {/* AUTO PITCH ACTION */}
                 {!selectedCustomer.brandGuidelines && (
                     <div className="bg-gradient-to-r from-purple-600 to-pink-600 rounded-2xl p-5 text-white shadow-lg flex items-center justify-between">
@@ -715,7 +1677,7 @@ Please remember to save the invoice PDF before sending.`;
                             <p className="text-purple-100 text-xs">Auto-generate Brand Analysis & Pitch Email.</p>
                         </div>
                         <button
-                            onClick={() => handleAutoPitchKit(false)}
+                            onClick={() => handleAutoPitchKit()}
                             disabled={pitchLoading}
                             className="bg-white text-purple-600 px-4 py-2 rounded-xl font-bold text-sm shadow-md hover:bg-gray-50 disabled:opacity-75"
                         >
@@ -808,6 +1770,61 @@ Please remember to save the invoice PDF before sending.`;
                     </div>
                 </div>
 
+                {/* Site Audit */}
+                {selectedCustomer.existingWebsiteUrl && (() => {
+                    const audit = getLatestSiteAudit(selectedCustomer);
+                    const severityClass = { high: 'bg-red-500', medium: 'bg-amber-400', low: 'bg-gray-300' };
+                    return (
+                        <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100">
+                            <div className="flex items-center justify-between mb-3">
+                                <h3 className="font-bold text-gray-700 flex items-center text-sm">
+                                    <span className="bg-red-100 p-1 rounded mr-2">🔍</span> Site Audit
+                                </h3>
+                                <button
+                                    onClick={handleRunSiteAudit}
+                                    disabled={auditLoading}
+                                    className="text-xs px-2 py-1 rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+                                >
+                                    {auditLoading ? 'Auditing...' : audit ? 'Re-run Audit' : 'Run Audit'}
+                                </button>
+                            </div>
+                            {audit ? (
+                                <div className="space-y-2 text-xs">
+                                    <p className="text-gray-400">
+                                        {new Date(audit.checkedAt).toLocaleDateString()}
+                                        {audit.responseTimeMs !== undefined && ` · loaded in ${(audit.responseTimeMs / 1000).toFixed(1)}s`}
+                                        {audit.linksChecked > 0 && ` · ${audit.linksChecked} links checked`}
+                                    </p>
+                                    {audit.issues.length === 0 ? (
+                                        <p className="text-green-600">No problems found.</p>
+                                    ) : (
+                                        <ul className="space-y-1">
+                                            {audit.issues.map((issue, i) => (
+                                                <li key={i} className="flex items-start gap-2">
+                                                    <span className={`mt-1 w-2 h-2 rounded-full shrink-0 ${severityClass[issue.severity]}`} title={issue.severity}></span>
+                                                    <span className="text-gray-700">{issue.message}</span>
+                                                    <span className="ml-auto text-gray-400 uppercase text-[10px]">{issue.category}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                    {audit.brokenLinks.length > 0 && (
+                                        <details className="text-gray-500">
+                                            <summary className="cursor-pointer">Broken links</summary>
+                                            {audit.brokenLinks.map(link => <p key={link} className="truncate">{link}</p>)}
+                                        </details>
+                                    )}
+                                    {audit.issues.length > 0 && (
+                                        <p className="text-gray-400">Pitch emails mention the top findings.</p>
+                                    )}
+                                </div>
+                            ) : (
+                                <p className="text-gray-400 text-xs text-center py-2">Audit their current site to find problems to mention in your pitch.</p>
+                            )}
+                        </div>
+                    );
+                })()}
+
                 {/* Email Card */}
                 <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100">
                     <h3 className="font-bold text-gray-700 mb-3 flex items-center text-sm">
@@ -825,17 +1842,128 @@ Please remember to save the invoice PDF before sending.`;
                                 value={selectedCustomer.emailDraft.body}
                                 onChange={(e) => handleEmailEdit('body', e.target.value)}
                             />
+                            {emailAccount ? (
+                                <button
+                                    onClick={handleSendPitch}
+                                    disabled={emailSending || !selectedCustomer.email}
+                                    title={selectedCustomer.email ? undefined : 'Add an email address to send'}
+                                    className="block w-full py-2 bg-gradient-to-r from-pink-500 to-purple-500 text-white rounded-lg font-bold text-center text-xs disabled:opacity-50"
+                                >
+                                    {emailSending ? 'Sending...' : `🚀 Send from ${emailAccount.fromEmail}`}
+                                </button>
+                            ) : (
                             <a
                                 href={`mailto:${selectedCustomer.email}?subject=${encodeURIComponent(selectedCustomer.emailDraft.subject)}&body=${encodeURIComponent(selectedCustomer.emailDraft.body)}`}
                                 className="block w-full py-2 bg-gradient-to-r from-pink-500 to-purple-500 text-white rounded-lg font-bold text-center text-xs"
                             >
                                 🚀 Open in Mail App
                             </a>
+                            )}
                         </div>
                     ) : (
                         <p className="text-gray-400 text-xs text-center py-4">Run Pitch Kit to draft email</p>
                     )}
                 </div>
+
+                {/* Follow-up Sequence Card */}
+                <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100">
+                    <h3 className="font-bold text-gray-700 mb-3 flex items-center text-sm">
+                        <span className="bg-blue-100 p-1 rounded mr-2">🔁</span> Follow-up Sequence
+                    </h3>
+                    {(() => {
+                        const sequence = selectedCustomer.followUpSequence;
+                        if (sequence?.status === 'active') {
+                            return (
+                                <div className="space-y-2 text-xs">
+                                    {sequence.steps.map((step, index) => (
+                                        <div key={index} className="flex justify-between items-center">
+                                            <span className={step.sentAt ? 'text-gray-400 line-through' : 'text-gray-700'}>
+                                                {index + 1}. {step.focus || 'Follow-up'}
+                                            </span>
+                                            <span className="text-gray-400">
+                                                {step.sentAt
+                                                    ? `Sent ${new Date(step.sentAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`
+                                                    : index === sequence.currentStep
+                                                        ? `Due ${new Date(sequence.nextSendAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`
+                                                        : `+${step.delayDays}d`}
+                                            </span>
+                                        </div>
+                                    ))}
+                                    {sequence.lastError && (
+                                        <p className="text-red-600">Last attempt failed: {sequence.lastError}</p>
+                                    )}
+                                    <p className="text-gray-400">Stops automatically when they reply or the status changes.</p>
+                                    <button
+                                        onClick={handleStopFollowUps}
+                                        className="w-full py-2 border border-red-200 text-red-600 rounded-lg font-bold hover:bg-red-50"
+                                    >
+                                        Stop Sequence
+                                    </button>
+                                </div>
+                            );
+                        }
+
+                        return (
+                            <div className="space-y-2 text-xs">
+                                {sequence && (
+                                    <p className={sequence.status === 'completed' ? 'text-green-600' : 'text-gray-500'}>
+                                        {sequence.status === 'completed'
+                                            ? `Last sequence completed (${sequence.steps.length} follow-ups sent)`
+                                            : FOLLOW_UP_STOP_LABELS[sequence.stopReason || 'manual']}
+                                    </p>
+                                )}
+                                {followUpSteps.map((step, index) => (
+                                    <div key={index} className="flex items-center gap-1">
+                                        <input
+                                            type="number"
+                                            min="1"
+                                            value={step.delayDays}
+                                            onChange={(e) => updateFollowUpStep(index, { delayDays: parseInt(e.target.value) || 0 })}
+                                            className="w-12 bg-gray-50 border rounded-lg px-2 py-1.5"
+                                            title="Days after the previous message"
+                                        />
+                                        <span className="text-gray-400">d</span>
+                                        <input
+                                            value={step.focus || ''}
+                                            onChange={(e) => updateFollowUpStep(index, { focus: e.target.value })}
+                                            placeholder="Angle (optional)"
+                                            className="flex-1 bg-gray-50 border rounded-lg px-2 py-1.5"
+                                        />
+                                        {followUpSteps.length > 1 && (
+                                            <button
+                                                onClick={() => setFollowUpSteps(steps => steps.filter((_, i) => i !== index))}
+                                                className="text-gray-400 hover:text-red-600 px-1"
+                                                title="Remove step"
+                                            >
+                                                ×
+                                            </button>
+                                        )}
+                                    </div>
+                                ))}
+                                <button
+                                    onClick={() => setFollowUpSteps(steps => [...steps, { delayDays: 7 }])}
+                                    className="text-blue-600 font-bold hover:underline"
+                                >
+                                    + Add step
+                                </button>
+                                <button
+                                    onClick={handleStartFollowUps}
+                                    disabled={!emailAccount || !selectedCustomer.email}
+                                    className="w-full py-2 bg-blue-500 text-white rounded-lg font-bold hover:bg-blue-600 disabled:opacity-50"
+                                >
+                                    Start {followUpSteps.length}-Step Sequence
+                                </button>
+                                <p className="text-gray-400">
+                                    {!emailAccount
+                                        ? 'Connect an email account in Email Configuration to send follow-ups automatically.'
+                                        : !selectedCustomer.email
+                                            ? 'Add an email address for this customer first.'
+                                            : 'Each follow-up is drafted by AI from their brand and your previous messages (uses credits).'}
+                                </p>
+                            </div>
+                        );
+                    })()}
+                </div>
                 </>
             ) : (
                 <div className="flex items-center justify-center h-full text-gray-400">Select a customer</div>
@@ -849,30 +1977,125 @@ Please remember to save the invoice PDF before sending.`;
                 {selectedCustomer && (
                     <div className="flex gap-2">
                         <button
-                            onClick={() => setShowInvoiceModal(true)}
+                            onClick={openInvoiceModal}
                             className="px-3 py-1.5 bg-green-500 text-white rounded-lg text-xs font-bold hover:bg-green-600"
                         >
                             + Invoice
                         </button>
+                        <button
+                            onClick={openQuoteModal}
+                            className="px-3 py-1.5 bg-blue-500 text-white rounded-lg text-xs font-bold hover:bg-blue-600"
+                        >
+                            + Quote
+                        </button>
                         <button
                             onClick={() => setShowEmailModal(true)}
                             className="px-3 py-1.5 bg-purple-500 text-white rounded-lg text-xs font-bold hover:bg-purple-600"
                         >
                             + Email
                         </button>
+                        <button
+                            onClick={() => openTaskModal()}
+                            className="px-3 py-1.5 bg-amber-500 text-white rounded-lg text-xs font-bold hover:bg-amber-600"
+                        >
+                            + Task
+                        </button>
                     </div>
                 )}
             </div>
 
             {selectedCustomer ? (
                 <div className="overflow-y-auto flex-1 p-4 space-y-3">
+                    {/* Tasks */}
+                    {(selectedCustomer.tasks?.length || 0) > 0 && (() => {
+                        const today = toDateKey();
+                        const tasks = selectedCustomer.tasks!;
+                        const openTasks = tasks.filter(t => !t.completedAt).sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+                        const completedTasks = tasks.filter(t => t.completedAt).sort((a, b) => (b.completedAt || 0) - (a.completedAt || 0));
+                        const visibleTasks = showCompletedTasks ? [...openTasks, ...completedTasks] : openTasks;
+                        return (
+                            <div className="bg-white rounded-xl border border-amber-100 shadow-sm mb-4 overflow-hidden">
+                                <div className="bg-amber-50 px-4 py-2 border-b border-amber-100 flex justify-between items-center">
+                                    <h3 className="text-amber-800 font-bold text-sm">📌 Tasks ({openTasks.length} open)</h3>
+                                    {completedTasks.length > 0 && (
+                                        <button
+                                            onClick={() => setShowCompletedTasks(!showCompletedTasks)}
+                                            className="text-xs text-amber-700 hover:underline"
+                                        >
+                                            {showCompletedTasks ? 'Hide' : 'Show'} {completedTasks.length} completed
+                                        </button>
+                                    )}
+                                </div>
+                                {visibleTasks.length === 0 ? (
+                                    <p className="px-4 py-3 text-xs text-gray-400">No open tasks</p>
+                                ) : (
+                                    <div className="divide-y divide-gray-100">
+                                        {visibleTasks.map(task => {
+                                            const bucket = getTaskBucket(task, today);
+                                            return (
+                                                <div key={task.id} className="px-4 py-3 text-sm flex items-start gap-3">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={!!task.completedAt}
+                                                        onChange={() => handleToggleTask(task)}
+                                                        className="mt-1 accent-amber-500"
+                                                        title={task.completedAt ? 'Mark as open' : 'Mark as done'}
+                                                    />
+                                                    <div className="flex-1 min-w-0">
+                                                        <p className={`font-medium ${task.completedAt ? 'text-gray-400 line-through' : 'text-gray-800'}`}>{task.title}</p>
+                                                        <p className="text-xs">
+                                                            <span className={TASK_BUCKET_STYLES[bucket]}>
+                                                                {bucket === 'overdue' ? 'Overdue · ' : ''}{formatDueDate(task.dueDate, today)}
+                                                            </span>
+                                                            {task.assignee && <span className="text-gray-500"> · {task.assignee}</span>}
+                                                        </p>
+                                                        {task.notes && <p className="text-xs text-gray-500 mt-1 line-clamp-2">{task.notes}</p>}
+                                                        {task.reminderAt && !task.completedAt && (
+                                                            <p className={`text-xs mt-1 ${task.reminderError ? 'text-red-600' : 'text-gray-400'}`}>
+                                                                🔔 {task.reminderError
+                                                                    ? `Reminder not sent: ${task.reminderError}`
+                                                                    : `${task.reminderSentAt ? 'Reminder sent' : 'Reminder'} ${formatDate(task.reminderSentAt || task.reminderAt)}`}
+                                                            </p>
+                                                        )}
+                                                    </div>
+                                                    <div className="flex gap-1 flex-shrink-0">
+                                                        <button
+                                                            onClick={() => openTaskModal(task)}
+                                                            className="px-2 py-1 bg-gray-100 text-gray-600 rounded text-xs hover:bg-gray-200"
+                                                        >
+                                                            Edit
+                                                        </button>
+                                                        <button
+                                                            onClick={() => handleDeleteTask(task)}
+                                                            className="px-2 py-1 text-red-500 rounded text-xs hover:bg-red-50"
+                                                        >
+                                                            ✕
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })()}
+
                     {/* Payment Details Panel */}
                     {(() => {
                         const invoices = selectedCustomer.invoices || [];
 
+                        // Totals are shown in the reporting currency; invoices without a rate are left out
+                        const reportingCurrency = invoicingSettings.reportingCurrency;
+                        const toReporting = (inv: Invoice, amount: number) =>
+                            convertToReportingCurrency(amount, getInvoiceCurrency(inv), invoicingSettings) ?? 0;
+                        const unconvertedCount = invoices.filter(inv =>
+                            convertToReportingCurrency(0, getInvoiceCurrency(inv), invoicingSettings) === null
+                        ).length;
+
                         // Calculate financial summary
-                        const totalInvoiced = invoices.reduce((sum, inv) => sum + (inv.total || 0), 0);
-                        const totalPaid = invoices.reduce((sum, inv) => sum + (inv.paidAmount || 0), 0);
+                        const totalInvoiced = invoices.reduce((sum, inv) => sum + toReporting(inv, inv.total || 0), 0);
+                        const totalPaid = invoices.reduce((sum, inv) => sum + toReporting(inv, inv.paidAmount || 0), 0);
                         const totalUnpaid = totalInvoiced - totalPaid;
 
                         // Calculate overdue amount
@@ -881,7 +2104,7 @@ Please remember to save the invoice PDF before sending.`;
                             inv.dueDate && inv.dueDate < now && (inv.paidAmount || 0) < inv.total
                         );
                         const overdueAmount = overdueInvoices.reduce((sum, inv) =>
-                            sum + (inv.total - (inv.paidAmount || 0)), 0
+                            sum + toReporting(inv, inv.total - (inv.paidAmount || 0)), 0
                         );
 
                         // Find nearest due date (upcoming or overdue)
@@ -941,7 +2164,7 @@ Please remember to save the invoice PDF before sending.`;
                                             </div>
                                             <span className="text-xs font-medium text-green-700">Total Paid</span>
                                         </div>
-                                        <div className="text-lg font-bold text-green-600">{formatCurrency(totalPaid)}</div>
+                                        <div className="text-lg font-bold text-green-600">{formatCurrency(totalPaid, reportingCurrency)}</div>
                                     </div>
 
                                     {/* Unpaid Amount */}
@@ -954,7 +2177,7 @@ Please remember to save the invoice PDF before sending.`;
                                             </div>
                                             <span className="text-xs font-medium text-orange-700">Unpaid</span>
                                         </div>
-                                        <div className="text-lg font-bold text-orange-600">{formatCurrency(totalUnpaid)}</div>
+                                        <div className="text-lg font-bold text-orange-600">{formatCurrency(totalUnpaid, reportingCurrency)}</div>
                                     </div>
 
                                     {/* Overdue Amount */}
@@ -978,7 +2201,7 @@ Please remember to save the invoice PDF before sending.`;
                                         <div className={`text-lg font-bold ${
                                             overdueAmount > 0 ? 'text-red-600' : 'text-gray-400'
                                         }`}>
-                                            {formatCurrency(overdueAmount)}
+                                            {formatCurrency(overdueAmount, reportingCurrency)}
                                         </div>
                                         {overdueAmount > 0 && (
                                             <span className="text-xs text-red-500 font-medium animate-pulse">
@@ -1037,7 +2260,12 @@ Please remember to save the invoice PDF before sending.`;
                                     <div className="bg-slate-100 rounded-xl p-3 flex justify-between items-center">
                                         <div>
                                             <span className="text-xs text-slate-600">Total Invoiced</span>
-                                            <div className="text-lg font-bold text-slate-800">{formatCurrency(totalInvoiced)}</div>
+                                            <div className="text-lg font-bold text-slate-800">{formatCurrency(totalInvoiced, reportingCurrency)}</div>
+                                            {unconvertedCount > 0 && (
+                                                <span className="text-xs text-amber-600">
+                                                    {unconvertedCount} invoice{unconvertedCount > 1 ? 's' : ''} excluded — add an exchange rate in Invoicing
+                                                </span>
+                                            )}
                                         </div>
                                         <div className="text-right">
                                             <span className="text-xs text-slate-600">{invoices.length} Invoice{invoices.length !== 1 ? 's' : ''}</span>
@@ -1071,13 +2299,160 @@ Please remember to save the invoice PDF before sending.`;
                                     </div>
                                 </div>
                             </div>
-                        );
-                    })()}
+                        );
+                    })()}
+
+                    {/* Quotes */}
+                    {(selectedCustomer.quotes?.length || 0) > 0 && (
+                        <div className="bg-white rounded-xl border border-indigo-100 shadow-sm mb-4 overflow-hidden">
+                            <div className="bg-indigo-50 px-4 py-2 border-b border-indigo-100">
+                                <h3 className="text-indigo-800 font-bold text-sm">📝 Quotes</h3>
+                            </div>
+                            {quoteActionError && (
+                                <p className="px-4 pt-2 text-xs text-red-600">{quoteActionError}</p>
+                            )}
+                            <div className="divide-y divide-gray-100">
+                                {[...selectedCustomer.quotes!].sort((a, b) => b.createdAt - a.createdAt).map(quote => {
+                                    const displayStatus = getQuoteDisplayStatus(quote);
+                                    const invoice = quote.invoiceId
+                                        ? selectedCustomer.invoices?.find(inv => inv.id === quote.invoiceId)
+                                        : undefined;
+                                    const isOpen = displayStatus === 'draft' || displayStatus === 'sent';
+                                    return (
+                                        <div key={quote.id} className="px-4 py-3 text-sm">
+                                            <div className="flex justify-between items-start">
+                                                <div>
+                                                    <p className="font-bold text-gray-800">
+                                                        {quote.quoteNumber} <span className="font-normal text-gray-500">· {formatCurrency(quote.total, quote.currency)}</span>
+                                                    </p>
+                                                    <p className="text-xs text-gray-500 truncate max-w-[180px]">{quote.items.map(i => i.description).join(', ')}</p>
+                                                </div>
+                                                <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${QUOTE_STATUS_STYLES[displayStatus].className}`}>
+                                                    {QUOTE_STATUS_STYLES[displayStatus].label}
+                                                </span>
+                                            </div>
+                                            <p className="text-xs text-gray-400 mt-1">
+                                                {quote.status === 'accepted'
+                                                    ? `Accepted by ${quote.acceptedBy || 'client'}${invoice ? ` · ${invoice.invoiceNumber} issued` : ''}`
+                                                    : quote.status === 'declined'
+                                                        ? `Declined${quote.declineReason ? `: ${quote.declineReason}` : ''}`
+                                                        : `Valid until ${new Date(quote.expiresAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`}
+                                            </p>
+                                            <div className="flex gap-3 mt-2">
+                                                {isOpen && (
+                                                    <>
+                                                        <button
+                                                            onClick={() => handleShareQuote(quote, 'email')}
+                                                            disabled={quoteActionId === quote.id}
+                                                            className="text-xs font-bold text-indigo-700 hover:underline disabled:opacity-50"
+                                                        >
+                                                            {quote.status === 'sent' ? 'Resend' : 'Send'}
+                                                        </button>
+                                                        <button
+                                                            onClick={() => handleShareQuote(quote, 'copy')}
+                                                            disabled={quoteActionId === quote.id}
+                                                            className="text-xs font-bold text-indigo-700 hover:underline disabled:opacity-50"
+                                                        >
+                                                            Copy Link
+                                                        </button>
+                                                    </>
+                                                )}
+                                                {invoice && (
+                                                    <button onClick={() => setViewingInvoice(invoice)} className="text-xs font-bold text-green-700 hover:underline">View Invoice</button>
+                                                )}
+                                                {quote.status !== 'accepted' && (
+                                                    <button
+                                                        onClick={() => {
+                                                            if (confirm('Delete this quote? A shared link will stop working.')) {
+                                                                handleDeleteQuote(quote.id);
+                                                            }
+                                                        }}
+                                                        className="text-xs font-bold text-red-600 hover:underline"
+                                                    >
+                                                        Delete
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Recurring Invoices */}
+                    {(selectedCustomer.recurringInvoices?.length || 0) > 0 && (
+                        <div className="bg-white rounded-xl border border-blue-100 shadow-sm mb-4 overflow-hidden">
+                            <div className="bg-blue-50 px-4 py-2 border-b border-blue-100">
+                                <h3 className="text-blue-800 font-bold text-sm">🔁 Recurring Invoices</h3>
+                            </div>
+                            <div className="divide-y divide-gray-100">
+                                {selectedCustomer.recurringInvoices!.map(template => {
+                                    const total = getRecurringTemplateTotal(template);
+                                    return (
+                                        <div key={template.id} className="px-4 py-3 text-sm">
+                                            <div className="flex justify-between items-start">
+                                                <div>
+                                                    <p className="font-bold text-gray-800">
+                                                        {formatCurrency(total, template.currency)} <span className="font-normal text-gray-500">· {RECURRING_INTERVAL_LABELS[template.interval]}</span>
+                                                    </p>
+                                                    <p className="text-xs text-gray-500 truncate max-w-[180px]">{template.items.map(i => i.description).join(', ')}</p>
+                                                </div>
+                                                <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${
+                                                    template.status === 'active' ? 'bg-green-100 text-green-700'
+                                                    : template.status === 'paused' ? 'bg-yellow-100 text-yellow-700'
+                                                    : 'bg-gray-100 text-gray-600'
+                                                }`}>
+                                                    {template.status === 'active' ? 'Active' : template.status === 'paused' ? 'Paused' : 'Completed'}
+                                                </span>
+                                            </div>
+                                            <p className="text-xs text-gray-400 mt-1">
+                                                {template.status === 'completed'
+                                                    ? `${template.generatedCount} invoice${template.generatedCount === 1 ? '' : 's'} generated`
+                                                    : `Next: ${new Date(template.nextRunAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })} · ${describeRecurringEnd(template)}`}
+                                            </p>
+                                            <div className="flex gap-3 mt-2">
+                                                {template.status === 'active' && (
+                                                    <button onClick={() => handleUpdateRecurringInvoice(template.id, 'paused')} className="text-xs font-bold text-yellow-700 hover:underline">Pause</button>
+                                                )}
+                                                {template.status === 'paused' && (
+                                                    <button onClick={() => handleUpdateRecurringInvoice(template.id, 'active')} className="text-xs font-bold text-green-700 hover:underline">Resume</button>
+                                                )}
+                                                <button
+                                                    onClick={() => {
+                                                        if (confirm('Delete this recurring schedule? Invoices already generated are kept.')) {
+                                                            handleUpdateRecurringInvoice(template.id, 'deleted');
+                                                        }
+                                                    }}
+                                                    className="text-xs font-bold text-red-600 hover:underline"
+                                                >
+                                                    Delete
+                                                </button>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
 
                     {/* Activity Timeline */}
-                    {getActivityItems().length > 0 ? (
+                    <div className="flex gap-1 flex-wrap">
+                        {ACTIVITY_FILTERS.map(filter => (
+                            <button
+                                key={filter.id}
+                                onClick={() => setActivityFilter(filter.id)}
+                                className={`px-2.5 py-1 rounded-full text-xs font-medium ${activityFilter === filter.id ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                            >
+                                {filter.label}
+                            </button>
+                        ))}
+                    </div>
+                    {(() => {
+                        const timeline = buildActivityTimeline(selectedCustomer, activityFilter);
+                        return timeline.length > 0 ? (
                         <div className="space-y-3">
-                            {getActivityItems().map((item, idx) => (
+                            {timeline.map((item, idx) => (
                                 <div key={idx} className="border border-gray-100 rounded-xl p-3 hover:bg-gray-50 transition-colors">
                                     {item.type === 'invoice' && (() => {
                                         const paymentStatus = getInvoicePaymentStatus(item.data);
@@ -1103,11 +2478,11 @@ Please remember to save the invoice PDF before sending.`;
                                             <div className="mb-2">
                                                 <div className="flex justify-between text-xs mb-1">
                                                     <span className="text-gray-500">
-                                                        Paid: {formatCurrency(item.data.paidAmount || 0)} / {formatCurrency(item.data.total || 0)}
+                                                        Paid: {formatCurrency(item.data.paidAmount || 0, getInvoiceCurrency(item.data))} / {formatCurrency(item.data.total || 0, getInvoiceCurrency(item.data))}
                                                     </span>
                                                     {balance > 0 && (
                                                         <span className="text-orange-600 font-medium">
-                                                            Balance: {formatCurrency(balance)}
+                                                            Balance: {formatCurrency(balance, getInvoiceCurrency(item.data))}
                                                         </span>
                                                     )}
                                                 </div>
@@ -1123,7 +2498,7 @@ Please remember to save the invoice PDF before sending.`;
                                                 </div>
                                             </div>
                                             <div className="flex justify-between items-center">
-                                                <span className="font-bold text-gray-800">{formatCurrency(item.data.total || item.data.amount || 0)}</span>
+                                                <span className="font-bold text-gray-800">{formatCurrency(item.data.total || item.data.amount || 0, getInvoiceCurrency(item.data))}</span>
                                                 <div className="flex gap-1">
                                                     <button
                                                         onClick={() => setViewingInvoice(item.data)}
@@ -1165,12 +2540,76 @@ Please remember to save the invoice PDF before sending.`;
                                                 <div className="flex-1">
                                                     <p className="font-bold text-gray-800 text-sm">{item.data.subject}</p>
                                                     <p className="text-xs text-gray-500 line-clamp-2">{item.data.content}</p>
+                                                    {item.data.attachments?.length > 0 && (
+                                                        <p className="text-xs text-gray-400 mt-1 truncate">
+                                                            📎 {item.data.attachments.map((a: { name: string }) => a.name).join(', ')}
+                                                        </p>
+                                                    )}
                                                 </div>
                                             </div>
                                             <p className="text-xs text-gray-400">{formatDate(item.data.timestamp)}</p>
                                         </div>
                                     )}
 
+                                    {item.type === 'payment' && (
+                                        <div>
+                                            <div className="flex items-center gap-2 mb-2">
+                                                <span className="bg-green-100 text-green-600 p-1.5 rounded">💵</span>
+                                                <div className="flex-1">
+                                                    <p className="font-bold text-gray-800 text-sm">
+                                                        Payment received · {formatCurrency(item.data.payment.amount, getInvoiceCurrency(item.data.invoice))}
+                                                    </p>
+                                                    <p className="text-xs text-gray-500">
+                                                        {item.data.invoice.invoiceNumber}
+                                                        {item.data.payment.method && ` · ${item.data.payment.method.replace(/_/g, ' ')}`}
+                                                        {item.data.payment.reference && ` · ${item.data.payment.reference}`}
+                                                    </p>
+                                                </div>
+                                            </div>
+                                            <p className="text-xs text-gray-400">{formatDate(item.date)}</p>
+                                        </div>
+                                    )}
+
+                                    {item.type === 'quote' && (() => {
+                                        const displayStatus = getQuoteDisplayStatus(item.data);
+                                        return (
+                                            <div>
+                                                <div className="flex justify-between items-start mb-2">
+                                                    <div className="flex items-center gap-2">
+                                                        <span className="bg-indigo-100 text-indigo-600 p-1.5 rounded">📝</span>
+                                                        <div>
+                                                            <p className="font-bold text-gray-800 text-sm">Quote {item.data.quoteNumber}</p>
+                                                            <p className="text-xs text-gray-500">{formatCurrency(item.data.total, item.data.currency)}</p>
+                                                        </div>
+                                                    </div>
+                                                    <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${QUOTE_STATUS_STYLES[displayStatus].className}`}>
+                                                        {QUOTE_STATUS_STYLES[displayStatus].label}
+                                                    </span>
+                                                </div>
+                                                <p className="text-xs text-gray-400">{formatDate(item.date)}</p>
+                                            </div>
+                                        );
+                                    })()}
+
+                                    {item.type === 'task' && (
+                                        <div>
+                                            <div className="flex items-center gap-2 mb-2">
+                                                <span className="bg-amber-100 text-amber-600 p-1.5 rounded">
+                                                    {item.data.event === 'completed' ? '✅' : '📌'}
+                                                </span>
+                                                <div>
+                                                    <p className="font-bold text-gray-800 text-sm">
+                                                        {item.data.event === 'completed' ? 'Task completed' : 'Task added'}
+                                                    </p>
+                                                    <p className="text-xs text-gray-500">
+                                                        {item.data.task.title} · due {formatDueDate(item.data.task.dueDate)}
+                                                    </p>
+                                                </div>
+                                            </div>
+                                            <p className="text-xs text-gray-400">{formatDate(item.date)}</p>
+                                        </div>
+                                    )}
+
                                     {item.type === 'history' && (
                                         <div>
                                             <div className="flex items-center gap-2 mb-2">
@@ -1193,10 +2632,11 @@ Please remember to save the invoice PDF before sending.`;
                     ) : (
                         <div className="text-center py-10">
                             <span className="text-3xl block mb-2 opacity-30">📋</span>
-                            <p className="text-gray-400 text-sm">No activity yet</p>
-                            <p className="text-gray-400 text-xs">Add invoices or generate emails to track history</p>
+                            <p className="text-gray-400 text-sm">{activityFilter === 'all' ? 'No activity yet' : 'Nothing to show for this filter'}</p>
+                            <p className="text-gray-400 text-xs">Add invoices, tasks or emails to track history</p>
                         </div>
-                    )}
+                        );
+                    })()}
                 </div>
             ) : (
                 <div className="flex items-center justify-center flex-1 p-6">
@@ -1234,7 +2674,7 @@ Please remember to save the invoice PDF before sending.`;
                     {/* Left Side - Invoice Form */}
                     <div className="w-1/2 p-6 overflow-y-auto border-r border-gray-100">
                         <div className="flex justify-between items-center mb-6">
-                            <h3 className="text-xl font-bold text-gray-800">Create Invoice</h3>
+                            <h3 className="text-xl font-bold text-gray-800">{isQuoteForm ? 'Create Quote' : 'Create Invoice'}</h3>
                             <button
                                 onClick={() => setShowInvoiceModal(false)}
                                 className="text-gray-400 hover:text-gray-600 text-2xl"
@@ -1320,9 +2760,19 @@ Please remember to save the invoice PDF before sending.`;
                                     />
                                 </div>
                             </div>
+                            <label className="flex items-center gap-2 mt-3 text-xs text-gray-600 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={invoiceForm.saveAsDefaultSender}
+                                    onChange={(e) => setInvoiceForm({ ...invoiceForm, saveAsDefaultSender: e.target.checked })}
+                                    className="accent-purple-600"
+                                />
+                                Save these details and currency as my default sender
+                            </label>
                         </div>
 
                         {/* Billing Period */}
+                        {!isQuoteForm && (
                         <div className="mb-6">
                             <label className="text-xs font-bold text-gray-500 uppercase mb-2 block">Billing Period (Optional)</label>
                             <div className="grid grid-cols-2 gap-3">
@@ -1342,8 +2792,118 @@ Please remember to save the invoice PDF before sending.`;
                                 />
                             </div>
                         </div>
+                        )}
+
+                        {/* Recurring Schedule */}
+                        {!isQuoteForm && (
+                        <div className="mb-6 rounded-xl p-4 border border-blue-100 bg-blue-50/50">
+                            <label className="flex items-center gap-2 text-sm font-bold text-blue-800 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    className="w-4 h-4 accent-blue-600"
+                                    checked={invoiceForm.recurring}
+                                    onChange={(e) => setInvoiceForm({ ...invoiceForm, recurring: e.target.checked })}
+                                />
+                                🔁 Bill this client on a recurring schedule
+                            </label>
+                            {invoiceForm.recurring && (
+                                <div className="grid grid-cols-2 gap-3 mt-4">
+                                    <div>
+                                        <label className="text-xs text-gray-500 mb-1 block">Repeat</label>
+                                        <select
+                                            className="w-full px-3 py-2 border rounded-lg text-sm bg-white"
+                                            value={invoiceForm.recurringInterval}
+                                            onChange={(e) => setInvoiceForm({ ...invoiceForm, recurringInterval: e.target.value as RecurringInterval })}
+                                        >
+                                            {(Object.keys(RECURRING_INTERVAL_LABELS) as RecurringInterval[]).map(interval => (
+                                                <option key={interval} value={interval}>{RECURRING_INTERVAL_LABELS[interval]}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="text-xs text-gray-500 mb-1 block">First Invoice On</label>
+                                        <input
+                                            type="date"
+                                            className="w-full px-3 py-2 border rounded-lg text-sm"
+                                            value={invoiceForm.recurringStartDate}
+                                            onChange={(e) => setInvoiceForm({ ...invoiceForm, recurringStartDate: e.target.value })}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="text-xs text-gray-500 mb-1 block">Due (days after issue)</label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            className="w-full px-3 py-2 border rounded-lg text-sm"
+                                            value={invoiceForm.recurringDueInDays}
+                                            onChange={(e) => setInvoiceForm({ ...invoiceForm, recurringDueInDays: parseInt(e.target.value) || 0 })}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="text-xs text-gray-500 mb-1 block">Ends</label>
+                                        <select
+                                            className="w-full px-3 py-2 border rounded-lg text-sm bg-white"
+                                            value={invoiceForm.recurringEndType}
+                                            onChange={(e) => setInvoiceForm({ ...invoiceForm, recurringEndType: e.target.value as RecurringInvoiceTemplate['endCondition']['type'] })}
+                                        >
+                                            <option value="never">Never</option>
+                                            <option value="after_count">After a number of invoices</option>
+                                            <option value="until_date">On a date</option>
+                                        </select>
+                                    </div>
+                                    {invoiceForm.recurringEndType === 'after_count' && (
+                                        <div className="col-span-2">
+                                            <label className="text-xs text-gray-500 mb-1 block">Number of Invoices</label>
+                                            <input
+                                                type="number"
+                                                min="1"
+                                                className="w-full px-3 py-2 border rounded-lg text-sm"
+                                                value={invoiceForm.recurringEndCount}
+                                                onChange={(e) => setInvoiceForm({ ...invoiceForm, recurringEndCount: parseInt(e.target.value) || 1 })}
+                                            />
+                                        </div>
+                                    )}
+                                    {invoiceForm.recurringEndType === 'until_date' && (
+                                        <div className="col-span-2">
+                                            <label className="text-xs text-gray-500 mb-1 block">Last Billing Period Starts By</label>
+                                            <input
+                                                type="date"
+                                                className="w-full px-3 py-2 border rounded-lg text-sm"
+                                                value={invoiceForm.recurringEndDate}
+                                                onChange={(e) => setInvoiceForm({ ...invoiceForm, recurringEndDate: e.target.value })}
+                                            />
+                                        </div>
+                                    )}
+                                    <label className="col-span-2 flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            className="accent-blue-600"
+                                            checked={invoiceForm.recurringAutoSend}
+                                            onChange={(e) => setInvoiceForm({ ...invoiceForm, recurringAutoSend: e.target.checked })}
+                                        />
+                                        Mark generated invoices as sent (otherwise they are saved as drafts)
+                                    </label>
+                                </div>
+                            )}
+                        </div>
+                        )}
+
+                        {/* Quote Expiry */}
+                        {isQuoteForm && (
+                        <div className="mb-6">
+                            <label className="text-xs font-bold text-gray-500 uppercase mb-2 block">Valid Until</label>
+                            <input
+                                type="date"
+                                className="w-full px-3 py-2 border rounded-lg text-sm"
+                                value={invoiceForm.quoteExpiryDate}
+                                onChange={(e) => setInvoiceForm({ ...invoiceForm, quoteExpiryDate: e.target.value })}
+                            />
+                            <p className="text-xs text-gray-400 mt-1">When the client accepts, an invoice is created automatically and the customer is marked converted.</p>
+                        </div>
+                        )}
 
                         {/* Due Date */}
+                        {!invoiceForm.recurring && !isQuoteForm && (
                         <div className="mb-6">
                             <label className="text-xs font-bold text-gray-500 uppercase mb-2 block">Due Date</label>
                             <input
@@ -1353,6 +2913,7 @@ Please remember to save the invoice PDF before sending.`;
                                 onChange={(e) => setInvoiceForm({ ...invoiceForm, dueDate: e.target.value })}
                             />
                         </div>
+                        )}
 
                         {/* Line Items */}
                         <div className="mb-6">
@@ -1389,7 +2950,7 @@ Please remember to save the invoice PDF before sending.`;
                                                         />
                                                     </div>
                                                     <div className="flex-1">
-                                                        <label className="text-xs text-gray-400 mb-1 block">Unit Price ($)</label>
+                                                        <label className="text-xs text-gray-400 mb-1 block">Unit Price ({invoiceForm.currency})</label>
                                                         <input
                                                             type="number"
                                                             min="0"
@@ -1402,7 +2963,7 @@ Please remember to save the invoice PDF before sending.`;
                                                     <div className="w-24">
                                                         <label className="text-xs text-gray-400 mb-1 block">Total</label>
                                                         <div className="px-2 py-1.5 bg-gray-100 rounded-lg text-sm font-bold text-gray-700">
-                                                            {formatCurrency(item.quantity * item.unitPrice)}
+                                                            {formatCurrency(item.quantity * item.unitPrice, invoiceForm.currency)}
                                                         </div>
                                                     </div>
                                                 </div>
@@ -1423,19 +2984,81 @@ Please remember to save the invoice PDF before sending.`;
                             </div>
                         </div>
 
-                        {/* Tax & Discount */}
+                        {/* Taxes */}
+                        <div className="mb-6">
+                            <div className="flex justify-between items-center mb-2">
+                                <label className="text-xs font-bold text-gray-500 uppercase">Taxes</label>
+                                <select
+                                    className="px-2 py-1 border rounded-lg text-xs"
+                                    value={invoiceForm.taxProfileId}
+                                    onChange={(e) => handleSelectTaxProfile(e.target.value)}
+                                >
+                                    <option value="">Custom</option>
+                                    {invoicingSettings.taxProfiles.map(profile => (
+                                        <option key={profile.id} value={profile.id}>{profile.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="space-y-2">
+                                {invoiceForm.taxLines.map((line, index) => (
+                                    <div key={index} className="flex items-center gap-2">
+                                        <input
+                                            type="text"
+                                            placeholder="Tax name"
+                                            className="flex-1 px-3 py-2 border rounded-lg text-sm"
+                                            value={line.name}
+                                            onChange={(e) => updateTaxLines(invoiceForm.taxLines.map((l, i) => i === index ? { ...l, name: e.target.value } : l))}
+                                        />
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            max="100"
+                                            step="0.1"
+                                            className="w-20 px-3 py-2 border rounded-lg text-sm"
+                                            value={line.rate}
+                                            onChange={(e) => updateTaxLines(invoiceForm.taxLines.map((l, i) => i === index ? { ...l, rate: parseFloat(e.target.value) || 0 } : l))}
+                                        />
+                                        <span className="text-sm text-gray-500">%</span>
+                                        {index > 0 && (
+                                            <label className="flex items-center gap-1 text-xs text-gray-500 cursor-pointer" title="Charge on the amount plus earlier taxes">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={!!line.compound}
+                                                    onChange={(e) => updateTaxLines(invoiceForm.taxLines.map((l, i) => i === index ? { ...l, compound: e.target.checked } : l))}
+                                                    className="accent-purple-600"
+                                                />
+                                                Compound
+                                            </label>
+                                        )}
+                                        <button
+                                            onClick={() => updateTaxLines(invoiceForm.taxLines.filter((_, i) => i !== index))}
+                                            className="text-red-400 hover:text-red-600 text-lg leading-none"
+                                            title="Remove tax"
+                                        >
+                                            ×
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                            <button
+                                onClick={() => updateTaxLines([...invoiceForm.taxLines, { name: invoiceForm.taxLines.length === 0 ? 'Tax' : '', rate: 0 }])}
+                                className="text-xs text-purple-600 font-bold hover:underline mt-2"
+                            >
+                                + Add Tax
+                            </button>
+                        </div>
+
+                        {/* Currency & Discount */}
                         <div className="grid grid-cols-2 gap-4 mb-6">
                             <div>
-                                <label className="text-xs font-bold text-gray-500 uppercase mb-2 block">Tax Rate (%)</label>
-                                <input
-                                    type="number"
-                                    min="0"
-                                    max="100"
-                                    step="0.1"
+                                <label className="text-xs font-bold text-gray-500 uppercase mb-2 block">Currency</label>
+                                <select
                                     className="w-full px-3 py-2 border rounded-lg text-sm"
-                                    value={invoiceForm.taxRate}
-                                    onChange={(e) => setInvoiceForm({ ...invoiceForm, taxRate: parseFloat(e.target.value) || 0 })}
-                                />
+                                    value={invoiceForm.currency}
+                                    onChange={(e) => setInvoiceForm({ ...invoiceForm, currency: e.target.value })}
+                                >
+                                    {SUPPORTED_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+                                </select>
                             </div>
                             <div>
                                 <label className="text-xs font-bold text-gray-500 uppercase mb-2 block">Discount</label>
@@ -1489,22 +3112,24 @@ Please remember to save the invoice PDF before sending.`;
                             >
                                 Cancel
                             </button>
+                            {!isQuoteForm && (
                             <button
                                 onClick={handleEmailInvoicePreview}
-                                disabled={invoiceForm.items.every(item => !item.description)}
+                                disabled={emailSending || issuingInvoiceNumber || invoiceForm.items.every(item => !item.description)}
                                 className="flex-1 py-3 bg-blue-500 text-white rounded-xl font-bold hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                             >
                                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
                                 </svg>
-                                Email Invoice
+                                {emailSending ? 'Sending...' : 'Email Invoice'}
                             </button>
+                            )}
                             <button
                                 onClick={handleAddInvoice}
-                                disabled={invoiceForm.items.every(item => !item.description)}
+                                disabled={issuingInvoiceNumber || invoiceForm.items.every(item => !item.description)}
                                 className="flex-1 py-3 bg-green-500 text-white rounded-xl font-bold hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed"
                             >
-                                Create Invoice
+                                {isQuoteForm ? 'Create Quote' : invoiceForm.recurring ? 'Create Schedule' : 'Create Invoice'}
                             </button>
                         </div>
                     </div>
@@ -1514,9 +3139,10 @@ Please remember to save the invoice PDF before sending.`;
                         <div className="flex justify-between items-center mb-4">
                             <h4 className="text-sm font-bold text-gray-500 uppercase">Live Preview</h4>
                             <div className="flex gap-2">
+                                {!isQuoteForm && (
                                 <button
                                     onClick={handleEmailInvoicePreview}
-                                    disabled={invoiceForm.items.every(item => !item.description)}
+                                    disabled={emailSending || issuingInvoiceNumber || invoiceForm.items.every(item => !item.description)}
                                     className="text-xs bg-blue-100 text-blue-700 px-3 py-1.5 rounded-lg font-bold hover:bg-blue-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
                                 >
                                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -1524,6 +3150,7 @@ Please remember to save the invoice PDF before sending.`;
                                     </svg>
                                     Email
                                 </button>
+                                )}
                                 <button
                                     onClick={handlePrintInvoice}
                                     className="text-xs bg-gray-200 text-gray-700 px-3 py-1.5 rounded-lg font-bold hover:bg-gray-300 flex items-center gap-1"
@@ -1571,8 +3198,8 @@ Please remember to save the invoice PDF before sending.`;
                                     </div>
                                     <div className="text-right">
                                         <div className="bg-white/20 backdrop-blur-sm rounded-lg px-4 py-2">
-                                            <p className="text-white/80 text-xs uppercase font-bold">Invoice</p>
-                                            <p className="text-white text-lg font-bold">INV-{String(Date.now()).slice(-6)}</p>
+                                            <p className="text-white/80 text-xs uppercase font-bold">{isQuoteForm ? 'Quote' : 'Invoice'}</p>
+                                            <p className="text-white text-lg font-bold">{isQuoteForm ? 'QUO' : 'INV'}-{String(Date.now()).slice(-6)}</p>
                                         </div>
                                     </div>
                                 </div>
@@ -1583,10 +3210,16 @@ Please remember to save the invoice PDF before sending.`;
                                 {/* Dates Row */}
                                 <div className="flex justify-between mb-6 text-sm">
                                     <div>
-                                        <p className="text-gray-400 text-xs uppercase font-bold">Invoice Date</p>
+                                        <p className="text-gray-400 text-xs uppercase font-bold">{isQuoteForm ? 'Quote Date' : 'Invoice Date'}</p>
                                         <p className="text-gray-800 font-medium">{new Date().toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}</p>
                                     </div>
-                                    {invoiceForm.dueDate && (
+                                    {isQuoteForm && invoiceForm.quoteExpiryDate && (
+                                        <div className="text-right">
+                                            <p className="text-gray-400 text-xs uppercase font-bold">Valid Until</p>
+                                            <p className="text-gray-800 font-medium">{new Date(invoiceForm.quoteExpiryDate).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}</p>
+                                        </div>
+                                    )}
+                                    {!isQuoteForm && invoiceForm.dueDate && (
                                         <div className="text-right">
                                             <p className="text-gray-400 text-xs uppercase font-bold">Due Date</p>
                                             <p className="text-gray-800 font-medium">{new Date(invoiceForm.dueDate).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}</p>
@@ -1632,8 +3265,8 @@ Please remember to save the invoice PDF before sending.`;
                                                 <tr key={item.id} className="border-b border-gray-100">
                                                     <td className="py-3 text-gray-800">{item.description || 'Service item'}</td>
                                                     <td className="py-3 text-center text-gray-600">{item.quantity}</td>
-                                                    <td className="py-3 text-right text-gray-600">{formatCurrency(item.unitPrice)}</td>
-                                                    <td className="py-3 text-right text-gray-800 font-medium">{formatCurrency(item.quantity * item.unitPrice)}</td>
+                                                    <td className="py-3 text-right text-gray-600">{formatCurrency(item.unitPrice, invoiceForm.currency)}</td>
+                                                    <td className="py-3 text-right text-gray-800 font-medium">{formatCurrency(item.quantity * item.unitPrice, invoiceForm.currency)}</td>
                                                 </tr>
                                             ))}
                                             {invoiceForm.items.every(item => !item.description) && (
@@ -1649,29 +3282,29 @@ Please remember to save the invoice PDF before sending.`;
                                 <div className="border-t pt-4 space-y-2">
                                     <div className="flex justify-between text-sm">
                                         <span className="text-gray-500">Subtotal</span>
-                                        <span className="text-gray-800">{formatCurrency(calculateInvoiceTotals().subtotal)}</span>
+                                        <span className="text-gray-800">{formatCurrency(getInvoiceFormTotals().subtotal, invoiceForm.currency)}</span>
                                     </div>
                                     {invoiceForm.discount > 0 && (
                                         <div className="flex justify-between text-sm">
                                             <span className="text-gray-500">
                                                 Discount {invoiceForm.discountType === 'percentage' ? `(${invoiceForm.discount}%)` : ''}
                                             </span>
-                                            <span className="text-green-600">-{formatCurrency(calculateInvoiceTotals().discountAmount)}</span>
+                                            <span className="text-green-600">-{formatCurrency(getInvoiceFormTotals().discountAmount, invoiceForm.currency)}</span>
                                         </div>
                                     )}
-                                    {invoiceForm.taxRate > 0 && (
-                                        <div className="flex justify-between text-sm">
-                                            <span className="text-gray-500">Tax ({invoiceForm.taxRate}%)</span>
-                                            <span className="text-gray-800">{formatCurrency(calculateInvoiceTotals().taxAmount)}</span>
+                                    {getInvoiceFormTotals().taxLines.map((line, index) => (
+                                        <div key={index} className="flex justify-between text-sm">
+                                            <span className="text-gray-500">{formatTaxLineLabel(line)}</span>
+                                            <span className="text-gray-800">{formatCurrency(line.amount, invoiceForm.currency)}</span>
                                         </div>
-                                    )}
+                                    ))}
                                     <div
                                         className="flex justify-between text-lg font-bold pt-2 border-t mt-2"
                                         style={{ borderColor: selectedCustomer.brandGuidelines?.colors?.[0] || '#667eea' }}
                                     >
-                                        <span style={{ color: selectedCustomer.brandGuidelines?.colors?.[0] || '#667eea' }}>Total Due</span>
+                                        <span style={{ color: selectedCustomer.brandGuidelines?.colors?.[0] || '#667eea' }}>Total Due ({invoiceForm.currency})</span>
                                         <span style={{ color: selectedCustomer.brandGuidelines?.colors?.[0] || '#667eea' }}>
-                                            {formatCurrency(calculateInvoiceTotals().total)}
+                                            {formatCurrency(getInvoiceFormTotals().total, invoiceForm.currency)}
                                         </span>
                                     </div>
                                 </div>
@@ -1715,12 +3348,23 @@ Please remember to save the invoice PDF before sending.`;
                         <div className="flex gap-2">
                             <button
                                 onClick={() => handleEmailInvoice(viewingInvoice)}
-                                className="text-xs bg-blue-500 text-white px-3 py-1.5 rounded-lg font-bold hover:bg-blue-600 flex items-center gap-1"
+                                disabled={emailSending}
+                                className="text-xs bg-blue-500 text-white px-3 py-1.5 rounded-lg font-bold hover:bg-blue-600 disabled:opacity-50 flex items-center gap-1"
                             >
                                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
                                 </svg>
-                                Email Invoice
+                                {emailSending ? 'Sending...' : 'Email Invoice'}
+                            </button>
+                            <button
+                                onClick={() => handleDownloadInvoicePdf(viewingInvoice)}
+                                disabled={pdfLoading}
+                                className="text-xs bg-purple-100 text-purple-700 px-3 py-1.5 rounded-lg font-bold hover:bg-purple-200 disabled:opacity-50 flex items-center gap-1"
+                            >
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3M6 20h12a2 2 0 002-2V8l-6-6H6a2 2 0 00-2 2v14a2 2 0 002 2z" />
+                                </svg>
+                                {pdfLoading ? 'Rendering...' : 'PDF'}
                             </button>
                             <button
                                 onClick={() => {
@@ -1736,6 +3380,7 @@ Please remember to save the invoice PDF before sending.`;
                                             overdue: { bg: '#fee2e2', text: '#dc2626' }
                                         };
                                         const statusStyle = statusColors[paymentStatus.status];
+                                        const money = (amount: number) => formatCurrency(amount, getInvoiceCurrency(viewingInvoice));
                                         printWindow.document.write(`
                                             <!DOCTYPE html><html><head><title>${subject}</title>
                                             <style>
@@ -1801,14 +3446,14 @@ Please remember to save the invoice PDF before sending.`;
                                             <div class="section">
                                                 <table>
                                                     <thead><tr><th>Description</th><th style="text-align: center;">Qty</th><th style="text-align: right;">Price</th><th style="text-align: right;">Total</th></tr></thead>
-                                                    <tbody>${viewingInvoice.items?.map(item => `<tr><td>${item.description}</td><td style="text-align: center;">${item.quantity}</td><td style="text-align: right;">$${item.unitPrice.toFixed(2)}</td><td style="text-align: right;">$${(item.quantity * item.unitPrice).toFixed(2)}</td></tr>`).join('') || ''}</tbody>
+                                                    <tbody>${viewingInvoice.items?.map(item => `<tr><td>${item.description}</td><td style="text-align: center;">${item.quantity}</td><td style="text-align: right;">${money(item.unitPrice)}</td><td style="text-align: right;">${money(item.quantity * item.unitPrice)}</td></tr>`).join('') || ''}</tbody>
                                                 </table>
                                             </div>
                                             <div class="totals">
-                                                <div class="total-row"><span>Subtotal</span><span>$${viewingInvoice.subtotal.toFixed(2)}</span></div>
-                                                ${viewingInvoice.discount > 0 ? `<div class="total-row"><span>Discount</span><span style="color: #16a34a;">-$${(viewingInvoice.discountType === 'percentage' ? viewingInvoice.subtotal * (viewingInvoice.discount / 100) : viewingInvoice.discount).toFixed(2)}</span></div>` : ''}
-                                                ${viewingInvoice.taxRate > 0 ? `<div class="total-row"><span>Tax (${viewingInvoice.taxRate}%)</span><span>$${viewingInvoice.taxAmount.toFixed(2)}</span></div>` : ''}
-                                                <div class="total-row grand-total"><span>Total</span><span>$${viewingInvoice.total.toFixed(2)}</span></div>
+                                                <div class="total-row"><span>Subtotal</span><span>${money(viewingInvoice.subtotal)}</span></div>
+                                                ${viewingInvoice.discount > 0 ? `<div class="total-row"><span>Discount</span><span style="color: #16a34a;">-${money(viewingInvoice.discountType === 'percentage' ? viewingInvoice.subtotal * (viewingInvoice.discount / 100) : viewingInvoice.discount)}</span></div>` : ''}
+                                                ${getInvoiceTaxLines(viewingInvoice).map(line => `<div class="total-row"><span>${formatTaxLineLabel(line)}</span><span>${money(line.amount)}</span></div>`).join('')}
+                                                <div class="total-row grand-total"><span>Total (${getInvoiceCurrency(viewingInvoice)})</span><span>${money(viewingInvoice.total)}</span></div>
                                             </div>
                                             <div class="payment-section">
                                                 <p class="section-title">Payment Status</p>
@@ -1816,8 +3461,8 @@ Please remember to save the invoice PDF before sending.`;
                                                     <div class="progress-fill" style="width: ${Math.min(100, ((viewingInvoice.paidAmount || 0) / viewingInvoice.total) * 100)}%; background: ${paymentStatus.status === 'paid' ? '#22c55e' : paymentStatus.status === 'partial' ? '#f97316' : '#ef4444'};"></div>
                                                 </div>
                                                 <div style="display: flex; justify-content: space-between; font-size: 14px; margin-top: 8px;">
-                                                    <span>Paid: <strong style="color: #22c55e;">$${(viewingInvoice.paidAmount || 0).toFixed(2)}</strong></span>
-                                                    ${balance > 0 ? `<span>Balance Due: <strong style="color: #f97316;">$${balance.toFixed(2)}</strong></span>` : ''}
+                                                    <span>Paid: <strong style="color: #22c55e;">${money(viewingInvoice.paidAmount || 0)}</strong></span>
+                                                    ${balance > 0 ? `<span>Balance Due: <strong style="color: #f97316;">${money(balance)}</strong></span>` : ''}
                                                 </div>
                                             </div>
                                             ${viewingInvoice.notes ? `<div class="notes"><p class="section-title">Notes</p><p>${viewingInvoice.notes}</p></div>` : ''}
@@ -1837,7 +3482,7 @@ Please remember to save the invoice PDF before sending.`;
                                 Print
                             </button>
                             <button
-                                onClick={() => setViewingInvoice(null)}
+                                onClick={() => { setViewingInvoice(null); setInvoiceActionError(null); }}
                                 className="text-gray-400 hover:text-gray-600 text-xl"
                             >
                                 &times;
@@ -1926,8 +3571,8 @@ Please remember to save the invoice PDF before sending.`;
                                         <tr key={idx} className="border-b border-gray-100">
                                             <td className="py-3">{item.description}</td>
                                             <td className="py-3 text-center">{item.quantity}</td>
-                                            <td className="py-3 text-right">{formatCurrency(item.unitPrice)}</td>
-                                            <td className="py-3 text-right font-medium">{formatCurrency(item.quantity * item.unitPrice)}</td>
+                                            <td className="py-3 text-right">{formatCurrency(item.unitPrice, getInvoiceCurrency(viewingInvoice))}</td>
+                                            <td className="py-3 text-right font-medium">{formatCurrency(item.quantity * item.unitPrice, getInvoiceCurrency(viewingInvoice))}</td>
                                         </tr>
                                     ))}
                                 </tbody>
@@ -1936,15 +3581,15 @@ Please remember to save the invoice PDF before sending.`;
 
                         {/* Totals */}
                         <div className="border-t pt-4 space-y-2">
-                            <div className="flex justify-between"><span className="text-gray-500">Subtotal</span><span>{formatCurrency(viewingInvoice.subtotal)}</span></div>
+                            <div className="flex justify-between"><span className="text-gray-500">Subtotal</span><span>{formatCurrency(viewingInvoice.subtotal, getInvoiceCurrency(viewingInvoice))}</span></div>
                             {viewingInvoice.discount > 0 && (
-                                <div className="flex justify-between"><span className="text-gray-500">Discount</span><span className="text-green-600">-{formatCurrency(viewingInvoice.discountType === 'percentage' ? viewingInvoice.subtotal * (viewingInvoice.discount / 100) : viewingInvoice.discount)}</span></div>
-                            )}
-                            {viewingInvoice.taxRate > 0 && (
-                                <div className="flex justify-between"><span className="text-gray-500">Tax ({viewingInvoice.taxRate}%)</span><span>{formatCurrency(viewingInvoice.taxAmount)}</span></div>
+                                <div className="flex justify-between"><span className="text-gray-500">Discount</span><span className="text-green-600">-{formatCurrency(viewingInvoice.discountType === 'percentage' ? viewingInvoice.subtotal * (viewingInvoice.discount / 100) : viewingInvoice.discount, getInvoiceCurrency(viewingInvoice))}</span></div>
                             )}
+                            {getInvoiceTaxLines(viewingInvoice).map((line, index) => (
+                                <div key={index} className="flex justify-between"><span className="text-gray-500">{formatTaxLineLabel(line)}</span><span>{formatCurrency(line.amount, getInvoiceCurrency(viewingInvoice))}</span></div>
+                            ))}
                             <div className="flex justify-between text-lg font-bold pt-2 border-t" style={{ color: selectedCustomer.brandGuidelines?.colors?.[0] || '#667eea' }}>
-                                <span>Total</span><span>{formatCurrency(viewingInvoice.total)}</span>
+                                <span>Total ({getInvoiceCurrency(viewingInvoice)})</span><span>{formatCurrency(viewingInvoice.total, getInvoiceCurrency(viewingInvoice))}</span>
                             </div>
                         </div>
 
@@ -1973,11 +3618,11 @@ Please remember to save the invoice PDF before sending.`;
                                     </div>
                                     <div className="flex justify-between text-sm">
                                         <span className="text-gray-600">
-                                            Paid: <span className="font-bold text-green-600">{formatCurrency(viewingInvoice.paidAmount || 0)}</span>
+                                            Paid: <span className="font-bold text-green-600">{formatCurrency(viewingInvoice.paidAmount || 0, getInvoiceCurrency(viewingInvoice))}</span>
                                         </span>
                                         {balance > 0 && (
                                             <span className="text-gray-600">
-                                                Balance: <span className="font-bold text-orange-600">{formatCurrency(balance)}</span>
+                                                Balance: <span className="font-bold text-orange-600">{formatCurrency(balance, getInvoiceCurrency(viewingInvoice))}</span>
                                             </span>
                                         )}
                                     </div>
@@ -1993,6 +3638,42 @@ Please remember to save the invoice PDF before sending.`;
                                             Record Payment
                                         </button>
                                     )}
+                                    {/* Online Payment Link */}
+                                    {paymentStatus.status !== 'paid' && (
+                                        viewingInvoice.paymentLink && viewingInvoice.paymentLink.expiresAt > Date.now() ? (
+                                            <div className="mt-3 bg-white border border-indigo-100 rounded-lg p-3">
+                                                <p className="text-xs font-bold text-indigo-700 mb-1">Online Payment Link</p>
+                                                <div className="flex gap-2">
+                                                    <input
+                                                        readOnly
+                                                        value={viewingInvoice.paymentLink.url}
+                                                        className="flex-1 px-2 py-1 border rounded text-xs text-gray-600 bg-gray-50"
+                                                        onFocus={(e) => e.target.select()}
+                                                    />
+                                                    <button
+                                                        onClick={() => navigator.clipboard.writeText(viewingInvoice.paymentLink!.url)}
+                                                        className="px-3 py-1 bg-indigo-100 text-indigo-700 rounded text-xs font-bold hover:bg-indigo-200"
+                                                    >
+                                                        Copy
+                                                    </button>
+                                                </div>
+                                                <p className="text-xs text-gray-400 mt-1">
+                                                    {formatCurrency(viewingInvoice.paymentLink.amount, getInvoiceCurrency(viewingInvoice))} · expires {new Date(viewingInvoice.paymentLink.expiresAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}. Card payments are recorded automatically.
+                                                </p>
+                                            </div>
+                                        ) : (
+                                            <button
+                                                onClick={() => handleCreatePaymentLink(viewingInvoice)}
+                                                disabled={paymentLinkLoading}
+                                                className="w-full mt-2 py-2.5 border border-indigo-200 text-indigo-700 bg-white rounded-lg font-bold text-sm hover:bg-indigo-50 disabled:opacity-50"
+                                            >
+                                                {paymentLinkLoading ? 'Creating link...' : '💳 Create Payment Link'}
+                                            </button>
+                                        )
+                                    )}
+                                    {invoiceActionError && (
+                                        <p className="text-xs text-red-600 mt-2">{invoiceActionError}</p>
+                                    )}
                                 </div>
                             );
                         })()}
@@ -2054,6 +3735,276 @@ Please remember to save the invoice PDF before sending.`;
             </div>
         )}
 
+        {/* Merge Customers Modal */}
+        {/* Custom Fields Modal */}
+        {fieldDrafts && (
+            <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+                <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden max-h-[90vh] flex flex-col">
+                    <div className="bg-gradient-to-r from-purple-600 to-pink-600 p-6">
+                        <h3 className="text-xl font-bold text-white">Custom Fields</h3>
+                        <p className="text-purple-100 text-sm mt-1">Fields you add here appear on every customer.</p>
+                    </div>
+
+                    <div className="p-6 space-y-3 overflow-y-auto">
+                        {fieldDrafts.length === 0 && (
+                            <p className="text-sm text-gray-400 text-center py-4">No custom fields yet.</p>
+                        )}
+                        {fieldDrafts.map((draft, index) => {
+                            const updateDraft = (changes: Partial<typeof draft>) =>
+                                setFieldDrafts(fieldDrafts.map((d, i) => (i === index ? { ...d, ...changes } : d)));
+                            return (
+                                <div key={draft.id} className="border border-gray-200 rounded-xl p-3 space-y-2">
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="text"
+                                            value={draft.label}
+                                            onChange={(e) => updateDraft({ label: e.target.value })}
+                                            placeholder="Field name"
+                                            className="flex-1 p-2 bg-gray-50 border border-gray-200 rounded-lg text-sm"
+                                        />
+                                        <select
+                                            value={draft.type}
+                                            onChange={(e) => updateDraft({ type: e.target.value as CustomFieldDefinition['type'] })}
+                                            className="p-2 bg-gray-50 border border-gray-200 rounded-lg text-sm"
+                                        >
+                                            {CUSTOM_FIELD_TYPES.map(({ type, label }) => (
+                                                <option key={type} value={type}>{label}</option>
+                                            ))}
+                                        </select>
+                                        <button
+                                            onClick={() => setFieldDrafts(fieldDrafts.filter((_, i) => i !== index))}
+                                            className="px-2 text-red-500 hover:bg-red-50 rounded-lg"
+                                            title="Remove field"
+                                        >
+                                            ✕
+                                        </button>
+                                    </div>
+                                    {draft.type === 'select' && (
+                                        <input
+                                            type="text"
+                                            value={draft.optionsText}
+                                            onChange={(e) => updateDraft({ optionsText: e.target.value })}
+                                            placeholder="Choices, separated by commas"
+                                            className="w-full p-2 bg-gray-50 border border-gray-200 rounded-lg text-sm"
+                                        />
+                                    )}
+                                </div>
+                            );
+                        })}
+                        <button
+                            onClick={() => setFieldDrafts([...fieldDrafts, { id: `field-${Date.now()}`, label: '', type: 'text', optionsText: '' }])}
+                            className="w-full py-2 border border-dashed border-gray-300 text-gray-600 rounded-xl text-sm hover:bg-gray-50"
+                        >
+                            + Add Field
+                        </button>
+                        <p className="text-xs text-gray-400">
+                            Removing a field hides it; values already entered are kept on each customer. Changing a field's type doesn't convert existing values.
+                        </p>
+
+                        <div className="flex gap-3 pt-2">
+                            <button
+                                onClick={() => setFieldDrafts(null)}
+                                className="flex-1 py-3 border border-gray-200 text-gray-600 rounded-xl font-medium hover:bg-gray-50"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleSaveFields}
+                                className="flex-1 py-3 bg-purple-600 text-white rounded-xl font-bold hover:bg-purple-700"
+                            >
+                                Save Fields
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {/* Task Modal */}
+        {showTaskModal && selectedCustomer && (
+            <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+                <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden">
+                    <div className="bg-gradient-to-r from-amber-500 to-orange-500 p-6">
+                        <h3 className="text-xl font-bold text-white">{taskForm.id ? 'Edit Task' : 'New Task'}</h3>
+                        <p className="text-amber-50 text-sm mt-1">Follow-up for {selectedCustomer.businessName}</p>
+                    </div>
+
+                    <div className="p-6 space-y-4">
+                        <div>
+                            <label className="text-xs font-bold text-gray-500 uppercase mb-2 block">Task *</label>
+                            <input
+                                type="text"
+                                value={taskForm.title}
+                                onChange={(e) => setTaskForm({ ...taskForm, title: e.target.value })}
+                                placeholder="e.g. Call to discuss the website concept"
+                                className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl text-sm"
+                                autoFocus
+                            />
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className="text-xs font-bold text-gray-500 uppercase mb-2 block">Due Date *</label>
+                                <input
+                                    type="date"
+                                    value={taskForm.dueDate}
+                                    onChange={(e) => setTaskForm({ ...taskForm, dueDate: e.target.value })}
+                                    className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl text-sm"
+                                />
+                            </div>
+                            <div>
+                                <label className="text-xs font-bold text-gray-500 uppercase mb-2 block">Assignee</label>
+                                <input
+                                    type="email"
+                                    value={taskForm.assignee}
+                                    onChange={(e) => setTaskForm({ ...taskForm, assignee: e.target.value })}
+                                    placeholder="Me"
+                                    className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl text-sm"
+                                />
+                            </div>
+                        </div>
+                        <div>
+                            <label className="text-xs font-bold text-gray-500 uppercase mb-2 block">Email Reminder</label>
+                            <input
+                                type="datetime-local"
+                                value={taskForm.reminder}
+                                onChange={(e) => setTaskForm({ ...taskForm, reminder: e.target.value })}
+                                className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl text-sm"
+                            />
+                            <p className="text-xs text-gray-400 mt-1">
+                                {emailAccount
+                                    ? `Sent from ${emailAccount.fromEmail} to the assignee, or to you if no one is assigned.`
+                                    : 'Connect an email account in Settings to receive reminders.'}
+                            </p>
+                        </div>
+                        <div>
+                            <label className="text-xs font-bold text-gray-500 uppercase mb-2 block">Notes</label>
+                            <textarea
+                                value={taskForm.notes}
+                                onChange={(e) => setTaskForm({ ...taskForm, notes: e.target.value })}
+                                rows={3}
+                                className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl text-sm"
+                            />
+                        </div>
+
+                        <div className="flex gap-3 pt-2">
+                            <button
+                                onClick={() => setShowTaskModal(false)}
+                                className="flex-1 py-3 border border-gray-200 text-gray-600 rounded-xl font-medium hover:bg-gray-50"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleSaveTask}
+                                disabled={!taskForm.title.trim() || !taskForm.dueDate}
+                                className="flex-1 py-3 bg-amber-500 text-white rounded-xl font-bold hover:bg-amber-600 disabled:opacity-50"
+                            >
+                                {taskForm.id ? 'Save Task' : 'Add Task'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {showMergeModal && selectedCustomer && (() => {
+            const candidates = findDuplicateCandidates(selectedCustomer, customers);
+            const others = customers.filter(c => c.id !== selectedCustomer.id && !candidates.some(m => m.lead.id === c.id));
+            const target = customers.find(c => c.id === mergeTargetId);
+            const reasons = target ? matchLeads(selectedCustomer, target).reasons : [];
+            const combinedCount = (field: 'history' | 'communications' | 'invoices' | 'quotes' | 'tasks') =>
+                new Set([...(selectedCustomer[field] || []), ...(target?.[field] || [])].map(item => item.id)).size;
+
+            return (
+            <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+                <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden">
+                    <div className="bg-gradient-to-r from-purple-600 to-pink-600 p-6">
+                        <h3 className="text-xl font-bold text-white">Merge Customers</h3>
+                        <p className="text-purple-100 text-sm mt-1">Combine two records for the same business into one.</p>
+                    </div>
+
+                    <div className="p-6 space-y-4">
+                        <div>
+                            <label className="text-xs font-bold text-gray-500 uppercase mb-2 block">Merge {selectedCustomer.businessName} with</label>
+                            <select
+                                value={mergeTargetId}
+                                onChange={(e) => setMergeTargetId(e.target.value)}
+                                className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl text-sm"
+                            >
+                                <option value="">Choose a customer...</option>
+                                {candidates.length > 0 && (
+                                    <optgroup label="Likely duplicates">
+                                        {candidates.map(match => (
+                                            <option key={match.lead.id} value={match.lead.id}>{match.lead.businessName} ({match.lead.location})</option>
+                                        ))}
+                                    </optgroup>
+                                )}
+                                <optgroup label="All customers">
+                                    {others.map(customer => (
+                                        <option key={customer.id} value={customer.id}>{customer.businessName} ({customer.location})</option>
+                                    ))}
+                                </optgroup>
+                            </select>
+                            {reasons.length > 0 && (
+                                <p className="text-xs text-amber-700 mt-2">{reasons.join(' · ')}</p>
+                            )}
+                        </div>
+
+                        {target && (
+                            <>
+                                <div>
+                                    <label className="text-xs font-bold text-gray-500 uppercase mb-2 block">Keep</label>
+                                    <div className="space-y-2">
+                                        {[selectedCustomer, target].map(customer => {
+                                            const isKept = (customer.id === selectedCustomer.id) === mergeKeepSelected;
+                                            return (
+                                                <label key={customer.id} className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer ${isKept ? 'border-purple-300 bg-purple-50' : 'border-gray-200'}`}>
+                                                    <input
+                                                        type="radio"
+                                                        checked={isKept}
+                                                        onChange={() => setMergeKeepSelected(customer.id === selectedCustomer.id)}
+                                                        className="mt-1"
+                                                    />
+                                                    <div className="text-sm">
+                                                        <p className="font-bold text-gray-800">{customer.businessName}</p>
+                                                        <p className="text-xs text-gray-500">{customer.location}{customer.phone ? ` · ${customer.phone}` : ''}</p>
+                                                        <p className="text-xs text-gray-400 uppercase mt-1">{customer.status}</p>
+                                                    </div>
+                                                </label>
+                                            );
+                                        })}
+                                    </div>
+                                </div>
+
+                                <div className="bg-gray-50 rounded-xl p-4 text-sm text-gray-600 space-y-1">
+                                    <p>The merged customer will have {combinedCount('history')} history items, {combinedCount('communications')} communications, {combinedCount('invoices')} invoices, {combinedCount('quotes')} quotes and {combinedCount('tasks')} tasks.</p>
+                                    <p className="text-xs text-gray-400">Details missing on the kept customer are filled in from the other one, which is then removed.</p>
+                                </div>
+                            </>
+                        )}
+
+                        {mergeError && <p className="text-sm text-red-500">{mergeError}</p>}
+
+                        <div className="flex gap-3 pt-2">
+                            <button
+                                onClick={() => setShowMergeModal(false)}
+                                className="flex-1 py-3 border border-gray-200 text-gray-600 rounded-xl font-medium hover:bg-gray-50"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleMergeCustomers}
+                                disabled={!target || mergeLoading}
+                                className="flex-1 py-3 bg-purple-600 text-white rounded-xl font-bold hover:bg-purple-700 disabled:opacity-50"
+                            >
+                                {mergeLoading ? 'Merging...' : 'Merge'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+            );
+        })()}
+
         {/* Record Payment Modal */}
         {showPaymentModal && paymentInvoice && (
             <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
@@ -2068,15 +4019,15 @@ Please remember to save the invoice PDF before sending.`;
                         <div className="bg-gray-50 rounded-xl p-4 mb-6">
                             <div className="flex justify-between text-sm mb-2">
                                 <span className="text-gray-500">Invoice Total</span>
-                                <span className="font-bold text-gray-800">{formatCurrency(paymentInvoice.total)}</span>
+                                <span className="font-bold text-gray-800">{formatCurrency(paymentInvoice.total, getInvoiceCurrency(paymentInvoice))}</span>
                             </div>
                             <div className="flex justify-between text-sm mb-2">
                                 <span className="text-gray-500">Already Paid</span>
-                                <span className="text-green-600">{formatCurrency(paymentInvoice.paidAmount || 0)}</span>
+                                <span className="text-green-600">{formatCurrency(paymentInvoice.paidAmount || 0, getInvoiceCurrency(paymentInvoice))}</span>
                             </div>
                             <div className="flex justify-between text-sm pt-2 border-t border-gray-200">
                                 <span className="font-bold text-gray-700">Balance Due</span>
-                                <span className="font-bold text-orange-600">{formatCurrency(getInvoiceBalance(paymentInvoice))}</span>
+                                <span className="font-bold text-orange-600">{formatCurrency(getInvoiceBalance(paymentInvoice), getInvoiceCurrency(paymentInvoice))}</span>
                             </div>
                         </div>
 
@@ -2159,7 +4110,7 @@ Please remember to save the invoice PDF before sending.`;
                                     <span className="font-bold ml-1">
                                         {paymentForm.amount >= getInvoiceBalance(paymentInvoice)
                                             ? 'Invoice will be marked as PAID'
-                                            : `${formatCurrency(getInvoiceBalance(paymentInvoice) - paymentForm.amount)} will remain due`
+                                            : `${formatCurrency(getInvoiceBalance(paymentInvoice) - paymentForm.amount, getInvoiceCurrency(paymentInvoice))} will remain due`
                                         }
                                     </span>
                                 </p>
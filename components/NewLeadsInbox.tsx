@@ -0,0 +1,155 @@
+import React, { useMemo, useState } from 'react';
+import { DiscoveredLead, Lead, SavedSearch } from '../types';
+import { findDuplicateLead } from '../lib/leadMatching';
+
+interface Props {
+  newLeads: DiscoveredLead[];
+  searches: SavedSearch[];
+  savedLeads: Lead[];
+  onSaveLead: (lead: Lead) => void;
+  onSetStatus: (discoveredId: string, status: 'dismissed' | 'saved') => Promise<void>;
+  onOpenScout: () => void;
+}
+
+const toLead = (discovered: DiscoveredLead): Lead => ({
+  id: `lead-${discovered.id}`,
+  businessName: discovered.businessName,
+  location: discovered.location,
+  details: discovered.details,
+  status: 'new',
+  hasWebsite: !!discovered.existingWebsiteUrl,
+  ...(discovered.existingWebsiteUrl ? { existingWebsiteUrl: discovered.existingWebsiteUrl } : {}),
+  ...(discovered.phone ? { phone: discovered.phone } : {}),
+  ...(discovered.email ? { email: discovered.email } : {}),
+  ...(discovered.category ? { category: discovered.category } : {}),
+  ...(discovered.rating !== undefined ? { rating: discovered.rating } : {}),
+  ...(discovered.reviewCount !== undefined ? { reviewCount: discovered.reviewCount } : {}),
+  history: [],
+});
+
+export const NewLeadsInbox: React.FC<Props> = ({ newLeads, searches, savedLeads, onSaveLead, onSetStatus, onOpenScout }) => {
+  const [busyIds, setBusyIds] = useState<Set<string>>(new Set());
+
+  // Inbox entries grouped under the search that found them
+  const groups = useMemo(() => {
+    const bySearch = new Map<string, DiscoveredLead[]>();
+    newLeads.forEach(lead => {
+      bySearch.set(lead.searchId, [...(bySearch.get(lead.searchId) || []), lead]);
+    });
+    return [...bySearch.entries()].map(([searchId, leads]) => ({
+      searchId,
+      label: `${leads[0].query} near ${leads[0].searchLocation}`,
+      search: searches.find(s => s.id === searchId),
+      leads,
+    }));
+  }, [newLeads, searches]);
+
+  const handle = async (discovered: DiscoveredLead[], status: 'dismissed' | 'saved') => {
+    setBusyIds(prev => new Set([...prev, ...discovered.map(d => d.id)]));
+    try {
+      for (const item of discovered) {
+        // Added to the list since it was discovered (e.g. from a manual search)
+        const alreadySaved = status === 'saved' && findDuplicateLead(toLead(item), savedLeads)?.score === 1;
+        if (status === 'saved' && !alreadySaved) onSaveLead(toLead(item));
+        await onSetStatus(item.id, status);
+      }
+    } catch (err) {
+      console.error(err);
+      alert('Could not update new leads. Please try again.');
+    } finally {
+      setBusyIds(prev => {
+        const next = new Set(prev);
+        discovered.forEach(d => next.delete(d.id));
+        return next;
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="text-center space-y-2">
+        <h1 className="text-3xl font-bold text-gray-800 font-serif">New Leads</h1>
+        <p className="text-gray-500">Businesses your saved searches found that aren't on your list yet.</p>
+      </div>
+
+      {groups.length === 0 ? (
+        <div className="bg-white p-10 rounded-2xl shadow-sm border border-gray-100 text-center space-y-3">
+          <p className="text-gray-500">No new leads right now.</p>
+          <p className="text-sm text-gray-400">
+            {searches.some(s => s.schedule !== 'off')
+              ? 'Scheduled searches run automatically; new businesses will show up here.'
+              : 'Save a search in Scout Customers and schedule it to discover new businesses automatically.'}
+          </p>
+          <button onClick={onOpenScout} className="px-6 py-2 bg-purple-600 text-white rounded-xl font-medium hover:bg-purple-700">
+            Go to Scout Customers
+          </button>
+        </div>
+      ) : groups.map(group => (
+        <div key={group.searchId} className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h2 className="text-lg font-bold text-gray-700">{group.label}</h2>
+              <p className="text-xs text-gray-400">
+                {group.leads.length} new
+                {group.search?.lastRunAt && ` · last run ${new Date(group.search.lastRunAt).toLocaleString()}`}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handle(group.leads, 'dismissed')}
+                className="text-xs px-3 py-1.5 rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50"
+              >
+                Dismiss All
+              </button>
+              <button
+                onClick={() => handle(group.leads, 'saved')}
+                className="text-xs px-3 py-1.5 rounded-lg bg-purple-600 text-white hover:bg-purple-700"
+              >
+                Save All
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {group.leads.map(lead => (
+              <div key={lead.id} className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
+                <h3 className="text-lg font-bold text-gray-800 mb-1 flex items-center gap-2 flex-wrap">
+                  {lead.businessName}
+                  {lead.existingWebsiteUrl ? (
+                    <span className="text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded-full">🌐 Has Website</span>
+                  ) : (
+                    <span className="text-xs bg-orange-100 text-orange-700 px-2 py-1 rounded-full">📝 No Website</span>
+                  )}
+                </h3>
+                <p className="text-sm text-gray-500">{lead.location}</p>
+                {(lead.category || lead.reviewCount !== undefined) && (
+                  <p className="text-xs text-gray-400 mt-1">
+                    {[lead.category, lead.reviewCount !== undefined ? `${lead.reviewCount} reviews` : '', lead.rating !== undefined ? `${lead.rating}★` : '']
+                      .filter(Boolean).join(' · ')}
+                  </p>
+                )}
+                <p className="text-gray-600 text-sm my-4 line-clamp-3">{lead.details}</p>
+                <div className="grid grid-cols-2 gap-3">
+                  <button
+                    onClick={() => handle([lead], 'dismissed')}
+                    disabled={busyIds.has(lead.id)}
+                    className="py-2 border border-gray-200 text-gray-600 rounded-lg font-medium hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Dismiss
+                  </button>
+                  <button
+                    onClick={() => handle([lead], 'saved')}
+                    disabled={busyIds.has(lead.id)}
+                    className="py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg font-medium hover:opacity-90 disabled:opacity-50"
+                  >
+                    Save to List
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,446 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Lead, PipelineSettings, PipelineStage } from '../types';
+import { useInvoicingSettings } from '../hooks/useInvoicingSettings';
+import { usePipelineSettings } from '../hooks/usePipelineSettings';
+import { SUPPORTED_CURRENCIES, formatMoney } from '../lib/invoiceTotals';
+import { calculatePipelineForecast, getLeadStage, moveLeadToStage } from '../lib/pipeline';
+
+interface Props {
+  customers: Lead[];
+  onUpdateCustomer: (lead: Lead) => void;
+}
+
+interface DealDraft {
+  value: string;
+  currency: string;
+  closeDate: string;
+}
+
+const STATUS_LABELS: Record<Lead['status'], string> = {
+  new: 'New',
+  analyzing: 'Analyzing',
+  contacted: 'Contacted',
+  negotiating: 'Negotiating',
+  converted: 'Won',
+  lost: 'Lost',
+};
+
+const STAGE_ACCENTS: Record<Lead['status'], string> = {
+  new: 'border-t-gray-300',
+  analyzing: 'border-t-blue-300',
+  contacted: 'border-t-indigo-300',
+  negotiating: 'border-t-[#D4AF37]',
+  converted: 'border-t-green-400',
+  lost: 'border-t-red-300',
+};
+
+const todayString = () => new Date().toISOString().slice(0, 10);
+
+export const PipelineBoard: React.FC<Props> = ({ customers, onUpdateCustomer }) => {
+  const { settings: pipelineSettings, error: pipelineError, updateSettings } = usePipelineSettings();
+  const { settings: invoicingSettings } = useInvoicingSettings();
+  const stages = pipelineSettings.stages;
+  const reportingCurrency = invoicingSettings.reportingCurrency;
+
+  const [draggedLeadId, setDraggedLeadId] = useState<string | null>(null);
+  const [dropStageId, setDropStageId] = useState<string | null>(null);
+  const [pendingLost, setPendingLost] = useState<{ lead: Lead; stage: PipelineStage } | null>(null);
+  const [lostReason, setLostReason] = useState('');
+  const [editingLeadId, setEditingLeadId] = useState<string | null>(null);
+  const [dealDraft, setDealDraft] = useState<DealDraft>({ value: '', currency: reportingCurrency, closeDate: '' });
+  const [showStageSettings, setShowStageSettings] = useState(false);
+
+  const forecast = useMemo(
+    () => calculatePipelineForecast(customers, stages, invoicingSettings),
+    [customers, stages, invoicingSettings]
+  );
+
+  const unstagedLeads = customers.filter(lead => !getLeadStage(lead, stages));
+  const wonTotal = forecast.stages
+    .filter(column => column.stage.status === 'converted')
+    .reduce((sum, column) => sum + column.total, 0);
+
+  const handleMove = (lead: Lead, stage: PipelineStage, reason?: string) => {
+    if (getLeadStage(lead, stages)?.id === stage.id) return;
+
+    // Ask why before a deal is marked lost
+    if (stage.status === 'lost' && reason === undefined) {
+      setPendingLost({ lead, stage });
+      setLostReason('');
+      return;
+    }
+
+    onUpdateCustomer(moveLeadToStage(lead, stage, stages, reason));
+  };
+
+  const handleDrop = (e: React.DragEvent, stage: PipelineStage) => {
+    e.preventDefault();
+    const leadId = e.dataTransfer.getData('text/plain') || draggedLeadId;
+    setDraggedLeadId(null);
+    setDropStageId(null);
+    const lead = customers.find(c => c.id === leadId);
+    if (lead) handleMove(lead, stage);
+  };
+
+  const handleConfirmLost = () => {
+    if (!pendingLost) return;
+    const { lead, stage } = pendingLost;
+    setPendingLost(null);
+    handleMove(lead, stage, lostReason);
+  };
+
+  const openDealEditor = (lead: Lead) => {
+    setEditingLeadId(lead.id);
+    setDealDraft({
+      value: lead.dealValue ? String(lead.dealValue) : '',
+      currency: lead.dealCurrency || reportingCurrency,
+      closeDate: lead.expectedCloseDate || '',
+    });
+  };
+
+  const handleSaveDeal = (lead: Lead) => {
+    const value = parseFloat(dealDraft.value);
+    onUpdateCustomer({
+      ...lead,
+      dealValue: value > 0 ? value : 0,
+      dealCurrency: dealDraft.currency,
+      expectedCloseDate: dealDraft.closeDate,
+    });
+    setEditingLeadId(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-800 font-serif">Pipeline</h1>
+          <p className="text-gray-500">Drag clients between stages to track every deal from first contact to close.</p>
+      </div>
+
+      {/* Forecast */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100">
+              <p className="text-xs font-bold text-gray-400 uppercase">Open Pipeline</p>
+              <p className="text-2xl font-bold text-gray-800">{formatMoney(forecast.openTotal, reportingCurrency)}</p>
+          </div>
+          <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100">
+              <p className="text-xs font-bold text-gray-400 uppercase">Weighted Forecast</p>
+              <p className="text-2xl font-bold text-[#D4AF37]">{formatMoney(forecast.weightedTotal, reportingCurrency)}</p>
+          </div>
+          <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100">
+              <p className="text-xs font-bold text-gray-400 uppercase">Won</p>
+              <p className="text-2xl font-bold text-green-600">{formatMoney(wonTotal, reportingCurrency)}</p>
+          </div>
+          <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100">
+              <p className="text-xs font-bold text-gray-400 uppercase">Lost</p>
+              <p className="text-2xl font-bold text-gray-800">{customers.filter(c => c.status === 'lost').length}</p>
+          </div>
+      </div>
+
+      {forecast.unconvertedCount > 0 && (
+          <p className="text-xs text-amber-600">
+              {forecast.unconvertedCount} deal{forecast.unconvertedCount === 1 ? ' is' : 's are'} in a currency without an exchange rate to {reportingCurrency} and {forecast.unconvertedCount === 1 ? 'is' : 'are'} left out of the totals. Add rates under Invoicing → Currencies & Tax.
+          </p>
+      )}
+      {unstagedLeads.length > 0 && (
+          <p className="text-xs text-amber-600">
+              {unstagedLeads.length} client{unstagedLeads.length === 1 ? ' has' : 's have'} a status with no stage on the board ({Array.from(new Set(unstagedLeads.map(l => STATUS_LABELS[l.status]))).join(', ')}).
+          </p>
+      )}
+
+      <div className="flex justify-end">
+          <button
+              onClick={() => setShowStageSettings(!showStageSettings)}
+              className="px-4 py-2 rounded-lg border border-gray-200 bg-white text-sm font-medium text-gray-600 hover:bg-gray-50"
+          >
+              {showStageSettings ? 'Close Stage Settings' : 'Edit Stages'}
+          </button>
+      </div>
+
+      {showStageSettings && (
+          <StageSettingsPanel settings={pipelineSettings} error={pipelineError} onSave={updateSettings} />
+      )}
+
+      {/* Board */}
+      <div className="flex gap-4 overflow-x-auto pb-4">
+          {forecast.stages.map(({ stage, leads, total, weighted }) => (
+              <div
+                  key={stage.id}
+                  onDragOver={(e) => {
+                      e.preventDefault();
+                      setDropStageId(stage.id);
+                  }}
+                  onDragLeave={() => setDropStageId(prev => (prev === stage.id ? null : prev))}
+                  onDrop={(e) => handleDrop(e, stage)}
+                  className={`flex-shrink-0 w-72 rounded-2xl border-t-4 ${STAGE_ACCENTS[stage.status]} bg-white/60 border border-gray-100 p-3 transition-colors ${dropStageId === stage.id ? 'bg-[#D4AF37]/10' : ''}`}
+              >
+                  <div className="flex items-start justify-between mb-3">
+                      <div>
+                          <h3 className="font-bold text-gray-700">{stage.name}</h3>
+                          <p className="text-xs text-gray-400">{leads.length} client{leads.length === 1 ? '' : 's'} · {stage.probability}%</p>
+                      </div>
+                      <div className="text-right">
+                          <p className="text-sm font-bold text-gray-700">{formatMoney(total, reportingCurrency)}</p>
+                          {stage.probability > 0 && stage.probability < 100 && (
+                              <p className="text-xs text-gray-400">{formatMoney(weighted, reportingCurrency)} weighted</p>
+                          )}
+                      </div>
+                  </div>
+
+                  <div className="space-y-2 min-h-[80px]">
+                      {leads.map(lead => {
+                          const isOverdue = !!lead.expectedCloseDate
+                              && lead.expectedCloseDate < todayString()
+                              && stage.status !== 'converted'
+                              && stage.status !== 'lost';
+
+                          return (
+                              <div
+                                  key={lead.id}
+                                  draggable={editingLeadId !== lead.id}
+                                  onDragStart={(e) => {
+                                      e.dataTransfer.setData('text/plain', lead.id);
+                                      e.dataTransfer.effectAllowed = 'move';
+                                      setDraggedLeadId(lead.id);
+                                  }}
+                                  onDragEnd={() => {
+                                      setDraggedLeadId(null);
+                                      setDropStageId(null);
+                                  }}
+                                  className={`bg-white rounded-xl border border-gray-100 shadow-sm p-3 cursor-grab active:cursor-grabbing ${draggedLeadId === lead.id ? 'opacity-50' : ''}`}
+                              >
+                                  <div className="flex items-start justify-between gap-2">
+                                      <div className="min-w-0">
+                                          <p className="font-semibold text-gray-800 truncate">{lead.businessName}</p>
+                                          {lead.location && <p className="text-xs text-gray-400 truncate">{lead.location}</p>}
+                                      </div>
+                                      {lead.dealValue ? (
+                                          <span className="text-sm font-bold text-gray-700 whitespace-nowrap">
+                                              {formatMoney(lead.dealValue, lead.dealCurrency || reportingCurrency)}
+                                          </span>
+                                      ) : null}
+                                  </div>
+
+                                  {lead.expectedCloseDate && (
+                                      <p className={`text-xs mt-1 ${isOverdue ? 'text-red-500 font-medium' : 'text-gray-500'}`}>
+                                          Close by {new Date(`${lead.expectedCloseDate}T00:00:00`).toLocaleDateString()}
+                                      </p>
+                                  )}
+                                  {stage.status === 'lost' && lead.lostReason && (
+                                      <p className="text-xs mt-1 text-red-500 italic">“{lead.lostReason}”</p>
+                                  )}
+
+                                  {editingLeadId === lead.id ? (
+                                      <div className="mt-3 space-y-2">
+                                          <div className="flex gap-2">
+                                              <input
+                                                  type="number"
+                                                  min="0"
+                                                  step="0.01"
+                                                  placeholder="Deal value"
+                                                  value={dealDraft.value}
+                                                  onChange={(e) => setDealDraft({ ...dealDraft, value: e.target.value })}
+                                                  className="flex-1 min-w-0 border border-gray-200 rounded-lg px-2 py-1 text-sm bg-gray-50"
+                                              />
+                                              <select
+                                                  value={dealDraft.currency}
+                                                  onChange={(e) => setDealDraft({ ...dealDraft, currency: e.target.value })}
+                                                  className="border border-gray-200 rounded-lg px-2 py-1 text-sm bg-gray-50"
+                                              >
+                                                  {SUPPORTED_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+                                              </select>
+                                          </div>
+                                          <div>
+                                              <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Expected Close</label>
+                                              <input
+                                                  type="date"
+                                                  value={dealDraft.closeDate}
+                                                  onChange={(e) => setDealDraft({ ...dealDraft, closeDate: e.target.value })}
+                                                  className="w-full border border-gray-200 rounded-lg px-2 py-1 text-sm bg-gray-50"
+                                              />
+                                          </div>
+                                          <div className="flex justify-end gap-2">
+                                              <button onClick={() => setEditingLeadId(null)} className="px-3 py-1 text-xs text-gray-500 hover:text-gray-700">Cancel</button>
+                                              <button onClick={() => handleSaveDeal(lead)} className="px-3 py-1 rounded-lg bg-purple-600 text-white text-xs font-medium hover:bg-purple-700">Save</button>
+                                          </div>
+                                      </div>
+                                  ) : (
+                                      <div className="mt-2 flex items-center justify-between gap-2">
+                                          <button onClick={() => openDealEditor(lead)} className="text-xs text-purple-600 hover:text-purple-800 font-medium">
+                                              {lead.dealValue || lead.expectedCloseDate ? 'Edit deal' : '+ Deal details'}
+                                          </button>
+                                          {/* Keyboard and touch alternative to dragging */}
+                                          <select
+                                              value={stage.id}
+                                              onChange={(e) => {
+                                                  const target = stages.find(s => s.id === e.target.value);
+                                                  if (target) handleMove(lead, target);
+                                              }}
+                                              className="text-xs border border-gray-200 rounded-lg px-1 py-0.5 bg-gray-50 text-gray-500"
+                                              aria-label={`Move ${lead.businessName} to stage`}
+                                          >
+                                              {stages.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                                          </select>
+                                      </div>
+                                  )}
+                              </div>
+                          );
+                      })}
+                  </div>
+              </div>
+          ))}
+      </div>
+
+      {/* Lost Reason Modal */}
+      {pendingLost && (
+          <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 p-4">
+              <div className="bg-white rounded-2xl shadow-xl w-full max-w-md p-6 space-y-4">
+                  <div>
+                      <h3 className="font-bold text-gray-800">Mark {pendingLost.lead.businessName} as lost</h3>
+                      <p className="text-sm text-gray-500">Why didn't this deal close? The reason is kept on the client's history.</p>
+                  </div>
+                  <textarea
+                      autoFocus
+                      rows={3}
+                      value={lostReason}
+                      onChange={(e) => setLostReason(e.target.value)}
+                      placeholder="e.g. Went with another agency, budget cut, no response"
+                      className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm bg-gray-50"
+                  />
+                  <div className="flex justify-end gap-2">
+                      <button onClick={() => setPendingLost(null)} className="px-4 py-2 text-sm text-gray-500 hover:text-gray-700">Cancel</button>
+                      <button
+                          onClick={handleConfirmLost}
+                          disabled={!lostReason.trim()}
+                          className="px-4 py-2 rounded-lg bg-red-500 text-white text-sm font-medium hover:bg-red-600 disabled:opacity-40"
+                      >
+                          Mark Lost
+                      </button>
+                  </div>
+              </div>
+          </div>
+      )}
+    </div>
+  );
+};
+
+interface StageSettingsPanelProps {
+  settings: PipelineSettings;
+  error: string | null;
+  onSave: (settings: PipelineSettings) => Promise<void>;
+}
+
+const StageSettingsPanel: React.FC<StageSettingsPanelProps> = ({ settings, error, onSave }) => {
+  const [draft, setDraft] = useState<PipelineStage[]>(settings.stages);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Pick up remote changes unless the user is mid-edit
+  useEffect(() => {
+    if (!dirty) setDraft(settings.stages);
+  }, [settings, dirty]);
+
+  const update = (stages: PipelineStage[]) => {
+    setDraft(stages);
+    setDirty(true);
+  };
+
+  const updateStage = (stageId: string, changes: Partial<PipelineStage>) => {
+    update(draft.map(stage => stage.id === stageId ? { ...stage, ...changes } : stage));
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= draft.length) return;
+    const next = [...draft];
+    [next[index], next[target]] = [next[target], next[index]];
+    update(next);
+  };
+
+  const handleAddStage = () => {
+    update([...draft, { id: `stage-${Date.now()}`, name: '', status: 'contacted', probability: 25 }]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave({ stages: draft });
+      setDirty(false);
+    } catch {
+      // Error is surfaced by the settings hook
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 space-y-4">
+        <div className="flex items-start justify-between gap-4">
+            <div>
+                <h3 className="font-bold text-gray-700 mb-1">Pipeline Stages</h3>
+                <p className="text-xs text-gray-400">
+                    Each stage sets a client status when a card is dropped on it. Clients whose status changes elsewhere land in the first stage for that status.
+                </p>
+            </div>
+            <button
+                onClick={handleSave}
+                disabled={!dirty || saving}
+                className="px-4 py-2 rounded-lg bg-purple-600 text-white text-sm font-medium hover:bg-purple-700 disabled:opacity-40"
+            >
+                {saving ? 'Saving...' : 'Save Changes'}
+            </button>
+        </div>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <div className="space-y-2">
+            {draft.map((stage, index) => (
+                <div key={stage.id} className="flex flex-wrap items-center gap-2">
+                    <div className="flex flex-col">
+                        <button onClick={() => moveStage(index, -1)} disabled={index === 0} className="text-xs text-gray-400 hover:text-gray-700 disabled:opacity-30" aria-label="Move stage up">▲</button>
+                        <button onClick={() => moveStage(index, 1)} disabled={index === draft.length - 1} className="text-xs text-gray-400 hover:text-gray-700 disabled:opacity-30" aria-label="Move stage down">▼</button>
+                    </div>
+                    <input
+                        value={stage.name}
+                        onChange={(e) => updateStage(stage.id, { name: e.target.value })}
+                        placeholder="Stage name"
+                        className="flex-1 min-w-[140px] border border-gray-200 rounded-lg px-3 py-2 text-sm bg-gray-50"
+                    />
+                    <select
+                        value={stage.status}
+                        onChange={(e) => updateStage(stage.id, { status: e.target.value as Lead['status'] })}
+                        className="border border-gray-200 rounded-lg px-3 py-2 text-sm bg-gray-50"
+                        aria-label="Client status"
+                    >
+                        {(Object.keys(STATUS_LABELS) as Lead['status'][]).map(status => (
+                            <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                        ))}
+                    </select>
+                    <div className="flex items-center gap-1">
+                        <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            value={stage.probability}
+                            onChange={(e) => updateStage(stage.id, { probability: parseFloat(e.target.value) || 0 })}
+                            className="w-20 border border-gray-200 rounded-lg px-3 py-2 text-sm bg-gray-50"
+                            aria-label="Win probability"
+                        />
+                        <span className="text-sm text-gray-400">%</span>
+                    </div>
+                    <button
+                        onClick={() => update(draft.filter(s => s.id !== stage.id))}
+                        disabled={draft.length === 1}
+                        className="text-sm text-red-400 hover:text-red-600 disabled:opacity-30"
+                    >
+                        Remove
+                    </button>
+                </div>
+            ))}
+        </div>
+
+        <button onClick={handleAddStage} className="text-sm text-purple-600 hover:text-purple-800 font-medium">
+            + Add Stage
+        </button>
+    </div>
+  );
+};
@@ -174,7 +174,10 @@ export const Settings: React.FC<Props> = ({ credits: legacyCredits, onAddCredits
     });
   };
 
-  const getTransactionIcon = (type: string) => {
+  const getTransactionIcon = (type: string, holdStatus?: string) => {
+    if (type === 'CREDIT_HOLD') {
+      return holdStatus === 'held' ? '⏳' : holdStatus === 'released' ? '↩️' : '⚡';
+    }
     switch (type) {
       case 'INITIAL_GRANT':
         return '🎁';
@@ -353,19 +356,21 @@ export const Settings: React.FC<Props> = ({ credits: legacyCredits, onAddCredits
                   className="px-6 py-4 flex items-center justify-between hover:bg-gray-50"
                 >
                   <div className="flex items-center gap-3">
-                    <span className="text-xl">{getTransactionIcon(txn.type)}</span>
+                    <span className="text-xl">{getTransactionIcon(txn.type, txn.holdStatus)}</span>
                     <div>
                       <div className="font-medium text-gray-800">
                         {txn.description || txn.type.replace(/_/g, ' ')}
                       </div>
                       <div className="text-xs text-gray-500">
                         {formatDate(txn.createdAt)}
+                        {txn.holdStatus === 'held' && ' · Reserved until the job finishes'}
+                        {txn.holdStatus === 'released' && ` · ${txn.heldTokens?.toLocaleString()} reserved, given back`}
                       </div>
                     </div>
                   </div>
                   <div
                     className={`font-bold ${
-                      txn.tokens > 0 ? 'text-green-600' : 'text-gray-600'
+                      txn.tokens > 0 ? 'text-green-600' : txn.holdStatus === 'held' ? 'text-amber-600' : 'text-gray-600'
                     }`}
                   >
                     {txn.tokens > 0 ? '+' : ''}
@@ -1,5 +1,7 @@
-import React, { useState, useMemo } from 'react';
-import { Lead } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Lead, PublishedWebsite, RollbackWebsiteResult } from '../types';
+import { getUserWebsites, promoteWebsite, publishWebsite, isPublishingAvailable } from '../services/publishingService';
+import { WebsiteReleasesDialog } from './WebsiteReleasesDialog';
 
 interface SitesManagerProps {
   customers: Lead[];
@@ -9,6 +11,9 @@ interface SitesManagerProps {
   onBack: () => void;
   onGoToWizard: () => void;
   onAIEditor?: (customer: Lead) => void;
+  onSitePublished?: (customer: Lead, url: string) => void;
+  hostingSlots?: number;
+  hostingSlotsUsed?: number;
 }
 
 interface SiteStats {
@@ -24,6 +29,7 @@ interface SiteCard {
   lastEdited?: number;
   thumbnail?: string;
   views?: number;
+  website?: PublishedWebsite;
 }
 
 // Site status badge component
@@ -54,6 +60,31 @@ const StatusBadge: React.FC<{ status: 'published' | 'draft' | 'none' }> = ({ sta
   );
 };
 
+// Where a hosted site lives: its own production site, or a preview channel that expires
+const HostingLabel: React.FC<{ website: PublishedWebsite }> = ({ website }) => {
+  if (website.status === 'suspended') {
+    return <span className="text-xs font-medium text-red-600">Suspended · read-only</span>;
+  }
+  if (website.status === 'expired') {
+    return <span className="text-xs font-medium text-gray-500">Preview expired</span>;
+  }
+  if (website.hostingMode === 'production') {
+    return <span className="text-xs font-medium text-green-600">Live</span>;
+  }
+
+  const expires = website.expireTime
+    ? new Date(website.expireTime).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+    : null;
+  return (
+    <span className="text-xs font-medium text-amber-600">
+      Draft preview{expires ? ` · expires ${expires}` : ''}
+    </span>
+  );
+};
+
+const canPromote = (site: SiteCard) =>
+  !!site.website && site.website.hostingMode !== 'production' && site.website.status !== 'suspended';
+
 // Empty state for no sites
 const EmptySitesState: React.FC<{ onGoToWizard: () => void }> = ({ onGoToWizard }) => (
   <div className="flex flex-col items-center justify-center py-20 px-6 text-center">
@@ -85,8 +116,12 @@ const SiteCardComponent: React.FC<{
   onPreview: () => void;
   onDelete: () => void;
   onPublish: () => void;
+  isPublishing: boolean;
+  onPromote: () => void;
+  isPromoting: boolean;
   onAIEdit?: () => void;
-}> = ({ site, onEdit, onPreview, onDelete, onPublish, onAIEdit }) => {
+  onShowHistory: () => void;
+}> = ({ site, onEdit, onPreview, onDelete, onPublish, isPublishing, onPromote, isPromoting, onAIEdit, onShowHistory }) => {
   const [showMenu, setShowMenu] = useState(false);
 
   const formatDate = (timestamp?: number) => {
@@ -201,12 +236,36 @@ const SiteCardComponent: React.FC<{
                     {site.status === 'draft' && (
                       <button
                         onClick={() => { onPublish(); setShowMenu(false); }}
-                        className="w-full px-4 py-2 text-left text-sm text-green-600 hover:bg-green-50 flex items-center gap-2"
+                        disabled={isPublishing}
+                        className="w-full px-4 py-2 text-left text-sm text-green-600 hover:bg-green-50 flex items-center gap-2 disabled:opacity-50"
                       >
                         <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                         </svg>
-                        Publish Site
+                        {isPublishing ? 'Publishing...' : 'Publish Site'}
+                      </button>
+                    )}
+                    {canPromote(site) && (
+                      <button
+                        onClick={() => { onPromote(); setShowMenu(false); }}
+                        disabled={isPromoting}
+                        className="w-full px-4 py-2 text-left text-sm text-green-600 hover:bg-green-50 flex items-center gap-2 disabled:opacity-50"
+                      >
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 10l7-7m0 0l7 7m-7-7v18" />
+                        </svg>
+                        {isPromoting ? 'Promoting...' : 'Promote to Production'}
+                      </button>
+                    )}
+                    {site.website && (
+                      <button
+                        onClick={() => { onShowHistory(); setShowMenu(false); }}
+                        className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+                      >
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                        </svg>
+                        Version History
                       </button>
                     )}
                     <button
@@ -246,6 +305,21 @@ const SiteCardComponent: React.FC<{
           </div>
         </div>
 
+        {site.website && (
+          <div className="flex items-center justify-between mb-3">
+            <HostingLabel website={site.website} />
+            {canPromote(site) && (
+              <button
+                onClick={onPromote}
+                disabled={isPromoting}
+                className="text-xs font-semibold text-purple-600 hover:text-purple-700 disabled:opacity-50"
+              >
+                {isPromoting ? 'Promoting...' : 'Promote to Production'}
+              </button>
+            )}
+          </div>
+        )}
+
         <div className="flex items-center justify-between text-xs text-gray-400">
           <span>Last edited: {formatDate(site.lastEdited || site.customer.addedAt)}</span>
           {site.views !== undefined && (
@@ -271,12 +345,40 @@ export const SitesManager: React.FC<SitesManagerProps> = ({
   onDeleteSite,
   onBack,
   onGoToWizard,
-  onAIEditor
+  onAIEditor,
+  onSitePublished,
+  hostingSlots,
+  hostingSlotsUsed = 0
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [filterStatus, setFilterStatus] = useState<'all' | 'published' | 'draft'>('all');
   const [sortBy, setSortBy] = useState<'name' | 'date' | 'views'>('date');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [websites, setWebsites] = useState<PublishedWebsite[]>([]);
+  const [promotingId, setPromotingId] = useState<string | null>(null);
+  const [publishingId, setPublishingId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [historySite, setHistorySite] = useState<SiteCard | null>(null);
+
+  const loadWebsites = () =>
+    getUserWebsites()
+      .then(setWebsites)
+      .catch(error => console.error('Failed to load hosted websites:', error));
+
+  useEffect(() => {
+    if (isPublishingAvailable()) loadWebsites();
+  }, []);
+
+  const isSlotLimitReached = hostingSlots !== undefined && hostingSlotsUsed >= hostingSlots;
+
+  // Websites come back newest first, so the first one per lead is its current site
+  const websitesByLead = useMemo(() => {
+    const byLead = new Map<string, PublishedWebsite>();
+    websites.forEach(website => {
+      if (website.leadId && !byLead.has(website.leadId)) byLead.set(website.leadId, website);
+    });
+    return byLead;
+  }, [websites]);
 
   // Process customers into site cards
   const siteCards: SiteCard[] = useMemo(() => {
@@ -289,10 +391,11 @@ export const SitesManager: React.FC<SitesManagerProps> = ({
         status: hasWebsite ? 'published' : hasConcept ? 'draft' : 'none',
         lastEdited: customer.addedAt,
         thumbnail: customer.websiteConceptImage,
-        views: hasWebsite ? Math.floor(Math.random() * 1000) + 100 : undefined // Mock data
+        views: hasWebsite ? Math.floor(Math.random() * 1000) + 100 : undefined, // Mock data
+        website: websitesByLead.get(customer.id)
       };
     });
-  }, [customers]);
+  }, [customers, websitesByLead]);
 
   // Calculate stats
   const stats: SiteStats = useMemo(() => ({
@@ -339,9 +442,60 @@ export const SitesManager: React.FC<SitesManagerProps> = ({
   }, [siteCards, searchQuery, filterStatus, sortBy]);
 
   // Handle site actions
-  const handlePublish = (customer: Lead) => {
-    // Simulate publishing
-    alert(`Publishing site for ${customer.businessName}...`);
+  const handlePublish = async (customer: Lead) => {
+    // Website code only loads with the customer's details; the editor has it
+    if (!customer.websiteCode) {
+      onEditSite(customer);
+      return;
+    }
+
+    setPublishingId(customer.id);
+    setActionError(null);
+    try {
+      const result = await publishWebsite(customer.websiteCode, customer.businessName, customer.id);
+      await loadWebsites();
+      onSitePublished?.(customer, result.firebaseUrl);
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Failed to publish website');
+    } finally {
+      setPublishingId(null);
+    }
+  };
+
+  const handlePromote = async (site: SiteCard) => {
+    if (!site.website) return;
+
+    setPromotingId(site.website.id);
+    setActionError(null);
+    try {
+      const result = await promoteWebsite(site.website.id);
+      setWebsites(prev => prev.map(website =>
+        website.id === result.websiteId
+          ? { ...website, hostingMode: result.hostingMode, firebaseUrl: result.firebaseUrl, expireTime: undefined }
+          : website
+      ));
+      onSitePublished?.(site.customer, result.firebaseUrl);
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Failed to promote website');
+    } finally {
+      setPromotingId(null);
+    }
+  };
+
+  // The app's copy of the website code follows the restored release
+  const handleRolledBack = (site: SiteCard, result: RollbackWebsiteResult) => {
+    setWebsites(prev => prev.map(website =>
+      website.id === result.websiteId
+        ? {
+            ...website,
+            firebaseUrl: result.firebaseUrl,
+            expireTime: result.expireTime,
+            currentReleaseId: result.releaseId,
+            status: website.status === 'expired' ? 'active' : website.status
+          }
+        : website
+    ));
+    onSitePublished?.({ ...site.customer, websiteCode: result.htmlContent }, result.firebaseUrl);
   };
 
   return (
@@ -502,6 +656,28 @@ export const SitesManager: React.FC<SitesManagerProps> = ({
           </div>
         </div>
 
+        {hostingSlots !== undefined && (
+          <div className="flex items-center justify-between mb-6 text-sm">
+            <span className="text-gray-500">
+              Hosting slots: <span className="font-semibold text-gray-800">{hostingSlotsUsed} of {hostingSlots}</span> used
+            </span>
+            {isSlotLimitReached && (
+              <span className="text-amber-700 font-medium">
+                Slot limit reached. Delete a site or upgrade your plan to publish more.
+              </span>
+            )}
+          </div>
+        )}
+
+        {actionError && (
+          <div className="bg-red-50 border border-red-200 text-red-700 rounded-xl px-4 py-3 mb-6 flex items-center justify-between">
+            <span className="text-sm">{actionError}</span>
+            <button onClick={() => setActionError(null)} className="text-red-400 hover:text-red-600 text-sm">
+              Dismiss
+            </button>
+          </div>
+        )}
+
         {/* Sites Grid/List */}
         {filteredSites.length === 0 ? (
           siteCards.filter(s => s.status !== 'none').length === 0 ? (
@@ -527,7 +703,11 @@ export const SitesManager: React.FC<SitesManagerProps> = ({
                 onPreview={() => onPreviewSite(site.customer)}
                 onDelete={() => onDeleteSite(site.customer)}
                 onPublish={() => handlePublish(site.customer)}
+                isPublishing={publishingId === site.customer.id}
+                onPromote={() => handlePromote(site)}
+                isPromoting={!!site.website && promotingId === site.website.id}
                 onAIEdit={onAIEditor ? () => onAIEditor(site.customer) : undefined}
+                onShowHistory={() => setHistorySite(site)}
               />
             ))}
           </div>
@@ -567,6 +747,11 @@ export const SitesManager: React.FC<SitesManagerProps> = ({
                     </td>
                     <td className="px-6 py-4">
                       <StatusBadge status={site.status} />
+                      {site.website && (
+                        <div className="mt-1">
+                          <HostingLabel website={site.website} />
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 text-gray-600">
                       {site.views?.toLocaleString() || '-'}
@@ -576,6 +761,29 @@ export const SitesManager: React.FC<SitesManagerProps> = ({
                     </td>
                     <td className="px-6 py-4">
                       <div className="flex items-center justify-end gap-2">
+                        {canPromote(site) && (
+                          <button
+                            onClick={() => handlePromote(site)}
+                            disabled={promotingId === site.website!.id}
+                            className="p-2 hover:bg-green-50 rounded-lg transition-colors disabled:opacity-50"
+                            title="Promote to Production"
+                          >
+                            <svg className="w-5 h-5 text-green-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 10l7-7m0 0l7 7m-7-7v18" />
+                            </svg>
+                          </button>
+                        )}
+                        {site.website && (
+                          <button
+                            onClick={() => setHistorySite(site)}
+                            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                            title="Version History"
+                          >
+                            <svg className="w-5 h-5 text-gray-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                            </svg>
+                          </button>
+                        )}
                         {onAIEditor && (
                           <button
                             onClick={() => onAIEditor(site.customer)}
@@ -633,6 +841,15 @@ export const SitesManager: React.FC<SitesManagerProps> = ({
           </div>
         )}
       </div>
+
+      {historySite?.website && (
+        <WebsiteReleasesDialog
+          website={historySite.website}
+          siteName={historySite.customer.businessName}
+          onRolledBack={result => handleRolledBack(historySite, result)}
+          onClose={() => setHistorySite(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,108 @@
+import React from 'react';
+import { CustomerFieldConflict } from '../types';
+
+interface Props {
+  conflicts: CustomerFieldConflict[];
+  onResolve: (conflictId: string, keep: 'local' | 'remote') => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  businessName: 'Business name',
+  customFields: 'Custom fields',
+  pipelineStageId: 'Pipeline stage',
+  websiteCode: 'Website code',
+  websiteConceptImage: 'Concept image',
+  websiteUrl: 'Website URL',
+  existingWebsiteUrl: 'Existing website',
+};
+
+// Falls back to the field name split into words, e.g. "dealValue" -> "Deal value"
+const getFieldLabel = (field: string) =>
+  FIELD_LABELS[field] || (field.charAt(0).toUpperCase() + field.slice(1).replace(/([A-Z])/g, ' $1').toLowerCase());
+
+const MAX_PREVIEW_LENGTH = 300;
+
+const ConflictValue: React.FC<{ value: unknown }> = ({ value }) => {
+  if (value === undefined || value === null || value === '') {
+    return <span className="italic text-gray-400">Empty</span>;
+  }
+  if (typeof value === 'string' && value.startsWith('data:image/')) {
+    return <img src={value} alt="" className="max-h-32 rounded-lg border border-gray-200" />;
+  }
+
+  const text = typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+    ? String(value)
+    : Array.isArray(value) && value.every(item => typeof item === 'string')
+      ? value.join(', ')
+      : JSON.stringify(value, null, 2);
+
+  return (
+    <span className="whitespace-pre-wrap break-words">
+      {text.length > MAX_PREVIEW_LENGTH ? `${text.slice(0, MAX_PREVIEW_LENGTH)}…` : text}
+    </span>
+  );
+};
+
+const formatTime = (timestamp?: number) =>
+  timestamp ? new Date(timestamp).toLocaleString() : 'Unknown time';
+
+export const SyncConflictDialog: React.FC<Props> = ({ conflicts, onResolve, onClose }) => {
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col shadow-2xl">
+        <div className="p-6 border-b border-gray-100">
+          <h2 className="text-2xl font-bold text-[#4A4A4A] font-serif">Resolve sync conflicts</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            {conflicts.length === 1 ? 'A field was' : `${conflicts.length} fields were`} changed
+            on this device and on another one before this device synced. Choose which value to keep.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {conflicts.map(conflict => (
+            <div key={conflict.id} className="border border-gray-200 rounded-xl p-4">
+              <h3 className="font-semibold text-[#4A4A4A] mb-3">
+                {conflict.businessName} · {getFieldLabel(conflict.field)}
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className="bg-[#F9F6F0] rounded-lg p-3 flex flex-col">
+                  <p className="text-xs font-bold uppercase text-gray-500 mb-1">This device</p>
+                  <p className="text-xs text-gray-400 mb-2">{formatTime(conflict.localUpdatedAt)}</p>
+                  <div className="text-sm text-gray-700 flex-1 mb-3">
+                    <ConflictValue value={conflict.localValue} />
+                  </div>
+                  <button
+                    onClick={() => onResolve(conflict.id, 'local')}
+                    className="w-full bg-[#4A4A4A] text-white py-2 rounded-lg text-sm font-semibold hover:bg-[#333] transition-colors"
+                  >
+                    Keep this version
+                  </button>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-3 flex flex-col">
+                  <p className="text-xs font-bold uppercase text-gray-500 mb-1">Other device</p>
+                  <p className="text-xs text-gray-400 mb-2">{formatTime(conflict.remoteUpdatedAt)}</p>
+                  <div className="text-sm text-gray-700 flex-1 mb-3">
+                    <ConflictValue value={conflict.remoteValue} />
+                  </div>
+                  <button
+                    onClick={() => onResolve(conflict.id, 'remote')}
+                    className="w-full border border-[#4A4A4A] text-[#4A4A4A] py-2 rounded-lg text-sm font-semibold hover:bg-gray-100 transition-colors"
+                  >
+                    Keep this version
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 flex justify-end">
+          <button onClick={onClose} className="text-gray-400 py-2 px-4 text-sm hover:text-gray-600">
+            Decide later
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from 'react';
+import { Lead } from '../types';
+import { CustomerTask, TaskBucket, UPCOMING_TASK_DAYS, collectTasks, formatDueDate, setTaskCompleted, toDateKey } from '../lib/leadTasks';
+
+interface Props {
+  customers: Lead[];
+  onUpdateCustomer: (lead: Lead) => void;
+  onOpenCustomer: (lead: Lead) => void;
+}
+
+const SECTIONS: { bucket: TaskBucket; title: string; className: string }[] = [
+  { bucket: 'overdue', title: 'Overdue', className: 'text-red-600' },
+  { bucket: 'today', title: 'Today', className: 'text-orange-600' },
+  { bucket: 'upcoming', title: `Next ${UPCOMING_TASK_DAYS} Days`, className: 'text-gray-700' },
+];
+
+// Assignee filter values besides specific emails
+const EVERYONE = '';
+const UNASSIGNED = '__unassigned__';
+
+export const TodayTasks: React.FC<Props> = ({ customers, onUpdateCustomer, onOpenCustomer }) => {
+  const [assigneeFilter, setAssigneeFilter] = useState(EVERYONE);
+  const today = toDateKey();
+
+  const allTasks = useMemo(() => collectTasks(customers, today), [customers, today]);
+
+  const assignees = useMemo(
+    () => [...new Set(allTasks.map(item => item.task.assignee).filter((a): a is string => !!a))].sort(),
+    [allTasks]
+  );
+
+  const visibleTasks = allTasks.filter(item => {
+    if (assigneeFilter === EVERYONE) return true;
+    if (assigneeFilter === UNASSIGNED) return !item.task.assignee;
+    return item.task.assignee === assigneeFilter;
+  });
+
+  const completedToday = visibleTasks.filter(item =>
+    item.task.completedAt && toDateKey(new Date(item.task.completedAt)) === today
+  ).length;
+
+  const handleToggle = ({ lead, task }: CustomerTask) => {
+    // The lead in the list may be stale if another task on it was just toggled
+    const current = customers.find(c => c.id === lead.id) || lead;
+    onUpdateCustomer(setTaskCompleted(current, task.id, !task.completedAt));
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="text-center space-y-2">
+        <h1 className="text-3xl font-bold text-gray-800 font-serif">Today</h1>
+        <p className="text-gray-500">Follow-ups due across all your customers.</p>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-gray-500">
+          {completedToday > 0 ? `${completedToday} task${completedToday === 1 ? '' : 's'} done today` : 'Nothing completed yet today'}
+        </p>
+        {assignees.length > 0 && (
+          <select
+            value={assigneeFilter}
+            onChange={(e) => setAssigneeFilter(e.target.value)}
+            className="px-3 py-2 bg-white border border-gray-200 rounded-xl text-sm"
+          >
+            <option value={EVERYONE}>Everyone</option>
+            <option value={UNASSIGNED}>Unassigned</option>
+            {assignees.map(assignee => (
+              <option key={assignee} value={assignee}>{assignee}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {SECTIONS.every(section => !visibleTasks.some(item => item.bucket === section.bucket)) ? (
+        <div className="bg-white p-10 rounded-2xl shadow-sm border border-gray-100 text-center space-y-2">
+          <p className="text-gray-500">You're all caught up.</p>
+          <p className="text-sm text-gray-400">Add tasks to a customer in the Client List to plan your follow-ups.</p>
+        </div>
+      ) : SECTIONS.map(section => {
+        const tasks = visibleTasks.filter(item => item.bucket === section.bucket);
+        if (tasks.length === 0) return null;
+        return (
+          <div key={section.bucket} className="space-y-3">
+            <h2 className={`text-lg font-bold ${section.className}`}>{section.title} ({tasks.length})</h2>
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100 divide-y divide-gray-100">
+              {tasks.map(item => (
+                <div key={`${item.lead.id}-${item.task.id}`} className="p-4 flex items-start gap-4">
+                  <input
+                    type="checkbox"
+                    checked={!!item.task.completedAt}
+                    onChange={() => handleToggle(item)}
+                    className="mt-1 w-4 h-4 accent-amber-500"
+                    title="Mark as done"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-800">{item.task.title}</p>
+                    <p className="text-xs text-gray-500">
+                      <span className={section.bucket === 'upcoming' ? '' : `font-bold ${section.className}`}>
+                        {formatDueDate(item.task.dueDate, today)}
+                      </span>
+                      {item.task.assignee && ` · ${item.task.assignee}`}
+                      {item.task.reminderAt && ` · 🔔 ${new Date(item.task.reminderAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}`}
+                    </p>
+                    {item.task.notes && <p className="text-sm text-gray-500 mt-1 line-clamp-2">{item.task.notes}</p>}
+                  </div>
+                  <button
+                    onClick={() => onOpenCustomer(item.lead)}
+                    className="text-sm text-purple-600 hover:text-purple-800 font-medium whitespace-nowrap"
+                  >
+                    {item.lead.businessName} →
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
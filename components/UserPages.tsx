@@ -1,4 +1,6 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
+import { isFirebaseConfigured } from '../lib/firebase';
+import { useEmailAccount } from '../hooks/useEmailAccount';
 
 const PageContainer: React.FC<{ title: string; subtitle: string; children: React.ReactNode }> = ({ title, subtitle, children }) => (
     <div className="max-w-4xl mx-auto animate-fadeIn">
@@ -124,65 +126,248 @@ export const UserPassword = () => (
     </PageContainer>
 );
 
-export const EmailConfig = () => (
-    <PageContainer title="Email Configuration" subtitle="How pitch emails work in the app.">
-        <div className="space-y-6 max-w-2xl">
-            <div className="bg-gradient-to-br from-[#D4AF37]/10 to-[#D4AF37]/5 p-6 rounded-2xl border border-[#D4AF37]/20">
-                <div className="flex items-start gap-4">
-                    <div className="w-12 h-12 bg-[#D4AF37]/20 rounded-xl flex items-center justify-center flex-shrink-0">
-                        <svg className="w-6 h-6 text-[#D4AF37]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
-                        </svg>
+const inputClass = "w-full px-4 py-2 rounded-xl border border-[#EFEBE4] focus:ring-2 focus:ring-[#D4AF37] outline-none bg-white text-sm";
+
+const emptyEmailForm = {
+    fromName: '',
+    fromEmail: '',
+    smtpHost: '',
+    smtpPort: 587,
+    smtpSecure: false,
+    smtpUsername: '',
+    smtpPassword: '',
+    imapEnabled: false,
+    imapHost: '',
+    imapPort: 993,
+    imapSecure: true,
+    imapUsername: '',
+    imapPassword: ''
+};
+
+export const EmailConfig = () => {
+    const { account, loading, error, saveAccount, disconnect } = useEmailAccount();
+    const [form, setForm] = useState(emptyEmailForm);
+    const [saving, setSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+
+    // Fill the form from the connected account (passwords are never returned)
+    useEffect(() => {
+        if (!account) {
+            setForm(emptyEmailForm);
+            return;
+        }
+        setForm({
+            ...emptyEmailForm,
+            fromName: account.fromName,
+            fromEmail: account.fromEmail,
+            smtpHost: account.smtp.host,
+            smtpPort: account.smtp.port,
+            smtpSecure: account.smtp.secure,
+            smtpUsername: account.smtp.username,
+            imapEnabled: !!account.imap?.enabled,
+            imapHost: account.imap?.host || '',
+            imapPort: account.imap?.port || 993,
+            imapSecure: account.imap?.secure ?? true,
+            imapUsername: account.imap?.username || ''
+        });
+    }, [account]);
+
+    const update = (changes: Partial<typeof emptyEmailForm>) => {
+        setForm(prev => ({ ...prev, ...changes }));
+        setSaved(false);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        try {
+            await saveAccount({
+                fromName: form.fromName,
+                fromEmail: form.fromEmail,
+                smtp: {
+                    host: form.smtpHost,
+                    port: form.smtpPort,
+                    secure: form.smtpSecure,
+                    username: form.smtpUsername,
+                    password: form.smtpPassword || undefined
+                },
+                imap: {
+                    enabled: form.imapEnabled,
+                    host: form.imapHost || form.smtpHost.replace(/^smtp\./, 'imap.'),
+                    port: form.imapPort,
+                    secure: form.imapSecure,
+                    username: form.imapUsername || form.smtpUsername,
+                    password: form.imapPassword || undefined
+                }
+            });
+            setSaved(true);
+        } catch {
+            // Error is surfaced by the hook
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDisconnect = async () => {
+        if (!confirm('Disconnect this email account? Emails will open in your mail app again.')) return;
+        try {
+            await disconnect();
+        } catch {
+            // Error is surfaced by the hook
+        }
+    };
+
+    if (!isFirebaseConfigured()) {
+        return (
+            <PageContainer title="Email Configuration" subtitle="How pitch emails work in the app.">
+                <div className="bg-gradient-to-br from-[#D4AF37]/10 to-[#D4AF37]/5 p-6 rounded-2xl border border-[#D4AF37]/20 max-w-2xl">
+                    <h3 className="font-bold text-[#4A4A4A] text-lg mb-2" style={{ fontFamily: 'Playfair Display, serif' }}>
+                        Using Your Default Email App
+                    </h3>
+                    <p className="text-gray-600 text-sm leading-relaxed">
+                        In demo mode, "Send" opens your default email client (Gmail, Outlook, Apple Mail, etc.)
+                        with the pitch or invoice already filled in. Sign in to connect your own mail account.
+                    </p>
+                </div>
+            </PageContainer>
+        );
+    }
+
+    return (
+        <PageContainer title="Email Configuration" subtitle="Send pitches and invoices from your own email account.">
+            <form onSubmit={handleSave} className="space-y-6 max-w-2xl">
+                <div className={`p-4 rounded-xl border text-sm ${account ? 'bg-green-50 border-green-100 text-green-800' : 'bg-[#F9F6F0] border-[#EFEBE4] text-gray-600'}`}>
+                    {loading ? 'Loading email settings...' : account
+                        ? <>Connected as <strong>{account.fromEmail}</strong>. Emails are sent from your account and logged on each customer.</>
+                        : 'No account connected. Emails open in your default mail app until you connect one below.'}
+                </div>
+
+                {error && (
+                    <div className="p-4 rounded-xl bg-red-50 border border-red-100 text-sm text-red-700">{error}</div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-bold text-gray-700 mb-1">Sender Name</label>
+                        <input className={inputClass} value={form.fromName} onChange={(e) => update({ fromName: e.target.value })} placeholder="Jane from Acme Studio" />
                     </div>
                     <div>
-                        <h3 className="font-bold text-[#4A4A4A] text-lg mb-2" style={{ fontFamily: 'Playfair Display, serif' }}>
-                            Using Your Default Email App
-                        </h3>
-                        <p className="text-gray-600 text-sm leading-relaxed">
-                            When you click "Send Pitch" for a lead, the app opens your default email client
-                            (Gmail, Outlook, Apple Mail, etc.) with the AI-generated pitch already filled in.
-                        </p>
+                        <label className="block text-sm font-bold text-gray-700 mb-1">Sender Email</label>
+                        <input type="email" required className={inputClass} value={form.fromEmail} onChange={(e) => update({ fromEmail: e.target.value })} placeholder="jane@acme.com" />
                     </div>
                 </div>
-            </div>
 
-            <div className="bg-white p-6 rounded-2xl border border-[#EFEBE4]">
-                <h4 className="font-bold text-[#4A4A4A] mb-4">How It Works</h4>
-                <div className="space-y-4">
-                    <div className="flex items-start gap-3">
-                        <div className="w-8 h-8 bg-[#D4AF37]/10 rounded-full flex items-center justify-center text-[#D4AF37] font-bold text-sm flex-shrink-0">1</div>
+                {/* Outgoing mail */}
+                <div className="bg-white p-6 rounded-2xl border border-[#EFEBE4] space-y-4">
+                    <h4 className="font-bold text-[#4A4A4A]">Outgoing Mail (SMTP)</h4>
+                    <div className="grid grid-cols-3 gap-4">
+                        <div className="col-span-2">
+                            <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Server</label>
+                            <input required className={inputClass} value={form.smtpHost} onChange={(e) => update({ smtpHost: e.target.value })} placeholder="smtp.gmail.com" />
+                        </div>
                         <div>
-                            <p className="font-medium text-[#4A4A4A]">Generate AI Pitch</p>
-                            <p className="text-sm text-gray-500">Click "Generate Pitch" on any lead to create a personalized email</p>
+                            <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Port</label>
+                            <input
+                                type="number"
+                                required
+                                className={inputClass}
+                                value={form.smtpPort}
+                                onChange={(e) => {
+                                    const port = parseInt(e.target.value) || 0;
+                                    update({ smtpPort: port, smtpSecure: port === 465 });
+                                }}
+                            />
                         </div>
                     </div>
-                    <div className="flex items-start gap-3">
-                        <div className="w-8 h-8 bg-[#D4AF37]/10 rounded-full flex items-center justify-center text-[#D4AF37] font-bold text-sm flex-shrink-0">2</div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <div>
-                            <p className="font-medium text-[#4A4A4A]">Click Send</p>
-                            <p className="text-sm text-gray-500">Your default mail app opens with subject and body pre-filled</p>
+                            <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Username</label>
+                            <input required className={inputClass} value={form.smtpUsername} onChange={(e) => update({ smtpUsername: e.target.value })} autoComplete="off" />
                         </div>
-                    </div>
-                    <div className="flex items-start gap-3">
-                        <div className="w-8 h-8 bg-[#D4AF37]/10 rounded-full flex items-center justify-center text-[#D4AF37] font-bold text-sm flex-shrink-0">3</div>
                         <div>
-                            <p className="font-medium text-[#4A4A4A]">Review & Send</p>
-                            <p className="text-sm text-gray-500">Review the email, make any edits, and hit send from your email app</p>
+                            <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Password</label>
+                            <input
+                                type="password"
+                                required={!account}
+                                className={inputClass}
+                                value={form.smtpPassword}
+                                onChange={(e) => update({ smtpPassword: e.target.value })}
+                                placeholder={account ? 'Leave blank to keep current' : 'App password recommended'}
+                                autoComplete="new-password"
+                            />
                         </div>
                     </div>
+                    <label className="flex items-center gap-2 text-sm text-gray-600">
+                        <input type="checkbox" checked={form.smtpSecure} onChange={(e) => update({ smtpSecure: e.target.checked })} className="accent-[#D4AF37]" />
+                        Use SSL/TLS (usually port 465; port 587 upgrades with STARTTLS)
+                    </label>
                 </div>
-            </div>
 
-            <div className="bg-green-50 p-4 rounded-xl border border-green-100 flex items-start gap-3">
-                <div className="text-green-500 text-xl">✓</div>
-                <div className="text-sm text-green-800">
-                    <strong>Benefits:</strong> Emails come from your actual email address, appear in your Sent folder,
-                    and replies come directly to you. No complex setup required!
+                {/* Incoming mail */}
+                <div className="bg-white p-6 rounded-2xl border border-[#EFEBE4] space-y-4">
+                    <label className="flex items-center justify-between gap-4">
+                        <div>
+                            <h4 className="font-bold text-[#4A4A4A]">Import Replies (IMAP)</h4>
+                            <p className="text-xs text-gray-500">Checks your inbox every 15 minutes and adds client replies to the matching customer.</p>
+                        </div>
+                        <input type="checkbox" checked={form.imapEnabled} onChange={(e) => update({ imapEnabled: e.target.checked })} className="w-5 h-5 accent-[#D4AF37]" />
+                    </label>
+                    {form.imapEnabled && (
+                        <>
+                            <div className="grid grid-cols-3 gap-4">
+                                <div className="col-span-2">
+                                    <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Server</label>
+                                    <input className={inputClass} value={form.imapHost} onChange={(e) => update({ imapHost: e.target.value })} placeholder={form.smtpHost.replace(/^smtp\./, 'imap.') || 'imap.gmail.com'} />
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Port</label>
+                                    <input type="number" className={inputClass} value={form.imapPort} onChange={(e) => update({ imapPort: parseInt(e.target.value) || 0 })} />
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Username</label>
+                                    <input className={inputClass} value={form.imapUsername} onChange={(e) => update({ imapUsername: e.target.value })} placeholder="Same as SMTP" autoComplete="off" />
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Password</label>
+                                    <input type="password" className={inputClass} value={form.imapPassword} onChange={(e) => update({ imapPassword: e.target.value })} placeholder="Same as SMTP" autoComplete="new-password" />
+                                </div>
+                            </div>
+                            {account?.imap?.lastSyncAt && (
+                                <p className="text-xs text-gray-500">Last checked {new Date(account.imap.lastSyncAt).toLocaleString()}</p>
+                            )}
+                            {account?.imap?.lastError && (
+                                <p className="text-xs text-red-600">Last sync failed: {account.imap.lastError}</p>
+                            )}
+                        </>
+                    )}
                 </div>
-            </div>
-        </div>
-    </PageContainer>
-);
+
+                <div className="flex items-center gap-3">
+                    <button
+                        type="submit"
+                        disabled={saving || loading}
+                        className="bg-gradient-to-r from-[#D4AF37] to-[#B8962E] text-white px-6 py-3 rounded-xl font-bold hover:shadow-md transition-all disabled:opacity-50"
+                    >
+                        {saving ? 'Testing connection...' : account ? 'Save Changes' : 'Connect Account'}
+                    </button>
+                    {account && (
+                        <button type="button" onClick={handleDisconnect} className="px-4 py-3 rounded-xl font-bold text-red-600 hover:bg-red-50">
+                            Disconnect
+                        </button>
+                    )}
+                    {saved && <span className="text-sm text-green-600">✓ Connected and saved</span>}
+                </div>
+
+                <p className="text-xs text-gray-400">
+                    Passwords are encrypted and only used by our servers to send and receive mail on your behalf.
+                    For Gmail and Outlook, create an app password instead of using your main password.
+                </p>
+            </form>
+        </PageContainer>
+    );
+};
 
 interface HelpSupportProps {
     onNavigateToKnowledgeBase?: () => void;
@@ -1,21 +1,18 @@
 import React, { useState } from 'react';
-import { generateMarketingVideo, promptForKeySelection } from '../services/geminiService';
-import { ApiKeyModal } from './ApiKeyModal';
+import { generateMarketingVideo } from '../services/geminiService';
 import { Lead, HistoryItem } from '../types';
 
 interface Props {
-  onUseCredit: () => void;
   selectedLead?: Lead | null;
   leads: Lead[];
   onSelectLead: (lead: Lead) => void;
   onUpdateLead: (lead: Lead) => void;
 }
 
-export const VideoStudio: React.FC<Props> = ({ onUseCredit, selectedLead, leads, onSelectLead, onUpdateLead }) => {
+export const VideoStudio: React.FC<Props> = ({ selectedLead, leads, onSelectLead, onUpdateLead }) => {
   const [prompt, setPrompt] = useState('');
   const [loading, setLoading] = useState(false);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const [showKeyModal, setShowKeyModal] = useState(false);
 
   // Extract brand info if available
   const brandInfo = selectedLead?.brandGuidelines 
@@ -27,7 +24,6 @@ export const VideoStudio: React.FC<Props> = ({ onUseCredit, selectedLead, leads,
     setLoading(true);
     setVideoUrl(null);
     try {
-        onUseCredit();
         const url = await generateMarketingVideo(prompt, brandInfo);
         setVideoUrl(url);
 
@@ -49,55 +45,15 @@ export const VideoStudio: React.FC<Props> = ({ onUseCredit, selectedLead, leads,
             });
         }
     } catch (err: any) {
-        if (err.message.includes("API_KEY_REQUIRED")) {
-            setShowKeyModal(true);
-        } else {
-            console.error(err);
-            alert("Video generation failed. Please try again.");
-        }
+        console.error(err);
+        alert(err.message || "Video generation failed. Please try again.");
     } finally {
         setLoading(false);
     }
   };
 
-  const handleKeyConfirm = async () => {
-      setShowKeyModal(false);
-      await promptForKeySelection();
-      // Retry
-      setLoading(true);
-      try {
-          // Pass '16:9' (default) and true to skip key check
-          const url = await generateMarketingVideo(prompt, brandInfo, '16:9', true);
-          setVideoUrl(url);
-          
-          if (selectedLead) {
-            const historyItem: HistoryItem = {
-                id: `hist-${Date.now()}`,
-                type: 'VIDEO',
-                timestamp: Date.now(),
-                content: url,
-                metadata: {
-                    prompt: prompt,
-                    platform: 'Commercial',
-                }
-            };
-
-            onUpdateLead({
-                ...selectedLead,
-                history: [...(selectedLead.history || []), historyItem]
-            });
-        }
-      } catch (e) {
-          console.error(e);
-          alert("Failed after key selection.");
-      } finally {
-          setLoading(false);
-      }
-  }
-
   return (
     <div className="space-y-6">
-      {showKeyModal && <ApiKeyModal onClose={() => setShowKeyModal(false)} onConfirm={handleKeyConfirm} />}
       
       <div className="text-center space-y-2">
          <h1 className="text-3xl font-bold text-gray-800 font-serif">Video Commercial Studio</h1>
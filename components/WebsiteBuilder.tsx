@@ -1,23 +1,21 @@
 import React, { useState, useEffect } from 'react';
-import { generateWebsiteConceptImage, generateWebsiteStructure, refineWebsiteCode, promptForKeySelection } from '../services/geminiService';
+import { generateWebsiteConceptImage, generateWebsiteStructure, refineWebsiteCode } from '../services/geminiService';
 import { ImageSize, AspectRatio, Lead, HistoryItem, DesignSpecification, VerificationResult } from '../types';
 import { extractDesignSpecFromImage, createDefaultDesignSpec } from '../services/designExtractionService';
 import { verifyWebsiteAgainstSpec } from '../services/verificationService';
 import { publishWebsite, isPublishingAvailable } from '../services/publishingService';
-import { ApiKeyModal } from './ApiKeyModal';
 import { DesignSpecReview } from './DesignSpecReview';
 import { DesignVerificationModal } from './DesignVerificationModal';
 import { CustomDomainSetup } from './CustomDomainSetup';
 
 interface Props {
-  onUseCredit: () => void;
   selectedLead?: Lead | null;
   onUpdateLead?: (lead: Lead) => void;
 }
 
 type Tab = 'concept' | 'builder' | 'deploy';
 
-export const WebsiteBuilder: React.FC<Props> = ({ onUseCredit, selectedLead, onUpdateLead }) => {
+export const WebsiteBuilder: React.FC<Props> = ({ selectedLead, onUpdateLead }) => {
   const [activeTab, setActiveTab] = useState<Tab>('concept');
   const [prompt, setPrompt] = useState('');
   const [loading, setLoading] = useState(false);
@@ -25,7 +23,6 @@ export const WebsiteBuilder: React.FC<Props> = ({ onUseCredit, selectedLead, onU
   const [generatedCode, setGeneratedCode] = useState<string | null>(null);
   const [refinementPrompt, setRefinementPrompt] = useState('');
   const [deployedUrl, setDeployedUrl] = useState<string | null>(selectedLead?.websiteUrl || null);
-  const [showKeyModal, setShowKeyModal] = useState(false);
 
   // Concept options
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>(AspectRatio.LANDSCAPE);
@@ -75,7 +72,6 @@ export const WebsiteBuilder: React.FC<Props> = ({ onUseCredit, selectedLead, onU
   const handleGenerateConcept = async () => {
     setLoading(true);
     try {
-      onUseCredit();
       // Try Image Gen
       try {
           const img = await generateWebsiteConceptImage(prompt, aspectRatio, size);
@@ -133,9 +129,7 @@ export const WebsiteBuilder: React.FC<Props> = ({ onUseCredit, selectedLead, onU
               setIsExtractingSpecs(false);
           }
       } catch (err: any) {
-          if (err.message.includes("API_KEY_REQUIRED")) {
-              setShowKeyModal(true);
-          }
+          alert(err.message || 'Failed to generate concept. Please try again.');
       }
     } catch (e) {
       console.error(e);
@@ -144,35 +138,6 @@ export const WebsiteBuilder: React.FC<Props> = ({ onUseCredit, selectedLead, onU
     }
   };
 
-  const handleKeySelected = async () => {
-      setShowKeyModal(false);
-      await promptForKeySelection();
-      // Retry
-      try {
-        setLoading(true);
-        const img = await generateWebsiteConceptImage(prompt, aspectRatio, size, true);
-        setGeneratedImage(img);
-        
-        if (selectedLead && onUpdateLead) {
-             const historyItem: HistoryItem = {
-                  id: `hist-${Date.now()}`,
-                  type: 'WEBSITE_CONCEPT',
-                  timestamp: Date.now(),
-                  content: img,
-                  metadata: {
-                      prompt: prompt,
-                  }
-              };
-              onUpdateLead({
-                  ...selectedLead,
-                  history: [...(selectedLead.history || []), historyItem]
-              });
-        }
-      } finally {
-        setLoading(false);
-      }
-  }
-
   const handleStartBuilding = async () => {
       setActiveTab('builder');
       if (!generatedCode) {
@@ -565,7 +530,6 @@ export const WebsiteBuilder: React.FC<Props> = ({ onUseCredit, selectedLead, onU
 
   return (
     <div className="space-y-6">
-        {showKeyModal && <ApiKeyModal onClose={() => setShowKeyModal(false)} onConfirm={handleKeySelected} />}
 
         {/* Design Spec Review Modal */}
         {showDesignSpecReview && designSpec && (
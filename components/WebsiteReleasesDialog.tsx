@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { PublishedWebsite, RollbackWebsiteResult, WebsiteRelease } from '../types';
+import { getWebsiteReleases, rollbackWebsite } from '../services/publishingService';
+
+interface Props {
+  website: PublishedWebsite;
+  siteName: string;
+  onRolledBack: (result: RollbackWebsiteResult) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<WebsiteRelease['source'], string> = {
+  publish: 'Published',
+  update: 'Updated',
+  promote: 'Promoted to production',
+  rollback: 'Rolled back',
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+export const WebsiteReleasesDialog: React.FC<Props> = ({ website, siteName, onRolledBack, onClose }) => {
+  const [releases, setReleases] = useState<WebsiteRelease[]>([]);
+  const [currentReleaseId, setCurrentReleaseId] = useState<string | undefined>(website.currentReleaseId);
+  const [isLoading, setIsLoading] = useState(true);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReleases = () =>
+    getWebsiteReleases(website.id)
+      .then(result => {
+        setReleases(result.releases);
+        setCurrentReleaseId(result.currentReleaseId);
+      })
+      .catch(loadError => setError(loadError instanceof Error ? loadError.message : 'Failed to load history'))
+      .finally(() => setIsLoading(false));
+
+  useEffect(() => {
+    loadReleases();
+  }, [website.id]);
+
+  const isReadOnly = website.status === 'suspended';
+
+  const handleRollback = async (release: WebsiteRelease) => {
+    if (!confirm(`Make the version from ${formatTime(release.createdAt)} live again?`)) return;
+
+    setRollingBackId(release.id);
+    setError(null);
+    try {
+      const result = await rollbackWebsite(website.id, release.id);
+      onRolledBack(result);
+      await loadReleases();
+    } catch (rollbackError) {
+      setError(rollbackError instanceof Error ? rollbackError.message : 'Failed to roll back website');
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col shadow-2xl">
+        <div className="p-6 border-b border-gray-100">
+          <h2 className="text-2xl font-bold text-[#4A4A4A] font-serif">Version history</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Every publish of {siteName}. Rolling back makes an earlier version live again as it was released.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 rounded-xl px-4 py-3 text-sm">{error}</div>
+          )}
+
+          {isLoading ? (
+            <p className="text-sm text-gray-400 text-center py-8">Loading history...</p>
+          ) : releases.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-8">
+              No releases recorded yet. The next publish of this site will appear here.
+            </p>
+          ) : releases.map(release => {
+            const isLive = release.id === currentReleaseId;
+            const restored = releases.find(earlier => earlier.id === release.rolledBackFrom);
+
+            return (
+              <div
+                key={release.id}
+                className={`border rounded-xl p-4 flex items-start justify-between gap-4 ${isLive ? 'border-green-200 bg-green-50/50' : 'border-gray-200'}`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="font-semibold text-[#4A4A4A] text-sm">{SOURCE_LABELS[release.source]}</span>
+                    {isLive && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700">Live</span>
+                    )}
+                    {release.hostingMode === 'preview' && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-700">Draft</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-400 mb-2">
+                    {formatTime(release.createdAt)}
+                    {release.rolledBackFrom && ` · restored the version from ${restored ? formatTime(restored.createdAt) : 'an earlier release'}`}
+                  </p>
+                  <p className="text-sm text-gray-700">
+                    {release.summary || <span className="italic text-gray-400">No change summary</span>}
+                  </p>
+                </div>
+                {!isLive && (
+                  <button
+                    onClick={() => handleRollback(release)}
+                    disabled={!!rollingBackId || isReadOnly}
+                    title={isReadOnly ? 'Suspended sites are read-only' : undefined}
+                    className="flex-shrink-0 border border-[#4A4A4A] text-[#4A4A4A] py-1.5 px-3 rounded-lg text-sm font-semibold hover:bg-gray-100 transition-colors disabled:opacity-50"
+                  >
+                    {rollingBackId === release.id ? 'Rolling back...' : 'Roll back'}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 flex justify-end">
+          <button onClick={onClose} className="text-gray-400 py-2 px-4 text-sm hover:text-gray-600">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -7,7 +7,6 @@ import {
     generateCampaignStrategy,
     generateWebsiteStructure,
     generatePitchEmail,
-    promptForKeySelection,
     fixWebsiteIssues,
     fetchLogoFromGoogle,
     downloadImageAsBase64,
@@ -15,13 +14,14 @@ import {
 } from '../services/geminiService';
 import { extractDesignSpecFromImage, createDefaultDesignSpec } from '../services/designExtractionService';
 import { verifyWebsiteAgainstSpec } from '../services/verificationService';
-import { ApiKeyModal } from './ApiKeyModal';
+import { getLatestSiteAudit } from '../lib/siteAudit';
+import { describeLeadCustomData } from '../lib/customFields';
+import { useCustomFieldSettings } from '../hooks/useCustomFieldSettings';
 import { DesignSpecReview } from './DesignSpecReview';
 import { DesignVerificationModal } from './DesignVerificationModal';
 import WizardLoader from './WizardLoader';
 
 interface Props {
-    onUseCredit: (amount: number) => void;
     onSaveLead: (lead: Lead) => void;
     onUpdateLead: (lead: Lead) => void;
     existingLead?: Lead | null;
@@ -48,7 +48,7 @@ const STEPS = [
 // localStorage key for wizard progress
 const WIZARD_PROGRESS_KEY = 'renova8_wizard_progress';
 
-export const Wizard: React.FC<Props> = ({ onUseCredit, onSaveLead, onUpdateLead, existingLead }) => {
+export const Wizard: React.FC<Props> = ({ onSaveLead, onUpdateLead, existingLead }) => {
     // Load saved progress from localStorage
     const savedProgress = React.useMemo(() => {
         try {
@@ -63,8 +63,6 @@ export const Wizard: React.FC<Props> = ({ onUseCredit, onSaveLead, onUpdateLead,
     const [currentStep, setCurrentStep] = useState(savedProgress?.currentStep || 0);
     const [loading, setLoading] = useState(false);
     const [activeLead, setActiveLead] = useState<Lead | null>(existingLead || savedProgress?.activeLead || null);
-    const [showKeyModal, setShowKeyModal] = useState(false);
-    const [pendingAction, setPendingAction] = useState<(() => void) | null>(null);
 
     // Step 1 State: Search
     const [searchQuery, setSearchQuery] = useState(savedProgress?.searchQuery || '');
@@ -96,6 +94,7 @@ export const Wizard: React.FC<Props> = ({ onUseCredit, onSaveLead, onUpdateLead,
 
     // Error state for user feedback
     const [error, setError] = useState<string | null>(null);
+    const { settings: customFieldSettings } = useCustomFieldSettings();
 
     // Update active lead if prop changes (sync from external updates)
     useEffect(() => {
@@ -162,7 +161,6 @@ export const Wizard: React.FC<Props> = ({ onUseCredit, onSaveLead, onUpdateLead,
         e.preventDefault();
         setLoading(true);
         try {
-            onUseCredit(5);
             const response = await findLeadsWithMaps(searchQuery, location);
             const mapped = response.leads.map((l: any, idx: number) => ({
                 id: `lead-${Date.now()}-${idx}`,
@@ -240,7 +238,6 @@ export const Wizard: React.FC<Props> = ({ onUseCredit, onSaveLead, onUpdateLead,
         if (!activeLead) return;
         setLoading(true);
         try {
-            onUseCredit(2);
             // Pass existing website URL for more accurate brand analysis
             const branding = await generateBrandAnalysis(
                 activeLead.businessName,
@@ -327,15 +324,14 @@ export const Wizard: React.FC<Props> = ({ onUseCredit, onSaveLead, onUpdateLead,
     };
 
     // Fix/enhance logo using AI
-    const handleFixLogo = async (skipKeyCheck = false) => {
+    const handleFixLogo = async () => {
         if (!uploadedLogo || !activeLead) return;
 
         setIsFixingLogo(true);
         try {
             const enhancedLogo = await fixLogoWithGemini(
                 uploadedLogo,
-                activeLead.businessName,
-                skipKeyCheck
+                activeLead.businessName
             );
 
             setUploadedLogo(enhancedLogo);
@@ -363,28 +359,22 @@ export const Wizard: React.FC<Props> = ({ onUseCredit, onSaveLead, onUpdateLead,
             onUpdateLead(updatedLead);
         } catch (e: any) {
             console.error('Logo enhancement failed:', e);
-            if (e.message?.includes("API_KEY_REQUIRED")) {
-                setPendingAction(() => () => handleFixLogo(true));
-                setShowKeyModal(true);
-            } else {
-                alert('Failed to enhance logo. Please try uploading a different image.');
-            }
+            alert(e.message || 'Failed to enhance logo. Please try uploading a different image.');
         } finally {
             setIsFixingLogo(false);
         }
     };
 
     // Step 3: Visualize (Concept) - kept for backward compatibility but skipped in new flow
-    const handleVisualize = async (skipKeyCheck = false) => {
+    const handleVisualize = async () => {
         if (!activeLead) return;
         setLoading(true);
         setError(null);
         try {
-            onUseCredit(5);
             const brandColors = activeLead.brandGuidelines?.colors?.join(', ') || '';
             const prompt = `Modern website homepage for ${activeLead.businessName} (${activeLead.details}). Colors: ${brandColors}. Professional, inviting UI/UX.`;
 
-            const img = await generateWebsiteConceptImage(prompt, AspectRatio.LANDSCAPE, ImageSize.S_1K, skipKeyCheck);
+            const img = await generateWebsiteConceptImage(prompt, AspectRatio.LANDSCAPE, ImageSize.S_1K);
 
             if (!img) {
                 throw new Error('Failed to generate image. Please try again.');
@@ -438,12 +428,7 @@ export const Wizard: React.FC<Props> = ({ onUseCredit, onSaveLead, onUpdateLead,
             }
         } catch (e: any) {
             console.error('Error generating concept:', e);
-            if (e.message?.includes("API_KEY_REQUIRED")) {
-                setPendingAction(() => () => handleVisualize(true));
-                setShowKeyModal(true);
-            } else {
-                setError(e.message || 'Failed to generate concept. Please try again.');
-            }
+            setError(e.message || 'Failed to generate concept. Please try again.');
         } finally {
             setLoading(false);
         }
@@ -473,7 +458,6 @@ export const Wizard: React.FC<Props> = ({ onUseCredit, onSaveLead, onUpdateLead,
         if (!activeLead) return;
         setLoading(true);
         try {
-            onUseCredit(5);
             const strategy = await generateCampaignStrategy(
                 activeLead.businessName, 
                 strategyGoal, 
@@ -503,7 +487,6 @@ export const Wizard: React.FC<Props> = ({ onUseCredit, onSaveLead, onUpdateLead,
         setLoading(true);
         setError(null);
         try {
-            onUseCredit(10);
             const brandColors = activeLead.brandGuidelines?.colors?.join(', ') || '';
             const businessType = activeLead.details?.split('.')[0] || 'business';
 
@@ -732,7 +715,6 @@ Sections needed: Hero with call-to-action, About/Services, Features/Benefits, Te
 
         setLoading(true);
         try {
-            onUseCredit(2);
             // Log for debugging
             console.log("Generating email for:", activeLead.businessName, "URL:", activeLead.websiteUrl);
 
@@ -740,7 +722,9 @@ Sections needed: Hero with call-to-action, About/Services, Features/Benefits, Te
                 activeLead.businessName,
                 activeLead.websiteUrl,
                 activeLead.brandGuidelines?.tone || 'Friendly',
-                !!activeLead.websiteConceptImage
+                !!activeLead.websiteConceptImage,
+                getLatestSiteAudit(activeLead),
+                describeLeadCustomData(activeLead, customFieldSettings.fields)
             );
 
             if (!email || !email.subject) {
@@ -758,15 +742,6 @@ Sections needed: Hero with call-to-action, About/Services, Features/Benefits, Te
         }
     };
 
-    const handleKeyConfirm = async () => {
-        setShowKeyModal(false);
-        await promptForKeySelection();
-        if (pendingAction) {
-            pendingAction();
-            setPendingAction(null);
-        }
-    }
-
     // Start Page - shown before wizard begins
     if (!hasStarted) {
         return (
@@ -799,7 +774,6 @@ Sections needed: Hero with call-to-action, About/Services, Features/Benefits, Te
 
     return (
         <div className="max-w-5xl mx-auto pb-20">
-            {showKeyModal && <ApiKeyModal onClose={() => setShowKeyModal(false)} onConfirm={handleKeyConfirm} />}
 
             {/* Design Spec Review Modal */}
             {showDesignSpecReview && extractedDesignSpec && (
@@ -1109,7 +1083,7 @@ Sections needed: Hero with call-to-action, About/Services, Features/Benefits, Te
                                                                 <div className="flex items-center gap-3">
                                                                     {logoSource !== 'AI Enhanced' && (
                                                                         <button
-                                                                            onClick={() => handleFixLogo(false)}
+                                                                            onClick={() => handleFixLogo()}
                                                                             disabled={isFixingLogo}
                                                                             className="px-4 py-2 bg-purple-600 text-white text-sm rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors flex items-center gap-2"
                                                                         >
@@ -0,0 +1,48 @@
+/**
+ * Site Audit
+ *
+ * Produces a structured report on a prospect's existing website so pitches
+ * can cite concrete problems.
+ */
+
+import * as functions from "firebase-functions";
+import { auditWebsite as runSiteAudit } from "./lib/siteAudit";
+import { AuditWebsiteRequest, AuditWebsiteResponse } from "./types";
+
+/**
+ * Callable function: Audit a website's home page
+ *
+ * Request body:
+ * - url: string - The website to audit
+ *
+ * Returns:
+ * - report: SiteAuditReport - Issues found, sorted by severity. An
+ *   unreachable site produces a report rather than an error.
+ *
+ * @requires Authentication
+ */
+export const auditWebsite = functions
+  .runWith({ timeoutSeconds: 120 })
+  .https.onCall(async (data: AuditWebsiteRequest, context): Promise<AuditWebsiteResponse> => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "You must be logged in to audit websites."
+      );
+    }
+
+    const url = typeof data?.url === "string" ? data.url.trim() : "";
+    if (!url) {
+      throw new functions.https.HttpsError("invalid-argument", "A website URL is required.");
+    }
+
+    try {
+      return { report: await runSiteAudit(url) };
+    } catch (error) {
+      functions.logger.error(`Error auditing ${url} for user ${context.auth.uid}:`, error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to audit the website. Please try again."
+      );
+    }
+  });
@@ -0,0 +1,623 @@
+/**
+ * Client Email
+ *
+ * Sends pitches and invoices through the user's own SMTP account and, when
+ * IMAP is enabled, imports client replies as inbound communications on the
+ * matching lead. Replies are threaded by normalized subject, falling back to
+ * the sender's address, and stop the lead's follow-up sequence.
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { simpleParser } from "mailparser";
+import {
+  EMAIL_REPLY_LOOKBACK_DAYS,
+  MAX_EMAIL_ATTACHMENT_BYTES,
+  MAX_EMAIL_REPLIES_PER_SYNC,
+  MAX_EMAIL_REPLY_LENGTH,
+} from "./config";
+import { DAY_MS } from "./lib/clientInvoices";
+import {
+  createImapClient,
+  createSmtpTransport,
+  encryptSecret,
+  getEmailAccountRef,
+  normalizeEmailSubject,
+  sendAccountEmail,
+  stripQuotedReply,
+  toEmailAccountStatus,
+} from "./lib/emailAccount";
+import { stopFollowUpSequence } from "./lib/followUps";
+import { renderInvoicePdf } from "./lib/invoicePdf";
+import {
+  ensureLeadMigrated,
+  getLeadRecord,
+  getLeadRecordRef,
+  toLeadRecordData,
+} from "./lib/leadRecords";
+import {
+  ClientCommunication,
+  ClientEmailAttachment,
+  ClientInvoice,
+  EmailAccount,
+  EmailAccountResponse,
+  FollowUpSequence,
+  MailServerSettings,
+  SaveEmailAccountRequest,
+  SendClientEmailRequest,
+  SendClientEmailResponse,
+} from "./types";
+
+// Get Firestore instance
+const getDb = () => admin.firestore();
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface ImportedReply {
+  messageId: string;
+  from: string;
+  subject: string;
+  content: string;
+  timestamp: number;
+  attachments: ClientEmailAttachment[];
+}
+
+/**
+ * Validate host/port/username of a mail server from the app
+ */
+function validateServer(server: MailServerSettings | undefined, label: string): MailServerSettings {
+  const host = String(server?.host || "").trim();
+  const port = Number(server?.port);
+  const username = String(server?.username || "").trim();
+
+  if (!host || !username || !Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new functions.https.HttpsError(
+      "invalid-argument",
+      `${label} host, port and username are required.`
+    );
+  }
+
+  return { host, port, secure: !!server?.secure, username };
+}
+
+/**
+ * Load the caller's account, or fail with a hint to configure one
+ */
+async function requireEmailAccount(userId: string): Promise<EmailAccount> {
+  const accountDoc = await getEmailAccountRef(userId).get();
+
+  if (!accountDoc.exists) {
+    throw new functions.https.HttpsError(
+      "failed-precondition",
+      "Connect an email account in Email Configuration first."
+    );
+  }
+
+  return accountDoc.data() as EmailAccount;
+}
+
+/**
+ * Callable function: Get the caller's email account (without credentials)
+ *
+ * Returns:
+ * - account: EmailAccountStatus | null - null when no account is connected
+ *
+ * @requires Authentication
+ */
+export const getEmailAccount = functions.https.onCall(
+  async (_data: unknown, context): Promise<EmailAccountResponse> => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "You must be logged in to view email settings."
+      );
+    }
+
+    const accountDoc = await getEmailAccountRef(context.auth.uid).get();
+    return {
+      account: accountDoc.exists ? toEmailAccountStatus(accountDoc.data() as EmailAccount) : null,
+    };
+  }
+);
+
+/**
+ * Callable function: Connect or update the caller's email account
+ *
+ * The SMTP login (and IMAP login, when enabled) is verified before anything
+ * is saved. Passwords are encrypted before they are stored.
+ *
+ * Request body:
+ * - fromName, fromEmail: string - Sender shown to clients
+ * - smtp: MailServerSettings & { password? } - Outgoing server
+ * - imap?: MailServerSettings & { enabled, password? } - Incoming server for replies
+ *
+ * Returns:
+ * - account: EmailAccountStatus - The saved account
+ *
+ * @requires Authentication
+ */
+export const saveEmailAccount = functions.https.onCall(
+  async (data: SaveEmailAccountRequest, context): Promise<EmailAccountResponse> => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "You must be logged in to change email settings."
+      );
+    }
+
+    const userId = context.auth.uid;
+    const fromName = String(data?.fromName || "").trim();
+    const fromEmail = String(data?.fromEmail || "").trim();
+
+    if (!EMAIL_PATTERN.test(fromEmail)) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "A valid sender email address is required."
+      );
+    }
+
+    const smtp = validateServer(data.smtp, "SMTP");
+    const imap = data.imap?.enabled ? validateServer(data.imap, "IMAP") : null;
+
+    try {
+      const accountRef = getEmailAccountRef(userId);
+      const existingDoc = await accountRef.get();
+      const existing = existingDoc.exists ? (existingDoc.data() as EmailAccount) : null;
+      const now = Date.now();
+
+      const smtpPassword = data.smtp.password
+        ? encryptSecret(data.smtp.password)
+        : existing?.smtp.encryptedPassword;
+
+      if (!smtpPassword) {
+        throw new functions.https.HttpsError(
+          "invalid-argument",
+          "SMTP password is required."
+        );
+      }
+
+      // IMAP usually shares the SMTP login, so fall back to that password
+      const imapPassword = data.imap?.password
+        ? encryptSecret(data.imap.password)
+        : existing?.imap?.encryptedPassword || smtpPassword;
+
+      // Keep the sync position when the same mailbox is saved again
+      const sameMailbox = !!imap && !!existing?.imap &&
+        existing.imap.host === imap.host && existing.imap.username === imap.username;
+
+      const account: EmailAccount = {
+        fromName,
+        fromEmail,
+        smtp: { ...smtp, encryptedPassword: smtpPassword },
+        ...(imap || existing?.imap
+          ? {
+            imap: {
+              ...(imap || existing!.imap!),
+              enabled: !!imap,
+              encryptedPassword: imap ? imapPassword : existing!.imap!.encryptedPassword,
+              ...(sameMailbox && existing!.imap!.lastUid !== undefined
+                ? { lastUid: existing!.imap!.lastUid, uidValidity: existing!.imap!.uidValidity }
+                : {}),
+              ...(sameMailbox && existing!.imap!.lastSyncAt
+                ? { lastSyncAt: existing!.imap!.lastSyncAt }
+                : {}),
+            },
+          }
+          : {}),
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+      };
+
+      try {
+        await createSmtpTransport(account).verify();
+      } catch (error: any) {
+        throw new functions.https.HttpsError(
+          "failed-precondition",
+          `Could not sign in to the SMTP server: ${error?.message || "connection failed"}`
+        );
+      }
+
+      if (imap && account.imap) {
+        const client = createImapClient(account.imap);
+        try {
+          await client.connect();
+          await client.logout();
+        } catch (error: any) {
+          throw new functions.https.HttpsError(
+            "failed-precondition",
+            `Could not sign in to the IMAP server: ${error?.message || "connection failed"}`
+          );
+        }
+      }
+
+      await accountRef.set(account);
+
+      functions.logger.info(`Saved email account for user ${userId}`, {
+        smtpHost: smtp.host,
+        imapEnabled: !!imap,
+      });
+
+      return { account: toEmailAccountStatus(account) };
+    } catch (error: any) {
+      functions.logger.error(`Error saving email account for user ${userId}:`, error);
+
+      // Re-throw HttpsErrors as-is
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to save email settings. Please try again."
+      );
+    }
+  }
+);
+
+/**
+ * Callable function: Disconnect the caller's email account
+ *
+ * @requires Authentication
+ */
+export const deleteEmailAccount = functions.https.onCall(
+  async (_data: unknown, context): Promise<EmailAccountResponse> => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "You must be logged in to change email settings."
+      );
+    }
+
+    await getEmailAccountRef(context.auth.uid).delete();
+    return { account: null };
+  }
+);
+
+/**
+ * Callable function: Send an email to a lead through the caller's account
+ *
+ * The sent message is recorded on the lead as an outbound communication
+ * (with attachment details) so replies can be threaded onto it.
+ *
+ * Request body:
+ * - leadId: string - The customer to email (uses the lead's email address)
+ * - subject, body: string - Plain-text message
+ * - category?: string - Communication category (pitch, invoice, ...)
+ * - invoiceId?: string - Attach a PDF of this invoice
+ * - attachments?: OutgoingEmailAttachment[] - Base64 encoded files
+ *
+ * Returns:
+ * - communication: ClientCommunication - The recorded message
+ *
+ * @requires Authentication - User must own the lead
+ */
+export const sendClientEmail = functions.https.onCall(
+  async (data: SendClientEmailRequest, context): Promise<SendClientEmailResponse> => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "You must be logged in to send email."
+      );
+    }
+
+    const userId = context.auth.uid;
+    const { leadId, invoiceId } = data || {};
+    const subject = String(data?.subject || "").trim();
+    const body = String(data?.body || "");
+
+    if (!leadId || !subject || !body.trim()) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Lead ID, subject and message are required."
+      );
+    }
+
+    try {
+      const account = await requireEmailAccount(userId);
+      const leadRef = getDb().collection("users").doc(userId).collection("customers").doc(leadId);
+      const leadDoc = await leadRef.get();
+
+      if (!leadDoc.exists) {
+        throw new functions.https.HttpsError("not-found", "Customer not found.");
+      }
+
+      const to: string = (leadDoc.get("email") || "").trim();
+      if (!EMAIL_PATTERN.test(to)) {
+        throw new functions.https.HttpsError(
+          "failed-precondition",
+          "Add an email address to this customer before sending."
+        );
+      }
+
+      const files: { filename: string; contentType: string; content: Buffer }[] = (data.attachments || []).map((attachment) => ({
+        filename: String(attachment.name || "attachment"),
+        contentType: String(attachment.type || "application/octet-stream"),
+        content: Buffer.from(String(attachment.contentBase64 || ""), "base64"),
+      }));
+
+      await ensureLeadMigrated(leadDoc);
+
+      if (invoiceId) {
+        const invoice = await getLeadRecord<ClientInvoice>(leadRef, "invoices", invoiceId);
+
+        if (!invoice) {
+          throw new functions.https.HttpsError("not-found", "Invoice not found.");
+        }
+
+        files.push({
+          filename: `${invoice.invoiceNumber.replace(/[^A-Za-z0-9-]/g, "_")}.pdf`,
+          contentType: "application/pdf",
+          content: await renderInvoicePdf(invoice, {
+            businessName: leadDoc.get("businessName") || "Client",
+            location: leadDoc.get("location") || undefined,
+            email: to,
+            phone: leadDoc.get("phone") || undefined,
+          }),
+        });
+      }
+
+      const totalBytes = files.reduce((sum, file) => sum + file.content.length, 0);
+      if (totalBytes > MAX_EMAIL_ATTACHMENT_BYTES) {
+        throw new functions.https.HttpsError(
+          "invalid-argument",
+          `Attachments are limited to ${Math.round(MAX_EMAIL_ATTACHMENT_BYTES / (1024 * 1024))}MB in total.`
+        );
+      }
+
+      let messageId: string;
+      try {
+        messageId = await sendAccountEmail(account, { to, subject, text: body, attachments: files });
+      } catch (error: any) {
+        throw new functions.https.HttpsError(
+          "unavailable",
+          `Your mail server did not accept the message: ${error?.message || "send failed"}`
+        );
+      }
+
+      const now = Date.now();
+      const communication: ClientCommunication = {
+        id: `comm-${now}`,
+        type: "email",
+        subject,
+        content: body,
+        timestamp: now,
+        direction: "outbound",
+        read: true,
+        category: data.category || "general",
+        messageId,
+        threadSubject: normalizeEmailSubject(subject),
+        ...(files.length > 0
+          ? {
+            attachments: files.map((file, index) => ({
+              id: `att-${now}-${index}`,
+              name: file.filename,
+              size: file.content.length,
+              type: file.contentType,
+            })),
+          }
+          : {}),
+      };
+
+      await getLeadRecordRef(leadRef, "communications", communication.id)
+        .set(toLeadRecordData(leadRef, communication));
+
+      functions.logger.info(`Sent email for user ${userId} to lead ${leadId}`, {
+        messageId,
+        attachments: files.length,
+      });
+
+      return { communication };
+    } catch (error: any) {
+      functions.logger.error(`Error sending email for user ${userId}, lead ${leadId}:`, error);
+
+      // Re-throw HttpsErrors as-is
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to send email. Please try again."
+      );
+    }
+  }
+);
+
+/**
+ * Fetch new INBOX messages since the last sync
+ */
+async function fetchNewReplies(
+  imap: NonNullable<EmailAccount["imap"]>
+): Promise<{ replies: ImportedReply[]; lastUid?: number; uidValidity: string }> {
+  const client = createImapClient(imap);
+  await client.connect();
+
+  try {
+    const lock = await client.getMailboxLock("INBOX");
+    try {
+      const mailbox = client.mailbox;
+      const uidValidity = mailbox ? String(mailbox.uidValidity) : "";
+
+      // A changed UIDVALIDITY invalidates stored UIDs, so start over
+      const lastUid = imap.uidValidity === uidValidity ? imap.lastUid : undefined;
+      const found = lastUid !== undefined
+        ? await client.search({ uid: `${lastUid + 1}:*` }, { uid: true })
+        : await client.search({ since: new Date(Date.now() - EMAIL_REPLY_LOOKBACK_DAYS * DAY_MS) }, { uid: true });
+
+      // "n:*" always matches the newest message, even when it is older than n
+      const uids = (found || [])
+        .filter((uid) => lastUid === undefined || uid > lastUid)
+        .sort((a, b) => a - b)
+        .slice(0, MAX_EMAIL_REPLIES_PER_SYNC);
+
+      const replies: ImportedReply[] = [];
+      for (const uid of uids) {
+        const message = await client.fetchOne(String(uid), { source: true }, { uid: true });
+        if (!message || !message.source) continue;
+
+        const parsed = await simpleParser(message.source);
+        const from = parsed.from?.value[0]?.address?.toLowerCase();
+        if (!from) continue;
+
+        replies.push({
+          messageId: parsed.messageId || `imap-${uidValidity}-${uid}`,
+          from,
+          subject: parsed.subject || "(no subject)",
+          content: stripQuotedReply(parsed.text || "").slice(0, MAX_EMAIL_REPLY_LENGTH),
+          timestamp: parsed.date ? parsed.date.getTime() : Date.now(),
+          attachments: parsed.attachments.map((attachment, index) => ({
+            id: `att-${uid}-${index}`,
+            name: attachment.filename || `attachment-${index + 1}`,
+            size: attachment.size,
+            type: attachment.contentType,
+          })),
+        });
+      }
+
+      return {
+        replies,
+        lastUid: uids.length > 0 ? uids[uids.length - 1] : lastUid,
+        uidValidity,
+      };
+    } finally {
+      lock.release();
+    }
+  } finally {
+    await client.logout().catch(() => undefined);
+  }
+}
+
+/**
+ * Import a user's new replies onto their leads. Returns the number imported.
+ */
+async function syncAccountReplies(userId: string, account: EmailAccount): Promise<number> {
+  const imap = account.imap!;
+  const { replies, lastUid, uidValidity } = await fetchNewReplies(imap);
+  const ownAddress = account.fromEmail.toLowerCase();
+  const incoming = replies.filter((reply) => reply.from !== ownAddress);
+  let imported = 0;
+
+  if (incoming.length > 0) {
+    const customersRef = getDb().collection("users").doc(userId).collection("customers");
+    const leadsSnapshot = await customersRef.get();
+
+    // Index lead addresses, and outbound threads across all the user's leads
+    const leadsByEmail = new Map<string, string>();
+    for (const leadDoc of leadsSnapshot.docs) {
+      const email = String(leadDoc.get("email") || "").trim().toLowerCase();
+      if (email) leadsByEmail.set(email, leadDoc.id);
+      await ensureLeadMigrated(leadDoc);
+    }
+
+    const leadsByThread = new Map<string, string[]>();
+    const communicationsSnapshot = await getDb()
+      .collectionGroup("communications")
+      .where("ownerId", "==", userId)
+      .get();
+    for (const commDoc of communicationsSnapshot.docs) {
+      const comm = commDoc.data() as ClientCommunication;
+      const leadId = commDoc.ref.parent.parent!.id;
+      if (comm.type !== "email" || comm.direction === "inbound") continue;
+      const thread = comm.threadSubject || normalizeEmailSubject(comm.subject);
+      const leadIds = leadsByThread.get(thread) || [];
+      if (!leadIds.includes(leadId)) leadsByThread.set(thread, [...leadIds, leadId]);
+    }
+
+    const repliesByLead = new Map<string, ClientCommunication[]>();
+    for (const reply of incoming) {
+      const threadSubject = normalizeEmailSubject(reply.subject);
+      const senderLeadId = leadsByEmail.get(reply.from);
+      const threadLeadIds = leadsByThread.get(threadSubject) || [];
+
+      // Prefer the thread's lead whose address sent the reply
+      const leadId = senderLeadId && (threadLeadIds.length === 0 || threadLeadIds.includes(senderLeadId))
+        ? senderLeadId
+        : threadLeadIds[0];
+      if (!leadId) continue;
+
+      repliesByLead.set(leadId, [
+        ...(repliesByLead.get(leadId) || []),
+        {
+          id: `comm-${reply.timestamp}-${reply.messageId.replace(/[^A-Za-z0-9]/g, "").slice(0, 24)}`,
+          type: "email",
+          subject: reply.subject,
+          content: reply.content,
+          timestamp: reply.timestamp,
+          direction: "inbound",
+          read: false,
+          category: "response",
+          messageId: reply.messageId,
+          threadSubject,
+          ...(reply.attachments.length > 0 ? { attachments: reply.attachments } : {}),
+        },
+      ]);
+    }
+
+    for (const [leadId, leadReplies] of repliesByLead) {
+      const leadRef = customersRef.doc(leadId);
+      imported += await getDb().runTransaction(async (transaction) => {
+        const fresh = await transaction.get(leadRef);
+        if (!fresh.exists) return 0;
+
+        // Reply ids come from the Message-ID, so an imported reply already exists
+        const replyRefs = leadReplies.map((reply) => getLeadRecordRef(leadRef, "communications", reply.id));
+        const existing = await transaction.getAll(...replyRefs);
+        const added = leadReplies.filter((_reply, index) => !existing[index].exists);
+        if (added.length === 0) return 0;
+
+        added.forEach((reply) => {
+          transaction.set(getLeadRecordRef(leadRef, "communications", reply.id), toLeadRecordData(leadRef, reply));
+        });
+
+        // A reply ends any running follow-up sequence right away
+        const sequence: FollowUpSequence | undefined = fresh.get("followUpSequence");
+        if (sequence?.status === "active") {
+          transaction.update(leadRef, {
+            followUpSequence: stopFollowUpSequence(sequence, "replied", Date.now()),
+          });
+        }
+        return added.length;
+      });
+    }
+  }
+
+  await getEmailAccountRef(userId).update({
+    ...(lastUid !== undefined ? { "imap.lastUid": lastUid } : {}),
+    "imap.uidValidity": uidValidity,
+    "imap.lastSyncAt": Date.now(),
+    "imap.lastError": admin.firestore.FieldValue.delete(),
+  });
+
+  return imported;
+}
+
+/**
+ * syncEmailReplies - Scheduled every 15 minutes
+ *
+ * Polls the INBOX of every account with IMAP enabled and imports replies.
+ */
+export const syncEmailReplies = functions.pubsub
+  .schedule("every 15 minutes")
+  .onRun(async () => {
+    const accountsSnapshot = await getDb()
+      .collection("emailAccounts")
+      .where("imap.enabled", "==", true)
+      .get();
+
+    const stats = { accounts: 0, imported: 0, failures: 0 };
+
+    for (const accountDoc of accountsSnapshot.docs) {
+      stats.accounts++;
+      try {
+        stats.imported += await syncAccountReplies(accountDoc.id, accountDoc.data() as EmailAccount);
+      } catch (error) {
+        stats.failures++;
+        const message = error instanceof Error ? error.message : String(error);
+        functions.logger.error("Failed to sync email replies", { userId: accountDoc.id, error: message });
+        await accountDoc.ref.update({ "imap.lastError": message }).catch(() => undefined);
+      }
+    }
+
+    functions.logger.info("Email reply sync complete", stats);
+    return null;
+  });
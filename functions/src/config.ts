@@ -75,6 +75,26 @@ export const GEMINI_PRICING: Record<string, ModelPricing> = {
       },
     ],
   },
+  // Gemini 2.0 Flash (search grounding, short copy)
+  "gemini-2.0-flash": {
+    tiers: [
+      {
+        maxContextTokens: null,
+        inputPer1M: 0.10,
+        outputPer1M: 0.40,
+      },
+    ],
+  },
+  // Nano Banana Pro - output tokens are mostly image tokens
+  "gemini-3-pro-image-preview": {
+    tiers: [
+      {
+        maxContextTokens: null,
+        inputPer1M: 2.0,
+        outputPer1M: 120.0,
+      },
+    ],
+  },
 };
 
 // ============================================
@@ -122,6 +142,24 @@ export const HOSTING_LIMITS = {
   agency50: 50,      // Up to 50 static sites
 };
 
+/**
+ * Draft sites are published to preview channels of the default Hosting
+ * site, which expire after this TTL (30d is the Hosting maximum). Sites
+ * promoted to production get a Hosting site of their own, named
+ * {prefix}{site name}-{id} within the 30 character limit.
+ */
+export const PREVIEW_CHANNEL_TTL = "30d";
+export const PRODUCTION_SITE_PREFIX = "r8-";
+export const MAX_HOSTING_SITE_ID_LENGTH = 30;
+
+/**
+ * Every deployment of a website is recorded as a release with an HTML
+ * snapshot, so it can be rolled back to. Change summaries are capped at
+ * MAX_RELEASE_SUMMARY_LENGTH characters.
+ */
+export const MAX_LISTED_RELEASES = 50;
+export const MAX_RELEASE_SUMMARY_LENGTH = 500;
+
 /**
  * Subscription plans
  */
@@ -200,11 +238,230 @@ export const CREDIT_COSTS = {
   marketing_strategy: 10,   // $0.20 - Strategy generation
 };
 
+export type CreditAction = keyof typeof CREDIT_COSTS;
+
 /**
  * Legacy reference (deprecated - use CREDIT_COSTS)
  */
 export const FEATURE_CREDIT_ESTIMATES = CREDIT_COSTS;
 
+// ============================================
+// Gemini Proxy Configuration
+// ============================================
+
+/**
+ * The app's Gemini calls go through the geminiGenerate function, which
+ * only accepts these features, each with the models it is priced for.
+ * Video and voice are charged by their own functions.
+ */
+export const PROXY_FEATURE_MODELS: Partial<Record<CreditAction, string[]>> = {
+  lead_discovery: ["gemini-2.0-flash", "gemini-2.5-flash"],
+  brand_analysis: ["gemini-2.0-flash", "gemini-2.5-flash"],
+  visual_pitch: ["gemini-3-pro-image-preview"],
+  copywriting: ["gemini-2.0-flash", "gemini-2.5-flash"],
+  pitch_email: ["gemini-2.0-flash", "gemini-2.5-flash"],
+  website_concept: ["gemini-3-pro-image-preview"],
+  site_build: ["gemini-2.5-flash", "gemini-3-pro-preview"],
+  site_edit: ["gemini-2.0-flash", "gemini-2.5-flash", "gemini-3-pro-preview"],
+  image_generation: ["gemini-2.5-flash", "gemini-3-pro-image-preview"],
+  chat_message: ["gemini-2.0-flash", "gemini-2.5-flash"],
+  marketing_strategy: ["gemini-2.0-flash", "gemini-2.5-flash"],
+};
+
+export const PROXY_VIDEO_MODEL = "veo-3.1-fast-generate-preview";
+
+/**
+ * An action (e.g. a lead search and its website lookups) is charged its
+ * CREDIT_COSTS price once, or its metered usage if that is more. Later
+ * calls of the same action within the window, up to the call limit, are
+ * charged their metered usage.
+ */
+export const AI_ACTION_WINDOW_MS = 15 * 60 * 1000;
+export const MAX_CALLS_PER_AI_ACTION = 25;
+
+/**
+ * Callable requests are limited to 10MB; images are sent inline
+ */
+export const MAX_PROXY_REQUEST_CHARS = 9 * 1024 * 1024;
+
+/**
+ * Lifetime of the signed URL of a generated video
+ */
+export const GENERATED_VIDEO_URL_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * A voice session is paid for up front in blocks of this many minutes;
+ * its Live API token stops working when the block ends
+ */
+export const VOICE_SESSION_MINUTES = 5;
+
+// ============================================
+// Client Invoicing Configuration
+// ============================================
+
+/**
+ * Default reminder schedule for client invoices, in days relative to the
+ * due date (negative = before, 0 = on the due date, positive = after)
+ */
+export const DEFAULT_INVOICE_REMINDER_OFFSETS_DAYS = [-3, 0, 7];
+
+/**
+ * Reminder offsets outside this range are ignored
+ */
+export const MAX_INVOICE_REMINDER_OFFSET_DAYS = 90;
+
+/**
+ * Maximum missed billing periods a recurring schedule catches up in one run
+ */
+export const MAX_RECURRING_INVOICES_PER_RUN = 12;
+
+/**
+ * Lead documents read per page by the scheduled jobs that go through every lead
+ */
+export const LEAD_SCAN_PAGE_SIZE = 200;
+
+/**
+ * Days until payment is due on an invoice created from an accepted quote
+ */
+export const QUOTE_INVOICE_DUE_IN_DAYS = 14;
+
+// ============================================
+// Client Email Configuration
+// ============================================
+
+/**
+ * Largest total attachment size accepted by sendClientEmail (callable
+ * payloads are capped at 10MB and base64 adds a third)
+ */
+export const MAX_EMAIL_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+/**
+ * On the first IMAP sync, only replies from the last N days are imported
+ */
+export const EMAIL_REPLY_LOOKBACK_DAYS = 14;
+
+/**
+ * Messages imported per mailbox per sync run; the rest wait for the next run
+ */
+export const MAX_EMAIL_REPLIES_PER_SYNC = 50;
+
+/**
+ * Imported replies are truncated to keep lead documents small
+ */
+export const MAX_EMAIL_REPLY_LENGTH = 20000;
+
+// ============================================
+// Follow-up Sequence Configuration
+// ============================================
+
+/**
+ * Model used to draft follow-up emails
+ */
+export const FOLLOW_UP_MODEL = "gemini-2.5-flash";
+
+/**
+ * A step is claimed for this long while it is drafted and sent, so
+ * overlapping runs never send it twice. Failed steps retry after it expires.
+ */
+export const FOLLOW_UP_CLAIM_MS = 30 * 60 * 1000;
+
+/**
+ * Consecutive failures (drafting or sending) before a sequence is stopped
+ */
+export const MAX_FOLLOW_UP_SEND_ATTEMPTS = 3;
+
+/**
+ * Prior messages included in the drafting prompt
+ */
+export const FOLLOW_UP_CONTEXT_MESSAGES = 6;
+
+// ============================================
+// Task Reminder Configuration
+// ============================================
+
+/**
+ * Reminders more than this late (e.g. set in the past) are skipped rather
+ * than sent
+ */
+export const MAX_TASK_REMINDER_DELAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Lead Storage Configuration
+// ============================================
+
+/**
+ * History content longer than this (in characters, JSON for objects) is
+ * kept in Storage instead of the history record. Data URLs always are.
+ */
+export const MAX_INLINE_HISTORY_CONTENT_LENGTH = 20 * 1024;
+
+/**
+ * Legacy customer documents migrated per migrateCustomerStorage call
+ */
+export const MAX_LEADS_MIGRATED_PER_CALL = 50;
+
+// ============================================
+// Saved Search Configuration
+// ============================================
+
+/**
+ * Model used to re-run saved lead searches
+ */
+export const SAVED_SEARCH_MODEL = "gemini-2.5-flash";
+
+/**
+ * Businesses requested from each scheduled search run
+ */
+export const SAVED_SEARCH_RESULTS = 10;
+
+/**
+ * Due saved searches read per page by the scheduled run
+ */
+export const SAVED_SEARCH_PAGE_SIZE = 100;
+
+/**
+ * Time between runs for each saved search schedule
+ */
+export const SAVED_SEARCH_INTERVALS_MS: Record<"daily" | "weekly", number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+// ============================================
+// Website Inspection Configuration
+// ============================================
+
+/**
+ * Maximum websites checked per inspectWebsites call
+ */
+export const MAX_WEBSITES_PER_INSPECTION = 10;
+
+/**
+ * Time allowed for each request while inspecting a website
+ */
+export const WEBSITE_INSPECTION_TIMEOUT_MS = 8000;
+
+/**
+ * Only the start of the page is read; the signals live in the <head> and footer
+ * of typical small-business sites well within this
+ */
+export const MAX_INSPECTED_HTML_BYTES = 512 * 1024;
+
+/**
+ * Redirects followed before a site is treated as unreachable
+ */
+export const MAX_WEBSITE_REDIRECTS = 4;
+
+/**
+ * Links on the audited page checked for errors during a site audit
+ */
+export const MAX_AUDITED_LINKS = 20;
+
+/**
+ * Responses slower than this are reported as a performance problem
+ */
+export const SLOW_RESPONSE_MS = 2500;
+
 // ============================================
 // URLs Configuration
 // ============================================
@@ -215,6 +472,39 @@ export const FEATURE_CREDIT_ESTIMATES = CREDIT_COSTS;
 export const DEFAULT_SUCCESS_URL = "https://renova8.app/settings?checkout=success";
 export const DEFAULT_CANCEL_URL = "https://renova8.app/settings?checkout=canceled";
 
+/**
+ * Redirects for clients paying an invoice through a payment link
+ */
+export const INVOICE_PAYMENT_SUCCESS_URL = "https://renova8.app/?invoicePayment=success";
+export const INVOICE_PAYMENT_CANCEL_URL = "https://renova8.app/?invoicePayment=canceled";
+
+/**
+ * Redirects out of Stripe's onboarding for the account users are paid through
+ */
+export const STRIPE_CONNECT_RETURN_URL = "https://renova8.app/?stripeConnect=return";
+export const STRIPE_CONNECT_REFRESH_URL = "https://renova8.app/?stripeConnect=refresh";
+
+/**
+ * Stripe Checkout sessions can stay open for at most 24 hours
+ */
+export const INVOICE_PAYMENT_LINK_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Signed URLs for invoice PDFs (V4 signing allows at most 7 days)
+ */
+export const INVOICE_PDF_URL_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Public quote acceptance pages (served by the quotePage function via a
+ * Hosting rewrite in firebase.json)
+ */
+export const QUOTE_PAGE_BASE_URL = "https://renova8.app/quote";
+
+/**
+ * Web app, linked from task reminder emails
+ */
+export const APP_URL = "https://renova8.app";
+
 // ============================================
 // Rate Limiting Configuration
 // ============================================
@@ -225,6 +515,12 @@ export const DEFAULT_CANCEL_URL = "https://renova8.app/settings?checkout=cancele
  */
 export const MINIMUM_BALANCE_FOR_CALL = 10;
 
+/**
+ * Credits held for a job that never finished (e.g. a video nobody polled
+ * again) are given back after this long
+ */
+export const CREDIT_HOLD_TTL_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Maximum transactions to return in getCredits response
  */
@@ -0,0 +1,313 @@
+/**
+ * Follow-up Sequences
+ *
+ * Scheduled function that sends the due step of every active pitch
+ * follow-up sequence. Each step is drafted by Gemini from the lead's brand
+ * guidelines and the conversation so far (charged to the user's credits),
+ * sent from the user's connected mail account as a reply to the pitch, and
+ * recorded as an outbound Communication with category "followup".
+ *
+ * A sequence halts when an inbound message is recorded after enrollment or
+ * the lead's status changes.
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {
+  FOLLOW_UP_CLAIM_MS,
+  FOLLOW_UP_CONTEXT_MESSAGES,
+  FOLLOW_UP_MODEL,
+  MAX_FOLLOW_UP_SEND_ATTEMPTS,
+} from "./config";
+import { DAY_MS } from "./lib/clientInvoices";
+import {
+  getEmailAccountRef,
+  normalizeEmailSubject,
+  sendAccountEmail,
+} from "./lib/emailAccount";
+import { getFollowUpHaltReason, stopFollowUpSequence } from "./lib/followUps";
+import { callGeminiWithCredits, safeParseJSON } from "./lib/gemini";
+import { ensureLeadMigrated, forEachUserLead, getLeadRecordRef, getLeadRecords, toLeadRecordData } from "./lib/leadRecords";
+import {
+  ClientCommunication,
+  EmailAccount,
+  FollowUpSequence,
+  FollowUpStopReason,
+} from "./types";
+
+// Get Firestore instance
+const getDb = () => admin.firestore();
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface FollowUpRunStats {
+  sequencesDue: number;
+  sent: number;
+  stopped: number;
+  failures: number;
+}
+
+/**
+ * The email a follow-up replies to: the latest outbound pitch or follow-up
+ */
+function getThreadRoot(communications: ClientCommunication[]): ClientCommunication | undefined {
+  return [...communications]
+    .filter((comm) =>
+      comm.type === "email" &&
+      comm.direction !== "inbound" &&
+      (comm.category === "pitch" || comm.category === "followup")
+    )
+    .sort((a, b) => b.timestamp - a.timestamp)[0];
+}
+
+/**
+ * Draft the next follow-up with Gemini
+ */
+async function draftFollowUp(
+  userId: string,
+  lead: FirebaseFirestore.DocumentData,
+  communications: ClientCommunication[],
+  sequence: FollowUpSequence,
+  senderName: string
+): Promise<{ subject: string; body: string }> {
+  const step = sequence.steps[sequence.currentStep];
+  const history = [...communications]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(-FOLLOW_UP_CONTEXT_MESSAGES)
+    .map((comm) =>
+      `[${comm.direction === "inbound" ? "From client" : "From me"}, ${new Date(comm.timestamp).toDateString()}] ${comm.subject}\n${comm.content.slice(0, 1500)}`
+    )
+    .join("\n\n---\n\n");
+  const brand = lead.brandGuidelines || {};
+
+  const prompt = `Write follow-up email ${sequence.currentStep + 1} of ${sequence.steps.length} to "${lead.businessName}", a business I pitched website design and social media marketing services to. They have not replied yet.
+
+Context:
+- Potential Client: ${lead.businessName}${lead.location ? ` (${lead.location})` : ""}
+- Tone: ${brand.tone || "Professional and Friendly"}
+${brand.suggestions ? `- Brand suggestions I made: ${brand.suggestions}\n` : ""}${lead.websiteUrl && !String(lead.websiteUrl).startsWith("blob:") ? `- Live website demo: ${lead.websiteUrl}\n` : ""}${step.focus ? `- Angle for this follow-up: ${step.focus}\n` : ""}- Sign off as: ${senderName}
+
+Previous messages (oldest first):
+${history || "(none - this is the first message)"}
+
+Instructions:
+- Do not repeat earlier messages; add something new and keep it under 120 words.
+- ${sequence.currentStep === sequence.steps.length - 1 ? "This is the last follow-up: politely close the loop." : "End with one simple question or call to action."}
+- Empathetic, not salesy. Plain text only.
+
+Respond with JSON: {"subject": string, "body": string}`;
+
+  const result = await callGeminiWithCredits({
+    userId,
+    modelKey: FOLLOW_UP_MODEL,
+    prompt,
+    feature: "followup_sequence",
+    maxOutputTokens: 1000,
+  });
+
+  const draft = safeParseJSON<{ subject?: string; body?: string }>(result.text);
+  if (!draft?.body) {
+    throw new Error("AI draft was empty");
+  }
+
+  return { subject: draft.subject || `Following up - ${lead.businessName}`, body: draft.body };
+}
+
+/**
+ * Stop a sequence if the lead still has the same sequence active
+ */
+async function stopSequence(
+  leadRef: FirebaseFirestore.DocumentReference,
+  sequenceId: string,
+  reason: FollowUpStopReason,
+  lastError?: string
+): Promise<void> {
+  await getDb().runTransaction(async (transaction) => {
+    const fresh = await transaction.get(leadRef);
+    const sequence: FollowUpSequence | undefined = fresh.get("followUpSequence");
+    if (!sequence || sequence.id !== sequenceId || sequence.status !== "active") return;
+
+    transaction.update(leadRef, {
+      followUpSequence: {
+        ...stopFollowUpSequence(sequence, reason, Date.now()),
+        ...(lastError ? { lastError } : {}),
+      },
+    });
+  });
+}
+
+/**
+ * Send the due step of one lead's sequence. Returns what happened.
+ */
+async function processLeadSequence(
+  userId: string,
+  leadRef: FirebaseFirestore.DocumentReference,
+  account: EmailAccount | null,
+  now: number
+): Promise<"sent" | "stopped" | "skipped"> {
+  const db = getDb();
+
+  // Claim the step so overlapping runs don't send it twice
+  const claimed = await db.runTransaction(async (transaction) => {
+    const fresh = await transaction.get(leadRef);
+    if (!fresh.exists) return null;
+
+    const lead = fresh.data()!;
+    const sequence: FollowUpSequence | undefined = lead.followUpSequence;
+    if (!sequence || sequence.status !== "active" || sequence.nextSendAt > now) return null;
+
+    const communications = await getLeadRecords<ClientCommunication>(leadRef, "communications", transaction);
+    let haltReason = getFollowUpHaltReason(lead, communications, sequence);
+    if (!haltReason && !account) haltReason = "no_email_account";
+    if (!haltReason && !EMAIL_PATTERN.test(String(lead.email || "").trim())) haltReason = "no_recipient";
+
+    if (haltReason) {
+      transaction.update(leadRef, {
+        followUpSequence: stopFollowUpSequence(sequence, haltReason, now),
+      });
+      return { lead, communications, sequence, haltReason };
+    }
+
+    transaction.update(leadRef, { "followUpSequence.nextSendAt": now + FOLLOW_UP_CLAIM_MS });
+    return { lead, communications, sequence, haltReason: null };
+  });
+
+  if (!claimed) return "skipped";
+  if (claimed.haltReason) return "stopped";
+
+  const { lead, communications, sequence } = claimed;
+  const sender = account!;
+
+  let communication: ClientCommunication;
+  try {
+    const draft = await draftFollowUp(userId, lead, communications, sequence, sender.fromName || sender.fromEmail);
+
+    // Reply in the pitch thread so the client sees the whole conversation
+    const root = getThreadRoot(communications);
+    const subject = root
+      ? `Re: ${root.subject.replace(/^(re:\s*)+/i, "")}`
+      : draft.subject;
+
+    const messageId = await sendAccountEmail(sender, {
+      to: String(lead.email).trim(),
+      subject,
+      text: draft.body,
+      ...(root?.messageId ? { inReplyTo: root.messageId } : {}),
+    });
+
+    const sentAt = Date.now();
+    communication = {
+      id: `comm-${sentAt}-followup-${sequence.currentStep}`,
+      type: "email",
+      subject,
+      content: draft.body,
+      timestamp: sentAt,
+      direction: "outbound",
+      read: true,
+      category: "followup",
+      messageId,
+      threadSubject: normalizeEmailSubject(subject),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const attempts = (sequence.failedAttempts || 0) + 1;
+
+    if (attempts >= MAX_FOLLOW_UP_SEND_ATTEMPTS || message === "INSUFFICIENT_CREDITS") {
+      await stopSequence(leadRef, sequence.id, "failed", message);
+    } else {
+      // Keep the claim as the retry delay
+      await leadRef.update({
+        "followUpSequence.failedAttempts": attempts,
+        "followUpSequence.lastError": message,
+      });
+    }
+    throw error;
+  }
+
+  await db.runTransaction(async (transaction) => {
+    const fresh = await transaction.get(leadRef);
+    const current: FollowUpSequence | undefined = fresh.get("followUpSequence");
+
+    // The message is out either way, so always log it
+    transaction.set(
+      getLeadRecordRef(leadRef, "communications", communication.id),
+      toLeadRecordData(leadRef, communication)
+    );
+    if (!current || current.id !== sequence.id || current.status !== "active") return;
+
+    const steps = current.steps.map((step, index) =>
+      index === current.currentStep
+        ? { ...step, sentAt: communication.timestamp, communicationId: communication.id }
+        : step
+    );
+    const nextStep = current.currentStep + 1;
+    const { failedAttempts: _attempts, lastError: _error, ...rest } = current;
+    const updated: FollowUpSequence = nextStep < steps.length
+      ? {
+        ...rest,
+        steps,
+        currentStep: nextStep,
+        nextSendAt: communication.timestamp + steps[nextStep].delayDays * DAY_MS,
+      }
+      : { ...rest, steps, currentStep: nextStep, status: "completed" };
+
+    transaction.update(leadRef, { followUpSequence: updated });
+  });
+
+  return "sent";
+}
+
+/**
+ * processFollowUpSequences - Scheduled hourly
+ *
+ * Sends due follow-up steps for every user.
+ */
+export const processFollowUpSequences = functions.pubsub
+  .schedule("every 60 minutes")
+  .onRun(async () => {
+    const now = Date.now();
+    const accountCache = new Map<string, EmailAccount | null>();
+    const stats: FollowUpRunStats = {
+      sequencesDue: 0,
+      sent: 0,
+      stopped: 0,
+      failures: 0,
+    };
+
+    await forEachUserLead(async (leadDoc) => {
+      const userRef = leadDoc.ref.parent.parent;
+      if (!userRef) return;
+
+      const sequence: FollowUpSequence | undefined = leadDoc.get("followUpSequence");
+      if (!sequence || sequence.status !== "active" || sequence.nextSendAt > now) return;
+
+      stats.sequencesDue++;
+
+      try {
+        if (!accountCache.has(userRef.id)) {
+          const accountDoc = await getEmailAccountRef(userRef.id).get();
+          accountCache.set(userRef.id, accountDoc.exists ? (accountDoc.data() as EmailAccount) : null);
+        }
+
+        await ensureLeadMigrated(leadDoc);
+        const outcome = await processLeadSequence(
+          userRef.id,
+          leadDoc.ref,
+          accountCache.get(userRef.id) || null,
+          now
+        );
+        if (outcome === "sent") stats.sent++;
+        if (outcome === "stopped") stats.stopped++;
+      } catch (error) {
+        stats.failures++;
+        functions.logger.error("Failed to process follow-up sequence", {
+          userId: userRef.id,
+          leadId: leadDoc.id,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    });
+
+    functions.logger.info("Follow-up sequence run complete", stats);
+    return null;
+  });
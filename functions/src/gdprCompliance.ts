@@ -8,6 +8,7 @@
 
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
+import { deleteReleases } from "./lib/websiteReleases";
 
 const db = admin.firestore();
 
@@ -137,7 +138,7 @@ export const exportUserData = functions.https.onCall(
  * This permanently deletes:
  * - User profile
  * - All transactions
- * - All published websites
+ * - All published websites and their release snapshots
  * - All support tickets
  * - All CRM customers
  * - Firebase Auth account
@@ -202,6 +203,7 @@ export const deleteUserAccount = functions.https.onCall(
         .where("userId", "==", userId)
         .get();
       for (const doc of websitesSnapshot.docs) {
+        await deleteReleases(doc.ref, userId);
         batch.delete(doc.ref);
         batchCount++;
         await commitBatchIfNeeded();
@@ -232,7 +234,15 @@ export const deleteUserAccount = functions.https.onCall(
       }
       if (customersSnapshot.size > 0) deletedCollections.push("customers");
 
-      // 5. Delete user document
+      // 5. Delete connected email account (encrypted mail credentials)
+      const emailAccountRef = db.collection("emailAccounts").doc(userId);
+      if ((await emailAccountRef.get()).exists) {
+        batch.delete(emailAccountRef);
+        batchCount++;
+        deletedCollections.push("emailAccounts");
+      }
+
+      // 6. Delete user document
       const userRef = db.collection("users").doc(userId);
       batch.delete(userRef);
       deletedCollections.push("users");
@@ -242,7 +252,7 @@ export const deleteUserAccount = functions.https.onCall(
         await batch.commit();
       }
 
-      // 6. Delete Firebase Auth account
+      // 7. Delete Firebase Auth account
       try {
         await admin.auth().deleteUser(userId);
         functions.logger.info(`Firebase Auth account deleted for ${userId}`);
@@ -0,0 +1,520 @@
+/**
+ * Gemini Proxy
+ *
+ * The app's AI features call Gemini through these functions, so the API
+ * key stays on the server. Each call is rate limited, metered from the
+ * response's usageMetadata and charged the feature's CREDIT_COSTS price
+ * (see callGeminiWithCredits for how an action's calls share one charge).
+ */
+
+import * as admin from "firebase-admin";
+import * as functions from "firebase-functions";
+import { Timestamp } from "firebase-admin/firestore";
+import {
+  callGeminiWithCredits,
+  createLiveAuthToken,
+  downloadGeminiFile,
+  getVideoOperation,
+  startVideoOperation,
+} from "./lib/gemini";
+import { captureHold, getHoldStatus, holdTokens, releaseHold } from "./lib/credits";
+import { checkRateLimit, recordRequest } from "./lib/rateLimiter";
+import {
+  CREDIT_COSTS,
+  CREDIT_HOLD_TTL_MS,
+  CreditAction,
+  GENERATED_VIDEO_URL_TTL_MS,
+  MAX_PROXY_REQUEST_CHARS,
+  PROXY_FEATURE_MODELS,
+  PROXY_VIDEO_MODEL,
+  VOICE_SESSION_MINUTES,
+} from "./config";
+import {
+  CreateVoiceSessionResponse,
+  CreditTransaction,
+  GeminiGenerateRequest,
+  GeminiGenerateResponse,
+  StartVideoGenerationRequest,
+  VideoGenerationResponse,
+} from "./types";
+
+const getDb = () => admin.firestore();
+
+const ACTION_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+
+interface VideoGeneration {
+  operationName: string;
+  prompt: string;
+  status: "pending" | "completed" | "failed";
+  holdId: string;
+  storagePath?: string;
+  error?: string;
+  createdAt: Timestamp;
+  completedAt?: Timestamp;
+}
+
+/**
+ * Charge a finished video. A hold that ran out (CREDIT_HOLD_TTL_MS)
+ * before the video was collected is replaced with a new one first, and
+ * recorded on the generation so a retry doesn't charge twice.
+ *
+ * @throws Error with "INSUFFICIENT_CREDITS" or "TRIAL_EXPIRED" if the
+ *   video can't be paid for
+ */
+async function chargeVideoGeneration(
+  userId: string,
+  generationRef: admin.firestore.DocumentReference,
+  holdId: string
+): Promise<void> {
+  const status = await getHoldStatus(userId, holdId);
+  if (status === "captured") return;
+
+  if (status !== "held") {
+    // A fixed id, so polls running at the same time share one new hold
+    holdId = await holdTokens({
+      userId,
+      tokens: CREDIT_COSTS.video_generation,
+      description: "Video generation",
+      feature: "video_generation",
+    }, `${generationRef.id}_delivery`);
+    await generationRef.update({ holdId });
+  }
+
+  try {
+    await captureHold(userId, holdId, CREDIT_COSTS.video_generation, "Video generation");
+  } catch (error) {
+    // Another poll charged it first
+    if (error instanceof Error && error.message === "HOLD_NOT_ACTIVE" &&
+      (await getHoldStatus(userId, holdId)) === "captured") {
+      return;
+    }
+    throw error;
+  }
+}
+
+function requireAuth(context: functions.https.CallableContext): string {
+  if (!context.auth) {
+    throw new functions.https.HttpsError(
+      "unauthenticated",
+      "You must be logged in to use AI features."
+    );
+  }
+  return context.auth.uid;
+}
+
+async function enforceRateLimit(userId: string): Promise<void> {
+  const rateLimit = await checkRateLimit(userId);
+
+  if (!rateLimit.allowed) {
+    throw new functions.https.HttpsError(
+      "resource-exhausted",
+      rateLimit.reason || "Rate limit exceeded. Please wait a moment before trying again.",
+      { retryAfter: rateLimit.retryAfter }
+    );
+  }
+
+  await recordRequest(userId);
+}
+
+/**
+ * Map errors from credits and the Gemini API to errors the app can show
+ */
+function toHttpsError(error: any): functions.https.HttpsError {
+  if (error instanceof functions.https.HttpsError) {
+    return error;
+  }
+
+  if (error.message === "INSUFFICIENT_CREDITS") {
+    return new functions.https.HttpsError(
+      "resource-exhausted",
+      "Insufficient credits. Please top up your balance to continue using AI features."
+    );
+  }
+
+  if (error.message === "TRIAL_EXPIRED") {
+    return new functions.https.HttpsError(
+      "resource-exhausted",
+      "Your free trial has ended. Please purchase credits to continue using AI features."
+    );
+  }
+
+  if (error.message?.includes("API key")) {
+    return new functions.https.HttpsError(
+      "internal",
+      "AI service configuration error. Please contact support."
+    );
+  }
+
+  if (error.message?.includes("quota") || error.message?.includes("rate limit")) {
+    return new functions.https.HttpsError(
+      "resource-exhausted",
+      "AI service is temporarily unavailable. Please try again in a few moments."
+    );
+  }
+
+  if (error.message?.includes("safety")) {
+    return new functions.https.HttpsError(
+      "invalid-argument",
+      "Your request was blocked by safety filters. Please modify your prompt."
+    );
+  }
+
+  return new functions.https.HttpsError(
+    "internal",
+    "Failed to generate response. Please try again."
+  );
+}
+
+/**
+ * Callable function: Generate content with Gemini
+ *
+ * Request body:
+ * - model: string - One of the feature's PROXY_FEATURE_MODELS
+ * - feature: string - The CREDIT_COSTS action the call belongs to
+ * - actionId: string - Shared by the calls of one action, priced once
+ * - request: GeminiContentRequest - The generateContent request body
+ *
+ * Returns:
+ * - response: GeminiContentResponse - The Gemini API response
+ * - tokensUsed: number - Credits debited for this call
+ * - tokenBalance: number - New credit balance
+ *
+ * @requires Authentication - User must be logged in
+ * @throws RESOURCE_EXHAUSTED if user has insufficient credits or is rate limited
+ */
+export const geminiGenerate = functions
+  .runWith({ timeoutSeconds: 300, memory: "1GB" })
+  .https.onCall(
+    async (data: GeminiGenerateRequest, context): Promise<GeminiGenerateResponse> => {
+      const userId = requireAuth(context);
+      const { model, feature, actionId, request } = data || {};
+
+      const allowedModels = Object.prototype.hasOwnProperty.call(PROXY_FEATURE_MODELS, feature)
+        ? PROXY_FEATURE_MODELS[feature as CreditAction]
+        : undefined;
+      if (!allowedModels) {
+        throw new functions.https.HttpsError("invalid-argument", `Invalid feature: ${feature}`);
+      }
+
+      if (!allowedModels.includes(model)) {
+        throw new functions.https.HttpsError(
+          "invalid-argument",
+          `Invalid model for ${feature}: ${model}. Allowed models: ${allowedModels.join(", ")}`
+        );
+      }
+
+      if (typeof actionId !== "string" || !ACTION_ID_PATTERN.test(actionId)) {
+        throw new functions.https.HttpsError("invalid-argument", "A valid actionId is required.");
+      }
+
+      if (!request || !Array.isArray(request.contents) || request.contents.length === 0) {
+        throw new functions.https.HttpsError("invalid-argument", "Request contents are required.");
+      }
+
+      if (JSON.stringify(request).length > MAX_PROXY_REQUEST_CHARS) {
+        throw new functions.https.HttpsError(
+          "invalid-argument",
+          "Request is too large. Please use smaller images or shorter content."
+        );
+      }
+
+      await enforceRateLimit(userId);
+
+      try {
+        const result = await callGeminiWithCredits({
+          userId,
+          modelKey: model,
+          request,
+          feature,
+          creditCost: CREDIT_COSTS[feature as CreditAction],
+          actionId,
+        });
+
+        return {
+          response: result.response,
+          tokensUsed: result.tokensDebited,
+          tokenBalance: result.newBalance,
+        };
+      } catch (error: any) {
+        functions.logger.error(`Gemini proxy call failed for user ${userId}:`, error.message);
+        throw toHttpsError(error);
+      }
+    }
+  );
+
+/**
+ * Callable function: Start generating a video with Veo
+ *
+ * The video_generation price is held until the video is ready, and
+ * released if the generation fails. Poll getVideoGeneration for the result.
+ *
+ * Request body:
+ * - prompt: string - What the video shows
+ * - aspectRatio?: "16:9" | "9:16" (default: "16:9")
+ *
+ * Returns:
+ * - generationId: string
+ * - done: false
+ *
+ * @requires Authentication - User must be logged in
+ * @throws RESOURCE_EXHAUSTED if user has insufficient credits or is rate limited
+ */
+export const startVideoGeneration = functions.https.onCall(
+  async (data: StartVideoGenerationRequest, context): Promise<VideoGenerationResponse> => {
+    const userId = requireAuth(context);
+    const { prompt, aspectRatio = "16:9" } = data || {};
+
+    if (!prompt || typeof prompt !== "string" || prompt.length > 5000) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Prompt is required and must be at most 5,000 characters."
+      );
+    }
+
+    if (aspectRatio !== "16:9" && aspectRatio !== "9:16") {
+      throw new functions.https.HttpsError("invalid-argument", "Aspect ratio must be 16:9 or 9:16.");
+    }
+
+    await enforceRateLimit(userId);
+
+    let holdId: string;
+    try {
+      holdId = await holdTokens({
+        userId,
+        tokens: CREDIT_COSTS.video_generation,
+        description: "Video generation",
+        feature: "video_generation",
+      });
+    } catch (error: any) {
+      throw toHttpsError(error);
+    }
+
+    let operationName: string;
+    try {
+      operationName = await startVideoOperation(PROXY_VIDEO_MODEL, prompt, {
+        aspectRatio,
+        resolution: "1080p",
+        sampleCount: 1,
+      });
+    } catch (error: any) {
+      functions.logger.error(`Video generation failed to start for user ${userId}:`, error.message);
+      await releaseHold(userId, holdId);
+      throw toHttpsError(error);
+    }
+
+    const generationRef = getDb()
+      .collection("users")
+      .doc(userId)
+      .collection("videoGenerations")
+      .doc();
+
+    const generation: VideoGeneration = {
+      operationName,
+      prompt,
+      status: "pending",
+      holdId,
+      createdAt: Timestamp.now(),
+    };
+    await generationRef.set(generation);
+
+    return { generationId: generationRef.id, done: false };
+  }
+);
+
+/**
+ * Callable function: Check on a video started with startVideoGeneration
+ *
+ * Finished videos are saved to Storage under videos/{uid}/ and returned
+ * as a signed URL.
+ *
+ * Request body:
+ * - generationId: string
+ *
+ * Returns:
+ * - generationId: string
+ * - done: boolean
+ * - url?: string - Signed URL of the video, once done
+ * - expiresAt?: number - When the URL expires (ms since epoch)
+ *
+ * @requires Authentication - User must be logged in
+ */
+export const getVideoGeneration = functions
+  .runWith({ timeoutSeconds: 120, memory: "1GB" })
+  .https.onCall(
+    async (data: { generationId: string }, context): Promise<VideoGenerationResponse> => {
+      const userId = requireAuth(context);
+      const { generationId } = data || {};
+
+      if (!generationId || typeof generationId !== "string") {
+        throw new functions.https.HttpsError("invalid-argument", "generationId is required.");
+      }
+
+      const generationRef = getDb()
+        .collection("users")
+        .doc(userId)
+        .collection("videoGenerations")
+        .doc(generationId);
+      const generationDoc = await generationRef.get();
+
+      if (!generationDoc.exists) {
+        throw new functions.https.HttpsError("not-found", "Video generation not found.");
+      }
+
+      const generation = generationDoc.data() as VideoGeneration;
+
+      if (generation.status === "failed") {
+        throw new functions.https.HttpsError(
+          "internal",
+          generation.error || "Video generation failed. You were not charged."
+        );
+      }
+
+      let storagePath = generation.storagePath;
+
+      if (generation.status === "pending") {
+        let operation: Awaited<ReturnType<typeof getVideoOperation>>;
+        try {
+          operation = await getVideoOperation(generation.operationName);
+        } catch (error: any) {
+          functions.logger.error(`Failed to poll video generation ${generationId}:`, error.message);
+          throw toHttpsError(error);
+        }
+
+        if (!operation.done) {
+          return { generationId, done: false };
+        }
+
+        if (!operation.videoUri) {
+          const message = "Video generation failed. You were not charged.";
+          functions.logger.warn(`Video generation ${generationId} failed:`, operation.error);
+          await generationRef.update({ status: "failed", error: message, completedAt: Timestamp.now() });
+          await releaseHold(userId, generation.holdId);
+          throw new functions.https.HttpsError("internal", message);
+        }
+
+        storagePath = `videos/${userId}/${generationId}.mp4`;
+        const video = await downloadGeminiFile(operation.videoUri);
+        await admin.storage().bucket().file(storagePath).save(video, {
+          contentType: "video/mp4",
+          resumable: false,
+        });
+
+        // The video is only delivered once it is paid for; until then it stays pending
+        try {
+          await chargeVideoGeneration(userId, generationRef, generation.holdId);
+        } catch (error: any) {
+          functions.logger.warn(`Could not charge video generation ${generationId}:`, error.message);
+          throw toHttpsError(error);
+        }
+
+        await generationRef.update({
+          status: "completed",
+          storagePath,
+          completedAt: Timestamp.now(),
+        });
+      }
+
+      const expiresAt = Date.now() + GENERATED_VIDEO_URL_TTL_MS;
+      const [url] = await admin.storage().bucket().file(storagePath as string).getSignedUrl({
+        version: "v4",
+        action: "read",
+        expires: expiresAt,
+      });
+
+      return { generationId, done: true, url, expiresAt };
+    }
+  );
+
+/**
+ * Callable function: Start a voice chat session
+ *
+ * Charges VOICE_SESSION_MINUTES of voice_bot_minute and returns a
+ * single-use Live API token that expires with the session. Nothing is
+ * charged if the token can't be created.
+ *
+ * Returns:
+ * - token: string - Live API token, used in place of an API key
+ * - expiresAt: number - When the session ends (ms since epoch)
+ * - tokenBalance: number - New credit balance
+ *
+ * @requires Authentication - User must be logged in
+ * @throws RESOURCE_EXHAUSTED if user has insufficient credits or is rate limited
+ */
+export const createVoiceSession = functions.https.onCall(
+  async (_data: unknown, context): Promise<CreateVoiceSessionResponse> => {
+    const userId = requireAuth(context);
+
+    await enforceRateLimit(userId);
+
+    const tokens = CREDIT_COSTS.voice_bot_minute * VOICE_SESSION_MINUTES;
+    const expiresAt = Date.now() + VOICE_SESSION_MINUTES * 60 * 1000;
+
+    let holdId: string;
+    try {
+      holdId = await holdTokens({
+        userId,
+        tokens,
+        description: "Voice chat",
+        feature: "voice_bot_minute",
+      });
+    } catch (error: any) {
+      throw toHttpsError(error);
+    }
+
+    let token: string;
+    try {
+      token = await createLiveAuthToken(new Date(expiresAt));
+    } catch (error: any) {
+      functions.logger.error(`Failed to create voice session for user ${userId}:`, error.message);
+      await releaseHold(userId, holdId);
+      throw toHttpsError(error);
+    }
+
+    const tokenBalance = await captureHold(
+      userId,
+      holdId,
+      tokens,
+      `Voice chat: ${VOICE_SESSION_MINUTES} minutes`
+    );
+    return { token, expiresAt, tokenBalance };
+  }
+);
+
+/**
+ * Scheduled function: Give back credits held for jobs that never finished
+ *
+ * Holds are normally captured or released by the function that made them;
+ * this catches the ones left behind by crashes or abandoned videos.
+ */
+export const releaseStaleCreditHolds = functions.pubsub
+  .schedule("every 60 minutes")
+  .onRun(async () => {
+    const cutoff = Date.now() - CREDIT_HOLD_TTL_MS;
+    const snapshot = await getDb()
+      .collectionGroup("creditTransactions")
+      .where("holdStatus", "==", "held")
+      .get();
+
+    let released = 0;
+    let failures = 0;
+
+    for (const holdDoc of snapshot.docs) {
+      const hold = holdDoc.data() as CreditTransaction;
+      if (hold.createdAt.toMillis() > cutoff) continue;
+
+      try {
+        await releaseHold(hold.userId, holdDoc.id);
+        released++;
+      } catch (error) {
+        failures++;
+        functions.logger.error("Failed to release stale credit hold", {
+          holdId: holdDoc.id,
+          userId: hold.userId,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    functions.logger.info("Stale credit hold run complete", { released, failures });
+    return null;
+  });
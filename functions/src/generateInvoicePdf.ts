@@ -0,0 +1,129 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { INVOICE_PDF_URL_TTL_MS } from "./config";
+import { renderInvoicePdf } from "./lib/invoicePdf";
+import { ensureLeadMigrated, getLeadRecord, getLeadRecordRef } from "./lib/leadRecords";
+import {
+  ClientInvoice,
+  GenerateInvoicePdfRequest,
+  GenerateInvoicePdfResponse,
+  InvoicePdfRecord,
+} from "./types";
+
+const db = admin.firestore();
+
+/**
+ * Callable function: Render a client invoice to PDF
+ *
+ * Each call stores a new, immutable copy at invoices/{userId}/{fileName} and
+ * records it on the invoice, so there is always a record of exactly what the
+ * client was sent.
+ *
+ * Request body:
+ * - leadId: string - The customer the invoice belongs to
+ * - invoiceId: string - The invoice to render
+ *
+ * Returns:
+ * - pdf: InvoicePdfRecord - The stored copy
+ * - url: string - Signed download URL
+ * - expiresAt: number - When the signed URL expires
+ *
+ * @requires Authentication - User must own the lead
+ */
+export const generateInvoicePdf = functions.https.onCall(
+  async (data: GenerateInvoicePdfRequest, context): Promise<GenerateInvoicePdfResponse> => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "You must be logged in to download invoices."
+      );
+    }
+
+    const userId = context.auth.uid;
+    const { leadId, invoiceId } = data || {};
+
+    if (!leadId || !invoiceId) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Lead ID and invoice ID are required."
+      );
+    }
+
+    try {
+      const leadRef = db.collection("users").doc(userId).collection("customers").doc(leadId);
+      const leadDoc = await leadRef.get();
+
+      if (!leadDoc.exists) {
+        throw new functions.https.HttpsError("not-found", "Customer not found.");
+      }
+
+      await ensureLeadMigrated(leadDoc);
+      const invoice = await getLeadRecord<ClientInvoice>(leadRef, "invoices", invoiceId);
+
+      if (!invoice) {
+        throw new functions.https.HttpsError("not-found", "Invoice not found.");
+      }
+
+      const pdfBuffer = await renderInvoicePdf(invoice, {
+        businessName: leadDoc.get("businessName") || "Client",
+        location: leadDoc.get("location") || undefined,
+        email: leadDoc.get("email") || undefined,
+        phone: leadDoc.get("phone") || undefined,
+      });
+
+      const now = Date.now();
+      const safeNumber = invoice.invoiceNumber.replace(/[^A-Za-z0-9-]/g, "_");
+      const fileName = `${safeNumber}-${now}.pdf`;
+      const storagePath = `invoices/${userId}/${fileName}`;
+
+      const file = admin.storage().bucket().file(storagePath);
+      await file.save(pdfBuffer, {
+        contentType: "application/pdf",
+        resumable: false,
+        metadata: {
+          contentDisposition: `attachment; filename="${safeNumber}.pdf"`,
+          metadata: { leadId, invoiceId },
+        },
+      });
+
+      const expiresAt = now + INVOICE_PDF_URL_TTL_MS;
+      const [url] = await file.getSignedUrl({
+        version: "v4",
+        action: "read",
+        expires: expiresAt,
+      });
+
+      const pdf: InvoicePdfRecord = {
+        id: `pdf-${now}`,
+        storagePath,
+        fileName,
+        createdAt: now,
+      };
+
+      await getLeadRecordRef(leadRef, "invoices", invoiceId).update({
+        pdfs: admin.firestore.FieldValue.arrayUnion(pdf),
+      });
+
+      functions.logger.info(
+        `Generated PDF ${storagePath} for user ${userId}, invoice ${invoiceId}`
+      );
+
+      return { pdf, url, expiresAt };
+    } catch (error: any) {
+      functions.logger.error(
+        `Error generating PDF for user ${userId}, invoice ${invoiceId}:`,
+        error
+      );
+
+      // Re-throw HttpsErrors as-is
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to generate invoice PDF. Please try again."
+      );
+    }
+  }
+);
@@ -55,6 +55,7 @@ export const getCredits = functions.https.onCall(
       const serializedTransactions = transactions.map((txn) => ({
         ...txn,
         createdAt: txn.createdAt?.toDate?.()?.toISOString() || null,
+        resolvedAt: txn.resolvedAt?.toDate?.()?.toISOString() || undefined,
       }));
 
       functions.logger.info(
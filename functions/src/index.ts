@@ -9,12 +9,21 @@
  * - createTokenCheckout: Callable - Create Stripe Checkout session
  * - stripeWebhook: HTTP - Handle Stripe webhook events
  * - geminiChat: Callable - AI chat with automatic credit deduction
+ * - geminiGenerate: Callable - Proxy the app's Gemini calls, charged per feature
+ * - startVideoGeneration: Callable - Start a paid Veo video generation
+ * - getVideoGeneration: Callable - Poll a video generation and get its signed URL
+ * - createVoiceSession: Callable - Pay for a voice chat session and get a Live API token
+ * - releaseStaleCreditHolds: Scheduled - Give back credits held for jobs that never finished
  *
  * Website Publishing Functions:
- * - publishWebsite: Callable - Deploy website to Firebase Hosting
+ * - publishWebsite: Callable - Deploy website to a Firebase Hosting preview channel
  * - updateWebsite: Callable - Update existing published website
+ * - promoteWebsite: Callable - Move a draft website to its own production site
  * - getUserWebsites: Callable - Get all user's published websites
+ * - getWebsiteReleases: Callable - List a website's releases
+ * - rollbackWebsite: Callable - Make an earlier release of a website live again
  * - deleteWebsite: Callable - Delete a published website
+ * - releaseExpiredPreviews: Scheduled - Free the hosting slots of expired drafts
  *
  * Custom Domain Functions:
  * - setupCustomDomain: Callable - Initiate custom domain setup
@@ -29,6 +38,28 @@
  * - addTicketMessage: Callable - Add reply to a ticket
  * - closeTicket: Callable - Close a ticket
  * - reopenTicket: Callable - Reopen a closed ticket
+ *
+ * Client Invoicing Functions:
+ * - processInvoiceReminders: Scheduled - Flag overdue invoices and queue reminders
+ * - generateRecurringInvoices: Scheduled - Create invoices from recurring templates
+ * - createInvoicePaymentLink: Callable - Create a Stripe payment link for an invoice
+ * - generateInvoicePdf: Callable - Render an invoice to a stored PDF
+ * - shareQuote: Callable - Create a public acceptance link for a quote
+ * - quotePage: HTTP - Public quote acceptance page (converts accepted quotes to invoices)
+ * - mergeLeads: Callable - Merge a duplicate customer into another
+ * - migrateCustomerStorage: Callable - Move legacy customer documents to sub-collections and Storage
+ * - inspectWebsites: Callable - Check leads' websites for lead scoring signals
+ * - auditWebsite: Callable - Audit a prospect's existing website for pitch material
+ * - runSavedSearches: Scheduled - Re-run saved lead searches into the New leads inbox
+ * - sendTaskReminders: Scheduled - Email reminders for customers' follow-up tasks
+ *
+ * Client Email Functions:
+ * - getEmailAccount: Callable - Get the connected SMTP/IMAP account (no credentials)
+ * - saveEmailAccount: Callable - Verify and store an SMTP/IMAP account
+ * - deleteEmailAccount: Callable - Disconnect the email account
+ * - sendClientEmail: Callable - Send an email to a lead and log it as a communication
+ * - syncEmailReplies: Scheduled - Import client replies over IMAP
+ * - processFollowUpSequences: Scheduled - Draft and send due pitch follow-ups
  */
 
 // IMPORTANT: Import Sentry FIRST before any other imports
@@ -47,13 +78,24 @@ export { getCredits } from "./getCredits";
 export { createTokenCheckout } from "./createTokenCheckout";
 export { stripeWebhook } from "./stripeWebhook";
 export { geminiChat } from "./geminiChat";
+export {
+  geminiGenerate,
+  startVideoGeneration,
+  getVideoGeneration,
+  createVoiceSession,
+  releaseStaleCreditHolds,
+} from "./geminiProxy";
 
 // Export Website Publishing Functions
 export {
   publishWebsite,
   updateWebsite,
+  promoteWebsite,
   getUserWebsites,
+  getWebsiteReleases,
+  rollbackWebsite,
   deleteWebsite,
+  releaseExpiredPreviews,
 } from "./publishWebsite";
 
 // Export Custom Domain Functions
@@ -87,3 +129,27 @@ export {
 
 // Export GDPR Compliance Functions
 export { exportUserData, deleteUserAccount } from "./gdprCompliance";
+
+// Export Client Invoicing Functions
+export { processInvoiceReminders } from "./invoiceReminders";
+export { generateRecurringInvoices } from "./recurringInvoices";
+export { createInvoicePaymentLink, connectStripeAccount } from "./invoicePayments";
+export { allocateInvoiceNumber } from "./invoiceNumbers";
+export { generateInvoicePdf } from "./generateInvoicePdf";
+export { shareQuote, quotePage } from "./quotes";
+export { mergeLeads } from "./mergeLeads";
+export { migrateCustomerStorage } from "./migrateCustomerStorage";
+export { inspectWebsites } from "./inspectWebsites";
+export { auditWebsite } from "./auditWebsite";
+
+// Export Client Email Functions
+export {
+  getEmailAccount,
+  saveEmailAccount,
+  deleteEmailAccount,
+  sendClientEmail,
+  syncEmailReplies,
+} from "./clientEmail";
+export { processFollowUpSequences } from "./followUpSequences";
+export { runSavedSearches } from "./savedSearches";
+export { sendTaskReminders } from "./taskReminders";
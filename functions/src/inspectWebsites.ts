@@ -0,0 +1,61 @@
+/**
+ * Website Inspection
+ *
+ * Checks leads' existing websites for the signals that make them good
+ * redesign prospects. Runs server-side because browsers can't read other
+ * sites' HTML.
+ */
+
+import * as functions from "firebase-functions";
+import { MAX_WEBSITES_PER_INSPECTION } from "./config";
+import { inspectWebsite } from "./lib/websiteSignals";
+import { InspectWebsitesRequest, InspectWebsitesResponse } from "./types";
+
+/**
+ * Callable function: Inspect up to MAX_WEBSITES_PER_INSPECTION websites
+ *
+ * Request body:
+ * - urls: string[] - Website URLs to check
+ *
+ * Returns:
+ * - results: WebsiteSignals[] - One result per URL, in request order.
+ *   Sites that can't be fetched come back with reachable: false.
+ *
+ * @requires Authentication
+ */
+export const inspectWebsites = functions.https.onCall(
+  async (data: InspectWebsitesRequest, context): Promise<InspectWebsitesResponse> => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "You must be logged in to check websites."
+      );
+    }
+
+    const urls = Array.isArray(data?.urls)
+      ? data.urls.filter((url): url is string => typeof url === "string" && url.trim() !== "")
+      : [];
+
+    if (urls.length === 0) {
+      throw new functions.https.HttpsError("invalid-argument", "At least one website URL is required.");
+    }
+
+    if (urls.length > MAX_WEBSITES_PER_INSPECTION) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        `Up to ${MAX_WEBSITES_PER_INSPECTION} websites can be checked at once.`
+      );
+    }
+
+    try {
+      const results = await Promise.all(urls.map((url) => inspectWebsite(url.trim())));
+      return { results };
+    } catch (error) {
+      functions.logger.error(`Error inspecting websites for user ${context.auth.uid}:`, error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to check websites. Please try again."
+      );
+    }
+  }
+);
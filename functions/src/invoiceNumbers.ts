@@ -0,0 +1,50 @@
+/**
+ * Invoice Numbers
+ *
+ * Every invoice a user issues gets its number from one per-user sequence,
+ * formatted like INV-2026-00042. Recurring and quote-converted invoices
+ * take theirs inside the transaction that creates them; invoices made in
+ * the web app ask for one here.
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {
+  formatInvoiceNumber,
+  getLastInvoiceSequence,
+  setLastInvoiceSequence,
+} from "./lib/clientInvoices";
+import { AllocateInvoiceNumberResponse } from "./types";
+
+// Get Firestore instance
+const getDb = () => admin.firestore();
+
+/**
+ * Callable function: Issue the next invoice number
+ *
+ * Returns:
+ * - invoiceNumber: string - The number, reserved for the caller's new invoice
+ *
+ * @requires Authentication
+ */
+export const allocateInvoiceNumber = functions.https.onCall(
+  async (_data: unknown, context): Promise<AllocateInvoiceNumberResponse> => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "You must be logged in to create invoices."
+      );
+    }
+
+    const userId = context.auth.uid;
+    const now = Date.now();
+
+    const sequence = await getDb().runTransaction(async (transaction) => {
+      const next = (await getLastInvoiceSequence(transaction, userId)) + 1;
+      setLastInvoiceSequence(transaction, userId, next);
+      return next;
+    });
+
+    return { invoiceNumber: formatInvoiceNumber(sequence, now) };
+  }
+);
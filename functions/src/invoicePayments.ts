@@ -0,0 +1,351 @@
+/**
+ * Client Invoice Payments
+ *
+ * Lets users collect card payments for the invoices they issue to their own
+ * clients. Each user connects a Stripe Express account, and a Checkout
+ * session is created per invoice on that account so the client pays the
+ * user. The Stripe webhook hands completed sessions of connected accounts
+ * back here to record the payment on the lead. This is deliberately separate
+ * from platform token purchases.
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { Timestamp } from "firebase-admin/firestore";
+import Stripe from "stripe";
+import {
+  INVOICE_PAYMENT_CANCEL_URL,
+  INVOICE_PAYMENT_LINK_TTL_MS,
+  INVOICE_PAYMENT_SUCCESS_URL,
+  STRIPE_CONNECT_REFRESH_URL,
+  STRIPE_CONNECT_RETURN_URL,
+} from "./config";
+import {
+  CLIENT_INVOICE_CHECKOUT_PURPOSE,
+  canAcceptPayments,
+  createConnectOnboardingLink,
+  createConnectedAccount,
+  createInvoicePaymentSession,
+  fromStripeAmount,
+  toStripeAmount,
+} from "./lib/stripe";
+import { getInvoiceBalance, getInvoiceCurrency } from "./lib/clientInvoices";
+import { resolveLeadRef } from "./lib/leadMerge";
+import { ensureLeadMigrated, getLeadRecord, getLeadRecordRef, toLeadRecordData } from "./lib/leadRecords";
+import {
+  ClientInvoice,
+  ClientPaymentRecord,
+  ConnectStripeAccountResponse,
+  CreateInvoicePaymentLinkRequest,
+  CreateInvoicePaymentLinkResponse,
+  InvoicePaymentLink,
+} from "./types";
+
+// Get Firestore instance
+const getDb = () => admin.firestore();
+
+/**
+ * Reference to a lead document owned by a user
+ */
+function getLeadRef(userId: string, leadId: string): FirebaseFirestore.DocumentReference {
+  return getDb().collection("users").doc(userId).collection("customers").doc(leadId);
+}
+
+/**
+ * The connected account a user's clients pay, if they set one up
+ */
+async function getConnectedAccountId(userId: string): Promise<string | undefined> {
+  const userDoc = await getDb().collection("users").doc(userId).get();
+  return userDoc.get("stripeConnectAccountId") || undefined;
+}
+
+/**
+ * Whether a Checkout session was created for a client invoice
+ */
+export function isClientInvoiceSession(session: Stripe.Checkout.Session): boolean {
+  return session.metadata?.purpose === CLIENT_INVOICE_CHECKOUT_PURPOSE;
+}
+
+/**
+ * Callable function: Set up the Stripe account a user's clients pay
+ *
+ * Creates the user's connected account on first use. Until Stripe can take
+ * payments for it, returns a link to Stripe's onboarding.
+ *
+ * @requires Authentication
+ */
+export const connectStripeAccount = functions.https.onCall(
+  async (_data: unknown, context): Promise<ConnectStripeAccountResponse> => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "You must be logged in to set up online payments."
+      );
+    }
+
+    const userId = context.auth.uid;
+
+    try {
+      const userRef = getDb().collection("users").doc(userId);
+      let accountId = await getConnectedAccountId(userId);
+
+      if (!accountId) {
+        const created = await createConnectedAccount(userId, context.auth.token.email || "");
+        // Another request may have connected an account in the meantime
+        accountId = await getDb().runTransaction(async (transaction) => {
+          const userDoc = await transaction.get(userRef);
+          const existing: string | undefined = userDoc.get("stripeConnectAccountId");
+          if (existing) return existing;
+          transaction.update(userRef, { stripeConnectAccountId: created });
+          return created;
+        });
+      }
+
+      if (await canAcceptPayments(accountId)) {
+        return { connected: true };
+      }
+
+      const onboardingUrl = await createConnectOnboardingLink(
+        accountId,
+        STRIPE_CONNECT_REFRESH_URL,
+        STRIPE_CONNECT_RETURN_URL
+      );
+      return { connected: false, onboardingUrl };
+    } catch (error: any) {
+      functions.logger.error(`Error connecting Stripe account for user ${userId}:`, error);
+
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to set up online payments. Please try again."
+      );
+    }
+  }
+);
+
+/**
+ * Callable function: Create a Stripe payment link for a client invoice
+ *
+ * Reuses the invoice's existing link while it is still open and matches the
+ * outstanding balance; otherwise creates a new Checkout session.
+ *
+ * @requires Authentication - User must own the lead
+ */
+export const createInvoicePaymentLink = functions.https.onCall(
+  async (
+    data: CreateInvoicePaymentLinkRequest,
+    context
+  ): Promise<CreateInvoicePaymentLinkResponse> => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "You must be logged in to create a payment link."
+      );
+    }
+
+    const userId = context.auth.uid;
+    const { leadId, invoiceId } = data || {};
+
+    if (!leadId || !invoiceId) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Lead ID and invoice ID are required."
+      );
+    }
+
+    try {
+      const accountId = await getConnectedAccountId(userId);
+      if (!accountId || !(await canAcceptPayments(accountId))) {
+        throw new functions.https.HttpsError(
+          "failed-precondition",
+          "Set up online payments in your invoicing settings to create payment links."
+        );
+      }
+
+      const leadRef = getLeadRef(userId, leadId);
+      const leadDoc = await leadRef.get();
+
+      if (!leadDoc.exists) {
+        throw new functions.https.HttpsError("not-found", "Customer not found.");
+      }
+
+      await ensureLeadMigrated(leadDoc);
+      const invoice = await getLeadRecord<ClientInvoice>(leadRef, "invoices", invoiceId);
+
+      if (!invoice) {
+        throw new functions.https.HttpsError("not-found", "Invoice not found.");
+      }
+
+      const balance = getInvoiceBalance(invoice);
+      if (invoice.status === "paid" || balance <= 0) {
+        throw new functions.https.HttpsError(
+          "failed-precondition",
+          "This invoice has already been paid."
+        );
+      }
+
+      const now = Date.now();
+      const currency = getInvoiceCurrency(invoice);
+      const existing = invoice.paymentLink;
+      if (
+        existing &&
+        existing.accountId === accountId &&
+        existing.expiresAt > now + 60 * 60 * 1000 &&
+        existing.amount === balance &&
+        (existing.currency || "USD") === currency
+      ) {
+        return { paymentLink: existing };
+      }
+
+      const expiresAt = now + INVOICE_PAYMENT_LINK_TTL_MS;
+      const { sessionId, url } = await createInvoicePaymentSession({
+        userId,
+        connectedAccountId: accountId,
+        leadId,
+        invoiceId,
+        invoiceNumber: invoice.invoiceNumber,
+        description: typeof invoice.description === "string" ? invoice.description : "",
+        unitAmount: toStripeAmount(balance, currency),
+        currency: currency.toLowerCase(),
+        customerEmail: leadDoc.get("email") || undefined,
+        successUrl: INVOICE_PAYMENT_SUCCESS_URL,
+        cancelUrl: INVOICE_PAYMENT_CANCEL_URL,
+        expiresAt,
+      });
+
+      const paymentLink: InvoicePaymentLink = {
+        url,
+        sessionId,
+        accountId,
+        amount: balance,
+        currency,
+        createdAt: now,
+        expiresAt,
+      };
+
+      await getLeadRecordRef(leadRef, "invoices", invoiceId).update({ paymentLink });
+
+      return { paymentLink };
+    } catch (error: any) {
+      functions.logger.error(
+        `Error creating payment link for user ${userId}, invoice ${invoiceId}:`,
+        error
+      );
+
+      // Re-throw HttpsErrors as-is
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to create payment link. Please try again."
+      );
+    }
+  }
+);
+
+/**
+ * Handle checkout.session.completed for a client invoice
+ * Appends a card PaymentRecord and updates paidAmount/status on the lead.
+ * Only sessions of the invoice owner's connected account are recorded.
+ */
+export async function handleInvoiceCheckoutCompleted(event: Stripe.Event): Promise<void> {
+  const session = event.data.object as Stripe.Checkout.Session;
+
+  if (session.payment_status !== "paid") {
+    functions.logger.info(`Invoice session ${session.id} not paid, skipping`);
+    return;
+  }
+
+  const { userId, leadId, invoiceId } = session.metadata || {};
+
+  if (!userId || !leadId || !invoiceId) {
+    functions.logger.error(`Missing invoice metadata in session: ${session.id}`);
+    return;
+  }
+
+  const accountId = await getConnectedAccountId(userId);
+  if (!event.account || event.account !== accountId) {
+    functions.logger.error(
+      `Invoice session ${session.id} is not from the connected account of user ${userId}`
+    );
+    return;
+  }
+
+  const amount = fromStripeAmount(session.amount_total || 0, session.currency || "usd");
+  const paymentIntentId = (session.payment_intent as string) || session.id;
+  // Marks the payment as recorded; webhook retries may be handled concurrently
+  const recordedRef = getDb().collection("processedInvoicePayments").doc(paymentIntentId);
+  // The lead may have been merged into another since the link was created
+  const leadRef = await resolveLeadRef(userId, leadId);
+  await ensureLeadMigrated(await leadRef.get());
+
+  await getDb().runTransaction(async (transaction) => {
+    const [recorded, leadDoc] = await Promise.all([
+      transaction.get(recordedRef),
+      transaction.get(leadRef),
+    ]);
+
+    if (recorded.exists) {
+      functions.logger.info(`Payment ${paymentIntentId} already recorded, skipping`);
+      return;
+    }
+
+    if (!leadDoc.exists) {
+      functions.logger.error(
+        `Lead ${leadId} not found for invoice payment session ${session.id}`
+      );
+      return;
+    }
+
+    const invoice = await getLeadRecord<ClientInvoice>(leadRef, "invoices", invoiceId, transaction);
+
+    if (!invoice) {
+      functions.logger.error(
+        `Invoice ${invoiceId} not found on lead ${leadId} for session ${session.id}`
+      );
+      return;
+    }
+
+    // Payments recorded before the marker existed
+    if (invoice.payments?.some((p) => p.reference === paymentIntentId)) {
+      functions.logger.info(`Payment ${paymentIntentId} already recorded, skipping`);
+      return;
+    }
+
+    const now = Date.now();
+    const payment: ClientPaymentRecord = {
+      id: `pay-${paymentIntentId}`,
+      amount,
+      date: now,
+      method: "card",
+      reference: paymentIntentId,
+      notes: "Paid online via Stripe",
+    };
+
+    const paidAmount = (invoice.paidAmount || 0) + amount;
+    const isPaid = paidAmount >= invoice.total;
+    const { paymentLink: _paymentLink, ...rest } = invoice;
+
+    const updated: ClientInvoice = {
+      ...rest,
+      paidAmount,
+      payments: [...(invoice.payments || []), payment],
+      status: isPaid ? "paid" : "partial",
+      ...(isPaid ? { paidAt: now } : {}),
+    };
+
+    transaction.set(getLeadRecordRef(leadRef, "invoices", invoiceId), toLeadRecordData(leadRef, updated));
+    transaction.set(recordedRef, {
+      userId,
+      leadId: leadRef.id,
+      invoiceId,
+      accountId,
+      recordedAt: Timestamp.now(),
+    });
+
+    functions.logger.info(
+      `Recorded ${amount} card payment on invoice ${invoiceId} for user ${userId} (${updated.status})`
+    );
+  });
+}
@@ -0,0 +1,377 @@
+/**
+ * Invoice Reminders
+ *
+ * Scheduled function that scans every open invoice, flips past-due ones
+ * to "overdue" and emails the user's reminder sequence to the client from
+ * the user's connected mail account. Each reminder is logged on the invoice
+ * before it goes out so it is never sent twice; a sent reminder is recorded
+ * on the lead as an outbound Communication with category "invoice", and one
+ * that couldn't be sent keeps the reason on its log entry.
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { getEmailAccountRef, normalizeEmailSubject, sendAccountEmail } from "./lib/emailAccount";
+import {
+  DAY_MS,
+  createInvoiceCommunication,
+  formatInvoiceAmount,
+  getInvoiceCurrency,
+  getInvoiceBalance,
+  getInvoicingSettings,
+  toMillis,
+} from "./lib/clientInvoices";
+import {
+  forEachUserLead,
+  getLeadRecord,
+  getLeadRecords,
+  getLeadRecordRef,
+  isLegacyLead,
+  migrateLeadDocument,
+  toLeadRecordData,
+} from "./lib/leadRecords";
+import {
+  ClientCommunication,
+  ClientInvoice,
+  EmailAccount,
+  InvoicingSettings,
+} from "./types";
+
+// Get Firestore instance
+const getDb = () => admin.firestore();
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface ReminderRunStats {
+  leadsScanned: number;
+  markedOverdue: number;
+  remindersSent: number;
+  remindersFailed: number;
+  failures: number;
+}
+
+// A reminder claimed on its invoice and waiting to be emailed
+interface DueReminder {
+  invoiceId: string;
+  offsetDays: number;
+  subject: string;
+  content: string;
+}
+
+/**
+ * Build the subject and body for a reminder at the given offset
+ */
+function buildReminderCopy(
+  invoice: ClientInvoice,
+  businessName: string,
+  offsetDays: number,
+  dueDate: number
+): { subject: string; content: string } {
+  const amount = formatInvoiceAmount(
+    getInvoiceBalance(invoice),
+    getInvoiceCurrency(invoice)
+  );
+  const dueLabel = new Date(dueDate).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+
+  let subject: string;
+  let opening: string;
+
+  if (offsetDays < 0) {
+    const days = Math.abs(offsetDays);
+    subject = `Reminder: Invoice ${invoice.invoiceNumber} is due in ${days} day${days === 1 ? "" : "s"}`;
+    opening = `This is a friendly reminder that invoice ${invoice.invoiceNumber} for ${amount} is due on ${dueLabel}.`;
+  } else if (offsetDays === 0) {
+    subject = `Invoice ${invoice.invoiceNumber} is due today`;
+    opening = `Invoice ${invoice.invoiceNumber} for ${amount} is due today (${dueLabel}).`;
+  } else {
+    subject = `Overdue: Invoice ${invoice.invoiceNumber} was due ${offsetDays} day${offsetDays === 1 ? "" : "s"} ago`;
+    opening = `Our records show invoice ${invoice.invoiceNumber} for ${amount} was due on ${dueLabel} and remains unpaid.`;
+  }
+
+  const paymentLink = invoice.paymentLink && invoice.paymentLink.expiresAt > Date.now()
+    ? ["", `Pay securely online: ${invoice.paymentLink.url}`]
+    : [];
+
+  const content = [
+    `Hi ${businessName},`,
+    "",
+    opening,
+    ...paymentLink,
+    "",
+    "If you have already sent payment, please disregard this message. Otherwise, we would appreciate payment at your earliest convenience.",
+    "",
+    "Thank you for your business!",
+  ].join("\n");
+
+  return { subject, content };
+}
+
+/**
+ * Apply overdue detection and reminder scheduling to a lead's invoices.
+ * Returns the invoices that changed, with due reminders logged as claimed,
+ * and the reminders to send, or null when nothing changed.
+ */
+function applyInvoiceReminders(
+  invoices: ClientInvoice[],
+  businessName: string,
+  settings: InvoicingSettings,
+  now: number
+): {
+  invoices: ClientInvoice[];
+  reminders: DueReminder[];
+  markedOverdue: number;
+} | null {
+  if (invoices.length === 0) return null;
+
+  const reminders: DueReminder[] = [];
+  const offsets = settings.reminders.enabled ? settings.reminders.offsetsDays : [];
+
+  let markedOverdue = 0;
+
+  const updated = invoices.map((invoice) => {
+    if (invoice.status === "draft" || invoice.status === "paid") return invoice;
+    if (getInvoiceBalance(invoice) <= 0) return invoice;
+
+    const dueDate = toMillis(invoice.dueDate);
+    if (dueDate === undefined) return invoice;
+
+    let next = invoice;
+
+    if (now > dueDate && invoice.status !== "overdue") {
+      next = { ...next, status: "overdue" };
+      markedOverdue++;
+    }
+
+    // Only send the latest step that has come due; earlier missed steps are
+    // superseded so a newly enabled schedule doesn't flood the client.
+    const logged = next.reminders || [];
+    const lastSentOffset = logged.length > 0
+      ? Math.max(...logged.map((r) => r.offsetDays))
+      : -Infinity;
+    const dueOffsets = offsets.filter(
+      (offset) => offset > lastSentOffset && now >= dueDate + offset * DAY_MS
+    );
+
+    if (dueOffsets.length > 0) {
+      const offsetDays = dueOffsets[dueOffsets.length - 1];
+      const { subject, content } = buildReminderCopy(next, businessName, offsetDays, dueDate);
+
+      reminders.push({ invoiceId: next.id, offsetDays, subject, content });
+      next = {
+        ...next,
+        reminders: [...logged, { offsetDays, sentAt: now }],
+      };
+    }
+
+    return next;
+  });
+
+  if (markedOverdue === 0 && reminders.length === 0) return null;
+
+  return {
+    invoices: updated.filter((invoice, index) => invoice !== invoices[index]),
+    reminders,
+    markedOverdue,
+  };
+}
+
+/**
+ * Email claimed reminders to the client, then record each sent one as a
+ * communication and the reason on each one that wasn't sent
+ */
+async function sendInvoiceReminders(
+  leadRef: FirebaseFirestore.DocumentReference,
+  reminders: DueReminder[],
+  recipient: string,
+  account: EmailAccount | null,
+  claimedAt: number,
+  stats: ReminderRunStats
+): Promise<void> {
+  const outcomes = new Map<string, { communication: ClientCommunication } | { error: string }>();
+
+  for (const reminder of reminders) {
+    if (!account) {
+      outcomes.set(reminder.invoiceId, { error: "No email account connected" });
+      stats.remindersFailed++;
+      continue;
+    }
+    if (!EMAIL_PATTERN.test(recipient)) {
+      outcomes.set(reminder.invoiceId, { error: "The client has no valid email address" });
+      stats.remindersFailed++;
+      continue;
+    }
+
+    try {
+      const messageId = await sendAccountEmail(account, {
+        to: recipient,
+        subject: reminder.subject,
+        text: reminder.content,
+      });
+      const sentAt = Date.now();
+      const communication: ClientCommunication = {
+        ...createInvoiceCommunication(reminder.invoiceId, reminder.subject, reminder.content, sentAt),
+        messageId,
+        threadSubject: normalizeEmailSubject(reminder.subject),
+      };
+      outcomes.set(reminder.invoiceId, { communication });
+      stats.remindersSent++;
+    } catch (error) {
+      functions.logger.error("Failed to send invoice reminder", {
+        leadId: leadRef.id,
+        invoiceId: reminder.invoiceId,
+        error: error instanceof Error ? error.message : error,
+      });
+      outcomes.set(reminder.invoiceId, { error: "Sending the reminder failed" });
+      stats.remindersFailed++;
+    }
+  }
+
+  await getDb().runTransaction(async (transaction) => {
+    const invoices = await Promise.all(
+      [...outcomes.keys()].map((invoiceId) =>
+        getLeadRecord<ClientInvoice>(leadRef, "invoices", invoiceId, transaction)
+      )
+    );
+
+    invoices.forEach((invoice) => {
+      const outcome = invoice && outcomes.get(invoice.id);
+      if (!invoice || !outcome) return;
+
+      const updated: ClientInvoice = {
+        ...invoice,
+        reminders: (invoice.reminders || []).map((log) => {
+          if (log.sentAt !== claimedAt || log.communicationId || log.error) return log;
+          return "communication" in outcome
+            ? { ...log, sentAt: outcome.communication.timestamp, communicationId: outcome.communication.id }
+            : { ...log, error: outcome.error };
+        }),
+      };
+      transaction.set(getLeadRecordRef(leadRef, "invoices", invoice.id), toLeadRecordData(leadRef, updated));
+    });
+
+    // The message is out either way, so always log it
+    outcomes.forEach((outcome) => {
+      if (!("communication" in outcome)) return;
+      transaction.set(
+        getLeadRecordRef(leadRef, "communications", outcome.communication.id),
+        toLeadRecordData(leadRef, outcome.communication)
+      );
+    });
+  });
+}
+
+/**
+ * processInvoiceReminders - Scheduled daily
+ *
+ * Marks past-due invoices as overdue and emails due reminders for every user.
+ */
+export const processInvoiceReminders = functions.pubsub
+  .schedule("every day 08:00")
+  .timeZone("UTC")
+  .onRun(async () => {
+    const db = getDb();
+    const now = Date.now();
+    const settingsCache = new Map<string, InvoicingSettings>();
+    const accountCache = new Map<string, EmailAccount | null>();
+    const stats: ReminderRunStats = {
+      leadsScanned: 0,
+      markedOverdue: 0,
+      remindersSent: 0,
+      remindersFailed: 0,
+      failures: 0,
+    };
+
+    // Invoices still inline on legacy leads move to sub-collections first
+    await forEachUserLead(async (leadDoc) => {
+      const invoices = leadDoc.get("invoices");
+      if (!isLegacyLead(leadDoc.data()) || !Array.isArray(invoices) || invoices.length === 0) return;
+
+      try {
+        await migrateLeadDocument(leadDoc.ref);
+      } catch (error) {
+        stats.failures++;
+        functions.logger.error("Failed to migrate lead before invoice reminders", {
+          path: leadDoc.ref.path,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    });
+
+    const openInvoices = await db
+      .collectionGroup("invoices")
+      .where("status", "in", ["sent", "partial", "overdue"])
+      .get();
+
+    const leadRefs = new Map<string, FirebaseFirestore.DocumentReference>();
+    for (const invoiceDoc of openInvoices.docs) {
+      const leadRef = invoiceDoc.ref.parent.parent;
+      if (leadRef) leadRefs.set(leadRef.path, leadRef);
+    }
+
+    for (const leadRef of leadRefs.values()) {
+      // Only users/{uid}/customers/{leadId} documents
+      const userRef = leadRef.parent.parent;
+      if (!userRef || leadRef.parent.id !== "customers" || userRef.parent.id !== "users") continue;
+
+      stats.leadsScanned++;
+
+      try {
+        let settings = settingsCache.get(userRef.id);
+        if (!settings) {
+          settings = await getInvoicingSettings(userRef.id);
+          settingsCache.set(userRef.id, settings);
+        }
+        const userSettings = settings;
+
+        // Re-read inside a transaction so concurrent edits from the app aren't lost
+        const result = await db.runTransaction(async (transaction) => {
+          const fresh = await transaction.get(leadRef);
+          if (!fresh.exists) return null;
+
+          const invoices = await getLeadRecords<ClientInvoice>(leadRef, "invoices", transaction);
+          const applied = applyInvoiceReminders(invoices, fresh.get("businessName") || "there", userSettings, now);
+          if (!applied) return null;
+
+          // Logging the reminders claims them, so overlapping runs don't send them twice
+          applied.invoices.forEach((invoice) => {
+            transaction.set(getLeadRecordRef(leadRef, "invoices", invoice.id), toLeadRecordData(leadRef, invoice));
+          });
+
+          return { ...applied, recipient: String(fresh.get("email") || "").trim() };
+        });
+
+        if (!result) continue;
+        stats.markedOverdue += result.markedOverdue;
+
+        if (result.reminders.length > 0) {
+          if (!accountCache.has(userRef.id)) {
+            const accountDoc = await getEmailAccountRef(userRef.id).get();
+            accountCache.set(userRef.id, accountDoc.exists ? (accountDoc.data() as EmailAccount) : null);
+          }
+
+          await sendInvoiceReminders(
+            leadRef,
+            result.reminders,
+            result.recipient,
+            accountCache.get(userRef.id) || null,
+            now,
+            stats
+          );
+        }
+      } catch (error) {
+        stats.failures++;
+        functions.logger.error("Failed to process invoice reminders", {
+          userId: userRef.id,
+          leadId: leadRef.id,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    functions.logger.info("Invoice reminder run complete", stats);
+    return null;
+  });
@@ -0,0 +1,225 @@
+/**
+ * Client Invoices Library
+ *
+ * Helpers for working with the invoices and communications the web app
+ * stores on lead documents (users/{uid}/customers/{leadId}).
+ */
+
+import * as admin from "firebase-admin";
+import { Timestamp } from "firebase-admin/firestore";
+import {
+  DEFAULT_INVOICE_REMINDER_OFFSETS_DAYS,
+  MAX_INVOICE_REMINDER_OFFSET_DAYS,
+} from "../config";
+import {
+  ClientCommunication,
+  ClientInvoice,
+  ClientInvoiceItem,
+  ClientInvoiceTaxLine,
+  ClientTaxLine,
+  InvoicingSettings,
+} from "../types";
+
+// Get Firestore instance
+const getDb = () => admin.firestore();
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Normalize a stored date (millis or Firestore Timestamp) to millis
+ */
+export function toMillis(value: unknown): number | undefined {
+  if (typeof value === "number") return value;
+  if (value instanceof Timestamp) return value.toMillis();
+  return undefined;
+}
+
+/**
+ * Amount still owed on an invoice
+ */
+export function getInvoiceBalance(invoice: ClientInvoice): number {
+  return Math.max(0, (invoice.total || 0) - (invoice.paidAmount || 0));
+}
+
+/**
+ * Currency of an invoice (legacy invoices are USD)
+ */
+export function getInvoiceCurrency(invoice: ClientInvoice): string {
+  return invoice.currency || "USD";
+}
+
+/**
+ * Format an invoice amount in the invoice's currency
+ */
+export function formatInvoiceAmount(amount: number, currency = "USD"): string {
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+/**
+ * Clean up user-supplied reminder offsets: integers within range, unique, sorted
+ */
+export function normalizeReminderOffsets(offsets: unknown): number[] {
+  if (!Array.isArray(offsets)) return [...DEFAULT_INVOICE_REMINDER_OFFSETS_DAYS];
+
+  const cleaned = offsets
+    .filter((o): o is number => typeof o === "number" && Number.isFinite(o))
+    .map((o) => Math.round(o))
+    .filter((o) => Math.abs(o) <= MAX_INVOICE_REMINDER_OFFSET_DAYS);
+
+  return Array.from(new Set(cleaned)).sort((a, b) => a - b);
+}
+
+/**
+ * Compute invoice totals the same way the web app's invoice form does.
+ * Compound tax lines are charged on the amount plus the taxes before them.
+ */
+export function calculateInvoiceTotals(
+  items: ClientInvoiceItem[],
+  taxLines: ClientTaxLine[],
+  discount: number,
+  discountType: "percentage" | "fixed"
+): {
+  subtotal: number;
+  discountAmount: number;
+  taxLines: ClientInvoiceTaxLine[];
+  taxRate: number;
+  taxAmount: number;
+  total: number;
+} {
+  const subtotal = items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0);
+  const discountAmount = discountType === "percentage"
+    ? subtotal * (discount / 100)
+    : discount;
+  const afterDiscount = subtotal - discountAmount;
+
+  let taxAmount = 0;
+  const computedLines = taxLines.map((line) => {
+    const base = line.compound ? afterDiscount + taxAmount : afterDiscount;
+    const amount = base * (line.rate / 100);
+    taxAmount += amount;
+    return { ...line, amount };
+  });
+  const taxRate = afterDiscount > 0
+    ? (taxAmount / afterDiscount) * 100
+    : taxLines.reduce((sum, line) => sum + line.rate, 0);
+
+  return {
+    subtotal,
+    discountAmount,
+    taxLines: computedLines,
+    taxRate: Math.round(taxRate * 1000) / 1000,
+    taxAmount,
+    total: afterDiscount + taxAmount,
+  };
+}
+
+/**
+ * Format a server-issued invoice number, e.g. INV-2026-00042
+ */
+export function formatInvoiceNumber(sequence: number, issuedAt: number): string {
+  const year = new Date(issuedAt).getUTCFullYear();
+  return `INV-${year}-${String(sequence).padStart(5, "0")}`;
+}
+
+/**
+ * Reference to a user's invoicing settings document
+ */
+export function getInvoicingSettingsRef(
+  userId: string
+): FirebaseFirestore.DocumentReference {
+  return getDb()
+    .collection("users")
+    .doc(userId)
+    .collection("settings")
+    .doc("invoicing");
+}
+
+/**
+ * Reference to the counter of a user's issued invoice numbers, at
+ * users/{uid}/counters/invoices. Only Cloud Functions can write it.
+ */
+export function getInvoiceSequenceRef(
+  userId: string
+): FirebaseFirestore.DocumentReference {
+  return getDb()
+    .collection("users")
+    .doc(userId)
+    .collection("counters")
+    .doc("invoices");
+}
+
+/**
+ * Read the last invoice number issued to a user in a transaction. Users
+ * without a counter yet continue from the sequence once kept in their
+ * invoicing settings.
+ */
+export async function getLastInvoiceSequence(
+  transaction: FirebaseFirestore.Transaction,
+  userId: string
+): Promise<number> {
+  const counterDoc = await transaction.get(getInvoiceSequenceRef(userId));
+  if (counterDoc.exists) {
+    return counterDoc.get("lastSequence") || 0;
+  }
+
+  const settingsDoc = await transaction.get(getInvoicingSettingsRef(userId));
+  return settingsDoc.get("lastInvoiceSequence") || 0;
+}
+
+/**
+ * Store the last invoice number issued to a user in a transaction
+ */
+export function setLastInvoiceSequence(
+  transaction: FirebaseFirestore.Transaction,
+  userId: string,
+  sequence: number
+): void {
+  transaction.set(getInvoiceSequenceRef(userId), {
+    lastSequence: sequence,
+    updatedAt: Timestamp.now(),
+  });
+}
+
+/**
+ * Load a user's invoicing settings, falling back to defaults
+ */
+export async function getInvoicingSettings(
+  userId: string
+): Promise<InvoicingSettings> {
+  const doc = await getInvoicingSettingsRef(userId).get();
+
+  const data = doc.data();
+
+  return {
+    reminders: {
+      enabled: data?.reminders?.enabled !== false,
+      offsetsDays: normalizeReminderOffsets(data?.reminders?.offsetsDays),
+    },
+    updatedAt: toMillis(data?.updatedAt),
+  };
+}
+
+/**
+ * Build an outbound invoice communication entry for a lead's history
+ */
+export function createInvoiceCommunication(
+  invoiceId: string,
+  subject: string,
+  content: string,
+  timestamp: number
+): ClientCommunication {
+  return {
+    id: `comm-${timestamp}-${invoiceId}`,
+    type: "email",
+    subject,
+    content,
+    timestamp,
+    direction: "outbound",
+    read: true,
+    category: "invoice",
+  };
+}
@@ -1,6 +1,12 @@
 import * as admin from "firebase-admin";
+import * as functions from "firebase-functions";
 import { Timestamp } from "firebase-admin/firestore";
-import { GrantTokensParams, DebitTokensParams, CreditTransaction } from "../types";
+import {
+  GrantTokensParams,
+  DebitTokensParams,
+  CreditHoldStatus,
+  CreditTransaction,
+} from "../types";
 import { TRIAL_DURATION_DAYS } from "../config";
 
 /**
@@ -134,6 +140,194 @@ export async function debitTokens(params: DebitTokensParams): Promise<number> {
   });
 }
 
+// ============================================
+// Credit Holds
+// ============================================
+//
+// Jobs reserve their credits before they start: holdTokens takes the
+// estimate out of the balance and records a CREDIT_HOLD transaction.
+// captureHold then charges the actual cost and gives back the rest, or
+// releaseHold gives back everything when the job fails.
+
+const getHoldRef = (userId: string, holdId: string) =>
+  getDb().collection("users").doc(userId).collection("creditTransactions").doc(holdId);
+
+/**
+ * Reserve tokens for a job (atomic Firestore transaction)
+ *
+ * @param holdId - Fixed id for the hold. If a hold with this id exists,
+ *   nothing more is held, so concurrent callers end up with one hold.
+ * @returns The hold's id, for captureHold or releaseHold
+ * @throws Error with message "INSUFFICIENT_CREDITS" if balance is too low
+ * @throws Error with message "TRIAL_EXPIRED" if the user's trial has ended
+ * @throws Error if user is not found
+ */
+export async function holdTokens(params: DebitTokensParams, holdId?: string): Promise<string> {
+  const db = getDb();
+  const userRef = db.collection("users").doc(params.userId);
+  const holdRef = holdId
+    ? getHoldRef(params.userId, holdId)
+    : userRef.collection("creditTransactions").doc();
+
+  await db.runTransaction(async (transaction) => {
+    const [userDoc, existingHold] = await Promise.all([
+      transaction.get(userRef),
+      transaction.get(holdRef),
+    ]);
+
+    if (existingHold.exists) return;
+
+    if (!userDoc.exists) {
+      throw new Error(`User not found: ${params.userId}`);
+    }
+
+    const userData = userDoc.data();
+    const currentBalance = userData?.tokenBalance || 0;
+
+    if (userData?.isTrialUser && userData.trialEndsAt && new Date() > userData.trialEndsAt.toDate()) {
+      throw new Error("TRIAL_EXPIRED");
+    }
+
+    if (currentBalance < params.tokens) {
+      throw new Error("INSUFFICIENT_CREDITS");
+    }
+
+    const newBalance = currentBalance - params.tokens;
+
+    transaction.update(userRef, {
+      tokenBalance: newBalance,
+      updatedAt: Timestamp.now(),
+    });
+
+    const holdData: CreditTransaction = {
+      id: holdRef.id,
+      userId: params.userId,
+      type: "CREDIT_HOLD",
+      tokens: -params.tokens,
+      description: params.description,
+      balanceAfter: newBalance,
+      createdAt: Timestamp.now(),
+      holdStatus: "held",
+      heldTokens: params.tokens,
+      feature: params.feature,
+    };
+
+    transaction.set(holdRef, holdData);
+  });
+
+  return holdRef.id;
+}
+
+/**
+ * Charge the actual cost of a job against its hold (atomic Firestore
+ * transaction). The rest of the hold goes back to the balance. A cost
+ * above the hold is taken from the balance, as far as it goes.
+ *
+ * @returns The new token balance
+ * @throws Error with message "HOLD_NOT_ACTIVE" if the hold was already
+ *   captured or released
+ */
+export async function captureHold(
+  userId: string,
+  holdId: string,
+  tokens: number,
+  description?: string
+): Promise<number> {
+  const db = getDb();
+  const userRef = db.collection("users").doc(userId);
+  const holdRef = getHoldRef(userId, holdId);
+
+  return db.runTransaction(async (transaction) => {
+    const [userDoc, holdDoc] = await Promise.all([
+      transaction.get(userRef),
+      transaction.get(holdRef),
+    ]);
+    const hold = holdDoc.data() as CreditTransaction | undefined;
+
+    if (!userDoc.exists || hold?.holdStatus !== "held") {
+      throw new Error("HOLD_NOT_ACTIVE");
+    }
+
+    const currentBalance = userDoc.data()?.tokenBalance || 0;
+    const heldTokens = hold.heldTokens || 0;
+    const charged = Math.min(tokens, heldTokens + currentBalance);
+    const newBalance = currentBalance + heldTokens - charged;
+
+    if (charged < tokens) {
+      functions.logger.warn(
+        `User ${userId} could only be charged ${charged} of ${tokens} tokens for hold ${holdId}`
+      );
+    }
+
+    transaction.update(userRef, {
+      tokenBalance: newBalance,
+      updatedAt: Timestamp.now(),
+    });
+
+    transaction.update(holdRef, {
+      tokens: -charged,
+      balanceAfter: newBalance,
+      holdStatus: "captured",
+      resolvedAt: Timestamp.now(),
+      ...(description && { description }),
+    });
+
+    return newBalance;
+  });
+}
+
+/**
+ * Status of a hold, or undefined if there is no such hold
+ */
+export async function getHoldStatus(
+  userId: string,
+  holdId: string
+): Promise<CreditHoldStatus | undefined> {
+  const holdDoc = await getHoldRef(userId, holdId).get();
+  return (holdDoc.data() as CreditTransaction | undefined)?.holdStatus;
+}
+
+/**
+ * Give a hold's tokens back (atomic Firestore transaction). Holds that
+ * are no longer held are left alone.
+ *
+ * @returns The new token balance
+ */
+export async function releaseHold(userId: string, holdId: string): Promise<number> {
+  const db = getDb();
+  const userRef = db.collection("users").doc(userId);
+  const holdRef = getHoldRef(userId, holdId);
+
+  return db.runTransaction(async (transaction) => {
+    const [userDoc, holdDoc] = await Promise.all([
+      transaction.get(userRef),
+      transaction.get(holdRef),
+    ]);
+    const hold = holdDoc.data() as CreditTransaction | undefined;
+    const currentBalance = userDoc.data()?.tokenBalance || 0;
+
+    if (!userDoc.exists || hold?.holdStatus !== "held") {
+      return currentBalance;
+    }
+
+    const newBalance = currentBalance + (hold.heldTokens || 0);
+
+    transaction.update(userRef, {
+      tokenBalance: newBalance,
+      updatedAt: Timestamp.now(),
+    });
+
+    transaction.update(holdRef, {
+      tokens: 0,
+      balanceAfter: newBalance,
+      holdStatus: "released",
+      resolvedAt: Timestamp.now(),
+    });
+
+    return newBalance;
+  });
+}
+
 /**
  * Check a user's current token balance
  *
@@ -0,0 +1,201 @@
+/**
+ * Client Email Accounts
+ *
+ * Helpers for the user's own SMTP/IMAP account: credential encryption,
+ * transport/client construction and reply threading.
+ */
+
+import * as crypto from "crypto";
+import * as admin from "firebase-admin";
+import * as nodemailer from "nodemailer";
+import { ImapFlow } from "imapflow";
+import { EmailAccount, EmailAccountStatus } from "../types";
+
+const ENCRYPTION_ALGORITHM = "aes-256-gcm";
+const ENCRYPTION_VERSION = "v1";
+
+/**
+ * Derive the 256-bit encryption key from EMAIL_CREDENTIALS_KEY
+ */
+function getEncryptionKey(): Buffer {
+  const secret = process.env.EMAIL_CREDENTIALS_KEY;
+
+  if (!secret) {
+    throw new Error(
+      "EMAIL_CREDENTIALS_KEY environment variable is not set. " +
+      "Please set it in your Firebase Functions configuration."
+    );
+  }
+
+  return crypto.createHash("sha256").update(secret).digest();
+}
+
+/**
+ * Encrypt a mail server password for storage
+ */
+export function encryptSecret(plainText: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ENCRYPTION_ALGORITHM, getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plainText, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [ENCRYPTION_VERSION, iv, tag, encrypted]
+    .map((part) => (typeof part === "string" ? part : part.toString("base64")))
+    .join(":");
+}
+
+/**
+ * Decrypt a password produced by encryptSecret
+ */
+export function decryptSecret(payload: string): string {
+  const [version, iv, tag, encrypted] = payload.split(":");
+
+  if (version !== ENCRYPTION_VERSION || !iv || !tag || !encrypted) {
+    throw new Error("Unrecognized encrypted credential format");
+  }
+
+  const decipher = crypto.createDecipheriv(
+    ENCRYPTION_ALGORITHM,
+    getEncryptionKey(),
+    Buffer.from(iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(encrypted, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+/**
+ * Reference to a user's email account document
+ */
+export function getEmailAccountRef(userId: string): FirebaseFirestore.DocumentReference {
+  return admin.firestore().collection("emailAccounts").doc(userId);
+}
+
+/**
+ * Strip credentials and sync bookkeeping before returning an account to the app
+ */
+export function toEmailAccountStatus(account: EmailAccount): EmailAccountStatus {
+  const { host, port, secure, username } = account.smtp;
+
+  return {
+    fromName: account.fromName,
+    fromEmail: account.fromEmail,
+    smtp: { host, port, secure, username },
+    ...(account.imap
+      ? {
+        imap: {
+          host: account.imap.host,
+          port: account.imap.port,
+          secure: account.imap.secure,
+          username: account.imap.username,
+          enabled: account.imap.enabled,
+          ...(account.imap.lastSyncAt ? { lastSyncAt: account.imap.lastSyncAt } : {}),
+          ...(account.imap.lastError ? { lastError: account.imap.lastError } : {}),
+        },
+      }
+      : {}),
+    updatedAt: account.updatedAt,
+  };
+}
+
+/**
+ * Create an SMTP transport for the account
+ */
+export function createSmtpTransport(account: EmailAccount): nodemailer.Transporter {
+  return nodemailer.createTransport({
+    host: account.smtp.host,
+    port: account.smtp.port,
+    secure: account.smtp.secure,
+    auth: {
+      user: account.smtp.username,
+      pass: decryptSecret(account.smtp.encryptedPassword),
+    },
+    connectionTimeout: 15000,
+  });
+}
+
+/**
+ * Send a plain-text message from the account and return its Message-ID
+ */
+export async function sendAccountEmail(
+  account: EmailAccount,
+  message: {
+    to: string;
+    subject: string;
+    text: string;
+    attachments?: { filename: string; contentType: string; content: Buffer }[];
+    /** Message-ID of the email this one follows up, for client-side threading */
+    inReplyTo?: string;
+  }
+): Promise<string> {
+  const info = await createSmtpTransport(account).sendMail({
+    from: { name: account.fromName || account.fromEmail, address: account.fromEmail },
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+    attachments: message.attachments,
+    ...(message.inReplyTo
+      ? { inReplyTo: message.inReplyTo, references: [message.inReplyTo] }
+      : {}),
+  });
+
+  return info.messageId;
+}
+
+/**
+ * Create an IMAP client for the account (call connect() before use)
+ */
+export function createImapClient(
+  imap: NonNullable<EmailAccount["imap"]>
+): ImapFlow {
+  return new ImapFlow({
+    host: imap.host,
+    port: imap.port,
+    secure: imap.secure,
+    auth: {
+      user: imap.username,
+      pass: decryptSecret(imap.encryptedPassword),
+    },
+    logger: false,
+  });
+}
+
+/**
+ * Normalize a subject for threading: strip reply/forward prefixes
+ * ("Re:", "Fwd:", "AW:", "[External] Re:" ...), collapse whitespace and
+ * lowercase.
+ */
+export function normalizeEmailSubject(subject: string): string {
+  let normalized = subject.trim();
+  let previous: string;
+
+  do {
+    previous = normalized;
+    normalized = normalized
+      .replace(/^\[[^\]]*\]\s*/, "")
+      .replace(/^(re|fw|fwd|aw|wg|sv|vs|antw)(\[\d+\])?\s*:\s*/i, "");
+  } while (normalized !== previous);
+
+  return normalized.replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Drop the quoted original from a plain-text reply
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const kept: string[] = [];
+
+  for (const line of lines) {
+    // "On Mon, Jan 1, 2024 at 9:00 AM Jane <jane@example.com> wrote:"
+    if (/^On .+wrote:\s*$/.test(line.trim())) break;
+    if (/^-{2,}\s*Original Message\s*-{2,}$/i.test(line.trim())) break;
+    if (line.startsWith(">")) continue;
+    kept.push(line);
+  }
+
+  return kept.join("\n").trim();
+}
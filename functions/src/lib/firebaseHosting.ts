@@ -13,7 +13,7 @@ import { gzipSync } from "zlib";
 
 // Firebase project configuration
 const PROJECT_ID = "claude-476618";
-const DEFAULT_SITE_ID = PROJECT_ID; // Default hosting site
+export const DEFAULT_SITE_ID = PROJECT_ID; // Default hosting site
 
 /**
  * Get OAuth 2.0 access token for Firebase Hosting API
@@ -167,8 +167,9 @@ async function finalizeVersion(
 
 /**
  * Create a release to make the version live
+ * Releasing an earlier version of the site rolls the site back to it.
  */
-async function createRelease(
+export async function createRelease(
   siteId: string,
   versionId: string
 ): Promise<string> {
@@ -197,21 +198,14 @@ async function createRelease(
 /**
  * Get the public URL for a hosted site
  */
-function getSiteUrl(siteId: string): string {
+export function getSiteUrl(siteId: string): string {
   return `https://${siteId}.web.app`;
 }
 
 /**
- * Deploy HTML content to Firebase Hosting
- *
- * @param htmlContent - The HTML content to deploy
- * @param siteId - Optional site ID (defaults to project default site)
- * @returns The public URL of the deployed site
+ * Create, upload and finalize a version holding a single index.html
  */
-export async function deployHtmlToHosting(
-  htmlContent: string,
-  siteId: string = DEFAULT_SITE_ID
-): Promise<{ url: string; versionId: string }> {
+async function createHtmlVersion(siteId: string, htmlContent: string): Promise<string> {
   // Step 1: Create a new version
   const versionId = await createVersion(siteId);
 
@@ -236,7 +230,23 @@ export async function deployHtmlToHosting(
   // Step 4: Finalize the version
   await finalizeVersion(siteId, versionId);
 
-  // Step 5: Create a release to make it live
+  return versionId;
+}
+
+/**
+ * Deploy HTML content to Firebase Hosting
+ *
+ * @param htmlContent - The HTML content to deploy
+ * @param siteId - Optional site ID (defaults to project default site)
+ * @returns The public URL of the deployed site
+ */
+export async function deployHtmlToHosting(
+  htmlContent: string,
+  siteId: string = DEFAULT_SITE_ID
+): Promise<{ url: string; versionId: string }> {
+  const versionId = await createHtmlVersion(siteId, htmlContent);
+
+  // Create a release to make it live
   await createRelease(siteId, versionId);
 
   return {
@@ -252,13 +262,13 @@ export async function deployHtmlToHosting(
  * @param htmlContent - The HTML content to deploy
  * @param channelId - Unique channel identifier
  * @param ttl - Time to live (e.g., "7d" for 7 days, max "30d")
- * @returns The preview URL
+ * @returns The preview URL and the version released to the channel
  */
 export async function deployToPreviewChannel(
   htmlContent: string,
   channelId: string,
   ttl: string = "7d"
-): Promise<{ url: string; expireTime: string }> {
+): Promise<{ url: string; expireTime: string; versionId: string }> {
   const accessToken = await getAccessToken();
   const siteId = DEFAULT_SITE_ID;
 
@@ -291,23 +301,7 @@ export async function deployToPreviewChannel(
   }
 
   // Deploy content to the channel
-  const versionId = await createVersion(siteId);
-
-  const files = { "/index.html": htmlContent };
-  const { uploadUrl, uploadRequiredHashes } = await populateFiles(
-    siteId,
-    versionId,
-    files
-  );
-
-  if (uploadRequiredHashes.length > 0 && uploadUrl) {
-    const fileHash = calculateFileHash(htmlContent);
-    if (uploadRequiredHashes.includes(fileHash)) {
-      await uploadFile(uploadUrl, fileHash, htmlContent);
-    }
-  }
-
-  await finalizeVersion(siteId, versionId);
+  const versionId = await createHtmlVersion(siteId, htmlContent);
 
   // Release to the specific channel
   const releaseResponse = await fetch(
@@ -339,9 +333,92 @@ export async function deployToPreviewChannel(
   return {
     url: channelUrl,
     expireTime: expireTime.toISOString(),
+    versionId,
   };
 }
 
+/**
+ * Delete a preview channel and its releases
+ * A channel that no longer exists (e.g. it expired) is not an error.
+ */
+export async function deletePreviewChannel(channelId: string): Promise<void> {
+  const accessToken = await getAccessToken();
+
+  const response = await fetch(
+    `https://firebasehosting.googleapis.com/v1beta1/sites/${DEFAULT_SITE_ID}/channels/${channelId}`,
+    {
+      method: "DELETE",
+      headers: { Authorization: `Bearer ${accessToken}` },
+    }
+  );
+
+  if (!response.ok && response.status !== 404) {
+    const error = await response.text();
+    throw new Error(`Failed to delete channel: ${response.status} ${error}`);
+  }
+}
+
+/**
+ * Create a Hosting site in the project, served at https://{siteId}.web.app
+ * Site IDs are global across Firebase; an ID already used by this project
+ * is reused, so promoting a site can be retried.
+ */
+export async function createHostingSite(siteId: string): Promise<string> {
+  const accessToken = await getAccessToken();
+
+  const response = await fetch(
+    `https://firebasehosting.googleapis.com/v1beta1/projects/${PROJECT_ID}/sites?siteId=${siteId}`,
+    {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({}),
+    }
+  );
+
+  if (response.status === 409) {
+    const existing = await fetch(
+      `https://firebasehosting.googleapis.com/v1beta1/projects/${PROJECT_ID}/sites/${siteId}`,
+      {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      }
+    );
+    if (existing.ok) {
+      return getSiteUrl(siteId);
+    }
+    throw new Error(`Site ID ${siteId} is already taken`);
+  }
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Failed to create site: ${response.status} ${error}`);
+  }
+
+  return getSiteUrl(siteId);
+}
+
+/**
+ * Delete a Hosting site, taking its content offline
+ */
+export async function deleteHostingSite(siteId: string): Promise<void> {
+  const accessToken = await getAccessToken();
+
+  const response = await fetch(
+    `https://firebasehosting.googleapis.com/v1beta1/projects/${PROJECT_ID}/sites/${siteId}`,
+    {
+      method: "DELETE",
+      headers: { Authorization: `Bearer ${accessToken}` },
+    }
+  );
+
+  if (!response.ok && response.status !== 404) {
+    const error = await response.text();
+    throw new Error(`Failed to delete site: ${response.status} ${error}`);
+  }
+}
+
 /**
  * List custom domains for a site
  */
@@ -384,7 +461,10 @@ export async function listCustomDomains(
 /**
  * Get DNS records required for custom domain setup
  */
-export function getRequiredDnsRecords(domain: string): Array<{
+export function getRequiredDnsRecords(
+  domain: string,
+  siteId: string = DEFAULT_SITE_ID
+): Array<{
   type: string;
   name: string;
   value: string;
@@ -409,7 +489,7 @@ export function getRequiredDnsRecords(domain: string): Array<{
       {
         type: "CNAME",
         name: domain.split(".")[0], // www
-        value: `${DEFAULT_SITE_ID}.web.app`,
+        value: `${siteId}.web.app`,
         purpose: "Point subdomain to Firebase Hosting",
       },
     ];
@@ -459,7 +539,7 @@ export async function requestCustomDomain(
 
     return {
       verificationRecords,
-      routingRecords: getRequiredDnsRecords(domain),
+      routingRecords: getRequiredDnsRecords(domain, siteId),
       domainStatus: domainResponse.status,
     };
   } catch (error) {
@@ -469,7 +549,7 @@ export async function requestCustomDomain(
       // Domain already registered, just return routing records
       return {
         verificationRecords: [],
-        routingRecords: getRequiredDnsRecords(domain),
+        routingRecords: getRequiredDnsRecords(domain, siteId),
         domainStatus: "ALREADY_REGISTERED",
       };
     }
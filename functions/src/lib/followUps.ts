@@ -0,0 +1,41 @@
+/**
+ * Follow-up Sequence Helpers
+ *
+ * Shared rules for when a lead's follow-up sequence must halt, used by the
+ * sequence processor and by the IMAP reply import.
+ */
+
+import {
+  ClientCommunication,
+  FollowUpSequence,
+  FollowUpStopReason,
+} from "../types";
+
+/**
+ * Why an active sequence should stop before its next step, or null to continue
+ */
+export function getFollowUpHaltReason(
+  lead: FirebaseFirestore.DocumentData,
+  communications: ClientCommunication[],
+  sequence: FollowUpSequence
+): FollowUpStopReason | null {
+  const hasReply = communications.some(
+    (comm) => comm.direction === "inbound" && comm.timestamp > sequence.enrolledAt
+  );
+  if (hasReply) return "replied";
+
+  if (lead.status !== sequence.enrolledStatus) return "status_changed";
+
+  return null;
+}
+
+/**
+ * Mark a sequence stopped
+ */
+export function stopFollowUpSequence(
+  sequence: FollowUpSequence,
+  reason: FollowUpStopReason,
+  now: number
+): FollowUpSequence {
+  return { ...sequence, status: "stopped", stopReason: reason, stoppedAt: now };
+}
@@ -1,35 +1,125 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import * as admin from "firebase-admin";
 import * as functions from "firebase-functions";
-import { Timestamp } from "firebase-admin/firestore";
-import { computeGeminiCostUSD, convertCostToUserTokens } from "./pricing";
-import { debitTokens, checkBalance } from "./credits";
-import { GeminiCallParams, GeminiCallResult } from "../types";
-import { MINIMUM_BALANCE_FOR_CALL } from "../config";
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import { computeGeminiCostUSD, convertCostToUserTokens, estimateRequiredTokens } from "./pricing";
+import { captureHold, holdTokens, releaseHold } from "./credits";
+import {
+  GeminiCallParams,
+  GeminiCallResult,
+  GeminiContentRequest,
+  GeminiContentResponse,
+} from "../types";
+import {
+  AI_ACTION_WINDOW_MS,
+  MAX_CALLS_PER_AI_ACTION,
+  MINIMUM_BALANCE_FOR_CALL,
+} from "../config";
+
+const GEMINI_API_URL = "https://generativelanguage.googleapis.com";
 
 /**
- * Lazy-initialized Gemini client
+ * Get the platform's Gemini API key. It only lives in Cloud Functions;
+ * the app reaches Gemini through the proxy functions.
  */
-let genAIClient: GoogleGenerativeAI | null = null;
+function getApiKey(): string {
+  const apiKey = process.env.GOOGLE_API_KEY;
+
+  if (!apiKey) {
+    throw new Error(
+      "GOOGLE_API_KEY environment variable is not set. " +
+      "Please set it in your Firebase Functions configuration."
+    );
+  }
+
+  return apiKey;
+}
 
 /**
- * Get or create Gemini AI client
+ * Call the Gemini REST API
+ *
+ * @param path - Path after the API version, e.g. "models/gemini-2.5-flash:generateContent"
+ * @throws Error with the API's message (quota, safety, invalid request, ...)
  */
-function getGenAI(): GoogleGenerativeAI {
-  if (!genAIClient) {
-    const apiKey = process.env.GOOGLE_API_KEY;
-
-    if (!apiKey) {
-      throw new Error(
-        "GOOGLE_API_KEY environment variable is not set. " +
-        "Please set it in your Firebase Functions configuration."
-      );
+export async function requestGemini<T>(
+  path: string,
+  options: { body?: unknown; apiVersion?: "v1beta" | "v1alpha" } = {}
+): Promise<T> {
+  const response = await fetch(
+    `${GEMINI_API_URL}/${options.apiVersion || "v1beta"}/${path}`,
+    {
+      method: options.body === undefined ? "GET" : "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-goog-api-key": getApiKey(),
+      },
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
     }
+  );
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data?.error?.message || `Gemini API error: ${response.status}`);
+  }
+
+  return data as T;
+}
 
-    genAIClient = new GoogleGenerativeAI(apiKey);
+/**
+ * Download a file generated by the Gemini API, such as a video
+ */
+export async function downloadGeminiFile(uri: string): Promise<Buffer> {
+  const response = await fetch(uri, {
+    headers: { "x-goog-api-key": getApiKey() },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to download generated file: ${response.status}`);
   }
 
-  return genAIClient;
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Text of the first candidate, leaving out thoughts
+ */
+function getResponseText(response: GeminiContentResponse): string {
+  const parts = response.candidates?.[0]?.content?.parts || [];
+  return parts
+    .filter((part) => typeof part.text === "string" && !part.thought)
+    .map((part) => part.text)
+    .join("");
+}
+
+// Inline images and video frames count as roughly this many input tokens
+const TOKENS_PER_INLINE_PART = 1290;
+
+/**
+ * Rough input token count of a request, for the credit hold
+ */
+function estimateInputTokens(request: GeminiContentRequest): number {
+  const parts = [
+    ...request.contents.flatMap((content) => content.parts),
+    ...(request.systemInstruction?.parts || []),
+  ];
+
+  return parts.reduce(
+    (total, part) =>
+      total + (typeof part.text === "string" ? Math.ceil(part.text.length / 4) : TOKENS_PER_INLINE_PART),
+    0
+  );
+}
+
+/**
+ * Whether a response has something to charge for: an image from image
+ * models, any content from the others
+ */
+function hasExpectedOutput(modelKey: string, response: GeminiContentResponse): boolean {
+  const parts = response.candidates?.[0]?.content?.parts || [];
+  if (modelKey.includes("image")) {
+    return parts.some((part) => part.inlineData);
+  }
+  return parts.length > 0;
 }
 
 /**
@@ -37,16 +127,76 @@ function getGenAI(): GoogleGenerativeAI {
  */
 const getDb = () => admin.firestore();
 
+const getActionRef = (userId: string, actionId: string) =>
+  getDb().collection("users").doc(userId).collection("aiActions").doc(actionId);
+
+/**
+ * Count a call of a priced action (atomic Firestore transaction)
+ *
+ * The first call opens the action and is due its price; later calls
+ * while the action is open (same feature, within AI_ACTION_WINDOW_MS and
+ * MAX_CALLS_PER_AI_ACTION calls) are only metered.
+ *
+ * @returns The price due and whether this call opened the action
+ */
+async function claimActionCall(
+  userId: string,
+  actionId: string,
+  feature: string,
+  creditCost: number
+): Promise<{ price: number; opened: boolean }> {
+  const actionRef = getActionRef(userId, actionId);
+
+  return getDb().runTransaction(async (transaction) => {
+    const action = (await transaction.get(actionRef)).data();
+    const isOpen =
+      action?.feature === feature &&
+      Date.now() - action.createdAt.toMillis() < AI_ACTION_WINDOW_MS &&
+      action.calls < MAX_CALLS_PER_AI_ACTION;
+
+    if (isOpen) {
+      transaction.update(actionRef, { calls: FieldValue.increment(1) });
+      return { price: 0, opened: false };
+    }
+
+    // Charging opens the action again, e.g. after its window ended
+    transaction.set(actionRef, { feature, calls: 1, createdAt: Timestamp.now() });
+    return { price: creditCost, opened: true };
+  });
+}
+
+/**
+ * Undo a claimed call that was never charged
+ */
+async function unclaimActionCall(
+  userId: string,
+  actionId: string,
+  opened: boolean
+): Promise<void> {
+  const actionRef = getActionRef(userId, actionId);
+
+  if (opened) {
+    // Later calls must not find an action nobody paid for
+    await actionRef.delete();
+  } else {
+    await actionRef.update({ calls: FieldValue.increment(-1) });
+  }
+}
+
 /**
  * Call Gemini API with automatic credit tracking and deduction
  *
  * This function:
- * 1. Checks if user has sufficient credits
- * 2. Makes the Gemini API call
+ * 1. Holds the estimated cost from the user's balance
+ * 2. Makes the Gemini API call, releasing the hold if it fails
  * 3. Calculates the cost based on actual token usage
- * 4. Debits tokens atomically from user's balance
+ * 4. Captures that cost from the hold
  * 5. Logs the usage for analytics
  *
+ * With a creditCost, the first call of an action (see AI_ACTION_WINDOW_MS)
+ * is charged the action's price, or its metered usage if that is more.
+ * Every other call is charged its metered usage.
+ *
  * @param params - Gemini call parameters
  * @returns Result with generated text and usage info
  * @throws Error with "INSUFFICIENT_CREDITS" if user doesn't have enough tokens
@@ -61,40 +211,84 @@ export async function callGeminiWithCredits(
     feature,
     systemInstruction,
     maxOutputTokens = 8192,
+    tools,
+    creditCost,
+    actionId,
   } = params;
 
-  // 1. Pre-flight balance check
-  const currentBalance = await checkBalance(userId);
+  const request: GeminiContentRequest = params.request || {
+    contents: [{ role: "user", parts: [{ text: prompt || "" }] }],
+    ...(systemInstruction && { systemInstruction: { parts: [{ text: systemInstruction }] } }),
+    ...(tools && { tools }),
+    generationConfig: { maxOutputTokens },
+  };
 
-  if (currentBalance < MINIMUM_BALANCE_FOR_CALL) {
-    functions.logger.warn(
-      `User ${userId} has insufficient balance: ${currentBalance} < ${MINIMUM_BALANCE_FOR_CALL}`
-    );
-    throw new Error("INSUFFICIENT_CREDITS");
-  }
+  // 0. Without an actionId, every call is a new action and pays the price
+  const claim = creditCost === undefined
+    ? undefined
+    : actionId
+      ? await claimActionCall(userId, actionId, feature, creditCost)
+      : { price: creditCost, opened: false };
+  const unclaim = async () => {
+    if (claim && actionId) await unclaimActionCall(userId, actionId, claim.opened);
+  };
 
-  // 2. Initialize Gemini model
-  const genAI = getGenAI();
-  const model = genAI.getGenerativeModel({
-    model: modelKey,
-    systemInstruction: systemInstruction,
-    generationConfig: {
-      maxOutputTokens,
-    },
-  });
+  // 1. Reserve the most the call can cost: its price, or its estimated usage
+  const outputLimit = Number(request.generationConfig?.maxOutputTokens) || maxOutputTokens;
+  const holdAmount = Math.max(
+    claim?.price || 0,
+    MINIMUM_BALANCE_FOR_CALL,
+    estimateRequiredTokens(modelKey, estimateInputTokens(request), outputLimit)
+  );
+
+  let holdId: string;
+  try {
+    holdId = await holdTokens({
+      userId,
+      tokens: holdAmount,
+      description: feature,
+      feature,
+    });
+  } catch (error: any) {
+    if (error.message === "INSUFFICIENT_CREDITS") {
+      functions.logger.warn(
+        `User ${userId} has insufficient balance for a ${holdAmount} token hold`
+      );
+    }
+    await unclaim();
+    throw error;
+  }
 
-  // 3. Make the API call
+  // 2. Make the API call; the hold is released if it fails or returns nothing
   functions.logger.info(
     `Calling Gemini ${modelKey} for user ${userId}, feature: ${feature}`
   );
 
   const startTime = Date.now();
-  const result = await model.generateContent(prompt);
-  const response = result.response;
-  const text = response.text();
+  let response: GeminiContentResponse;
+  try {
+    response = await requestGemini<GeminiContentResponse>(
+      `models/${modelKey}:generateContent`,
+      { body: request }
+    );
+
+    if (!response.candidates?.length && response.promptFeedback) {
+      throw new Error("Request was blocked by safety filters");
+    }
+
+    if (!hasExpectedOutput(modelKey, response)) {
+      throw new Error(`Gemini ${modelKey} returned no output`);
+    }
+  } catch (error) {
+    await releaseHold(userId, holdId);
+    await unclaim();
+    throw error;
+  }
   const elapsedMs = Date.now() - startTime;
 
-  // 4. Get token usage from response metadata
+  const text = getResponseText(response);
+
+  // 3. Get token usage from response metadata
   const usageMetadata = response.usageMetadata;
   const inputTokens = usageMetadata?.promptTokenCount || 0;
   const outputTokens = usageMetadata?.candidatesTokenCount || 0;
@@ -104,40 +298,29 @@ export async function callGeminiWithCredits(
     `Gemini response received in ${elapsedMs}ms. Tokens: ${inputTokens} in / ${outputTokens} out`
   );
 
-  // 5. Calculate cost and tokens to debit
+  // 4. Calculate cost and tokens to debit
   const costUSD = computeGeminiCostUSD(modelKey, inputTokens, outputTokens);
-  const tokensToDebit = convertCostToUserTokens(
+  const meteredTokens = convertCostToUserTokens(
     modelKey,
     costUSD,
     undefined,
     contextTokens
   );
+  const tokensToDebit = Math.max(claim?.price || 0, meteredTokens);
 
   functions.logger.info(
     `Cost: $${costUSD.toFixed(6)}, Tokens to debit: ${tokensToDebit}`
   );
 
-  // 6. Debit tokens atomically
-  let newBalance: number;
-  try {
-    newBalance = await debitTokens({
-      userId,
-      tokens: tokensToDebit,
-      description: `${feature}: ${inputTokens} in / ${outputTokens} out`,
-      feature,
-    });
-  } catch (error: any) {
-    // If debit fails due to insufficient credits, still log but don't charge
-    if (error.message === "INSUFFICIENT_CREDITS") {
-      functions.logger.error(
-        `User ${userId} ran out of credits during call (race condition)`
-      );
-      throw error;
-    }
-    throw error;
-  }
+  // 5. Capture the actual cost from the hold
+  const newBalance = await captureHold(
+    userId,
+    holdId,
+    tokensToDebit,
+    `${feature}: ${inputTokens} in / ${outputTokens} out`
+  );
 
-  // 7. Log usage for analytics
+  // 6. Log usage for analytics
   const db = getDb();
   const logRef = db
     .collection("users")
@@ -153,8 +336,10 @@ export async function callGeminiWithCredits(
     outputTokens,
     contextTokens,
     costUSD,
+    meteredTokens,
     debitedTokens: tokensToDebit,
     feature,
+    actionId: actionId || null,
     requestId: logRef.id, // Use doc ID as request ID
     createdAt: Timestamp.now(),
   });
@@ -165,6 +350,7 @@ export async function callGeminiWithCredits(
 
   return {
     text,
+    response,
     inputTokens,
     outputTokens,
     tokensDebited: tokensToDebit,
@@ -172,6 +358,63 @@ export async function callGeminiWithCredits(
   };
 }
 
+/**
+ * Start a Veo video generation
+ *
+ * @returns The name of the long-running operation to poll
+ */
+export async function startVideoOperation(
+  modelKey: string,
+  prompt: string,
+  parameters: Record<string, unknown>
+): Promise<string> {
+  const operation = await requestGemini<{ name: string }>(
+    `models/${modelKey}:predictLongRunning`,
+    { body: { instances: [{ prompt }], parameters } }
+  );
+  return operation.name;
+}
+
+/**
+ * Poll a video generation started with startVideoOperation
+ */
+export async function getVideoOperation(
+  operationName: string
+): Promise<{ done: boolean; videoUri?: string; error?: string }> {
+  const operation = await requestGemini<{
+    done?: boolean;
+    error?: { message?: string };
+    response?: {
+      generateVideoResponse?: {
+        generatedSamples?: Array<{ video?: { uri?: string } }>;
+      };
+    };
+  }>(operationName);
+
+  return {
+    done: !!operation.done,
+    videoUri: operation.response?.generateVideoResponse?.generatedSamples?.[0]?.video?.uri,
+    error: operation.error?.message,
+  };
+}
+
+/**
+ * Create a single-use Live API token, so the browser can hold a voice
+ * session without the API key. The session ends at expireTime.
+ */
+export async function createLiveAuthToken(expireTime: Date): Promise<string> {
+  const token = await requestGemini<{ name: string }>("auth_tokens", {
+    apiVersion: "v1alpha",
+    body: {
+      uses: 1,
+      expireTime: expireTime.toISOString(),
+      // The session has to start within a minute
+      newSessionExpireTime: new Date(Date.now() + 60 * 1000).toISOString(),
+    },
+  });
+  return token.name;
+}
+
 /**
  * Estimate the cost of a Gemini call without actually making it
  * Useful for showing users estimated costs before confirming
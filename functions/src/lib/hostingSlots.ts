@@ -0,0 +1,177 @@
+/**
+ * Hosting Slots
+ *
+ * Every hosted website, draft or production, holds one of the user's
+ * hosting slots; users/{uid}.hostingSlotsUsed counts them. A website
+ * records that it holds a slot in slotReserved, so websites published
+ * before slots were enforced are never released twice. When a plan ends
+ * up with fewer slots than websites, the websites over the limit are
+ * suspended: they stay online but can't be updated or promoted until
+ * slots free up again.
+ */
+
+import * as admin from "firebase-admin";
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import { WebsiteStatus } from "../types";
+
+const getDb = () => admin.firestore();
+
+interface SlotWebsite {
+  status?: WebsiteStatus;
+  slotReserved?: boolean;
+  hostingMode?: "preview" | "production";
+  updatedAt?: Timestamp;
+}
+
+/**
+ * Take one of the user's hosting slots (atomic Firestore transaction)
+ *
+ * The caller records slotReserved on the website, or gives the slot back
+ * with releaseReservedSlot if publishing fails.
+ *
+ * @throws Error with message "HOSTING_SLOT_LIMIT" if every slot is in use
+ * @throws Error if user is not found
+ */
+export async function reserveHostingSlot(userId: string): Promise<void> {
+  const db = getDb();
+  const userRef = db.collection("users").doc(userId);
+
+  await db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+
+    if (!userDoc.exists) {
+      throw new Error(`User not found: ${userId}`);
+    }
+
+    const hostingSlots = userDoc.data()?.hostingSlots || 0;
+    const hostingSlotsUsed = userDoc.data()?.hostingSlotsUsed || 0;
+
+    if (hostingSlotsUsed >= hostingSlots) {
+      throw new Error("HOSTING_SLOT_LIMIT");
+    }
+
+    transaction.update(userRef, {
+      hostingSlotsUsed: hostingSlotsUsed + 1,
+      updatedAt: Timestamp.now(),
+    });
+  });
+}
+
+/**
+ * Give back a slot taken by reserveHostingSlot that no website holds
+ */
+export async function releaseReservedSlot(userId: string): Promise<void> {
+  const db = getDb();
+  const userRef = db.collection("users").doc(userId);
+
+  await db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    if (!userDoc.exists) return;
+
+    transaction.update(userRef, {
+      hostingSlotsUsed: Math.max(0, (userDoc.data()?.hostingSlotsUsed || 0) - 1),
+      updatedAt: Timestamp.now(),
+    });
+  });
+}
+
+/**
+ * Delete a website's record, or mark an expired preview as expired, and
+ * release its slot in the same transaction
+ */
+export async function releaseWebsiteSlot(
+  websiteRef: admin.firestore.DocumentReference,
+  outcome: "deleted" | "expired"
+): Promise<void> {
+  const db = getDb();
+
+  await db.runTransaction(async (transaction) => {
+    const websiteDoc = await transaction.get(websiteRef);
+    if (!websiteDoc.exists) return;
+
+    const website = websiteDoc.data() as SlotWebsite & { userId: string };
+    const userRef = db.collection("users").doc(website.userId);
+    const userDoc = website.slotReserved ? await transaction.get(userRef) : null;
+
+    if (userDoc?.exists) {
+      transaction.update(userRef, {
+        hostingSlotsUsed: Math.max(0, (userDoc.data()?.hostingSlotsUsed || 0) - 1),
+        updatedAt: Timestamp.now(),
+      });
+    }
+
+    if (outcome === "deleted") {
+      transaction.delete(websiteRef);
+    } else {
+      transaction.update(websiteRef, {
+        status: "expired",
+        slotReserved: false,
+        suspendedAt: FieldValue.delete(),
+        updatedAt: Timestamp.now(),
+      });
+    }
+  });
+}
+
+/**
+ * Fit the user's websites into their hosting slots (atomic Firestore
+ * transaction)
+ *
+ * Every website that isn't expired holds a slot, including websites
+ * published before slots were enforced. Production websites are kept
+ * active first, then the most recently updated drafts; the rest are
+ * suspended. Suspended websites that fit again are reactivated, and
+ * hostingSlotsUsed is recounted.
+ *
+ * @returns The number of websites left active and suspended
+ */
+export async function applyHostingSlotLimit(
+  userId: string
+): Promise<{ active: number; suspended: number }> {
+  const db = getDb();
+  const userRef = db.collection("users").doc(userId);
+  const websitesQuery = db.collection("websites").where("userId", "==", userId);
+
+  return db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+
+    if (!userDoc.exists) {
+      throw new Error(`User not found: ${userId}`);
+    }
+
+    const websitesSnapshot = await transaction.get(websitesQuery);
+    const hostingSlots = userDoc.data()?.hostingSlots || 0;
+
+    const hosted = websitesSnapshot.docs
+      .filter((doc) => (doc.data() as SlotWebsite).status !== "expired")
+      .sort((a, b) => {
+        const websiteA = a.data() as SlotWebsite;
+        const websiteB = b.data() as SlotWebsite;
+        const productionA = websiteA.hostingMode === "production" ? 1 : 0;
+        const productionB = websiteB.hostingMode === "production" ? 1 : 0;
+        if (productionA !== productionB) return productionB - productionA;
+        return (websiteB.updatedAt?.toMillis() || 0) - (websiteA.updatedAt?.toMillis() || 0);
+      });
+
+    const now = Timestamp.now();
+    hosted.forEach((doc, index) => {
+      const website = doc.data() as SlotWebsite;
+      const status: WebsiteStatus = index < hostingSlots ? "active" : "suspended";
+      if (website.slotReserved && (website.status || "active") === status) return;
+
+      transaction.update(doc.ref, {
+        status,
+        slotReserved: true,
+        suspendedAt: status === "suspended" ? now : FieldValue.delete(),
+      });
+    });
+
+    transaction.update(userRef, {
+      hostingSlotsUsed: hosted.length,
+      updatedAt: now,
+    });
+
+    const active = Math.min(hosted.length, hostingSlots);
+    return { active, suspended: hosted.length - active };
+  });
+}
@@ -0,0 +1,243 @@
+/**
+ * Invoice PDF Renderer
+ *
+ * Renders a client invoice and its sender branding into a PDF buffer.
+ * Layout mirrors the invoice preview in the web app.
+ */
+
+import PDFDocument from "pdfkit";
+import {
+  formatInvoiceAmount,
+  getInvoiceBalance,
+  getInvoiceCurrency,
+  toMillis,
+} from "./clientInvoices";
+import { ClientInvoice } from "../types";
+
+/**
+ * Client details printed in the "Bill To" block
+ */
+export interface InvoiceRecipient {
+  businessName: string;
+  location?: string;
+  email?: string;
+  phone?: string;
+}
+
+const BRAND_COLOR = "#7c3aed";
+const TEXT_COLOR = "#1f2937";
+const MUTED_COLOR = "#6b7280";
+const BORDER_COLOR = "#e5e7eb";
+
+const PAGE_MARGIN = 50;
+
+const formatDate = (value: unknown): string => {
+  const millis = toMillis(value);
+  if (millis === undefined) return "—";
+  return new Date(millis).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+};
+
+/**
+ * Render an invoice to a PDF
+ *
+ * @param invoice - The invoice to render
+ * @param recipient - The client the invoice is billed to
+ * @returns PDF file contents
+ */
+export function renderInvoicePdf(
+  invoice: ClientInvoice,
+  recipient: InvoiceRecipient
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: PAGE_MARGIN,
+      info: {
+        Title: `Invoice ${invoice.invoiceNumber}`,
+        Author: invoice.sender?.company || invoice.sender?.name || "Renova8",
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const pageWidth = doc.page.width - PAGE_MARGIN * 2;
+    const left = PAGE_MARGIN;
+    const right = PAGE_MARGIN + pageWidth;
+    const sender = invoice.sender || {};
+    const currency = getInvoiceCurrency(invoice);
+    const money = (amount: number) => formatInvoiceAmount(amount, currency);
+
+    // Header band with sender branding
+    doc.rect(0, 0, doc.page.width, 120).fill(BRAND_COLOR);
+    doc.fillColor("#ffffff").font("Helvetica-Bold").fontSize(20)
+      .text(sender.company || sender.name || "Invoice", left, 35, { width: pageWidth / 2 });
+
+    const senderLines = [
+      sender.company && sender.name ? sender.name : undefined,
+      sender.address,
+      sender.city,
+      sender.phone,
+      sender.email,
+      sender.website,
+    ].filter(Boolean) as string[];
+
+    doc.font("Helvetica").fontSize(9)
+      .text(senderLines.join("\n"), left, 62, { width: pageWidth / 2 });
+
+    doc.font("Helvetica-Bold").fontSize(24)
+      .text("INVOICE", left, 35, { width: pageWidth, align: "right" });
+    doc.font("Helvetica").fontSize(11)
+      .text(invoice.invoiceNumber, left, 66, { width: pageWidth, align: "right" });
+
+    // Dates and Bill To
+    let y = 145;
+    doc.fillColor(MUTED_COLOR).font("Helvetica-Bold").fontSize(8)
+      .text("BILL TO", left, y);
+    doc.text("INVOICE DATE", left + pageWidth * 0.55, y);
+    doc.text("DUE DATE", left + pageWidth * 0.8, y);
+
+    y += 14;
+    doc.fillColor(TEXT_COLOR).font("Helvetica-Bold").fontSize(12)
+      .text(recipient.businessName, left, y, { width: pageWidth * 0.5 });
+    doc.font("Helvetica").fontSize(10)
+      .text(formatDate(invoice.createdAt), left + pageWidth * 0.55, y)
+      .text(formatDate(invoice.dueDate), left + pageWidth * 0.8, y);
+
+    const recipientLines = [recipient.location, recipient.email, recipient.phone]
+      .filter(Boolean) as string[];
+    doc.fillColor(MUTED_COLOR).fontSize(9)
+      .text(recipientLines.join("\n"), left, y + 18, { width: pageWidth * 0.5 });
+
+    if (invoice.billingPeriod) {
+      doc.font("Helvetica-Bold").fontSize(8)
+        .text("BILLING PERIOD", left + pageWidth * 0.55, y + 26);
+      doc.fillColor(TEXT_COLOR).font("Helvetica").fontSize(10)
+        .text(
+          `${formatDate(invoice.billingPeriod.start)} – ${formatDate(invoice.billingPeriod.end)}`,
+          left + pageWidth * 0.55,
+          y + 40
+        );
+    }
+
+    // Line items
+    y = 260;
+    const columns = {
+      description: left,
+      quantity: left + pageWidth * 0.55,
+      unitPrice: left + pageWidth * 0.68,
+      amount: left + pageWidth * 0.84,
+    };
+    const columnWidth = pageWidth * 0.16;
+
+    doc.rect(left, y, pageWidth, 22).fill("#f3f4f6");
+    doc.fillColor(MUTED_COLOR).font("Helvetica-Bold").fontSize(8);
+    doc.text("DESCRIPTION", columns.description + 8, y + 7);
+    doc.text("QTY", columns.quantity, y + 7, { width: pageWidth * 0.1, align: "right" });
+    doc.text("UNIT PRICE", columns.unitPrice, y + 7, { width: columnWidth - 8, align: "right" });
+    doc.text("AMOUNT", columns.amount, y + 7, { width: columnWidth - 8, align: "right" });
+    y += 30;
+
+    doc.fillColor(TEXT_COLOR).font("Helvetica").fontSize(10);
+    for (const item of invoice.items || []) {
+      const rowHeight = Math.max(
+        18,
+        doc.heightOfString(item.description, { width: pageWidth * 0.5 }) + 8
+      );
+
+      if (y + rowHeight > doc.page.height - 200) {
+        doc.addPage();
+        y = PAGE_MARGIN;
+      }
+
+      doc.text(item.description, columns.description + 8, y, { width: pageWidth * 0.5 });
+      doc.text(String(item.quantity), columns.quantity, y, { width: pageWidth * 0.1, align: "right" });
+      doc.text(money(item.unitPrice), columns.unitPrice, y, { width: columnWidth - 8, align: "right" });
+      doc.text(money(item.quantity * item.unitPrice), columns.amount, y, { width: columnWidth - 8, align: "right" });
+
+      y += rowHeight;
+      doc.moveTo(left, y - 4).lineTo(right, y - 4).strokeColor(BORDER_COLOR).lineWidth(0.5).stroke();
+    }
+
+    // Totals
+    y += 10;
+    const labelX = left + pageWidth * 0.55;
+    const labelWidth = pageWidth * 0.28;
+    const valueX = columns.amount;
+
+    const totalRow = (label: string, value: string, bold = false) => {
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(bold ? 12 : 10)
+        .fillColor(bold ? TEXT_COLOR : MUTED_COLOR)
+        .text(label, labelX, y, { width: labelWidth, align: "right" });
+      doc.fillColor(TEXT_COLOR)
+        .text(value, valueX, y, { width: columnWidth - 8, align: "right" });
+      y += bold ? 22 : 16;
+    };
+
+    totalRow("Subtotal", money(invoice.subtotal || 0));
+    if (invoice.discount) {
+      const discountAmount = invoice.discountType === "percentage"
+        ? (invoice.subtotal || 0) * (invoice.discount / 100)
+        : invoice.discount;
+      totalRow(
+        invoice.discountType === "percentage" ? `Discount (${invoice.discount}%)` : "Discount",
+        `-${money(discountAmount)}`
+      );
+    }
+    if (invoice.taxLines && invoice.taxLines.length > 0) {
+      for (const line of invoice.taxLines) {
+        totalRow(
+          `${line.name} (${line.rate}%${line.compound ? ", compound" : ""})`,
+          money(line.amount)
+        );
+      }
+    } else if (invoice.taxRate) {
+      totalRow(`Tax (${invoice.taxRate}%)`, money(invoice.taxAmount || 0));
+    }
+    doc.moveTo(labelX, y - 4).lineTo(right, y - 4).strokeColor(BORDER_COLOR).stroke();
+    y += 4;
+    totalRow(`Total (${currency})`, money(invoice.total), true);
+
+    if (invoice.paidAmount) {
+      totalRow("Paid", `-${money(invoice.paidAmount)}`);
+      totalRow("Balance Due", money(getInvoiceBalance(invoice)), true);
+    }
+
+    // Online payment link
+    if (invoice.paymentLink && invoice.paymentLink.expiresAt > Date.now() && getInvoiceBalance(invoice) > 0) {
+      y += 6;
+      doc.font("Helvetica-Bold").fontSize(10).fillColor(BRAND_COLOR)
+        .text("Pay online", left, y, { link: invoice.paymentLink.url, underline: true });
+      y += 18;
+    }
+
+    // Notes and terms
+    y += 10;
+    if (invoice.notes) {
+      doc.fillColor(MUTED_COLOR).font("Helvetica-Bold").fontSize(8).text("NOTES", left, y);
+      doc.fillColor(TEXT_COLOR).font("Helvetica").fontSize(10)
+        .text(invoice.notes, left, y + 12, { width: pageWidth });
+      y = doc.y + 14;
+    }
+    if (invoice.terms) {
+      doc.fillColor(MUTED_COLOR).font("Helvetica-Bold").fontSize(8).text("TERMS & CONDITIONS", left, y);
+      doc.font("Helvetica").fontSize(9)
+        .text(invoice.terms, left, y + 12, { width: pageWidth });
+    }
+
+    // Footer
+    doc.fillColor(MUTED_COLOR).font("Helvetica").fontSize(9)
+      .text("Thank you for your business!", left, doc.page.height - PAGE_MARGIN - 12, {
+        width: pageWidth,
+        align: "center",
+      });
+
+    doc.end();
+  });
+}
@@ -0,0 +1,109 @@
+/**
+ * Lead Discovery Helpers
+ *
+ * Cleans up businesses returned by a saved search and tells which of them
+ * the user already knows about, either as a customer or from an earlier run.
+ */
+
+import { DiscoveredLead } from "../types";
+
+export type DiscoveredBusiness = Omit<
+  DiscoveredLead,
+  "id" | "searchId" | "query" | "searchLocation" | "discoveredAt" | "status"
+>;
+
+/**
+ * Identity of a business for matching: normalized name, phone digits and
+ * website domain
+ */
+export interface BusinessKey {
+  name: string;
+  phone: string;
+  domain: string;
+}
+
+// Words that vary between listings of the same business
+const NAME_NOISE = /\b(the|and|llc|inc|ltd|co|company|corp|corporation)\b/g;
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+const optionalNumber = (value: unknown): number | undefined =>
+  typeof value === "number" && isFinite(value) && value >= 0 ? value : undefined;
+
+export function normalizeBusinessName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(NAME_NOISE, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function getBusinessKey(business: {
+  businessName?: string;
+  phone?: string;
+  existingWebsiteUrl?: string;
+}): BusinessKey {
+  // Last 10 digits so "+1 (555) 010-2000" matches "555-010-2000"
+  const phone = (business.phone || "").replace(/\D/g, "").slice(-10);
+  let domain = "";
+  try {
+    const url = business.existingWebsiteUrl || "";
+    domain = url ? new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`).hostname.replace(/^www\./, "") : "";
+  } catch {
+    // Unparseable website, match on name and phone only
+  }
+
+  return {
+    name: normalizeBusinessName(business.businessName || ""),
+    phone: phone.length >= 7 ? phone : "",
+    domain,
+  };
+}
+
+/**
+ * Whether a business matches any of the known keys
+ */
+export function isKnownBusiness(key: BusinessKey, known: BusinessKey[]): boolean {
+  return known.some((other) =>
+    (key.name !== "" && key.name === other.name) ||
+    (key.phone !== "" && key.phone === other.phone) ||
+    (key.domain !== "" && key.domain === other.domain)
+  );
+}
+
+/**
+ * Validate the businesses returned by the model, dropping unnamed entries
+ */
+export function parseDiscoveredBusinesses(raw: unknown): DiscoveredBusiness[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((item): DiscoveredBusiness[] => {
+    const businessName = optionalString(item?.businessName);
+    if (!businessName) return [];
+
+    const phone = optionalString(item.phone);
+    const email = optionalString(item.email);
+    const category = optionalString(item.category);
+    const rating = optionalNumber(item.rating);
+    const reviewCount = optionalNumber(item.reviewCount);
+    const existingWebsiteUrl = optionalString(item.website);
+
+    // Firestore rejects undefined, so optional fields are only set when present
+    return [{
+      businessName,
+      location: optionalString(item.location) || "",
+      details: optionalString(item.details) || "",
+      ...(phone ? { phone } : {}),
+      ...(email ? { email } : {}),
+      ...(category ? { category } : {}),
+      ...(rating !== undefined ? { rating } : {}),
+      ...(reviewCount !== undefined ? { reviewCount: Math.round(reviewCount) } : {}),
+      ...(existingWebsiteUrl ? { existingWebsiteUrl } : {}),
+    }];
+  });
+}
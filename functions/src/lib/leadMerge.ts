@@ -0,0 +1,114 @@
+/**
+ * Lead Merge Helpers
+ *
+ * Combines two lead documents into one and resolves lead IDs that were
+ * removed by a merge.
+ */
+
+import * as admin from "firebase-admin";
+import { FollowUpSequence, LeadMergeRecord } from "../types";
+
+type LeadData = FirebaseFirestore.DocumentData;
+
+// Record arrays combined by id, with the field each is ordered by. History,
+// communications and invoices are sub-collections, moved by mergeLeads.
+const MERGED_COLLECTIONS: { field: string; orderBy: string }[] = [
+  { field: "recurringInvoices", orderBy: "createdAt" },
+  { field: "quotes", orderBy: "createdAt" },
+  { field: "tasks", orderBy: "createdAt" },
+];
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined || value === null || value === "";
+
+const toMillis = (value: unknown): number => {
+  if (value instanceof admin.firestore.Timestamp) return value.toMillis();
+  return typeof value === "number" ? value : Number.MAX_SAFE_INTEGER;
+};
+
+/**
+ * Reference to a user's lead merge record
+ */
+export function getLeadMergeRef(userId: string, leadId: string): FirebaseFirestore.DocumentReference {
+  return admin.firestore().collection("users").doc(userId).collection("leadMerges").doc(leadId);
+}
+
+/**
+ * Reference to a lead, following a merge if the lead was folded into another
+ */
+export async function resolveLeadRef(
+  userId: string,
+  leadId: string
+): Promise<FirebaseFirestore.DocumentReference> {
+  const leadRef = admin.firestore().collection("users").doc(userId).collection("customers").doc(leadId);
+  if ((await leadRef.get()).exists) return leadRef;
+
+  const merge = await getLeadMergeRef(userId, leadId).get();
+  if (!merge.exists) return leadRef;
+
+  const { mergedInto } = merge.data() as LeadMergeRecord;
+  return leadRef.parent.doc(mergedInto);
+}
+
+/**
+ * Combine a duplicate lead into the primary one
+ *
+ * Recurring templates, quotes and tasks from both leads are kept
+ * (deduplicated by id). Any other field comes from the
+ * primary lead, falling back to the duplicate where the primary is blank.
+ */
+export function mergeLeadData(primary: LeadData, duplicate: LeadData): LeadData {
+  const merged: LeadData = { ...primary };
+
+  for (const [key, value] of Object.entries(duplicate)) {
+    if (isBlank(merged[key]) && !isBlank(value)) {
+      merged[key] = value;
+    }
+  }
+
+  for (const { field, orderBy } of MERGED_COLLECTIONS) {
+    const records = new Map<string, LeadData>();
+    for (const record of [...(duplicate[field] || []), ...(primary[field] || [])]) {
+      // Primary wins on id collisions
+      records.set(record.id, record);
+    }
+    if (records.size > 0) {
+      merged[field] = Array.from(records.values())
+        .sort((a, b) => (a[orderBy] || 0) - (b[orderBy] || 0));
+    }
+  }
+
+  // Keep the earliest date the business was added
+  if (primary.addedAt && duplicate.addedAt && toMillis(duplicate.addedAt) < toMillis(primary.addedAt)) {
+    merged.addedAt = duplicate.addedAt;
+  }
+
+  if (!primary.dealValue && duplicate.dealValue) {
+    merged.dealValue = duplicate.dealValue;
+    merged.dealCurrency = duplicate.dealCurrency || primary.dealCurrency;
+  }
+
+  // Tags from both (ignoring case); custom field values fill in blanks
+  const tags = new Map<string, string>();
+  for (const tag of [...(primary.tags || []), ...(duplicate.tags || [])]) {
+    if (!tags.has(String(tag).toLowerCase())) tags.set(String(tag).toLowerCase(), tag);
+  }
+  if (tags.size > 0) merged.tags = Array.from(tags.values());
+
+  if (duplicate.customFields) {
+    merged.customFields = { ...duplicate.customFields };
+    for (const [fieldId, value] of Object.entries(primary.customFields || {})) {
+      if (!isBlank(value)) merged.customFields[fieldId] = value;
+    }
+  }
+
+  // An active follow-up sequence on the duplicate carries over unless the
+  // primary is already running one
+  const primarySequence: FollowUpSequence | undefined = primary.followUpSequence;
+  const duplicateSequence: FollowUpSequence | undefined = duplicate.followUpSequence;
+  if (duplicateSequence?.status === "active" && primarySequence?.status !== "active") {
+    merged.followUpSequence = duplicateSequence;
+  }
+
+  return merged;
+}
@@ -0,0 +1,237 @@
+/**
+ * Lead Records
+ *
+ * A lead's history, communications and invoices are stored one document per
+ * record in sub-collections of users/{uid}/customers/{leadId}. Data URLs and
+ * long content (website code, the concept image, large history content) are
+ * Storage objects under customers/{uid}/{leadId}/ referenced by path.
+ *
+ * Lead documents written before this layout kept all of it inline and have
+ * no storageVersion. They are migrated when a function first needs their
+ * records, or in bulk by migrateCustomerStorage.
+ */
+
+import * as admin from "firebase-admin";
+import { LEAD_SCAN_PAGE_SIZE, MAX_INLINE_HISTORY_CONTENT_LENGTH } from "../config";
+import { ClientHistoryItem, LeadRecordCollection, StoredContentEncoding } from "../types";
+
+type LeadRef = FirebaseFirestore.DocumentReference;
+type LeadData = FirebaseFirestore.DocumentData;
+
+export const LEAD_STORAGE_VERSION = 2;
+
+export const LEAD_RECORD_COLLECTIONS: LeadRecordCollection[] = ["history", "communications", "invoices"];
+
+// Lead fields whose value may be moved to Storage, with the field holding its path
+const LEAD_FILE_FIELDS = [
+  { field: "websiteCode", pathField: "websiteCodePath", name: "website", contentType: "text/html; charset=utf-8" },
+  { field: "websiteConceptImage", pathField: "websiteConceptImagePath", name: "concept-image" },
+];
+
+const DATA_URL_PATTERN = /^data:([^;,]*)((?:;[^;,]*)*),/;
+
+export function isLegacyLead(data: LeadData): boolean {
+  return data.storageVersion !== LEAD_STORAGE_VERSION;
+}
+
+/**
+ * Visit every users/{uid}/customers/{leadId} document, reading them a page
+ * at a time so no run holds all leads in memory
+ */
+export async function forEachUserLead(
+  visit: (leadDoc: FirebaseFirestore.QueryDocumentSnapshot) => Promise<void>
+): Promise<void> {
+  const query = admin.firestore()
+    .collectionGroup("customers")
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .limit(LEAD_SCAN_PAGE_SIZE);
+
+  let page = await query.get();
+  while (!page.empty) {
+    for (const leadDoc of page.docs) {
+      if (leadDoc.ref.parent.parent?.parent.id !== "users") continue;
+      await visit(leadDoc);
+    }
+    if (page.size < LEAD_SCAN_PAGE_SIZE) return;
+    page = await query.startAfter(page.docs[page.docs.length - 1]).get();
+  }
+}
+
+export function getLeadRecordRef(
+  leadRef: LeadRef,
+  collection: LeadRecordCollection,
+  recordId: string
+): FirebaseFirestore.DocumentReference {
+  return leadRef.collection(collection).doc(recordId);
+}
+
+/**
+ * Document data for a record. The owner and lead ids let the app query one
+ * kind of record across all its leads.
+ */
+export function toLeadRecordData<T extends { id: string }>(leadRef: LeadRef, record: T): LeadData {
+  return { ...record, ownerId: leadRef.parent.parent!.id, leadId: leadRef.id };
+}
+
+function fromLeadRecordDoc<T>(doc: FirebaseFirestore.DocumentSnapshot): T {
+  const { ownerId: _ownerId, leadId: _leadId, ...record } = doc.data()!;
+  return { ...record, id: doc.id } as T;
+}
+
+/**
+ * All records of one kind on a lead, read in the transaction when one is given
+ */
+export async function getLeadRecords<T>(
+  leadRef: LeadRef,
+  collection: LeadRecordCollection,
+  transaction?: FirebaseFirestore.Transaction
+): Promise<T[]> {
+  const query = leadRef.collection(collection);
+  const snapshot = transaction ? await transaction.get(query) : await query.get();
+  return snapshot.docs.map((doc) => fromLeadRecordDoc<T>(doc));
+}
+
+/**
+ * One record of a lead, or null when it doesn't exist
+ */
+export async function getLeadRecord<T>(
+  leadRef: LeadRef,
+  collection: LeadRecordCollection,
+  recordId: string,
+  transaction?: FirebaseFirestore.Transaction
+): Promise<T | null> {
+  const recordRef = getLeadRecordRef(leadRef, collection, recordId);
+  const doc = transaction ? await transaction.get(recordRef) : await recordRef.get();
+  return doc.exists ? fromLeadRecordDoc<T>(doc) : null;
+}
+
+export function getLeadStoragePath(leadRef: LeadRef, name: string): string {
+  return `customers/${leadRef.parent.parent!.id}/${leadRef.id}/${name}`;
+}
+
+/**
+ * How a value is stored when it moves to Storage, or null to keep it inline
+ */
+export function getContentEncoding(content: unknown): StoredContentEncoding | null {
+  if (typeof content === "string") {
+    if (DATA_URL_PATTERN.test(content)) return "data_url";
+    return content.length > MAX_INLINE_HISTORY_CONTENT_LENGTH ? "text" : null;
+  }
+  if (content && typeof content === "object") {
+    return JSON.stringify(content).length > MAX_INLINE_HISTORY_CONTENT_LENGTH ? "json" : null;
+  }
+  return null;
+}
+
+async function saveLeadFile(
+  path: string,
+  content: unknown,
+  encoding: StoredContentEncoding,
+  textContentType = "text/plain; charset=utf-8"
+): Promise<void> {
+  let body: Buffer;
+  let contentType: string;
+
+  if (encoding === "data_url") {
+    // Stored as the decoded bytes; the app turns them back into a data URL
+    const url = String(content);
+    const match = url.match(DATA_URL_PATTERN)!;
+    const payload = url.slice(match[0].length);
+    body = match[2].includes(";base64")
+      ? Buffer.from(payload, "base64")
+      : Buffer.from(decodeURIComponent(payload));
+    contentType = match[1] || "application/octet-stream";
+  } else if (encoding === "json") {
+    body = Buffer.from(JSON.stringify(content));
+    contentType = "application/json";
+  } else {
+    body = Buffer.from(String(content));
+    contentType = textContentType;
+  }
+
+  await admin.storage().bucket().file(path).save(body, { contentType, resumable: false });
+}
+
+async function moveHistoryContent(leadRef: LeadRef, item: ClientHistoryItem): Promise<ClientHistoryItem> {
+  const encoding = getContentEncoding(item.content);
+  if (!encoding) return item;
+
+  const contentPath = getLeadStoragePath(leadRef, `history/${item.id}`);
+  await saveLeadFile(contentPath, item.content, encoding);
+  return { ...item, content: "", contentPath, contentEncoding: encoding };
+}
+
+/**
+ * Move a legacy lead's record arrays to sub-collections and its large
+ * content to Storage. Records already in a sub-collection (written by a
+ * newer app while the lead was still legacy) win over the array copies.
+ *
+ * Returns false when the lead needed no migration, or changed while its
+ * files were uploading; it is then picked up again next time.
+ */
+export async function migrateLeadDocument(leadRef: LeadRef): Promise<boolean> {
+  const snapshot = await leadRef.get();
+  if (!snapshot.exists || !isLegacyLead(snapshot.data()!)) return false;
+  const data = snapshot.data()!;
+
+  // Upload files first; a failed run leaves the document as it was and the
+  // next one overwrites them
+  const updates: LeadData = { storageVersion: LEAD_STORAGE_VERSION };
+  for (const { field, pathField, name, contentType } of LEAD_FILE_FIELDS) {
+    const encoding = getContentEncoding(data[field]);
+    if (!encoding) continue;
+
+    const path = getLeadStoragePath(leadRef, name);
+    await saveLeadFile(path, data[field], encoding, contentType);
+    updates[pathField] = path;
+    updates[field] = admin.firestore.FieldValue.delete();
+  }
+
+  const history: ClientHistoryItem[] = await Promise.all(
+    (Array.isArray(data.history) ? data.history : [])
+      .filter((item: ClientHistoryItem) => item?.id)
+      .map((item: ClientHistoryItem) => moveHistoryContent(leadRef, item))
+  );
+
+  return admin.firestore().runTransaction(async (transaction) => {
+    const fresh = await transaction.get(leadRef);
+    if (!fresh.exists || !isLegacyLead(fresh.data()!)) return false;
+
+    const uploaded = ["history", ...LEAD_FILE_FIELDS.map(({ field }) => field)];
+    if (uploaded.some((field) => JSON.stringify(fresh.get(field)) !== JSON.stringify(data[field]))) {
+      return false;
+    }
+
+    const existing = await Promise.all(
+      LEAD_RECORD_COLLECTIONS.map((collection) => transaction.get(leadRef.collection(collection)))
+    );
+
+    LEAD_RECORD_COLLECTIONS.forEach((collection, index) => {
+      const existingIds = new Set(existing[index].docs.map((doc) => doc.id));
+      const records: { id: string }[] = collection === "history"
+        ? history
+        : (Array.isArray(fresh.get(collection)) ? fresh.get(collection) : []).filter((record: LeadData) => record?.id);
+
+      for (const record of records) {
+        if (existingIds.has(String(record.id))) continue;
+        transaction.set(
+          getLeadRecordRef(leadRef, collection, String(record.id)),
+          toLeadRecordData(leadRef, record)
+        );
+      }
+      updates[collection] = admin.firestore.FieldValue.delete();
+    });
+
+    transaction.update(leadRef, updates);
+    return true;
+  });
+}
+
+/**
+ * Migrate a lead first if it still uses the legacy layout
+ */
+export async function ensureLeadMigrated(lead: FirebaseFirestore.DocumentSnapshot): Promise<void> {
+  if (lead.exists && isLegacyLead(lead.data()!)) {
+    await migrateLeadDocument(lead.ref);
+  }
+}
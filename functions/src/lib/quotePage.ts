@@ -0,0 +1,186 @@
+/**
+ * Quote Acceptance Page
+ *
+ * Renders the public page a client opens from a shared quote link. The page
+ * is plain server-rendered HTML with two forms (accept / decline) that post
+ * back to the quotePage function.
+ */
+
+import { formatInvoiceAmount } from "./clientInvoices";
+import { ClientQuote } from "../types";
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const formatDate = (millis: number): string =>
+  new Date(millis).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+
+const PAGE_STYLES = `
+  * { box-sizing: border-box; margin: 0; padding: 0; }
+  body { font-family: 'Segoe UI', Tahoma, sans-serif; background: #f9fafb; color: #1f2937; padding: 32px 16px; }
+  .card { max-width: 720px; margin: 0 auto; background: #fff; border-radius: 16px; box-shadow: 0 1px 3px rgba(0,0,0,0.08); overflow: hidden; }
+  .header { background: #7c3aed; color: #fff; padding: 24px 32px; display: flex; justify-content: space-between; gap: 16px; }
+  .header h1 { font-size: 22px; }
+  .header p { opacity: 0.85; font-size: 14px; }
+  .body { padding: 32px; }
+  .muted { color: #6b7280; font-size: 13px; }
+  .label { color: #9ca3af; font-size: 11px; font-weight: bold; text-transform: uppercase; margin-bottom: 4px; }
+  table { width: 100%; border-collapse: collapse; margin: 24px 0; font-size: 14px; }
+  th { text-align: left; color: #6b7280; font-size: 11px; text-transform: uppercase; border-bottom: 2px solid #e5e7eb; padding: 8px 0; }
+  td { padding: 10px 0; border-bottom: 1px solid #f3f4f6; }
+  .num { text-align: right; }
+  .totals { margin-left: auto; width: 280px; font-size: 14px; }
+  .totals div { display: flex; justify-content: space-between; padding: 4px 0; }
+  .totals .grand { font-size: 18px; font-weight: bold; border-top: 2px solid #e5e7eb; margin-top: 6px; padding-top: 10px; }
+  .notice { border-radius: 12px; padding: 16px; margin-top: 24px; font-size: 14px; }
+  .notice.success { background: #dcfce7; color: #166534; }
+  .notice.warning { background: #fef3c7; color: #92400e; }
+  .notice.error { background: #fee2e2; color: #991b1b; }
+  .actions { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; margin-top: 32px; }
+  form { background: #f9fafb; border-radius: 12px; padding: 16px; }
+  input, textarea { width: 100%; border: 1px solid #d1d5db; border-radius: 8px; padding: 8px 12px; font: inherit; margin: 8px 0 12px; }
+  button { width: 100%; border: 0; border-radius: 8px; padding: 10px; font-weight: bold; font-size: 14px; cursor: pointer; }
+  .accept { background: #16a34a; color: #fff; }
+  .decline { background: #e5e7eb; color: #374151; }
+  .text { white-space: pre-wrap; font-size: 14px; margin-top: 16px; }
+  @media (max-width: 600px) { .actions { grid-template-columns: 1fr; } .header { flex-direction: column; } }
+`;
+
+const renderDocument = (title: string, body: string): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)}</title>
+<style>${PAGE_STYLES}</style>
+</head>
+<body>${body}</body>
+</html>`;
+
+/**
+ * Render a simple page with a title and message (unknown links, errors)
+ */
+export function renderQuoteMessagePage(title: string, message: string): string {
+  return renderDocument(
+    title,
+    `<div class="card"><div class="body"><h1>${escapeHtml(title)}</h1><p class="muted" style="margin-top: 8px;">${escapeHtml(message)}</p></div></div>`
+  );
+}
+
+/**
+ * Render a quote with accept/decline forms while it is still open
+ *
+ * @param quote - The quote to render
+ * @param clientName - Business name of the client the quote was issued to
+ * @param formError - Validation message from a rejected form submission
+ */
+export function renderQuotePage(
+  quote: ClientQuote,
+  clientName: string,
+  formError?: string
+): string {
+  const currency = quote.currency || "USD";
+  const money = (amount: number) => escapeHtml(formatInvoiceAmount(amount, currency));
+  const sender = quote.sender || {};
+  const senderName = sender.company || sender.name || "Quote";
+  const isExpired = quote.status === "sent" && quote.expiresAt < Date.now();
+
+  const itemRows = quote.items
+    .map(
+      (item) => `<tr>
+        <td>${escapeHtml(item.description)}</td>
+        <td class="num">${Number(item.quantity)}</td>
+        <td class="num">${money(item.unitPrice)}</td>
+        <td class="num">${money(item.quantity * item.unitPrice)}</td>
+      </tr>`
+    )
+    .join("");
+
+  const discountAmount = quote.discountType === "percentage"
+    ? quote.subtotal * (quote.discount / 100)
+    : quote.discount;
+  const taxRows = (quote.taxLines && quote.taxLines.length > 0
+    ? quote.taxLines
+    : quote.taxRate > 0 ? [{ name: "Tax", rate: quote.taxRate, amount: quote.taxAmount }] : []
+  )
+    .map((line) => `<div><span>${escapeHtml(line.name)} (${Number(line.rate)}%)</span><span>${money(line.amount)}</span></div>`)
+    .join("");
+
+  let status: string;
+  if (quote.status === "accepted") {
+    status = `<div class="notice success">Accepted by ${escapeHtml(quote.acceptedBy || "the client")}${quote.respondedAt ? ` on ${formatDate(quote.respondedAt)}` : ""}. An invoice has been issued and will be sent to you.</div>`;
+  } else if (quote.status === "declined") {
+    status = `<div class="notice warning">This quote was declined${quote.respondedAt ? ` on ${formatDate(quote.respondedAt)}` : ""}.</div>`;
+  } else if (isExpired) {
+    status = `<div class="notice warning">This quote expired on ${formatDate(quote.expiresAt)}. Please contact ${escapeHtml(senderName)} for an updated quote.</div>`;
+  } else {
+    status = `${formError ? `<div class="notice error">${escapeHtml(formError)}</div>` : ""}
+    <div class="actions">
+      <form method="post">
+        <input type="hidden" name="action" value="accept">
+        <p class="label">Accept this quote</p>
+        <label class="muted" for="name">Your full name</label>
+        <input id="name" name="name" maxlength="100" required>
+        <button class="accept" type="submit">Accept Quote</button>
+      </form>
+      <form method="post">
+        <input type="hidden" name="action" value="decline">
+        <p class="label">Decline</p>
+        <label class="muted" for="reason">Reason (optional)</label>
+        <textarea id="reason" name="reason" rows="2" maxlength="500"></textarea>
+        <button class="decline" type="submit">Decline Quote</button>
+      </form>
+    </div>`;
+  }
+
+  const senderLines = [sender.address, sender.city, sender.email, sender.phone]
+    .filter(Boolean)
+    .map((line) => escapeHtml(line as string))
+    .join(" · ");
+
+  return renderDocument(
+    `Quote ${quote.quoteNumber} from ${senderName}`,
+    `<div class="card">
+      <div class="header">
+        <div>
+          <h1>${escapeHtml(senderName)}</h1>
+          ${senderLines ? `<p>${senderLines}</p>` : ""}
+        </div>
+        <div style="text-align: right;">
+          <p>QUOTE</p>
+          <h1>${escapeHtml(quote.quoteNumber)}</h1>
+        </div>
+      </div>
+      <div class="body">
+        <div style="display: flex; justify-content: space-between; gap: 16px;">
+          <div><p class="label">Prepared For</p><p><strong>${escapeHtml(clientName)}</strong></p></div>
+          <div><p class="label">Date</p><p>${formatDate(quote.createdAt)}</p></div>
+          <div><p class="label">Valid Until</p><p>${formatDate(quote.expiresAt)}</p></div>
+        </div>
+        <table>
+          <thead><tr><th>Description</th><th class="num">Qty</th><th class="num">Price</th><th class="num">Amount</th></tr></thead>
+          <tbody>${itemRows}</tbody>
+        </table>
+        <div class="totals">
+          <div><span>Subtotal</span><span>${money(quote.subtotal)}</span></div>
+          ${quote.discount > 0 ? `<div><span>Discount</span><span>-${money(discountAmount)}</span></div>` : ""}
+          ${taxRows}
+          <div class="grand"><span>Total (${escapeHtml(currency)})</span><span>${money(quote.total)}</span></div>
+        </div>
+        ${quote.notes ? `<p class="label" style="margin-top: 24px;">Notes</p><p class="text">${escapeHtml(quote.notes)}</p>` : ""}
+        ${quote.terms ? `<p class="label" style="margin-top: 24px;">Terms</p><p class="text muted">${escapeHtml(quote.terms)}</p>` : ""}
+        ${status}
+      </div>
+    </div>`
+  );
+}
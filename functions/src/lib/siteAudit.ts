@@ -0,0 +1,296 @@
+/**
+ * Site Audit
+ *
+ * Builds a structured report on a prospect's existing website: performance
+ * hints, mobile support, meta tags and structured data, broken links,
+ * accessibility problems and HTTPS. Checks work on the raw HTML of the home
+ * page; nothing is rendered or executed.
+ */
+
+import { MAX_AUDITED_LINKS, SLOW_RESPONSE_MS } from "../config";
+import { SiteAuditIssue, SiteAuditReport, WebsiteSignals } from "../types";
+import {
+  fetchWebsite,
+  getUnreachableSignals,
+  getWebsiteSignals,
+  requestPublicUrl,
+} from "./websiteSignals";
+
+// Pages above this are slow on mobile connections before any images load
+const LARGE_HTML_BYTES = 150 * 1024;
+const OUTDATED_COPYRIGHT_YEARS = 3;
+
+const countMatches = (html: string, pattern: RegExp): number => (html.match(pattern) || []).length;
+
+const getHead = (html: string): string => html.match(/<head[\s>][\s\S]*?<\/head>/i)?.[0] || "";
+
+const getTags = (html: string, tag: string): string[] =>
+  html.match(new RegExp(`<${tag}\\b[^>]*>`, "gi")) || [];
+
+const hasAttribute = (tag: string, name: string): boolean =>
+  new RegExp(`\\s${name}(?:\\s*=|[\\s/>])`, "i").test(tag);
+
+const plural = (count: number, word: string): string => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+const have = (count: number): string => (count === 1 ? "has" : "have");
+
+// ============================================
+// Checks
+// ============================================
+
+function checkPerformance(html: string, pageBytes: number, responseTimeMs: number): SiteAuditIssue[] {
+  const issues: SiteAuditIssue[] = [];
+
+  if (responseTimeMs > SLOW_RESPONSE_MS) {
+    issues.push({
+      category: "performance",
+      severity: "high",
+      message: `The home page took ${(responseTimeMs / 1000).toFixed(1)} seconds to load`,
+    });
+  }
+  if (pageBytes > LARGE_HTML_BYTES) {
+    issues.push({
+      category: "performance",
+      severity: "medium",
+      message: `The home page HTML alone is ${Math.round(pageBytes / 1024)} KB`,
+    });
+  }
+
+  const blockingScripts = getTags(getHead(html), "script")
+    .filter(tag => hasAttribute(tag, "src") && !hasAttribute(tag, "async") && !hasAttribute(tag, "defer"));
+  if (blockingScripts.length >= 3) {
+    issues.push({
+      category: "performance",
+      severity: "medium",
+      message: `${plural(blockingScripts.length, "script")} in the page head delay it from showing`,
+    });
+  }
+
+  const images = getTags(html, "img");
+  const eagerImages = images.filter(tag => !/\sloading\s*=\s*["']?lazy/i.test(tag));
+  if (images.length > 5 && eagerImages.length === images.length) {
+    issues.push({
+      category: "performance",
+      severity: "low",
+      message: `All ${images.length} images load up front instead of as visitors scroll`,
+    });
+  }
+
+  return issues;
+}
+
+function checkMeta(html: string): SiteAuditIssue[] {
+  const issues: SiteAuditIssue[] = [];
+  const head = getHead(html) || html;
+
+  const title = head.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1].trim();
+  if (!title) {
+    issues.push({ category: "seo", severity: "high", message: "The page has no title for search results" });
+  }
+  if (!/<meta[^>]+name=["']?description["']?[^>]*content=["'][^"']+/i.test(head) &&
+      !/<meta[^>]+content=["'][^"']+["'][^>]*name=["']?description["']?/i.test(head)) {
+    issues.push({ category: "seo", severity: "medium", message: "No meta description, so search engines guess what to show" });
+  }
+  if (!/<script[^>]+application\/ld\+json/i.test(html) && !/\sitemscope[\s>]/i.test(html)) {
+    issues.push({
+      category: "seo",
+      severity: "medium",
+      message: "No structured data (schema.org), so hours, address and reviews don't show in search",
+    });
+  }
+  if (!/<meta[^>]+property=["']?og:(title|image)/i.test(head)) {
+    issues.push({ category: "seo", severity: "low", message: "No Open Graph tags, so shared links have no preview" });
+  }
+  if (!/<link[^>]+rel=["']?canonical/i.test(head)) {
+    issues.push({ category: "seo", severity: "low", message: "No canonical URL" });
+  }
+  if (!/<h1[\s>]/i.test(html)) {
+    issues.push({ category: "seo", severity: "medium", message: "The page has no main heading (h1)" });
+  }
+
+  return issues;
+}
+
+function checkAccessibility(html: string): SiteAuditIssue[] {
+  const issues: SiteAuditIssue[] = [];
+
+  const missingAlt = getTags(html, "img").filter(tag => !hasAttribute(tag, "alt")).length;
+  if (missingAlt > 0) {
+    issues.push({
+      category: "accessibility",
+      severity: missingAlt >= 5 ? "high" : "medium",
+      message: `${plural(missingAlt, "image")} ${have(missingAlt)} no alt text for screen readers`,
+    });
+  }
+
+  const htmlTag = getTags(html, "html")[0];
+  if (htmlTag && !hasAttribute(htmlTag, "lang")) {
+    issues.push({ category: "accessibility", severity: "low", message: "The page doesn't declare its language" });
+  }
+
+  const labelledIds = new Set(
+    (html.match(/<label[^>]+for=["']?([^"'\s>]+)/gi) || []).map(label => label.replace(/.*for=["']?/i, ""))
+  );
+  const unlabelledInputs = [...getTags(html, "input"), ...getTags(html, "select"), ...getTags(html, "textarea")]
+    .filter(tag => !/type=["']?(hidden|submit|button|image|reset)/i.test(tag))
+    .filter(tag => {
+      const id = tag.match(/\sid=["']?([^"'\s>]+)/i)?.[1];
+      return !(id && labelledIds.has(id)) && !hasAttribute(tag, "aria-label") && !hasAttribute(tag, "aria-labelledby");
+    }).length;
+  if (unlabelledInputs > 0) {
+    issues.push({
+      category: "accessibility",
+      severity: "medium",
+      message: `${plural(unlabelledInputs, "form field")} ${have(unlabelledInputs)} no label`,
+    });
+  }
+
+  const emptyLinks = countMatches(html, /<a\b(?![^>]*aria-label)[^>]*>\s*<\/a>/gi);
+  if (emptyLinks > 0) {
+    issues.push({ category: "accessibility", severity: "low", message: `${plural(emptyLinks, "link")} ${have(emptyLinks)} no text` });
+  }
+
+  return issues;
+}
+
+function checkSecurityAndContent(html: string, signals: WebsiteSignals): SiteAuditIssue[] {
+  const issues: SiteAuditIssue[] = [];
+
+  if (!signals.https) {
+    issues.push({
+      category: "security",
+      severity: "high",
+      message: "The site isn't served over HTTPS, so browsers mark it \"Not secure\"",
+    });
+  } else if (/\s(?:src|href)=["']?http:\/\/[^"'\s>]+\.(?:js|css|png|jpe?g|gif|webp|svg)/i.test(html)) {
+    issues.push({ category: "security", severity: "medium", message: "Some scripts, styles or images load over insecure HTTP" });
+  }
+
+  if (!signals.mobileViewport) {
+    issues.push({
+      category: "mobile",
+      severity: "high",
+      message: "The site isn't set up for phones, so visitors have to pinch and zoom",
+    });
+  }
+
+  if (signals.copyrightYear && signals.copyrightYear <= new Date().getFullYear() - OUTDATED_COPYRIGHT_YEARS) {
+    issues.push({
+      category: "content",
+      severity: "medium",
+      message: `The copyright notice still says ${signals.copyrightYear}, so the site looks unmaintained`,
+    });
+  }
+  (signals.legacyMarkup || []).forEach(label => {
+    issues.push({
+      category: "content",
+      severity: label === "Flash content" ? "high" : "low",
+      message: `Uses outdated markup: ${label}`,
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Same-site and external links on the page, absolute and de-duplicated
+ */
+function getLinks(html: string, baseUrl: URL): string[] {
+  const links = new Set<string>();
+
+  for (const match of html.matchAll(/<a\b[^>]*\shref=["']?([^"'\s>]+)/gi)) {
+    try {
+      const url = new URL(match[1].replace(/&amp;/g, "&"), baseUrl);
+      if (url.protocol !== "http:" && url.protocol !== "https:") continue;
+      url.hash = "";
+      if (url.href !== baseUrl.href) links.add(url.href);
+    } catch {
+      // Ignore malformed hrefs
+    }
+  }
+
+  return [...links].slice(0, MAX_AUDITED_LINKS);
+}
+
+/**
+ * Whether a link fails to load. Some servers reject HEAD, so those are
+ * retried with GET.
+ */
+async function isBrokenLink(link: string): Promise<boolean> {
+  try {
+    let { response } = await requestPublicUrl(link, "HEAD");
+    if (response.status === 405 || response.status === 501) {
+      ({ response } = await requestPublicUrl(link, "GET"));
+      await response.body?.cancel().catch(() => undefined);
+    }
+    return response.status >= 400;
+  } catch {
+    return true;
+  }
+}
+
+// ============================================
+// Audit
+// ============================================
+
+/**
+ * Audit a website. An unreachable site produces a report with that single
+ * issue rather than an error.
+ */
+export async function auditWebsite(url: string): Promise<SiteAuditReport> {
+  const checkedAt = Date.now();
+
+  let page: { finalUrl: URL; html: string };
+  let responseTimeMs: number;
+  try {
+    page = await fetchWebsite(url);
+    responseTimeMs = Date.now() - checkedAt;
+  } catch (error) {
+    const signals = getUnreachableSignals(url, checkedAt, error);
+    return {
+      url,
+      checkedAt,
+      signals,
+      issues: [{ category: "links", severity: "high", message: `The website could not be loaded (${signals.error})` }],
+      linksChecked: 0,
+      brokenLinks: [],
+    };
+  }
+
+  const { finalUrl, html } = page;
+  const pageBytes = Buffer.byteLength(html, "utf8");
+  const signals = getWebsiteSignals(url, checkedAt, finalUrl, html);
+
+  const links = getLinks(html, finalUrl);
+  const linkResults = await Promise.all(links.map(isBrokenLink));
+  const brokenLinks = links.filter((_, i) => linkResults[i]);
+
+  const issues: SiteAuditIssue[] = [
+    ...checkSecurityAndContent(html, signals),
+    ...checkPerformance(html, pageBytes, responseTimeMs),
+    ...checkMeta(html),
+    ...checkAccessibility(html),
+  ];
+  if (brokenLinks.length > 0) {
+    issues.push({
+      category: "links",
+      severity: brokenLinks.length >= 3 ? "high" : "medium",
+      message: `${plural(brokenLinks.length, "link")} on the home page ${brokenLinks.length === 1 ? "is" : "are"} broken`,
+    });
+  }
+
+  const severityOrder = { high: 0, medium: 1, low: 2 };
+  issues.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
+
+  return {
+    url,
+    checkedAt,
+    finalUrl: finalUrl.href,
+    responseTimeMs,
+    pageBytes,
+    signals,
+    issues,
+    linksChecked: links.length,
+    brokenLinks,
+  };
+}
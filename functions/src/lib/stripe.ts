@@ -165,6 +165,177 @@ export async function createCheckoutSession(
   return session.url;
 }
 
+/**
+ * Metadata marker for Checkout sessions that pay a client invoice rather
+ * than a platform token pack
+ */
+export const CLIENT_INVOICE_CHECKOUT_PURPOSE = "client_invoice";
+
+/**
+ * Currencies Stripe charges in whole units rather than cents
+ * @see https://stripe.com/docs/currencies#zero-decimal
+ */
+const ZERO_DECIMAL_CURRENCIES = new Set([
+  "bif", "clp", "djf", "gnf", "jpy", "kmf", "krw", "mga",
+  "pyg", "rwf", "ugx", "vnd", "vuv", "xaf", "xof", "xpf",
+]);
+
+/**
+ * Convert an amount to Stripe's smallest currency unit
+ */
+export function toStripeAmount(amount: number, currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.has(currency.toLowerCase())
+    ? Math.round(amount)
+    : Math.round(amount * 100);
+}
+
+/**
+ * Convert an amount in Stripe's smallest currency unit back to a decimal amount
+ */
+export function fromStripeAmount(amount: number, currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.has(currency.toLowerCase()) ? amount : amount / 100;
+}
+
+/**
+ * Create a Stripe Express account through which a user is paid by their
+ * own clients
+ *
+ * @param userId - Firebase user ID (used as metadata)
+ * @param email - User's email address
+ * @returns Connected account ID
+ */
+export async function createConnectedAccount(userId: string, email: string): Promise<string> {
+  const stripe = getStripe();
+
+  const account = await stripe.accounts.create({
+    type: "express",
+    email,
+    capabilities: {
+      card_payments: { requested: true },
+      transfers: { requested: true },
+    },
+    metadata: {
+      firebaseUserId: userId,
+    },
+  });
+
+  functions.logger.info(`Created connected account ${account.id} for user ${userId}`);
+  return account.id;
+}
+
+/**
+ * Create a link to Stripe's onboarding for a connected account
+ *
+ * @param accountId - Connected account ID
+ * @param refreshUrl - Where Stripe sends the user when the link has expired
+ * @param returnUrl - Where Stripe sends the user when they leave onboarding
+ * @returns The onboarding URL
+ */
+export async function createConnectOnboardingLink(
+  accountId: string,
+  refreshUrl: string,
+  returnUrl: string
+): Promise<string> {
+  const stripe = getStripe();
+
+  const link = await stripe.accountLinks.create({
+    account: accountId,
+    refresh_url: refreshUrl,
+    return_url: returnUrl,
+    type: "account_onboarding",
+  });
+
+  return link.url;
+}
+
+/**
+ * Whether a connected account has finished onboarding and can take card payments
+ *
+ * @param accountId - Connected account ID
+ */
+export async function canAcceptPayments(accountId: string): Promise<boolean> {
+  const stripe = getStripe();
+  const account = await stripe.accounts.retrieve(accountId);
+  return account.charges_enabled === true;
+}
+
+/**
+ * Parameters for creating a client invoice payment session
+ */
+interface CreateInvoicePaymentSessionParams {
+  userId: string;
+  /** The user's connected account, which is paid directly */
+  connectedAccountId: string;
+  leadId: string;
+  invoiceId: string;
+  invoiceNumber: string;
+  description: string;
+  /** Amount in the currency's smallest unit (see toStripeAmount) */
+  unitAmount: number;
+  currency: string;
+  customerEmail?: string;
+  successUrl: string;
+  cancelUrl: string;
+  expiresAt: number;
+}
+
+/**
+ * Create a one-off Stripe Checkout Session that lets a user's client pay an
+ * invoice. The session lives on the user's connected account, so the payment
+ * goes to the user; its webhook events come from that account.
+ *
+ * @param params - Invoice payment session parameters
+ * @returns The checkout session ID and URL
+ */
+export async function createInvoicePaymentSession(
+  params: CreateInvoicePaymentSessionParams
+): Promise<{ sessionId: string; url: string }> {
+  const stripe = getStripe();
+
+  const metadata = {
+    purpose: CLIENT_INVOICE_CHECKOUT_PURPOSE,
+    userId: params.userId,
+    leadId: params.leadId,
+    invoiceId: params.invoiceId,
+  };
+
+  const session = await stripe.checkout.sessions.create({
+    mode: "payment",
+    payment_method_types: ["card"],
+    line_items: [
+      {
+        price_data: {
+          currency: params.currency,
+          unit_amount: params.unitAmount,
+          product_data: {
+            name: `Invoice ${params.invoiceNumber}`,
+            ...(params.description && { description: params.description.slice(0, 500) }),
+          },
+        },
+        quantity: 1,
+      },
+    ],
+    metadata,
+    payment_intent_data: { metadata },
+    ...(params.customerEmail && { customer_email: params.customerEmail }),
+    success_url: params.successUrl,
+    cancel_url: params.cancelUrl,
+    expires_at: Math.floor(params.expiresAt / 1000),
+  }, {
+    stripeAccount: params.connectedAccountId,
+  });
+
+  if (!session.url) {
+    throw new Error("Failed to create checkout session URL");
+  }
+
+  functions.logger.info(
+    `Created invoice payment session ${session.id} for user ${params.userId}, invoice ${params.invoiceId}`
+  );
+
+  return { sessionId: session.id, url: session.url };
+}
+
 /**
  * Cancel a Stripe subscription
  *
@@ -209,6 +380,10 @@ export async function getSubscription(
 /**
  * Verify a Stripe webhook signature
  *
+ * Events of connected accounts are signed by their own endpoint's secret,
+ * STRIPE_CONNECT_WEBHOOK_SECRET, which is tried when the platform secret
+ * doesn't match.
+ *
  * @param payload - Raw request body
  * @param signature - Stripe signature header
  * @returns Verified Stripe event
@@ -220,6 +395,7 @@ export function verifyWebhookSignature(
 ): Stripe.Event {
   const stripe = getStripe();
   const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+  const connectWebhookSecret = process.env.STRIPE_CONNECT_WEBHOOK_SECRET;
 
   if (!webhookSecret) {
     throw new Error(
@@ -228,7 +404,12 @@ export function verifyWebhookSignature(
     );
   }
 
-  return stripe.webhooks.constructEvent(payload, signature, webhookSecret);
+  try {
+    return stripe.webhooks.constructEvent(payload, signature, webhookSecret);
+  } catch (error) {
+    if (!connectWebhookSecret) throw error;
+    return stripe.webhooks.constructEvent(payload, signature, connectWebhookSecret);
+  }
 }
 
 /**
@@ -0,0 +1,90 @@
+/**
+ * Website Releases
+ *
+ * Every deployment of a website is recorded at
+ * websites/{websiteId}/releases/{releaseId} with the Hosting version it
+ * released and a snapshot of its HTML in Storage, at
+ * websiteReleases/{userId}/{websiteId}/{releaseId}.html. Rolling back
+ * re-releases an earlier version, or redeploys its snapshot when the
+ * version can't be released where the website lives now.
+ */
+
+import * as admin from "firebase-admin";
+import { Timestamp } from "firebase-admin/firestore";
+import { MAX_RELEASE_SUMMARY_LENGTH } from "../config";
+import { WebsiteRelease } from "../types";
+
+type NewRelease = Omit<WebsiteRelease, "id" | "websiteId" | "storagePath" | "createdAt">;
+
+// A rollback shares the snapshot of the release it restored
+type ReleaseSnapshot = { htmlContent: string } | { storagePath: string };
+
+function getSnapshotPath(userId: string, websiteId: string, releaseId: string): string {
+  return `websiteReleases/${userId}/${websiteId}/${releaseId}.html`;
+}
+
+/**
+ * Trim a client-provided change summary to what a release stores
+ */
+export function normalizeReleaseSummary(summary: unknown): string | undefined {
+  if (typeof summary !== "string") return undefined;
+  const trimmed = summary.trim();
+  return trimmed ? trimmed.substring(0, MAX_RELEASE_SUMMARY_LENGTH) : undefined;
+}
+
+/**
+ * Record a deployment of a website, saving its HTML snapshot first.
+ * Leave optional fields out rather than undefined; Firestore rejects them.
+ *
+ * @returns The ID of the new release
+ */
+export async function recordRelease(
+  websiteRef: admin.firestore.DocumentReference,
+  release: NewRelease,
+  snapshot: ReleaseSnapshot
+): Promise<string> {
+  const releaseRef = websiteRef.collection("releases").doc();
+
+  let storagePath: string;
+  if ("storagePath" in snapshot) {
+    storagePath = snapshot.storagePath;
+  } else {
+    storagePath = getSnapshotPath(release.authorId, websiteRef.id, releaseRef.id);
+    await admin.storage().bucket().file(storagePath).save(snapshot.htmlContent, {
+      contentType: "text/html; charset=utf-8",
+      resumable: false,
+    });
+  }
+
+  const data: WebsiteRelease = {
+    ...release,
+    id: releaseRef.id,
+    websiteId: websiteRef.id,
+    storagePath,
+    createdAt: Timestamp.now(),
+  };
+
+  await releaseRef.create(data);
+  return releaseRef.id;
+}
+
+/**
+ * Read the HTML snapshot of a release
+ */
+export async function getReleaseHtml(release: WebsiteRelease): Promise<string> {
+  const [content] = await admin.storage().bucket().file(release.storagePath).download();
+  return content.toString("utf-8");
+}
+
+/**
+ * Delete a website's releases and their snapshots
+ */
+export async function deleteReleases(
+  websiteRef: admin.firestore.DocumentReference,
+  userId: string
+): Promise<void> {
+  await admin.firestore().recursiveDelete(websiteRef.collection("releases"));
+  await admin.storage().bucket().deleteFiles({
+    prefix: `websiteReleases/${userId}/${websiteRef.id}/`,
+  });
+}
@@ -0,0 +1,211 @@
+/**
+ * Website Signals
+ *
+ * Fetches a lead's existing website and extracts the signals used for lead
+ * scoring: HTTPS, a mobile viewport, copyright year, CMS generator and
+ * legacy markup. Only public http(s) hosts are fetched.
+ */
+
+import { promises as dns } from "dns";
+import * as net from "net";
+import {
+  MAX_INSPECTED_HTML_BYTES,
+  MAX_WEBSITE_REDIRECTS,
+  WEBSITE_INSPECTION_TIMEOUT_MS,
+} from "../config";
+import { WebsiteSignals } from "../types";
+
+const LEGACY_MARKUP_PATTERNS: { label: string; pattern: RegExp }[] = [
+  { label: "Flash content", pattern: /\.swf\b|application\/x-shockwave-flash/i },
+  { label: "Frameset layout", pattern: /<frameset[\s>]/i },
+  { label: "<font> tags", pattern: /<font[\s>]/i },
+  { label: "<marquee> tags", pattern: /<marquee[\s>]/i },
+  { label: "<center> tags", pattern: /<center>/i },
+];
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split(".").map(Number);
+    return a === 0 || a === 10 || a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224;
+  }
+
+  const normalized = address.toLowerCase();
+  if (normalized.startsWith("::ffff:")) {
+    return isPrivateAddress(normalized.slice(7));
+  }
+  return normalized === "::" || normalized === "::1" ||
+    normalized.startsWith("fc") || normalized.startsWith("fd") ||
+    normalized.startsWith("fe80");
+}
+
+/**
+ * Reject URLs that are not public http(s) addresses
+ */
+export async function assertPublicUrl(url: URL): Promise<void> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error("Only http and https websites can be checked");
+  }
+  if (url.port && url.port !== "80" && url.port !== "443") {
+    throw new Error("Non-standard ports are not checked");
+  }
+
+  const addresses = await dns.lookup(url.hostname, { all: true });
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error("Website does not resolve to a public address");
+  }
+}
+
+/**
+ * Read at most MAX_INSPECTED_HTML_BYTES of a response body
+ */
+async function readLimitedText(response: Response): Promise<string> {
+  if (!response.body) return "";
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (total < MAX_INSPECTED_HTML_BYTES) {
+    const { done, value } = await reader.read();
+    if (done || !value) break;
+    chunks.push(value);
+    total += value.length;
+  }
+  await reader.cancel().catch(() => undefined);
+
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * Request a public URL, validating every redirect hop. The caller owns the
+ * returned response body.
+ */
+export async function requestPublicUrl(
+  startUrl: string,
+  method: "GET" | "HEAD" = "GET"
+): Promise<{ finalUrl: URL; response: Response }> {
+  let url = new URL(startUrl);
+
+  for (let hop = 0; hop <= MAX_WEBSITE_REDIRECTS; hop++) {
+    await assertPublicUrl(url);
+
+    const response = await fetch(url, {
+      method,
+      redirect: "manual",
+      signal: AbortSignal.timeout(WEBSITE_INSPECTION_TIMEOUT_MS),
+      headers: { "User-Agent": "Mozilla/5.0 (compatible; Renova8SiteCheck/1.0)" },
+    });
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel().catch(() => undefined);
+      url = new URL(location, url);
+      continue;
+    }
+
+    return { finalUrl: url, response };
+  }
+
+  throw new Error("Too many redirects");
+}
+
+async function fetchPage(startUrl: string): Promise<{ finalUrl: URL; html: string }> {
+  const { finalUrl, response } = await requestPublicUrl(startUrl);
+  if (!response.ok) {
+    await response.body?.cancel().catch(() => undefined);
+    throw new Error(`Website responded with ${response.status}`);
+  }
+  return { finalUrl, html: await readLimitedText(response) };
+}
+
+/**
+ * Fetch a website's home page. Sites stored without a scheme are tried over
+ * HTTPS first.
+ */
+export async function fetchWebsite(url: string): Promise<{ finalUrl: URL; html: string }> {
+  return /^[a-z]+:\/\//i.test(url)
+    ? fetchPage(url)
+    : fetchPage(`https://${url}`).catch(() => fetchPage(`http://${url}`));
+}
+
+/**
+ * Latest plausible year in a copyright notice
+ */
+function findCopyrightYear(html: string): number | undefined {
+  const currentYear = new Date().getFullYear();
+  const pattern = /(?:©|&copy;|&#169;|copyright)[^<\d]{0,30}((?:19|20)\d{2})(?:\s*[-–]\s*((?:19|20)\d{2}))?/gi;
+  let latest: number | undefined;
+
+  for (const match of html.matchAll(pattern)) {
+    for (const year of [match[1], match[2]].filter(Boolean).map(Number)) {
+      if (year <= currentYear && (!latest || year > latest)) latest = year;
+    }
+  }
+
+  return latest;
+}
+
+function findGenerator(html: string): string | undefined {
+  const match = html.match(/<meta[^>]+name=["']?generator["']?[^>]+content=["']([^"']+)["']/i) ||
+    html.match(/<meta[^>]+content=["']([^"']+)["'][^>]+name=["']?generator["']?/i);
+  return match?.[1].trim().slice(0, 100) || undefined;
+}
+
+/**
+ * Signals found in a fetched page
+ */
+export function getWebsiteSignals(url: string, checkedAt: number, finalUrl: URL, html: string): WebsiteSignals {
+  const copyrightYear = findCopyrightYear(html);
+  const generator = findGenerator(html);
+  const legacyMarkup = LEGACY_MARKUP_PATTERNS
+    .filter(({ pattern }) => pattern.test(html))
+    .map(({ label }) => label);
+
+  return {
+    url,
+    checkedAt,
+    reachable: true,
+    https: finalUrl.protocol === "https:",
+    mobileViewport: /<meta[^>]+name=["']?viewport["']?/i.test(html),
+    ...(copyrightYear ? { copyrightYear } : {}),
+    ...(generator ? { generator } : {}),
+    ...(legacyMarkup.length > 0 ? { legacyMarkup } : {}),
+  };
+}
+
+/**
+ * Signals for a website that could not be fetched
+ */
+export function getUnreachableSignals(url: string, checkedAt: number, error: unknown): WebsiteSignals {
+  return {
+    url,
+    checkedAt,
+    reachable: false,
+    https: false,
+    mobileViewport: false,
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * Inspect one website. Failures are reported as an unreachable result.
+ */
+export async function inspectWebsite(url: string): Promise<WebsiteSignals> {
+  const checkedAt = Date.now();
+
+  try {
+    const { finalUrl, html } = await fetchWebsite(url);
+    return getWebsiteSignals(url, checkedAt, finalUrl, html);
+  } catch (error) {
+    return getUnreachableSignals(url, checkedAt, error);
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Lead Merging
+ *
+ * Folds a duplicate lead into another one. The merge runs server-side so
+ * that quote acceptance links and payment links issued for the duplicate
+ * keep working after it is removed.
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { getLeadMergeRef, mergeLeadData } from "./lib/leadMerge";
+import {
+  LEAD_RECORD_COLLECTIONS,
+  ensureLeadMigrated,
+  getLeadRecordRef,
+  toLeadRecordData,
+} from "./lib/leadRecords";
+import { LeadMergeRecord, MergeLeadsRequest, MergeLeadsResponse } from "./types";
+
+// Get Firestore instance
+const getDb = () => admin.firestore();
+
+/**
+ * Callable function: Merge a duplicate lead into a primary lead
+ *
+ * Request body:
+ * - primaryLeadId: string - The lead that is kept
+ * - duplicateLeadId: string - The lead that is folded in and removed
+ *
+ * Returns:
+ * - lead: The merged lead (addedAt in milliseconds)
+ *
+ * @requires Authentication - User must own both leads
+ */
+export const mergeLeads = functions.https.onCall(
+  async (data: MergeLeadsRequest, context): Promise<MergeLeadsResponse> => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "You must be logged in to merge customers."
+      );
+    }
+
+    const userId = context.auth.uid;
+    const { primaryLeadId, duplicateLeadId } = data || {};
+
+    if (!primaryLeadId || !duplicateLeadId) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Both customer IDs are required."
+      );
+    }
+
+    if (primaryLeadId === duplicateLeadId) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Choose two different customers to merge."
+      );
+    }
+
+    try {
+      const db = getDb();
+      const customersRef = db.collection("users").doc(userId).collection("customers");
+      const primaryRef = customersRef.doc(primaryLeadId);
+      const duplicateRef = customersRef.doc(duplicateLeadId);
+
+      await ensureLeadMigrated(await primaryRef.get());
+      await ensureLeadMigrated(await duplicateRef.get());
+
+      const merged = await db.runTransaction(async (transaction) => {
+        const [primaryDoc, duplicateDoc] = await Promise.all([
+          transaction.get(primaryRef),
+          transaction.get(duplicateRef),
+        ]);
+
+        if (!primaryDoc.exists || !duplicateDoc.exists) {
+          throw new functions.https.HttpsError("not-found", "Customer not found.");
+        }
+
+        // Records of both leads, shared quote links and earlier merges that
+        // point at the duplicate
+        const [primaryRecords, duplicateRecords, quoteLinks, earlierMerges] = await Promise.all([
+          Promise.all(LEAD_RECORD_COLLECTIONS.map((collection) => transaction.get(primaryRef.collection(collection)))),
+          Promise.all(LEAD_RECORD_COLLECTIONS.map((collection) => transaction.get(duplicateRef.collection(collection)))),
+          transaction.get(
+            db.collection("quoteLinks")
+              .where("userId", "==", userId)
+              .where("leadId", "==", duplicateLeadId)
+          ),
+          transaction.get(
+            db.collection("users").doc(userId).collection("leadMerges")
+              .where("mergedInto", "==", duplicateLeadId)
+          ),
+        ]);
+
+        const mergedData = mergeLeadData(primaryDoc.data()!, duplicateDoc.data()!);
+        const record: LeadMergeRecord = { mergedInto: primaryLeadId, mergedAt: Date.now() };
+
+        transaction.set(primaryRef, mergedData);
+
+        // Move the duplicate's records over; the primary wins on id collisions
+        LEAD_RECORD_COLLECTIONS.forEach((collection, index) => {
+          const primaryIds = new Set(primaryRecords[index].docs.map((doc) => doc.id));
+          for (const recordDoc of duplicateRecords[index].docs) {
+            if (!primaryIds.has(recordDoc.id)) {
+              transaction.set(
+                getLeadRecordRef(primaryRef, collection, recordDoc.id),
+                toLeadRecordData(primaryRef, { ...recordDoc.data(), id: recordDoc.id })
+              );
+            }
+            transaction.delete(recordDoc.ref);
+          }
+        });
+
+        quoteLinks.docs.forEach((link) => transaction.update(link.ref, { leadId: primaryLeadId }));
+        earlierMerges.docs.forEach((merge) => transaction.update(merge.ref, { mergedInto: primaryLeadId }));
+        transaction.set(getLeadMergeRef(userId, duplicateLeadId), record);
+        transaction.delete(duplicateRef);
+
+        return mergedData;
+      });
+
+      functions.logger.info(
+        `Merged lead ${duplicateLeadId} into ${primaryLeadId} for user ${userId}`
+      );
+
+      const addedAt = merged.addedAt instanceof admin.firestore.Timestamp
+        ? merged.addedAt.toMillis()
+        : merged.addedAt;
+
+      return { lead: { ...merged, ...(addedAt ? { addedAt } : {}), id: primaryLeadId } };
+    } catch (error: any) {
+      functions.logger.error(
+        `Error merging lead ${duplicateLeadId} into ${primaryLeadId} for user ${userId}:`,
+        error
+      );
+
+      // Re-throw HttpsErrors as-is
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to merge customers. Please try again."
+      );
+    }
+  }
+);
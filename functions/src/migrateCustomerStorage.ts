@@ -0,0 +1,70 @@
+/**
+ * Customer Storage Migration
+ *
+ * Moves the user's customer documents that still keep history,
+ * communications, invoices and website files inline over to sub-collections
+ * and Storage. The app calls this when it loads legacy documents.
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { MAX_LEADS_MIGRATED_PER_CALL } from "./config";
+import { isLegacyLead, migrateLeadDocument } from "./lib/leadRecords";
+import { MigrateCustomerStorageRequest, MigrateCustomerStorageResponse } from "./types";
+
+// Get Firestore instance
+const getDb = () => admin.firestore();
+
+/**
+ * Callable function: Migrate legacy customer documents
+ *
+ * Request body:
+ * - leadIds?: string[] - Leads to migrate (defaults to every legacy lead)
+ *
+ * Returns:
+ * - migrated: number - Leads migrated by this call
+ * - remaining: number - Legacy leads left for another call
+ *
+ * @requires Authentication - Only the user's own customers are migrated
+ */
+export const migrateCustomerStorage = functions
+  .runWith({ timeoutSeconds: 300, memory: "1GB" })
+  .https.onCall(async (data: MigrateCustomerStorageRequest, context): Promise<MigrateCustomerStorageResponse> => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "You must be logged in to migrate customers."
+      );
+    }
+
+    const userId = context.auth.uid;
+    const requestedIds = Array.isArray(data?.leadIds) ? data.leadIds.map(String) : null;
+
+    try {
+      const customersRef = getDb().collection("users").doc(userId).collection("customers");
+      const leadDocs = requestedIds
+        ? (await Promise.all(requestedIds.map((leadId) => customersRef.doc(leadId).get())))
+        : (await customersRef.get()).docs;
+
+      const legacy = leadDocs.filter((leadDoc) => leadDoc.exists && isLegacyLead(leadDoc.data()!));
+      let migrated = 0;
+
+      // One lead at a time keeps memory bounded for leads with many files
+      for (const leadDoc of legacy.slice(0, MAX_LEADS_MIGRATED_PER_CALL)) {
+        if (await migrateLeadDocument(leadDoc.ref)) migrated++;
+      }
+
+      functions.logger.info(
+        `Migrated ${migrated} of ${legacy.length} legacy customers for user ${userId}`
+      );
+
+      return { migrated, remaining: Math.max(0, legacy.length - MAX_LEADS_MIGRATED_PER_CALL) };
+    } catch (error: any) {
+      functions.logger.error(`Error migrating customers for user ${userId}:`, error);
+
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to migrate customers. Please try again."
+      );
+    }
+  });
@@ -3,12 +3,56 @@
  *
  * Deploys user-generated HTML websites to Firebase Hosting
  * and stores metadata in Firestore for management.
+ *
+ * New websites are drafts on an expiring preview channel. Promoting a
+ * website gives it a dedicated Hosting site that stays live; later
+ * updates of a promoted website are released there.
+ *
+ * Each hosted website takes one of the user's hosting slots (see
+ * lib/hostingSlots), given back when it is deleted or its preview expires.
+ *
+ * Every deployment is recorded as a release (see lib/websiteReleases)
+ * that the website can be rolled back to.
  */
 
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
 import { Timestamp } from "firebase-admin/firestore";
-import { deployToPreviewChannel } from "./lib/firebaseHosting";
+import {
+  DEFAULT_SITE_ID,
+  createHostingSite,
+  createRelease,
+  deleteHostingSite,
+  deletePreviewChannel,
+  deployHtmlToHosting,
+  deployToPreviewChannel,
+  getSiteUrl,
+} from "./lib/firebaseHosting";
+import {
+  MAX_HOSTING_SITE_ID_LENGTH,
+  MAX_LISTED_RELEASES,
+  PREVIEW_CHANNEL_TTL,
+  PRODUCTION_SITE_PREFIX,
+} from "./config";
+import {
+  applyHostingSlotLimit,
+  releaseReservedSlot,
+  releaseWebsiteSlot,
+  reserveHostingSlot,
+} from "./lib/hostingSlots";
+import {
+  deleteReleases,
+  getReleaseHtml,
+  normalizeReleaseSummary,
+  recordRelease,
+} from "./lib/websiteReleases";
+import {
+  GetWebsiteReleasesResponse,
+  HostingMode,
+  RollbackWebsiteRequest,
+  WebsiteRelease,
+  WebsiteStatus,
+} from "./types";
 
 // Get Firestore instance
 const getDb = () => admin.firestore();
@@ -18,6 +62,13 @@ interface PublishWebsiteRequest {
   htmlContent: string;
   siteName: string;
   leadId?: string;
+  changeSummary?: string;
+}
+
+interface UpdateWebsiteRequest {
+  websiteId: string;
+  htmlContent: string;
+  changeSummary?: string;
 }
 
 interface PublishWebsiteResponse {
@@ -25,9 +76,15 @@ interface PublishWebsiteResponse {
   websiteId: string;
   firebaseUrl: string;
   subdomain: string;
+  hostingMode: HostingMode;
   expireTime?: string;
 }
 
+interface RollbackWebsiteResponse extends PublishWebsiteResponse {
+  releaseId: string;
+  htmlContent: string; // The restored HTML, for the app's copy of the website
+}
+
 interface PublishedWebsite {
   id: string;
   userId: string;
@@ -43,7 +100,14 @@ interface PublishedWebsite {
   updatedAt: Timestamp;
   sslStatus: "provisioning" | "active";
   versionId?: string;
-  expireTime?: string;
+  hostingMode?: HostingMode; // Missing on websites published before promotion existed
+  hostingSiteId?: string; // Dedicated Hosting site of a production website
+  promotedAt?: Timestamp;
+  expireTime?: string; // Preview channel expiry; production websites don't expire
+  status?: WebsiteStatus; // Missing on websites published before slots were enforced
+  slotReserved?: boolean;
+  suspendedAt?: Timestamp;
+  currentReleaseId?: string; // Missing on websites deployed before releases were recorded
 }
 
 /**
@@ -62,6 +126,62 @@ function generateSubdomain(siteName: string, uniqueId: string): string {
   return `${base}-${uniqueId.substring(0, 8)}`;
 }
 
+/**
+ * Generate the ID of a production website's Hosting site. The website ID
+ * suffix keeps it unique; Hosting site IDs are lowercase.
+ */
+function generateHostingSiteId(siteName: string, websiteId: string): string {
+  const suffix = `-${websiteId.substring(0, 8).toLowerCase()}`;
+  const base = siteName
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, "")
+    .replace(/\s+/g, "-")
+    .replace(/-+/g, "-")
+    .substring(0, MAX_HOSTING_SITE_ID_LENGTH - PRODUCTION_SITE_PREFIX.length - suffix.length)
+    .replace(/^-+|-+$/g, "");
+
+  return `${PRODUCTION_SITE_PREFIX}${base || "site"}${suffix}`;
+}
+
+/**
+ * Take a hosting slot for a website about to be deployed
+ */
+async function reserveSlot(userId: string): Promise<void> {
+  try {
+    await reserveHostingSlot(userId);
+  } catch (error) {
+    if (error instanceof Error && error.message === "HOSTING_SLOT_LIMIT") {
+      throw new functions.https.HttpsError(
+        "resource-exhausted",
+        "Hosting slot limit reached. Delete a website or upgrade your plan to publish another one."
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Expired drafts went offline and gave their slot back, so deploying one
+ * again needs a new slot. Returns whether a slot was reserved.
+ */
+async function reserveSlotIfExpired(userId: string, website: PublishedWebsite): Promise<boolean> {
+  if (website.status !== "expired") return false;
+  await reserveSlot(userId);
+  return true;
+}
+
+/**
+ * Suspended websites are read-only until the plan has a slot for them
+ */
+function assertNotSuspended(website: PublishedWebsite): void {
+  if (website.status === "suspended") {
+    throw new functions.https.HttpsError(
+      "failed-precondition",
+      "This website is suspended because your plan has fewer hosting slots than websites. Upgrade your plan or delete another website to edit it."
+    );
+  }
+}
+
 /**
  * Validate HTML content for basic safety
  */
@@ -87,8 +207,8 @@ function validateHtmlContent(html: string): { valid: boolean; error?: string } {
 /**
  * Publish Website - Callable Cloud Function
  *
- * Deploys HTML content to Firebase Hosting preview channel
- * and stores metadata in Firestore.
+ * Deploys HTML content to a Firebase Hosting preview channel as a draft
+ * and stores metadata in Firestore. See promoteWebsite to make it permanent.
  */
 export const publishWebsite = functions.https.onCall(
   async (
@@ -105,6 +225,7 @@ export const publishWebsite = functions.https.onCall(
 
     const userId = context.auth.uid;
     const { htmlContent, siteName, leadId } = data;
+    const summary = normalizeReleaseSummary(data.changeSummary);
 
     // 2. Validate input
     if (!htmlContent) {
@@ -134,34 +255,77 @@ export const publishWebsite = functions.https.onCall(
       const websiteId = db.collection("websites").doc().id;
       const subdomain = generateSubdomain(siteName, websiteId);
 
-      // 3. Deploy to Firebase Hosting preview channel
-      // Using preview channels allows multiple user sites without
-      // needing separate Firebase Hosting sites
-      const deployment = await deployToPreviewChannel(
-        htmlContent,
-        subdomain,
-        "30d" // 30 day TTL - can be renewed on updates
-      );
+      // 3. Take a hosting slot, given back if publishing fails
+      await reserveSlot(userId);
 
-      // 4. Store website metadata in Firestore
-      const now = Timestamp.now();
-      const websiteData: PublishedWebsite = {
-        id: websiteId,
-        userId,
-        leadId: leadId || undefined,
-        name: siteName,
-        subdomain,
-        firebaseUrl: deployment.url,
-        htmlContent, // Store for re-deployments
-        publishedAt: now,
-        updatedAt: now,
-        sslStatus: "active", // Firebase auto-provisions SSL
-        expireTime: deployment.expireTime,
-      };
+      // 4. Deploy to Firebase Hosting preview channel
+      // Drafts share the default site; the TTL is renewed on updates
+      const websiteRef = db.collection("websites").doc(websiteId);
+      let deployment: Awaited<ReturnType<typeof deployToPreviewChannel>> | undefined;
+      try {
+        deployment = await deployToPreviewChannel(
+          htmlContent,
+          subdomain,
+          PREVIEW_CHANNEL_TTL
+        );
+        const releaseId = await recordRelease(
+          websiteRef,
+          {
+            authorId: userId,
+            source: "publish",
+            hostingMode: "preview",
+            hostingSiteId: DEFAULT_SITE_ID,
+            channelId: subdomain,
+            versionId: deployment.versionId,
+            ...(summary && { summary }),
+          },
+          { htmlContent }
+        );
 
-      await db.collection("websites").doc(websiteId).set(websiteData);
+        // 5. Store website metadata in Firestore
+        const now = Timestamp.now();
+        const websiteData: PublishedWebsite = {
+          id: websiteId,
+          userId,
+          leadId: leadId || undefined,
+          name: siteName,
+          subdomain,
+          firebaseUrl: deployment.url,
+          htmlContent, // Store for re-deployments
+          publishedAt: now,
+          updatedAt: now,
+          sslStatus: "active", // Firebase auto-provisions SSL
+          hostingMode: "preview",
+          expireTime: deployment.expireTime,
+          status: "active",
+          slotReserved: true,
+          versionId: deployment.versionId,
+          currentReleaseId: releaseId,
+        };
 
-      // 5. Log the deployment
+        await websiteRef.set(websiteData);
+      } catch (error) {
+        // Nothing points at a draft without its record
+        await releaseReservedSlot(userId);
+        if (deployment) {
+          await deletePreviewChannel(subdomain).catch((cleanupError) => {
+            functions.logger.warn("Failed to delete preview channel", {
+              websiteId,
+              channelId: subdomain,
+              error: cleanupError instanceof Error ? cleanupError.message : "Unknown error",
+            });
+          });
+          await deleteReleases(websiteRef, userId).catch((cleanupError) => {
+            functions.logger.warn("Failed to delete website releases", {
+              websiteId,
+              error: cleanupError instanceof Error ? cleanupError.message : "Unknown error",
+            });
+          });
+        }
+        throw error;
+      }
+
+      // 6. Log the deployment
       functions.logger.info("Website published", {
         websiteId,
         userId,
@@ -174,9 +338,14 @@ export const publishWebsite = functions.https.onCall(
         websiteId,
         firebaseUrl: deployment.url,
         subdomain,
+        hostingMode: "preview",
         expireTime: deployment.expireTime,
       };
     } catch (error) {
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+
       functions.logger.error("Failed to publish website", {
         userId,
         siteName,
@@ -198,7 +367,7 @@ export const publishWebsite = functions.https.onCall(
  */
 export const updateWebsite = functions.https.onCall(
   async (
-    data: { websiteId: string; htmlContent: string },
+    data: UpdateWebsiteRequest,
     context
   ): Promise<PublishWebsiteResponse> => {
     // 1. Validate authentication
@@ -211,6 +380,7 @@ export const updateWebsite = functions.https.onCall(
 
     const userId = context.auth.uid;
     const { websiteId, htmlContent } = data;
+    const summary = normalizeReleaseSummary(data.changeSummary);
 
     // 2. Validate input
     if (!websiteId) {
@@ -247,20 +417,87 @@ export const updateWebsite = functions.https.onCall(
         );
       }
 
-      // 4. Re-deploy to Firebase Hosting
-      const deployment = await deployToPreviewChannel(
-        htmlContent,
-        website.subdomain,
-        "30d"
-      );
+      assertNotSuspended(website);
 
-      // 5. Update Firestore
-      await websiteRef.update({
-        htmlContent,
-        firebaseUrl: deployment.url,
-        updatedAt: Timestamp.now(),
-        expireTime: deployment.expireTime,
-      });
+      // 4. Re-deploy to Firebase Hosting: the website's own site once
+      // promoted, otherwise its preview channel
+      if (website.hostingMode === "production" && website.hostingSiteId) {
+        const deployment = await deployHtmlToHosting(htmlContent, website.hostingSiteId);
+        const releaseId = await recordRelease(
+          websiteRef,
+          {
+            authorId: userId,
+            source: "update",
+            hostingMode: "production",
+            hostingSiteId: website.hostingSiteId,
+            versionId: deployment.versionId,
+            ...(summary && { summary }),
+          },
+          { htmlContent }
+        );
+
+        await websiteRef.update({
+          htmlContent,
+          firebaseUrl: deployment.url,
+          versionId: deployment.versionId,
+          currentReleaseId: releaseId,
+          updatedAt: Timestamp.now(),
+        });
+
+        functions.logger.info("Website updated", {
+          websiteId,
+          userId,
+          url: deployment.url,
+          hostingSiteId: website.hostingSiteId,
+        });
+
+        return {
+          success: true,
+          websiteId,
+          firebaseUrl: deployment.url,
+          subdomain: website.subdomain,
+          hostingMode: "production",
+        };
+      }
+
+      // A slot taken for an expired draft is given back unless it's recorded
+      const reserved = await reserveSlotIfExpired(userId, website);
+      let deployment: Awaited<ReturnType<typeof deployToPreviewChannel>>;
+      try {
+        deployment = await deployToPreviewChannel(
+          htmlContent,
+          website.subdomain,
+          PREVIEW_CHANNEL_TTL
+        );
+
+        const releaseId = await recordRelease(
+          websiteRef,
+          {
+            authorId: userId,
+            source: "update",
+            hostingMode: "preview",
+            hostingSiteId: DEFAULT_SITE_ID,
+            channelId: website.subdomain,
+            versionId: deployment.versionId,
+            ...(summary && { summary }),
+          },
+          { htmlContent }
+        );
+
+        // 5. Update Firestore
+        await websiteRef.update({
+          htmlContent,
+          firebaseUrl: deployment.url,
+          versionId: deployment.versionId,
+          currentReleaseId: releaseId,
+          updatedAt: Timestamp.now(),
+          expireTime: deployment.expireTime,
+          ...(reserved && { status: "active", slotReserved: true }),
+        });
+      } catch (error) {
+        if (reserved) await releaseReservedSlot(userId);
+        throw error;
+      }
 
       functions.logger.info("Website updated", {
         websiteId,
@@ -273,6 +510,7 @@ export const updateWebsite = functions.https.onCall(
         websiteId,
         firebaseUrl: deployment.url,
         subdomain: website.subdomain,
+        hostingMode: "preview",
         expireTime: deployment.expireTime,
       };
     } catch (error) {
@@ -294,6 +532,146 @@ export const updateWebsite = functions.https.onCall(
   }
 );
 
+/**
+ * Promote Website - Callable Cloud Function
+ *
+ * Moves a draft website from its preview channel to a dedicated Hosting
+ * site that doesn't expire, then removes the preview channel. Promoting a
+ * website that is already in production returns its current URL.
+ */
+export const promoteWebsite = functions
+  .runWith({ timeoutSeconds: 120 })
+  .https.onCall(
+    async (
+      data: { websiteId: string },
+      context
+    ): Promise<PublishWebsiteResponse> => {
+      if (!context.auth) {
+        throw new functions.https.HttpsError(
+          "unauthenticated",
+          "You must be logged in to promote a website"
+        );
+      }
+
+      const userId = context.auth.uid;
+      const { websiteId } = data;
+
+      if (!websiteId) {
+        throw new functions.https.HttpsError(
+          "invalid-argument",
+          "Website ID is required"
+        );
+      }
+
+      try {
+        const db = getDb();
+        const websiteRef = db.collection("websites").doc(websiteId);
+        const websiteDoc = await websiteRef.get();
+
+        if (!websiteDoc.exists) {
+          throw new functions.https.HttpsError("not-found", "Website not found");
+        }
+
+        const website = websiteDoc.data() as PublishedWebsite;
+
+        if (website.userId !== userId) {
+          throw new functions.https.HttpsError(
+            "permission-denied",
+            "You do not have permission to promote this website"
+          );
+        }
+
+        assertNotSuspended(website);
+
+        if (website.hostingMode === "production") {
+          return {
+            success: true,
+            websiteId,
+            firebaseUrl: website.firebaseUrl,
+            subdomain: website.subdomain,
+            hostingMode: "production",
+          };
+        }
+
+        // 1. Create the website's own site and release the draft's HTML there
+        const hostingSiteId = website.hostingSiteId || generateHostingSiteId(website.name, websiteId);
+        const reserved = await reserveSlotIfExpired(userId, website);
+        let deployment: Awaited<ReturnType<typeof deployHtmlToHosting>>;
+        try {
+          await createHostingSite(hostingSiteId);
+          deployment = await deployHtmlToHosting(website.htmlContent, hostingSiteId);
+
+          const releaseId = await recordRelease(
+            websiteRef,
+            {
+              authorId: userId,
+              source: "promote",
+              hostingMode: "production",
+              hostingSiteId,
+              versionId: deployment.versionId,
+            },
+            { htmlContent: website.htmlContent }
+          );
+
+          // 2. Record the production site; drafts no longer apply
+          await websiteRef.update({
+            hostingMode: "production",
+            hostingSiteId,
+            firebaseUrl: deployment.url,
+            versionId: deployment.versionId,
+            currentReleaseId: releaseId,
+            promotedAt: Timestamp.now(),
+            updatedAt: Timestamp.now(),
+            expireTime: admin.firestore.FieldValue.delete(),
+            ...(reserved && { status: "active", slotReserved: true }),
+          });
+        } catch (error) {
+          if (reserved) await releaseReservedSlot(userId);
+          throw error;
+        }
+
+        // 3. The preview URL would otherwise keep serving until it expires
+        await deletePreviewChannel(website.subdomain).catch((error) => {
+          functions.logger.warn("Failed to delete preview channel", {
+            websiteId,
+            channelId: website.subdomain,
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+        });
+
+        functions.logger.info("Website promoted to production", {
+          websiteId,
+          userId,
+          hostingSiteId,
+          url: deployment.url,
+        });
+
+        return {
+          success: true,
+          websiteId,
+          firebaseUrl: deployment.url,
+          subdomain: website.subdomain,
+          hostingMode: "production",
+        };
+      } catch (error) {
+        if (error instanceof functions.https.HttpsError) {
+          throw error;
+        }
+
+        functions.logger.error("Failed to promote website", {
+          userId,
+          websiteId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+
+        throw new functions.https.HttpsError(
+          "internal",
+          "Failed to promote website. Please try again."
+        );
+      }
+    }
+  );
+
 /**
  * Get User Websites - Callable Cloud Function
  *
@@ -346,11 +724,292 @@ export const getUserWebsites = functions.https.onCall(
   }
 );
 
+/**
+ * Get Website Releases - Callable Cloud Function
+ *
+ * Returns the website's releases, newest first, and which one is live.
+ */
+export const getWebsiteReleases = functions.https.onCall(
+  async (
+    data: { websiteId: string },
+    context
+  ): Promise<GetWebsiteReleasesResponse> => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "You must be logged in to view website releases"
+      );
+    }
+
+    const userId = context.auth.uid;
+    const { websiteId } = data;
+
+    if (!websiteId) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Website ID is required"
+      );
+    }
+
+    try {
+      const websiteRef = getDb().collection("websites").doc(websiteId);
+      const websiteDoc = await websiteRef.get();
+
+      if (!websiteDoc.exists) {
+        throw new functions.https.HttpsError("not-found", "Website not found");
+      }
+
+      const website = websiteDoc.data() as PublishedWebsite;
+
+      if (website.userId !== userId) {
+        throw new functions.https.HttpsError(
+          "permission-denied",
+          "You do not have permission to view this website"
+        );
+      }
+
+      const snapshot = await websiteRef
+        .collection("releases")
+        .orderBy("createdAt", "desc")
+        .limit(MAX_LISTED_RELEASES)
+        .get();
+
+      const releases = snapshot.docs.map((doc) => {
+        // Snapshots are only read back by rollbacks
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { storagePath, createdAt, ...rest } = doc.data() as WebsiteRelease;
+        return { ...rest, createdAt: createdAt.toMillis() };
+      });
+
+      return { releases, currentReleaseId: website.currentReleaseId };
+    } catch (error) {
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+
+      functions.logger.error("Failed to get website releases", {
+        userId,
+        websiteId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to retrieve website releases. Please try again."
+      );
+    }
+  }
+);
+
+/**
+ * Rollback Website - Callable Cloud Function
+ *
+ * Makes an earlier release live again and records that as a new release.
+ * A production website re-releases the release's Hosting version when it
+ * is still on the website's site; otherwise, e.g. for a release made
+ * before promotion or a draft whose preview channel may have expired,
+ * the release's HTML snapshot is deployed as it is. Nothing is generated
+ * again.
+ */
+export const rollbackWebsite = functions
+  .runWith({ timeoutSeconds: 120 })
+  .https.onCall(
+    async (
+      data: RollbackWebsiteRequest,
+      context
+    ): Promise<RollbackWebsiteResponse> => {
+      if (!context.auth) {
+        throw new functions.https.HttpsError(
+          "unauthenticated",
+          "You must be logged in to roll back a website"
+        );
+      }
+
+      const userId = context.auth.uid;
+      const { websiteId, releaseId } = data;
+
+      if (!websiteId || !releaseId) {
+        throw new functions.https.HttpsError(
+          "invalid-argument",
+          "Website ID and release ID are required"
+        );
+      }
+
+      try {
+        const websiteRef = getDb().collection("websites").doc(websiteId);
+        const [websiteDoc, releaseDoc] = await Promise.all([
+          websiteRef.get(),
+          websiteRef.collection("releases").doc(releaseId).get(),
+        ]);
+
+        if (!websiteDoc.exists) {
+          throw new functions.https.HttpsError("not-found", "Website not found");
+        }
+
+        const website = websiteDoc.data() as PublishedWebsite;
+
+        if (website.userId !== userId) {
+          throw new functions.https.HttpsError(
+            "permission-denied",
+            "You do not have permission to roll back this website"
+          );
+        }
+
+        if (!releaseDoc.exists) {
+          throw new functions.https.HttpsError("not-found", "Release not found");
+        }
+
+        assertNotSuspended(website);
+
+        if (releaseId === website.currentReleaseId) {
+          throw new functions.https.HttpsError(
+            "failed-precondition",
+            "This release is already live"
+          );
+        }
+
+        const release = releaseDoc.data() as WebsiteRelease;
+        const htmlContent = await getReleaseHtml(release);
+        const restored = {
+          authorId: userId,
+          source: "rollback" as const,
+          rolledBackFrom: releaseId,
+          ...(release.summary && { summary: release.summary }),
+        };
+
+        // 1. Production: the release's version, if the site still has it
+        if (website.hostingMode === "production" && website.hostingSiteId) {
+          const hostingSiteId = website.hostingSiteId;
+          let versionId = release.versionId;
+
+          if (release.hostingSiteId === hostingSiteId) {
+            try {
+              await createRelease(hostingSiteId, versionId);
+            } catch (error) {
+              functions.logger.warn("Failed to re-release version, redeploying snapshot", {
+                websiteId,
+                releaseId,
+                versionId,
+                error: error instanceof Error ? error.message : "Unknown error",
+              });
+              ({ versionId } = await deployHtmlToHosting(htmlContent, hostingSiteId));
+            }
+          } else {
+            ({ versionId } = await deployHtmlToHosting(htmlContent, hostingSiteId));
+          }
+
+          const newReleaseId = await recordRelease(
+            websiteRef,
+            { ...restored, hostingMode: "production", hostingSiteId, versionId },
+            { storagePath: release.storagePath }
+          );
+
+          await websiteRef.update({
+            htmlContent,
+            firebaseUrl: getSiteUrl(hostingSiteId),
+            versionId,
+            currentReleaseId: newReleaseId,
+            updatedAt: Timestamp.now(),
+          });
+
+          functions.logger.info("Website rolled back", {
+            websiteId,
+            userId,
+            releaseId,
+            hostingSiteId,
+          });
+
+          return {
+            success: true,
+            websiteId,
+            firebaseUrl: getSiteUrl(hostingSiteId),
+            subdomain: website.subdomain,
+            hostingMode: "production",
+            releaseId: newReleaseId,
+            htmlContent,
+          };
+        }
+
+        // 2. Drafts: redeploying also renews the preview channel
+        const reserved = await reserveSlotIfExpired(userId, website);
+        let deployment: Awaited<ReturnType<typeof deployToPreviewChannel>>;
+        let newReleaseId: string;
+        try {
+          deployment = await deployToPreviewChannel(
+            htmlContent,
+            website.subdomain,
+            PREVIEW_CHANNEL_TTL
+          );
+
+          newReleaseId = await recordRelease(
+            websiteRef,
+            {
+              ...restored,
+              hostingMode: "preview",
+              hostingSiteId: DEFAULT_SITE_ID,
+              channelId: website.subdomain,
+              versionId: deployment.versionId,
+            },
+            { storagePath: release.storagePath }
+          );
+
+          await websiteRef.update({
+            htmlContent,
+            firebaseUrl: deployment.url,
+            versionId: deployment.versionId,
+            currentReleaseId: newReleaseId,
+            updatedAt: Timestamp.now(),
+            expireTime: deployment.expireTime,
+            ...(reserved && { status: "active", slotReserved: true }),
+          });
+        } catch (error) {
+          if (reserved) await releaseReservedSlot(userId);
+          throw error;
+        }
+
+        functions.logger.info("Website rolled back", {
+          websiteId,
+          userId,
+          releaseId,
+          url: deployment.url,
+        });
+
+        return {
+          success: true,
+          websiteId,
+          firebaseUrl: deployment.url,
+          subdomain: website.subdomain,
+          hostingMode: "preview",
+          expireTime: deployment.expireTime,
+          releaseId: newReleaseId,
+          htmlContent,
+        };
+      } catch (error) {
+        if (error instanceof functions.https.HttpsError) {
+          throw error;
+        }
+
+        functions.logger.error("Failed to roll back website", {
+          userId,
+          websiteId,
+          releaseId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+
+        throw new functions.https.HttpsError(
+          "internal",
+          "Failed to roll back website. Please try again."
+        );
+      }
+    }
+  );
+
 /**
  * Delete Website - Callable Cloud Function
  *
- * Removes a website from Firestore.
- * Note: The preview channel will expire naturally.
+ * Takes the website offline (its Hosting site, or its preview channel
+ * for drafts), removes it and its releases and releases its hosting slot.
+ * A suspended website of the user's may take the freed slot.
  */
 export const deleteWebsite = functions.https.onCall(
   async (
@@ -392,7 +1051,38 @@ export const deleteWebsite = functions.https.onCall(
         );
       }
 
-      await websiteRef.delete();
+      // A production site must go before its record, or it would stay
+      // live with nothing pointing at it
+      if (website.hostingMode === "production" && website.hostingSiteId) {
+        await deleteHostingSite(website.hostingSiteId);
+      } else {
+        await deletePreviewChannel(website.subdomain).catch((error) => {
+          functions.logger.warn("Failed to delete preview channel", {
+            websiteId,
+            channelId: website.subdomain,
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+        });
+      }
+
+      await deleteReleases(websiteRef, userId).catch((error) => {
+        functions.logger.warn("Failed to delete website releases", {
+          websiteId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      });
+
+      await releaseWebsiteSlot(websiteRef, "deleted");
+
+      const suspended = await db
+        .collection("websites")
+        .where("userId", "==", userId)
+        .where("status", "==", "suspended")
+        .limit(1)
+        .get();
+      if (!suspended.empty) {
+        await applyHostingSlotLimit(userId);
+      }
 
       functions.logger.info("Website deleted", { websiteId, userId });
 
@@ -415,3 +1105,43 @@ export const deleteWebsite = functions.https.onCall(
     }
   }
 );
+
+/**
+ * releaseExpiredPreviews - Scheduled every 60 minutes
+ *
+ * Marks drafts whose preview channel has expired as expired and gives
+ * their hosting slots back. Updating an expired draft publishes it again.
+ */
+export const releaseExpiredPreviews = functions.pubsub
+  .schedule("every 60 minutes")
+  .onRun(async () => {
+    const db = getDb();
+    // Hosting returns RFC 3339 UTC times, which sort as strings
+    const snapshot = await db
+      .collection("websites")
+      .where("expireTime", "<=", new Date().toISOString())
+      .get();
+
+    let released = 0;
+    let failures = 0;
+
+    for (const websiteDoc of snapshot.docs) {
+      const website = websiteDoc.data() as PublishedWebsite;
+      if (website.status === "expired" || website.hostingMode === "production") continue;
+
+      try {
+        await releaseWebsiteSlot(websiteDoc.ref, "expired");
+        released++;
+      } catch (error) {
+        failures++;
+        functions.logger.error("Failed to release expired preview", {
+          websiteId: websiteDoc.id,
+          userId: website.userId,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    functions.logger.info("Expired preview run complete", { released, failures });
+    return null;
+  });
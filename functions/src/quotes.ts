@@ -0,0 +1,342 @@
+/**
+ * Client Quotes
+ *
+ * Quotes (estimates) live on lead documents; invoices and communications
+ * created from them go to the lead's sub-collections. Sharing a
+ * quote creates a public token at quoteLinks/{token}; the quotePage function
+ * serves the acceptance page for that token. When the client accepts, the
+ * quote is converted into an invoice and the lead is marked converted.
+ */
+
+import * as crypto from "crypto";
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { QUOTE_INVOICE_DUE_IN_DAYS, QUOTE_PAGE_BASE_URL } from "./config";
+import {
+  DAY_MS,
+  formatInvoiceAmount,
+  formatInvoiceNumber,
+  getLastInvoiceSequence,
+  setLastInvoiceSequence,
+} from "./lib/clientInvoices";
+import { ensureLeadMigrated, getLeadRecordRef, toLeadRecordData } from "./lib/leadRecords";
+import { renderQuoteMessagePage, renderQuotePage } from "./lib/quotePage";
+import {
+  ClientCommunication,
+  ClientInvoice,
+  ClientQuote,
+  QuoteLink,
+  ShareQuoteRequest,
+  ShareQuoteResponse,
+} from "./types";
+
+// Get Firestore instance
+const getDb = () => admin.firestore();
+
+// Lead statuses that move to "negotiating" once a quote is shared
+const PRE_NEGOTIATION_STATUSES = ["new", "analyzing", "contacted"];
+
+/**
+ * Reference to a lead document owned by a user
+ */
+function getLeadRef(userId: string, leadId: string): FirebaseFirestore.DocumentReference {
+  return getDb().collection("users").doc(userId).collection("customers").doc(leadId);
+}
+
+/**
+ * Build the invoice issued when a quote is accepted
+ */
+function buildInvoiceFromQuote(
+  quote: ClientQuote,
+  invoiceNumber: string,
+  now: number
+): ClientInvoice {
+  return {
+    id: `inv-${now}-${quote.id}`,
+    invoiceNumber,
+    amount: quote.total,
+    description: quote.items.map((item) => item.description).join(", "),
+    status: "sent",
+    createdAt: now,
+    dueDate: now + QUOTE_INVOICE_DUE_IN_DAYS * DAY_MS,
+    ...(quote.currency ? { currency: quote.currency } : {}),
+    items: quote.items,
+    subtotal: quote.subtotal,
+    taxRate: quote.taxRate,
+    taxAmount: quote.taxAmount,
+    ...(quote.taxLines ? { taxLines: quote.taxLines } : {}),
+    ...(quote.taxProfileId ? { taxProfileId: quote.taxProfileId } : {}),
+    discount: quote.discount,
+    discountType: quote.discountType,
+    total: quote.total,
+    ...(quote.notes ? { notes: quote.notes } : {}),
+    ...(quote.terms ? { terms: quote.terms } : {}),
+    ...(quote.sender ? { sender: quote.sender } : {}),
+    paidAmount: 0,
+    payments: [],
+    quoteId: quote.id,
+  };
+}
+
+/**
+ * Record the client's response to a quote
+ *
+ * Accepting converts the quote into an invoice (numbered from the user's
+ * invoice sequence) and marks the lead converted. Responses to quotes that
+ * are no longer open are ignored; the page then shows the current state.
+ */
+async function respondToQuote(
+  link: QuoteLink,
+  response: { action: "accept"; name: string } | { action: "decline"; reason?: string }
+): Promise<void> {
+  const db = getDb();
+  const leadRef = getLeadRef(link.userId, link.leadId);
+  await ensureLeadMigrated(await leadRef.get());
+
+  await db.runTransaction(async (transaction) => {
+    const [leadDoc, lastSequence] = await Promise.all([
+      transaction.get(leadRef),
+      getLastInvoiceSequence(transaction, link.userId),
+    ]);
+    if (!leadDoc.exists) return;
+
+    const now = Date.now();
+    const quotes: ClientQuote[] = leadDoc.get("quotes") || [];
+    const quote = quotes.find((q) => q.id === link.quoteId);
+    if (!quote || quote.status !== "sent" || quote.expiresAt < now) return;
+
+    const amount = formatInvoiceAmount(quote.total, quote.currency || "USD");
+
+    if (response.action === "decline") {
+      const reason = response.reason?.trim();
+      const communication: ClientCommunication = {
+        id: `comm-${now}-${quote.id}`,
+        type: "note",
+        subject: `Quote ${quote.quoteNumber} declined`,
+        content: `The client declined quote ${quote.quoteNumber} (${amount}).${reason ? `\n\nReason: ${reason}` : ""}`,
+        timestamp: now,
+        direction: "inbound",
+        read: false,
+        category: "response",
+      };
+
+      transaction.update(leadRef, {
+        quotes: quotes.map((q) =>
+          q.id === quote.id
+            ? { ...q, status: "declined", respondedAt: now, ...(reason ? { declineReason: reason } : {}) }
+            : q
+        ),
+      });
+      transaction.set(
+        getLeadRecordRef(leadRef, "communications", communication.id),
+        toLeadRecordData(leadRef, communication)
+      );
+      return;
+    }
+
+    const sequence = lastSequence + 1;
+    const invoice = buildInvoiceFromQuote(quote, formatInvoiceNumber(sequence, now), now);
+    const communication: ClientCommunication = {
+      id: `comm-${now}-${quote.id}`,
+      type: "note",
+      subject: `Quote ${quote.quoteNumber} accepted`,
+      content: `${response.name} accepted quote ${quote.quoteNumber} (${amount}). Invoice ${invoice.invoiceNumber} was issued automatically.`,
+      timestamp: now,
+      direction: "inbound",
+      read: false,
+      category: "invoice",
+    };
+
+    transaction.update(leadRef, {
+      status: "converted",
+      quotes: quotes.map((q) =>
+        q.id === quote.id
+          ? { ...q, status: "accepted", respondedAt: now, acceptedBy: response.name, invoiceId: invoice.id }
+          : q
+      ),
+    });
+    transaction.set(getLeadRecordRef(leadRef, "invoices", invoice.id), toLeadRecordData(leadRef, invoice));
+    transaction.set(
+      getLeadRecordRef(leadRef, "communications", communication.id),
+      toLeadRecordData(leadRef, communication)
+    );
+    setLastInvoiceSequence(transaction, link.userId, sequence);
+  });
+}
+
+/**
+ * Callable function: Create (or reuse) the public acceptance link for a quote
+ *
+ * Request body:
+ * - leadId: string - The customer the quote belongs to
+ * - quoteId: string - The quote to share
+ *
+ * Returns:
+ * - url: string - Public acceptance page URL
+ * - quote: ClientQuote - The quote as stored after sharing
+ * - leadStatus: string - The lead's pipeline status after sharing
+ *
+ * @requires Authentication - User must own the lead
+ */
+export const shareQuote = functions.https.onCall(
+  async (data: ShareQuoteRequest, context): Promise<ShareQuoteResponse> => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "You must be logged in to share a quote."
+      );
+    }
+
+    const userId = context.auth.uid;
+    const { leadId, quoteId } = data || {};
+
+    if (!leadId || !quoteId) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Lead ID and quote ID are required."
+      );
+    }
+
+    try {
+      const leadRef = getLeadRef(userId, leadId);
+      const leadDoc = await leadRef.get();
+
+      if (!leadDoc.exists) {
+        throw new functions.https.HttpsError("not-found", "Customer not found.");
+      }
+
+      const quotes: ClientQuote[] = leadDoc.get("quotes") || [];
+      const quote = quotes.find((q) => q.id === quoteId);
+
+      if (!quote) {
+        throw new functions.https.HttpsError("not-found", "Quote not found.");
+      }
+
+      if (quote.status === "accepted" || quote.status === "declined") {
+        throw new functions.https.HttpsError(
+          "failed-precondition",
+          "This quote has already been answered."
+        );
+      }
+
+      const now = Date.now();
+      if (quote.expiresAt < now) {
+        throw new functions.https.HttpsError(
+          "failed-precondition",
+          "This quote has expired. Extend its expiry date before sharing."
+        );
+      }
+
+      const token = quote.shareToken || crypto.randomBytes(24).toString("hex");
+      const link: QuoteLink = { userId, leadId, quoteId, createdAt: now };
+
+      const { sharedQuote, leadStatus } = await getDb().runTransaction(async (transaction) => {
+        const fresh = await transaction.get(leadRef);
+        const freshQuotes: ClientQuote[] = fresh.get("quotes") || [];
+        const current: ClientQuote = freshQuotes.find((q) => q.id === quoteId) || quote;
+        const updated: ClientQuote = {
+          ...current,
+          status: current.status === "draft" ? "sent" : current.status,
+          shareToken: token,
+          sentAt: current.sentAt || now,
+        };
+        const status: string = fresh.get("status");
+        const nextStatus = PRE_NEGOTIATION_STATUSES.includes(status) ? "negotiating" : status;
+
+        transaction.set(getDb().collection("quoteLinks").doc(token), link);
+        transaction.update(leadRef, {
+          quotes: freshQuotes.map((q) => (q.id === quoteId ? updated : q)),
+          status: nextStatus,
+        });
+
+        return { sharedQuote: updated, leadStatus: nextStatus };
+      });
+
+      return { url: `${QUOTE_PAGE_BASE_URL}/${token}`, quote: sharedQuote, leadStatus };
+    } catch (error: any) {
+      functions.logger.error(
+        `Error sharing quote for user ${userId}, quote ${quoteId}:`,
+        error
+      );
+
+      // Re-throw HttpsErrors as-is
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+
+      throw new functions.https.HttpsError(
+        "internal",
+        "Failed to share quote. Please try again."
+      );
+    }
+  }
+);
+
+/**
+ * HTTP function: Public quote acceptance page
+ *
+ * Served at /quote/{token} through a Hosting rewrite.
+ * - GET: Render the quote with accept/decline forms
+ * - POST: Record the client's response, then redirect back to the page
+ */
+export const quotePage = functions.https.onRequest(async (req, res) => {
+  res.set("Cache-Control", "private, no-store");
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.status(405).send("Method not allowed");
+    return;
+  }
+
+  const token = req.path.split("/").filter(Boolean).pop() || "";
+  if (!/^[a-f0-9]{48}$/.test(token)) {
+    res.status(404).send(renderQuoteMessagePage("Quote not found", "This link is invalid or has been removed."));
+    return;
+  }
+
+  try {
+    const linkDoc = await getDb().collection("quoteLinks").doc(token).get();
+    if (!linkDoc.exists) {
+      res.status(404).send(renderQuoteMessagePage("Quote not found", "This link is invalid or has been removed."));
+      return;
+    }
+    const link = linkDoc.data() as QuoteLink;
+
+    let formError: string | undefined;
+    if (req.method === "POST") {
+      const action = req.body?.action;
+      if (action === "accept") {
+        const name = String(req.body?.name || "").trim().slice(0, 100);
+        if (name) {
+          await respondToQuote(link, { action: "accept", name });
+        } else {
+          formError = "Please enter your name to accept the quote.";
+        }
+      } else if (action === "decline") {
+        const reason = String(req.body?.reason || "").slice(0, 500);
+        await respondToQuote(link, { action: "decline", reason });
+      }
+
+      if (!formError) {
+        // Post/Redirect/Get so refreshing doesn't resubmit
+        res.redirect(303, `/quote/${token}`);
+        return;
+      }
+    }
+
+    const leadDoc = await getLeadRef(link.userId, link.leadId).get();
+    const quotes: ClientQuote[] = leadDoc.get("quotes") || [];
+    const quote = quotes.find((q) => q.id === link.quoteId);
+
+    if (!leadDoc.exists || !quote) {
+      res.status(404).send(renderQuoteMessagePage("Quote not found", "This quote is no longer available."));
+      return;
+    }
+
+    res.status(formError ? 400 : 200).send(
+      renderQuotePage(quote, leadDoc.get("businessName") || "Client", formError)
+    );
+  } catch (error) {
+    functions.logger.error(`Error serving quote page for token ${token}:`, error);
+    res.status(500).send(renderQuoteMessagePage("Something went wrong", "Please try again in a moment."));
+  }
+});
@@ -0,0 +1,236 @@
+/**
+ * Recurring Invoices
+ *
+ * Scheduled function that materializes each lead's recurring invoice
+ * templates into numbered invoices. Billing periods are derived from the
+ * template's start date and interval, so a missed run catches up on the
+ * next one instead of drifting.
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { MAX_RECURRING_INVOICES_PER_RUN } from "./config";
+import {
+  DAY_MS,
+  calculateInvoiceTotals,
+  formatInvoiceNumber,
+  getLastInvoiceSequence,
+  setLastInvoiceSequence,
+} from "./lib/clientInvoices";
+import { ensureLeadMigrated, forEachUserLead, getLeadRecordRef, toLeadRecordData } from "./lib/leadRecords";
+import {
+  ClientInvoice,
+  RecurringInterval,
+  RecurringInvoiceTemplate,
+} from "./types";
+
+// Get Firestore instance
+const getDb = () => admin.firestore();
+
+const INTERVAL_MONTHS: Record<Exclude<RecurringInterval, "weekly">, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+/**
+ * Add months in UTC, clamping to the last day of shorter months
+ */
+function addMonths(date: number, months: number): number {
+  const d = new Date(date);
+  const day = d.getUTCDate();
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+  d.setUTCDate(Math.min(day, lastDay));
+  return d.getTime();
+}
+
+/**
+ * Start of the given billing period (0 = first period)
+ */
+function getPeriodStart(
+  startDate: number,
+  interval: RecurringInterval,
+  periodIndex: number
+): number {
+  if (interval === "weekly") {
+    return startDate + periodIndex * 7 * DAY_MS;
+  }
+  return addMonths(startDate, periodIndex * INTERVAL_MONTHS[interval]);
+}
+
+/**
+ * Whether the template may still generate the given period
+ */
+function isWithinEndCondition(
+  template: RecurringInvoiceTemplate,
+  periodIndex: number,
+  periodStart: number
+): boolean {
+  const end = template.endCondition;
+  if (end.type === "after_count") return periodIndex < end.count;
+  if (end.type === "until_date") return periodStart <= end.date;
+  return true;
+}
+
+/**
+ * Build the invoice for one billing period of a template
+ */
+function buildRecurringInvoice(
+  template: RecurringInvoiceTemplate,
+  periodStart: number,
+  periodEnd: number,
+  invoiceNumber: string,
+  now: number
+): ClientInvoice {
+  const items = template.items.filter((item) => item.description);
+  // Templates created before tax profiles carry a single rate
+  const templateTaxLines = template.taxLines && template.taxLines.length > 0
+    ? template.taxLines
+    : template.taxRate > 0 ? [{ name: "Tax", rate: template.taxRate }] : [];
+  const { subtotal, discountAmount, taxLines, taxRate, taxAmount, total } = calculateInvoiceTotals(
+    items,
+    templateTaxLines,
+    template.discount,
+    template.discountType
+  );
+
+  return {
+    id: `inv-${now}-${template.id}-${template.generatedCount}`,
+    invoiceNumber,
+    amount: total,
+    description: items.map((item) => item.description).join(", "),
+    status: template.autoSend ? "sent" : "draft",
+    createdAt: now,
+    dueDate: now + template.dueInDays * DAY_MS,
+    ...(template.currency ? { currency: template.currency } : {}),
+    items,
+    subtotal,
+    taxRate,
+    taxAmount,
+    taxLines,
+    ...(template.taxProfileId ? { taxProfileId: template.taxProfileId } : {}),
+    discount: template.discountType === "percentage" ? template.discount : discountAmount,
+    discountType: template.discountType,
+    total,
+    ...(template.notes ? { notes: template.notes } : {}),
+    ...(template.terms ? { terms: template.terms } : {}),
+    ...(template.sender ? { sender: template.sender } : {}),
+    billingPeriod: { start: periodStart, end: periodEnd - DAY_MS },
+    paidAmount: 0,
+    payments: [],
+    recurringTemplateId: template.id,
+  };
+}
+
+/**
+ * generateRecurringInvoices - Scheduled daily
+ *
+ * Creates invoices for every active template whose next billing period has started.
+ */
+export const generateRecurringInvoices = functions.pubsub
+  .schedule("every day 06:00")
+  .timeZone("UTC")
+  .onRun(async () => {
+    const db = getDb();
+    const now = Date.now();
+    let invoicesCreated = 0;
+    let failures = 0;
+
+    await forEachUserLead(async (leadDoc) => {
+      const userRef = leadDoc.ref.parent.parent;
+      if (!userRef) return;
+
+      const templates = leadDoc.get("recurringInvoices");
+      if (!Array.isArray(templates)) return;
+      if (!templates.some((t: RecurringInvoiceTemplate) => t.status === "active" && t.nextRunAt <= now)) {
+        return;
+      }
+
+      try {
+        await ensureLeadMigrated(leadDoc);
+
+        const created = await db.runTransaction(async (transaction) => {
+          const [fresh, lastSequence] = await Promise.all([
+            transaction.get(leadDoc.ref),
+            getLastInvoiceSequence(transaction, userRef.id),
+          ]);
+          if (!fresh.exists) return 0;
+
+          let sequence = lastSequence;
+          const newInvoices: ClientInvoice[] = [];
+
+          const updatedTemplates = (fresh.get("recurringInvoices") as RecurringInvoiceTemplate[]).map(
+            (original) => {
+              if (original.status !== "active") return original;
+
+              const template = { ...original, invoiceIds: [...(original.invoiceIds || [])] };
+              let periodStart = getPeriodStart(template.startDate, template.interval, template.generatedCount);
+              let generatedThisRun = 0;
+
+              while (
+                periodStart <= now &&
+                isWithinEndCondition(template, template.generatedCount, periodStart) &&
+                generatedThisRun < MAX_RECURRING_INVOICES_PER_RUN
+              ) {
+                const periodEnd = getPeriodStart(template.startDate, template.interval, template.generatedCount + 1);
+                sequence++;
+
+                const invoice = buildRecurringInvoice(
+                  template,
+                  periodStart,
+                  periodEnd,
+                  formatInvoiceNumber(sequence, now),
+                  now
+                );
+                newInvoices.push(invoice);
+
+                template.invoiceIds.push(invoice.id);
+                template.generatedCount++;
+                template.lastGeneratedAt = now;
+                generatedThisRun++;
+                periodStart = periodEnd;
+              }
+
+              template.nextRunAt = periodStart;
+              if (!isWithinEndCondition(template, template.generatedCount, periodStart)) {
+                template.status = "completed";
+              }
+
+              return template;
+            }
+          );
+
+          transaction.update(leadDoc.ref, { recurringInvoices: updatedTemplates });
+          newInvoices.forEach((invoice) => {
+            transaction.set(
+              getLeadRecordRef(leadDoc.ref, "invoices", invoice.id),
+              toLeadRecordData(leadDoc.ref, invoice)
+            );
+          });
+
+          if (newInvoices.length > 0) {
+            setLastInvoiceSequence(transaction, userRef.id, sequence);
+          }
+
+          return newInvoices.length;
+        });
+
+        invoicesCreated += created;
+      } catch (error) {
+        failures++;
+        functions.logger.error("Failed to generate recurring invoices", {
+          userId: userRef.id,
+          leadId: leadDoc.id,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    });
+
+    functions.logger.info("Recurring invoice run complete", {
+      invoicesCreated,
+      failures,
+    });
+    return null;
+  });
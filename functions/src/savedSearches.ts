@@ -0,0 +1,238 @@
+/**
+ * Saved Searches
+ *
+ * Scheduled function that re-runs users' saved lead searches. Businesses
+ * that aren't already customers, and weren't found by an earlier run, are
+ * added to the user's "New leads" inbox (users/{uid}/discoveredLeads).
+ * Each run is drafted by Gemini and charged to the user's credits.
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {
+  SAVED_SEARCH_INTERVALS_MS,
+  SAVED_SEARCH_MODEL,
+  SAVED_SEARCH_PAGE_SIZE,
+  SAVED_SEARCH_RESULTS,
+} from "./config";
+import { callGeminiWithCredits, safeParseJSON } from "./lib/gemini";
+import {
+  BusinessKey,
+  DiscoveredBusiness,
+  getBusinessKey,
+  isKnownBusiness,
+  parseDiscoveredBusinesses,
+} from "./lib/leadDiscovery";
+import { DiscoveredLead, SavedSearch } from "./types";
+
+// Get Firestore instance
+const getDb = () => admin.firestore();
+
+// Businesses from earlier runs listed in the prompt so the model looks further afield
+const PROMPT_EXCLUDED_NAMES = 30;
+
+interface SavedSearchRunStats {
+  searchesDue: number;
+  discovered: number;
+  failures: number;
+}
+
+/**
+ * Ask Gemini for businesses matching a saved search
+ */
+async function findBusinesses(
+  userId: string,
+  search: SavedSearch,
+  excludedNames: string[]
+): Promise<DiscoveredBusiness[]> {
+  const prompt = `Find ${SAVED_SEARCH_RESULTS} real local businesses for "${search.query}" near "${search.location}".
+${excludedNames.length > 0 ? `\nI already know about these, so list different businesses: ${excludedNames.join(", ")}\n` : ""}
+Only include businesses you found in the search results. For each one provide:
+- businessName (string)
+- location (string - full address)
+- details (string - what they do and why they might benefit from a new website or marketing)
+- phone (string or null)
+- email (string or null)
+- website (string or null - their current website URL, if they have one)
+- category (string or null - e.g. "Bakery" or "Plumber")
+- rating (number or null - average review rating out of 5)
+- reviewCount (number or null)
+
+Respond with JSON: {"businesses": [...]}`;
+
+  const result = await callGeminiWithCredits({
+    userId,
+    modelKey: SAVED_SEARCH_MODEL,
+    prompt,
+    feature: "saved_search",
+    maxOutputTokens: 4000,
+    // Ground the results so only businesses Google Search knows about come back
+    tools: [{ googleSearch: {} }],
+  });
+
+  const parsed = safeParseJSON<{ businesses?: unknown }>(result.text);
+  return parseDiscoveredBusinesses(parsed?.businesses);
+}
+
+/**
+ * Run one saved search and record any new businesses
+ *
+ * @returns Number of businesses added to the inbox
+ */
+async function runSavedSearch(
+  userRef: FirebaseFirestore.DocumentReference,
+  searchRef: FirebaseFirestore.DocumentReference,
+  search: SavedSearch,
+  knownKeys: BusinessKey[],
+  excludedNames: string[],
+  now: number
+): Promise<number> {
+  const businesses = await findBusinesses(userRef.id, search, excludedNames);
+
+  const batch = getDb().batch();
+  let added = 0;
+
+  businesses.forEach((business) => {
+    const key = getBusinessKey(business);
+    if (isKnownBusiness(key, knownKeys)) return;
+    // Also skips repeats within this run
+    knownKeys.push(key);
+
+    const discoveredRef = userRef.collection("discoveredLeads").doc();
+    const discovered: DiscoveredLead = {
+      ...business,
+      id: discoveredRef.id,
+      searchId: search.id,
+      query: search.query,
+      searchLocation: search.location,
+      discoveredAt: now,
+      status: "new",
+    };
+    batch.set(discoveredRef, discovered);
+    added++;
+  });
+
+  batch.update(searchRef, {
+    lastRunAt: now,
+    lastNewCount: added,
+    lastError: admin.firestore.FieldValue.delete(),
+  });
+  await batch.commit();
+
+  return added;
+}
+
+/**
+ * Known businesses for a user: customers and everything already discovered
+ */
+async function loadKnownBusinesses(
+  userRef: FirebaseFirestore.DocumentReference
+): Promise<{ keys: BusinessKey[]; discoveredNames: Map<string, string[]> }> {
+  const [customers, discovered] = await Promise.all([
+    userRef.collection("customers").get(),
+    userRef.collection("discoveredLeads").get(),
+  ]);
+
+  const keys = [...customers.docs, ...discovered.docs].map((doc) => getBusinessKey(doc.data()));
+
+  // Names found by each search, newest first, for the prompt
+  const discoveredNames = new Map<string, string[]>();
+  discovered.docs
+    .map((doc) => doc.data() as DiscoveredLead)
+    .sort((a, b) => b.discoveredAt - a.discoveredAt)
+    .forEach((lead) => {
+      const names = discoveredNames.get(lead.searchId) || [];
+      names.push(lead.businessName);
+      discoveredNames.set(lead.searchId, names);
+    });
+
+  return { keys, discoveredNames };
+}
+
+/**
+ * Visit every saved search due by now, a page at a time. Searches with the
+ * schedule off have no nextRunAt, so the query never returns them.
+ */
+async function forEachDueSearch(
+  now: number,
+  visit: (searchDoc: FirebaseFirestore.QueryDocumentSnapshot) => Promise<void>
+): Promise<void> {
+  const query = getDb()
+    .collectionGroup("savedSearches")
+    .where("nextRunAt", "<=", now)
+    .orderBy("nextRunAt")
+    .limit(SAVED_SEARCH_PAGE_SIZE);
+
+  let page = await query.get();
+  while (!page.empty) {
+    for (const searchDoc of page.docs) {
+      await visit(searchDoc);
+    }
+    if (page.size < SAVED_SEARCH_PAGE_SIZE) return;
+    page = await query.startAfter(page.docs[page.docs.length - 1]).get();
+  }
+}
+
+/**
+ * runSavedSearches - Scheduled hourly
+ *
+ * Runs every saved search whose schedule is due.
+ */
+export const runSavedSearches = functions.pubsub
+  .schedule("every 60 minutes")
+  .onRun(async () => {
+    const now = Date.now();
+    const knownCache = new Map<string, Awaited<ReturnType<typeof loadKnownBusinesses>>>();
+    const stats: SavedSearchRunStats = {
+      searchesDue: 0,
+      discovered: 0,
+      failures: 0,
+    };
+
+    await forEachDueSearch(now, async (searchDoc) => {
+      // Only users/{uid}/savedSearches/{searchId} documents
+      const userRef = searchDoc.ref.parent.parent;
+      if (!userRef || userRef.parent.id !== "users") return;
+
+      const search = { ...(searchDoc.data() as SavedSearch), id: searchDoc.id };
+      if (search.schedule === "off") return;
+
+      stats.searchesDue++;
+
+      // Claim the next slot first so a failing search waits for its next run
+      await searchDoc.ref.update({ nextRunAt: now + SAVED_SEARCH_INTERVALS_MS[search.schedule] });
+
+      try {
+        if (!knownCache.has(userRef.id)) {
+          knownCache.set(userRef.id, await loadKnownBusinesses(userRef));
+        }
+        const known = knownCache.get(userRef.id)!;
+
+        stats.discovered += await runSavedSearch(
+          userRef,
+          searchDoc.ref,
+          search,
+          known.keys,
+          (known.discoveredNames.get(search.id) || []).slice(0, PROMPT_EXCLUDED_NAMES),
+          now
+        );
+      } catch (error) {
+        stats.failures++;
+        const message = error instanceof Error ? error.message : String(error);
+        functions.logger.error("Failed to run saved search", {
+          userId: userRef.id,
+          searchId: searchDoc.id,
+          error: message,
+        });
+        await searchDoc.ref.update({
+          lastRunAt: now,
+          lastError: message === "INSUFFICIENT_CREDITS"
+            ? "Not enough credits to run this search"
+            : "The search failed; it will be retried at the next scheduled run",
+        }).catch(() => undefined);
+      }
+    });
+
+    functions.logger.info("Saved search run complete", stats);
+    return null;
+  });
@@ -213,6 +213,14 @@ export const setupCustomDomain = functions.https.onCall(
         );
       }
 
+      // A domain can only point at a whole Hosting site, not a preview channel
+      if (website.hostingMode !== "production" || !website.hostingSiteId) {
+        throw new functions.https.HttpsError(
+          "failed-precondition",
+          "Promote this website to production before connecting a custom domain"
+        );
+      }
+
       // 4. Check if domain is already in use by another website
       const existingDomain = await db
         .collection("websites")
@@ -238,7 +246,8 @@ export const setupCustomDomain = functions.https.onCall(
       });
 
       const { verificationRecords, routingRecords, domainStatus } = await requestCustomDomain(
-        normalizedDomain
+        normalizedDomain,
+        website.hostingSiteId
       );
 
       functions.logger.info("Domain registration response", {
@@ -378,7 +387,7 @@ export const checkDomainStatus = functions.https.onCall(
 
       // Always check Firebase Hosting for real status when domain is configured
       try {
-        const hostingStatus = await getDomainStatus(website.customDomain);
+        const hostingStatus = await getDomainStatus(website.customDomain, website.hostingSiteId);
 
         functions.logger.info("Firebase Hosting domain status", {
           websiteId,
@@ -584,7 +593,7 @@ export const verifyDomain = functions.https.onCall(
 
       // Get domain status from Firebase Hosting to confirm registration
       try {
-        const hostingStatus = await getDomainStatus(website.customDomain);
+        const hostingStatus = await getDomainStatus(website.customDomain, website.hostingSiteId);
         functions.logger.info("Firebase Hosting domain status", {
           websiteId,
           domain: website.customDomain,
@@ -602,7 +611,7 @@ export const verifyDomain = functions.https.onCall(
         });
 
         try {
-          await addCustomDomain(website.customDomain);
+          await addCustomDomain(website.customDomain, website.hostingSiteId);
           functions.logger.info("Domain re-registered with Firebase Hosting", {
             websiteId,
             domain: website.customDomain,
@@ -703,7 +712,7 @@ export const removeCustomDomain = functions.https.onCall(
       // Try to remove domain from Firebase Hosting
       if (website.customDomain && website.customDomainStatus !== "pending") {
         try {
-          await removeCustomDomainFromHosting(website.customDomain);
+          await removeCustomDomainFromHosting(website.customDomain, website.hostingSiteId);
           functions.logger.info("Domain removed from Firebase Hosting", {
             websiteId,
             domain: website.customDomain,
@@ -3,6 +3,8 @@ import * as admin from "firebase-admin";
 import { Timestamp } from "firebase-admin/firestore";
 import { verifyWebhookSignature, getStripe } from "./lib/stripe";
 import { grantTokens } from "./lib/credits";
+import { applyHostingSlotLimit } from "./lib/hostingSlots";
+import { handleInvoiceCheckoutCompleted, isClientInvoiceSession } from "./invoicePayments";
 import { SUBSCRIPTION_PLANS, HOSTING_LIMITS } from "./config";
 import Stripe from "stripe";
 
@@ -12,7 +14,11 @@ const db = admin.firestore();
  * HTTP function: Handle Stripe webhook events
  *
  * This endpoint receives events from Stripe and processes them:
- * - checkout.session.completed: Grants tokens to user after successful payment
+ * - checkout.session.completed: Grants tokens to user after successful payment,
+ *   or records a payment on a client invoice for invoice payment links
+ *
+ * Events of users' connected accounts (see invoicePayments) only record
+ * client invoice payments; anything else they send is ignored.
  *
  * Features:
  * - Signature verification for security
@@ -48,6 +54,16 @@ export const stripeWebhook = functions.https.onRequest(async (req, res) => {
 
   functions.logger.info(`Received Stripe event: ${event.type} (${event.id})`);
 
+  if (
+    event.account &&
+    !(event.type === "checkout.session.completed" &&
+      isClientInvoiceSession(event.data.object as Stripe.Checkout.Session))
+  ) {
+    functions.logger.info(`Ignoring ${event.type} from connected account ${event.account}`);
+    res.status(200).send("Ignored");
+    return;
+  }
+
   // Check for idempotency - have we already processed this event?
   const eventRef = db.collection("processedStripeEvents").doc(event.id);
   const existingEvent = await eventRef.get();
@@ -62,7 +78,12 @@ export const stripeWebhook = functions.https.onRequest(async (req, res) => {
   try {
     switch (event.type) {
       case "checkout.session.completed": {
-        await handleCheckoutCompleted(event);
+        // Client invoice payments are reconciled separately from token purchases
+        if (isClientInvoiceSession(event.data.object as Stripe.Checkout.Session)) {
+          await handleInvoiceCheckoutCompleted(event);
+        } else {
+          await handleCheckoutCompleted(event);
+        }
         break;
       }
 
@@ -195,6 +216,34 @@ async function handleCheckoutCompleted(event: Stripe.Event): Promise<void> {
 
     throw error;
   }
+
+  // Subscriptions get their slots from the subscription events
+  const packSlots = parseInt(session.metadata?.hostingSlots || "0", 10);
+  if (session.mode === "payment" && packSlots > 0) {
+    await grantPackHostingSlots(userId, packSlots);
+  }
+}
+
+/**
+ * Give the user the hosting slots of a one-time pack. Pack slots don't
+ * add up; the user keeps the largest pack's slots, also after a
+ * subscription ends.
+ */
+async function grantPackHostingSlots(userId: string, packSlots: number): Promise<void> {
+  const userRef = db.collection("users").doc(userId);
+  const userData = (await userRef.get()).data();
+  const packHostingSlots = Math.max(userData?.packHostingSlots || 0, packSlots);
+
+  await userRef.update({
+    packHostingSlots,
+    hostingSlots: Math.max(userData?.hostingSlots || 0, packHostingSlots),
+    updatedAt: Timestamp.now(),
+  });
+
+  // Suspended websites may fit again
+  await applyHostingSlotLimit(userId);
+
+  functions.logger.info(`Granted ${packHostingSlots} pack hosting slots to user ${userId}`);
 }
 
 /**
@@ -284,8 +333,12 @@ async function updateUserSubscription(
     updatedAt: Timestamp.now(),
   };
 
-  // Only update hosting slots if subscription is active
-  if (subscription.status === "active" || subscription.status === "trialing") {
+  // Only update hosting slots if subscription is active; one-time pack
+  // slots still count when the plan has fewer
+  const isActive = subscription.status === "active" || subscription.status === "trialing";
+  if (isActive) {
+    const userData = (await userRef.get()).data();
+    hostingSlots = Math.max(hostingSlots, userData?.packHostingSlots || 0);
     updateData.hostingSlots = hostingSlots;
     // Mark user as non-trial once they have a subscription
     updateData.isTrialUser = false;
@@ -293,6 +346,11 @@ async function updateUserSubscription(
 
   await userRef.update(updateData);
 
+  // A plan change can suspend websites over the new limit or reactivate them
+  if (isActive) {
+    await applyHostingSlotLimit(userId);
+  }
+
   // Create/update subscription document
   const subscriptionData = {
     id: subscription.id,
@@ -324,7 +382,8 @@ async function updateUserSubscription(
 
 /**
  * Handle subscription canceled/deleted event
- * Resets user to free plan
+ * Resets user to free plan, keeping one-time pack slots. Websites over
+ * the remaining slots are suspended: they stay online read-only.
  */
 async function handleSubscriptionCanceled(event: Stripe.Event): Promise<void> {
   const subscription = event.data.object as Stripe.Subscription;
@@ -352,22 +411,21 @@ async function handleSubscriptionCanceled(event: Stripe.Event): Promise<void> {
     userId = usersSnapshot.docs[0].id;
   }
 
-  // Update user to free plan, but preserve existing hosting slots used
   const userRef = db.collection("users").doc(userId);
   const userDoc = await userRef.get();
   const userData = userDoc.data();
+  const hostingSlots = Math.max(HOSTING_LIMITS.free, userData?.packHostingSlots || 0);
 
-  // If user is using hosted sites, we don't remove slots immediately
-  // They can keep existing sites but can't add new ones
   await userRef.update({
     subscriptionId: null,
     subscriptionStatus: "canceled",
     currentPlan: "free",
-    // Don't reset hostingSlots to 0 immediately - let them keep existing sites
-    // New sites will be blocked by checking plan status
+    hostingSlots,
     updatedAt: Timestamp.now(),
   });
 
+  const { suspended } = await applyHostingSlotLimit(userId);
+
   // Update subscription document
   const subscriptionRef = db.collection("subscriptions").doc(subscription.id);
   await subscriptionRef.update({
@@ -377,7 +435,7 @@ async function handleSubscriptionCanceled(event: Stripe.Event): Promise<void> {
   });
 
   functions.logger.info(
-    `Subscription canceled for user ${userId}. Previous hosting slots: ${userData?.hostingSlots || 0}`
+    `Subscription canceled for user ${userId}. Hosting slots: ${userData?.hostingSlots || 0} -> ${hostingSlots}, suspended websites: ${suspended}`
   );
 }
 
@@ -0,0 +1,194 @@
+/**
+ * Task Reminders
+ *
+ * Scheduled function that emails reminders for follow-up tasks on users'
+ * leads. Each reminder is sent from the user's connected mail account to
+ * the task's assignee, or to the user's own address when nobody is
+ * assigned. Sent and failed reminders are recorded on the task so they are
+ * never sent twice.
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { APP_URL, MAX_TASK_REMINDER_DELAY_MS } from "./config";
+import { getEmailAccountRef, sendAccountEmail } from "./lib/emailAccount";
+import { forEachUserLead } from "./lib/leadRecords";
+import { ClientTask, EmailAccount } from "./types";
+
+// Get Firestore instance
+const getDb = () => admin.firestore();
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface TaskReminderRunStats {
+  remindersDue: number;
+  sent: number;
+  skipped: number;
+  failures: number;
+}
+
+const isReminderDue = (task: ClientTask, now: number): boolean =>
+  !task.completedAt &&
+  !!task.reminderAt &&
+  task.reminderAt <= now &&
+  !task.reminderSentAt &&
+  !task.reminderError;
+
+/**
+ * Replace the claim on reminders that weren't sent with the reason, keyed
+ * by task id, so the app can show it
+ */
+async function recordReminderErrors(
+  leadRef: FirebaseFirestore.DocumentReference,
+  errors: Map<string, string>
+): Promise<void> {
+  await getDb().runTransaction(async (transaction) => {
+    const fresh = await transaction.get(leadRef);
+    if (!fresh.exists) return;
+
+    const tasks: ClientTask[] = fresh.get("tasks") || [];
+    transaction.update(leadRef, {
+      tasks: tasks.map((task) => {
+        const error = errors.get(task.id);
+        if (!error) return task;
+        const { reminderSentAt: _sentAt, ...rest } = task;
+        return { ...rest, reminderError: error };
+      }),
+    });
+  });
+}
+
+function buildReminderEmail(task: ClientTask, businessName: string): { subject: string; text: string } {
+  const [year, month, day] = task.dueDate.split("-").map(Number);
+  const dueLabel = new Date(Date.UTC(year, month - 1, day)).toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+  return {
+    subject: `Reminder: ${task.title} (${businessName})`,
+    text: [
+      task.title,
+      "",
+      `Customer: ${businessName}`,
+      `Due: ${dueLabel}`,
+      ...(task.notes ? ["", task.notes] : []),
+      "",
+      `Open your task list to mark it done: ${APP_URL}`,
+    ].join("\n"),
+  };
+}
+
+/**
+ * Send the due reminders on one lead
+ */
+async function processLeadReminders(
+  leadRef: FirebaseFirestore.DocumentReference,
+  account: EmailAccount | null,
+  now: number,
+  stats: TaskReminderRunStats
+): Promise<void> {
+  // Claim due reminders so overlapping runs don't send them twice
+  const claimed = await getDb().runTransaction(async (transaction) => {
+    const fresh = await transaction.get(leadRef);
+    if (!fresh.exists) return null;
+
+    const tasks: ClientTask[] = fresh.get("tasks") || [];
+    const due = tasks.filter((task) => isReminderDue(task, now));
+    if (due.length === 0) return null;
+
+    transaction.update(leadRef, {
+      tasks: tasks.map((task) => (isReminderDue(task, now) ? { ...task, reminderSentAt: now } : task)),
+    });
+    return { due, businessName: String(fresh.get("businessName") || "your customer") };
+  });
+
+  if (!claimed) return;
+  stats.remindersDue += claimed.due.length;
+
+  const errors = new Map<string, string>();
+
+  for (const task of claimed.due) {
+    if (now - task.reminderAt! > MAX_TASK_REMINDER_DELAY_MS) {
+      errors.set(task.id, "The reminder time had already passed");
+      stats.skipped++;
+      continue;
+    }
+    if (!account) {
+      errors.set(task.id, "No email account connected");
+      stats.skipped++;
+      continue;
+    }
+
+    const to = (task.assignee || "").trim() || account.fromEmail;
+    if (!EMAIL_PATTERN.test(to)) {
+      errors.set(task.id, "The assignee's email address is invalid");
+      stats.skipped++;
+      continue;
+    }
+
+    try {
+      await sendAccountEmail(account, { to, ...buildReminderEmail(task, claimed.businessName) });
+      stats.sent++;
+    } catch (error) {
+      stats.failures++;
+      functions.logger.error("Failed to send task reminder", {
+        leadId: leadRef.id,
+        taskId: task.id,
+        error: error instanceof Error ? error.message : error,
+      });
+      errors.set(task.id, "Sending the reminder failed");
+    }
+  }
+
+  if (errors.size > 0) {
+    await recordReminderErrors(leadRef, errors);
+  }
+}
+
+/**
+ * sendTaskReminders - Scheduled every 15 minutes
+ *
+ * Emails task reminders that have come due for every user.
+ */
+export const sendTaskReminders = functions.pubsub
+  .schedule("every 15 minutes")
+  .onRun(async () => {
+    const now = Date.now();
+    const accountCache = new Map<string, EmailAccount | null>();
+    const stats: TaskReminderRunStats = {
+      remindersDue: 0,
+      sent: 0,
+      skipped: 0,
+      failures: 0,
+    };
+
+    await forEachUserLead(async (leadDoc) => {
+      const userRef = leadDoc.ref.parent.parent;
+      if (!userRef) return;
+
+      const tasks: ClientTask[] = leadDoc.get("tasks") || [];
+      if (!tasks.some((task) => isReminderDue(task, now))) return;
+
+      try {
+        if (!accountCache.has(userRef.id)) {
+          const accountDoc = await getEmailAccountRef(userRef.id).get();
+          accountCache.set(userRef.id, accountDoc.exists ? (accountDoc.data() as EmailAccount) : null);
+        }
+
+        await processLeadReminders(leadDoc.ref, accountCache.get(userRef.id) || null, now, stats);
+      } catch (error) {
+        stats.failures++;
+        functions.logger.error("Failed to process task reminders", {
+          userId: userRef.id,
+          leadId: leadDoc.id,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    });
+
+    functions.logger.info("Task reminder run complete", stats);
+    return null;
+  });
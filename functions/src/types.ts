@@ -7,12 +7,15 @@ import { Timestamp } from "firebase-admin/firestore";
 export type UserPlan = "free" | "beginner" | "agency50";
 export type HostingType = "static" | "dynamic";
 export type SubscriptionStatus = "active" | "canceled" | "past_due" | "trialing";
+// Suspended websites stay online read-only; expired previews are offline
+export type WebsiteStatus = "active" | "suspended" | "expired";
 
 export interface User {
   id: string;
   email: string;
   displayName?: string;
   stripeCustomerId?: string;
+  stripeConnectAccountId?: string; // Where the user's own clients pay invoices
   tokenBalance: number;
   isTrialUser: boolean;
   trialEndsAt?: Timestamp;
@@ -25,6 +28,7 @@ export interface User {
   // Hosting
   hostingSlots: number;
   hostingSlotsUsed: number;
+  packHostingSlots?: number; // From one-time packs; kept when a subscription ends
   hostingType: HostingType;
 
   // Maintenance add-on
@@ -47,7 +51,10 @@ export type CreditTransactionType =
   | "INITIAL_GRANT"
   | "PURCHASE_TOP_UP"
   | "USAGE_DEBIT"
-  | "MANUAL_ADJUSTMENT";
+  | "MANUAL_ADJUSTMENT"
+  | "CREDIT_HOLD";
+
+export type CreditHoldStatus = "held" | "captured" | "released";
 
 export interface CreditTransaction {
   id: string;
@@ -59,6 +66,12 @@ export interface CreditTransaction {
   stripeEventId?: string;
   balanceAfter: number;
   createdAt: Timestamp;
+  // CREDIT_HOLD only: tokens is -heldTokens while held, then the captured
+  // cost, or 0 once released
+  holdStatus?: CreditHoldStatus;
+  heldTokens?: number;
+  feature?: string;
+  resolvedAt?: Timestamp;
 }
 
 // ============================================
@@ -196,6 +209,678 @@ export interface GeminiChatResponse {
   tokenBalance: number;
 }
 
+export interface GeminiGenerateRequest {
+  model: string;
+  feature: string; // A CREDIT_COSTS action
+  actionId: string;
+  request: GeminiContentRequest;
+}
+
+export interface GeminiGenerateResponse {
+  response: GeminiContentResponse;
+  tokensUsed: number;
+  tokenBalance: number;
+}
+
+export interface StartVideoGenerationRequest {
+  prompt: string;
+  aspectRatio?: "16:9" | "9:16";
+}
+
+export interface VideoGenerationResponse {
+  generationId: string;
+  done: boolean;
+  url?: string;
+  expiresAt?: number;
+}
+
+export interface CreateVoiceSessionResponse {
+  token: string;
+  expiresAt: number;
+  tokenBalance: number;
+}
+
+// ============================================
+// Client Invoicing Types
+// ============================================
+
+/**
+ * Invoices are stored one per document at
+ * users/{uid}/customers/{leadId}/invoices/{invoiceId} and are written by the
+ * web app, so timestamps may be millis or Timestamps.
+ */
+export type ClientInvoiceStatus = "draft" | "sent" | "partial" | "paid" | "overdue";
+
+export interface InvoiceReminderLog {
+  offsetDays: number;
+  sentAt: number;
+  communicationId?: string; // Once the email went out
+  error?: string; // Why it wasn't sent
+}
+
+export interface ClientInvoiceSender {
+  name?: string;
+  company?: string;
+  address?: string;
+  city?: string;
+  phone?: string;
+  email?: string;
+  website?: string;
+}
+
+/**
+ * A named tax charged on an invoice. Compound lines are charged on the
+ * amount plus all tax lines before them.
+ */
+export interface ClientTaxLine {
+  name: string;
+  rate: number;
+  compound?: boolean;
+}
+
+export interface ClientInvoiceTaxLine extends ClientTaxLine {
+  amount: number;
+}
+
+export interface ClientInvoice {
+  id: string;
+  invoiceNumber: string;
+  status: ClientInvoiceStatus;
+  description?: string;
+  /** ISO 4217 code; invoices created before multi-currency support are USD */
+  currency?: string;
+  items?: ClientInvoiceItem[];
+  subtotal?: number;
+  /** Combined effective rate of all tax lines */
+  taxRate?: number;
+  taxAmount?: number;
+  taxLines?: ClientInvoiceTaxLine[];
+  taxProfileId?: string;
+  discount?: number;
+  discountType?: "percentage" | "fixed";
+  total: number;
+  notes?: string;
+  terms?: string;
+  billingPeriod?: { start: number; end: number };
+  sender?: ClientInvoiceSender;
+  paidAmount?: number;
+  createdAt: number | Timestamp;
+  dueDate?: number | Timestamp;
+  paidAt?: number | Timestamp;
+  reminders?: InvoiceReminderLog[];
+  recurringTemplateId?: string;
+  quoteId?: string;
+  payments?: ClientPaymentRecord[];
+  paymentLink?: InvoicePaymentLink;
+  pdfs?: InvoicePdfRecord[];
+  [key: string]: unknown;
+}
+
+/**
+ * An immutable rendered copy of an invoice stored in Cloud Storage
+ */
+export interface InvoicePdfRecord {
+  id: string;
+  storagePath: string;
+  fileName: string;
+  createdAt: number;
+}
+
+export interface GenerateInvoicePdfRequest {
+  leadId: string;
+  invoiceId: string;
+}
+
+export interface GenerateInvoicePdfResponse {
+  pdf: InvoicePdfRecord;
+  url: string;
+  expiresAt: number;
+}
+
+export interface ClientPaymentRecord {
+  id: string;
+  amount: number;
+  date: number;
+  method?: "cash" | "card" | "bank_transfer" | "check" | "other";
+  reference?: string;
+  notes?: string;
+}
+
+export interface InvoicePaymentLink {
+  url: string;
+  sessionId: string;
+  accountId?: string; // Connected account the session was created on
+  amount: number;
+  currency?: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface CreateInvoicePaymentLinkRequest {
+  leadId: string;
+  invoiceId: string;
+}
+
+export interface CreateInvoicePaymentLinkResponse {
+  paymentLink: InvoicePaymentLink;
+}
+
+export interface ConnectStripeAccountResponse {
+  connected: boolean;
+  onboardingUrl?: string; // When the account still needs setting up
+}
+
+export interface AllocateInvoiceNumberResponse {
+  invoiceNumber: string;
+}
+
+export interface ClientInvoiceItem {
+  id: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export type RecurringInterval = "weekly" | "monthly" | "quarterly" | "yearly";
+
+export type RecurringEndCondition =
+  | { type: "never" }
+  | { type: "after_count"; count: number }
+  | { type: "until_date"; date: number };
+
+export interface RecurringInvoiceTemplate {
+  id: string;
+  interval: RecurringInterval;
+  startDate: number;
+  nextRunAt: number;
+  dueInDays: number;
+  currency?: string;
+  items: ClientInvoiceItem[];
+  taxRate: number;
+  taxLines?: ClientTaxLine[];
+  taxProfileId?: string;
+  discount: number;
+  discountType: "percentage" | "fixed";
+  notes?: string;
+  terms?: string;
+  sender?: ClientInvoiceSender;
+  endCondition: RecurringEndCondition;
+  autoSend: boolean;
+  status: "active" | "paused" | "completed";
+  generatedCount: number;
+  invoiceIds: string[];
+  lastGeneratedAt?: number;
+  createdAt: number;
+}
+
+/**
+ * Pre-sale estimate stored on the lead; accepting it creates an invoice
+ */
+export type ClientQuoteStatus = "draft" | "sent" | "accepted" | "declined";
+
+export interface ClientQuote {
+  id: string;
+  quoteNumber: string;
+  status: ClientQuoteStatus;
+  currency?: string;
+  items: ClientInvoiceItem[];
+  subtotal: number;
+  taxRate: number;
+  taxAmount: number;
+  taxLines?: ClientInvoiceTaxLine[];
+  taxProfileId?: string;
+  discount: number;
+  discountType: "percentage" | "fixed";
+  total: number;
+  notes?: string;
+  terms?: string;
+  sender?: ClientInvoiceSender;
+  createdAt: number;
+  expiresAt: number;
+  shareToken?: string;
+  sentAt?: number;
+  respondedAt?: number;
+  acceptedBy?: string;
+  declineReason?: string;
+  invoiceId?: string;
+}
+
+/**
+ * Public token lookup stored at quoteLinks/{token}
+ */
+export interface QuoteLink {
+  userId: string;
+  leadId: string;
+  quoteId: string;
+  createdAt: number;
+}
+
+export interface ShareQuoteRequest {
+  leadId: string;
+  quoteId: string;
+}
+
+export interface ShareQuoteResponse {
+  url: string;
+  quote: ClientQuote;
+  leadStatus: string;
+}
+
+export interface ClientEmailAttachment {
+  id: string;
+  name: string;
+  size: number;
+  type: string;
+  url?: string;
+}
+
+export interface ClientCommunication {
+  id: string;
+  type: "email" | "call" | "meeting" | "note";
+  subject: string;
+  content: string;
+  timestamp: number;
+  direction?: "inbound" | "outbound";
+  read?: boolean;
+  attachments?: ClientEmailAttachment[];
+  category?: "pitch" | "followup" | "response" | "invoice" | "general";
+  /** Message-ID header of emails sent or imported through the user's mail account */
+  messageId?: string;
+  /** Normalized subject ("Re:"/"Fwd:" stripped) used to thread replies */
+  threadSubject?: string;
+}
+
+export interface InvoiceReminderSettings {
+  enabled: boolean;
+  offsetsDays: number[];
+}
+
+/**
+ * Per-user invoicing preferences stored at users/{uid}/settings/invoicing
+ */
+export interface InvoicingSettings {
+  reminders: InvoiceReminderSettings;
+  updatedAt?: number;
+}
+
+// ============================================
+// Client Email Types
+// ============================================
+
+export interface MailServerSettings {
+  host: string;
+  port: number;
+  /** Use TLS from the start (ports 465/993); otherwise STARTTLS is negotiated */
+  secure: boolean;
+  username: string;
+}
+
+/**
+ * A user's own mail account, stored at emailAccounts/{uid}. Only Cloud
+ * Functions can read this collection; passwords are additionally encrypted
+ * with EMAIL_CREDENTIALS_KEY.
+ */
+export interface EmailAccount {
+  fromName: string;
+  fromEmail: string;
+  smtp: MailServerSettings & { encryptedPassword: string };
+  imap?: MailServerSettings & {
+    enabled: boolean;
+    encryptedPassword: string;
+    /** Highest INBOX UID already imported */
+    lastUid?: number;
+    /** Mailbox UIDVALIDITY that lastUid belongs to */
+    uidValidity?: string;
+    lastSyncAt?: number;
+    lastError?: string;
+  };
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Email account as shown to the user (no credentials)
+ */
+export interface EmailAccountStatus {
+  fromName: string;
+  fromEmail: string;
+  smtp: MailServerSettings;
+  imap?: MailServerSettings & {
+    enabled: boolean;
+    lastSyncAt?: number;
+    lastError?: string;
+  };
+  updatedAt: number;
+}
+
+/**
+ * Passwords may be omitted to keep the stored ones
+ */
+export interface SaveEmailAccountRequest {
+  fromName: string;
+  fromEmail: string;
+  smtp: MailServerSettings & { password?: string };
+  imap?: MailServerSettings & { enabled: boolean; password?: string };
+}
+
+export interface EmailAccountResponse {
+  account: EmailAccountStatus | null;
+}
+
+export interface OutgoingEmailAttachment {
+  name: string;
+  type: string;
+  contentBase64: string;
+}
+
+export interface SendClientEmailRequest {
+  leadId: string;
+  subject: string;
+  body: string;
+  category?: ClientCommunication["category"];
+  /** Attach a freshly rendered PDF of this invoice */
+  invoiceId?: string;
+  attachments?: OutgoingEmailAttachment[];
+}
+
+export interface SendClientEmailResponse {
+  communication: ClientCommunication;
+}
+
+// ============================================
+// Follow-up Sequence Types
+// ============================================
+
+/**
+ * Stored on the lead document as followUpSequence. The web app enrolls and
+ * stops leads; processFollowUpSequences drafts and sends each step.
+ */
+export interface FollowUpStep {
+  /** Days after the previous message (or enrollment, for the first step) */
+  delayDays: number;
+  /** Optional angle for the AI draft */
+  focus?: string;
+  sentAt?: number;
+  communicationId?: string;
+}
+
+export type FollowUpStopReason =
+  | "replied"
+  | "status_changed"
+  | "manual"
+  | "no_email_account"
+  | "no_recipient"
+  | "failed";
+
+export interface FollowUpSequence {
+  id: string;
+  status: "active" | "completed" | "stopped";
+  steps: FollowUpStep[];
+  /** Index of the next step to send */
+  currentStep: number;
+  nextSendAt: number;
+  enrolledAt: number;
+  /** Lead status at enrollment; any change halts the sequence */
+  enrolledStatus: string;
+  stoppedAt?: number;
+  stopReason?: FollowUpStopReason;
+  failedAttempts?: number;
+  lastError?: string;
+}
+
+// ============================================
+// Lead Merge Types
+// ============================================
+
+/**
+ * Left at users/{uid}/leadMerges/{duplicateLeadId} after a merge so that
+ * links created for the removed lead (e.g. open Stripe Checkout sessions)
+ * still resolve
+ */
+export interface LeadMergeRecord {
+  mergedInto: string;
+  mergedAt: number;
+}
+
+export interface MergeLeadsRequest {
+  /** The lead that is kept */
+  primaryLeadId: string;
+  /** The lead folded into the primary and then removed */
+  duplicateLeadId: string;
+}
+
+export interface MergeLeadsResponse {
+  /** The merged lead document, including its id */
+  lead: Record<string, unknown>;
+}
+
+// ============================================
+// Website Inspection Types
+// ============================================
+
+/**
+ * What a quick look at a lead's existing website found
+ */
+export interface WebsiteSignals {
+  url: string;
+  checkedAt: number;
+  reachable: boolean;
+  /** Final page was served over HTTPS */
+  https: boolean;
+  /** Page declares a responsive viewport meta tag */
+  mobileViewport: boolean;
+  /** Latest year in a copyright notice, if any */
+  copyrightYear?: number;
+  /** e.g. "WordPress 4.9" from the generator meta tag */
+  generator?: string;
+  /** Legacy markup found, such as Flash embeds or framesets */
+  legacyMarkup?: string[];
+  error?: string;
+}
+
+export interface InspectWebsitesRequest {
+  urls: string[];
+}
+
+export interface InspectWebsitesResponse {
+  results: WebsiteSignals[];
+}
+
+// ============================================
+// Site Audit Types
+// ============================================
+
+export type SiteAuditCategory =
+  | "performance"
+  | "mobile"
+  | "seo"
+  | "links"
+  | "accessibility"
+  | "security"
+  | "content";
+
+export interface SiteAuditIssue {
+  category: SiteAuditCategory;
+  severity: "high" | "medium" | "low";
+  /** Plain-language description, suitable for quoting in a pitch */
+  message: string;
+}
+
+/**
+ * Structured report on a prospect's existing website
+ */
+export interface SiteAuditReport {
+  url: string;
+  checkedAt: number;
+  /** Final URL after redirects */
+  finalUrl?: string;
+  /** Time taken to fetch the home page HTML */
+  responseTimeMs?: number;
+  /** Size of the HTML read (capped at MAX_INSPECTED_HTML_BYTES) */
+  pageBytes?: number;
+  signals: WebsiteSignals;
+  issues: SiteAuditIssue[];
+  linksChecked: number;
+  brokenLinks: string[];
+}
+
+export interface AuditWebsiteRequest {
+  url: string;
+}
+
+export interface AuditWebsiteResponse {
+  report: SiteAuditReport;
+}
+
+// ============================================
+// Saved Search Types
+// ============================================
+
+export type SavedSearchSchedule = "off" | "daily" | "weekly";
+
+/**
+ * A lead search kept at users/{uid}/savedSearches/{id}, re-run on its
+ * schedule by runSavedSearches
+ */
+export interface SavedSearch {
+  id: string;
+  query: string;
+  location: string;
+  schedule: SavedSearchSchedule;
+  createdAt: number;
+  /** When the scheduler should next run it; absent while the schedule is off */
+  nextRunAt?: number;
+  lastRunAt?: number;
+  /** New businesses found by the last run */
+  lastNewCount?: number;
+  lastError?: string;
+}
+
+/**
+ * Business found by a scheduled search run that isn't already a customer,
+ * kept at users/{uid}/discoveredLeads/{id}. Dismissed and saved entries are
+ * kept so the same business isn't surfaced again.
+ */
+export interface DiscoveredLead {
+  id: string;
+  searchId: string;
+  query: string;
+  searchLocation: string;
+  discoveredAt: number;
+  status: "new" | "dismissed" | "saved";
+  businessName: string;
+  location: string;
+  details: string;
+  phone?: string;
+  email?: string;
+  category?: string;
+  rating?: number;
+  reviewCount?: number;
+  existingWebsiteUrl?: string;
+}
+
+// ============================================
+// Lead Task Types
+// ============================================
+
+/**
+ * Follow-up task stored in the lead document's tasks array. The web app
+ * manages tasks; sendTaskReminders emails due reminders.
+ */
+export interface ClientTask {
+  id: string;
+  title: string;
+  /** Calendar day, YYYY-MM-DD */
+  dueDate: string;
+  notes?: string;
+  /** Email to remind; the account owner when empty */
+  assignee?: string;
+  reminderAt?: number;
+  reminderSentAt?: number;
+  reminderError?: string;
+  completedAt?: number;
+  createdAt: number;
+}
+
+// ============================================
+// Lead Storage Types
+// ============================================
+
+/**
+ * Sub-collections of users/{uid}/customers/{leadId} holding one document per
+ * record. Older lead documents kept these as arrays on the lead itself.
+ */
+export type LeadRecordCollection = "history" | "communications" | "invoices";
+
+/**
+ * How content moved to Storage is turned back into its original value
+ */
+export type StoredContentEncoding = "data_url" | "text" | "json";
+
+export interface ClientHistoryItem {
+  id: string;
+  type: string;
+  timestamp: number;
+  /** Empty when the content is in Storage at contentPath */
+  content: unknown;
+  contentPath?: string;
+  contentEncoding?: StoredContentEncoding;
+  metadata?: Record<string, unknown>;
+}
+
+export interface MigrateCustomerStorageRequest {
+  /** Leads to migrate; every legacy lead of the user when omitted */
+  leadIds?: string[];
+}
+
+export interface MigrateCustomerStorageResponse {
+  migrated: number;
+  /** Legacy leads left for a later call */
+  remaining: number;
+}
+
+// ============================================
+// Website Release Types
+// ============================================
+
+export type HostingMode = "preview" | "production";
+
+// What deployed a release; rollbacks re-release an earlier one
+export type WebsiteReleaseSource = "publish" | "update" | "promote" | "rollback";
+
+/**
+ * One deployment of a website, stored at websites/{websiteId}/releases.
+ * Releases are never changed after they are recorded.
+ */
+export interface WebsiteRelease {
+  id: string;
+  websiteId: string;
+  authorId: string;
+  source: WebsiteReleaseSource;
+  hostingMode: HostingMode;
+  hostingSiteId: string; // Site that holds the version; drafts share the default site
+  channelId?: string; // Preview channel the version was released to
+  versionId: string;
+  storagePath: string; // HTML snapshot in Storage
+  summary?: string;
+  rolledBackFrom?: string; // Release a rollback restored
+  createdAt: Timestamp;
+}
+
+export interface WebsiteReleaseSummary extends Omit<WebsiteRelease, "storagePath" | "createdAt"> {
+  createdAt: number;
+}
+
+export interface GetWebsiteReleasesResponse {
+  releases: WebsiteReleaseSummary[];
+  currentReleaseId?: string;
+}
+
+export interface RollbackWebsiteRequest {
+  websiteId: string;
+  releaseId: string;
+}
+
 // ============================================
 // Internal Types
 // ============================================
@@ -219,16 +904,50 @@ export interface DebitTokensParams {
 export interface GeminiCallParams {
   userId: string;
   modelKey: string;
-  prompt: string;
+  prompt?: string; // Or a full request
+  request?: GeminiContentRequest;
   feature: string;
   systemInstruction?: string;
   maxOutputTokens?: number;
+  // Tools for a prompt request, e.g. Google Search grounding
+  tools?: GeminiContentRequest["tools"];
+  // Charge this fixed price per action instead of the metered usage
+  creditCost?: number;
+  actionId?: string;
 }
 
 export interface GeminiCallResult {
   text: string;
+  response: GeminiContentResponse;
   inputTokens: number;
   outputTokens: number;
   tokensDebited: number;
   newBalance: number;
 }
+
+/**
+ * Body of a Gemini REST generateContent request
+ */
+export interface GeminiContentRequest {
+  contents: GeminiContent[];
+  systemInstruction?: GeminiContent;
+  tools?: Record<string, unknown>[];
+  toolConfig?: Record<string, unknown>;
+  safetySettings?: Record<string, unknown>[];
+  generationConfig?: Record<string, unknown>;
+}
+
+export interface GeminiContent {
+  role?: string;
+  parts: Array<Record<string, unknown> & { text?: string }>;
+}
+
+export interface GeminiContentResponse {
+  candidates?: Array<{ content?: GeminiContent; [key: string]: unknown }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+  [key: string]: unknown;
+}
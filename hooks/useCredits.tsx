@@ -27,6 +27,9 @@ export interface Transaction {
   description?: string;
   createdAt: string;
   balanceAfter: number;
+  // Credits reserved for an AI job (type CREDIT_HOLD)
+  holdStatus?: 'held' | 'captured' | 'released';
+  heldTokens?: number;
 }
 
 export type UserPlan = 'free' | 'beginner' | 'agency50';
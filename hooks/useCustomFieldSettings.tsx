@@ -0,0 +1,95 @@
+/**
+ * useCustomFieldSettings Hook
+ *
+ * Manages the user's custom lead field definitions stored at
+ * users/{uid}/settings/customFields. Values live on each lead.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { doc, onSnapshot, setDoc } from 'firebase/firestore';
+import { db, isFirebaseConfigured } from '../lib/firebase';
+import { useAuth } from './useAuth';
+import { CustomFieldSettings } from '../types';
+
+const LOCAL_STORAGE_KEY = 'renova8_custom_field_settings';
+
+interface UseCustomFieldSettingsReturn {
+  settings: CustomFieldSettings;
+  loading: boolean;
+  error: string | null;
+  updateSettings: (settings: CustomFieldSettings) => Promise<void>;
+}
+
+const withDefaults = (data: any): CustomFieldSettings => ({
+  fields: Array.isArray(data?.fields) ? data.fields : [],
+  updatedAt: data?.updatedAt,
+});
+
+export function useCustomFieldSettings(): UseCustomFieldSettingsReturn {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<CustomFieldSettings>(withDefaults(null));
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Demo mode: keep settings in localStorage
+    if (!isFirebaseConfigured() || !db || !user) {
+      try {
+        const saved = localStorage.getItem(LOCAL_STORAGE_KEY);
+        setSettings(withDefaults(saved ? JSON.parse(saved) : null));
+      } catch {
+        setSettings(withDefaults(null));
+      }
+      setLoading(false);
+      return;
+    }
+
+    const unsubscribe = onSnapshot(
+      doc(db, 'users', user.uid, 'settings', 'customFields'),
+      (snapshot) => {
+        setSettings(withDefaults(snapshot.exists() ? snapshot.data() : null));
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error loading custom fields:', err);
+        setError('Failed to load custom fields.');
+        setLoading(false);
+      }
+    );
+
+    return unsubscribe;
+  }, [user]);
+
+  const updateSettings = useCallback(async (next: CustomFieldSettings) => {
+    const normalized: CustomFieldSettings = {
+      fields: next.fields.map(field => ({
+        id: field.id,
+        label: field.label.trim() || 'Untitled',
+        type: field.type,
+        // Only dropdowns keep a list of choices
+        ...(field.type === 'select'
+          ? { options: [...new Set((field.options || []).map(option => option.trim()).filter(Boolean))] }
+          : {}),
+      })),
+      updatedAt: Date.now(),
+    };
+
+    setSettings(normalized);
+    setError(null);
+
+    if (!isFirebaseConfigured() || !db || !user) {
+      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(normalized));
+      return;
+    }
+
+    try {
+      await setDoc(doc(db, 'users', user.uid, 'settings', 'customFields'), normalized);
+    } catch (err) {
+      console.error('Error saving custom fields:', err);
+      setError('Failed to save custom fields.');
+      throw err;
+    }
+  }, [user]);
+
+  return { settings, loading, error, updateSettings };
+}
@@ -3,34 +3,223 @@
  *
  * Manages customer data with Firebase Firestore persistence.
  * Provides real-time sync and offline support via localStorage fallback.
+ *
+ * Customer documents hold core fields only (see lib/leadStorage). Invoices
+ * and communications of all customers are synced through collection group
+ * listeners; history and files in Storage are loaded per customer through
+ * loadCustomerDetails. Customers saved in the old single-document layout
+ * are read as they are and migrated server-side.
+ *
+ * Edits of signed-in users go through a queue kept in localStorage, so they
+ * survive going offline or closing the app, and are shown on top of the
+ * synced data until written. Fields also changed on another device are
+ * reported as conflicts for the user to resolve (see lib/customerSync).
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import {
   collection,
+  collectionGroup,
   doc,
   onSnapshot,
-  setDoc,
   deleteDoc,
+  getDocs,
+  getDocFromServer,
   writeBatch,
   query,
+  where,
   orderBy,
-  Timestamp
+  deleteField,
+  Timestamp,
+  DocumentData,
+  DocumentReference,
 } from 'firebase/firestore';
-import { db, isFirebaseConfigured } from '../lib/firebase';
+import { ref as storageRef, uploadString, getBlob, deleteObject, listAll } from 'firebase/storage';
+import { db, storage, isFirebaseConfigured } from '../lib/firebase';
 import { useAuth } from './useAuth';
-import { Lead } from '../types';
+import { Communication, CustomerFieldConflict, HistoryItem, Invoice, Lead, StoredContentEncoding } from '../types';
+import { withLeadScore } from '../lib/leadScoring';
+import {
+  LEAD_FILE_FIELDS,
+  LEAD_RECORD_COLLECTIONS,
+  LEAD_STORAGE_VERSION,
+  LeadFileField,
+  getChangedRecords,
+  getContentEncoding,
+  getLeadCoreFields,
+  getLeadStoragePath,
+  getRemovedRecordIds,
+  isLegacyLead,
+  mergeRecords,
+} from '../lib/leadStorage';
+import { LeadChanges, findFieldConflicts, getChangedFields, getLeadChanges, rebaseLeadChanges } from '../lib/customerSync';
+import { migrateCustomerStorage } from '../services/leadService';
 
 const LOCAL_STORAGE_KEY = 'renova8_customers';
+// Per-user keys, suffixed with the uid
+const QUEUE_STORAGE_KEY = 'renova8_customer_queue';
+const CONFLICTS_STORAGE_KEY = 'renova8_customer_conflicts';
+const DEVICE_ID_KEY = 'renova8_device_id';
+
+// Firestore batches are limited to 500 writes
+const BATCH_SIZE = 500;
+
+// Retry a queue that stopped on a network error even if no online event fires
+const SYNC_RETRY_DELAY_MS = 30 * 1000;
+
+type SyncStatus = 'synced' | 'syncing' | 'offline' | 'error';
 
 interface UseCustomersReturn {
   customers: Lead[];
   loading: boolean;
   error: string | null;
   saveCustomer: (customer: Lead) => Promise<void>;
+  importCustomers: (customers: Lead[]) => Promise<void>;
   updateCustomer: (customer: Lead) => Promise<void>;
   deleteCustomer: (customerId: string) => Promise<void>;
-  syncStatus: 'synced' | 'syncing' | 'offline' | 'error';
+  loadCustomerDetails: (customerIds: string[]) => void;
+  syncStatus: SyncStatus;
+  pendingOperations: number; // Queued edits not written yet
+  conflicts: CustomerFieldConflict[];
+  resolveConflict: (conflictId: string, keep: 'local' | 'remote') => void;
+}
+
+// History and Storage files of one customer, loaded on demand
+interface CustomerDetails {
+  history?: HistoryItem[];
+  historyLoaded: boolean;
+  // Loaded file values by lead field
+  files: Partial<Record<LeadFileField['field'], { path: string; value?: string }>>;
+}
+
+interface WriteOperation {
+  ref: DocumentReference;
+  data?: DocumentData; // Deletes the document when missing
+}
+
+// An edit waiting to be written. Updates keep only what the edit changed,
+// before and after (see getLeadChanges); forced updates skip conflict detection.
+type QueuedCustomerOperation = { id: string; queuedAt: number } & (
+  | { type: 'save'; customers: Lead[] }
+  | { type: 'update'; customer: LeadChanges; previous: LeadChanges; force?: boolean }
+  | { type: 'delete'; customerId: string }
+);
+
+const toMillis = (value: any): number | undefined => value?.toMillis?.() || value;
+
+// Convert Firestore record documents (timestamps may be Timestamps)
+const toInvoice = (data: any, id: string): Invoice => {
+  const { ownerId: _ownerId, leadId: _leadId, ...invoice } = data;
+  return {
+    ...invoice,
+    id,
+    createdAt: toMillis(invoice.createdAt),
+    dueDate: toMillis(invoice.dueDate),
+    paidAt: toMillis(invoice.paidAt),
+    payments: invoice.payments?.map((p: any) => ({ ...p, date: toMillis(p.date) })),
+  };
+};
+
+const toCommunication = (data: any, id: string): Communication => {
+  const { ownerId: _ownerId, leadId: _leadId, ...communication } = data;
+  return { ...communication, id, timestamp: toMillis(communication.timestamp) };
+};
+
+const toHistoryItem = (data: any, id: string): HistoryItem => {
+  const { ownerId: _ownerId, leadId: _leadId, ...item } = data;
+  return { ...item, id, timestamp: toMillis(item.timestamp) };
+};
+
+const toCustomer = (data: any, id: string): Lead => ({
+  ...data,
+  id,
+  addedAt: toMillis(data.addedAt) || Date.now(),
+  // Arrays only exist on documents that haven't been migrated
+  invoices: data.invoices?.map((inv: any, index: number) => toInvoice(inv, inv.id ?? String(index))),
+  communications: data.communications?.map((comm: any, index: number) => toCommunication(comm, comm.id ?? String(index))),
+  history: data.history?.map((h: any, index: number) => toHistoryItem(h, h.id ?? String(index))),
+});
+
+// Top-level undefined values are rejected by Firestore
+const withoutUndefined = (data: object): DocumentData =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+
+const createOperationId = () => `op-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+
+// Identifies this browser in field metadata, so its own synced edits aren't conflicts
+function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = `device-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+const isNetworkError = (err: any): boolean =>
+  !navigator.onLine || err?.code === 'unavailable' || err?.code === 'storage/retry-limit-exceeded';
+
+function readStoredList<T>(key: string): T[] {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function uploadContent(path: string, content: any, encoding: StoredContentEncoding, contentType?: string): Promise<void> {
+  const fileRef = storageRef(storage, path);
+  if (encoding === 'data_url') {
+    await uploadString(fileRef, content, 'data_url');
+  } else if (encoding === 'json') {
+    await uploadString(fileRef, JSON.stringify(content), 'raw', { contentType: 'application/json' });
+  } else {
+    await uploadString(fileRef, content, 'raw', { contentType: contentType || 'text/plain; charset=utf-8' });
+  }
+}
+
+/**
+ * Read a Storage object back into its original value. Without an encoding,
+ * text files come back as text and anything else as a data URL.
+ */
+async function downloadContent(path: string, encoding?: StoredContentEncoding): Promise<any> {
+  const blob = await getBlob(storageRef(storage, path));
+  const asText = encoding ? encoding !== 'data_url' : blob.type.startsWith('text/');
+
+  if (!asText) {
+    return new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  }
+
+  const text = await blob.text();
+  return encoding === 'json' ? JSON.parse(text) : text;
+}
+
+async function deleteStorageFolder(path: string): Promise<void> {
+  const listing = await listAll(storageRef(storage, path));
+  await Promise.all([
+    ...listing.items.map((item) => deleteObject(item)),
+    ...listing.prefixes.map((prefix) => deleteStorageFolder(prefix.fullPath)),
+  ]);
+}
+
+async function commitWrites(operations: WriteOperation[]): Promise<void> {
+  for (let i = 0; i < operations.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    operations.slice(i, i + BATCH_SIZE).forEach(({ ref, data }) => {
+      if (data) {
+        batch.set(ref, data, { merge: true });
+      } else {
+        batch.delete(ref);
+      }
+    });
+    await batch.commit();
+  }
 }
 
 export function useCustomers(): UseCustomersReturn {
@@ -38,7 +227,27 @@ export function useCustomers(): UseCustomersReturn {
   const [customers, setCustomers] = useState<Lead[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [syncStatus, setSyncStatus] = useState<'synced' | 'syncing' | 'offline' | 'error'>('synced');
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('synced');
+  const [pendingOperations, setPendingOperations] = useState(0);
+  const [conflicts, setConflicts] = useState<CustomerFieldConflict[]>([]);
+
+  // Customer documents in list order; whole leads in localStorage-only mode
+  const coreRef = useRef<Lead[]>([]);
+  // Invoices and communications by lead id, once their listener has reported
+  const recordsRef = useRef<{ invoices?: Map<string, Invoice[]>; communications?: Map<string, Communication[]> }>({});
+  const detailsRef = useRef(new Map<string, CustomerDetails>());
+  const historyListenersRef = useRef(new Map<string, () => void>());
+  // Storage content by path, and paths being downloaded
+  const contentCacheRef = useRef(new Map<string, any>());
+  const contentLoadsRef = useRef(new Set<string>());
+  const migrationRequestedRef = useRef(new Set<string>());
+  const customersRef = useRef<Lead[]>([]);
+  const queueRef = useRef<QueuedCustomerOperation[]>([]);
+  const conflictsRef = useRef<CustomerFieldConflict[]>([]);
+  const flushingRef = useRef(false);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const isCloud = !!user && isFirebaseConfigured();
 
   // Load from localStorage (fallback/initial load)
   const loadFromLocalStorage = useCallback((): Lead[] => {
@@ -59,53 +268,383 @@ export function useCustomers(): UseCustomersReturn {
     }
   }, []);
 
-  // Convert Firestore document to Lead
-  const docToLead = (docData: any, id: string): Lead => {
-    return {
-      ...docData,
-      id,
-      // Convert Firestore timestamps to numbers
-      addedAt: docData.addedAt?.toMillis?.() || docData.addedAt || Date.now(),
-      // Handle nested timestamp conversions
-      invoices: docData.invoices?.map((inv: any) => ({
-        ...inv,
-        createdAt: inv.createdAt?.toMillis?.() || inv.createdAt,
-        dueDate: inv.dueDate?.toMillis?.() || inv.dueDate,
-        paidAt: inv.paidAt?.toMillis?.() || inv.paidAt,
-        payments: inv.payments?.map((p: any) => ({
-          ...p,
-          date: p.date?.toMillis?.() || p.date,
-        })),
-      })),
-      communications: docData.communications?.map((comm: any) => ({
-        ...comm,
-        timestamp: comm.timestamp?.toMillis?.() || comm.timestamp,
-      })),
-      history: docData.history?.map((h: any) => ({
-        ...h,
-        timestamp: h.timestamp?.toMillis?.() || h.timestamp,
-      })),
+  const getDetails = (customerId: string): CustomerDetails => {
+    let details = detailsRef.current.get(customerId);
+    if (!details) {
+      details = { historyLoaded: false, files: {} };
+      detailsRef.current.set(customerId, details);
+    }
+    return details;
+  };
+
+  // Combine a customer document with its records and loaded files. Arrays
+  // still on legacy documents are merged in, records winning.
+  const composeCustomer = (core: Lead): Lead => {
+    const { invoices, communications } = recordsRef.current;
+    const details = detailsRef.current.get(core.id);
+    const lead: Lead = {
+      ...core,
+      invoices: mergeRecords('invoices', core.invoices, invoices ? invoices.get(core.id) || [] : undefined),
+      communications: mergeRecords('communications', core.communications, communications ? communications.get(core.id) || [] : undefined),
+      history: mergeRecords('history', core.history, details?.history),
     };
+    LEAD_FILE_FIELDS.forEach(({ field }) => {
+      const file = details?.files[field];
+      if (file) lead[field] = file.value;
+    });
+    return lead;
+  };
+
+  // Show queued edits on top of the synced customers
+  const applyQueuedOperations = (list: Lead[]): Lead[] =>
+    queueRef.current.reduce((leads, operation) => {
+      if (operation.type === 'save') {
+        const ids = new Set(leads.map((c) => c.id));
+        return [...operation.customers.filter((c) => !ids.has(c.id)), ...leads];
+      }
+      if (operation.type === 'delete') {
+        return leads.filter((c) => c.id !== operation.customerId);
+      }
+      return leads.map((c) =>
+        c.id === operation.customer.id ? rebaseLeadChanges(c, operation.customer, operation.previous) : c
+      );
+    }, list);
+
+  const publish = useCallback(() => {
+    const composed = applyQueuedOperations(coreRef.current.map(composeCustomer));
+    customersRef.current = composed;
+    setCustomers(composed);
+    saveToLocalStorage(composed);
+  }, [saveToLocalStorage]);
+
+  const persistQueue = (uid: string) => {
+    try {
+      localStorage.setItem(`${QUEUE_STORAGE_KEY}_${uid}`, JSON.stringify(queueRef.current));
+    } catch (e) {
+      console.error('Failed to save pending changes:', e);
+      setError('Your unsynced changes could not be saved on this device. Keep the app open until they sync, or they will be lost.');
+    }
+    setPendingOperations(queueRef.current.length);
+  };
+
+  const persistConflicts = (uid: string, next: CustomerFieldConflict[]) => {
+    conflictsRef.current = next;
+    setConflicts(next);
+    try {
+      localStorage.setItem(`${CONFLICTS_STORAGE_KEY}_${uid}`, JSON.stringify(next));
+    } catch (e) {
+      console.error('Failed to save sync conflicts:', e);
+    }
+  };
+
+  const withCachedContent = (item: HistoryItem): HistoryItem =>
+    item.contentPath && contentCacheRef.current.has(item.contentPath)
+      ? { ...item, content: contentCacheRef.current.get(item.contentPath) }
+      : item;
+
+  // Download history content kept in Storage, then show it
+  const loadHistoryContent = (customerId: string, items: HistoryItem[]) => {
+    items.forEach((item) => {
+      const path = item.contentPath;
+      if (!path || contentCacheRef.current.has(path) || contentLoadsRef.current.has(path)) return;
+
+      contentLoadsRef.current.add(path);
+      downloadContent(path, item.contentEncoding)
+        .then((content) => {
+          contentCacheRef.current.set(path, content);
+          const details = detailsRef.current.get(customerId);
+          if (details?.history) {
+            details.history = details.history.map(withCachedContent);
+            publish();
+          }
+        })
+        .catch((err) => console.error('Failed to load history content:', err))
+        .finally(() => contentLoadsRef.current.delete(path));
+    });
+  };
+
+  // Download website files whose Storage path changed
+  const loadCustomerFiles = (customerId: string) => {
+    const core = coreRef.current.find((c) => c.id === customerId);
+    if (!core) return;
+    const details = getDetails(customerId);
+
+    LEAD_FILE_FIELDS.forEach(({ field, pathField }) => {
+      const path = core[pathField];
+      const current = details.files[field];
+
+      if (!path) {
+        if (current) {
+          delete details.files[field];
+          publish();
+        }
+        return;
+      }
+      if (current?.path === path || contentLoadsRef.current.has(path)) return;
+
+      contentLoadsRef.current.add(path);
+      downloadContent(path)
+        .then((value) => {
+          const latest = coreRef.current.find((c) => c.id === customerId);
+          if (latest?.[pathField] !== path) return;
+          details.files[field] = { path, value };
+          publish();
+        })
+        .catch((err) => console.error('Failed to load customer file:', err))
+        .finally(() => contentLoadsRef.current.delete(path));
+    });
+  };
+
+  // Save a change in localStorage-only mode
+  const applyLocal = (customer: Lead) => {
+    const exists = coreRef.current.some((c) => c.id === customer.id);
+    coreRef.current = exists
+      ? coreRef.current.map((c) => (c.id === customer.id ? customer : c))
+      : [customer, ...coreRef.current];
+    publish();
+  };
+
+  // Give history content that is too large for Firestore a Storage path
+  const toStoredHistoryItem = async (uid: string, customerId: string, item: HistoryItem): Promise<HistoryItem> => {
+    const { contentPath, contentEncoding: _encoding, ...rest } = item;
+    // Content that hasn't loaded yet is already stored
+    if (contentPath && item.content === '') return item;
+
+    const encoding = getContentEncoding(item.content);
+    if (!encoding) return rest;
+
+    const path = contentPath || getLeadStoragePath(uid, customerId, `history/${item.id}`);
+    await uploadContent(path, item.content, encoding);
+    contentCacheRef.current.set(path, item.content);
+    return { ...rest, content: '', contentPath: path, contentEncoding: encoding };
+  };
+
+  /**
+   * Upload changed files and list the document writes that save a customer.
+   * With a previous state, only the fields that differ from it are written,
+   * stamped with updatedAt in fieldMeta. Returns Storage paths no longer used.
+   */
+  const prepareCustomerWrite = async (
+    uid: string,
+    customer: LeadChanges,
+    previous?: LeadChanges,
+    updatedAt = Date.now()
+  ): Promise<{ operations: WriteOperation[]; staleFiles: string[] }> => {
+    const customerRef = doc(db, 'users', uid, 'customers', customer.id);
+    const details = getDetails(customer.id);
+    const staleFiles: string[] = [];
+
+    const coreFields = getLeadCoreFields(customer);
+    const changedFields = previous ? getChangedFields(customer, previous) : null;
+    const data: DocumentData = changedFields ? {} : coreFields;
+    if (changedFields && changedFields.length > 0) {
+      const deviceId = getDeviceId();
+      changedFields
+        .filter((field) => !LEAD_FILE_FIELDS.some((file) => file.field === field))
+        .forEach((field) => {
+          data[field] = field in coreFields ? coreFields[field] : deleteField();
+        });
+      data.fieldMeta = Object.fromEntries(changedFields.map((field) => [field, { updatedAt, deviceId }]));
+    }
+    if (typeof data.addedAt === 'number') {
+      data.addedAt = Timestamp.fromMillis(data.addedAt);
+    }
+
+    for (const { field, pathField, name, contentType } of LEAD_FILE_FIELDS) {
+      const value = customer[field];
+      const oldValue = previous?.[field];
+      // Unchanged, or cleared on a customer whose file never loaded
+      if (value ? value === oldValue : !oldValue) continue;
+
+      const encoding = value ? getContentEncoding(value) : null;
+      if (value && encoding) {
+        const path = getLeadStoragePath(uid, customer.id, `${name}-${Date.now()}`);
+        await uploadContent(path, value, encoding, contentType);
+        data[pathField] = path;
+        data[field] = deleteField();
+        details.files[field] = { path, value };
+      } else {
+        data[field] = value || deleteField();
+        data[pathField] = deleteField();
+        delete details.files[field];
+      }
+      if (previous?.[pathField]) staleFiles.push(previous[pathField]);
+    }
+
+    const operations: WriteOperation[] = [{ ref: customerRef, data }];
+
+    for (const name of LEAD_RECORD_COLLECTIONS) {
+      const next = customer[name] as { id: string }[] | undefined;
+      if (!next) continue;
+      const before = previous?.[name] as { id: string }[] | undefined;
+      const recordsCollection = collection(customerRef, name);
+
+      for (const record of getChangedRecords(next, before)) {
+        const stored = name === 'history'
+          ? await toStoredHistoryItem(uid, customer.id, record as HistoryItem)
+          : record;
+        operations.push({
+          ref: doc(recordsCollection, record.id),
+          data: { ...withoutUndefined(stored), ownerId: uid, leadId: customer.id },
+        });
+      }
+
+      // Only delete records when the full list was loaded
+      const loaded = name === 'history' ? details.historyLoaded : !!recordsRef.current[name];
+      if (!loaded) continue;
+      getRemovedRecordIds(next, before).forEach((id) => {
+        operations.push({ ref: doc(recordsCollection, id) });
+        const removed = before?.find((record) => record.id === id) as HistoryItem | undefined;
+        if (removed?.contentPath) staleFiles.push(removed.contentPath);
+      });
+    }
+
+    return { operations, staleFiles };
+  };
+
+  const deleteStaleFiles = (paths: string[]) => {
+    paths.forEach((path) => {
+      deleteObject(storageRef(storage, path)).catch((err) => console.warn('Failed to delete old file:', err));
+    });
   };
 
-  // Convert Lead to Firestore document
-  const leadToDoc = (lead: Lead): any => {
-    const doc: any = { ...lead };
-    // Remove id from doc data (it's the document ID)
-    delete doc.id;
-    // Convert timestamps
-    if (doc.addedAt) {
-      doc.addedAt = Timestamp.fromMillis(doc.addedAt);
+  // The other device's value of a conflicting field, downloading files kept in Storage
+  const getRemoteValue = async (server: Lead, field: string): Promise<unknown> => {
+    const file = LEAD_FILE_FIELDS.find((fileField) => fileField.field === field);
+    if (file && server[file.pathField]) {
+      return downloadContent(server[file.pathField]);
     }
-    return doc;
+    return server[field];
   };
 
-  // Setup real-time listener when user is authenticated
+  const addConflicts = (uid: string, found: CustomerFieldConflict[]) => {
+    // A newer conflict on the same field replaces the older one
+    const kept = conflictsRef.current.filter(
+      (conflict) => !found.some((f) => f.customerId === conflict.customerId && f.field === conflict.field)
+    );
+    persistConflicts(uid, [...kept, ...found]);
+  };
+
+  // Write one queued edit
+  const runOperation = async (uid: string, operation: QueuedCustomerOperation) => {
+    if (operation.type === 'save') {
+      const operations: WriteOperation[] = [];
+      for (const customer of operation.customers) {
+        operations.push(...(await prepareCustomerWrite(uid, customer)).operations);
+      }
+      await commitWrites(operations);
+      return;
+    }
+
+    if (operation.type === 'delete') {
+      const customerRef = doc(db, 'users', uid, 'customers', operation.customerId);
+      const records = await Promise.all(LEAD_RECORD_COLLECTIONS.map((name) => getDocs(collection(customerRef, name))));
+      await commitWrites(records.flatMap((snapshot) => snapshot.docs.map((recordDoc) => ({ ref: recordDoc.ref }))));
+      await deleteDoc(customerRef);
+
+      deleteStorageFolder(getLeadStoragePath(uid, operation.customerId, '')).catch((err) =>
+        console.warn('Failed to delete customer files:', err)
+      );
+      return;
+    }
+
+    const { customer, previous } = operation;
+    const serverDoc = await getDocFromServer(doc(db, 'users', uid, 'customers', customer.id));
+    if (!serverDoc.exists()) {
+      console.warn(`Customer ${customer.id} was deleted on another device; dropping queued edit.`);
+      return;
+    }
+
+    const server = toCustomer(serverDoc.data(), serverDoc.id);
+    const conflictingFields = operation.force ? [] : findFieldConflicts(customer, previous, server, getDeviceId());
+
+    // Keep the other device's value until the user picks one
+    const merged: LeadChanges = { ...customer };
+    const found: CustomerFieldConflict[] = [];
+    for (const field of conflictingFields) {
+      merged[field] = previous[field];
+      found.push({
+        id: `conflict-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+        customerId: customer.id,
+        businessName: server.businessName,
+        field,
+        localValue: customer[field],
+        remoteValue: await getRemoteValue(server, field),
+        localUpdatedAt: operation.queuedAt,
+        remoteUpdatedAt: server.fieldMeta?.[field]?.updatedAt,
+        detectedAt: Date.now(),
+      });
+    }
+
+    const { operations, staleFiles } = await prepareCustomerWrite(uid, merged, previous, operation.queuedAt);
+    await commitWrites(operations);
+    deleteStaleFiles(staleFiles);
+    if (found.length > 0) addConflicts(uid, found);
+  };
+
+  // Write queued edits in order; stops on network errors and retries later
+  const flushQueue = useCallback(async () => {
+    if (!user || !isFirebaseConfigured() || flushingRef.current) return;
+    if (!navigator.onLine) {
+      setSyncStatus('offline');
+      return;
+    }
+
+    flushingRef.current = true;
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+    let failed = false;
+
+    try {
+      while (queueRef.current.length > 0) {
+        setSyncStatus('syncing');
+        const operation = queueRef.current[0];
+        try {
+          await runOperation(user.uid, operation);
+        } catch (err) {
+          if (isNetworkError(err)) {
+            setSyncStatus('offline');
+            retryTimerRef.current = setTimeout(() => flushQueue(), SYNC_RETRY_DELAY_MS);
+            return;
+          }
+          // Retrying won't help (e.g. permission denied); drop it so later edits still sync
+          console.error('Error syncing customer change:', err);
+          setError('A change could not be synced and was discarded.');
+          failed = true;
+        }
+
+        queueRef.current = queueRef.current.filter((queued) => queued.id !== operation.id);
+        persistQueue(user.uid);
+        publish();
+      }
+      setSyncStatus(failed ? 'error' : 'synced');
+    } finally {
+      flushingRef.current = false;
+    }
+  }, [user, publish]);
+
+  const enqueue = (operation: QueuedCustomerOperation) => {
+    if (!user) return;
+    queueRef.current = [...queueRef.current, operation];
+    persistQueue(user.uid);
+    publish();
+    flushQueue();
+  };
+
+  // Setup real-time listeners when user is authenticated
   useEffect(() => {
     if (!user || !isFirebaseConfigured()) {
       // Not authenticated or Firebase not configured - use localStorage only
       const localData = loadFromLocalStorage();
+      coreRef.current = localData;
+      customersRef.current = localData;
+      queueRef.current = [];
+      conflictsRef.current = [];
       setCustomers(localData);
+      setPendingOperations(0);
+      setConflicts([]);
       setLoading(false);
       setSyncStatus('offline');
       return;
@@ -113,31 +652,49 @@ export function useCustomers(): UseCustomersReturn {
 
     setLoading(true);
     setSyncStatus('syncing');
+    coreRef.current = [];
+    recordsRef.current = {};
+    detailsRef.current = new Map();
+
+    // Edits and conflicts left from an earlier session
+    queueRef.current = readStoredList<QueuedCustomerOperation>(`${QUEUE_STORAGE_KEY}_${user.uid}`);
+    conflictsRef.current = readStoredList<CustomerFieldConflict>(`${CONFLICTS_STORAGE_KEY}_${user.uid}`);
+    setPendingOperations(queueRef.current.length);
+    setConflicts(conflictsRef.current);
 
     // Reference to user's customers collection
-    const customersRef = collection(db, 'users', user.uid, 'customers');
-    const q = query(customersRef, orderBy('addedAt', 'desc'));
+    const customersCollection = collection(db, 'users', user.uid, 'customers');
+    const q = query(customersCollection, orderBy('addedAt', 'desc'));
 
     // Real-time listener
     const unsubscribe = onSnapshot(
       q,
       (snapshot) => {
-        const firebaseCustomers: Lead[] = [];
-        snapshot.forEach((doc) => {
-          firebaseCustomers.push(docToLead(doc.data(), doc.id));
-        });
+        // Convert Firestore timestamps to numbers
+        const firebaseCustomers = snapshot.docs.map((customerDoc) => toCustomer(customerDoc.data(), customerDoc.id));
 
-        setCustomers(firebaseCustomers);
-        // Also save to localStorage as backup
-        saveToLocalStorage(firebaseCustomers);
+        coreRef.current = firebaseCustomers;
+        historyListenersRef.current.forEach((_unsubscribe, customerId) => loadCustomerFiles(customerId));
+        publish();
         setLoading(false);
-        setSyncStatus('synced');
         setError(null);
+        flushQueue();
+
+        // Move customers saved in the old layout out of their documents
+        const legacyIds = firebaseCustomers
+          .filter((c) => isLegacyLead(c) && !migrationRequestedRef.current.has(c.id))
+          .map((c) => c.id);
+        if (legacyIds.length > 0) {
+          legacyIds.forEach((id) => migrationRequestedRef.current.add(id));
+          migrateCustomerStorage(legacyIds).catch((err) => console.error('Customer migration failed:', err));
+        }
       },
       (err) => {
         console.error('Error fetching customers:', err);
-        // Fall back to localStorage on error
+        // Fall back to localStorage on error; it already includes queued edits
         const localData = loadFromLocalStorage();
+        coreRef.current = localData;
+        customersRef.current = localData;
         setCustomers(localData);
         setLoading(false);
         setSyncStatus('error');
@@ -145,8 +702,75 @@ export function useCustomers(): UseCustomersReturn {
       }
     );
 
-    return () => unsubscribe();
-  }, [user, loadFromLocalStorage, saveToLocalStorage]);
+    // Invoices and communications of every customer, grouped by lead
+    const recordListeners = [
+      { name: 'invoices' as const, convert: toInvoice },
+      { name: 'communications' as const, convert: toCommunication },
+    ].map(({ name, convert }) =>
+      onSnapshot(
+        query(collectionGroup(db, name), where('ownerId', '==', user.uid)),
+        (snapshot) => {
+          const byLead = new Map<string, any[]>();
+          snapshot.forEach((recordDoc) => {
+            const leadId = recordDoc.get('leadId');
+            byLead.set(leadId, [...(byLead.get(leadId) || []), convert(recordDoc.data(), recordDoc.id)]);
+          });
+          recordsRef.current[name] = byLead;
+          publish();
+        },
+        (err) => {
+          console.error(`Error fetching ${name}:`, err);
+          setSyncStatus('error');
+          setError('Failed to sync with cloud. Using local data.');
+        }
+      )
+    );
+
+    // Sync queued edits as soon as the connection is back
+    const handleOnline = () => flushQueue();
+    const handleOffline = () => setSyncStatus('offline');
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    const historyListeners = historyListenersRef.current;
+    return () => {
+      unsubscribe();
+      recordListeners.forEach((stop) => stop());
+      historyListeners.forEach((stop) => stop());
+      historyListeners.clear();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      if (retryTimerRef.current) {
+        clearTimeout(retryTimerRef.current);
+        retryTimerRef.current = null;
+      }
+    };
+  }, [user, loadFromLocalStorage, publish, flushQueue]);
+
+  // Start loading history and files of customers that are being viewed
+  const loadCustomerDetails = useCallback((customerIds: string[]) => {
+    if (!user || !isFirebaseConfigured()) return;
+
+    customerIds.forEach((customerId) => {
+      if (historyListenersRef.current.has(customerId)) return;
+
+      const stop = onSnapshot(
+        collection(db, 'users', user.uid, 'customers', customerId, 'history'),
+        (snapshot) => {
+          const items = snapshot.docs.map((itemDoc) => toHistoryItem(itemDoc.data(), itemDoc.id));
+          const details = getDetails(customerId);
+          details.history = items.map(withCachedContent);
+          details.historyLoaded = true;
+          publish();
+          loadHistoryContent(customerId, items);
+        },
+        (err) => console.error('Error fetching customer history:', err)
+      );
+
+      historyListenersRef.current.set(customerId, stop);
+      loadCustomerFiles(customerId);
+    });
+  }, [user, publish]);
 
   // Migrate localStorage data to Firebase on first login
   useEffect(() => {
@@ -164,15 +788,13 @@ export function useCustomers(): UseCustomersReturn {
       setSyncStatus('syncing');
 
       try {
-        const batch = writeBatch(db);
-        const customersRef = collection(db, 'users', user.uid, 'customers');
-
-        localData.forEach((customer) => {
-          const docRef = doc(customersRef, customer.id);
-          batch.set(docRef, leadToDoc(customer));
-        });
+        const operations: WriteOperation[] = [];
+        for (const customer of localData) {
+          const prepared = await prepareCustomerWrite(user.uid, { ...customer, storageVersion: LEAD_STORAGE_VERSION });
+          operations.push(...prepared.operations);
+        }
 
-        await batch.commit();
+        await commitWrites(operations);
         console.log('Migration complete!');
         // Clear localStorage after successful migration
         // localStorage.removeItem(LOCAL_STORAGE_KEY); // Keep as backup
@@ -186,93 +808,117 @@ export function useCustomers(): UseCustomersReturn {
   }, [user, customers.length, loadFromLocalStorage]);
 
   // Save a new customer
-  const saveCustomer = useCallback(async (customer: Lead) => {
-    // Always update local state immediately
-    setCustomers((prev) => {
-      if (prev.find((c) => c.id === customer.id)) {
-        return prev; // Already exists
-      }
-      const updated = [{ ...customer, addedAt: customer.addedAt || Date.now() }, ...prev];
-      saveToLocalStorage(updated);
-      return updated;
+  const saveCustomer = useCallback(async (lead: Lead) => {
+    if (customersRef.current.find((c) => c.id === lead.id)) {
+      return; // Already exists
+    }
+    const customer = withLeadScore({
+      ...lead,
+      addedAt: lead.addedAt || Date.now(),
+      ...(isCloud ? { storageVersion: LEAD_STORAGE_VERSION } : {}),
     });
 
-    if (!user || !isFirebaseConfigured()) {
-      return; // localStorage-only mode
+    if (!isCloud) {
+      applyLocal(customer); // localStorage-only mode
+      return;
     }
 
-    try {
-      setSyncStatus('syncing');
-      const customerRef = doc(db, 'users', user.uid, 'customers', customer.id);
-      await setDoc(customerRef, leadToDoc({
+    enqueue({ id: createOperationId(), queuedAt: Date.now(), type: 'save', customers: [customer] });
+  }, [user, isCloud, publish, flushQueue]);
+
+  // Save many new customers at once (e.g. from a CSV or vCard import)
+  const importCustomers = useCallback(async (imported: Lead[]) => {
+    const now = Date.now();
+    const existingIds = new Set(customersRef.current.map((c) => c.id));
+    const withDates = imported
+      .filter((customer) => !existingIds.has(customer.id))
+      .map((customer) => withLeadScore({
         ...customer,
-        addedAt: customer.addedAt || Date.now(),
+        addedAt: customer.addedAt || now,
+        ...(isCloud ? { storageVersion: LEAD_STORAGE_VERSION } : {}),
       }));
-      setSyncStatus('synced');
-    } catch (err) {
-      console.error('Error saving customer:', err);
-      setSyncStatus('error');
-      setError('Failed to save to cloud. Saved locally.');
+
+    if (!isCloud) {
+      withDates.forEach((customer) => applyLocal(customer)); // localStorage-only mode
+      return;
     }
-  }, [user, saveToLocalStorage]);
+
+    enqueue({ id: createOperationId(), queuedAt: now, type: 'save', customers: withDates });
+  }, [user, isCloud, publish, flushQueue]);
 
   // Update an existing customer
-  const updateCustomer = useCallback(async (customer: Lead) => {
-    // Always update local state immediately
-    setCustomers((prev) => {
-      const updated = prev.map((c) => (c.id === customer.id ? customer : c));
-      saveToLocalStorage(updated);
-      return updated;
-    });
+  const updateCustomer = useCallback(async (lead: Lead) => {
+    const customer = withLeadScore(lead);
+    const previous = customersRef.current.find((c) => c.id === customer.id);
+    if (!previous) return;
 
-    if (!user || !isFirebaseConfigured()) {
-      return; // localStorage-only mode
+    if (!isCloud) {
+      applyLocal(customer); // localStorage-only mode
+      return;
     }
 
-    try {
-      setSyncStatus('syncing');
-      const customerRef = doc(db, 'users', user.uid, 'customers', customer.id);
-      await setDoc(customerRef, leadToDoc(customer), { merge: true });
-      setSyncStatus('synced');
-    } catch (err) {
-      console.error('Error updating customer:', err);
-      setSyncStatus('error');
-      setError('Failed to sync update. Saved locally.');
-    }
-  }, [user, saveToLocalStorage]);
+    const changes = getLeadChanges(customer, previous);
+    enqueue({
+      id: createOperationId(),
+      queuedAt: Date.now(),
+      type: 'update',
+      customer: changes.next,
+      previous: changes.previous,
+    });
+  }, [user, isCloud, publish, flushQueue]);
 
   // Delete a customer
   const deleteCustomer = useCallback(async (customerId: string) => {
-    // Always update local state immediately
-    setCustomers((prev) => {
-      const updated = prev.filter((c) => c.id !== customerId);
-      saveToLocalStorage(updated);
-      return updated;
-    });
-
-    if (!user || !isFirebaseConfigured()) {
-      return; // localStorage-only mode
+    if (!isCloud) {
+      // localStorage-only mode
+      coreRef.current = coreRef.current.filter((c) => c.id !== customerId);
+      publish();
+      return;
     }
 
-    try {
-      setSyncStatus('syncing');
-      const customerRef = doc(db, 'users', user.uid, 'customers', customerId);
-      await deleteDoc(customerRef);
-      setSyncStatus('synced');
-    } catch (err) {
-      console.error('Error deleting customer:', err);
-      setSyncStatus('error');
-      setError('Failed to sync deletion. Removed locally.');
-    }
-  }, [user, saveToLocalStorage]);
+    historyListenersRef.current.get(customerId)?.();
+    historyListenersRef.current.delete(customerId);
+    detailsRef.current.delete(customerId);
+    // Edits of the customer that haven't synced no longer matter
+    queueRef.current = queueRef.current.filter((operation) =>
+      operation.type === 'update' ? operation.customer.id !== customerId : true
+    );
+    persistConflicts(user.uid, conflictsRef.current.filter((conflict) => conflict.customerId !== customerId));
+    enqueue({ id: createOperationId(), queuedAt: Date.now(), type: 'delete', customerId });
+  }, [user, isCloud, publish, flushQueue]);
+
+  // Keep one side of a conflict; keeping this device's value writes it again
+  const resolveConflict = useCallback((conflictId: string, keep: 'local' | 'remote') => {
+    const conflict = conflictsRef.current.find((c) => c.id === conflictId);
+    if (!conflict || !user) return;
+    persistConflicts(user.uid, conflictsRef.current.filter((c) => c.id !== conflictId));
+
+    const current = customersRef.current.find((c) => c.id === conflict.customerId);
+    if (keep === 'remote' || !current) return;
+
+    const changes = getLeadChanges(withLeadScore({ ...current, [conflict.field]: conflict.localValue }), current);
+    enqueue({
+      id: createOperationId(),
+      queuedAt: Date.now(),
+      type: 'update',
+      customer: changes.next,
+      previous: changes.previous,
+      force: true,
+    });
+  }, [user, publish, flushQueue]);
 
   return {
     customers,
     loading,
     error,
     saveCustomer,
+    importCustomers,
     updateCustomer,
     deleteCustomer,
+    loadCustomerDetails,
     syncStatus,
+    pendingOperations,
+    conflicts,
+    resolveConflict,
   };
 }
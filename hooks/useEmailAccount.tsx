@@ -0,0 +1,82 @@
+/**
+ * useEmailAccount Hook
+ *
+ * Loads the user's connected SMTP/IMAP account status. The account lives in
+ * a server-only collection, so it is fetched through a callable rather than
+ * a Firestore listener. Without Firebase (demo mode) no account is ever
+ * connected and the app falls back to mailto: links.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { isFirebaseConfigured } from '../lib/firebase';
+import { useAuth } from './useAuth';
+import { EmailAccountStatus } from '../types';
+import {
+  SaveEmailAccountInput,
+  getEmailAccount,
+  saveEmailAccount,
+  deleteEmailAccount,
+} from '../services/emailService';
+
+interface UseEmailAccountReturn {
+  account: EmailAccountStatus | null;
+  loading: boolean;
+  error: string | null;
+  saveAccount: (input: SaveEmailAccountInput) => Promise<void>;
+  disconnect: () => Promise<void>;
+}
+
+export function useEmailAccount(): UseEmailAccountReturn {
+  const { user } = useAuth();
+  const [account, setAccount] = useState<EmailAccountStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isFirebaseConfigured() || !user) {
+      setAccount(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    getEmailAccount()
+      .then((status) => {
+        if (!cancelled) setAccount(status);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const saveAccount = useCallback(async (input: SaveEmailAccountInput) => {
+    setError(null);
+    try {
+      setAccount(await saveEmailAccount(input));
+    } catch (err) {
+      setError((err as Error).message);
+      throw err;
+    }
+  }, []);
+
+  const disconnect = useCallback(async () => {
+    setError(null);
+    try {
+      await deleteEmailAccount();
+      setAccount(null);
+    } catch (err) {
+      setError((err as Error).message);
+      throw err;
+    }
+  }, []);
+
+  return { account, loading, error, saveAccount, disconnect };
+}
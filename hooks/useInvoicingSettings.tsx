@@ -0,0 +1,110 @@
+/**
+ * useInvoicingSettings Hook
+ *
+ * Manages per-user invoicing preferences (payment reminder schedule, default
+ * sender, currencies, exchange rates and tax profiles) stored at
+ * users/{uid}/settings/invoicing. The scheduled reminder job reads the same
+ * document, so reminder changes take effect on its next run.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { doc, onSnapshot, setDoc } from 'firebase/firestore';
+import { db, isFirebaseConfigured } from '../lib/firebase';
+import { useAuth } from './useAuth';
+import { InvoicingSettings, DEFAULT_INVOICING_SETTINGS } from '../types';
+
+const LOCAL_STORAGE_KEY = 'renova8_invoicing_settings';
+
+interface UseInvoicingSettingsReturn {
+  settings: InvoicingSettings;
+  loading: boolean;
+  error: string | null;
+  updateSettings: (settings: InvoicingSettings) => Promise<void>;
+}
+
+// Merge stored data over defaults so older documents stay valid
+const withDefaults = (data: any): InvoicingSettings => ({
+  reminders: {
+    enabled: data?.reminders?.enabled ?? DEFAULT_INVOICING_SETTINGS.reminders.enabled,
+    offsetsDays: Array.isArray(data?.reminders?.offsetsDays)
+      ? data.reminders.offsetsDays
+      : DEFAULT_INVOICING_SETTINGS.reminders.offsetsDays,
+  },
+  defaultSender: data?.defaultSender,
+  defaultCurrency: data?.defaultCurrency || DEFAULT_INVOICING_SETTINGS.defaultCurrency,
+  reportingCurrency: data?.reportingCurrency || DEFAULT_INVOICING_SETTINGS.reportingCurrency,
+  exchangeRates: data?.exchangeRates || {},
+  taxProfiles: Array.isArray(data?.taxProfiles) ? data.taxProfiles : [],
+  defaultTaxProfileId: data?.defaultTaxProfileId,
+  updatedAt: data?.updatedAt,
+});
+
+// Firestore rejects undefined values, so drop them before writing
+const stripUndefined = <T,>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export function useInvoicingSettings(): UseInvoicingSettingsReturn {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<InvoicingSettings>(DEFAULT_INVOICING_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Demo mode: keep settings in localStorage
+    if (!isFirebaseConfigured() || !db || !user) {
+      try {
+        const saved = localStorage.getItem(LOCAL_STORAGE_KEY);
+        setSettings(withDefaults(saved ? JSON.parse(saved) : null));
+      } catch {
+        setSettings(DEFAULT_INVOICING_SETTINGS);
+      }
+      setLoading(false);
+      return;
+    }
+
+    const unsubscribe = onSnapshot(
+      doc(db, 'users', user.uid, 'settings', 'invoicing'),
+      (snapshot) => {
+        setSettings(withDefaults(snapshot.exists() ? snapshot.data() : null));
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error loading invoicing settings:', err);
+        setError('Failed to load invoicing settings.');
+        setLoading(false);
+      }
+    );
+
+    return unsubscribe;
+  }, [user]);
+
+  const updateSettings = useCallback(async (next: InvoicingSettings) => {
+    const offsetsDays = Array.from(new Set(next.reminders.offsetsDays.map(Math.round)))
+      .sort((a, b) => a - b);
+    const normalized: InvoicingSettings = {
+      ...next,
+      reminders: { ...next.reminders, offsetsDays },
+      updatedAt: Date.now(),
+    };
+
+    setSettings(normalized);
+    setError(null);
+
+    if (!isFirebaseConfigured() || !db || !user) {
+      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(normalized));
+      return;
+    }
+
+    try {
+      // Replace each top-level field wholesale (so removed rates/profiles are
+      // dropped) while keeping server-managed fields like the invoice sequence
+      const data = stripUndefined(normalized);
+      await setDoc(doc(db, 'users', user.uid, 'settings', 'invoicing'), data, { mergeFields: Object.keys(data) });
+    } catch (err) {
+      console.error('Error saving invoicing settings:', err);
+      setError('Failed to save invoicing settings.');
+      throw err;
+    }
+  }, [user]);
+
+  return { settings, loading, error, updateSettings };
+}
@@ -0,0 +1,94 @@
+/**
+ * usePipelineSettings Hook
+ *
+ * Manages the user's pipeline board stages stored at
+ * users/{uid}/settings/pipeline, falling back to the default stages until
+ * the user customizes them.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { doc, onSnapshot, setDoc } from 'firebase/firestore';
+import { db, isFirebaseConfigured } from '../lib/firebase';
+import { useAuth } from './useAuth';
+import { PipelineSettings, DEFAULT_PIPELINE_SETTINGS } from '../types';
+
+const LOCAL_STORAGE_KEY = 'renova8_pipeline_settings';
+
+interface UsePipelineSettingsReturn {
+  settings: PipelineSettings;
+  loading: boolean;
+  error: string | null;
+  updateSettings: (settings: PipelineSettings) => Promise<void>;
+}
+
+const withDefaults = (data: any): PipelineSettings => ({
+  stages: Array.isArray(data?.stages) && data.stages.length > 0
+    ? data.stages
+    : DEFAULT_PIPELINE_SETTINGS.stages,
+  updatedAt: data?.updatedAt,
+});
+
+export function usePipelineSettings(): UsePipelineSettingsReturn {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<PipelineSettings>(DEFAULT_PIPELINE_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Demo mode: keep settings in localStorage
+    if (!isFirebaseConfigured() || !db || !user) {
+      try {
+        const saved = localStorage.getItem(LOCAL_STORAGE_KEY);
+        setSettings(withDefaults(saved ? JSON.parse(saved) : null));
+      } catch {
+        setSettings(DEFAULT_PIPELINE_SETTINGS);
+      }
+      setLoading(false);
+      return;
+    }
+
+    const unsubscribe = onSnapshot(
+      doc(db, 'users', user.uid, 'settings', 'pipeline'),
+      (snapshot) => {
+        setSettings(withDefaults(snapshot.exists() ? snapshot.data() : null));
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error loading pipeline settings:', err);
+        setError('Failed to load pipeline stages.');
+        setLoading(false);
+      }
+    );
+
+    return unsubscribe;
+  }, [user]);
+
+  const updateSettings = useCallback(async (next: PipelineSettings) => {
+    const normalized: PipelineSettings = {
+      stages: next.stages.map(stage => ({
+        ...stage,
+        name: stage.name.trim() || 'Untitled',
+        probability: Math.min(100, Math.max(0, Math.round(stage.probability) || 0)),
+      })),
+      updatedAt: Date.now(),
+    };
+
+    setSettings(normalized);
+    setError(null);
+
+    if (!isFirebaseConfigured() || !db || !user) {
+      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(normalized));
+      return;
+    }
+
+    try {
+      await setDoc(doc(db, 'users', user.uid, 'settings', 'pipeline'), normalized);
+    } catch (err) {
+      console.error('Error saving pipeline settings:', err);
+      setError('Failed to save pipeline stages.');
+      throw err;
+    }
+  }, [user]);
+
+  return { settings, loading, error, updateSettings };
+}
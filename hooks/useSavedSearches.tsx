@@ -0,0 +1,195 @@
+/**
+ * useSavedSearches Hook
+ *
+ * Manages the user's saved lead searches (users/{uid}/savedSearches) and the
+ * "New leads" inbox of businesses that scheduled runs discovered
+ * (users/{uid}/discoveredLeads). Scheduled runs need Firebase; in demo mode
+ * searches are kept in localStorage and the inbox stays empty.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  onSnapshot,
+  query,
+  setDoc,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { db, isFirebaseConfigured } from '../lib/firebase';
+import { useAuth } from './useAuth';
+import { DiscoveredLead, SavedSearch, SavedSearchSchedule } from '../types';
+
+const LOCAL_STORAGE_KEY = 'renova8_saved_searches';
+
+interface UseSavedSearchesReturn {
+  searches: SavedSearch[];
+  // Discovered businesses not yet saved or dismissed, newest first
+  newLeads: DiscoveredLead[];
+  loading: boolean;
+  error: string | null;
+  saveSearch: (query: string, location: string, schedule: SavedSearchSchedule) => Promise<void>;
+  setSearchSchedule: (searchId: string, schedule: SavedSearchSchedule) => Promise<void>;
+  deleteSearch: (searchId: string) => Promise<void>;
+  setDiscoveredStatus: (discoveredId: string, status: 'dismissed' | 'saved') => Promise<void>;
+}
+
+// A newly scheduled search runs at the scheduler's next pass
+const scheduleFields = (schedule: SavedSearchSchedule) =>
+  schedule === 'off' ? {} : { nextRunAt: Date.now() };
+
+export function useSavedSearches(): UseSavedSearchesReturn {
+  const { user } = useAuth();
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [newLeads, setNewLeads] = useState<DiscoveredLead[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const useCloud = isFirebaseConfigured() && !!db && !!user;
+
+  useEffect(() => {
+    // Demo mode: keep searches in localStorage
+    if (!isFirebaseConfigured() || !db || !user) {
+      try {
+        const saved = localStorage.getItem(LOCAL_STORAGE_KEY);
+        setSearches(saved ? JSON.parse(saved) : []);
+      } catch {
+        setSearches([]);
+      }
+      setNewLeads([]);
+      setLoading(false);
+      return;
+    }
+
+    const unsubscribeSearches = onSnapshot(
+      collection(db, 'users', user.uid, 'savedSearches'),
+      (snapshot) => {
+        setSearches(
+          snapshot.docs
+            .map((d) => ({ ...d.data(), id: d.id }) as SavedSearch)
+            .sort((a, b) => b.createdAt - a.createdAt)
+        );
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error loading saved searches:', err);
+        setError('Failed to load saved searches.');
+        setLoading(false);
+      }
+    );
+
+    const unsubscribeLeads = onSnapshot(
+      query(collection(db, 'users', user.uid, 'discoveredLeads'), where('status', '==', 'new')),
+      (snapshot) => {
+        setNewLeads(
+          snapshot.docs
+            .map((d) => ({ ...d.data(), id: d.id }) as DiscoveredLead)
+            .sort((a, b) => b.discoveredAt - a.discoveredAt)
+        );
+      },
+      (err) => {
+        console.error('Error loading new leads:', err);
+        setError('Failed to load new leads.');
+      }
+    );
+
+    return () => {
+      unsubscribeSearches();
+      unsubscribeLeads();
+    };
+  }, [user]);
+
+  const saveLocal = useCallback((update: (prev: SavedSearch[]) => SavedSearch[]) => {
+    setSearches((prev) => {
+      const updated = update(prev);
+      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(updated));
+      return updated;
+    });
+  }, []);
+
+  const saveSearch = useCallback(async (searchQuery: string, location: string, schedule: SavedSearchSchedule) => {
+    const search: SavedSearch = {
+      id: `search-${Date.now()}`,
+      query: searchQuery.trim(),
+      location: location.trim(),
+      schedule,
+      createdAt: Date.now(),
+      ...scheduleFields(schedule),
+    };
+
+    if (!useCloud) {
+      saveLocal((prev) => [search, ...prev]);
+      return;
+    }
+
+    try {
+      await setDoc(doc(db, 'users', user!.uid, 'savedSearches', search.id), search);
+    } catch (err) {
+      console.error('Error saving search:', err);
+      setError('Failed to save search.');
+      throw err;
+    }
+  }, [useCloud, user, saveLocal]);
+
+  const setSearchSchedule = useCallback(async (searchId: string, schedule: SavedSearchSchedule) => {
+    if (!useCloud) {
+      saveLocal((prev) => prev.map((s) => (s.id === searchId ? { ...s, schedule } : s)));
+      return;
+    }
+
+    try {
+      const searchRef = doc(db, 'users', user!.uid, 'savedSearches', searchId);
+      await updateDoc(searchRef, {
+        schedule,
+        ...(schedule === 'off' ? { nextRunAt: deleteField() } : scheduleFields(schedule)),
+      });
+    } catch (err) {
+      console.error('Error updating search schedule:', err);
+      setError('Failed to update search schedule.');
+      throw err;
+    }
+  }, [useCloud, user, saveLocal]);
+
+  const deleteSearch = useCallback(async (searchId: string) => {
+    if (!useCloud) {
+      saveLocal((prev) => prev.filter((s) => s.id !== searchId));
+      return;
+    }
+
+    try {
+      await deleteDoc(doc(db, 'users', user!.uid, 'savedSearches', searchId));
+    } catch (err) {
+      console.error('Error deleting search:', err);
+      setError('Failed to delete search.');
+      throw err;
+    }
+  }, [useCloud, user, saveLocal]);
+
+  const setDiscoveredStatus = useCallback(async (discoveredId: string, status: 'dismissed' | 'saved') => {
+    // Leave the inbox right away; the listener confirms it
+    setNewLeads((prev) => prev.filter((lead) => lead.id !== discoveredId));
+    if (!useCloud) return;
+
+    try {
+      await updateDoc(doc(db, 'users', user!.uid, 'discoveredLeads', discoveredId), { status });
+    } catch (err) {
+      console.error('Error updating new lead:', err);
+      setError('Failed to update new lead.');
+      throw err;
+    }
+  }, [useCloud, user]);
+
+  return {
+    searches,
+    newLeads,
+    loading,
+    error,
+    saveSearch,
+    setSearchSchedule,
+    deleteSearch,
+    setDiscoveredStatus,
+  };
+}
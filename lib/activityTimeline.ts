@@ -0,0 +1,66 @@
+/**
+ * Activity Timeline
+ *
+ * Merges a lead's history, communications, invoices, payments, quotes and
+ * tasks into one chronological feed, newest first.
+ */
+
+import { Communication, HistoryItem, Invoice, Lead, LeadTask, PaymentRecord, Quote } from "../types";
+
+export type ActivityEntry =
+  | { type: "invoice"; date: number; data: Invoice }
+  | { type: "payment"; date: number; data: { invoice: Invoice; payment: PaymentRecord } }
+  | { type: "quote"; date: number; data: Quote }
+  | { type: "communication"; date: number; data: Communication }
+  | { type: "history"; date: number; data: HistoryItem }
+  | { type: "task"; date: number; data: { task: LeadTask; event: "created" | "completed" } };
+
+export type ActivityFilter = "all" | "messages" | "billing" | "tasks" | "work";
+
+export const ACTIVITY_FILTERS: { id: ActivityFilter; label: string }[] = [
+  { id: "all", label: "All" },
+  { id: "messages", label: "Messages" },
+  { id: "billing", label: "Billing" },
+  { id: "tasks", label: "Tasks" },
+  { id: "work", label: "Work" },
+];
+
+const FILTER_TYPES: Record<Exclude<ActivityFilter, "all">, ActivityEntry["type"][]> = {
+  messages: ["communication"],
+  billing: ["invoice", "payment", "quote"],
+  tasks: ["task"],
+  work: ["history"],
+};
+
+export function buildActivityTimeline(lead: Lead, filter: ActivityFilter = "all"): ActivityEntry[] {
+  const entries: ActivityEntry[] = [];
+
+  lead.invoices?.forEach(invoice => {
+    entries.push({ type: "invoice", date: invoice.createdAt, data: invoice });
+    invoice.payments?.forEach(payment => {
+      entries.push({ type: "payment", date: payment.date, data: { invoice, payment } });
+    });
+  });
+
+  lead.quotes?.forEach(quote => {
+    entries.push({ type: "quote", date: quote.respondedAt || quote.sentAt || quote.createdAt, data: quote });
+  });
+
+  lead.communications?.forEach(communication => {
+    entries.push({ type: "communication", date: communication.timestamp, data: communication });
+  });
+
+  lead.history?.forEach(item => {
+    entries.push({ type: "history", date: item.timestamp, data: item });
+  });
+
+  lead.tasks?.forEach(task => {
+    entries.push({ type: "task", date: task.createdAt, data: { task, event: "created" } });
+    if (task.completedAt) {
+      entries.push({ type: "task", date: task.completedAt, data: { task, event: "completed" } });
+    }
+  });
+
+  const visible = filter === "all" ? entries : entries.filter(entry => FILTER_TYPES[filter].includes(entry.type));
+  return visible.sort((a, b) => b.date - a.date);
+}
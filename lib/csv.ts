@@ -0,0 +1,88 @@
+/**
+ * CSV Helpers
+ *
+ * Minimal RFC 4180 reading and writing: quoted fields, escaped quotes and
+ * line breaks inside quotes. Spreadsheet exports from Excel, Google Sheets
+ * and most CRMs parse with this.
+ */
+
+/**
+ * Parse CSV text into rows of fields. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Excel prefixes UTF-8 files with a byte order mark
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      if (row.some(value => value.trim() !== "")) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some(value => value.trim() !== "")) rows.push(row);
+
+  return rows;
+}
+
+/**
+ * Quote a value for CSV when it contains a delimiter, quote or line break
+ */
+export function toCsvField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  // Leading =, +, - or @ would run as a formula when opened in a spreadsheet
+  const safe = /^[=+\-@]/.test(text) && !/^-?\d/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Serialize rows to CSV text
+ */
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map(row => row.map(toCsvField).join(",")).join("\r\n");
+}
+
+/**
+ * Trigger a browser download of a text file
+ */
+export function downloadTextFile(filename: string, content: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
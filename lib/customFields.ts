@@ -0,0 +1,158 @@
+/**
+ * Tags and Custom Fields
+ *
+ * Tags are free-form labels on a lead, compared case-insensitively. Custom
+ * field definitions belong to the user (CustomFieldSettings); each lead keeps
+ * its values in Lead.customFields keyed by field id. A cleared value is
+ * stored as '' because customer saves merge into the existing document.
+ */
+
+import { CustomFieldDefinition, CustomFieldType, Lead } from "../types";
+
+export const MAX_TAG_LENGTH = 40;
+
+export const CUSTOM_FIELD_TYPES: { type: CustomFieldType; label: string }[] = [
+  { type: "text", label: "Text" },
+  { type: "number", label: "Number" },
+  { type: "date", label: "Date" },
+  { type: "select", label: "Dropdown" },
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, " ").slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Tags from a comma- or semicolon-separated list, without blanks or repeats
+ */
+export function parseTags(text: string): string[] {
+  return addTags([], text.split(/[,;]+/));
+}
+
+/**
+ * Append tags that aren't already present (ignoring case)
+ */
+export function addTags(tags: string[], additions: string[]): string[] {
+  const result = [...tags];
+  const seen = new Set(tags.map(tag => tag.toLowerCase()));
+  additions.map(normalizeTag).forEach(tag => {
+    if (!tag || seen.has(tag.toLowerCase())) return;
+    seen.add(tag.toLowerCase());
+    result.push(tag);
+  });
+  return result;
+}
+
+export function hasTag(lead: Lead, tag: string): boolean {
+  return (lead.tags || []).some(t => t.toLowerCase() === tag.toLowerCase());
+}
+
+/**
+ * Every tag used across the leads with how many leads carry it, most used first
+ */
+export function collectTags(leads: Lead[]): { tag: string; count: number }[] {
+  const counts = new Map<string, { tag: string; count: number }>();
+  leads.forEach(lead => {
+    (lead.tags || []).forEach(tag => {
+      const entry = counts.get(tag.toLowerCase());
+      if (entry) entry.count++;
+      else counts.set(tag.toLowerCase(), { tag, count: 1 });
+    });
+  });
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+export function getCustomFieldValue(lead: Lead, field: CustomFieldDefinition): string | number | undefined {
+  const value = lead.customFields?.[field.id];
+  return value === "" || value === undefined || value === null ? undefined : value;
+}
+
+/**
+ * Convert form input to a stored value; undefined when blank or invalid
+ */
+export function parseCustomFieldInput(field: CustomFieldDefinition, input: string): string | number | undefined {
+  const value = input.trim();
+  if (!value) return undefined;
+
+  switch (field.type) {
+    case "number": {
+      const number = Number(value.replace(/,/g, ""));
+      return Number.isFinite(number) ? number : undefined;
+    }
+    case "date":
+      return DATE_PATTERN.test(value) ? value : undefined;
+    case "select":
+      return field.options?.includes(value) ? value : undefined;
+    default:
+      return value;
+  }
+}
+
+export function setCustomFieldValue(lead: Lead, fieldId: string, value: string | number | undefined): Lead {
+  return { ...lead, customFields: { ...lead.customFields, [fieldId]: value ?? "" } };
+}
+
+export function formatCustomFieldValue(field: CustomFieldDefinition, value: string | number | undefined): string {
+  if (value === undefined) return "";
+  if (field.type === "number" && typeof value === "number") return value.toLocaleString("en-US");
+  if (field.type === "date" && typeof value === "string" && DATE_PATTERN.test(value)) {
+    const [year, month, day] = value.split("-").map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+  }
+  return String(value);
+}
+
+/**
+ * Case-insensitive match of every word in the query against the lead's
+ * contact details, notes, tags and custom field values
+ */
+export function matchesLeadSearch(lead: Lead, query: string, fields: CustomFieldDefinition[]): boolean {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+
+  const haystack = [
+    lead.businessName,
+    lead.location,
+    lead.details,
+    lead.email,
+    lead.phone,
+    lead.category,
+    ...(lead.tags || []),
+    ...fields.map(field => {
+      const value = getCustomFieldValue(lead, field);
+      return value === undefined ? "" : `${value} ${formatCustomFieldValue(field, value)}`;
+    }),
+  ].join(" ").toLowerCase();
+
+  return words.every(word => haystack.includes(word));
+}
+
+/**
+ * Filter on one custom field. An empty filter value matches leads that have
+ * any value; otherwise text matches by substring and other types exactly.
+ */
+export function matchesCustomFieldFilter(lead: Lead, field: CustomFieldDefinition, filterValue: string): boolean {
+  const value = getCustomFieldValue(lead, field);
+  if (value === undefined) return false;
+  if (!filterValue.trim()) return true;
+
+  if (field.type === "text") {
+    return String(value).toLowerCase().includes(filterValue.trim().toLowerCase());
+  }
+  return parseCustomFieldInput(field, filterValue) === value;
+}
+
+/**
+ * Tags and filled-in custom fields as short lines for AI prompts
+ */
+export function describeLeadCustomData(lead: Lead, fields: CustomFieldDefinition[]): string[] {
+  const lines = fields
+    .map(field => {
+      const value = getCustomFieldValue(lead, field);
+      return value === undefined ? "" : `${field.label}: ${formatCustomFieldValue(field, value)}`;
+    })
+    .filter(Boolean);
+  return lead.tags?.length ? [`Tags: ${lead.tags.join(", ")}`, ...lines] : lines;
+}
@@ -0,0 +1,106 @@
+/**
+ * Customer Export
+ *
+ * Builds the customer list CSV: contact details, status, invoice totals in
+ * the reporting currency, the date of the last communication, tags and one
+ * column per custom field.
+ */
+
+import { CustomFieldDefinition, InvoicingSettings, Lead } from "../types";
+import { toCsv } from "./csv";
+import { getCustomFieldValue } from "./customFields";
+import { convertToReportingCurrency, getInvoiceCurrency } from "./invoiceTotals";
+
+const formatDate = (timestamp?: number): string =>
+  timestamp ? new Date(timestamp).toISOString().slice(0, 10) : "";
+
+const formatAmount = (amount: number): string => amount.toFixed(2);
+
+/**
+ * Latest communication timestamp for a lead, in either direction
+ */
+export function getLastContactAt(lead: Lead): number | undefined {
+  const timestamps = (lead.communications || []).map(comm => comm.timestamp);
+  return timestamps.length > 0 ? Math.max(...timestamps) : undefined;
+}
+
+/**
+ * CSV of the given customers. Draft invoices are left out of the totals;
+ * invoices in a currency without an exchange rate are counted separately.
+ */
+export function buildCustomersCsv(
+  customers: Lead[],
+  settings: Pick<InvoicingSettings, "reportingCurrency" | "exchangeRates">,
+  customFields: CustomFieldDefinition[] = []
+): string {
+  const currency = settings.reportingCurrency;
+  const header = [
+    "Business Name",
+    "Address",
+    "Phone",
+    "Email",
+    "Website",
+    "Status",
+    "Score",
+    "Lost Reason",
+    "Deal Value",
+    "Deal Currency",
+    "Expected Close",
+    `Invoiced (${currency})`,
+    `Paid (${currency})`,
+    `Outstanding (${currency})`,
+    "Invoices Without Exchange Rate",
+    "Last Contact",
+    "Added",
+    "Notes",
+    "Tags",
+    ...customFields.map(field => field.label),
+  ];
+
+  const rows = customers.map(lead => {
+    let invoiced = 0;
+    let paid = 0;
+    let unconverted = 0;
+
+    (lead.invoices || [])
+      .filter(invoice => invoice.status !== "draft")
+      .forEach(invoice => {
+        const invoiceCurrency = getInvoiceCurrency(invoice);
+        const total = convertToReportingCurrency(invoice.total || 0, invoiceCurrency, settings);
+        const paidAmount = convertToReportingCurrency(invoice.paidAmount || 0, invoiceCurrency, settings);
+        if (total === null || paidAmount === null) {
+          unconverted++;
+          return;
+        }
+        invoiced += total;
+        paid += paidAmount;
+      });
+
+    return [
+      lead.businessName,
+      lead.location,
+      lead.phone,
+      lead.email,
+      lead.existingWebsiteUrl,
+      lead.status,
+      lead.score,
+      lead.status === "lost" ? lead.lostReason : "",
+      lead.dealValue ? formatAmount(lead.dealValue) : "",
+      lead.dealValue ? lead.dealCurrency || currency : "",
+      lead.expectedCloseDate,
+      formatAmount(invoiced),
+      formatAmount(paid),
+      formatAmount(Math.max(0, invoiced - paid)),
+      unconverted,
+      formatDate(getLastContactAt(lead)),
+      formatDate(lead.addedAt),
+      lead.details,
+      // Semicolons so the list survives a round trip through import
+      (lead.tags || []).join("; "),
+      // Raw values (numbers unformatted, dates as YYYY-MM-DD) stay spreadsheet-friendly
+      ...customFields.map(field => getCustomFieldValue(lead, field)),
+    ];
+  });
+
+  return toCsv([header, ...rows]);
+}
@@ -0,0 +1,260 @@
+/**
+ * Customer Import
+ *
+ * Turns CSV rows (through a user-confirmed column mapping) or vCards into
+ * leads, validating each record and flagging likely duplicates of existing
+ * customers and of earlier records in the same file.
+ */
+
+import { Lead } from "../types";
+import { LeadMatch, findDuplicateLead, getWebsiteDomain } from "./leadMatching";
+import { parseTags } from "./customFields";
+
+export type ImportField =
+  | "businessName"
+  | "contactName"
+  | "location"
+  | "phone"
+  | "email"
+  | "existingWebsiteUrl"
+  | "details"
+  | "status"
+  | "tags";
+
+export type ImportRecord = Partial<Record<ImportField, string>>;
+
+// Target field for each CSV column, null to ignore the column
+export type ColumnMapping = (ImportField | null)[];
+
+export interface ImportRow {
+  // 1-based record number in the file, for messages
+  rowNumber: number;
+  record: ImportRecord;
+  lead: Lead | null;
+  errors: string[];
+  warnings: string[];
+  duplicate: LeadMatch | null;
+  // Row number of an earlier record in the file for the same business
+  repeatsRow: number | null;
+}
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; aliases: string[] }[] = [
+  { field: "businessName", label: "Business Name", aliases: ["business", "business name", "company", "company name", "organization", "organisation", "account", "account name", "name"] },
+  { field: "contactName", label: "Contact Name", aliases: ["contact", "contact name", "full name", "first name", "person"] },
+  { field: "location", label: "Address", aliases: ["address", "location", "street", "street address", "city", "state", "region", "zip", "postcode", "postal code", "country", "full address"] },
+  { field: "phone", label: "Phone", aliases: ["phone", "phone number", "telephone", "tel", "mobile", "cell"] },
+  { field: "email", label: "Email", aliases: ["email", "e-mail", "email address", "mail"] },
+  { field: "existingWebsiteUrl", label: "Website", aliases: ["website", "web", "url", "site", "homepage", "domain"] },
+  { field: "details", label: "Notes", aliases: ["notes", "note", "description", "details", "comments"] },
+  { field: "status", label: "Status", aliases: ["status", "stage", "lead status"] },
+  { field: "tags", label: "Tags", aliases: ["tags", "tag", "labels", "label"] },
+];
+
+const STATUS_ALIASES: Record<string, Lead["status"]> = {
+  new: "new",
+  lead: "new",
+  analyzing: "analyzing",
+  researching: "analyzing",
+  contacted: "contacted",
+  negotiating: "negotiating",
+  proposal: "negotiating",
+  converted: "converted",
+  won: "converted",
+  customer: "converted",
+  client: "converted",
+  lost: "lost",
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Undo the apostrophe our CSV export adds to stop spreadsheet formulas
+const cleanValue = (value: string = ""): string => value.trim().replace(/^'(?=[=+\-@])/, "");
+
+// ============================================
+// CSV
+// ============================================
+
+/**
+ * Suggest a target field for each header. Each field is used at most once,
+ * except the address, whose parts (street, city, ...) are joined.
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const used = new Set<ImportField>();
+
+  return headers.map(header => {
+    const normalized = header.trim().toLowerCase().replace(/[_\s]+/g, " ");
+    const match = IMPORT_FIELDS.find(({ field, aliases }) => !used.has(field) && aliases.includes(normalized));
+    if (!match) return null;
+    if (match.field !== "location") used.add(match.field);
+    return match.field;
+  });
+}
+
+/**
+ * Apply a column mapping to CSV data rows (without the header row)
+ */
+export function recordsFromCsv(rows: string[][], mapping: ColumnMapping): ImportRecord[] {
+  return rows.map(row => {
+    const record: ImportRecord = {};
+    mapping.forEach((field, column) => {
+      const value = cleanValue(row[column]);
+      if (!field || !value) return;
+      // Several columns may map to the address (street, city, ...)
+      record[field] = field === "location" && record.location ? `${record.location}, ${value}` : value;
+    });
+    return record;
+  });
+}
+
+// ============================================
+// vCard
+// ============================================
+
+const unescapeVCard = (value: string): string =>
+  value.replace(/\\n/gi, "\n").replace(/\\([,;\\])/g, "$1");
+
+/**
+ * Read contacts from a .vcf file (vCard 2.1, 3.0 and 4.0)
+ */
+export function parseVCards(text: string): ImportRecord[] {
+  // Continuation lines start with a space or tab
+  const lines = text.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+  const records: ImportRecord[] = [];
+  let card: { org?: string; fn?: string; record: ImportRecord } | null = null;
+
+  for (const line of lines) {
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    // "item1.TEL;TYPE=CELL" -> "TEL"
+    const name = line.slice(0, separator).split(";")[0].split(".").pop()!.toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (name === "BEGIN" && value.trim().toUpperCase() === "VCARD") {
+      card = { record: {} };
+      continue;
+    }
+    if (!card) continue;
+
+    if (name === "END") {
+      const businessName = card.org || card.fn;
+      records.push({
+        ...card.record,
+        ...(businessName ? { businessName } : {}),
+        ...(card.org && card.fn && card.org !== card.fn ? { contactName: card.fn } : {}),
+      });
+      card = null;
+      continue;
+    }
+
+    const record = card.record;
+    switch (name) {
+      case "ORG":
+        card.org = cleanValue(unescapeVCard(value.split(";")[0]));
+        break;
+      case "FN":
+        card.fn = cleanValue(unescapeVCard(value));
+        break;
+      case "TEL":
+        record.phone = record.phone || cleanValue(value.replace(/^tel:/i, ""));
+        break;
+      case "EMAIL":
+        record.email = record.email || cleanValue(value);
+        break;
+      case "URL":
+        record.existingWebsiteUrl = record.existingWebsiteUrl || cleanValue(unescapeVCard(value));
+        break;
+      case "NOTE":
+        record.details = cleanValue(unescapeVCard(value));
+        break;
+      case "ADR":
+        // PO box;extended;street;city;region;postal code;country
+        record.location = record.location || value
+          .split(";")
+          .map(part => cleanValue(unescapeVCard(part)).replace(/\n/g, ", "))
+          .filter(Boolean)
+          .join(", ");
+        break;
+    }
+  }
+
+  return records.filter(record => Object.keys(record).length > 0);
+}
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Validate records and build the leads to import
+ */
+export function validateImportRecords(records: ImportRecord[], existing: Lead[]): ImportRow[] {
+  const now = Date.now();
+  const accepted: { lead: Lead; rowNumber: number }[] = [];
+
+  return records.map((record, index) => {
+    const rowNumber = index + 1;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const businessName = record.businessName || record.contactName || "";
+    if (!businessName) errors.push("Missing business name");
+
+    const email = record.email || "";
+    if (email && !EMAIL_PATTERN.test(email)) errors.push(`Invalid email "${email}"`);
+
+    let website = record.existingWebsiteUrl || "";
+    if (website && !getWebsiteDomain(website)) {
+      warnings.push(`Ignored invalid website "${website}"`);
+      website = "";
+    } else if (website && !/^https?:\/\//i.test(website)) {
+      website = `https://${website}`;
+    }
+
+    let status: Lead["status"] = "new";
+    if (record.status) {
+      const mapped = STATUS_ALIASES[record.status.toLowerCase()];
+      if (mapped) {
+        status = mapped;
+      } else {
+        warnings.push(`Unknown status "${record.status}", imported as New`);
+      }
+    }
+
+    if (errors.length > 0) {
+      return { rowNumber, record, lead: null, errors, warnings, duplicate: null, repeatsRow: null };
+    }
+
+    const details = [
+      record.contactName && record.contactName !== businessName ? `Contact: ${record.contactName}` : "",
+      record.details || "",
+    ].filter(Boolean).join("\n");
+
+    const lead: Lead = {
+      id: `lead-import-${now}-${index}`,
+      businessName,
+      location: record.location || "",
+      details,
+      status,
+      ...(record.phone ? { phone: record.phone } : {}),
+      ...(email ? { email } : {}),
+      ...(website ? { hasWebsite: true, existingWebsiteUrl: website } : {}),
+      ...(record.tags && parseTags(record.tags).length > 0 ? { tags: parseTags(record.tags) } : {}),
+      history: [],
+    };
+
+    const earlier = findDuplicateLead(lead, accepted.map(a => a.lead));
+    const repeatsRow = earlier ? accepted.find(a => a.lead.id === earlier.lead.id)!.rowNumber : null;
+    accepted.push({ lead, rowNumber });
+
+    return {
+      rowNumber,
+      record,
+      lead,
+      errors,
+      warnings,
+      duplicate: findDuplicateLead(lead, existing),
+      repeatsRow,
+    };
+  });
+}
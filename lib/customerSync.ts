@@ -0,0 +1,139 @@
+/**
+ * Customer Sync
+ *
+ * Customer edits in cloud mode are queued on the device and written when it
+ * is online (see useCustomers). Each queued edit keeps only the fields and
+ * records it changed, before and after the edit, so syncing writes only
+ * those and the queue stays small. A field that another device changed in the meantime to a
+ * different value is reported as a conflict instead of being overwritten.
+ * History, communications and invoices are merged by record id, the last
+ * write of a record winning.
+ */
+
+import { Lead } from "../types";
+import { LEAD_FILE_FIELDS, LEAD_RECORD_COLLECTIONS, getChangedRecords, getRemovedRecordIds, mergeRecords } from "./leadStorage";
+
+/**
+ * Part of a lead: its id and some of its fields, e.g. the ones an edit changed
+ */
+export type LeadChanges = Pick<Lead, "id"> & Partial<Lead>;
+
+// Fields that are synced separately or follow from other fields
+const UNTRACKED_FIELDS = new Set<string>([
+  "id",
+  "fieldMeta",
+  ...LEAD_RECORD_COLLECTIONS,
+  ...LEAD_FILE_FIELDS.map(({ pathField }) => pathField),
+]);
+
+// Recalculated on every save, so never worth asking about
+const DERIVED_FIELDS = new Set(["score", "scoreBreakdown"]);
+
+type LeadValues = Record<string, unknown>;
+
+// JSON with object keys sorted; Firestore doesn't keep key order
+function stableStringify(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item) ?? "null").join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => (value as LeadValues)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as LeadValues)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function isSameValue(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+/**
+ * Lead fields whose value differs between two versions of a lead
+ */
+export function getChangedFields(next: LeadChanges, previous: LeadChanges): string[] {
+  const nextValues = next as unknown as LeadValues;
+  const previousValues = previous as unknown as LeadValues;
+  const keys = new Set([...Object.keys(nextValues), ...Object.keys(previousValues)]);
+  return [...keys].filter(key => !UNTRACKED_FIELDS.has(key) && !isSameValue(nextValues[key], previousValues[key]));
+}
+
+/**
+ * Fields changed by an edit (previous -> next) that were also changed on the
+ * server by someone else, to a different value. Files kept in Storage are
+ * compared by path.
+ */
+export function findFieldConflicts(next: LeadChanges, previous: LeadChanges, server: Lead, deviceId: string): string[] {
+  const nextValues = next as unknown as LeadValues;
+  const previousValues = previous as unknown as LeadValues;
+  const serverValues = server as unknown as LeadValues;
+
+  return getChangedFields(next, previous).filter(field => {
+    if (DERIVED_FIELDS.has(field)) return false;
+    // Our own earlier edit, synced since
+    if (server.fieldMeta?.[field]?.deviceId === deviceId) return false;
+
+    const file = LEAD_FILE_FIELDS.find(fileField => fileField.field === field);
+    const changedRemotely = file && (server[file.pathField] || previous[file.pathField])
+      ? server[file.pathField] !== previous[file.pathField]
+      : !isSameValue(serverValues[field], previousValues[field]);
+
+    return changedRemotely && !isSameValue(serverValues[field], nextValues[field]);
+  });
+}
+
+/**
+ * Apply the changes of an edit (previous -> next) on top of another version
+ * of the lead, e.g. to show queued edits over the latest synced data
+ */
+export function rebaseLeadChanges(base: Lead, next: LeadChanges, previous: LeadChanges): Lead {
+  const lead = { ...base } as unknown as LeadValues;
+  getChangedFields(next, previous).forEach(field => {
+    lead[field] = (next as unknown as LeadValues)[field];
+  });
+
+  LEAD_RECORD_COLLECTIONS.forEach(name => {
+    const changed = getChangedRecords<{ id: string }>(next[name], previous[name]);
+    const removed = new Set(getRemovedRecordIds<{ id: string }>(next[name], previous[name]));
+    if (changed.length === 0 && removed.size === 0) return;
+
+    const kept = ((base[name] || []) as { id: string }[]).filter(record => !removed.has(record.id));
+    lead[name] = mergeRecords(name, kept, changed);
+  });
+
+  return lead as unknown as Lead;
+}
+
+/**
+ * Reduce an edit (previous -> next) to what it changed: the changed fields,
+ * the Storage paths of changed files and the changed or removed records.
+ * Both sides keep the lead id.
+ */
+export function getLeadChanges(next: Lead, previous: Lead): { next: LeadChanges; previous: LeadChanges } {
+  const nextChanges = { id: next.id } as LeadValues;
+  const previousChanges = { id: previous.id } as LeadValues;
+
+  getChangedFields(next, previous).forEach(field => {
+    nextChanges[field] = (next as unknown as LeadValues)[field];
+    previousChanges[field] = (previous as unknown as LeadValues)[field];
+  });
+  LEAD_FILE_FIELDS.forEach(({ field, pathField }) => {
+    if (field in previousChanges) previousChanges[pathField] = previous[pathField];
+  });
+
+  LEAD_RECORD_COLLECTIONS.forEach(name => {
+    // Records that aren't loaded can't have been edited
+    if (!next[name]) return;
+    const changed = getChangedRecords<{ id: string }>(next[name], previous[name]);
+    const removed = getRemovedRecordIds<{ id: string }>(next[name], previous[name]);
+    if (changed.length === 0 && removed.length === 0) return;
+
+    const touched = new Set([...changed.map(record => record.id), ...removed]);
+    nextChanges[name] = changed;
+    previousChanges[name] = ((previous[name] || []) as { id: string }[]).filter(record => touched.has(record.id));
+  });
+
+  return { next: nextChanges as unknown as LeadChanges, previous: previousChanges as unknown as LeadChanges };
+}
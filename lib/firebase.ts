@@ -4,6 +4,7 @@
  * This module initializes Firebase and exports:
  * - Firebase Auth instance
  * - Firestore instance
+ * - Storage instance
  * - Cloud Functions callables
  */
 
@@ -18,6 +19,11 @@ import {
   connectFirestoreEmulator,
   Firestore,
 } from "firebase/firestore";
+import {
+  getStorage,
+  connectStorageEmulator,
+  FirebaseStorage,
+} from "firebase/storage";
 import {
   getFunctions,
   connectFunctionsEmulator,
@@ -45,6 +51,7 @@ const firebaseConfig = {
 let app: FirebaseApp | null = null;
 let auth: Auth | null = null;
 let db: Firestore | null = null;
+let storage: FirebaseStorage | null = null;
 let functions: Functions | null = null;
 
 // Only initialize Firebase if config is present
@@ -60,6 +67,7 @@ if (hasConfig) {
 
   auth = getAuth(app);
   db = getFirestore(app);
+  storage = getStorage(app);
   functions = getFunctions(app);
 } else {
   console.warn("Firebase not configured. Running in demo mode without authentication.");
@@ -71,12 +79,13 @@ if (hasConfig) {
 
 const USE_EMULATORS = import.meta.env.DEV && import.meta.env.VITE_USE_EMULATORS === "true";
 
-if (USE_EMULATORS && hasConfig && auth && db && functions) {
+if (USE_EMULATORS && hasConfig && auth && db && storage && functions) {
   console.log("🔧 Connecting to Firebase emulators...");
 
   try {
     connectAuthEmulator(auth, "http://localhost:9099", { disableWarnings: true });
     connectFirestoreEmulator(db, "localhost", 8080);
+    connectStorageEmulator(storage, "localhost", 9199);
     connectFunctionsEmulator(functions, "localhost", 5001);
     console.log("✅ Connected to Firebase emulators");
   } catch (error) {
@@ -88,7 +97,7 @@ if (USE_EMULATORS && hasConfig && auth && db && functions) {
 // Export Firebase Instances
 // ============================================
 
-export { app, auth, db, functions };
+export { app, auth, db, storage, functions };
 
 // ============================================
 // Cloud Function Types
@@ -106,6 +115,8 @@ export interface GetCreditsResponse {
     description?: string;
     createdAt: string;
     balanceAfter: number;
+    holdStatus?: "held" | "captured" | "released";
+    heldTokens?: number;
   }>;
 }
 
@@ -0,0 +1,133 @@
+/**
+ * Invoice Totals & Currency Helpers
+ *
+ * Shared math for invoice totals with multiple (optionally compound) tax
+ * lines, currency-aware formatting, and conversion into the user's
+ * reporting currency.
+ */
+
+import {
+  Invoice,
+  InvoiceItem,
+  InvoiceTaxLine,
+  InvoicingSettings,
+  TaxLine,
+} from "../types";
+
+// ============================================
+// Currencies
+// ============================================
+
+export const DEFAULT_CURRENCY = "USD";
+
+export const SUPPORTED_CURRENCIES = [
+  "USD", "EUR", "GBP", "CAD", "AUD", "NZD", "CHF", "SEK", "NOK", "DKK",
+  "JPY", "SGD", "HKD", "INR", "ZAR", "MXN", "BRL", "AED",
+];
+
+/**
+ * Currency of an invoice (legacy invoices are USD)
+ */
+export function getInvoiceCurrency(invoice: Pick<Invoice, "currency">): string {
+  return invoice.currency || DEFAULT_CURRENCY;
+}
+
+/**
+ * Format an amount in the given currency
+ */
+export function formatMoney(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+  } catch {
+    // Unknown currency code - fall back to a plain number with the code
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+/**
+ * Convert an amount into the reporting currency using the user's rate table.
+ * Returns null when no rate is configured for the currency.
+ */
+export function convertToReportingCurrency(
+  amount: number,
+  currency: string,
+  settings: Pick<InvoicingSettings, "reportingCurrency" | "exchangeRates">
+): number | null {
+  if (currency === settings.reportingCurrency) return amount;
+  const rate = settings.exchangeRates[currency];
+  if (!rate || rate <= 0) return null;
+  return amount * rate;
+}
+
+// ============================================
+// Taxes & Totals
+// ============================================
+
+/**
+ * Apply tax lines to a taxable amount. Compound lines are charged on the
+ * taxable amount plus all taxes before them (e.g. Quebec QST).
+ */
+export function calculateTaxLines(taxableAmount: number, lines: TaxLine[]): InvoiceTaxLine[] {
+  let taxesSoFar = 0;
+  return lines.map(line => {
+    const base = line.compound ? taxableAmount + taxesSoFar : taxableAmount;
+    const amount = base * (line.rate / 100);
+    taxesSoFar += amount;
+    return { ...line, amount };
+  });
+}
+
+/**
+ * Compute invoice totals from line items, discount and tax lines
+ */
+export function calculateInvoiceTotals(params: {
+  items: InvoiceItem[];
+  discount: number;
+  discountType: "percentage" | "fixed";
+  taxLines: TaxLine[];
+}): {
+  subtotal: number;
+  discountAmount: number;
+  taxLines: InvoiceTaxLine[];
+  taxRate: number;
+  taxAmount: number;
+  total: number;
+} {
+  const subtotal = params.items.reduce((sum, item) => sum + (item.quantity * item.unitPrice), 0);
+  const discountAmount = params.discountType === "percentage"
+    ? subtotal * (params.discount / 100)
+    : params.discount;
+  const afterDiscount = subtotal - discountAmount;
+  const taxLines = calculateTaxLines(afterDiscount, params.taxLines);
+  const taxAmount = taxLines.reduce((sum, line) => sum + line.amount, 0);
+  const taxRate = afterDiscount > 0
+    ? (taxAmount / afterDiscount) * 100
+    : params.taxLines.reduce((sum, line) => sum + line.rate, 0);
+
+  return {
+    subtotal,
+    discountAmount,
+    taxLines,
+    taxRate: Math.round(taxRate * 1000) / 1000,
+    taxAmount,
+    total: afterDiscount + taxAmount,
+  };
+}
+
+/**
+ * Tax lines for display; invoices created before tax profiles have a single rate
+ */
+export function getInvoiceTaxLines(invoice: Pick<Invoice, "taxLines" | "taxRate" | "taxAmount">): InvoiceTaxLine[] {
+  if (invoice.taxLines && invoice.taxLines.length > 0) return invoice.taxLines;
+  if (invoice.taxRate > 0) {
+    return [{ name: "Tax", rate: invoice.taxRate, amount: invoice.taxAmount }];
+  }
+  return [];
+}
+
+/**
+ * Describe a tax line for totals rows, e.g. "PST (7%, compound)"
+ */
+export function formatTaxLineLabel(line: TaxLine): string {
+  return `${line.name} (${line.rate}%${line.compound ? ", compound" : ""})`;
+}
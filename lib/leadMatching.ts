@@ -0,0 +1,174 @@
+/**
+ * Lead Matching
+ *
+ * Normalization and fuzzy matching used to spot the same business across
+ * searches and in the client list. A phone number or website domain match
+ * is conclusive on its own; names and addresses are compared fuzzily.
+ */
+
+import { Lead } from "../types";
+
+export interface LeadMatch {
+  lead: Lead;
+  // 0-1, higher is more certain
+  score: number;
+  reasons: string[];
+}
+
+// Matches at or above this score are treated as the same business
+export const DUPLICATE_MATCH_THRESHOLD = 0.85;
+
+// Words that don't distinguish one business from another
+const NAME_STOP_WORDS = new Set([
+  "the", "and", "llc", "inc", "co", "corp", "company", "ltd", "limited", "plc", "gmbh", "pty",
+]);
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: "st", avenue: "ave", road: "rd", boulevard: "blvd", drive: "dr", lane: "ln",
+  court: "ct", place: "pl", suite: "ste", highway: "hwy", parkway: "pkwy", square: "sq",
+  north: "n", south: "s", east: "e", west: "w", floor: "fl", unit: "ste", apartment: "apt",
+};
+
+const tokenize = (value: string): string[] =>
+  value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/&/g, " and ")
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+
+/**
+ * Business name without case, punctuation or legal suffixes
+ */
+export function normalizeBusinessName(name: string = ""): string {
+  return tokenize(name).filter(word => !NAME_STOP_WORDS.has(word)).join(" ");
+}
+
+/**
+ * The last ten digits of a phone number, so country code and formatting are ignored
+ */
+export function normalizePhone(phone: string = ""): string {
+  const digits = phone.replace(/\D/g, "");
+  return digits.length >= 7 ? digits.slice(-10) : "";
+}
+
+/**
+ * Address with common street words abbreviated
+ */
+export function normalizeAddress(address: string = ""): string {
+  return tokenize(address).map(word => ADDRESS_ABBREVIATIONS[word] || word).join(" ");
+}
+
+/**
+ * Registrable-looking host of a website URL, without "www."
+ */
+export function getWebsiteDomain(url: string = ""): string {
+  const trimmed = url.trim();
+  if (!trimmed || trimmed.startsWith("blob:")) return "";
+  try {
+    const withScheme = /^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+    return new URL(withScheme).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Dice coefficient over character bigrams (0-1)
+ */
+export function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.slice(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (a.length + b.length - 2);
+}
+
+// The business's own site (websiteUrl is the demo site we built for them)
+const getLeadDomain = (lead: Lead): string =>
+  getWebsiteDomain(lead.existingWebsiteUrl || "");
+
+/**
+ * How likely two leads are the same business
+ */
+export function matchLeads(a: Lead, b: Lead): LeadMatch {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const phoneA = normalizePhone(a.phone);
+  if (phoneA && phoneA === normalizePhone(b.phone)) {
+    reasons.push("Same phone number");
+    score = 1;
+  }
+
+  const domainA = getLeadDomain(a);
+  if (domainA && domainA === getLeadDomain(b)) {
+    reasons.push("Same website");
+    score = 1;
+  }
+
+  const nameScore = similarity(normalizeBusinessName(a.businessName), normalizeBusinessName(b.businessName));
+  const addressA = normalizeAddress(a.location);
+  const addressB = normalizeAddress(b.location);
+  const addressScore = similarity(addressA, addressB);
+
+  if (nameScore >= 0.8) {
+    reasons.push(nameScore === 1 ? "Same name" : "Similar name");
+    if (addressScore >= 0.75) reasons.push(addressScore === 1 ? "Same address" : "Similar address");
+
+    // A name match alone counts when either address is unknown
+    const addressWeight = addressA && addressB ? addressScore : 0.75;
+    score = Math.max(score, nameScore * 0.6 + addressWeight * 0.4);
+  }
+
+  return { lead: b, score: Math.min(1, score), reasons };
+}
+
+/**
+ * Likely duplicates of a lead, best match first
+ */
+export function findDuplicateCandidates(lead: Lead, candidates: Lead[]): LeadMatch[] {
+  return candidates
+    .filter(candidate => candidate.id !== lead.id)
+    .map(candidate => matchLeads(lead, candidate))
+    .filter(match => match.score >= DUPLICATE_MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * The best match for a lead among others, if it is likely a duplicate
+ */
+export function findDuplicateLead(lead: Lead, candidates: Lead[]): LeadMatch | null {
+  return findDuplicateCandidates(lead, candidates)[0] || null;
+}
+
+/**
+ * Drop leads that duplicate an earlier one in the list
+ */
+export function dedupeLeads(leads: Lead[]): Lead[] {
+  const unique: Lead[] = [];
+  for (const lead of leads) {
+    if (!findDuplicateLead(lead, unique)) unique.push(lead);
+  }
+  return unique;
+}
@@ -0,0 +1,136 @@
+/**
+ * Lead Scoring
+ *
+ * Rates how good a website-redesign prospect a lead is, from 0 to 100.
+ * Businesses with no website, or an outdated, non-mobile or insecure one,
+ * score highest; established businesses (many reviews) in categories that
+ * rely on local customers add to the score. Every point awarded is listed in
+ * the breakdown so users can see why a lead ranks where it does.
+ */
+
+import { Lead, LeadScoreFactor, WebsiteSignals } from "../types";
+
+// A copyright notice this many years old marks a site as unmaintained
+export const OUTDATED_COPYRIGHT_YEARS = 3;
+
+const BASE_POINTS = 10;
+const NO_WEBSITE_POINTS = 45;
+const UNREACHABLE_WEBSITE_POINTS = 40;
+const MAX_WEBSITE_ISSUE_POINTS = 40;
+
+// Minimum review count -> points; more reviews means a business that can pay
+const REVIEW_TIERS: { min: number; points: number }[] = [
+  { min: 100, points: 25 },
+  { min: 25, points: 18 },
+  { min: 5, points: 10 },
+  { min: 1, points: 5 },
+];
+
+// Categories where customers choose from a website first
+const HIGH_VALUE_CATEGORY_PATTERN =
+  /restaurant|cafe|café|bakery|bar\b|salon|spa\b|barber|beauty|nail|contractor|plumb|electric|roof|hvac|landscap|construction|dent|clinic|chiropract|physio|therap|medical|vet|law|legal|attorney|real estate|realtor|gym|fitness|yoga|hotel|\binn\b|wedding|photograph|auto|mechanic|cleaning/i;
+const HIGH_VALUE_CATEGORY_POINTS = 20;
+const OTHER_CATEGORY_POINTS = 10;
+
+/**
+ * Problems found on a reachable website, each with its points
+ */
+function getWebsiteIssues(signals: WebsiteSignals): { label: string; points: number }[] {
+  const issues: { label: string; points: number }[] = [];
+  const staleYear = new Date().getFullYear() - OUTDATED_COPYRIGHT_YEARS;
+
+  if (signals.copyrightYear && signals.copyrightYear <= staleYear) {
+    issues.push({ label: `Outdated site (copyright ${signals.copyrightYear})`, points: 15 });
+  } else if (signals.legacyMarkup && signals.legacyMarkup.length > 0) {
+    issues.push({ label: `Outdated site (${signals.legacyMarkup.join(", ")})`, points: 15 });
+  }
+  if (!signals.mobileViewport) {
+    issues.push({ label: "Not mobile friendly", points: 15 });
+  }
+  if (!signals.https) {
+    issues.push({ label: "No HTTPS", points: 10 });
+  }
+
+  return issues;
+}
+
+function getWebsiteFactor(lead: Lead): LeadScoreFactor {
+  if (!lead.existingWebsiteUrl) {
+    return { signal: "website", label: "No website", points: NO_WEBSITE_POINTS };
+  }
+
+  const signals = lead.websiteSignals;
+  // Signals for a previous URL no longer apply
+  if (!signals || signals.url !== lead.existingWebsiteUrl) {
+    return { signal: "website", label: "Website not checked yet", points: 0 };
+  }
+  if (!signals.reachable) {
+    return { signal: "website", label: "Website unreachable", points: UNREACHABLE_WEBSITE_POINTS };
+  }
+
+  const issues = getWebsiteIssues(signals);
+  if (issues.length === 0) {
+    return { signal: "website", label: "Modern website", points: 0 };
+  }
+  return {
+    signal: "website",
+    label: issues.map(issue => issue.label).join(" · "),
+    points: Math.min(MAX_WEBSITE_ISSUE_POINTS, issues.reduce((sum, issue) => sum + issue.points, 0)),
+  };
+}
+
+function getReviewsFactor(lead: Lead): LeadScoreFactor {
+  if (typeof lead.reviewCount !== "number") {
+    return { signal: "reviews", label: "Review count unknown", points: 0 };
+  }
+
+  const tier = REVIEW_TIERS.find(({ min }) => lead.reviewCount! >= min);
+  const rating = typeof lead.rating === "number" ? `, ${lead.rating.toFixed(1)}★` : "";
+  return {
+    signal: "reviews",
+    label: `${lead.reviewCount} review${lead.reviewCount === 1 ? "" : "s"}${rating}`,
+    points: tier ? tier.points : 0,
+  };
+}
+
+function getCategoryFactor(lead: Lead): LeadScoreFactor {
+  const category = (lead.category || "").trim();
+  if (!category) {
+    return { signal: "category", label: "Category unknown", points: 0 };
+  }
+  return HIGH_VALUE_CATEGORY_PATTERN.test(category)
+    ? { signal: "category", label: `${category} (high-value category)`, points: HIGH_VALUE_CATEGORY_POINTS }
+    : { signal: "category", label: category, points: OTHER_CATEGORY_POINTS };
+}
+
+/**
+ * Score a lead and explain the score
+ */
+export function scoreLead(lead: Lead): { score: number; breakdown: LeadScoreFactor[] } {
+  const breakdown: LeadScoreFactor[] = [
+    { signal: "base", label: "Base score", points: BASE_POINTS },
+    getWebsiteFactor(lead),
+    getReviewsFactor(lead),
+    getCategoryFactor(lead),
+  ];
+  const total = breakdown.reduce((sum, factor) => sum + factor.points, 0);
+
+  return { score: Math.max(0, Math.min(100, Math.round(total))), breakdown };
+}
+
+/**
+ * The lead with its score and breakdown brought up to date
+ */
+export function withLeadScore(lead: Lead): Lead {
+  const { score, breakdown } = scoreLead(lead);
+  return { ...lead, score, scoreBreakdown: breakdown };
+}
+
+/**
+ * Tailwind classes for a score badge
+ */
+export function getScoreBadgeClass(score: number): string {
+  if (score >= 70) return "bg-green-100 text-green-700";
+  if (score >= 40) return "bg-amber-100 text-amber-700";
+  return "bg-gray-100 text-gray-600";
+}
@@ -0,0 +1,123 @@
+/**
+ * Lead Search Helpers
+ *
+ * Turns findLeadsWithMaps results into scored leads, and plans and runs
+ * batch searches: every business category in every location (or sub-area
+ * of a territory), one search at a time, with progress reported per search.
+ */
+
+import { Lead } from "../types";
+import { withLeadScore } from "./leadScoring";
+import { dedupeLeads } from "./leadMatching";
+
+// Each search is charged separately, so keep a batch to a sensible size
+export const MAX_BATCH_SEARCHES = 30;
+
+export interface BatchSearchTask {
+  id: string;
+  query: string;
+  location: string;
+  status: "queued" | "running" | "done" | "failed" | "cancelled";
+  resultCount: number;
+  error?: string;
+}
+
+export interface BatchSearchHandlers {
+  // Called whenever a task changes status
+  onTaskUpdate: (task: BatchSearchTask) => void;
+  // De-duplicated results of every finished search so far
+  onResults: (leads: Lead[]) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Leads from a findLeadsWithMaps response
+ */
+export function formatFoundLeads(
+  response: { leads: any[]; grounding?: any[] },
+  idPrefix: string = `lead-${Date.now()}`
+): Lead[] {
+  return response.leads.map((pl: any, idx: number) => withLeadScore({
+    id: `${idPrefix}-${idx}`,
+    businessName: pl.businessName,
+    location: pl.location,
+    details: pl.details,
+    phone: pl.phone,
+    email: pl.email,
+    hasWebsite: pl.hasWebsite,
+    existingWebsiteUrl: pl.existingWebsiteUrl,
+    ...(typeof pl.category === "string" && pl.category ? { category: pl.category } : {}),
+    ...(typeof pl.rating === "number" ? { rating: pl.rating } : {}),
+    ...(typeof pl.reviewCount === "number" ? { reviewCount: pl.reviewCount } : {}),
+    status: "new",
+    sourceUrl: response.grounding?.[idx]?.web?.uri || response.grounding?.[idx]?.maps?.uri,
+  }));
+}
+
+/**
+ * Split a comma-, semicolon- or newline-separated list, dropping blanks and repeats
+ */
+export function parseSearchList(text: string): string[] {
+  const seen = new Set<string>();
+  return text
+    .split(/[\n;,]+/)
+    .map(item => item.trim())
+    .filter(item => {
+      const key = item.toLowerCase();
+      if (!item || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * One search per category and location
+ */
+export function buildBatchTasks(categories: string[], locations: string[]): BatchSearchTask[] {
+  return locations.flatMap((location, l) =>
+    categories.map((query, c) => ({
+      id: `task-${l}-${c}`,
+      query,
+      location,
+      status: "queued" as const,
+      resultCount: 0,
+    }))
+  );
+}
+
+/**
+ * Run batch search tasks in order. A failed search is recorded and the
+ * batch moves on; aborting marks the remaining searches cancelled.
+ *
+ * @returns De-duplicated results of all successful searches
+ */
+export async function runBatchSearch(
+  tasks: BatchSearchTask[],
+  search: (task: BatchSearchTask) => Promise<Lead[]>,
+  { onTaskUpdate, onResults, signal }: BatchSearchHandlers
+): Promise<Lead[]> {
+  let results: Lead[] = [];
+
+  for (const task of tasks) {
+    if (signal?.aborted) {
+      onTaskUpdate({ ...task, status: "cancelled" });
+      continue;
+    }
+
+    onTaskUpdate({ ...task, status: "running" });
+    try {
+      const found = await search(task);
+      results = dedupeLeads([...results, ...found]);
+      onTaskUpdate({ ...task, status: "done", resultCount: found.length });
+      onResults(results);
+    } catch (error) {
+      onTaskUpdate({
+        ...task,
+        status: "failed",
+        error: error instanceof Error ? error.message : "Search failed",
+      });
+    }
+  }
+
+  return results;
+}
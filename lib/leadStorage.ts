@@ -0,0 +1,115 @@
+/**
+ * Lead Storage Layout
+ *
+ * Customer documents hold a lead's core fields only. History,
+ * communications and invoices are sub-collections of
+ * users/{uid}/customers/{leadId}, one document per record, and data URLs or
+ * long content (website code, the concept image, large history content) are
+ * Storage objects under customers/{uid}/{leadId}/. These helpers split a
+ * Lead into those parts; useCustomers does the reads and writes.
+ */
+
+import { Lead, StoredContentEncoding } from "../types";
+
+export const LEAD_STORAGE_VERSION = 2;
+
+export type LeadRecordCollection = "history" | "communications" | "invoices";
+
+export const LEAD_RECORD_COLLECTIONS: LeadRecordCollection[] = ["history", "communications", "invoices"];
+
+// Field each kind of record is listed by, oldest first
+export const LEAD_RECORD_ORDER: Record<LeadRecordCollection, "timestamp" | "createdAt"> = {
+  history: "timestamp",
+  communications: "timestamp",
+  invoices: "createdAt",
+};
+
+export interface LeadFileField {
+  field: "websiteCode" | "websiteConceptImage";
+  pathField: "websiteCodePath" | "websiteConceptImagePath";
+  name: string;
+  contentType?: string;
+}
+
+export const LEAD_FILE_FIELDS: LeadFileField[] = [
+  { field: "websiteCode", pathField: "websiteCodePath", name: "website", contentType: "text/html; charset=utf-8" },
+  { field: "websiteConceptImage", pathField: "websiteConceptImagePath", name: "concept-image" },
+];
+
+// Matches MAX_INLINE_HISTORY_CONTENT_LENGTH in the functions config
+const MAX_INLINE_CONTENT_LENGTH = 20 * 1024;
+
+const DATA_URL_PATTERN = /^data:([^;,]*)((?:;[^;,]*)*),/;
+
+// Lead fields that never go on the customer document itself
+const DETACHED_FIELDS = new Set<string>([
+  "id",
+  ...LEAD_RECORD_COLLECTIONS,
+  ...LEAD_FILE_FIELDS.flatMap(({ field, pathField }) => [field, pathField]),
+]);
+
+export function isLegacyLead(lead: Lead): boolean {
+  return lead.storageVersion !== LEAD_STORAGE_VERSION;
+}
+
+export function getLeadStoragePath(userId: string, leadId: string, name: string): string {
+  return `customers/${userId}/${leadId}/${name}`;
+}
+
+/**
+ * How a value is stored when it moves to Storage, or null to keep it inline
+ */
+export function getContentEncoding(content: unknown): StoredContentEncoding | null {
+  if (typeof content === "string") {
+    if (DATA_URL_PATTERN.test(content)) return "data_url";
+    return content.length > MAX_INLINE_CONTENT_LENGTH ? "text" : null;
+  }
+  if (content && typeof content === "object") {
+    return JSON.stringify(content).length > MAX_INLINE_CONTENT_LENGTH ? "json" : null;
+  }
+  return null;
+}
+
+/**
+ * The lead's fields stored on the customer document, without undefined values
+ */
+export function getLeadCoreFields(lead: Partial<Lead>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(lead).filter(([key, value]) => !DETACHED_FIELDS.has(key) && value !== undefined)
+  );
+}
+
+/**
+ * Records that are new or different from the previous list
+ */
+export function getChangedRecords<T extends { id: string }>(next: T[] = [], previous: T[] = []): T[] {
+  const before = new Map(previous.map(record => [record.id, record]));
+  return next.filter(record => {
+    const old = before.get(record.id);
+    return record !== old && JSON.stringify(record) !== JSON.stringify(old);
+  });
+}
+
+export function getRemovedRecordIds<T extends { id: string }>(next: T[] = [], previous: T[] = []): string[] {
+  const ids = new Set(next.map(record => record.id));
+  return previous.filter(record => !ids.has(record.id)).map(record => record.id);
+}
+
+/**
+ * Combine record lists by id, later lists winning, sorted oldest first.
+ * Undefined when no list is loaded.
+ */
+export function mergeRecords<T extends { id: string }>(
+  collection: LeadRecordCollection,
+  ...lists: (T[] | undefined)[]
+): T[] | undefined {
+  if (lists.every(list => list === undefined)) return undefined;
+
+  const records = new Map<string, T>();
+  lists.forEach(list => list?.forEach(record => records.set(record.id, record)));
+
+  const orderBy = LEAD_RECORD_ORDER[collection];
+  return [...records.values()].sort(
+    (a, b) => (Number((a as Record<string, unknown>)[orderBy]) || 0) - (Number((b as Record<string, unknown>)[orderBy]) || 0)
+  );
+}
@@ -0,0 +1,104 @@
+/**
+ * Lead Task Helpers
+ *
+ * Follow-up tasks are stored on their lead (Lead.tasks). Due dates are
+ * calendar days in the user's time zone, kept as YYYY-MM-DD strings so
+ * they compare and sort as plain strings.
+ */
+
+import { Lead, LeadTask } from "../types";
+
+// Open tasks due within this many days are listed as upcoming
+export const UPCOMING_TASK_DAYS = 7;
+
+export type TaskBucket = "overdue" | "today" | "upcoming" | "later" | "done";
+
+export interface CustomerTask {
+  lead: Lead;
+  task: LeadTask;
+  bucket: TaskBucket;
+}
+
+/**
+ * Local calendar day as YYYY-MM-DD
+ */
+export function toDateKey(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function addDays(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return toDateKey(new Date(year, month - 1, day + days));
+}
+
+export function formatDueDate(dateKey: string, today: string = toDateKey()): string {
+  if (dateKey === today) return "Today";
+  if (dateKey === addDays(today, 1)) return "Tomorrow";
+  if (dateKey === addDays(today, -1)) return "Yesterday";
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    ...(String(year) !== today.slice(0, 4) ? { year: "numeric" as const } : {}),
+  });
+}
+
+export function getTaskBucket(task: LeadTask, today: string = toDateKey()): TaskBucket {
+  if (task.completedAt) return "done";
+  if (task.dueDate < today) return "overdue";
+  if (task.dueDate === today) return "today";
+  if (task.dueDate <= addDays(today, UPCOMING_TASK_DAYS)) return "upcoming";
+  return "later";
+}
+
+/**
+ * Add a task to a lead, or replace the one with the same id. Moving the
+ * reminder re-arms it.
+ */
+export function upsertTask(lead: Lead, task: LeadTask): Lead {
+  const tasks = lead.tasks || [];
+  const existing = tasks.find(t => t.id === task.id);
+  if (!existing) {
+    return { ...lead, tasks: [...tasks, task] };
+  }
+
+  let updated = task;
+  if ((existing.reminderAt || 0) !== (task.reminderAt || 0)) {
+    const { reminderSentAt: _sent, reminderError: _error, ...rest } = task;
+    updated = rest;
+  }
+  return { ...lead, tasks: tasks.map(t => (t.id === task.id ? updated : t)) };
+}
+
+export function setTaskCompleted(lead: Lead, taskId: string, completed: boolean): Lead {
+  return {
+    ...lead,
+    tasks: (lead.tasks || []).map(task => {
+      if (task.id !== taskId) return task;
+      const { completedAt: _completedAt, ...open } = task;
+      return completed ? { ...open, completedAt: Date.now() } : open;
+    }),
+  };
+}
+
+export function removeTask(lead: Lead, taskId: string): Lead {
+  return { ...lead, tasks: (lead.tasks || []).filter(task => task.id !== taskId) };
+}
+
+/**
+ * Every task across the given leads, soonest due first
+ */
+export function collectTasks(leads: Lead[], today: string = toDateKey()): CustomerTask[] {
+  return leads
+    .flatMap(lead => (lead.tasks || []).map(task => ({ lead, task, bucket: getTaskBucket(task, today) })))
+    .sort((a, b) => a.task.dueDate.localeCompare(b.task.dueDate) || a.task.createdAt - b.task.createdAt);
+}
+
+/**
+ * Open tasks that are due today or overdue
+ */
+export function countDueTasks(leads: Lead[], today: string = toDateKey()): number {
+  return collectTasks(leads, today).filter(item => item.bucket === "overdue" || item.bucket === "today").length;
+}
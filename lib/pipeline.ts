@@ -0,0 +1,125 @@
+/**
+ * Pipeline Helpers
+ *
+ * Stage resolution, stage moves and the weighted forecast for the pipeline
+ * board. Stages are user-configured columns layered over Lead.status: moving
+ * a lead between stages also sets its status, and a lead whose status was
+ * changed elsewhere falls back to the first stage for that status.
+ */
+
+import { HistoryItem, InvoicingSettings, Lead, PipelineStage } from "../types";
+import { convertToReportingCurrency, DEFAULT_CURRENCY } from "./invoiceTotals";
+
+// Statuses that end a deal; they are left out of the open pipeline forecast
+export const CLOSED_LEAD_STATUSES: Lead["status"][] = ["converted", "lost"];
+
+export interface PipelineStageTotals {
+  stage: PipelineStage;
+  leads: Lead[];
+  total: number;
+  weighted: number;
+}
+
+export interface PipelineForecast {
+  stages: PipelineStageTotals[];
+  openTotal: number;
+  weightedTotal: number;
+  // Leads whose deal currency has no exchange rate configured
+  unconvertedCount: number;
+}
+
+/**
+ * The board column a lead belongs in, or undefined if no stage maps to its status
+ */
+export function getLeadStage(lead: Lead, stages: PipelineStage[]): PipelineStage | undefined {
+  const pinned = stages.find(stage => stage.id === lead.pipelineStageId);
+  if (pinned && pinned.status === lead.status) return pinned;
+  return stages.find(stage => stage.status === lead.status);
+}
+
+/**
+ * Move a lead into a stage, recording the change in its history
+ */
+export function moveLeadToStage(
+  lead: Lead,
+  stage: PipelineStage,
+  stages: PipelineStage[],
+  lostReason?: string
+): Lead {
+  const now = Date.now();
+  const from = getLeadStage(lead, stages);
+  const reason = stage.status === "lost" ? (lostReason || "").trim() : "";
+
+  const historyItem: HistoryItem = {
+    id: `stage-${now}`,
+    type: "STAGE_CHANGE",
+    timestamp: now,
+    content: from ? `Moved from ${from.name} to ${stage.name}` : `Moved to ${stage.name}`,
+    metadata: {
+      status: stage.status,
+      ...(from ? { fromStageId: from.id } : {}),
+      toStageId: stage.id,
+      ...(reason ? { reason } : {}),
+    },
+  };
+
+  return {
+    ...lead,
+    status: stage.status,
+    pipelineStageId: stage.id,
+    lostReason: reason,
+    history: [...(lead.history || []), historyItem],
+  };
+}
+
+/**
+ * A lead's deal value in the reporting currency, or null without a rate
+ */
+export function getDealValueInReportingCurrency(
+  lead: Lead,
+  settings: Pick<InvoicingSettings, "reportingCurrency" | "exchangeRates">
+): number | null {
+  if (!lead.dealValue) return 0;
+  return convertToReportingCurrency(
+    lead.dealValue,
+    lead.dealCurrency || DEFAULT_CURRENCY,
+    settings
+  );
+}
+
+/**
+ * Group leads into stages and total their deal values. The weighted total
+ * covers open stages only, each deal counted at its stage's probability.
+ */
+export function calculatePipelineForecast(
+  leads: Lead[],
+  stages: PipelineStage[],
+  settings: Pick<InvoicingSettings, "reportingCurrency" | "exchangeRates">
+): PipelineForecast {
+  let unconvertedCount = 0;
+  const totals: PipelineStageTotals[] = stages.map(stage => ({ stage, leads: [], total: 0, weighted: 0 }));
+
+  for (const lead of leads) {
+    const stage = getLeadStage(lead, stages);
+    const column = stage && totals.find(t => t.stage.id === stage.id);
+    if (!column) continue;
+
+    column.leads.push(lead);
+    const value = getDealValueInReportingCurrency(lead, settings);
+    if (value === null) {
+      unconvertedCount++;
+      continue;
+    }
+    column.total += value;
+    column.weighted += value * (column.stage.probability / 100);
+  }
+
+  const open = totals.filter(t => !CLOSED_LEAD_STATUSES.includes(t.stage.status));
+
+  return {
+    stages: totals,
+    openTotal: open.reduce((sum, t) => sum + t.total, 0),
+    weightedTotal: open.reduce((sum, t) => sum + t.weighted, 0),
+    unconvertedCount,
+  };
+}
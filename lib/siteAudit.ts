@@ -0,0 +1,34 @@
+/**
+ * Site Audit Helpers
+ *
+ * Audits of a prospect's existing website are kept in Lead.history as
+ * SITE_AUDIT items, newest last like every other history entry.
+ */
+
+import { HistoryItem, Lead, SiteAuditReport } from "../types";
+
+/**
+ * History item recording an audit
+ */
+export function createSiteAuditHistoryItem(report: SiteAuditReport): HistoryItem {
+  const high = report.issues.filter(issue => issue.severity === "high").length;
+  return {
+    id: `audit-${report.checkedAt}`,
+    type: "SITE_AUDIT",
+    timestamp: report.checkedAt,
+    content: report,
+    metadata: {
+      description: `${report.issues.length} issue${report.issues.length === 1 ? "" : "s"} found (${high} high)`,
+    },
+  };
+}
+
+/**
+ * Most recent audit of the lead's current website, if any
+ */
+export function getLatestSiteAudit(lead: Lead): SiteAuditReport | undefined {
+  const audits = (lead.history || [])
+    .filter(item => item.type === "SITE_AUDIT" && item.content?.url === lead.existingWebsiteUrl)
+    .sort((a, b) => b.timestamp - a.timestamp);
+  return audits[0]?.content as SiteAuditReport | undefined;
+}
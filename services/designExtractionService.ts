@@ -1,9 +1,6 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { Type } from "@google/genai";
 import { DesignSpecification } from "../types";
-
-const getClient = () => {
-  return new GoogleGenAI({ apiKey: import.meta.env.VITE_API_KEY });
-};
+import { getGeminiClient } from "./geminiProxy";
 
 // Enhanced schema for EXACT design specification extraction
 const designSpecSchema = {
@@ -162,7 +159,7 @@ export const extractDesignSpecFromImage = async (
   businessName: string,
   initialBrandGuidelines?: { colors: string[]; tone: string }
 ): Promise<DesignSpecification> => {
-  const ai = getClient();
+  const ai = getGeminiClient('brand_analysis');
 
   const extractionPrompt = `
     Analyze this website concept mockup for "${businessName}" and extract PIXEL-PERFECT design specifications.
@@ -0,0 +1,155 @@
+/**
+ * Client Email Service
+ *
+ * Frontend service for sending email through the user's own SMTP account.
+ * Credentials are stored encrypted on the server; the app only ever sees
+ * the account status.
+ */
+
+import { httpsCallable } from "firebase/functions";
+import { functions } from "../lib/firebase";
+import { Communication, EmailAccountStatus, MailServerSettings } from "../types";
+
+// ============================================
+// Type Definitions
+// ============================================
+
+export interface SaveEmailAccountInput {
+  fromName: string;
+  fromEmail: string;
+  smtp: MailServerSettings & { password?: string };
+  imap?: MailServerSettings & { enabled: boolean; password?: string };
+}
+
+export interface SendClientEmailInput {
+  leadId: string;
+  subject: string;
+  body: string;
+  category?: Communication["category"];
+  invoiceId?: string;
+  attachments?: { name: string; type: string; contentBase64: string }[];
+}
+
+interface EmailAccountResponse {
+  account: EmailAccountStatus | null;
+}
+
+interface SendClientEmailResponse {
+  communication: Communication;
+}
+
+// ============================================
+// Cloud Function Callables
+// ============================================
+
+// Create dummy callable for when Firebase isn't configured
+const createDummyCallable = <TReq, TRes>(name: string) => {
+  return (() => {
+    throw new Error(
+      `Firebase not configured. Cannot call ${name}. Please set up Firebase credentials.`
+    );
+  }) as unknown as ReturnType<typeof httpsCallable<TReq, TRes>>;
+};
+
+const getEmailAccountCallable = functions
+  ? httpsCallable<void, EmailAccountResponse>(functions, "getEmailAccount")
+  : createDummyCallable<void, EmailAccountResponse>("getEmailAccount");
+
+const saveEmailAccountCallable = functions
+  ? httpsCallable<SaveEmailAccountInput, EmailAccountResponse>(functions, "saveEmailAccount")
+  : createDummyCallable<SaveEmailAccountInput, EmailAccountResponse>("saveEmailAccount");
+
+const deleteEmailAccountCallable = functions
+  ? httpsCallable<void, EmailAccountResponse>(functions, "deleteEmailAccount")
+  : createDummyCallable<void, EmailAccountResponse>("deleteEmailAccount");
+
+const sendClientEmailCallable = functions
+  ? httpsCallable<SendClientEmailInput, SendClientEmailResponse>(functions, "sendClientEmail")
+  : createDummyCallable<SendClientEmailInput, SendClientEmailResponse>("sendClientEmail");
+
+// Map callable errors to user-facing messages
+const toFriendlyError = (error: unknown, fallback: string): Error => {
+  if (error && typeof error === "object" && "code" in error) {
+    const firebaseError = error as { code: string; message: string };
+    switch (firebaseError.code) {
+      case "functions/unauthenticated":
+        return new Error("Please log in to use email");
+      default:
+        return new Error(firebaseError.message || fallback);
+    }
+  }
+
+  if (error instanceof Error) {
+    return error;
+  }
+
+  return new Error(`${fallback}. Please try again.`);
+};
+
+// ============================================
+// Account
+// ============================================
+
+/**
+ * Get the connected email account, or null when none is connected
+ */
+export async function getEmailAccount(): Promise<EmailAccountStatus | null> {
+  try {
+    const result = await getEmailAccountCallable();
+    return result.data.account;
+  } catch (error: unknown) {
+    console.error("Error loading email account:", error);
+    throw toFriendlyError(error, "Failed to load email settings");
+  }
+}
+
+/**
+ * Connect or update the email account
+ *
+ * The server signs in to SMTP (and IMAP, when enabled) before saving, so a
+ * successful save means the credentials work. Leave passwords empty to keep
+ * the stored ones.
+ */
+export async function saveEmailAccount(input: SaveEmailAccountInput): Promise<EmailAccountStatus> {
+  try {
+    const result = await saveEmailAccountCallable(input);
+    return result.data.account!;
+  } catch (error: unknown) {
+    console.error("Error saving email account:", error);
+    throw toFriendlyError(error, "Failed to save email settings");
+  }
+}
+
+/**
+ * Disconnect the email account and delete its stored credentials
+ */
+export async function deleteEmailAccount(): Promise<void> {
+  try {
+    await deleteEmailAccountCallable();
+  } catch (error: unknown) {
+    console.error("Error disconnecting email account:", error);
+    throw toFriendlyError(error, "Failed to disconnect email account");
+  }
+}
+
+// ============================================
+// Sending
+// ============================================
+
+/**
+ * Send an email to a customer through the connected account
+ *
+ * The server records the message on the lead as an outbound communication,
+ * so callers should not add one themselves.
+ *
+ * @returns The recorded communication
+ */
+export async function sendClientEmail(input: SendClientEmailInput): Promise<Communication> {
+  try {
+    const result = await sendClientEmailCallable(input);
+    return result.data.communication;
+  } catch (error: unknown) {
+    console.error("Error sending email:", error);
+    throw toFriendlyError(error, "Failed to send email");
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Gemini Proxy Client
+ *
+ * The app never holds a Gemini API key: generateContent calls go to the
+ * geminiGenerate Cloud Function, which meters and charges them. The client
+ * returned by getGeminiClient mirrors the @google/genai generateContent
+ * call, and all its calls count as one action: the feature's price is
+ * charged once, and every call at least its metered usage.
+ */
+
+import { httpsCallable } from "firebase/functions";
+import { GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import { functions } from "../lib/firebase";
+
+// ============================================
+// Type Definitions
+// ============================================
+
+/**
+ * Priced AI actions (CREDIT_COSTS in the functions config)
+ */
+export type GeminiFeature =
+  | "lead_discovery"
+  | "brand_analysis"
+  | "visual_pitch"
+  | "copywriting"
+  | "pitch_email"
+  | "website_concept"
+  | "site_build"
+  | "site_edit"
+  | "image_generation"
+  | "chat_message"
+  | "marketing_strategy";
+
+interface GeminiGenerateRequest {
+  model: string;
+  feature: GeminiFeature;
+  actionId: string;
+  request: Record<string, unknown>;
+}
+
+interface GeminiGenerateResponse {
+  response: Record<string, unknown>;
+  tokensUsed: number;
+  tokenBalance: number;
+}
+
+interface VideoGenerationResponse {
+  generationId: string;
+  done: boolean;
+  url?: string;
+  expiresAt?: number;
+}
+
+interface StartVideoGenerationRequest {
+  prompt: string;
+  aspectRatio?: "16:9" | "9:16";
+}
+
+interface CreateVoiceSessionResponse {
+  token: string;
+  expiresAt: number;
+  tokenBalance: number;
+}
+
+export interface GeminiClient {
+  models: {
+    generateContent: (params: GenerateContentParameters) => Promise<GenerateContentResponse>;
+  };
+}
+
+// ============================================
+// Cloud Function Callables
+// ============================================
+
+// Create dummy callable for when Firebase isn't configured
+const createDummyCallable = <TReq, TRes>(name: string) => {
+  return (() => {
+    throw new Error(
+      `Firebase not configured. Cannot call ${name}. Please set up Firebase credentials.`
+    );
+  }) as unknown as ReturnType<typeof httpsCallable<TReq, TRes>>;
+};
+
+const geminiGenerateCallable = functions
+  ? httpsCallable<GeminiGenerateRequest, GeminiGenerateResponse>(
+      functions,
+      "geminiGenerate",
+      { timeout: 300000 }
+    )
+  : createDummyCallable<GeminiGenerateRequest, GeminiGenerateResponse>(
+      "geminiGenerate"
+    );
+
+const startVideoGenerationCallable = functions
+  ? httpsCallable<StartVideoGenerationRequest, VideoGenerationResponse>(
+      functions,
+      "startVideoGeneration"
+    )
+  : createDummyCallable<StartVideoGenerationRequest, VideoGenerationResponse>(
+      "startVideoGeneration"
+    );
+
+const getVideoGenerationCallable = functions
+  ? httpsCallable<{ generationId: string }, VideoGenerationResponse>(
+      functions,
+      "getVideoGeneration",
+      { timeout: 120000 }
+    )
+  : createDummyCallable<{ generationId: string }, VideoGenerationResponse>(
+      "getVideoGeneration"
+    );
+
+const createVoiceSessionCallable = functions
+  ? httpsCallable<void, CreateVoiceSessionResponse>(
+      functions,
+      "createVoiceSession"
+    )
+  : createDummyCallable<void, CreateVoiceSessionResponse>(
+      "createVoiceSession"
+    );
+
+// ============================================
+// Request Conversion
+// ============================================
+
+type Part = Record<string, unknown>;
+type Content = { role?: string; parts: Part[] };
+
+const toPart = (part: unknown): Part =>
+  typeof part === "string" ? { text: part } : (part as Part);
+
+const isContent = (value: unknown): value is Content =>
+  !!value && typeof value === "object" && Array.isArray((value as Content).parts);
+
+/**
+ * Contents as the SDK accepts them (a string, parts, a content or a list
+ * of contents) in the REST shape
+ */
+function toContents(contents: unknown): Content[] {
+  const list = Array.isArray(contents) ? contents : [contents];
+
+  if (list.every(isContent)) {
+    return list.map(content => ({ role: content.role || "user", parts: content.parts.map(toPart) }));
+  }
+  return [{ role: "user", parts: list.map(toPart) }];
+}
+
+// SDK config keys that sit next to generationConfig in a REST request
+const REQUEST_LEVEL_KEYS = ["tools", "toolConfig", "safetySettings", "cachedContent"];
+
+// SDK-only options that are never sent
+const CLIENT_ONLY_KEYS = ["systemInstruction", "httpOptions", "abortSignal"];
+
+function toRequest(params: GenerateContentParameters): Record<string, unknown> {
+  const config = (params.config || {}) as Record<string, unknown>;
+  const request: Record<string, unknown> = { contents: toContents(params.contents) };
+  const generationConfig: Record<string, unknown> = {};
+
+  Object.entries(config).forEach(([key, value]) => {
+    if (value === undefined || CLIENT_ONLY_KEYS.includes(key)) return;
+    if (REQUEST_LEVEL_KEYS.includes(key)) {
+      request[key] = value;
+    } else {
+      generationConfig[key] = value;
+    }
+  });
+
+  if (config.systemInstruction) {
+    request.systemInstruction = isContent(config.systemInstruction)
+      ? config.systemInstruction
+      : { parts: toContents(config.systemInstruction)[0].parts };
+  }
+  if (Object.keys(generationConfig).length > 0) {
+    request.generationConfig = generationConfig;
+  }
+
+  return request;
+}
+
+// ============================================
+// API Functions
+// ============================================
+
+/**
+ * Get a Gemini client for one action of a feature. Make a new client for
+ * each action the user starts.
+ */
+export function getGeminiClient(feature: GeminiFeature): GeminiClient {
+  const actionId = crypto.randomUUID();
+
+  return {
+    models: {
+      generateContent: async (params) => {
+        try {
+          const result = await geminiGenerateCallable({
+            model: params.model,
+            feature,
+            actionId,
+            request: toRequest(params),
+          });
+          return Object.assign(new GenerateContentResponse(), result.data.response);
+        } catch (error: any) {
+          if (error.code === "functions/resource-exhausted") {
+            throw new Error(error.message || "Insufficient credits. Please top up your balance.");
+          }
+          throw error;
+        }
+      },
+    },
+  };
+}
+
+/**
+ * Generate a video with Veo and wait until it's ready
+ *
+ * @returns A signed URL of the stored video
+ */
+export async function generateVideo(
+  prompt: string,
+  aspectRatio: "16:9" | "9:16" = "16:9"
+): Promise<string> {
+  let { data: generation } = await startVideoGenerationCallable({ prompt, aspectRatio });
+
+  while (!generation.done) {
+    await new Promise(resolve => setTimeout(resolve, 10000)); // Check every 10s
+    ({ data: generation } = await getVideoGenerationCallable({
+      generationId: generation.generationId,
+    }));
+  }
+
+  if (!generation.url) throw new Error("Failed to generate video");
+  return generation.url;
+}
+
+/**
+ * Pay for a voice chat session and get its Live API token
+ */
+export async function createVoiceSession(): Promise<CreateVoiceSessionResponse> {
+  const result = await createVoiceSessionCallable();
+  return result.data;
+}
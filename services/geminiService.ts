@@ -1,17 +1,6 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { ImageSize, AspectRatio, DesignSpecification, DiscrepancyReport, SectionBackground } from "../types";
-
-// Helper to ensure we get a valid client instance
-// For Veo/Pro Image, we need to check for selected API key flow
-const getClient = async (requiresPaidKey: boolean = false, skipKeyCheck: boolean = false) => {
-  if (requiresPaidKey && !skipKeyCheck && window.aistudio) {
-     const hasKey = await window.aistudio.hasSelectedApiKey();
-     if (!hasKey) {
-        throw new Error("API_KEY_REQUIRED");
-     }
-  }
-  return new GoogleGenAI({ apiKey: import.meta.env.VITE_API_KEY });
-};
+import { Type } from "@google/genai";
+import { ImageSize, AspectRatio, DesignSpecification, DiscrepancyReport, SectionBackground, SiteAuditReport } from "../types";
+import { GeminiClient, generateVideo, getGeminiClient } from "./geminiProxy";
 
 // Helper to safely parse JSON from AI response
 export const safeParseJSON = (text: string) => {
@@ -145,7 +134,7 @@ const fetchImageAsBase64 = async (url: string): Promise<{ data: string; mimeType
 };
 
 // Extract brand colors from a logo image using Gemini Vision
-const extractColorsFromLogo = async (logoUrl: string): Promise<string[]> => {
+const extractColorsFromLogo = async (ai: GeminiClient, logoUrl: string): Promise<string[]> => {
   console.log('[extractColorsFromLogo] Starting color extraction from:', logoUrl);
 
   const imageData = await fetchImageAsBase64(logoUrl);
@@ -154,7 +143,6 @@ const extractColorsFromLogo = async (logoUrl: string): Promise<string[]> => {
     return [];
   }
 
-  const ai = await getClient();
   const prompt = `Analyze this logo image and extract the 3 most dominant brand colors.
 
 For each color:
@@ -210,10 +198,9 @@ IMPORTANT: Return ONLY the JSON array, nothing else.`;
 };
 
 // Generate fallback colors when logo extraction fails
-const generateFallbackColors = async (businessName: string, details: string): Promise<string[]> => {
+const generateFallbackColors = async (ai: GeminiClient, businessName: string, details: string): Promise<string[]> => {
   console.log('[generateFallbackColors] Generating industry-appropriate colors for:', businessName);
 
-  const ai = await getClient();
   try {
     const response = await ai.models.generateContent({
       model: 'gemini-2.5-flash',
@@ -242,12 +229,11 @@ Example: ["#2563EB", "#10B981", "#4A4A4A"]`,
 };
 
 // Helper function to find a business's official website with a focused search
-async function findBusinessWebsite(businessName: string, location: string): Promise<string | null> {
+async function findBusinessWebsite(ai: GeminiClient, businessName: string, location: string): Promise<string | null> {
   console.log(`\n========================================`);
   console.log(`[Website Lookup] Starting search for: "${businessName}" in "${location}"`);
   console.log(`========================================`);
 
-  const ai = await getClient();
 
   // Very strict prompt - only return URL, nothing else
   const prompt = `What is the official website URL for "${businessName}" in ${location}?
@@ -371,9 +357,9 @@ const getReliableImageUrl = (query: string): string => {
     return 'https://images.unsplash.com/photo-1497366216548-37526070297c?w=1920&h=1080&fit=crop';
 };
 
-export const findLeadsWithMaps = async (query: string, location: string) => {
-  const ai = await getClient();
-  const prompt = `Find 5 real local businesses for "${query}" near "${location}".
+export const findLeadsWithMaps = async (query: string, location: string, count: number = 5) => {
+  const ai = getGeminiClient('lead_discovery');
+  const prompt = `Find ${count} real local businesses for "${query}" near "${location}".
 
 For each business, provide their actual name, address, and a brief description.
 
@@ -383,6 +369,9 @@ Return a strictly valid JSON array with objects containing:
 - details (string - brief description of what they do and why they might benefit from marketing services)
 - phone (string or null)
 - email (string or null)
+- category (string or null - their business category, e.g. "Bakery" or "Plumber")
+- rating (number or null - average review rating out of 5)
+- reviewCount (number or null - how many reviews they have)
 
 IMPORTANT:
 - Ensure all strings are properly escaped
@@ -396,7 +385,7 @@ IMPORTANT:
     contents: prompt,
     config: {
       tools: [{ googleSearch: {} }],
-      maxOutputTokens: 2000,
+      maxOutputTokens: Math.max(2000, count * 400),
     }
   });
 
@@ -411,7 +400,7 @@ IMPORTANT:
 
   const leadsWithWebsites = await Promise.all(
     leads.map(async (lead: any) => {
-      const websiteUrl = await findBusinessWebsite(lead.businessName, location);
+      const websiteUrl = await findBusinessWebsite(ai, lead.businessName, location);
       lead.hasWebsite = !!websiteUrl;
       lead.existingWebsiteUrl = websiteUrl;
       return lead;
@@ -426,12 +415,38 @@ IMPORTANT:
   };
 };
 
+/**
+ * Split a territory (center + radius) into named sub-areas such as towns or
+ * neighborhoods, so each can be searched separately
+ */
+export const findSubAreas = async (center: string, radiusMiles: number, count: number): Promise<string[]> => {
+  const ai = getGeminiClient('lead_discovery');
+  const prompt = `List ${count} distinct towns, cities or neighborhoods within ${radiusMiles} miles of "${center}" that together cover the area, including "${center}" itself.
+
+Return a strictly valid JSON array of strings, each specific enough to search on a map (e.g. "Ballard, Seattle, WA").
+Do not include markdown formatting. Just the raw JSON array.`;
+
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.0-flash',
+    contents: prompt,
+    config: {
+      tools: [{ googleSearch: {} }],
+      maxOutputTokens: 1000,
+    }
+  });
+
+  const parsed = safeParseJSON(response.text || "[]");
+  return Array.isArray(parsed)
+    ? parsed.filter((area: unknown): area is string => typeof area === 'string' && area.trim() !== '').slice(0, count)
+    : [];
+};
+
 export const generateBrandAnalysis = async (
   businessName: string,
   details: string,
   existingWebsiteUrl?: string
 ) => {
-  const ai = await getClient();
+  const ai = getGeminiClient('brand_analysis');
   const hasWebsite = !!existingWebsiteUrl;
 
   // TWO-STEP APPROACH for businesses with websites:
@@ -486,7 +501,7 @@ CRITICAL: The logoUrl must be a complete, valid image URL starting with https://
     if (logoUrl && isValidImageUrl(logoUrl)) {
       console.log('[Brand Analysis] Step 2: Extracting colors from logo image...');
       try {
-        colors = await extractColorsFromLogo(logoUrl);
+        colors = await extractColorsFromLogo(ai, logoUrl);
         console.log('[Brand Analysis] Colors extracted from logo:', colors);
       } catch (e) {
         console.warn('[Brand Analysis] Could not extract colors from logo:', e);
@@ -498,7 +513,7 @@ CRITICAL: The logoUrl must be a complete, valid image URL starting with https://
     // If no colors extracted from logo, generate fallback colors
     if (colors.length === 0) {
       console.log('[Brand Analysis] Using fallback color generation...');
-      colors = await generateFallbackColors(businessName, details);
+      colors = await generateFallbackColors(ai, businessName, details);
     }
 
     return {
@@ -558,27 +573,43 @@ Return JSON with:
   };
 }
 
-export const generatePitchEmail = async (businessName: string, websiteUrl: string | undefined, brandTone: string, hasConceptImage: boolean = false) => {
-  const ai = await getClient();
+export const generatePitchEmail = async (
+  businessName: string,
+  websiteUrl: string | undefined,
+  brandTone: string,
+  hasConceptImage: boolean = false,
+  siteAudit?: SiteAuditReport,
+  customerNotes: string[] = []
+) => {
+  const ai = getGeminiClient('pitch_email');
 
   // Filter out blob: URLs - they only work locally and can't be shared externally
   const validUrl = websiteUrl && !websiteUrl.startsWith('blob:') ? websiteUrl : undefined;
 
+  // The most severe audit findings give the pitch concrete, checkable problems
+  const auditFindings = siteAudit?.issues.slice(0, 5).map(issue => `  - ${issue.message}`).join('\n');
+
   const prompt = `Write a cold email to "${businessName}" to sell website design and social media marketing services.
 
   Context:
   - Potential Client: ${businessName}
   - My Services: Website Design & Social Media Growth
   - Tone: ${brandTone || 'Professional and Friendly'}
+${customerNotes.map(note => `  - ${note}`).join('\n')}
 
   Asset Status:
   ${validUrl ? `- I have a live website demo link: ${validUrl}` : '- I do not have a live link yet (the website needs to be published first to get a shareable URL).'}
   ${hasConceptImage ? '- I have attached a visual mockup image of a new website concept for them.' : ''}
-  
+  ${auditFindings ? `
+  Problems I found on their current website (${siteAudit!.url}):
+${auditFindings}
+  ` : ''}
   Instructions:
   - If I have a Concept Image, explicitly mention "I've attached a visual concept of what your new site could look like."
   - Highlight that we can help them grow their brand online through a modern website and active social media presence.
   - If I have a URL, ask them to click the link to see their new site.
+  - If I found problems on their current website, mention one or two of them specifically and kindly, as things a new site would fix.
+  - Use what the context says about the client (e.g. tags or custom details) to make the email feel personal, but never quote it verbatim.
   - Keep it under 150 words.
   - Empathetic, not salesy.`;
 
@@ -603,7 +634,7 @@ export const generatePitchEmail = async (businessName: string, websiteUrl: strin
 }
 
 export const generateCampaignStrategy = async (businessName: string, goal: string, platforms: string[], brandGuidelines: any) => {
-  const ai = await getClient();
+  const ai = getGeminiClient('marketing_strategy');
   
   const prompt = `Create a marketing campaign strategy for "${businessName}".
   Goal: "${goal}"
@@ -654,7 +685,7 @@ export const generateCampaignStrategy = async (businessName: string, goal: strin
 };
 
 export const analyzeAndGenerateMarketing = async (businessName: string, goal: string) => {
-  const ai = await getClient();
+  const ai = getGeminiClient('marketing_strategy');
   // Switched to Flash for reliability with JSON Schema
   const response = await ai.models.generateContent({
     model: 'gemini-2.5-flash',
@@ -686,10 +717,9 @@ export const analyzeAndGenerateMarketing = async (businessName: string, goal: st
 export const generateWebsiteConceptImage = async (
   prompt: string, 
   aspectRatio: AspectRatio = AspectRatio.LANDSCAPE, 
-  size: ImageSize = ImageSize.S_1K,
-  skipKeyCheck: boolean = false
+  size: ImageSize = ImageSize.S_1K
 ) => {
-  const ai = await getClient(true, skipKeyCheck); // Requires paid key for Pro Image
+  const ai = getGeminiClient('website_concept');
   
   // Using Nano Banana Pro (Gemini 3 Pro Image)
   // IMPORTANT: Generate a flat browser screenshot, NOT a laptop/device mockup
@@ -783,10 +813,9 @@ This must be a COMPLETE website mockup showing ALL major sections in a single sc
 export const generateSocialMediaImage = async (
   businessName: string,
   topic: string,
-  aspectRatio: AspectRatio = AspectRatio.SQUARE,
-  skipKeyCheck: boolean = false
+  aspectRatio: AspectRatio = AspectRatio.SQUARE
 ) => {
-  const ai = await getClient(true, skipKeyCheck); // Requires paid key for Pro Image (Nano Banana)
+  const ai = getGeminiClient('image_generation');
 
   const response = await ai.models.generateContent({
     model: 'gemini-3-pro-image-preview',
@@ -820,10 +849,9 @@ export const generateSocialMediaImage = async (
  */
 export const generateSectionImages = async (
   businessPrompt: string,
-  sections: string[] = ['hero', 'about', 'services', 'contact'],
-  skipKeyCheck: boolean = false
+  sections: string[] = ['hero', 'about', 'services', 'contact']
 ): Promise<Map<string, string>> => {
-  const ai = await getClient(true, skipKeyCheck);
+  const ai = getGeminiClient('image_generation');
   const sectionImages = new Map<string, string>();
 
   // Define prompts for each section type
@@ -2365,8 +2393,10 @@ const injectConceptImageAsHeroBackground = (html: string, conceptImage: string):
  * Extract section backgrounds from concept image
  * Uses vision AI to identify ALL sections with background images and generate matching Unsplash queries
  */
-export const extractSectionBackgrounds = async (conceptImage: string): Promise<SectionBackground[]> => {
-    const ai = await getClient();
+export const extractSectionBackgrounds = async (
+    conceptImage: string,
+    ai: GeminiClient = getGeminiClient('site_build') // Pass the build's client to share its charge
+): Promise<SectionBackground[]> => {
 
     // Remove data URL prefix if present
     const imageData = conceptImage.includes(',')
@@ -2975,7 +3005,7 @@ export const generateWebsiteStructure = async (
     useAIImages: boolean = false,
     onProgress?: (stage: string, detail?: string) => void
 ): Promise<string> => {
-    const ai = await getClient();
+    const ai = getGeminiClient('site_build');
 
     // Generate AI section images if enabled
     let aiSectionImages: Map<string, string> | undefined;
@@ -2983,7 +3013,7 @@ export const generateWebsiteStructure = async (
         try {
             onProgress?.('images', 'Generating AI images for website sections...');
             console.log('=== GENERATING AI SECTION IMAGES (useAIImages=true) ===');
-            aiSectionImages = await generateSectionImages(prompt, ['hero', 'about', 'services', 'contact'], true);
+            aiSectionImages = await generateSectionImages(prompt, ['hero', 'about', 'services', 'contact']);
             console.log(`Generated ${aiSectionImages.size} AI section images`);
         } catch (error) {
             console.error('AI section image generation failed:', error);
@@ -3010,7 +3040,7 @@ export const generateWebsiteStructure = async (
             let sectionBackgrounds: SectionBackground[] = [];
             if (extractAllBackgrounds) {
                 console.log('Extracting section backgrounds from concept image...');
-                sectionBackgrounds = await extractSectionBackgrounds(conceptImage);
+                sectionBackgrounds = await extractSectionBackgrounds(conceptImage, ai);
             }
 
             // Build the vision-guided prompt
@@ -3530,7 +3560,7 @@ CRITICAL: Do NOT use source.unsplash.com URLs - they are unreliable!
 }
 
 export const refineWebsiteCode = async (currentCode: string, instructions: string) => {
-    const ai = await getClient();
+    const ai = getGeminiClient('site_edit');
     const response = await ai.models.generateContent({
         model: 'gemini-3-pro-preview', // High quality for code refinement
         contents: `I have this HTML code:
@@ -3553,54 +3583,22 @@ export const refineWebsiteCode = async (currentCode: string, instructions: strin
 export const generateMarketingVideo = async (
   prompt: string,
   brandInfo: string = '', 
-  aspectRatio: '16:9' | '9:16' = '16:9',
-  skipKeyCheck: boolean = false
+  aspectRatio: '16:9' | '9:16' = '16:9'
 ) => {
-  const ai = await getClient(true, skipKeyCheck); // Requires paid key for Veo
-  
   const fullPrompt = brandInfo 
     ? `Cinematic marketing video: ${prompt}. Style: ${brandInfo}. High quality, professional lighting, 4k`
     : `Cinematic marketing video: ${prompt}, high quality, professional lighting, 4k`;
 
-  let operation = await ai.models.generateVideos({
-    model: 'veo-3.1-fast-generate-preview',
-    prompt: fullPrompt,
-    config: {
-      numberOfVideos: 1,
-      resolution: '1080p',
-      aspectRatio: aspectRatio
-    }
-  });
-
-  // Polling logic
-  while (!operation.done) {
-    await new Promise(resolve => setTimeout(resolve, 5000)); // Check every 5s
-    operation = await ai.operations.getVideosOperation({operation: operation});
-  }
-
-  const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
-  if (!videoUri) throw new Error("Failed to generate video");
-
-  // Fetch the actual video blob
-  const response = await fetch(`${videoUri}&key=${import.meta.env.VITE_API_KEY}`);
-  const blob = await response.blob();
-  return URL.createObjectURL(blob);
+  return generateVideo(fullPrompt, aspectRatio);
 };
 
-// Function to handle key selection
-export const promptForKeySelection = async () => {
-    if (window.aistudio) {
-        await window.aistudio.openSelectKey();
-    }
-}
-
 // AI Website Editor - Edit website via natural language prompts
 export const editWebsiteWithAI = async (
   currentCode: string,
   userPrompt: string,
   selectedElement?: { tagName: string; className: string; textContent?: string; outerHTML: string }
 ) => {
-    const ai = await getClient();
+    const ai = getGeminiClient('site_edit');
 
     const elementContext = selectedElement
       ? `\n\nThe user has selected this specific element to modify:\nTag: ${selectedElement.tagName}\nClasses: ${selectedElement.className}\nContent: ${selectedElement.textContent || 'N/A'}\nHTML: ${selectedElement.outerHTML.substring(0, 500)}...`
@@ -3639,7 +3637,7 @@ Return the updated HTML code:`,
 
 // Generate a summary of changes made to the website
 export const summarizeWebsiteChanges = async (oldCode: string, newCode: string, userPrompt: string) => {
-    const ai = await getClient();
+    const ai = getGeminiClient('copywriting');
 
     const response = await ai.models.generateContent({
         model: 'gemini-2.0-flash',
@@ -3661,7 +3659,7 @@ Provide a brief, user-friendly summary of what was changed (e.g., "Changed the h
 
 // Generate initial website from description
 export const generateWebsiteFromPrompt = async (description: string, businessName: string) => {
-    const ai = await getClient();
+    const ai = getGeminiClient('site_build');
     const response = await ai.models.generateContent({
         model: 'gemini-2.5-flash',
         contents: `Create a complete, professional single-page website for: "${businessName}"
@@ -3699,7 +3697,7 @@ export const addPageToWebsite = async (
     pageLabel: string,
     businessContext: string
 ): Promise<string> => {
-    const ai = await getClient();
+    const ai = getGeminiClient('site_edit');
 
     const response = await ai.models.generateContent({
         model: 'gemini-2.0-flash',
@@ -3758,7 +3756,7 @@ export const fixWebsiteIssues = async (
     discrepancies: DiscrepancyReport[],
     designSpec: DesignSpecification
 ): Promise<string> => {
-    const ai = await getClient();
+    const ai = getGeminiClient('site_edit');
 
     // Build specific fix instructions from discrepancies
     const fixInstructions = discrepancies.map((d, i) =>
@@ -3834,7 +3832,7 @@ export const fetchLogoFromGoogle = async (
     businessName: string,
     location?: string
 ): Promise<{ logoUrl: string | null; source: string }> => {
-    const ai = await getClient();
+    const ai = getGeminiClient('brand_analysis');
 
     const searchQuery = `${businessName} ${location || ''} company logo official`;
 
@@ -3893,10 +3891,9 @@ Return ONLY the JSON, no other text.`,
  */
 export const fixLogoWithGemini = async (
     logoDataUrl: string,
-    businessName: string,
-    skipKeyCheck: boolean = false
+    businessName: string
 ): Promise<string> => {
-    const ai = await getClient(true, skipKeyCheck); // Requires paid key for image generation
+    const ai = getGeminiClient('image_generation');
 
     // Remove data URL prefix
     const imageData = logoDataUrl.includes(',')
@@ -0,0 +1,295 @@
+/**
+ * Client Invoice Service
+ *
+ * Frontend service for server-side invoice operations such as
+ * invoice numbers, online payment links, PDF rendering and shareable quotes.
+ */
+
+import { httpsCallable } from "firebase/functions";
+import { functions } from "../lib/firebase";
+import { InvoicePaymentLink, InvoicePdfRecord, Lead, Quote } from "../types";
+
+// ============================================
+// Type Definitions
+// ============================================
+
+interface InvoiceRequest {
+  leadId: string;
+  invoiceId: string;
+}
+
+export interface ConnectStripeAccountResult {
+  connected: boolean;
+  onboardingUrl?: string;
+}
+
+interface AllocateInvoiceNumberResponse {
+  invoiceNumber: string;
+}
+
+interface CreateInvoicePaymentLinkResponse {
+  paymentLink: InvoicePaymentLink;
+}
+
+interface ShareQuoteRequest {
+  leadId: string;
+  quoteId: string;
+}
+
+export interface ShareQuoteResult {
+  url: string;
+  quote: Quote;
+  leadStatus: Lead["status"];
+}
+
+export interface GenerateInvoicePdfResult {
+  pdf: InvoicePdfRecord;
+  url: string;
+  expiresAt: number;
+}
+
+// ============================================
+// Cloud Function Callables
+// ============================================
+
+// Create dummy callable for when Firebase isn't configured
+const createDummyCallable = <TReq, TRes>(name: string) => {
+  return (() => {
+    throw new Error(
+      `Firebase not configured. Cannot call ${name}. Please set up Firebase credentials.`
+    );
+  }) as unknown as ReturnType<typeof httpsCallable<TReq, TRes>>;
+};
+
+const allocateInvoiceNumberCallable = functions
+  ? httpsCallable<void, AllocateInvoiceNumberResponse>(functions, "allocateInvoiceNumber")
+  : createDummyCallable<void, AllocateInvoiceNumberResponse>("allocateInvoiceNumber");
+
+const connectStripeAccountCallable = functions
+  ? httpsCallable<void, ConnectStripeAccountResult>(functions, "connectStripeAccount")
+  : createDummyCallable<void, ConnectStripeAccountResult>("connectStripeAccount");
+
+const createInvoicePaymentLinkCallable = functions
+  ? httpsCallable<InvoiceRequest, CreateInvoicePaymentLinkResponse>(
+      functions,
+      "createInvoicePaymentLink"
+    )
+  : createDummyCallable<InvoiceRequest, CreateInvoicePaymentLinkResponse>(
+      "createInvoicePaymentLink"
+    );
+
+const generateInvoicePdfCallable = functions
+  ? httpsCallable<InvoiceRequest, GenerateInvoicePdfResult>(
+      functions,
+      "generateInvoicePdf"
+    )
+  : createDummyCallable<InvoiceRequest, GenerateInvoicePdfResult>(
+      "generateInvoicePdf"
+    );
+
+const shareQuoteCallable = functions
+  ? httpsCallable<ShareQuoteRequest, ShareQuoteResult>(functions, "shareQuote")
+  : createDummyCallable<ShareQuoteRequest, ShareQuoteResult>("shareQuote");
+
+// ============================================
+// Invoice Numbers
+// ============================================
+
+/**
+ * Issue the next number for a new invoice
+ *
+ * Numbers come from one sequence per user on the server, shared with
+ * recurring and quote-converted invoices, so they never repeat.
+ *
+ * @returns The invoice number, e.g. INV-2026-00042
+ */
+export async function allocateInvoiceNumber(): Promise<string> {
+  try {
+    const result = await allocateInvoiceNumberCallable();
+    return result.data.invoiceNumber;
+  } catch (error: unknown) {
+    console.error("Error allocating invoice number:", error);
+
+    if (error && typeof error === "object" && "code" in error) {
+      const firebaseError = error as { code: string; message: string };
+      switch (firebaseError.code) {
+        case "functions/unauthenticated":
+          throw new Error("Please log in to create invoices");
+        default:
+          throw new Error(firebaseError.message || "Failed to get an invoice number");
+      }
+    }
+
+    if (error instanceof Error) {
+      throw error;
+    }
+
+    throw new Error("Failed to get an invoice number. Please try again.");
+  }
+}
+
+// ============================================
+// Payment Links
+// ============================================
+
+/**
+ * Set up the Stripe account the user's clients pay invoices to
+ *
+ * Payments go straight to the user's own Stripe account. Until Stripe has
+ * everything it needs, the result carries a link to Stripe's onboarding.
+ *
+ * @returns Whether the account can take payments, or where to finish setting it up
+ */
+export async function connectStripeAccount(): Promise<ConnectStripeAccountResult> {
+  try {
+    const result = await connectStripeAccountCallable();
+    return result.data;
+  } catch (error: unknown) {
+    console.error("Error connecting Stripe account:", error);
+
+    if (error && typeof error === "object" && "code" in error) {
+      const firebaseError = error as { code: string; message: string };
+      switch (firebaseError.code) {
+        case "functions/unauthenticated":
+          throw new Error("Please log in to set up online payments");
+        default:
+          throw new Error(firebaseError.message || "Failed to set up online payments");
+      }
+    }
+
+    if (error instanceof Error) {
+      throw error;
+    }
+
+    throw new Error("Failed to set up online payments. Please try again.");
+  }
+}
+
+/**
+ * Create (or reuse) a Stripe payment link for a client invoice
+ *
+ * Payments made through the link are recorded on the invoice automatically
+ * by the Stripe webhook.
+ *
+ * @param leadId - The customer the invoice belongs to
+ * @param invoiceId - The invoice to collect payment for
+ * @returns The payment link details
+ */
+export async function createInvoicePaymentLink(
+  leadId: string,
+  invoiceId: string
+): Promise<InvoicePaymentLink> {
+  try {
+    const result = await createInvoicePaymentLinkCallable({ leadId, invoiceId });
+    return result.data.paymentLink;
+  } catch (error: unknown) {
+    console.error("Error creating payment link:", error);
+
+    if (error && typeof error === "object" && "code" in error) {
+      const firebaseError = error as { code: string; message: string };
+      switch (firebaseError.code) {
+        case "functions/unauthenticated":
+          throw new Error("Please log in to create a payment link");
+        case "functions/not-found":
+          throw new Error(firebaseError.message || "Invoice not found");
+        case "functions/failed-precondition":
+          throw new Error(firebaseError.message || "This invoice cannot be paid online");
+        default:
+          throw new Error(firebaseError.message || "Failed to create payment link");
+      }
+    }
+
+    if (error instanceof Error) {
+      throw error;
+    }
+
+    throw new Error("Failed to create payment link. Please try again.");
+  }
+}
+
+// ============================================
+// PDF Rendering
+// ============================================
+
+/**
+ * Render an invoice to PDF on the server
+ *
+ * Every call stores a new immutable copy, so call this when the invoice is
+ * actually being sent or downloaded.
+ *
+ * @param leadId - The customer the invoice belongs to
+ * @param invoiceId - The invoice to render
+ * @returns The stored PDF record and a temporary signed download URL
+ */
+export async function generateInvoicePdf(
+  leadId: string,
+  invoiceId: string
+): Promise<GenerateInvoicePdfResult> {
+  try {
+    const result = await generateInvoicePdfCallable({ leadId, invoiceId });
+    return result.data;
+  } catch (error: unknown) {
+    console.error("Error generating invoice PDF:", error);
+
+    if (error && typeof error === "object" && "code" in error) {
+      const firebaseError = error as { code: string; message: string };
+      switch (firebaseError.code) {
+        case "functions/unauthenticated":
+          throw new Error("Please log in to download invoices");
+        case "functions/not-found":
+          throw new Error(firebaseError.message || "Invoice not found");
+        default:
+          throw new Error(firebaseError.message || "Failed to generate invoice PDF");
+      }
+    }
+
+    if (error instanceof Error) {
+      throw error;
+    }
+
+    throw new Error("Failed to generate invoice PDF. Please try again.");
+  }
+}
+
+// ============================================
+// Quotes
+// ============================================
+
+/**
+ * Get the public acceptance link for a quote
+ *
+ * Sharing marks a draft quote as sent. When the client accepts on the public
+ * page, the quote is converted into an invoice and the lead marked converted.
+ *
+ * @param leadId - The customer the quote belongs to
+ * @param quoteId - The quote to share
+ * @returns The public URL plus the quote and lead status as stored after sharing
+ */
+export async function shareQuote(leadId: string, quoteId: string): Promise<ShareQuoteResult> {
+  try {
+    const result = await shareQuoteCallable({ leadId, quoteId });
+    return result.data;
+  } catch (error: unknown) {
+    console.error("Error sharing quote:", error);
+
+    if (error && typeof error === "object" && "code" in error) {
+      const firebaseError = error as { code: string; message: string };
+      switch (firebaseError.code) {
+        case "functions/unauthenticated":
+          throw new Error("Please log in to share quotes");
+        case "functions/not-found":
+          throw new Error(firebaseError.message || "Quote not found");
+        case "functions/failed-precondition":
+          throw new Error(firebaseError.message || "This quote can no longer be shared");
+        default:
+          throw new Error(firebaseError.message || "Failed to share quote");
+      }
+    }
+
+    if (error instanceof Error) {
+      throw error;
+    }
+
+    throw new Error("Failed to share quote. Please try again.");
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * Lead Service
+ *
+ * Frontend service for customer operations that must run server-side.
+ */
+
+import { httpsCallable } from "firebase/functions";
+import { functions } from "../lib/firebase";
+import { Lead, SiteAuditReport, WebsiteSignals } from "../types";
+
+// ============================================
+// Type Definitions
+// ============================================
+
+interface MergeLeadsRequest {
+  primaryLeadId: string;
+  duplicateLeadId: string;
+}
+
+interface MergeLeadsResponse {
+  lead: Lead;
+}
+
+interface MigrateCustomerStorageRequest {
+  leadIds?: string[];
+}
+
+interface MigrateCustomerStorageResponse {
+  migrated: number;
+  remaining: number;
+}
+
+interface InspectWebsitesRequest {
+  urls: string[];
+}
+
+interface InspectWebsitesResponse {
+  results: WebsiteSignals[];
+}
+
+interface AuditWebsiteRequest {
+  url: string;
+}
+
+interface AuditWebsiteResponse {
+  report: SiteAuditReport;
+}
+
+// ============================================
+// Cloud Function Callables
+// ============================================
+
+// Create dummy callable for when Firebase isn't configured
+const createDummyCallable = <TReq, TRes>(name: string) => {
+  return (() => {
+    throw new Error(
+      `Firebase not configured. Cannot call ${name}. Please set up Firebase credentials.`
+    );
+  }) as unknown as ReturnType<typeof httpsCallable<TReq, TRes>>;
+};
+
+const mergeLeadsCallable = functions
+  ? httpsCallable<MergeLeadsRequest, MergeLeadsResponse>(functions, "mergeLeads")
+  : createDummyCallable<MergeLeadsRequest, MergeLeadsResponse>("mergeLeads");
+
+const migrateCustomerStorageCallable = functions
+  ? httpsCallable<MigrateCustomerStorageRequest, MigrateCustomerStorageResponse>(functions, "migrateCustomerStorage")
+  : createDummyCallable<MigrateCustomerStorageRequest, MigrateCustomerStorageResponse>("migrateCustomerStorage");
+
+const inspectWebsitesCallable = functions
+  ? httpsCallable<InspectWebsitesRequest, InspectWebsitesResponse>(functions, "inspectWebsites")
+  : createDummyCallable<InspectWebsitesRequest, InspectWebsitesResponse>("inspectWebsites");
+
+const auditWebsiteCallable = functions
+  ? httpsCallable<AuditWebsiteRequest, AuditWebsiteResponse>(functions, "auditWebsite")
+  : createDummyCallable<AuditWebsiteRequest, AuditWebsiteResponse>("auditWebsite");
+
+// Matches MAX_WEBSITES_PER_INSPECTION in the functions config
+const MAX_WEBSITES_PER_INSPECTION = 10;
+
+// ============================================
+// Merging
+// ============================================
+
+/**
+ * Merge a duplicate customer into another
+ *
+ * History, communications, invoices, recurring invoices and quotes of both
+ * customers are combined on the primary; the duplicate is removed. Quote and
+ * payment links already sent for the duplicate keep working.
+ *
+ * @returns The merged customer
+ */
+export async function mergeLeads(primaryLeadId: string, duplicateLeadId: string): Promise<Lead> {
+  try {
+    const result = await mergeLeadsCallable({ primaryLeadId, duplicateLeadId });
+    return result.data.lead;
+  } catch (error: unknown) {
+    console.error("Error merging customers:", error);
+
+    if (error && typeof error === "object" && "code" in error) {
+      const firebaseError = error as { code: string; message: string };
+      switch (firebaseError.code) {
+        case "functions/unauthenticated":
+          throw new Error("Please log in to merge customers");
+        case "functions/not-found":
+          throw new Error("One of these customers no longer exists");
+        default:
+          throw new Error(firebaseError.message || "Failed to merge customers");
+      }
+    }
+
+    if (error instanceof Error) {
+      throw error;
+    }
+
+    throw new Error("Failed to merge customers. Please try again.");
+  }
+}
+
+// ============================================
+// Storage Migration
+// ============================================
+
+/**
+ * Move customers saved in the old single-document layout over to
+ * sub-collections and Storage. Large accounts take several calls.
+ *
+ * @returns How many customers were migrated
+ */
+export async function migrateCustomerStorage(leadIds: string[]): Promise<number> {
+  try {
+    let migrated = 0;
+    let remaining = leadIds.length;
+    while (remaining > 0) {
+      const result = await migrateCustomerStorageCallable({ leadIds });
+      migrated += result.data.migrated;
+      // Stop if a call makes no progress (e.g. leads changed mid-migration)
+      if (result.data.migrated === 0 || result.data.remaining >= remaining) break;
+      remaining = result.data.remaining;
+    }
+    return migrated;
+  } catch (error: unknown) {
+    console.error("Error migrating customers:", error);
+
+    if (error instanceof Error) {
+      throw error;
+    }
+
+    throw new Error("Failed to migrate customers. Please try again.");
+  }
+}
+
+// ============================================
+// Website Inspection
+// ============================================
+
+/**
+ * Check websites for lead scoring signals (HTTPS, mobile viewport, copyright
+ * year, legacy markup). Larger lists are split into several requests.
+ *
+ * @returns One result per URL, in the same order. Sites that could not be
+ * fetched come back with reachable: false.
+ */
+export async function inspectWebsites(urls: string[]): Promise<WebsiteSignals[]> {
+  try {
+    const results: WebsiteSignals[] = [];
+    for (let i = 0; i < urls.length; i += MAX_WEBSITES_PER_INSPECTION) {
+      const result = await inspectWebsitesCallable({ urls: urls.slice(i, i + MAX_WEBSITES_PER_INSPECTION) });
+      results.push(...result.data.results);
+    }
+    return results;
+  } catch (error: unknown) {
+    console.error("Error inspecting websites:", error);
+
+    if (error && typeof error === "object" && "code" in error) {
+      const firebaseError = error as { code: string; message: string };
+      switch (firebaseError.code) {
+        case "functions/unauthenticated":
+          throw new Error("Please log in to check websites");
+        default:
+          throw new Error(firebaseError.message || "Failed to check websites");
+      }
+    }
+
+    if (error instanceof Error) {
+      throw error;
+    }
+
+    throw new Error("Failed to check websites. Please try again.");
+  }
+}
+
+/**
+ * Audit a prospect's existing website: performance, mobile support, meta
+ * tags and structured data, broken links, accessibility and HTTPS
+ *
+ * @returns The report. A site that can't be loaded still produces a report.
+ */
+export async function auditWebsite(url: string): Promise<SiteAuditReport> {
+  try {
+    const result = await auditWebsiteCallable({ url });
+    return result.data.report;
+  } catch (error: unknown) {
+    console.error("Error auditing website:", error);
+
+    if (error && typeof error === "object" && "code" in error) {
+      const firebaseError = error as { code: string; message: string };
+      switch (firebaseError.code) {
+        case "functions/unauthenticated":
+          throw new Error("Please log in to audit websites");
+        case "functions/deadline-exceeded":
+          throw new Error("The website took too long to audit. Please try again.");
+        default:
+          throw new Error(firebaseError.message || "Failed to audit the website");
+      }
+    }
+
+    if (error instanceof Error) {
+      throw error;
+    }
+
+    throw new Error("Failed to audit the website. Please try again.");
+  }
+}
@@ -12,6 +12,8 @@ import {
   SetupDomainResult,
   DomainStatusResult,
   PublishedWebsite,
+  WebsiteRelease,
+  RollbackWebsiteResult,
 } from "../types";
 
 // ============================================
@@ -22,11 +24,18 @@ interface PublishWebsiteRequest {
   htmlContent: string;
   siteName: string;
   leadId?: string;
+  changeSummary?: string;
 }
 
 interface UpdateWebsiteRequest {
   websiteId: string;
   htmlContent: string;
+  changeSummary?: string;
+}
+
+interface RollbackWebsiteRequest {
+  websiteId: string;
+  releaseId: string;
 }
 
 interface SetupDomainRequest {
@@ -42,6 +51,11 @@ interface GetUserWebsitesResponse {
   websites: Omit<PublishedWebsite, "htmlContent">[];
 }
 
+interface GetWebsiteReleasesResponse {
+  releases: WebsiteRelease[];
+  currentReleaseId?: string;
+}
+
 // ============================================
 // Cloud Function Callables
 // ============================================
@@ -74,10 +88,38 @@ const updateWebsiteCallable = functions
       "updateWebsite"
     );
 
+const promoteWebsiteCallable = functions
+  ? httpsCallable<WebsiteIdRequest, PublishWebsiteResult>(
+      functions,
+      "promoteWebsite"
+    )
+  : createDummyCallable<WebsiteIdRequest, PublishWebsiteResult>(
+      "promoteWebsite"
+    );
+
 const getUserWebsitesCallable = functions
   ? httpsCallable<void, GetUserWebsitesResponse>(functions, "getUserWebsites")
   : createDummyCallable<void, GetUserWebsitesResponse>("getUserWebsites");
 
+const getWebsiteReleasesCallable = functions
+  ? httpsCallable<WebsiteIdRequest, GetWebsiteReleasesResponse>(
+      functions,
+      "getWebsiteReleases"
+    )
+  : createDummyCallable<WebsiteIdRequest, GetWebsiteReleasesResponse>(
+      "getWebsiteReleases"
+    );
+
+const rollbackWebsiteCallable = functions
+  ? httpsCallable<RollbackWebsiteRequest, RollbackWebsiteResult>(
+      functions,
+      "rollbackWebsite",
+      { timeout: 120000 }
+    )
+  : createDummyCallable<RollbackWebsiteRequest, RollbackWebsiteResult>(
+      "rollbackWebsite"
+    );
+
 const deleteWebsiteCallable = functions
   ? httpsCallable<WebsiteIdRequest, { success: boolean }>(
       functions,
@@ -130,18 +172,21 @@ const removeCustomDomainCallable = functions
  * @param htmlContent - The HTML content to publish
  * @param siteName - The name of the website
  * @param leadId - Optional lead ID to associate with the website
+ * @param changeSummary - Optional description recorded with the release
  * @returns PublishWebsiteResult with the published URL
  */
 export async function publishWebsite(
   htmlContent: string,
   siteName: string,
-  leadId?: string
+  leadId?: string,
+  changeSummary?: string
 ): Promise<PublishWebsiteResult> {
   try {
     const result = await publishWebsiteCallable({
       htmlContent,
       siteName,
       leadId,
+      changeSummary,
     });
     return result.data;
   } catch (error: unknown) {
@@ -157,7 +202,8 @@ export async function publishWebsite(
           throw new Error(firebaseError.message || "Invalid website content");
         case "functions/resource-exhausted":
           throw new Error(
-            "Publishing limit reached. Please try again later."
+            firebaseError.message ||
+              "Hosting slot limit reached. Delete a website or upgrade your plan to publish another one."
           );
         default:
           throw new Error(
@@ -175,14 +221,16 @@ export async function publishWebsite(
  *
  * @param websiteId - The ID of the website to update
  * @param htmlContent - The new HTML content
+ * @param changeSummary - Optional description recorded with the release
  * @returns PublishWebsiteResult with the updated URL
  */
 export async function updateWebsite(
   websiteId: string,
-  htmlContent: string
+  htmlContent: string,
+  changeSummary?: string
 ): Promise<PublishWebsiteResult> {
   try {
-    const result = await updateWebsiteCallable({ websiteId, htmlContent });
+    const result = await updateWebsiteCallable({ websiteId, htmlContent, changeSummary });
     return result.data;
   } catch (error: unknown) {
     console.error("Error updating website:", error);
@@ -202,6 +250,37 @@ export async function updateWebsite(
   }
 }
 
+/**
+ * Promote a draft website to its own production Hosting site,
+ * so it no longer expires
+ *
+ * @param websiteId - The ID of the website to promote
+ * @returns PublishWebsiteResult with the production URL
+ */
+export async function promoteWebsite(
+  websiteId: string
+): Promise<PublishWebsiteResult> {
+  try {
+    const result = await promoteWebsiteCallable({ websiteId });
+    return result.data;
+  } catch (error: unknown) {
+    console.error("Error promoting website:", error);
+
+    if (error && typeof error === "object" && "code" in error) {
+      const firebaseError = error as { code: string; message: string };
+      if (firebaseError.code === "functions/not-found") {
+        throw new Error("Website not found");
+      }
+      if (firebaseError.code === "functions/permission-denied") {
+        throw new Error("You do not have permission to promote this website");
+      }
+      throw new Error(firebaseError.message || "Failed to promote website");
+    }
+
+    throw new Error("Failed to promote website. Please try again.");
+  }
+}
+
 /**
  * Get all websites published by the current user
  *
@@ -219,6 +298,56 @@ export async function getUserWebsites(): Promise<
   }
 }
 
+/**
+ * Get a website's releases, newest first
+ *
+ * @param websiteId - The ID of the website
+ * @returns The releases and the ID of the live one
+ */
+export async function getWebsiteReleases(
+  websiteId: string
+): Promise<GetWebsiteReleasesResponse> {
+  try {
+    const result = await getWebsiteReleasesCallable({ websiteId });
+    return result.data;
+  } catch (error: unknown) {
+    console.error("Error fetching website releases:", error);
+    throw new Error("Failed to fetch the website's history. Please try again.");
+  }
+}
+
+/**
+ * Make an earlier release of a website live again
+ *
+ * @param websiteId - The ID of the website
+ * @param releaseId - The ID of the release to restore
+ * @returns RollbackWebsiteResult with the URL and the restored HTML
+ */
+export async function rollbackWebsite(
+  websiteId: string,
+  releaseId: string
+): Promise<RollbackWebsiteResult> {
+  try {
+    const result = await rollbackWebsiteCallable({ websiteId, releaseId });
+    return result.data;
+  } catch (error: unknown) {
+    console.error("Error rolling back website:", error);
+
+    if (error && typeof error === "object" && "code" in error) {
+      const firebaseError = error as { code: string; message: string };
+      if (firebaseError.code === "functions/not-found") {
+        throw new Error(firebaseError.message || "Release not found");
+      }
+      if (firebaseError.code === "functions/permission-denied") {
+        throw new Error("You do not have permission to roll back this website");
+      }
+      throw new Error(firebaseError.message || "Failed to roll back website");
+    }
+
+    throw new Error("Failed to roll back website. Please try again.");
+  }
+}
+
 /**
  * Delete a published website
  *
@@ -276,6 +405,12 @@ export async function setupCustomDomain(
           firebaseError.message || "Please enter a valid domain"
         );
       }
+      if (firebaseError.code === "functions/failed-precondition") {
+        throw new Error(
+          firebaseError.message ||
+            "Promote this website to production before connecting a custom domain"
+        );
+      }
       throw new Error(
         firebaseError.message || "Failed to set up custom domain"
       );
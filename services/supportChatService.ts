@@ -5,7 +5,7 @@
  * Handles intent classification, context-aware responses, and escalation.
  */
 
-import { GoogleGenAI } from '@google/genai';
+import { getGeminiClient } from './geminiProxy';
 
 // ============================================
 // Types
@@ -365,15 +365,9 @@ Detected intent: ${intent}
 Please respond helpfully. If this is a greeting, warmly greet the user and ask how you can help. Keep your response focused and actionable.`;
 
   try {
-    // Use Gemini for response generation
-    const apiKey = import.meta.env.VITE_API_KEY || import.meta.env.VITE_GEMINI_API_KEY || localStorage.getItem('gemini_api_key');
-
-    if (!apiKey) {
-      // Fallback to rule-based responses if no API key
-      return generateFallbackResponse(userMessage, intent, context);
-    }
-
-    const genAI = new GoogleGenAI({ apiKey });
+    // Use Gemini for response generation; falls back to rule-based
+    // responses below if the call fails (e.g. out of credits)
+    const genAI = getGeminiClient('chat_message');
 
     const result = await genAI.models.generateContent({
       model: 'gemini-2.0-flash',
@@ -1,9 +1,6 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { Type } from "@google/genai";
 import { DesignSpecification, VerificationResult, DiscrepancyReport, SectionBackground } from "../types";
-
-const getClient = () => {
-  return new GoogleGenAI({ apiKey: import.meta.env.VITE_API_KEY });
-};
+import { getGeminiClient } from "./geminiProxy";
 
 // Schema for verification result
 const verificationResultSchema = {
@@ -57,7 +54,8 @@ export const verifyWebsiteAgainstSpec = async (
   designSpec: DesignSpecification,
   conceptImageBase64?: string
 ): Promise<VerificationResult> => {
-  const ai = getClient();
+  // Checking a build against its spec is priced like an edit
+  const ai = getGeminiClient('site_edit');
 
   // If we have a concept image, do visual comparison
   if (conceptImageBase64) {
@@ -7,6 +7,8 @@
 
 import { GoogleGenAI, Modality, LiveServerMessage, LiveClientMessage } from '@google/genai';
 import { SupportContext, SupportIntent } from './supportChatService';
+import { createVoiceSession } from './geminiProxy';
+import { isFirebaseConfigured } from '../lib/firebase';
 
 // ============================================
 // Types
@@ -94,14 +96,11 @@ export class VoiceChatSession {
    */
   async start(): Promise<boolean> {
     try {
-      // Get API key
-      const apiKey = import.meta.env.VITE_API_KEY || import.meta.env.VITE_GEMINI_API_KEY || localStorage.getItem('gemini_api_key');
+      // Pay for the session and get a single-use Live API token; the
+      // session stops working when the paid minutes run out
+      const { token } = await createVoiceSession();
 
-      if (!apiKey) {
-        throw new Error('API key not found. Please configure your API key.');
-      }
-
-      this.genAI = new GoogleGenAI({ apiKey });
+      this.genAI = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
 
       // Request microphone access
       this.mediaStream = await navigator.mediaDevices.getUserMedia({
@@ -624,10 +623,9 @@ export async function checkVoiceChatAvailability(): Promise<{
   available: boolean;
   reason?: string;
 }> {
-  // Check for API key
-  const apiKey = import.meta.env.VITE_API_KEY || import.meta.env.VITE_GEMINI_API_KEY || localStorage.getItem('gemini_api_key');
-  if (!apiKey) {
-    return { available: false, reason: 'Please configure your API key in Settings to enable voice chat' };
+  // Sessions are started by a Cloud Function
+  if (!isFirebaseConfigured()) {
+    return { available: false, reason: 'Voice chat is unavailable because Firebase is not configured' };
   }
 
   // Check for secure context (HTTPS or localhost)
@@ -1,9 +1,9 @@
 
 export interface HistoryItem {
   id: string;
-  type: 'STRATEGY' | 'IMAGE' | 'VIDEO' | 'EMAIL' | 'WEBSITE_CONCEPT' | 'WEBSITE_DEPLOY' | 'INVOICE' | 'PAYMENT' | 'COMMUNICATION';
+  type: 'STRATEGY' | 'IMAGE' | 'VIDEO' | 'EMAIL' | 'WEBSITE_CONCEPT' | 'WEBSITE_DEPLOY' | 'INVOICE' | 'PAYMENT' | 'COMMUNICATION' | 'STAGE_CHANGE' | 'SITE_AUDIT';
   timestamp: number;
-  content: any; // URL for media, JSON for strategy, text for email
+  content: any; // URL for media, JSON for strategy, text for email, SiteAuditReport for audits
   metadata?: {
     prompt?: string;
     platform?: string; // e.g., Instagram, Facebook
@@ -12,9 +12,18 @@ export interface HistoryItem {
     amount?: number;
     status?: string;
     websiteId?: string; // For website deployments
+    fromStageId?: string; // For pipeline stage changes
+    toStageId?: string;
+    reason?: string; // Why a lead was marked lost
   };
+  // Set on stored records whose content was moved to Storage; the loaded item has it back in content
+  contentPath?: string;
+  contentEncoding?: StoredContentEncoding;
 }
 
+// How a value moved to Storage is turned back into the original
+export type StoredContentEncoding = 'data_url' | 'text' | 'json';
+
 export interface InvoiceItem {
   id: string;
   description: string;
@@ -30,6 +39,25 @@ export interface InvoiceSender {
   phone?: string;
   email?: string;
   website?: string;
+  defaultCurrency?: string; // ISO 4217 code used for new invoices from this sender
+}
+
+// A single tax in a tax profile; compound taxes apply on top of earlier taxes
+export interface TaxLine {
+  name: string;
+  rate: number; // Percentage, e.g. 20 for 20%
+  compound?: boolean;
+}
+
+export interface TaxProfile {
+  id: string;
+  name: string; // e.g. "VAT 20%", "GST + PST (BC)"
+  lines: TaxLine[];
+}
+
+// Tax line as applied to an invoice, with its computed amount
+export interface InvoiceTaxLine extends TaxLine {
+  amount: number;
 }
 
 export interface PaymentRecord {
@@ -47,13 +75,16 @@ export interface Invoice {
   amount: number;
   description: string;
   status: 'draft' | 'sent' | 'partial' | 'paid' | 'overdue';
+  currency?: string; // ISO 4217 code; invoices without one are USD
   createdAt: number;
   dueDate?: number;
   paidAt?: number;
   items: InvoiceItem[];
   subtotal: number;
-  taxRate: number;
-  taxAmount: number;
+  taxRate: number; // Combined rate of all tax lines
+  taxAmount: number; // Sum of all tax lines
+  taxLines?: InvoiceTaxLine[];
+  taxProfileId?: string;
   discount: number;
   discountType: 'percentage' | 'fixed';
   total: number;
@@ -67,8 +98,173 @@ export interface Invoice {
   // Payment tracking
   paidAmount: number;
   payments?: PaymentRecord[];
+  // Automated reminders sent by the scheduled reminder job
+  reminders?: InvoiceReminderLog[];
+  // Set when generated from a recurring schedule
+  recurringTemplateId?: string;
+  // Set when created from an accepted quote
+  quoteId?: string;
+  // Stripe Checkout link the client can use to pay online
+  paymentLink?: InvoicePaymentLink;
+  // Immutable PDF copies rendered server-side
+  pdfs?: InvoicePdfRecord[];
+}
+
+export interface InvoicePdfRecord {
+  id: string;
+  storagePath: string;
+  fileName: string;
+  createdAt: number;
+}
+
+export interface InvoicePaymentLink {
+  url: string;
+  sessionId: string;
+  accountId?: string; // Stripe account the client pays
+  amount: number; // Balance the link was created for
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface InvoiceReminderLog {
+  offsetDays: number; // Days relative to due date (negative = before)
+  sentAt: number;
+  communicationId?: string; // Once the email went out
+  error?: string; // Why it wasn't sent
+}
+
+export type RecurringInterval = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export type RecurringEndCondition =
+  | { type: 'never' }
+  | { type: 'after_count'; count: number }
+  | { type: 'until_date'; date: number };
+
+// Template a scheduled function materializes into new invoices for a lead
+export interface RecurringInvoiceTemplate {
+  id: string;
+  interval: RecurringInterval;
+  startDate: number;
+  nextRunAt: number; // Start of the next billing period to invoice
+  dueInDays: number; // Due date offset from the invoice date
+  items: InvoiceItem[];
+  currency?: string;
+  taxRate: number;
+  taxLines?: TaxLine[];
+  taxProfileId?: string;
+  discount: number;
+  discountType: 'percentage' | 'fixed';
+  notes?: string;
+  terms?: string;
+  sender?: InvoiceSender;
+  endCondition: RecurringEndCondition;
+  autoSend: boolean; // Issue generated invoices as 'sent' instead of 'draft'
+  status: 'active' | 'paused' | 'completed';
+  generatedCount: number;
+  invoiceIds: string[];
+  lastGeneratedAt?: number;
+  createdAt: number;
+}
+
+export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'declined';
+
+// Pre-sale estimate; accepting it on the public quote page creates an invoice
+export interface Quote {
+  id: string;
+  quoteNumber: string;
+  status: QuoteStatus; // Sent quotes past expiresAt are treated as expired
+  currency?: string;
+  items: InvoiceItem[];
+  subtotal: number;
+  taxRate: number;
+  taxAmount: number;
+  taxLines?: InvoiceTaxLine[];
+  taxProfileId?: string;
+  discount: number;
+  discountType: 'percentage' | 'fixed';
+  total: number;
+  notes?: string;
+  terms?: string;
+  sender?: InvoiceSender;
+  createdAt: number;
+  expiresAt: number;
+  shareToken?: string; // Token for the public acceptance page
+  sentAt?: number;
+  respondedAt?: number;
+  acceptedBy?: string; // Name the client signed with
+  declineReason?: string;
+  invoiceId?: string; // Invoice created on acceptance
+}
+
+// Per-user invoicing preferences (users/{uid}/settings/invoicing)
+export interface InvoicingSettings {
+  reminders: {
+    enabled: boolean;
+    offsetsDays: number[];
+  };
+  defaultSender?: InvoiceSender;
+  defaultCurrency: string;
+  reportingCurrency: string;
+  // Units of reporting currency per 1 unit of each currency, maintained by the user
+  exchangeRates: Record<string, number>;
+  taxProfiles: TaxProfile[];
+  defaultTaxProfileId?: string;
+  updatedAt?: number;
+}
+
+export const DEFAULT_INVOICING_SETTINGS: InvoicingSettings = {
+  reminders: {
+    enabled: true,
+    offsetsDays: [-3, 0, 7],
+  },
+  defaultCurrency: 'USD',
+  reportingCurrency: 'USD',
+  exchangeRates: {},
+  taxProfiles: [],
+};
+
+// A column on the pipeline board. Each stage maps onto a lead status so the
+// rest of the app (and server-side status changes) keep working with stages.
+export interface PipelineStage {
+  id: string;
+  name: string;
+  status: Lead['status'];
+  probability: number; // Win probability in percent, used for the weighted forecast
+}
+
+// Per-user pipeline board configuration (users/{uid}/settings/pipeline)
+export interface PipelineSettings {
+  stages: PipelineStage[];
+  updatedAt?: number;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select';
+
+// User-defined lead field; values are kept in Lead.customFields under its id
+export interface CustomFieldDefinition {
+  id: string;
+  label: string;
+  type: CustomFieldType;
+  options?: string[]; // Choices for select fields
 }
 
+// Per-user lead fields (users/{uid}/settings/customFields)
+export interface CustomFieldSettings {
+  fields: CustomFieldDefinition[];
+  updatedAt?: number;
+}
+
+export const DEFAULT_PIPELINE_SETTINGS: PipelineSettings = {
+  stages: [
+    { id: 'new', name: 'New', status: 'new', probability: 5 },
+    { id: 'researching', name: 'Researching', status: 'analyzing', probability: 10 },
+    { id: 'contacted', name: 'Contacted', status: 'contacted', probability: 25 },
+    { id: 'proposal', name: 'Proposal', status: 'negotiating', probability: 60 },
+    { id: 'won', name: 'Won', status: 'converted', probability: 100 },
+    { id: 'lost', name: 'Lost', status: 'lost', probability: 0 },
+  ],
+};
+
 export interface EmailAttachment {
   id: string;
   name: string;
@@ -88,6 +284,46 @@ export interface Communication {
   starred?: boolean;
   attachments?: EmailAttachment[];
   category?: 'pitch' | 'followup' | 'response' | 'invoice' | 'general';
+  messageId?: string; // Set on emails sent or imported through the connected mail account
+  threadSubject?: string; // Normalized subject replies are threaded by
+}
+
+// Connected SMTP/IMAP account (credentials never leave the server)
+export interface MailServerSettings {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (465/993); otherwise STARTTLS
+  username: string;
+}
+
+export interface EmailAccountStatus {
+  fromName: string;
+  fromEmail: string;
+  smtp: MailServerSettings;
+  imap?: MailServerSettings & {
+    enabled: boolean;
+    lastSyncAt?: number;
+    lastError?: string;
+  };
+  updatedAt: number;
+}
+
+export interface LeadFieldMeta {
+  updatedAt: number; // When the edit was made, not when it synced
+  deviceId: string;
+}
+
+// A field edited on this device and on another one before this device synced
+export interface CustomerFieldConflict {
+  id: string;
+  customerId: string;
+  businessName: string;
+  field: string;
+  localValue: unknown;
+  remoteValue: unknown;
+  localUpdatedAt: number;
+  remoteUpdatedAt?: number; // Missing when the other change had no field metadata
+  detectedAt: number;
 }
 
 export interface Lead {
@@ -98,15 +334,43 @@ export interface Lead {
   sourceUrl?: string;
   phone?: string;
   email?: string;
-  status: 'new' | 'analyzing' | 'contacted' | 'negotiating' | 'converted';
+  status: 'new' | 'analyzing' | 'contacted' | 'negotiating' | 'converted' | 'lost';
+
+  // Pipeline
+  pipelineStageId?: string; // Board column; ignored when its stage no longer matches status
+  lostReason?: string;
+  dealValue?: number; // Expected deal value, 0 when unknown
+  dealCurrency?: string;
+  expectedCloseDate?: string; // YYYY-MM-DD, empty when unknown
 
   // CRM Data
   addedAt?: number;
   hasWebsite?: boolean; // Does business have existing website?
   existingWebsiteUrl?: string; // URL of their current website (if detected)
+  category?: string; // Business category from search, e.g. "Bakery"
+  rating?: number; // Average review rating (0-5)
+  reviewCount?: number;
+  websiteSignals?: WebsiteSignals; // Result of checking existingWebsiteUrl
+
+  // User-defined data
+  tags?: string[];
+  customFields?: Record<string, string | number>; // By CustomFieldDefinition id; dates are YYYY-MM-DD, '' when cleared
+
+  // Opportunity score (0-100), recalculated whenever the lead is saved
+  score?: number;
+  scoreBreakdown?: LeadScoreFactor[];
+
   websiteUrl?: string; // The deployed URL
   websiteCode?: string; // The actual HTML code for the website
   websiteConceptImage?: string; // The initial AI concept image
+  websiteCodePath?: string; // Storage path of websiteCode when too large to keep inline
+  websiteConceptImagePath?: string; // Storage path of websiteConceptImage (data URLs)
+
+  // Document layout; history, communications and invoices are sub-collections from version 2
+  storageVersion?: number;
+
+  // Last write of each field, by field name; used to detect conflicting offline edits
+  fieldMeta?: Record<string, LeadFieldMeta>;
 
   // AI Generated Data
   analysis?: string;
@@ -128,9 +392,100 @@ export interface Lead {
 
   // Invoices & Payments
   invoices?: Invoice[];
+  recurringInvoices?: RecurringInvoiceTemplate[];
+  quotes?: Quote[];
 
   // Communications
   communications?: Communication[];
+  followUpSequence?: FollowUpSequence;
+
+  // Follow-up tasks
+  tasks?: LeadTask[];
+}
+
+// Follow-up task on a lead; open tasks have completedAt 0
+export interface LeadTask {
+  id: string;
+  title: string;
+  dueDate: string; // YYYY-MM-DD
+  notes?: string;
+  assignee?: string; // Email of whoever should do it, empty for the account owner
+  reminderAt?: number; // When to email a reminder, 0 for none
+  reminderSentAt?: number;
+  reminderError?: string; // Why the reminder could not be emailed
+  completedAt?: number;
+  createdAt: number;
+}
+
+// What a server-side check of a lead's existing website found
+export interface WebsiteSignals {
+  url: string;
+  checkedAt: number;
+  reachable: boolean;
+  https: boolean;
+  mobileViewport: boolean;
+  copyrightYear?: number;
+  generator?: string; // e.g. "WordPress 4.9"
+  legacyMarkup?: string[]; // e.g. "Flash content", "Frameset layout"
+  error?: string;
+}
+
+export type SiteAuditCategory = 'performance' | 'mobile' | 'seo' | 'links' | 'accessibility' | 'security' | 'content';
+
+export interface SiteAuditIssue {
+  category: SiteAuditCategory;
+  severity: 'high' | 'medium' | 'low';
+  message: string; // Plain language, quotable in a pitch
+}
+
+// Server-side audit of a prospect's existing website, stored as a SITE_AUDIT history item
+export interface SiteAuditReport {
+  url: string;
+  checkedAt: number;
+  finalUrl?: string;
+  responseTimeMs?: number;
+  pageBytes?: number;
+  signals: WebsiteSignals;
+  issues: SiteAuditIssue[]; // Most severe first
+  linksChecked: number;
+  brokenLinks: string[];
+}
+
+// One line of a lead score explanation
+export interface LeadScoreFactor {
+  signal: 'website' | 'reviews' | 'category' | 'base';
+  label: string;
+  points: number;
+}
+
+// Automated pitch follow-ups, drafted by AI and sent from the connected mail account
+export interface FollowUpStep {
+  delayDays: number; // Days after the previous message (or enrollment, for the first step)
+  focus?: string; // Optional angle for the AI draft, e.g. "share a quick case study"
+  sentAt?: number;
+  communicationId?: string;
+}
+
+export type FollowUpStopReason =
+  | 'replied'
+  | 'status_changed'
+  | 'manual'
+  | 'no_email_account'
+  | 'no_recipient'
+  | 'failed';
+
+export interface FollowUpSequence {
+  id: string;
+  status: 'active' | 'completed' | 'stopped';
+  steps: FollowUpStep[];
+  currentStep: number; // Index of the next step to send
+  nextSendAt: number;
+  enrolledAt: number;
+  enrolledStatus: Lead['status']; // Any status change halts the sequence
+  stoppedAt?: number;
+  stopReason?: FollowUpStopReason;
+  failedAttempts?: number;
+  lastError?: string;
 }
 
 export interface GeneratedContent {
@@ -146,6 +501,40 @@ export interface WebsiteConcept {
   codeSnippet?: string;
 }
 
+// Lead searches kept at users/{uid}/savedSearches and re-run on a schedule by a Cloud Function
+export type SavedSearchSchedule = 'off' | 'daily' | 'weekly';
+
+export interface SavedSearch {
+  id: string;
+  query: string;
+  location: string;
+  schedule: SavedSearchSchedule;
+  createdAt: number;
+  nextRunAt?: number; // Absent while the schedule is off
+  lastRunAt?: number;
+  lastNewCount?: number; // New businesses found by the last run
+  lastError?: string;
+}
+
+// Business found by a scheduled search that isn't already a customer (users/{uid}/discoveredLeads)
+export interface DiscoveredLead {
+  id: string;
+  searchId: string;
+  query: string;
+  searchLocation: string;
+  discoveredAt: number;
+  status: 'new' | 'dismissed' | 'saved'; // Triaged entries are kept so they aren't found again
+  businessName: string;
+  location: string;
+  details: string;
+  phone?: string;
+  email?: string;
+  category?: string;
+  rating?: number;
+  reviewCount?: number;
+  existingWebsiteUrl?: string;
+}
+
 export enum AppView {
   LANDING = 'LANDING', // Landing Page
   WIZARD = 'WIZARD', // New Wizard View
@@ -162,6 +551,9 @@ export enum AppView {
   AI_WEBSITE_EDITOR = 'AI_WEBSITE_EDITOR', // AI-powered website editor (Lovable/Bolt style)
   SITES_MANAGER = 'SITES_MANAGER', // Sites Manager Dashboard
   SERVICE_CATALOG = 'SERVICE_CATALOG', // Service & Feature Catalog
+  PIPELINE = 'PIPELINE', // Kanban deal pipeline
+  NEW_LEADS = 'NEW_LEADS', // Inbox of businesses found by scheduled saved searches
+  TASKS = 'TASKS', // Today's follow-up tasks across all customers
   SETTINGS = 'SETTINGS',
 
   // User Pages
@@ -696,17 +1088,46 @@ export interface PublishedWebsite {
   publishedAt: number;
   updatedAt: number;
   sslStatus: 'provisioning' | 'active';
-  expireTime?: string;
+  hostingMode?: HostingMode; // Missing on older websites, which are previews
+  hostingSiteId?: string; // Dedicated Hosting site once in production
+  promotedAt?: number;
+  expireTime?: string; // Only previews expire
+  status?: 'active' | 'suspended' | 'expired'; // Suspended sites are read-only until a hosting slot frees up
+  currentReleaseId?: string;
 }
 
+// Drafts live on an expiring preview channel; production sites have their own Hosting site
+export type HostingMode = 'preview' | 'production';
+
 export interface PublishWebsiteResult {
   success: boolean;
   websiteId: string;
   firebaseUrl: string;
   subdomain: string;
+  hostingMode: HostingMode;
   expireTime?: string;
 }
 
+// One deployment of a website; rolling back re-releases an earlier one as a new release
+export interface WebsiteRelease {
+  id: string;
+  websiteId: string;
+  authorId: string;
+  source: 'publish' | 'update' | 'promote' | 'rollback';
+  hostingMode: HostingMode;
+  hostingSiteId: string;
+  channelId?: string;
+  versionId: string;
+  summary?: string;
+  rolledBackFrom?: string;
+  createdAt: number;
+}
+
+export interface RollbackWebsiteResult extends PublishWebsiteResult {
+  releaseId: string;
+  htmlContent: string;
+}
+
 export interface SetupDomainResult {
   success: boolean;
   dnsRecords: DnsRecord[];
@@ -25,10 +25,6 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react(), sentryPlugin].filter(Boolean),
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.VITE_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.VITE_API_KEY)
-      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),